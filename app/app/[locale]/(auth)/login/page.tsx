@@ -4,6 +4,8 @@ import {getTranslations} from 'next-intl/server';
 import Link from 'next/link';
 import {LoginForm} from "@/components/auth/login-form";
 import {ExpiredSessionNotice} from "@/components/auth/expired-session-notice";
+import {getSsoProvider} from "@/lib/controller/auth/sso-controller";
+import {SSO_ERROR_REASONS} from "@/lib/domain/sso";
 import {LogIn} from 'lucide-react';
 import {
     Card,
@@ -14,14 +16,33 @@ import {
     CardFooter
 } from "@/components/ui/card";
 
+/**
+ * Props for the LoginPage component.
+ */
+interface LoginPageProps {
+    searchParams: Promise<{
+        /** Reason a single sign-on login failed, set by the provider callback. */
+        ssoError?: string;
+        /** Set by the provider callback when the account still needs its two-factor code. */
+        twoFactor?: string;
+    }>;
+}
+
 /**
  * Login Page Component.
  *
  * Serves as the primary authentication entry point for the application.
  * Handles session expiration notices and renders the login form within a centralized card layout.
+ * Single sign-on logins come back here with an error or for their two-factor step.
  */
-export default async function LoginPage() {
+export default async function LoginPage({searchParams}: LoginPageProps) {
     const t = await getTranslations('pages.auth.login');
+    const tErrors = await getTranslations('errors.sso');
+    const params = await searchParams;
+
+    const ssoProvider = await getSsoProvider();
+    const ssoErrorReason = SSO_ERROR_REASONS.find((reason) => reason === params.ssoError);
+    const ssoError = ssoErrorReason ? tErrors(ssoErrorReason) : undefined;
 
     return (
         <div className="min-h-screen w-full flex flex-col justify-center items-center bg-muted/30 px-4 py-10">
@@ -49,7 +70,11 @@ export default async function LoginPage() {
                             <ExpiredSessionNotice/>
                         </Suspense>
 
-                        <LoginForm/>
+                        <LoginForm
+                            initialError={ssoError}
+                            initialTwoFactor={params.twoFactor === '1'}
+                            ssoProviderName={ssoProvider?.displayName}
+                        />
                     </CardContent>
 
                     <CardFooter className="bg-muted/30 border-t border-border p-6 justify-center">
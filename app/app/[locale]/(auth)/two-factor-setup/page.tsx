@@ -0,0 +1,73 @@
+/** @format */
+import {redirect} from 'next/navigation';
+import {getTranslations} from 'next-intl/server';
+import {verifySession} from '@/lib/controller/auth/session-controller';
+import {getMyTwoFactorStatus} from '@/lib/controller/auth/two-factor-controller';
+import {ShieldCheck} from 'lucide-react';
+import {TwoFactorSetupForm} from "@/components/auth/two-factor-setup-form";
+import {
+    Card,
+    CardHeader,
+    CardTitle,
+    CardDescription,
+    CardContent
+} from "@/components/ui/card";
+
+/**
+ * Two-Factor Setup Page Component.
+ *
+ * Shown to administrators and coordinators when the platform requires two-factor
+ * authentication for staff and they have not enrolled yet; the dashboard layout sends them here.
+ * Redirects everyone else to the dashboard.
+ */
+export default async function TwoFactorSetupPage() {
+    const t = await getTranslations('pages.auth.twoFactorSetup');
+
+    // Must be logged in to enroll
+    const user = await verifySession();
+    if (!user) {
+        redirect('/login');
+    }
+
+    if (!user.emailVerified) {
+        redirect('/verify-email-pending');
+    }
+
+    // Nothing to do if two-factor is already enabled or not required
+    const statusResult = await getMyTwoFactorStatus();
+    if (!statusResult.success || statusResult.data.enabled || !statusResult.data.required) {
+        redirect('/dashboard');
+    }
+
+    return (
+        <div className="min-h-screen w-full flex flex-col justify-center items-center bg-muted/30 px-4 py-10">
+            <div className="w-full max-w-md animate-in fade-in zoom-in-95 duration-500">
+
+                <Card className="shadow-xl border-border overflow-hidden">
+
+                    <CardHeader
+                        className="flex flex-col items-center space-y-4 pt-10 pb-2 text-center bg-muted/5 border-b border-border/50">
+                        <div
+                            className="mx-auto flex h-16 w-16 items-center justify-center rounded-full bg-primary/10 ring-1 ring-primary/20 mb-2">
+                            <ShieldCheck className="h-8 w-8 text-primary"/>
+                        </div>
+                        <div className="space-y-2 w-full">
+                            <CardTitle className="text-2xl font-bold tracking-tight">
+                                {t('title')}
+                            </CardTitle>
+                            <CardDescription className="text-sm max-w-xs mx-auto text-muted-foreground">
+                                {t('subtitle')}
+                            </CardDescription>
+                        </div>
+                    </CardHeader>
+
+                    <CardContent className="p-8">
+                        <TwoFactorSetupForm/>
+                    </CardContent>
+
+                </Card>
+
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,34 @@
+/** @format */
+import React, {JSX} from 'react';
+import {verifyCertificate} from '@/lib/controller/certificate-controller';
+import {CertificateVerificationView} from '@/components/certificates/certificate-verification-view';
+
+type Props = {
+    searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+};
+
+/**
+ * Renders the public certificate verification page.
+ *
+ * Accessible without authentication. Looks up the verification code from the
+ * URL search parameters (as linked from the certificate) and shows the certified
+ * completion, or a lookup form when no code was provided.
+ *
+ * @param {Props} props The component props.
+ * @param {Promise<{ [key: string]: string | string[] | undefined }>} props.searchParams URL search parameters containing the code.
+ * @returns {Promise<JSX.Element>} The certificate verification view.
+ */
+export default async function CertificateVerificationPage({searchParams}: Props): Promise<JSX.Element> {
+    const params = await searchParams;
+    const code = ((params.code as string) || '').trim();
+
+    const result = code ? await verifyCertificate(code) : null;
+
+    return (
+        <CertificateVerificationView
+            code={code}
+            verification={result?.success ? result.data : null}
+            error={result && !result.success ? result.error : null}
+        />
+    );
+}
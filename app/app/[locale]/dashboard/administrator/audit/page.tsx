@@ -0,0 +1,57 @@
+/** @format */
+"use server"
+import React from 'react';
+import {getAuditEvents} from '@/lib/controller/admin/audit-controller';
+import {AuditLogClient} from '@/components/dashboard/administrator/audit-log/audit-log-client';
+import {AUDIT_ACTIONS_BY_ENTITY, AuditEntityType, AuditLogFilters} from '@/lib/domain/audit';
+
+type Props = {
+    searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+};
+
+/**
+ * Renders the audit log page.
+ *
+ * This async server component fetches a paginated list of recorded administrative
+ * and lifecycle actions based on the URL search parameters and delegates rendering,
+ * filtering and the CSV export to the `AuditLogClient` component.
+ *
+ * @param {Props} props The component props.
+ * @param {Promise<{ [key: string]: string | string[] | undefined }>} props.searchParams URL search parameters for pagination and filtering.
+ * @returns {Promise<React.JSX.Element>} The audit log client component hydrated with initial data.
+ */
+export default async function AuditLogPage({searchParams}: Props): Promise<React.JSX.Element> {
+    const params = await searchParams;
+    const page = Number(params.page) || 1;
+
+    const filters: Required<AuditLogFilters> = {
+        actor: (params.actor as string) || '',
+        entity: (params.entity as string) || '',
+        entityType: (params.entityType as string) || 'ALL',
+        action: (params.action as string) || 'ALL',
+        from: (params.from as string) || '',
+        to: (params.to as string) || '',
+    };
+
+    const auditResponse = await getAuditEvents({page, pageSize: 20}, filters);
+
+    const auditData =
+        auditResponse.success && auditResponse.data
+            ? auditResponse.data
+            : {items: [], total: 0, totalPages: 0};
+
+    return (
+        <AuditLogClient
+            entityTypes={AuditEntityType}
+            actionsByEntity={AUDIT_ACTIONS_BY_ENTITY}
+            initialEvents={auditData.items}
+            initialPagination={{
+                page,
+                pageSize: 20,
+                total: auditData.total,
+                totalPages: auditData.totalPages
+            }}
+            initialFilters={filters}
+        />
+    );
+}
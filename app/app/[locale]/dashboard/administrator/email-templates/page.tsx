@@ -0,0 +1,51 @@
+/** @format */
+"use server"
+import React from 'react';
+import {getEmailTemplate, getEmailTemplates} from '@/lib/controller/admin/email-template-controller';
+import {EmailTemplatesClient} from '@/components/dashboard/administrator/email-templates/email-templates-client';
+import {EMAIL_TEMPLATE_SAMPLE_VALUES, EmailTemplateKey} from '@/lib/domain/email-template';
+import {Locale, routing} from '@/lib/utils/i18n/routing';
+
+type Props = {
+    searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+};
+
+/**
+ * Renders the email template editor page.
+ *
+ * This async server component resolves the selected template and language from
+ * the URL search parameters, fetches the template list and the selected template,
+ * and delegates editing, preview and testing to the `EmailTemplatesClient` component.
+ *
+ * @param {Props} props The component props.
+ * @param {Promise<{ [key: string]: string | string[] | undefined }>} props.searchParams URL search parameters selecting the template and language.
+ * @returns {Promise<React.JSX.Element>} The email template client component hydrated with initial data.
+ */
+export default async function EmailTemplatesPage({searchParams}: Props): Promise<React.JSX.Element> {
+    const params = await searchParams;
+    const templateParam = params.template as string;
+    const languageParam = params.language as string;
+
+    const key = Object.values(EmailTemplateKey).includes(templateParam as EmailTemplateKey)
+        ? (templateParam as EmailTemplateKey)
+        : EmailTemplateKey.VERIFICATION;
+    const language = routing.locales.includes(languageParam as Locale)
+        ? (languageParam as Locale)
+        : routing.defaultLocale;
+
+    const [templatesResponse, templateResponse] = await Promise.all([
+        getEmailTemplates(language),
+        getEmailTemplate(key, language)
+    ]);
+
+    return (
+        <EmailTemplatesClient
+            templates={templatesResponse.success ? templatesResponse.data : []}
+            template={templateResponse.success ? templateResponse.data : null}
+            selectedKey={key}
+            language={language}
+            languages={[...routing.locales]}
+            sampleValues={EMAIL_TEMPLATE_SAMPLE_VALUES}
+        />
+    );
+}
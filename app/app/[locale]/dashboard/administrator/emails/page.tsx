@@ -0,0 +1,59 @@
+/** @format */
+"use server"
+import React from 'react';
+import {getOutboundEmails} from '@/lib/controller/admin/email-outbox-controller';
+import {EmailOutboxClient} from '@/components/dashboard/administrator/email-outbox/email-outbox-client';
+import {OutboundEmailStatus} from '@/lib/domain/email-outbox';
+
+type Props = {
+    searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+};
+
+/**
+ * Renders the email outbox page.
+ *
+ * This async server component fetches a paginated list of queued, failed and
+ * sent emails based on the URL search parameters and delegates rendering and
+ * the resend action to the `EmailOutboxClient` component.
+ *
+ * @param {Props} props The component props.
+ * @param {Promise<{ [key: string]: string | string[] | undefined }>} props.searchParams URL search parameters for pagination and filtering.
+ * @returns {Promise<React.JSX.Element>} The email outbox client component hydrated with initial data.
+ */
+export default async function EmailOutboxPage({searchParams}: Props): Promise<React.JSX.Element> {
+    const params = await searchParams;
+    const page = Number(params.page) || 1;
+    const search = (params.search as string) || '';
+    const statusParam = (params.status as string) || 'ALL';
+
+    const statusFilter = Object.values(OutboundEmailStatus).includes(statusParam as OutboundEmailStatus)
+        ? (statusParam as OutboundEmailStatus)
+        : undefined;
+
+    const emailResponse = await getOutboundEmails(
+        {page, pageSize: 10},
+        {search, status: statusFilter}
+    );
+
+    const emailData =
+        emailResponse.success && emailResponse.data
+            ? emailResponse.data
+            : {items: [], total: 0, totalPages: 0};
+
+    return (
+        <EmailOutboxClient
+            statuses={OutboundEmailStatus}
+            initialEmails={emailData.items}
+            initialPagination={{
+                page,
+                pageSize: 10,
+                total: emailData.total,
+                totalPages: emailData.totalPages
+            }}
+            initialFilters={{
+                search,
+                status: statusFilter ?? 'ALL'
+            }}
+        />
+    );
+}
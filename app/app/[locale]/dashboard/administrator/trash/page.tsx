@@ -0,0 +1,54 @@
+/** @format */
+"use server"
+import React from 'react';
+import {getTrashItems} from '@/lib/controller/admin/trash-controller';
+import {TrashClient} from '@/components/dashboard/administrator/trash/trash-client';
+import {UserRole} from '@/lib/domain/user';
+import {DEFAULT_TRASH_RETENTION_DAYS, TRASH_TYPES, TrashFilters, TrashType} from '@/lib/domain/trash';
+
+type Props = {
+    searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+};
+
+/**
+ * Renders the trash page.
+ *
+ * This async server component fetches a paginated list of deleted users or projects
+ * based on the URL search parameters and delegates rendering, filtering and restoring
+ * to the `TrashClient` component.
+ *
+ * @param {Props} props The component props.
+ * @param {Promise<{ [key: string]: string | string[] | undefined }>} props.searchParams URL search parameters for pagination and filtering.
+ * @returns {Promise<React.JSX.Element>} The trash client component hydrated with initial data.
+ */
+export default async function TrashPage({searchParams}: Props): Promise<React.JSX.Element> {
+    const params = await searchParams;
+    const page = Number(params.page) || 1;
+
+    const filters: Required<TrashFilters> & { type: TrashType } = {
+        type: TRASH_TYPES.find((type) => type === params.type) ?? 'users',
+        search: (params.search as string) || '',
+    };
+
+    const trashResponse = await getTrashItems({page, pageSize: 10}, filters);
+
+    const trashData =
+        trashResponse.success && trashResponse.data
+            ? trashResponse.data
+            : {items: [], total: 0, totalPages: 0, retentionDays: DEFAULT_TRASH_RETENTION_DAYS};
+
+    return (
+        <TrashClient
+            roles={UserRole}
+            initialItems={trashData.items}
+            initialPagination={{
+                page,
+                pageSize: 10,
+                total: trashData.total,
+                totalPages: trashData.totalPages
+            }}
+            initialFilters={filters}
+            retentionDays={trashData.retentionDays}
+        />
+    );
+}
@@ -0,0 +1,49 @@
+/** @format */
+import React, {JSX} from 'react';
+import {notFound} from 'next/navigation';
+import {getMyCompletionReport} from '@/lib/controller/student/student-completions-controller';
+import {getCompletionDeliverables, getProjectAttachments} from '@/lib/controller/project-attachment-controller';
+import {CompletionReportDetails} from '@/components/dashboard/student/completion-report/completion-report-details';
+import {MIN_ROLE_DESCRIPTION_LENGTH, ProjectCompletionStatus} from '@/lib/domain/project-completion';
+
+interface CompletionReportPageProps {
+    params: Promise<{
+        id: string;
+    }>;
+}
+
+/**
+ * Renders the completion self-report of one of the student's accepted applications.
+ *
+ * The report stays editable while the completion is a draft and becomes read-only
+ * once the coordinator or organization has reviewed it. Deliverables can be handed in
+ * once the report has been saved as a draft.
+ *
+ * @returns {Promise<JSX.Element>} The completion report details component.
+ */
+export default async function CompletionReportPage({params}: CompletionReportPageProps): Promise<JSX.Element> {
+    const {id} = await params;
+
+    const result = await getMyCompletionReport(id);
+
+    if (!result.success || !result.data) {
+        notFound();
+    }
+
+    const {application, completion} = result.data;
+    const [attachmentsResult, deliverablesResult] = await Promise.all([
+        getProjectAttachments(application.projectId),
+        completion ? getCompletionDeliverables(completion.id) : null,
+    ]);
+
+    return (
+        <CompletionReportDetails
+            application={application}
+            completion={completion}
+            materials={attachmentsResult.success ? attachmentsResult.data!.materials : null}
+            deliverables={deliverablesResult?.success ? deliverablesResult.data! : null}
+            statuses={ProjectCompletionStatus}
+            minRoleDescriptionLength={MIN_ROLE_DESCRIPTION_LENGTH}
+        />
+    );
+}
@@ -0,0 +1,61 @@
+/** @format */
+import React, {JSX} from 'react';
+import {redirect} from 'next/navigation';
+import {requireAuth} from '@/lib/controller/auth/session-controller';
+import {getMyApplications} from '@/lib/controller/student/student-applications-controller';
+import {ApplicationsClient} from '@/components/dashboard/student/application-tracker/applications-client';
+import {UserRole} from '@/lib/domain/user';
+import {ApplicationStatus} from '@/lib/domain/application';
+import {ProjectStatus} from '@/lib/domain/project';
+
+type Props = {
+    searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+};
+
+/**
+ * Renders the student's "My applications" page.
+ *
+ * This async server component fetches the student's applications filtered by the
+ * status in the URL search parameters and delegates rendering and the withdraw
+ * flow to the `ApplicationsClient` component.
+ *
+ * @param {Props} props The component props.
+ * @param {Promise<{ [key: string]: string | string[] | undefined }>} props.searchParams URL search parameters for pagination and filtering.
+ * @returns {Promise<JSX.Element>} The applications client component hydrated with initial data.
+ */
+export default async function ApplicationsPage({searchParams}: Props): Promise<JSX.Element> {
+    const user = await requireAuth();
+    if (user.role !== UserRole.STUDENT) {
+        redirect('/dashboard');
+    }
+
+    const params = await searchParams;
+    const page = Number(params.page) || 1;
+    const statusParam = (params.status as string) || 'ALL';
+
+    const statusFilter = Object.values(ApplicationStatus).includes(statusParam as ApplicationStatus)
+        ? (statusParam as ApplicationStatus)
+        : undefined;
+
+    const applicationResponse = await getMyApplications({page, pageSize: 10}, statusFilter);
+
+    const applicationData =
+        applicationResponse.success && applicationResponse.data
+            ? applicationResponse.data
+            : {items: [], total: 0, totalPages: 0};
+
+    return (
+        <ApplicationsClient
+            statuses={ApplicationStatus}
+            projectStatuses={ProjectStatus}
+            initialApplications={applicationData.items}
+            initialPagination={{
+                page,
+                pageSize: 10,
+                total: applicationData.total,
+                totalPages: applicationData.totalPages
+            }}
+            initialStatus={statusFilter ?? 'ALL'}
+        />
+    );
+}
@@ -0,0 +1,44 @@
+/** @format */
+import React, {JSX} from 'react';
+import {notFound} from 'next/navigation';
+import {getOrganizationProjectCompletionById} from '@/lib/controller/organization/organization-project-completions-controller';
+import {getCompletionDeliverables} from '@/lib/controller/project-attachment-controller';
+import {OrganizationCompletionDetails} from '@/components/dashboard/organization/completion-management/organization-completion-details';
+import {MIN_EVALUATION_LENGTH, PerformanceRating, ProjectCompletionStatus} from '@/lib/domain/project-completion';
+
+interface CompletionPageProps {
+    params: Promise<{
+        id: string;
+    }>;
+}
+
+/**
+ * Renders a completion of one of the organization's projects.
+ *
+ * Shows the student's completion report and the coordinator's evaluation together
+ * with the partner evaluation form, or the submitted partner evaluation,
+ * and the deliverables the student handed in.
+ *
+ * @returns {Promise<JSX.Element>} The completion details component.
+ */
+export default async function OrganizationCompletionPage({params}: CompletionPageProps): Promise<JSX.Element> {
+    const {id} = await params;
+
+    const result = await getOrganizationProjectCompletionById(id);
+
+    if (!result.success || !result.data) {
+        notFound();
+    }
+
+    const deliverablesResult = await getCompletionDeliverables(result.data.id);
+
+    return (
+        <OrganizationCompletionDetails
+            completion={result.data}
+            statuses={ProjectCompletionStatus}
+            ratings={PerformanceRating}
+            minEvaluationLength={MIN_EVALUATION_LENGTH}
+            deliverables={deliverablesResult.success ? deliverablesResult.data! : null}
+        />
+    );
+}
@@ -0,0 +1,48 @@
+/** @format */
+import React, {JSX} from 'react';
+import {redirect} from 'next/navigation';
+import {getTranslations} from 'next-intl/server';
+import {ClipboardCheck} from 'lucide-react';
+import {requireAuth} from '@/lib/controller/auth/session-controller';
+import {OrganizationCompletionList} from '@/components/dashboard/organization/completion-management/organization-completion-list';
+import {UserRole} from '@/lib/domain/user';
+import {ProjectCompletionStatus} from '@/lib/domain/project-completion';
+
+/**
+ * Renders the organization's project completions page.
+ *
+ * Lists the completions of the organization's projects that the coordinator has
+ * reviewed and that are waiting for the organization's partner evaluation.
+ *
+ * @returns {Promise<JSX.Element>} The completion list with its page header.
+ */
+export default async function OrganizationCompletionsPage(): Promise<JSX.Element> {
+    const user = await requireAuth();
+    if (user.role !== UserRole.ORGANIZATION) {
+        redirect('/dashboard');
+    }
+
+    const t = await getTranslations('organization.completions');
+
+    return (
+        <div className="min-h-screen w-full bg-background p-4 sm:p-6 lg:p-8">
+            <div className="mx-auto max-w-7xl animate-in fade-in zoom-in-95 duration-500 space-y-6 sm:space-y-8">
+                <div className="flex items-center gap-4">
+                    <div
+                        className="flex h-12 w-12 shrink-0 items-center justify-center rounded-xl bg-primary/10 ring-1 ring-primary/20 shadow-sm">
+                        <ClipboardCheck className="h-6 w-6 text-primary"/>
+                    </div>
+                    <div className="space-y-1">
+                        <h1 className="text-xl sm:text-2xl font-bold tracking-tight text-foreground">
+                            {t('title')}
+                        </h1>
+                        <p className="text-xs sm:text-sm text-muted-foreground max-w-lg">
+                            {t('subtitle')}
+                        </p>
+                    </div>
+                </div>
+                <OrganizationCompletionList completionStatuses={ProjectCompletionStatus}/>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,23 @@
+/** @format */
+import React, {JSX} from 'react';
+import {requireAuth} from '@/lib/controller/auth/session-controller';
+import {getMyDeviceSessions} from '@/lib/controller/auth/device-controller';
+import {DevicesClient} from '@/components/dashboard/devices/devices-client';
+
+/**
+ * Renders the devices page of the current user.
+ *
+ * This async server component lists the devices the user is signed in on and
+ * delegates rendering to the `DevicesClient` component, which allows signing
+ * single devices or every device out. Available to every role.
+ *
+ * @returns {Promise<JSX.Element>} The devices client component hydrated with the active sessions.
+ */
+export default async function DevicesPage(): Promise<JSX.Element> {
+    await requireAuth();
+
+    const sessionsResponse = await getMyDeviceSessions();
+    const sessions = sessionsResponse.success ? sessionsResponse.data : [];
+
+    return <DevicesClient sessions={sessions}/>;
+}
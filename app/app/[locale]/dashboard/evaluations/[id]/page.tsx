@@ -0,0 +1,44 @@
+/** @format */
+import React, {JSX} from 'react';
+import {notFound} from 'next/navigation';
+import {getMyAssignedCompletionById} from '@/lib/controller/coordinator/coordinator-completions-controller';
+import {getCompletionDeliverables} from '@/lib/controller/project-attachment-controller';
+import {CompletionEvaluationDetails} from '@/components/dashboard/coordinator/completion-evaluation/completion-evaluation-details';
+import {MIN_EVALUATION_LENGTH, PerformanceRating, ProjectCompletionStatus} from '@/lib/domain/project-completion';
+
+interface EvaluationPageProps {
+    params: Promise<{
+        id: string;
+    }>;
+}
+
+/**
+ * Renders a completion of one of the coordinator's assigned projects.
+ *
+ * Shows the student's completion report together with the academic evaluation
+ * form, or the submitted evaluation once the completion has been reviewed,
+ * and the deliverables the student handed in.
+ *
+ * @returns {Promise<JSX.Element>} The completion evaluation details component.
+ */
+export default async function EvaluationPage({params}: EvaluationPageProps): Promise<JSX.Element> {
+    const {id} = await params;
+
+    const result = await getMyAssignedCompletionById(id);
+
+    if (!result.success || !result.data) {
+        notFound();
+    }
+
+    const deliverablesResult = await getCompletionDeliverables(result.data.id);
+
+    return (
+        <CompletionEvaluationDetails
+            completion={result.data}
+            statuses={ProjectCompletionStatus}
+            ratings={PerformanceRating}
+            minEvaluationLength={MIN_EVALUATION_LENGTH}
+            deliverables={deliverablesResult.success ? deliverablesResult.data! : null}
+        />
+    );
+}
@@ -0,0 +1,59 @@
+/** @format */
+import React, {JSX} from 'react';
+import {redirect} from 'next/navigation';
+import {requireAuth} from '@/lib/controller/auth/session-controller';
+import {getMyAssignedCompletions} from '@/lib/controller/coordinator/coordinator-completions-controller';
+import {EvaluationsClient} from '@/components/dashboard/coordinator/completion-evaluation/evaluations-client';
+import {UserRole} from '@/lib/domain/user';
+import {ProjectCompletionStatus} from '@/lib/domain/project-completion';
+
+type Props = {
+    searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+};
+
+/**
+ * Renders the coordinator's completion evaluations page.
+ *
+ * This async server component fetches the completions of the coordinator's assigned
+ * projects filtered by the status in the URL search parameters (drafts awaiting
+ * evaluation by default) and delegates rendering to the `EvaluationsClient` component.
+ *
+ * @param {Props} props The component props.
+ * @param {Promise<{ [key: string]: string | string[] | undefined }>} props.searchParams URL search parameters for pagination and filtering.
+ * @returns {Promise<JSX.Element>} The evaluations client component hydrated with initial data.
+ */
+export default async function EvaluationsPage({searchParams}: Props): Promise<JSX.Element> {
+    const user = await requireAuth();
+    if (user.role !== UserRole.COORDINATOR) {
+        redirect('/dashboard');
+    }
+
+    const params = await searchParams;
+    const page = Number(params.page) || 1;
+    const statusParam = (params.status as string) || ProjectCompletionStatus.DRAFT;
+
+    const statusFilter = Object.values(ProjectCompletionStatus).includes(statusParam as ProjectCompletionStatus)
+        ? (statusParam as ProjectCompletionStatus)
+        : undefined;
+
+    const completionResponse = await getMyAssignedCompletions({page, pageSize: 10}, statusFilter);
+
+    const completionData =
+        completionResponse.success && completionResponse.data
+            ? completionResponse.data
+            : {items: [], total: 0, totalPages: 0};
+
+    return (
+        <EvaluationsClient
+            statuses={ProjectCompletionStatus}
+            initialCompletions={completionData.items}
+            initialPagination={{
+                page,
+                pageSize: 10,
+                total: completionData.total,
+                totalPages: completionData.totalPages
+            }}
+            initialStatus={statusFilter ?? 'ALL'}
+        />
+    );
+}
@@ -3,6 +3,8 @@ import React, {JSX} from "react";
 import {redirect} from "next/navigation";
 import {requireAuth} from "@/lib/controller/auth/session-controller";
 import {getConfig} from "@/lib/controller/config-controller";
+import {getMyNotificationSummary} from "@/lib/controller/notification-controller";
+import {getMyTwoFactorStatus} from "@/lib/controller/auth/two-factor-controller";
 import {getNavItemsForRole} from "@/lib/utils/navigation";
 import {DashboardShell} from "@/components/dashboard/dashboard-shell";
 
@@ -16,13 +18,16 @@ import {DashboardShell} from "@/components/dashboard/dashboard-shell";
  * **Responsibilities:**
  * 1. **Authentication Check** - Verifies user session and redirects if invalid
  * 2. **Email Verification** - Ensures users have verified their email addresses
+ *    and, where the platform requires it, enrolled in two-factor authentication
  * 3. **Configuration Loading** - Fetches global app configuration (branding, colors, etc.)
  * 4. **Role-Based Navigation** - Determines which menu items to show based on user role
- * 5. **Shell Initialization** - Passes all required data to the interactive DashboardShell
+ * 5. **Notifications** - Loads the unread count and latest notifications for the bell
+ * 6. **Shell Initialization** - Passes all required data to the interactive DashboardShell
  *
  * **Security:**
  * - Throws redirect to `/login` if session is invalid (handled by requireAuth)
  * - Restricts access to `/verify-email-pending` if email is not verified
+ * - Restricts access to `/two-factor-setup` if two-factor authentication is required but not enabled
  *
  * **Performance:**
  * - Server Component - all data fetching happens on the server
@@ -42,6 +47,12 @@ export default async function DashboardLayout({children,}: { children: React.Rea
         redirect("/verify-email-pending");
     }
 
+    // Enforce Two-Factor Enrollment
+    const twoFactorResult = await getMyTwoFactorStatus();
+    if (twoFactorResult.success && twoFactorResult.data.required && !twoFactorResult.data.enabled) {
+        redirect("/two-factor-setup");
+    }
+
     // Fetch Global Configuration
     const configResult = await getConfig();
     const config = configResult.success ? configResult.data : null;
@@ -49,9 +60,13 @@ export default async function DashboardLayout({children,}: { children: React.Rea
     // Determine Navigation Items
     const navItems = getNavItemsForRole(user.role);
 
+    // Fetch Notification Summary
+    const notificationResult = await getMyNotificationSummary();
+    const notificationSummary = notificationResult.success ? notificationResult.data : null;
+
     // Render Dashboard Shell
     return (
-        <DashboardShell user={user} config={config} navItems={navItems}>
+        <DashboardShell user={user} config={config} navItems={navItems} notificationSummary={notificationSummary}>
             {children}
         </DashboardShell>
     );
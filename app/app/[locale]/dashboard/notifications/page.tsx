@@ -0,0 +1,48 @@
+/** @format */
+import React, {JSX} from 'react';
+import {requireAuth} from '@/lib/controller/auth/session-controller';
+import {getMyNotifications} from '@/lib/controller/notification-controller';
+import {NotificationsClient} from '@/components/dashboard/notifications/notifications-client';
+
+type Props = {
+    searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+};
+
+/**
+ * Renders the notification history page of the current user.
+ *
+ * This async server component fetches the user's notifications, optionally limited
+ * to unread ones via the `filter` search parameter, and delegates rendering to the
+ * `NotificationsClient` component. Available to every role.
+ *
+ * @param {Props} props The component props.
+ * @param {Promise<{ [key: string]: string | string[] | undefined }>} props.searchParams URL search parameters for pagination and filtering.
+ * @returns {Promise<JSX.Element>} The notifications client component hydrated with initial data.
+ */
+export default async function NotificationsPage({searchParams}: Props): Promise<JSX.Element> {
+    await requireAuth();
+
+    const params = await searchParams;
+    const page = Number(params.page) || 1;
+    const filter = params.filter === 'UNREAD' ? 'UNREAD' : 'ALL';
+
+    const notificationResponse = await getMyNotifications({page, pageSize: 10}, filter === 'UNREAD');
+
+    const notificationData =
+        notificationResponse.success && notificationResponse.data
+            ? notificationResponse.data
+            : {items: [], total: 0, totalPages: 0};
+
+    return (
+        <NotificationsClient
+            initialNotifications={notificationData.items}
+            initialPagination={{
+                page,
+                pageSize: 10,
+                total: notificationData.total,
+                totalPages: notificationData.totalPages
+            }}
+            initialFilter={filter}
+        />
+    );
+}
@@ -0,0 +1,45 @@
+/** @format */
+import React, {JSX} from 'react';
+import {notFound} from 'next/navigation';
+import {getPublishedProjectById} from '@/lib/controller/student/student-projects-controller';
+import {getProjectAttachments} from '@/lib/controller/project-attachment-controller';
+import {OpportunityDetails} from '@/components/dashboard/student/project-marketplace/opportunity-details';
+import {ApplicationStatus, MIN_MOTIVATION_LENGTH} from '@/lib/domain/application';
+
+interface OpportunityPageProps {
+    params: Promise<{
+        id: string;
+    }>;
+}
+
+/**
+ * Renders the detail page of a published project for students.
+ *
+ * Shows the project and its organization, together with the application form
+ * or the status of the student's existing application, and the project materials
+ * once the application is accepted.
+ *
+ * @returns {Promise<JSX.Element>} The opportunity details component.
+ */
+export default async function OpportunityPage({params}: OpportunityPageProps): Promise<JSX.Element> {
+    const {id} = await params;
+
+    const [result, attachmentsResult] = await Promise.all([
+        getPublishedProjectById(id),
+        getProjectAttachments(id)
+    ]);
+
+    if (!result.success || !result.data) {
+        notFound();
+    }
+
+    return (
+        <OpportunityDetails
+            project={result.data.project}
+            application={result.data.application}
+            applicationStatuses={ApplicationStatus}
+            minMotivationLength={MIN_MOTIVATION_LENGTH}
+            materials={attachmentsResult.success ? attachmentsResult.data.materials : null}
+        />
+    );
+}
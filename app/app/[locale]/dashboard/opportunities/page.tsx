@@ -0,0 +1,86 @@
+/** @format */
+import React, {JSX} from 'react';
+import {redirect} from 'next/navigation';
+import {requireAuth} from '@/lib/controller/auth/session-controller';
+import {getPublishedProjects} from '@/lib/controller/student/student-projects-controller';
+import {MarketplaceClient} from '@/components/dashboard/student/project-marketplace/marketplace-client';
+import {UserRole} from '@/lib/domain/user';
+import {ProjectCategory} from '@/lib/domain/project';
+
+type Props = {
+    searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+};
+
+/**
+ * Parses an optional positive integer from a URL search parameter.
+ */
+function parsePositiveInt(value: string | string[] | undefined): number | undefined {
+    const parsed = Number(value);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Renders the opportunities page.
+ *
+ * For students, this async server component fetches a paginated list of published
+ * projects filtered by the URL search parameters (search, category, skills, maximum
+ * hours per week and maximum duration) and delegates rendering to `MarketplaceClient`.
+ *
+ * @param {Props} props The component props.
+ * @param {Promise<{ [key: string]: string | string[] | undefined }>} props.searchParams URL search parameters for pagination and filtering.
+ * @returns {Promise<JSX.Element>} The marketplace client component hydrated with initial data.
+ */
+export default async function OpportunitiesPage({searchParams}: Props): Promise<JSX.Element> {
+    const user = await requireAuth();
+    if (user.role !== UserRole.STUDENT) {
+        redirect('/dashboard');
+    }
+
+    const params = await searchParams;
+    const page = Number(params.page) || 1;
+    const search = (params.search as string) || '';
+    const categoryParam = (params.category as string) || 'ALL';
+    const skills = (params.skills as string) || '';
+    const maxHours = parsePositiveInt(params.maxHours);
+    const maxWeeks = parsePositiveInt(params.maxWeeks);
+
+    const categoryFilter = Object.values(ProjectCategory).includes(categoryParam as ProjectCategory)
+        ? (categoryParam as ProjectCategory)
+        : undefined;
+
+    const projectResponse = await getPublishedProjects(
+        {page, pageSize: 12},
+        {
+            search,
+            category: categoryFilter,
+            skills: skills.split(',').map(skill => skill.trim()).filter(Boolean),
+            maxHoursPerWeek: maxHours,
+            maxDurationWeeks: maxWeeks
+        }
+    );
+
+    const projectData =
+        projectResponse.success && projectResponse.data
+            ? projectResponse.data
+            : {items: [], total: 0, totalPages: 0};
+
+    return (
+        <MarketplaceClient
+            categories={ProjectCategory}
+            initialProjects={projectData.items}
+            initialPagination={{
+                page,
+                pageSize: 12,
+                total: projectData.total,
+                totalPages: projectData.totalPages
+            }}
+            initialFilters={{
+                search,
+                category: categoryFilter ?? 'ALL',
+                skills,
+                maxHours: maxHours?.toString() ?? '',
+                maxWeeks: maxWeeks?.toString() ?? ''
+            }}
+        />
+    );
+}
@@ -11,7 +11,10 @@ import {getMyAdministratorProfile} from "@/lib/controller/admin/admin-profile-co
 import {getMyStudentProfile} from "@/lib/controller/student/student-profile-controller";
 import {getMyCoordinatorProfile} from "@/lib/controller/coordinator/coordinator-profile-controller";
 import {getMyOrganizationProfile} from "@/lib/controller/organization/organization-profile-controller";
+import {getMyNotificationPreferences} from "@/lib/controller/notification-controller";
+import {getMyTwoFactorStatus} from "@/lib/controller/auth/two-factor-controller";
 import {OrganizationType} from "@/lib/domain/organization";
+import {NotificationDelivery} from "@/lib/domain/notification";
 
 /**
  * Profile Page
@@ -23,7 +26,8 @@ import {OrganizationType} from "@/lib/domain/organization";
  * **Flow:**
  * 1. **Authentication:** Verifies the session using `requireAuth()`.
  * 2. **Authorization:** Inspects `user.role` to determine privileges.
- * 3. **Routing:** Returns the specific profile component for that role.
+ * 3. **Preferences:** Loads the user's notification delivery preferences and two-factor state, shared by every role.
+ * 4. **Routing:** Returns the specific profile component for that role.
  *
  * **Security:**
  * - If no session exists, `requireAuth` throws a redirect to `/login`.
@@ -34,12 +38,27 @@ import {OrganizationType} from "@/lib/domain/organization";
 export default async function ProfilePage(): Promise<JSX.Element> {
     const user = await requireAuth();
 
+    const preferencesResult = await getMyNotificationPreferences();
+    const notificationPreferences = preferencesResult.success ? preferencesResult.data : {};
+
+    const twoFactorResult = await getMyTwoFactorStatus();
+    const twoFactorStatus = twoFactorResult.success
+        ? twoFactorResult.data
+        : {enabled: false, recoveryCodesRemaining: 0, required: false};
+
     switch (user.role) {
         case UserRole.ADMINISTRATOR: {
             const result = await getMyAdministratorProfile();
 
             if (result.success) {
-                return <AdminProfile admin={result.data}/>;
+                return (
+                    <AdminProfile
+                        admin={result.data}
+                        notificationPreferences={notificationPreferences}
+                        notificationDeliveries={NotificationDelivery}
+                        twoFactorStatus={twoFactorStatus}
+                    />
+                );
             }
 
             console.error("Failed to load admin profile:", result.error);
@@ -51,7 +70,14 @@ export default async function ProfilePage(): Promise<JSX.Element> {
             const result = await getMyStudentProfile();
 
             if (result.success) {
-                return <StudentProfile student={result.data}/>;
+                return (
+                    <StudentProfile
+                        student={result.data}
+                        notificationPreferences={notificationPreferences}
+                        notificationDeliveries={NotificationDelivery}
+                        twoFactorStatus={twoFactorStatus}
+                    />
+                );
             }
 
             console.error("Failed to load student profile:", result.error);
@@ -63,7 +89,14 @@ export default async function ProfilePage(): Promise<JSX.Element> {
             const result = await getMyCoordinatorProfile();
 
             if (result.success) {
-                return <CoordinatorProfile coordinator={result.data}/>;
+                return (
+                    <CoordinatorProfile
+                        coordinator={result.data}
+                        notificationPreferences={notificationPreferences}
+                        notificationDeliveries={NotificationDelivery}
+                        twoFactorStatus={twoFactorStatus}
+                    />
+                );
             }
 
             console.error("Failed to load coordinator profile:", result.error);
@@ -75,7 +108,15 @@ export default async function ProfilePage(): Promise<JSX.Element> {
             const result = await getMyOrganizationProfile();
 
             if (result.success) {
-                return <OrganizationProfile organization={result.data} organizationTypes={OrganizationType}/>;
+                return (
+                    <OrganizationProfile
+                        organization={result.data}
+                        organizationTypes={OrganizationType}
+                        notificationPreferences={notificationPreferences}
+                        notificationDeliveries={NotificationDelivery}
+                        twoFactorStatus={twoFactorStatus}
+                    />
+                );
             }
 
             console.error("Failed to load organization profile:", result.error);
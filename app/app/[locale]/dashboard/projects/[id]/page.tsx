@@ -3,8 +3,13 @@
 import {notFound} from "next/navigation";
 import {getTranslations} from "next-intl/server";
 import {ProjectForm} from "@/components/dashboard/organization/project-management/project-form";
+import {ApplicantInbox} from "@/components/dashboard/organization/project-management/applicant-inbox";
 import {getMyOrganizationProjectById} from "@/lib/controller/organization/organization-projects-controller";
+import {getMyProjectApplications} from "@/lib/controller/organization/organization-applications-controller";
+import {getProjectAttachments} from "@/lib/controller/project-attachment-controller";
+import {AttachmentsCard} from "@/components/dashboard/attachments/attachments-card";
 import {ProjectCategory, ProjectStatus} from "@/lib/domain/project";
+import {ApplicationStatus} from "@/lib/domain/application";
 import {Pencil} from "lucide-react";
 
 interface EditProjectPageProps {
@@ -17,7 +22,11 @@ export default async function EditProjectPage({params}: EditProjectPageProps) {
     const t = await getTranslations("organization.projects.edit");
     const {id} = await params;
 
-    const result = await getMyOrganizationProjectById(id);
+    const [result, applicationsResult, attachmentsResult] = await Promise.all([
+        getMyOrganizationProjectById(id),
+        getMyProjectApplications(id),
+        getProjectAttachments(id)
+    ]);
 
     if (!result.success || !result.data) {
         notFound();
@@ -44,6 +53,15 @@ export default async function EditProjectPage({params}: EditProjectPageProps) {
                 </div>
                 <ProjectForm initialData={result.data} projectStatuses={ProjectStatus}
                              projectCategories={ProjectCategory}/>
+                {attachmentsResult.success && (
+                    <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+                        <AttachmentsCard kind="materials" list={attachmentsResult.data.materials} target={{projectId: id}}/>
+                        <AttachmentsCard kind="deliverables" list={attachmentsResult.data.deliverables}/>
+                    </div>
+                )}
+                {applicationsResult.success && (
+                    <ApplicantInbox project={applicationsResult.data} applicationStatuses={ApplicationStatus}/>
+                )}
             </div>
         </div>
     );
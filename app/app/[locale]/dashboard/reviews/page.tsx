@@ -0,0 +1,53 @@
+/** @format */
+import React, {JSX} from 'react';
+import {redirect} from 'next/navigation';
+import {requireAuth} from '@/lib/controller/auth/session-controller';
+import {getMyReviewQueue} from '@/lib/controller/coordinator/coordinator-projects-controller';
+import {ReviewQueueClient} from '@/components/dashboard/coordinator/project-review/review-queue-client';
+import {UserRole} from '@/lib/domain/user';
+
+type Props = {
+    searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+};
+
+/**
+ * Renders the coordinator's project review queue.
+ *
+ * This async server component fetches the projects assigned to the coordinator that
+ * await review, filtered by the search term in the URL, and delegates rendering and
+ * the approve / request-changes flows to the `ReviewQueueClient` component.
+ *
+ * @param {Props} props The component props.
+ * @param {Promise<{ [key: string]: string | string[] | undefined }>} props.searchParams URL search parameters for pagination and search.
+ * @returns {Promise<JSX.Element>} The review queue client component hydrated with initial data.
+ */
+export default async function ReviewsPage({searchParams}: Props): Promise<JSX.Element> {
+    const user = await requireAuth();
+    if (user.role !== UserRole.COORDINATOR) {
+        redirect('/dashboard');
+    }
+
+    const params = await searchParams;
+    const page = Number(params.page) || 1;
+    const search = (params.search as string) || '';
+
+    const queueResponse = await getMyReviewQueue({page, pageSize: 10}, search || undefined);
+
+    const queueData =
+        queueResponse.success && queueResponse.data
+            ? queueResponse.data
+            : {items: [], total: 0, totalPages: 0};
+
+    return (
+        <ReviewQueueClient
+            initialProjects={queueData.items}
+            initialPagination={{
+                page,
+                pageSize: 10,
+                total: queueData.total,
+                totalPages: queueData.totalPages
+            }}
+            initialSearch={search}
+        />
+    );
+}
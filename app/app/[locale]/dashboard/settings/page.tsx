@@ -7,6 +7,7 @@ import {StudentDashboard} from '@/components/dashboard/student/student-dashboard
 import {CoordinatorDashboard} from '@/components/dashboard/coordinator/coordinator-dashboard';
 import {OrganizationDashboard} from '@/components/dashboard/organization/organization-dashboard';
 import {AdminSettings} from "@/components/dashboard/administrator/settings/admin-settings";
+import {getOidcRedirectUri} from "@/lib/utils/oidc";
 
 /**
  * Settings Page
@@ -37,7 +38,7 @@ export default async function SettingsPage(): Promise<JSX.Element> {
         case UserRole.ORGANIZATION:
             return <OrganizationDashboard user={user}/>;
         case UserRole.ADMINISTRATOR:
-            return <AdminSettings user={user}/>;
+            return <AdminSettings ssoRedirectUri={getOidcRedirectUri()}/>;
         default:
             redirect('/login');
     }
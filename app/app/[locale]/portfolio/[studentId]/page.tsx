@@ -0,0 +1,32 @@
+/** @format */
+import React, {JSX} from 'react';
+import {notFound} from 'next/navigation';
+import {getStudentPortfolio} from '@/lib/controller/portfolio-controller';
+import {StudentPortfolioView} from '@/components/portfolio/student-portfolio-view';
+
+interface PortfolioPageProps {
+    params: Promise<{
+        studentId: string;
+    }>;
+}
+
+/**
+ * Renders the public portfolio of a student.
+ *
+ * Accessible without authentication. Lists the student's profile and every
+ * published completion they chose to show, with both evaluations. Hidden
+ * portfolios and suspended students resolve to a 404.
+ *
+ * @returns {Promise<JSX.Element>} The student portfolio view.
+ */
+export default async function PortfolioPage({params}: PortfolioPageProps): Promise<JSX.Element> {
+    const {studentId} = await params;
+
+    const result = await getStudentPortfolio(studentId);
+
+    if (!result.success || !result.data) {
+        notFound();
+    }
+
+    return <StudentPortfolioView portfolio={result.data}/>;
+}
@@ -0,0 +1,28 @@
+/** @format */
+import {NextRequest, NextResponse} from 'next/server'
+import {downloadProjectAttachment} from '@/lib/controller/project-attachment-controller'
+
+/**
+ * Sends an attachment as a download, if the current user has access to its project.
+ * Files are always downloaded rather than displayed, so uploaded HTML or SVG cannot run in the app's origin.
+ */
+export async function GET(_request: NextRequest, {params}: { params: Promise<{ id: string }> }) {
+    const {id} = await params
+    const result = await downloadProjectAttachment(id)
+
+    if (!result.success) {
+        return NextResponse.json({error: result.error}, {status: 404})
+    }
+
+    const {fileName, file} = result.data
+    const asciiName = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_')
+    return new NextResponse(new Uint8Array(file.body), {
+        headers: {
+            'Content-Type': file.contentType,
+            'Content-Length': String(file.body.length),
+            'Content-Disposition': `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+            'Cache-Control': 'private, no-store',
+            'X-Content-Type-Options': 'nosniff',
+        },
+    })
+}
@@ -0,0 +1,22 @@
+/** @format */
+import {NextRequest, NextResponse} from 'next/server'
+import {checkAttachmentUpload, uploadProjectAttachment} from '@/lib/controller/project-attachment-controller'
+
+/**
+ * Receives a project material or deliverable as multipart form data
+ * (`file` and either `projectId` or `completionId`) and responds with the created attachment.
+ */
+export async function POST(request: NextRequest) {
+    const check = await checkAttachmentUpload(request.headers.get('content-length'))
+    if (!check.success) {
+        return NextResponse.json({error: check.error}, {status: 400})
+    }
+
+    const formData = await request.formData().catch(() => new FormData())
+    const result = await uploadProjectAttachment(formData)
+
+    if (!result.success) {
+        return NextResponse.json({error: result.error}, {status: 400})
+    }
+    return NextResponse.json(result.data, {status: 201})
+}
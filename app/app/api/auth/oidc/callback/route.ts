@@ -0,0 +1,23 @@
+/** @format */
+import {NextRequest, NextResponse} from 'next/server'
+import {completeSsoLogin} from '@/lib/controller/auth/sso-controller'
+
+/**
+ * Receives the identity provider's response after the user signed in there.
+ * Signed-in users continue to the dashboard, users with two-factor authentication
+ * to the code step of the login page, and failed logins back to the login page.
+ */
+export async function GET(request: NextRequest) {
+    const {searchParams} = request.nextUrl
+    const result = await completeSsoLogin({
+        code: searchParams.get('code'),
+        state: searchParams.get('state'),
+        error: searchParams.get('error'),
+    })
+
+    if (!result.success) {
+        return NextResponse.redirect(new URL(`/login?ssoError=${result.error}`, process.env.APP_URL))
+    }
+    const destination = result.data.twoFactorRequired ? '/login?twoFactor=1' : '/dashboard'
+    return NextResponse.redirect(new URL(destination, process.env.APP_URL))
+}
@@ -0,0 +1,16 @@
+/** @format */
+import {NextResponse} from 'next/server'
+import {startSsoLogin} from '@/lib/controller/auth/sso-controller'
+
+/**
+ * Sends the browser to the identity provider to sign in.
+ * If single sign-on cannot start, the login page shows the reason.
+ */
+export async function GET() {
+    const result = await startSsoLogin()
+
+    if (!result.success) {
+        return NextResponse.redirect(new URL(`/login?ssoError=${result.error}`, process.env.APP_URL))
+    }
+    return NextResponse.redirect(result.data.authorizationUrl)
+}
@@ -0,0 +1,24 @@
+/** @format */
+import {NextRequest, NextResponse} from 'next/server'
+import {getStoredFile} from '@/lib/controller/storage-controller'
+
+/**
+ * Serves a stored file by its key.
+ * Keys are never reused, so browsers may cache files indefinitely.
+ */
+export async function GET(_request: NextRequest, {params}: { params: Promise<{ key: string[] }> }) {
+    const {key} = await params
+    const file = await getStoredFile(key.join('/'))
+
+    if (!file) {
+        return new NextResponse(null, {status: 404})
+    }
+    return new NextResponse(new Uint8Array(file.body), {
+        headers: {
+            'Content-Type': file.contentType,
+            'Content-Length': String(file.body.length),
+            'Cache-Control': 'public, max-age=31536000, immutable',
+            'X-Content-Type-Options': 'nosniff',
+        },
+    })
+}
@@ -0,0 +1,22 @@
+/** @format */
+import {NextRequest, NextResponse} from 'next/server'
+import {checkImageUpload, uploadImage} from '@/lib/controller/storage-controller'
+
+/**
+ * Receives an image upload as multipart form data (`file` and `kind`)
+ * and responds with the URL of the stored, resized image.
+ */
+export async function POST(request: NextRequest) {
+    const check = await checkImageUpload(request.headers.get('content-length'))
+    if (!check.success) {
+        return NextResponse.json({error: check.error}, {status: 400})
+    }
+
+    const formData = await request.formData().catch(() => new FormData())
+    const result = await uploadImage(formData)
+
+    if (!result.success) {
+        return NextResponse.json({error: result.error}, {status: 400})
+    }
+    return NextResponse.json(result.data, {status: 201})
+}
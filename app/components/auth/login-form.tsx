@@ -8,21 +8,34 @@ import {useTranslations} from 'next-intl';
 import {Label} from '@/components/ui/label';
 import {Input} from '@/components/ui/input';
 import {Button} from '@/components/ui/button';
-import {signIn} from '@/lib/controller/auth/auth-controller';
-import {AlertCircle, Loader2, Mail, Lock, LogIn} from 'lucide-react';
+import {cancelTwoFactorSignIn, signIn, verifyTwoFactorSignIn} from '@/lib/controller/auth/auth-controller';
+import {AlertCircle, ArrowLeft, Building2, Loader2, Mail, Lock, LogIn, ShieldCheck} from 'lucide-react';
+
+interface LoginFormProps {
+    /** Error to show on load, e.g. a failed single sign-on login. */
+    initialError?: string;
+    /** Opens the form on the two-factor step, after a single sign-on login. */
+    initialTwoFactor?: boolean;
+    /** Name of the single sign-on provider; the button is hidden when absent. */
+    ssoProviderName?: string;
+}
 
 /**
  * Login Form Component.
  *
  * Handles user credentials submission with validation and loading states.
+ * Accounts with two-factor authentication continue with a second step asking
+ * for an authenticator or recovery code.
+ * When single sign-on is configured, users can also sign in at the university's identity provider.
  * Integrated with the standard design system for a cohesive look.
  */
-export function LoginForm() {
+export function LoginForm({initialError, initialTwoFactor = false, ssoProviderName}: LoginFormProps) {
     const t = useTranslations('pages.auth.login');
     const router = useRouter();
 
-    const [error, setError] = useState('');
+    const [error, setError] = useState(initialError ?? '');
     const [loading, setLoading] = useState(false);
+    const [needsTwoFactor, setNeedsTwoFactor] = useState(initialTwoFactor);
 
     async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
         event.preventDefault();
@@ -37,26 +50,119 @@ export function LoginForm() {
             if (!result.success) {
                 setError(result.error);
                 setLoading(false);
+            } else if (result.data.twoFactorRequired) {
+                setNeedsTwoFactor(true);
+                setLoading(false);
             } else {
                 router.push('/dashboard');
                 router.refresh();
             }
-        } catch (err) {
+        } catch {
             setError(t('errors.unexpected'));
             setLoading(false);
         }
     }
 
+    async function handleTwoFactorSubmit(event: React.FormEvent<HTMLFormElement>) {
+        event.preventDefault();
+        setError('');
+        setLoading(true);
+
+        const formData = new FormData(event.currentTarget);
+
+        try {
+            const result = await verifyTwoFactorSignIn(formData);
+
+            if (!result.success) {
+                setError(result.error);
+                setLoading(false);
+            } else {
+                router.push('/dashboard');
+                router.refresh();
+            }
+        } catch {
+            setError(t('errors.unexpected'));
+            setLoading(false);
+        }
+    }
+
+    async function handleBack() {
+        setError('');
+        setNeedsTwoFactor(false);
+        await cancelTwoFactorSignIn();
+    }
+
+    const errorAlert = error && (
+        <div
+            className="rounded-lg border border-destructive/40 bg-destructive/10 p-3 text-destructive flex items-start gap-3 animate-in slide-in-from-top-1 text-sm">
+            <AlertCircle className="h-5 w-5 shrink-0 mt-0.5"/>
+            <span className="font-medium leading-relaxed">{error}</span>
+        </div>
+    );
+
+    if (needsTwoFactor) {
+        return (
+            <form onSubmit={handleTwoFactorSubmit} className="space-y-6">
+                {errorAlert}
+
+                <div className="space-y-2">
+                    <Label htmlFor="code">
+                        {t('twoFactor.code')}
+                    </Label>
+                    <div className="relative">
+                        <ShieldCheck className="absolute left-3 top-3 h-4 w-4 text-muted-foreground pointer-events-none"/>
+                        <Input
+                            id="code"
+                            name="code"
+                            type="text"
+                            inputMode="numeric"
+                            autoComplete="one-time-code"
+                            autoFocus
+                            required
+                            placeholder="123456"
+                            className="pl-10 h-11 font-mono tracking-widest"
+                            disabled={loading}
+                        />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                        {t('twoFactor.hint')}
+                    </p>
+                </div>
+
+                <div className="space-y-3">
+                    <Button
+                        type="submit"
+                        disabled={loading}
+                        className="w-full h-11 text-base shadow-sm"
+                    >
+                        {loading ? (
+                            <>
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin"/>
+                                {t('twoFactor.verifying')}
+                            </>
+                        ) : (
+                            t('twoFactor.verify')
+                        )}
+                    </Button>
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        disabled={loading}
+                        onClick={handleBack}
+                        className="w-full"
+                    >
+                        <ArrowLeft className="mr-2 h-4 w-4"/>
+                        {t('twoFactor.back')}
+                    </Button>
+                </div>
+            </form>
+        );
+    }
+
     return (
         <form onSubmit={handleSubmit} className="space-y-6">
             {/* Error Alert */}
-            {error && (
-                <div
-                    className="rounded-lg border border-destructive/40 bg-destructive/10 p-3 text-destructive flex items-start gap-3 animate-in slide-in-from-top-1 text-sm">
-                    <AlertCircle className="h-5 w-5 shrink-0 mt-0.5"/>
-                    <span className="font-medium leading-relaxed">{error}</span>
-                </div>
-            )}
+            {errorAlert}
 
             <div className="space-y-4">
                 {/* Email Field */}
@@ -122,6 +228,28 @@ export function LoginForm() {
                     </>
                 )}
             </Button>
+
+            {ssoProviderName && (
+                <>
+                    <div className="relative">
+                        <div className="absolute inset-0 flex items-center">
+                            <span className="w-full border-t border-border"/>
+                        </div>
+                        <div className="relative flex justify-center text-xs uppercase">
+                            <span className="bg-card px-2 text-muted-foreground">{t('sso.divider')}</span>
+                        </div>
+                    </div>
+
+                    <Button asChild variant="outline" className="w-full h-11 text-base">
+                        {/* A full page load is needed to follow the route handler's redirect to the provider. */}
+                        {/* eslint-disable-next-line @next/next/no-html-link-for-pages */}
+                        <a href="/api/auth/oidc/login">
+                            <Building2 className="mr-2 h-4 w-4"/>
+                            {t('sso.signIn', {provider: ssoProviderName})}
+                        </a>
+                    </Button>
+                </>
+            )}
         </form>
     );
 }
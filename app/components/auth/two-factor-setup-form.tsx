@@ -0,0 +1,55 @@
+/** @format */
+"use client"
+
+import {useState} from 'react'
+import {useRouter} from 'next/navigation'
+import {useTranslations} from 'next-intl'
+import {signOut} from '@/lib/controller/auth/auth-controller'
+import {TwoFactorEnrollment} from '@/components/profile/two-factor-enrollment'
+import {Button} from "@/components/ui/button"
+import {Loader2, LogOut} from 'lucide-react'
+
+/**
+ * Two-Factor Setup Form Component.
+ *
+ * Lets staff members complete the two-factor enrollment required by the platform
+ * before entering the dashboard, or sign out instead.
+ */
+export function TwoFactorSetupForm() {
+    const t = useTranslations('pages.auth.twoFactorSetup')
+    const router = useRouter()
+
+    const [signingOut, setSigningOut] = useState(false)
+
+    function handleComplete() {
+        router.push('/dashboard')
+        router.refresh()
+    }
+
+    async function handleSignOut() {
+        setSigningOut(true)
+        await signOut()
+        router.push('/login')
+        router.refresh()
+    }
+
+    return (
+        <div className="space-y-6">
+            <TwoFactorEnrollment onComplete={handleComplete}/>
+
+            <Button
+                variant="outline"
+                onClick={handleSignOut}
+                disabled={signingOut}
+                className="w-full h-11 text-sm font-medium"
+            >
+                {signingOut ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin"/>
+                ) : (
+                    <LogOut className="mr-2 h-4 w-4"/>
+                )}
+                {t('signOut')}
+            </Button>
+        </div>
+    )
+}
@@ -0,0 +1,125 @@
+/** @format */
+import React from "react";
+import {useTranslations} from "next-intl";
+import type {CertificateVerification} from "@/lib/domain/project-completion";
+import {Card, CardContent, CardHeader, CardTitle, CardDescription} from "@/components/ui/card";
+import {Badge} from "@/components/ui/badge";
+import {Button} from "@/components/ui/button";
+import {Input} from "@/components/ui/input";
+import {ShieldCheck, ShieldX, Search} from "lucide-react";
+
+interface Props {
+    code: string;
+    verification: CertificateVerification | null;
+    error: string | null;
+}
+
+/**
+ * Public certificate verification view.
+ * Shows a lookup form and, once a code was submitted, either the certified
+ * completion or a notice that the certificate could not be verified.
+ */
+export function CertificateVerificationView({code, verification, error}: Props) {
+    const t = useTranslations("certificates.verify");
+    const tRatings = useTranslations("completion.ratings");
+
+    return (
+        <div className="min-h-screen w-full bg-background p-4 sm:p-6 lg:p-8">
+            <div className="mx-auto max-w-2xl animate-in fade-in zoom-in-95 duration-500 space-y-6">
+                <Card className="shadow-sm border-border bg-surface">
+                    <CardHeader>
+                        <CardTitle>{t("title")}</CardTitle>
+                        <CardDescription>{t("description")}</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <form method="get" className="flex flex-col sm:flex-row gap-3">
+                            <Input
+                                name="code"
+                                defaultValue={code}
+                                placeholder={t("placeholder")}
+                                className="font-mono uppercase"
+                                required
+                            />
+                            <Button type="submit">
+                                <Search className="mr-2 h-4 w-4"/>
+                                {t("submit")}
+                            </Button>
+                        </form>
+                    </CardContent>
+                </Card>
+
+                {error && (
+                    <Card className="shadow-sm border-destructive/40 bg-destructive/5">
+                        <CardContent className="p-6 flex items-start gap-3">
+                            <ShieldX className="h-6 w-6 text-destructive shrink-0"/>
+                            <div className="space-y-1">
+                                <p className="font-semibold text-foreground">{t("invalidTitle")}</p>
+                                <p className="text-sm text-muted-foreground">{error}</p>
+                            </div>
+                        </CardContent>
+                    </Card>
+                )}
+
+                {verification && (
+                    <Card className="shadow-sm border-primary/40 bg-surface">
+                        <CardHeader>
+                            <div className="flex items-center gap-3">
+                                <ShieldCheck className="h-6 w-6 text-primary shrink-0"/>
+                                <div>
+                                    <CardTitle>{t("validTitle")}</CardTitle>
+                                    <CardDescription className="font-mono">{verification.verificationCode}</CardDescription>
+                                </div>
+                            </div>
+                        </CardHeader>
+                        <CardContent>
+                            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+                                <div className="space-y-1">
+                                    <dt className="text-xs font-medium text-muted-foreground uppercase">{t("fields.student")}</dt>
+                                    <dd className="font-medium text-foreground">{verification.studentName}</dd>
+                                </div>
+                                <div className="space-y-1">
+                                    <dt className="text-xs font-medium text-muted-foreground uppercase">{t("fields.project")}</dt>
+                                    <dd className="font-medium text-foreground">{verification.projectTitle}</dd>
+                                </div>
+                                <div className="space-y-1">
+                                    <dt className="text-xs font-medium text-muted-foreground uppercase">{t("fields.organization")}</dt>
+                                    <dd className="font-medium text-foreground">{verification.organizationName}</dd>
+                                </div>
+                                <div className="space-y-1">
+                                    <dt className="text-xs font-medium text-muted-foreground uppercase">{t("fields.coordinator")}</dt>
+                                    <dd className="font-medium text-foreground">{verification.coordinatorName ?? "N/A"}</dd>
+                                </div>
+                                <div className="space-y-1">
+                                    <dt className="text-xs font-medium text-muted-foreground uppercase">{t("fields.hours")}</dt>
+                                    <dd className="font-medium text-foreground">{verification.actualHoursWorked ?? "N/A"}</dd>
+                                </div>
+                                <div className="space-y-1">
+                                    <dt className="text-xs font-medium text-muted-foreground uppercase">{t("fields.completedAt")}</dt>
+                                    <dd className="font-medium text-foreground">
+                                        {new Date(verification.completedAt).toLocaleDateString()}
+                                    </dd>
+                                </div>
+                                <div className="space-y-1">
+                                    <dt className="text-xs font-medium text-muted-foreground uppercase">{t("fields.coordinatorRating")}</dt>
+                                    <dd>
+                                        {verification.coordinatorPerformanceRating
+                                            ? <Badge variant="default">{tRatings(verification.coordinatorPerformanceRating)}</Badge>
+                                            : "N/A"}
+                                    </dd>
+                                </div>
+                                <div className="space-y-1">
+                                    <dt className="text-xs font-medium text-muted-foreground uppercase">{t("fields.organizationRating")}</dt>
+                                    <dd>
+                                        {verification.organizationPerformanceRating
+                                            ? <Badge variant="default">{tRatings(verification.organizationPerformanceRating)}</Badge>
+                                            : "N/A"}
+                                    </dd>
+                                </div>
+                            </dl>
+                        </CardContent>
+                    </Card>
+                )}
+            </div>
+        </div>
+    );
+}
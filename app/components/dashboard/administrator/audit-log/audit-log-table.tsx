@@ -0,0 +1,192 @@
+/** @format */
+"use client";
+
+import React from "react";
+import {useTranslations} from "next-intl";
+import type {AuditChanges, AuditEvent} from "@/lib/domain/audit";
+import {Table, TableBody, TableCell, TableHead, TableHeader, TableRow} from "@/components/ui/table";
+import {Badge} from "@/components/ui/badge";
+import {Search, Calendar, Globe} from "lucide-react";
+import {cn} from "@/lib/utils";
+
+interface Props {
+    events: AuditEvent[];
+    isPending: boolean;
+}
+
+/**
+ * Formats a recorded field value for display.
+ */
+function formatValue(value: unknown): string {
+    if (value === null || value === undefined || value === "") {
+        return "—";
+    }
+    return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Responsive audit log list.
+ * Renders a Card View on mobile devices and a Data Table on desktop.
+ */
+export function AuditLogTable({events, isPending}: Props) {
+    const t = useTranslations("admin.audit");
+
+    const renderActor = (event: AuditEvent) => (
+        <div className="flex flex-col min-w-0">
+            <span className="font-medium text-sm text-foreground truncate">
+                {event.actorName ?? t("system")}
+            </span>
+            {event.actorEmail && (
+                <span className="text-xs text-muted-foreground truncate">{event.actorEmail}</span>
+            )}
+        </div>
+    );
+
+    const renderTarget = (event: AuditEvent) => (
+        <div className="flex flex-col min-w-0">
+            <span className="text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                {t(`entityTypes.${event.entityType}`)}
+            </span>
+            <span className="text-sm text-foreground truncate" title={event.entityId}>
+                {event.entityLabel ?? event.entityId}
+            </span>
+        </div>
+    );
+
+    const renderDetails = (event: AuditEvent) => {
+        const changes = (event.changes ?? {}) as AuditChanges;
+        const metadata = (event.metadata ?? {}) as Record<string, unknown>;
+        const entries = Object.entries(changes);
+        const details = Object.entries(metadata).filter(([, value]) => value !== null && value !== "");
+
+        if (entries.length === 0 && details.length === 0) {
+            return <span className="text-sm text-muted-foreground/40 italic">—</span>;
+        }
+
+        return (
+            <ul className="space-y-0.5 text-xs text-muted-foreground break-all">
+                {entries.map(([field, {from, to}]) => (
+                    <li key={field}>
+                        <span className="font-medium text-foreground">{field}</span>
+                        {": "}
+                        <span className="line-through opacity-70">{formatValue(from)}</span>
+                        {" → "}
+                        <span>{formatValue(to)}</span>
+                    </li>
+                ))}
+                {details.map(([key, value]) => (
+                    <li key={key}>
+                        <span className="font-medium text-foreground">{key}</span>
+                        {": "}
+                        {formatValue(value)}
+                    </li>
+                ))}
+            </ul>
+        );
+    };
+
+    if (events.length === 0) {
+        return (
+            <div className="flex flex-col items-center justify-center py-16 text-muted-foreground bg-muted/5">
+                <div className="p-4 rounded-full bg-muted/30 mb-3">
+                    <Search className="h-8 w-8 opacity-40"/>
+                </div>
+                <p className="font-medium">{t("noResults")}</p>
+                <p className="text-sm opacity-60">{t("tryDifferentFilters")}</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className={cn("w-full", isPending && "opacity-50 pointer-events-none transition-opacity")}>
+            <div className="block md:hidden divide-y divide-border">
+                {events.map((event) => (
+                    <div key={event.id} className="p-4 flex flex-col gap-3 bg-background">
+                        <div className="flex items-start justify-between gap-3">
+                            {renderActor(event)}
+                            <Badge variant="secondary" className="shrink-0 text-xs font-normal">
+                                {t(`actions.${event.action}`)}
+                            </Badge>
+                        </div>
+
+                        {renderTarget(event)}
+                        {renderDetails(event)}
+
+                        <div className="flex items-center gap-3 text-xs text-muted-foreground pt-1">
+                            <span className="flex items-center gap-1.5">
+                                <Calendar className="w-3.5 h-3.5 opacity-70"/>
+                                {new Date(event.createdAt).toLocaleString()}
+                            </span>
+                            {event.ipAddress && (
+                                <span className="flex items-center gap-1.5">
+                                    <Globe className="w-3.5 h-3.5 opacity-70"/>
+                                    {event.ipAddress}
+                                </span>
+                            )}
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <div className="hidden md:block overflow-x-auto">
+                <Table>
+                    <TableHeader className="bg-muted/30">
+                        <TableRow className="hover:bg-transparent border-border">
+                            <TableHead
+                                className="py-4 pl-6 font-semibold text-xs uppercase tracking-wider text-muted-foreground w-[180px]">
+                                {t("columns.time")}
+                            </TableHead>
+                            <TableHead
+                                className="py-4 font-semibold text-xs uppercase tracking-wider text-muted-foreground w-[220px]">
+                                {t("columns.actor")}
+                            </TableHead>
+                            <TableHead
+                                className="py-4 font-semibold text-xs uppercase tracking-wider text-muted-foreground">
+                                {t("columns.action")}
+                            </TableHead>
+                            <TableHead
+                                className="py-4 font-semibold text-xs uppercase tracking-wider text-muted-foreground w-[220px]">
+                                {t("columns.entity")}
+                            </TableHead>
+                            <TableHead
+                                className="py-4 pr-6 font-semibold text-xs uppercase tracking-wider text-muted-foreground">
+                                {t("columns.changes")}
+                            </TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {events.map((event) => (
+                            <TableRow
+                                key={event.id}
+                                className="group hover:bg-muted/30 border-border transition-colors duration-200 align-top"
+                            >
+                                <TableCell className="pl-6 py-3 text-muted-foreground text-sm font-medium">
+                                    <div className="flex flex-col gap-0.5">
+                                        <span>{new Date(event.createdAt).toLocaleString()}</span>
+                                        {event.ipAddress && (
+                                            <span className="text-xs opacity-70">{event.ipAddress}</span>
+                                        )}
+                                    </div>
+                                </TableCell>
+                                <TableCell className="py-3 max-w-[220px]">
+                                    {renderActor(event)}
+                                </TableCell>
+                                <TableCell className="py-3">
+                                    <Badge variant="secondary" className="text-xs font-normal whitespace-nowrap">
+                                        {t(`actions.${event.action}`)}
+                                    </Badge>
+                                </TableCell>
+                                <TableCell className="py-3 max-w-[220px]">
+                                    {renderTarget(event)}
+                                </TableCell>
+                                <TableCell className="py-3 pr-6 max-w-[360px]">
+                                    {renderDetails(event)}
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </div>
+        </div>
+    );
+}
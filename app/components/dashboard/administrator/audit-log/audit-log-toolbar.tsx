@@ -0,0 +1,187 @@
+/** @format */
+'use client';
+
+import React, {useState} from 'react';
+import {useTranslations} from 'next-intl';
+import {toast} from 'sonner';
+import type {AuditAction, AuditEntityType, AuditLogFilters} from '@/lib/domain/audit';
+import {exportAuditEvents} from '@/lib/controller/admin/audit-controller';
+import {Download, Filter, Loader2, Search, UserRound} from 'lucide-react';
+import {Input} from '@/components/ui/input';
+import {Button} from '@/components/ui/button';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue
+} from '@/components/ui/select';
+
+interface Props {
+    initialFilters: Required<AuditLogFilters>;
+    entityTypes: typeof AuditEntityType;
+    actionsByEntity: Record<AuditEntityType, AuditAction[]>;
+    isPending: boolean;
+    onFilterChange: (updates: Record<string, string | number | null>) => void;
+}
+
+/**
+ * Renders toolbar controls for filtering the audit log by actor, target, action and date,
+ * and for exporting the filtered entries as a CSV file.
+ * Text and date inputs start from the applied filters; the parent remounts the toolbar when they change.
+ */
+export function AuditLogToolbar({initialFilters, entityTypes, actionsByEntity, isPending, onFilterChange}: Props): React.JSX.Element {
+    const t = useTranslations('admin.audit');
+    const [actor, setActor] = useState(initialFilters.actor);
+    const [entity, setEntity] = useState(initialFilters.entity);
+    const [from, setFrom] = useState(initialFilters.from);
+    const [to, setTo] = useState(initialFilters.to);
+    const [isExporting, setIsExporting] = useState(false);
+
+    const selectedEntityType = Object.values(entityTypes).find((type) => type === initialFilters.entityType);
+    const actions = selectedEntityType
+        ? actionsByEntity[selectedEntityType]
+        : Object.values(actionsByEntity).flat();
+
+    const handleApply = () => {
+        onFilterChange({actor, entity, from, to});
+    };
+
+    const handleEntityTypeChange = (value: string) => {
+        const type = Object.values(entityTypes).find((entityType) => entityType === value);
+        const keepsAction = !type || actionsByEntity[type].some((action) => action === initialFilters.action);
+        onFilterChange({entityType: value, action: keepsAction ? initialFilters.action : null});
+    };
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        const result = await exportAuditEvents(initialFilters);
+        setIsExporting(false);
+
+        if (!result.success) {
+            toast.error(result.error);
+            return;
+        }
+
+        // The byte order mark lets spreadsheet applications detect UTF-8
+        const url = URL.createObjectURL(new Blob(['\uFEFF', result.data.content], {type: 'text/csv;charset=utf-8'}));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = result.data.fileName;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-4">
+                <div className="relative group">
+                    <UserRound
+                        className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground group-focus-within:text-primary transition-colors"/>
+                    <Input
+                        placeholder={t('actorPlaceholder')}
+                        className="pl-10 h-10 bg-background border-input focus:ring-1 focus:ring-primary/20 transition-all"
+                        value={actor}
+                        onChange={(e) => setActor(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleApply()}
+                    />
+                </div>
+                <div className="relative group">
+                    <Search
+                        className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground group-focus-within:text-primary transition-colors"/>
+                    <Input
+                        placeholder={t('entityPlaceholder')}
+                        className="pl-10 h-10 bg-background border-input focus:ring-1 focus:ring-primary/20 transition-all"
+                        value={entity}
+                        onChange={(e) => setEntity(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleApply()}
+                    />
+                </div>
+                <Input
+                    type="date"
+                    aria-label={t('from')}
+                    title={t('from')}
+                    className="h-10 bg-background border-input"
+                    value={from}
+                    max={to || undefined}
+                    onChange={(e) => setFrom(e.target.value)}
+                />
+                <Input
+                    type="date"
+                    aria-label={t('to')}
+                    title={t('to')}
+                    className="h-10 bg-background border-input"
+                    value={to}
+                    min={from || undefined}
+                    onChange={(e) => setTo(e.target.value)}
+                />
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3 sm:items-center sm:justify-between">
+                <div className="flex flex-col sm:flex-row gap-3">
+                    <Select value={initialFilters.entityType} onValueChange={handleEntityTypeChange}>
+                        <SelectTrigger className="w-full sm:w-[200px] h-10 bg-background border-input">
+                            <div className="flex items-center gap-2 text-muted-foreground">
+                                <Filter className="h-3.5 w-3.5"/>
+                                <span className="text-foreground">
+                                    <SelectValue placeholder={t('filterEntityType')}/>
+                                </span>
+                            </div>
+                        </SelectTrigger>
+                        <SelectContent
+                            className="bg-background border-border shadow-xl min-w-[200px] z-50 isolate opacity-100"
+                            style={{backgroundColor: "var(--color-background, #ffffff)", opacity: 1}}
+                        >
+                            <SelectItem value="ALL">{t('entityTypes.ALL')}</SelectItem>
+                            {Object.values(entityTypes).map((type) => (
+                                <SelectItem key={type} value={type}>{t(`entityTypes.${type}`)}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+
+                    <Select value={initialFilters.action} onValueChange={(val) => onFilterChange({action: val})}>
+                        <SelectTrigger className="w-full sm:w-[260px] h-10 bg-background border-input">
+                            <div className="flex items-center gap-2 text-muted-foreground">
+                                <Filter className="h-3.5 w-3.5"/>
+                                <span className="text-foreground">
+                                    <SelectValue placeholder={t('filterAction')}/>
+                                </span>
+                            </div>
+                        </SelectTrigger>
+                        <SelectContent
+                            className="bg-background border-border shadow-xl min-w-[260px] z-50 isolate opacity-100"
+                            style={{backgroundColor: "var(--color-background, #ffffff)", opacity: 1}}
+                        >
+                            <SelectItem value="ALL">{t('actions.ALL')}</SelectItem>
+                            {actions.map((action) => (
+                                <SelectItem key={action} value={action}>{t(`actions.${action}`)}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+
+                <div className="flex gap-2">
+                    <Button
+                        variant="outline"
+                        onClick={handleApply}
+                        disabled={isPending}
+                        className="h-10 px-4 border-input hover:bg-accent"
+                    >
+                        {isPending ? <Loader2 className="h-4 w-4 animate-spin"/> : t('apply')}
+                    </Button>
+                    <Button
+                        variant="outline"
+                        onClick={handleExport}
+                        disabled={isExporting}
+                        className="h-10 px-4 border-input hover:bg-accent"
+                    >
+                        {isExporting
+                            ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/>
+                            : <Download className="mr-2 h-4 w-4"/>}
+                        {isExporting ? t('exporting') : t('export')}
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,116 @@
+/** @format */
+"use client";
+
+import React, {useCallback, useTransition} from "react";
+import {useRouter, usePathname, useSearchParams} from "next/navigation";
+import {useTranslations} from "next-intl";
+import type {OutboundEmailStatus, OutboundEmailSummary} from "@/lib/domain/email-outbox";
+import {Mail} from "lucide-react";
+import {Card, CardContent, CardHeader, CardFooter} from "@/components/ui/card";
+import {EmailOutboxToolbar} from "@/components/dashboard/administrator/email-outbox/email-outbox-toolbar";
+import {EmailOutboxTable} from "@/components/dashboard/administrator/email-outbox/email-outbox-table";
+import {PaginationFooter} from "@/components/dashboard/administrator/user-management/pagination-footer";
+
+interface PageProps {
+    statuses: typeof OutboundEmailStatus;
+    initialEmails: OutboundEmailSummary[];
+    initialPagination: {
+        page: number;
+        pageSize: number;
+        total: number;
+        totalPages: number;
+    };
+    initialFilters: {
+        search: string;
+        status: OutboundEmailStatus | "ALL";
+    };
+}
+
+/**
+ * Email Outbox Client Page.
+ *
+ * Lists queued, failed and sent emails and keeps the filters in sync with the URL.
+ */
+export function EmailOutboxClient({statuses, initialEmails, initialPagination, initialFilters}: PageProps) {
+    const t = useTranslations("admin.emails");
+    const router = useRouter();
+    const pathname = usePathname();
+    const searchParams = useSearchParams();
+    const [isPending, startTransition] = useTransition();
+
+    const updateUrl = useCallback(
+        (updates: Record<string, string | number | null>) => {
+            const params = new URLSearchParams(searchParams.toString());
+            Object.entries(updates).forEach(([key, value]) => {
+                if (value === null || value === "" || value === "ALL") {
+                    params.delete(key);
+                } else {
+                    params.set(key, String(value));
+                }
+            });
+
+            if (!updates.page) {
+                params.set("page", "1");
+            }
+
+            startTransition(() => {
+                router.push(`${pathname}?${params.toString()}`);
+            });
+        },
+        [pathname, router, searchParams]
+    );
+
+    return (
+        <div className="min-h-screen w-full bg-background p-4 sm:p-6 lg:p-8">
+            <div className="mx-auto max-w-7xl animate-in fade-in zoom-in-95 duration-500 space-y-6">
+
+                <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                    <div className="flex items-center gap-4">
+                        <div
+                            className="flex h-12 w-12 items-center justify-center rounded-xl bg-primary/10 ring-1 ring-primary/20 shadow-sm">
+                            <Mail className="h-6 w-6 text-primary"/>
+                        </div>
+                        <div className="space-y-1">
+                            <h1 className="text-2xl font-bold tracking-tight text-foreground">
+                                {t("title")}
+                            </h1>
+                            <p className="text-sm text-muted-foreground max-w-lg">
+                                {t("subtitle")}
+                            </p>
+                        </div>
+                    </div>
+                </div>
+
+                <Card className="shadow-xl border-border overflow-hidden bg-surface">
+                    <CardHeader className="bg-surface/50 pb-4 pt-6 px-6">
+                        <EmailOutboxToolbar
+                            initialSearch={initialFilters.search}
+                            initialStatus={initialFilters.status}
+                            statuses={statuses}
+                            isPending={isPending}
+                            onFilterChange={updateUrl}
+                        />
+                    </CardHeader>
+
+                    <CardContent className="p-0 border-t border-border">
+                        <EmailOutboxTable
+                            emails={initialEmails}
+                            statuses={statuses}
+                            isPending={isPending}
+                            onResent={() => router.refresh()}
+                        />
+                    </CardContent>
+
+                    <CardFooter className="bg-muted/30 border-t border-border p-4">
+                        <PaginationFooter
+                            currentCount={initialEmails.length}
+                            pagination={initialPagination}
+                            onPageChange={(page: number) => updateUrl({page})}
+                            disabled={isPending}
+                        />
+                    </CardFooter>
+                </Card>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,182 @@
+/** @format */
+"use client";
+
+import React, {useState} from "react";
+import {useTranslations} from "next-intl";
+import {toast} from "sonner";
+import type {OutboundEmailStatus, OutboundEmailSummary} from "@/lib/domain/email-outbox";
+import {resendOutboundEmail} from "@/lib/controller/admin/email-outbox-controller";
+import {Table, TableBody, TableCell, TableHead, TableHeader, TableRow} from "@/components/ui/table";
+import {Button} from "@/components/ui/button";
+import {Search, Calendar, Loader2, RotateCw, AlertTriangle} from "lucide-react";
+import {cn} from "@/lib/utils";
+
+import {EmailStatusBadge} from "./email-status-badge";
+
+interface Props {
+    emails: OutboundEmailSummary[];
+    statuses: typeof OutboundEmailStatus;
+    isPending: boolean;
+    onResent: () => void;
+}
+
+/**
+ * Responsive outbox list.
+ * Renders a Card View on mobile devices and a Data Table on desktop.
+ */
+export function EmailOutboxTable({emails, statuses, isPending, onResent}: Props) {
+    const t = useTranslations("admin.emails");
+    const [resendingId, setResendingId] = useState<string | null>(null);
+
+    const handleResend = async (email: OutboundEmailSummary) => {
+        setResendingId(email.id);
+        const result = await resendOutboundEmail(email.id);
+        setResendingId(null);
+
+        if (!result.success) {
+            toast.error(result.error);
+            return;
+        }
+
+        if (result.data.status === statuses.SENT) {
+            toast.success(t("resend.sent", {to: email.to}));
+        } else {
+            toast.warning(t("resend.queued", {to: email.to}));
+        }
+        onResent();
+    };
+
+    const renderResendButton = (email: OutboundEmailSummary) => (
+        <Button
+            variant="outline"
+            size="sm"
+            className="h-8"
+            disabled={resendingId !== null || email.status === statuses.SENDING}
+            onClick={() => handleResend(email)}
+        >
+            {resendingId === email.id
+                ? <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin"/>
+                : <RotateCw className="mr-2 h-3.5 w-3.5"/>}
+            {t("resend.button")}
+        </Button>
+    );
+
+    const renderError = (email: OutboundEmailSummary) => email.lastError && email.status !== statuses.SENT && (
+        <span className="flex items-start gap-1.5 text-xs text-error break-all">
+            <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5"/>
+            {email.lastError}
+        </span>
+    );
+
+    if (emails.length === 0) {
+        return (
+            <div className="flex flex-col items-center justify-center py-16 text-muted-foreground bg-muted/5">
+                <div className="p-4 rounded-full bg-muted/30 mb-3">
+                    <Search className="h-8 w-8 opacity-40"/>
+                </div>
+                <p className="font-medium">{t("noResults")}</p>
+                <p className="text-sm opacity-60">{t("tryDifferentSearch")}</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className={cn("w-full", isPending && "opacity-50 pointer-events-none transition-opacity")}>
+            <div className="block md:hidden divide-y divide-border">
+                {emails.map((email) => (
+                    <div key={email.id} className="p-4 flex flex-col gap-3 bg-background">
+                        <div className="flex items-start justify-between gap-3">
+                            <div className="flex flex-col min-w-0">
+                                <span className="font-semibold text-sm text-foreground truncate">
+                                    {email.subject}
+                                </span>
+                                <span className="text-xs text-muted-foreground truncate">
+                                    {email.to}
+                                </span>
+                            </div>
+                            <EmailStatusBadge status={email.status}/>
+                        </div>
+
+                        {renderError(email)}
+
+                        <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground pt-1">
+                            <span className="flex items-center gap-1.5">
+                                <Calendar className="w-3.5 h-3.5 opacity-70"/>
+                                {new Date(email.createdAt).toLocaleString()}
+                                {" · "}
+                                {t("attempts", {count: email.attempts})}
+                            </span>
+                            {renderResendButton(email)}
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <div className="hidden md:block overflow-x-auto">
+                <Table>
+                    <TableHeader className="bg-muted/30">
+                        <TableRow className="hover:bg-transparent border-border">
+                            <TableHead
+                                className="py-4 pl-6 font-semibold text-xs uppercase tracking-wider text-muted-foreground w-[360px]">
+                                {t("columns.email")}
+                            </TableHead>
+                            <TableHead
+                                className="py-4 font-semibold text-xs uppercase tracking-wider text-muted-foreground">
+                                {t("columns.status")}
+                            </TableHead>
+                            <TableHead
+                                className="py-4 font-semibold text-xs uppercase tracking-wider text-muted-foreground">
+                                {t("columns.attempts")}
+                            </TableHead>
+                            <TableHead
+                                className="py-4 font-semibold text-xs uppercase tracking-wider text-muted-foreground">
+                                {t("columns.created")}
+                            </TableHead>
+                            <TableHead
+                                className="py-4 font-semibold text-xs uppercase tracking-wider text-muted-foreground">
+                                {t("columns.sent")}
+                            </TableHead>
+                            <TableHead
+                                className="py-4 pr-6 text-right font-semibold text-xs uppercase tracking-wider text-muted-foreground w-[120px]">
+                                {t("columns.actions")}
+                            </TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {emails.map((email) => (
+                            <TableRow
+                                key={email.id}
+                                className="group hover:bg-muted/30 border-border transition-colors duration-200"
+                            >
+                                <TableCell className="pl-6 py-3">
+                                    <div className="flex flex-col gap-0.5 max-w-[360px]">
+                                        <span className="font-semibold text-sm text-foreground truncate">
+                                            {email.subject}
+                                        </span>
+                                        <span className="text-xs text-muted-foreground truncate">{email.to}</span>
+                                        {renderError(email)}
+                                    </div>
+                                </TableCell>
+                                <TableCell>
+                                    <EmailStatusBadge status={email.status}/>
+                                </TableCell>
+                                <TableCell className="text-muted-foreground text-sm font-medium">
+                                    {email.attempts}
+                                </TableCell>
+                                <TableCell className="text-muted-foreground text-sm font-medium">
+                                    {new Date(email.createdAt).toLocaleString()}
+                                </TableCell>
+                                <TableCell className="text-muted-foreground text-sm font-medium">
+                                    {email.sentAt ? new Date(email.sentAt).toLocaleString() : "-"}
+                                </TableCell>
+                                <TableCell className="text-right pr-6">
+                                    {renderResendButton(email)}
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </div>
+        </div>
+    );
+}
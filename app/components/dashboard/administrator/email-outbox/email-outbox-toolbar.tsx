@@ -0,0 +1,92 @@
+/** @format */
+'use client';
+
+import React, {useState, useEffect} from 'react';
+import {useTranslations} from 'next-intl';
+import type {OutboundEmailStatus} from '@/lib/domain/email-outbox';
+import {Search, Filter, Loader2} from 'lucide-react';
+import {Input} from '@/components/ui/input';
+import {Button} from '@/components/ui/button';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue
+} from '@/components/ui/select';
+
+interface Props {
+    initialSearch: string;
+    initialStatus: string;
+    statuses: typeof OutboundEmailStatus;
+    isPending: boolean;
+    onFilterChange: (updates: Record<string, string | number | null>) => void;
+}
+
+/**
+ * Renders toolbar controls for searching the outbox by recipient or subject
+ * and filtering it by delivery status.
+ */
+export function EmailOutboxToolbar({initialSearch, initialStatus, statuses, isPending, onFilterChange}: Props): React.JSX.Element {
+    const t = useTranslations('admin.emails');
+    const [searchTerm, setSearchTerm] = useState(initialSearch);
+
+    useEffect(() => {
+        setSearchTerm(initialSearch);
+    }, [initialSearch]);
+
+    const handleSearch = () => {
+        if (searchTerm !== initialSearch) {
+            onFilterChange({search: searchTerm});
+        }
+    };
+
+    return (
+        <div className="flex flex-col sm:flex-row gap-4 items-center justify-between">
+            <div className="flex w-full sm:w-auto items-center gap-2">
+                <div className="relative group w-full sm:w-[320px]">
+                    <Search
+                        className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground group-focus-within:text-primary transition-colors"/>
+                    <Input
+                        placeholder={t('searchPlaceholder')}
+                        className="pl-10 h-10 bg-background border-input focus:ring-1 focus:ring-primary/20 transition-all"
+                        value={searchTerm}
+                        onChange={(e) => setSearchTerm(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+                    />
+                </div>
+                <Button
+                    variant="outline"
+                    onClick={handleSearch}
+                    disabled={isPending}
+                    className="h-10 px-4 border-input hover:bg-accent"
+                >
+                    {isPending ? <Loader2 className="h-4 w-4 animate-spin"/> : t('search')}
+                </Button>
+            </div>
+
+            <Select
+                value={initialStatus}
+                onValueChange={(val) => onFilterChange({status: val})}
+            >
+                <SelectTrigger className="w-full sm:w-[200px] h-10 bg-background border-input">
+                    <div className="flex items-center gap-2 text-muted-foreground">
+                        <Filter className="h-3.5 w-3.5"/>
+                        <span className="text-foreground">
+                            <SelectValue placeholder={t('filterStatus')}/>
+                        </span>
+                    </div>
+                </SelectTrigger>
+                <SelectContent
+                    className="bg-background border-border shadow-xl min-w-[200px] z-50 isolate opacity-100"
+                    style={{backgroundColor: "var(--color-background, #ffffff)", opacity: 1}}
+                >
+                    <SelectItem value="ALL">{t('status.ALL')}</SelectItem>
+                    {Object.values(statuses).map((status) => (
+                        <SelectItem key={status} value={status}>{t(`status.${status}`)}</SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+        </div>
+    );
+}
@@ -0,0 +1,36 @@
+/** @format */
+import React from "react";
+import {useTranslations} from "next-intl";
+import type {OutboundEmailStatus} from "@/lib/domain/email-outbox";
+import {Badge} from "@/components/ui/badge";
+import {cn} from "@/lib/utils";
+
+const DOT_COLORS: Record<OutboundEmailStatus, string> = {
+    PENDING: "bg-warning",
+    SENDING: "bg-primary",
+    SENT: "bg-success",
+    FAILED: "bg-error",
+};
+
+/**
+ * Displays the delivery status of an outbox entry using a "Dot" indicator style.
+ */
+export function EmailStatusBadge({status}: { status: OutboundEmailStatus }) {
+    const t = useTranslations("admin.emails.status");
+
+    return (
+        <Badge
+            variant="outline"
+            className={cn(
+                "font-medium text-xs px-2.5 py-1 rounded-full shadow-none border gap-2 bg-background",
+                "text-foreground/80 border-border"
+            )}
+        >
+            <span className={cn("h-2 w-2 rounded-full", DOT_COLORS[status])}/>
+
+            <span className="translate-y-[0.5px]">
+                {t(status)}
+            </span>
+        </Badge>
+    );
+}
@@ -0,0 +1,212 @@
+/** @format */
+"use client";
+
+import React, {useMemo, useRef, useState} from "react";
+import {useTranslations} from "next-intl";
+import {toast} from "sonner";
+import type {EmailTemplateDetails, EmailTemplateVariables} from "@/lib/domain/email-template";
+import {
+    resetEmailTemplate,
+    saveEmailTemplate,
+    sendTestEmailTemplate
+} from "@/lib/controller/admin/email-template-controller";
+import {renderPlaceholders, toPlaceholder} from "@/lib/utils/email-template";
+import {Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter} from "@/components/ui/card";
+import {Input} from "@/components/ui/input";
+import {Label} from "@/components/ui/label";
+import {Textarea} from "@/components/ui/textarea";
+import {Button} from "@/components/ui/button";
+import {Badge} from "@/components/ui/badge";
+import {Eye, Loader2, RotateCcw, Save, Send} from "lucide-react";
+
+interface Props {
+    template: EmailTemplateDetails;
+    sampleValues: EmailTemplateVariables;
+    onChanged: () => void;
+}
+
+/**
+ * Editor for one email template in one language.
+ * Shows the HTML source next to a live preview rendered with example values,
+ * and allows saving, resetting to the built-in template and sending a test email.
+ */
+export function EmailTemplateEditor({template, sampleValues, onChanged}: Props) {
+    const t = useTranslations("admin.emailTemplates");
+    const htmlRef = useRef<HTMLTextAreaElement>(null);
+
+    const [subject, setSubject] = useState(template.subject);
+    const [html, setHtml] = useState(template.html);
+    const [pendingAction, setPendingAction] = useState<"save" | "reset" | "test" | null>(null);
+
+    const isDirty = subject !== template.subject || html !== template.html;
+    const preview = useMemo(() => ({
+        subject: renderPlaceholders(subject, sampleValues, false),
+        html: renderPlaceholders(html, sampleValues),
+    }), [subject, html, sampleValues]);
+
+    const insertVariable = (variable: string) => {
+        const textarea = htmlRef.current;
+        const placeholder = toPlaceholder(variable);
+        if (!textarea) {
+            setHtml((current) => current + placeholder);
+            return;
+        }
+
+        const {selectionStart, selectionEnd} = textarea;
+        setHtml(html.slice(0, selectionStart) + placeholder + html.slice(selectionEnd));
+        requestAnimationFrame(() => {
+            textarea.focus();
+            textarea.setSelectionRange(selectionStart + placeholder.length, selectionStart + placeholder.length);
+        });
+    };
+
+    const handleSave = async () => {
+        setPendingAction("save");
+        const result = await saveEmailTemplate(template.key, template.locale, {subject, html});
+        setPendingAction(null);
+
+        if (!result.success) {
+            toast.error(result.error);
+            return;
+        }
+        toast.success(t("editor.saved"));
+        onChanged();
+    };
+
+    const handleReset = async () => {
+        setPendingAction("reset");
+        const result = await resetEmailTemplate(template.key, template.locale);
+        setPendingAction(null);
+
+        if (!result.success) {
+            toast.error(result.error);
+            return;
+        }
+        setSubject(template.defaults.subject);
+        setHtml(template.defaults.html);
+        toast.success(t("editor.resetDone"));
+        onChanged();
+    };
+
+    const handleSendTest = async () => {
+        setPendingAction("test");
+        const result = await sendTestEmailTemplate(template.key, template.locale, {subject, html});
+        setPendingAction(null);
+
+        if (!result.success) {
+            toast.error(result.error);
+            return;
+        }
+        toast.success(t("editor.testSent"));
+    };
+
+    return (
+        <Card className="shadow-sm border-border bg-surface">
+            <CardHeader>
+                <div className="flex flex-wrap items-center gap-2">
+                    <CardTitle>{t(`templates.${template.key}.name`)}</CardTitle>
+                    <Badge variant={template.isCustomized ? "default" : "outline"}>
+                        {template.isCustomized ? t("editor.customized") : t("editor.builtIn")}
+                    </Badge>
+                </div>
+                <CardDescription>{t(`templates.${template.key}.description`)}</CardDescription>
+            </CardHeader>
+
+            <CardContent className="space-y-6 border-t border-border pt-6">
+                <div className="space-y-2">
+                    <Label className="text-xs font-medium text-muted-foreground uppercase">
+                        {t("editor.variables")}
+                    </Label>
+                    <div className="flex flex-wrap gap-1.5">
+                        {template.variables.map((variable) => (
+                            <button
+                                key={variable}
+                                type="button"
+                                onClick={() => insertVariable(variable)}
+                                title={t("editor.insertVariable")}
+                                className="rounded-md bg-primary/10 px-2 py-1 font-mono text-xs text-primary hover:bg-primary/20 transition-colors"
+                            >
+                                {toPlaceholder(variable)}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">{t("editor.variablesHint")}</p>
+                </div>
+
+                <div className="space-y-2">
+                    <Label htmlFor="template-subject" className="text-xs font-medium text-muted-foreground uppercase">
+                        {t("editor.subject")}
+                    </Label>
+                    <Input
+                        id="template-subject"
+                        value={subject}
+                        onChange={(e) => setSubject(e.target.value)}
+                    />
+                </div>
+
+                <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+                    <div className="space-y-2">
+                        <Label htmlFor="template-html" className="text-xs font-medium text-muted-foreground uppercase">
+                            {t("editor.html")}
+                        </Label>
+                        <Textarea
+                            id="template-html"
+                            ref={htmlRef}
+                            value={html}
+                            onChange={(e) => setHtml(e.target.value)}
+                            spellCheck={false}
+                            className="min-h-[520px] font-mono text-xs leading-relaxed"
+                        />
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label className="text-xs font-medium text-muted-foreground uppercase flex items-center gap-1.5">
+                            <Eye className="w-3.5 h-3.5"/>
+                            {t("editor.preview")}
+                        </Label>
+                        <div className="rounded-md border border-border overflow-hidden bg-background">
+                            <div className="px-3 py-2 border-b border-border bg-muted/30 text-sm">
+                                <span className="text-muted-foreground">{t("editor.subject")}: </span>
+                                <span className="font-medium text-foreground">{preview.subject}</span>
+                            </div>
+                            <iframe
+                                title={t("editor.preview")}
+                                srcDoc={preview.html}
+                                sandbox=""
+                                className="w-full h-[480px] bg-white"
+                            />
+                        </div>
+                        <p className="text-xs text-muted-foreground">{t("editor.previewHint")}</p>
+                    </div>
+                </div>
+            </CardContent>
+
+            <CardFooter className="bg-muted/30 border-t border-border p-4 flex flex-col-reverse sm:flex-row gap-2 sm:justify-between">
+                <Button
+                    variant="outline"
+                    onClick={handleReset}
+                    disabled={pendingAction !== null || !template.isCustomized}
+                >
+                    {pendingAction === "reset"
+                        ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/>
+                        : <RotateCcw className="mr-2 h-4 w-4"/>}
+                    {t("editor.reset")}
+                </Button>
+                <div className="flex flex-col sm:flex-row gap-2">
+                    <Button variant="outline" onClick={handleSendTest} disabled={pendingAction !== null}>
+                        {pendingAction === "test"
+                            ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/>
+                            : <Send className="mr-2 h-4 w-4"/>}
+                        {t("editor.sendTest")}
+                    </Button>
+                    <Button onClick={handleSave} disabled={pendingAction !== null || !isDirty}>
+                        {pendingAction === "save"
+                            ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/>
+                            : <Save className="mr-2 h-4 w-4"/>}
+                        {t("editor.save")}
+                    </Button>
+                </div>
+            </CardFooter>
+        </Card>
+    );
+}
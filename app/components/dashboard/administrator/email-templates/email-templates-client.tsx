@@ -0,0 +1,141 @@
+/** @format */
+"use client";
+
+import React, {useCallback, useTransition} from "react";
+import {useRouter, usePathname, useSearchParams} from "next/navigation";
+import {useTranslations} from "next-intl";
+import type {EmailTemplateDetails, EmailTemplateKey, EmailTemplateSummary, EmailTemplateVariables} from "@/lib/domain/email-template";
+import {FileCode2, Globe, AlertCircle} from "lucide-react";
+import {Card, CardContent, CardHeader, CardTitle, CardDescription} from "@/components/ui/card";
+import {Badge} from "@/components/ui/badge";
+import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "@/components/ui/select";
+import {cn} from "@/lib/utils";
+import {Locale, LOCALE_NAMES} from "@/lib/utils/i18n/routing";
+import {EmailTemplateEditor} from "@/components/dashboard/administrator/email-templates/email-template-editor";
+
+interface Props {
+    templates: EmailTemplateSummary[];
+    template: EmailTemplateDetails | null;
+    selectedKey: EmailTemplateKey;
+    language: string;
+    languages: string[];
+    sampleValues: EmailTemplateVariables;
+}
+
+/**
+ * Email Templates Client Page.
+ *
+ * Lists the editable templates of the selected language and hosts the editor of the
+ * selected template. The selection is kept in the URL.
+ */
+export function EmailTemplatesClient({templates, template, selectedKey, language, languages, sampleValues}: Props) {
+    const t = useTranslations("admin.emailTemplates");
+    const router = useRouter();
+    const pathname = usePathname();
+    const searchParams = useSearchParams();
+    const [isPending, startTransition] = useTransition();
+
+    const updateUrl = useCallback(
+        (updates: Record<string, string>) => {
+            const params = new URLSearchParams(searchParams.toString());
+            Object.entries(updates).forEach(([key, value]) => params.set(key, value));
+
+            startTransition(() => {
+                router.push(`${pathname}?${params.toString()}`);
+            });
+        },
+        [pathname, router, searchParams]
+    );
+
+    return (
+        <div className="min-h-screen w-full bg-background p-4 sm:p-6 lg:p-8">
+            <div className="mx-auto max-w-7xl animate-in fade-in zoom-in-95 duration-500 space-y-6">
+
+                <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+                    <div className="flex items-center gap-4">
+                        <div
+                            className="flex h-12 w-12 items-center justify-center rounded-xl bg-primary/10 ring-1 ring-primary/20 shadow-sm">
+                            <FileCode2 className="h-6 w-6 text-primary"/>
+                        </div>
+                        <div className="space-y-1">
+                            <h1 className="text-2xl font-bold tracking-tight text-foreground">
+                                {t("title")}
+                            </h1>
+                            <p className="text-sm text-muted-foreground max-w-lg">
+                                {t("subtitle")}
+                            </p>
+                        </div>
+                    </div>
+
+                    <Select value={language} onValueChange={(val) => updateUrl({language: val})}>
+                        <SelectTrigger className="w-full md:w-[200px] h-10 bg-background border-input">
+                            <div className="flex items-center gap-2 text-muted-foreground">
+                                <Globe className="h-3.5 w-3.5"/>
+                                <span className="text-foreground">
+                                    <SelectValue placeholder={t("language")}/>
+                                </span>
+                            </div>
+                        </SelectTrigger>
+                        <SelectContent>
+                            {languages.map((code) => (
+                                <SelectItem key={code} value={code}>{LOCALE_NAMES[code as Locale] ?? code}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-[280px_1fr] gap-6">
+                    <Card className="shadow-sm border-border bg-surface h-fit">
+                        <CardHeader className="pb-3">
+                            <CardTitle className="text-base">{t("list.title")}</CardTitle>
+                            <CardDescription>{t("list.description")}</CardDescription>
+                        </CardHeader>
+                        <CardContent className="p-2 border-t border-border">
+                            <nav className="flex flex-col gap-1">
+                                {templates.map((item) => (
+                                    <button
+                                        key={item.key}
+                                        type="button"
+                                        disabled={isPending}
+                                        onClick={() => updateUrl({template: item.key})}
+                                        className={cn(
+                                            "flex items-center justify-between gap-2 rounded-md px-3 py-2 text-left text-sm transition-colors",
+                                            item.key === selectedKey
+                                                ? "bg-primary/10 text-primary font-medium"
+                                                : "text-foreground hover:bg-muted/50"
+                                        )}
+                                    >
+                                        <span className="truncate">{t(`templates.${item.key}.name`)}</span>
+                                        {item.isCustomized && (
+                                            <Badge variant="secondary" className="text-[10px] px-1.5 py-0 h-5 shrink-0">
+                                                {t("list.customized")}
+                                            </Badge>
+                                        )}
+                                    </button>
+                                ))}
+                            </nav>
+                        </CardContent>
+                    </Card>
+
+                    <div className={cn(isPending && "opacity-50 pointer-events-none transition-opacity")}>
+                        {template ? (
+                            <EmailTemplateEditor
+                                key={`${template.key}-${template.locale}`}
+                                template={template}
+                                sampleValues={sampleValues}
+                                onChanged={() => router.refresh()}
+                            />
+                        ) : (
+                            <Card className="shadow-sm border-border bg-surface">
+                                <CardContent className="p-6 flex items-center gap-3 text-sm text-muted-foreground">
+                                    <AlertCircle className="h-5 w-5 shrink-0"/>
+                                    {t("loadFailed")}
+                                </CardContent>
+                            </Card>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -7,6 +7,8 @@ import {toast} from "sonner";
 
 // Domain & Controller
 import {AdministratorWithUser} from "@/lib/domain/administrator";
+import type {NotificationDelivery, NotificationPreferences} from "@/lib/domain/notification";
+import type {TwoFactorStatus} from "@/lib/domain/two-factor";
 import {
     deleteMyAdministratorAccount,
     updateMyAdministratorProfile
@@ -15,12 +17,17 @@ import {
 // Components
 import {BaseProfile} from "@/components/profile/base-profile";
 import {CommonUserFields} from "@/components/profile/common-user-fields";
+import {NotificationPreferencesSection} from "@/components/profile/notification-preferences-section";
+import {TwoFactorSection} from "@/components/profile/two-factor-section";
 
 interface AdminProfileProps {
     admin: AdministratorWithUser;
+    notificationPreferences: NotificationPreferences;
+    notificationDeliveries: typeof NotificationDelivery;
+    twoFactorStatus: TwoFactorStatus;
 }
 
-export function AdminProfile({admin}: AdminProfileProps) {
+export function AdminProfile({admin, notificationPreferences, notificationDeliveries, twoFactorStatus}: AdminProfileProps) {
     const t = useTranslations("profile.admin");
 
     const [isSaving, setIsSaving] = useState(false);
@@ -100,6 +107,13 @@ export function AdminProfile({admin}: AdminProfileProps) {
                 isEditMode={isEditMode}
                 t={t}
             />
+
+            <NotificationPreferencesSection
+                preferences={notificationPreferences}
+                deliveries={notificationDeliveries}
+            />
+
+            <TwoFactorSection status={twoFactorStatus}/>
         </BaseProfile>
     );
 }
@@ -3,7 +3,7 @@
 import React, {useState} from "react";
 import {useTranslations} from "next-intl";
 import {toast} from "sonner";
-import {ProjectWithDetails} from "@/lib/domain/project";
+import {ProjectWithContacts} from "@/lib/domain/project";
 import {archiveProject} from "@/lib/controller/admin/content-moderation-controller";
 import {Button} from "@/components/ui/button";
 import {
@@ -17,7 +17,7 @@ import {
 import {useRouter} from "next/navigation";
 
 interface Props {
-    target: ProjectWithDetails | null;
+    target: ProjectWithContacts | null;
     onOpenChange: (open: boolean) => void;
     onSuccess: () => void;
 }
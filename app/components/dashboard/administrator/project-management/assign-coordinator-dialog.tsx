@@ -0,0 +1,190 @@
+/** @format */
+"use client";
+import React, {useEffect, useState} from "react";
+import {useTranslations} from "next-intl";
+import {toast} from "sonner";
+import {useRouter} from "next/navigation";
+import {ProjectWithContacts} from "@/lib/domain/project";
+import type {CoordinatorSuggestion} from "@/lib/domain/coordinator";
+import {assignProjectCoordinator, getCoordinatorSuggestions} from "@/lib/controller/admin/content-moderation-controller";
+import {Button} from "@/components/ui/button";
+import {Badge} from "@/components/ui/badge";
+import {ScrollArea} from "@/components/ui/scroll-area";
+import {Avatar, AvatarFallback, AvatarImage} from "@/components/ui/avatar";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {Loader2, Briefcase, Sparkles, UserX} from "lucide-react";
+import {cn} from "@/lib/utils";
+
+interface Props {
+    target: ProjectWithContacts | null;
+    onOpenChange: (open: boolean) => void;
+    onSuccess: () => void;
+}
+
+/**
+ * Dialog for assigning a coordinator to a project awaiting review.
+ *
+ * Suggestions are ranked by how well each coordinator's expertise and department
+ * match the project, then by their current number of active projects.
+ */
+export function AssignCoordinatorDialog({target, onOpenChange, onSuccess}: Props) {
+    const t = useTranslations("admin.projects.assignDialog");
+    const tCategories = useTranslations("organization.projects.form.categories");
+    const router = useRouter();
+    const [suggestions, setSuggestions] = useState<CoordinatorSuggestion[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    useEffect(() => {
+        if (target) {
+            setLoading(true);
+            setSuggestions([]);
+            setSelectedId(null);
+
+            getCoordinatorSuggestions(target.id)
+                .then((res) => {
+                    if (res.success) {
+                        setSuggestions(res.data);
+                        setSelectedId(res.data[0]?.coordinator.id ?? null);
+                    } else {
+                        toast.error(res.error);
+                    }
+                })
+                .finally(() => setLoading(false));
+        }
+    }, [target]);
+
+    const handleConfirm = async () => {
+        if (!target || !selectedId) return;
+        setIsSubmitting(true);
+
+        try {
+            const result = await assignProjectCoordinator(target.id, selectedId);
+            if (result.success) {
+                toast.success(t("success"));
+                router.refresh();
+                onSuccess();
+            } else {
+                toast.error(result.error);
+            }
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const formatTerm = (term: string) =>
+        target && term === target.category ? tCategories(term.toLowerCase()) : term;
+
+    return (
+        <Dialog open={!!target} onOpenChange={onOpenChange}>
+            <DialogContent className="bg-background border-border shadow-2xl sm:max-w-[560px] gap-6 z-[100]">
+                <DialogHeader className="gap-2">
+                    <DialogTitle className="text-xl font-bold tracking-tight">
+                        {t("title")}
+                    </DialogTitle>
+                    <DialogDescription className="text-muted-foreground">
+                        {t("description", {title: target?.title ?? ""})}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {loading ? (
+                    <div className="flex items-center justify-center py-12">
+                        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground"/>
+                    </div>
+                ) : suggestions.length === 0 ? (
+                    <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+                        <div className="p-4 rounded-full bg-muted/30 mb-3">
+                            <UserX className="h-8 w-8 opacity-40"/>
+                        </div>
+                        <p className="font-medium">{t("empty")}</p>
+                    </div>
+                ) : (
+                    <ScrollArea className="max-h-[360px] pr-2">
+                        <div className="space-y-2">
+                            {suggestions.map(({coordinator, matchScore, matchedTerms}, index) => (
+                                <button
+                                    key={coordinator.id}
+                                    type="button"
+                                    onClick={() => setSelectedId(coordinator.id)}
+                                    className={cn(
+                                        "w-full text-left rounded-lg border p-3 transition-colors flex items-start gap-3",
+                                        selectedId === coordinator.id
+                                            ? "border-primary bg-primary/5 ring-1 ring-primary/30"
+                                            : "border-border hover:bg-muted/40"
+                                    )}
+                                >
+                                    <Avatar className="h-9 w-9 border border-border bg-white">
+                                        <AvatarImage
+                                            src={coordinator.user.profilePictureUrl || undefined}
+                                            className="h-full w-full object-cover"
+                                        />
+                                        <AvatarFallback className="bg-primary/5 text-primary text-xs font-bold">
+                                            {coordinator.user.name?.charAt(0) || "C"}
+                                        </AvatarFallback>
+                                    </Avatar>
+                                    <div className="flex-1 min-w-0 space-y-1.5">
+                                        <div className="flex items-center justify-between gap-2">
+                                            <span className="font-semibold text-sm text-foreground truncate">
+                                                {coordinator.user.name}
+                                            </span>
+                                            {index === 0 && matchScore > 0 && (
+                                                <Badge className="shrink-0 flex items-center gap-1">
+                                                    <Sparkles className="h-3 w-3"/>
+                                                    {t("bestMatch")}
+                                                </Badge>
+                                            )}
+                                        </div>
+                                        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                                            {coordinator.department && <span>{coordinator.department}</span>}
+                                            <span className="flex items-center gap-1">
+                                                <Briefcase className="h-3 w-3 opacity-70"/>
+                                                {t("activeProjects", {count: coordinator.activeProjectCount})}
+                                            </span>
+                                        </div>
+                                        {matchedTerms.length > 0 ? (
+                                            <div className="flex flex-wrap gap-1.5">
+                                                {matchedTerms.map((term) => (
+                                                    <Badge key={term} variant="secondary"
+                                                           className="text-xs font-normal px-2 py-0 h-5 bg-primary/10 text-primary">
+                                                        {formatTerm(term)}
+                                                    </Badge>
+                                                ))}
+                                            </div>
+                                        ) : (
+                                            <p className="text-xs text-muted-foreground/60 italic">{t("noMatch")}</p>
+                                        )}
+                                    </div>
+                                </button>
+                            ))}
+                        </div>
+                    </ScrollArea>
+                )}
+
+                <DialogFooter className="gap-2 sm:gap-0">
+                    <Button
+                        variant="outline"
+                        onClick={() => onOpenChange(false)}
+                        className="mr-2 border-muted"
+                    >
+                        {t("cancel")}
+                    </Button>
+                    <Button
+                        variant="default"
+                        onClick={handleConfirm}
+                        disabled={isSubmitting || loading || !selectedId}
+                    >
+                        {isSubmitting ? t("submitting") : t("confirm")}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -2,7 +2,7 @@
 "use client";
 import React from "react";
 import {useTranslations} from "next-intl";
-import type {ProjectWithDetails, ProjectStatus} from "@/lib/domain/project";
+import type {ProjectWithContacts, ProjectStatus} from "@/lib/domain/project";
 import {
     DropdownMenu,
     DropdownMenuContent,
@@ -11,19 +11,21 @@ import {
     DropdownMenuTrigger
 } from "@/components/ui/dropdown-menu";
 import {Button} from "@/components/ui/button";
-import {MoreHorizontal, Archive, Trash2, Eye} from "lucide-react";
+import {MoreHorizontal, Archive, Trash2, Eye, UserCheck} from "lucide-react";
 
 interface Props {
     statuses: typeof ProjectStatus;
-    project: ProjectWithDetails;
+    project: ProjectWithContacts;
     onViewClick: () => void;
+    onAssignClick: () => void;
     onArchiveClick: () => void;
     onDeleteClick: () => void;
 }
 
-export function ProjectActionsMenu({statuses, project, onViewClick, onArchiveClick, onDeleteClick}: Props) {
+export function ProjectActionsMenu({statuses, project, onViewClick, onAssignClick, onArchiveClick, onDeleteClick}: Props) {
     const t = useTranslations("admin.projects.table");
     const isArchived = project.status === statuses.ARCHIVED;
+    const isPendingReview = project.status === statuses.PENDING_REVIEW;
 
     return (
         <DropdownMenu>
@@ -52,6 +54,16 @@ export function ProjectActionsMenu({statuses, project, onViewClick, onArchiveCli
                     {t("viewDetails")}
                 </DropdownMenuItem>
 
+                {isPendingReview && (
+                    <DropdownMenuItem
+                        onClick={onAssignClick}
+                        className="cursor-pointer focus:bg-muted"
+                    >
+                        <UserCheck className="mr-2 h-4 w-4 text-muted-foreground"/>
+                        {t("assignCoordinator")}
+                    </DropdownMenuItem>
+                )}
+
                 {!isArchived && (
                     <DropdownMenuItem
                         onClick={onArchiveClick}
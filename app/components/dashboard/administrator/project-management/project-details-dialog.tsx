@@ -1,8 +1,8 @@
 /** @format */
 "use client";
-import React, {useState, useEffect, isValidElement, cloneElement} from "react";
+import React, {useState, useEffect, useCallback, isValidElement, cloneElement} from "react";
 import {useTranslations} from "next-intl";
-import {ProjectWithDetails, ProjectUpdateType, ProjectStatus} from "@/lib/domain/project";
+import {ProjectWithContacts, ProjectUpdateType, ProjectStatus} from "@/lib/domain/project";
 import {
     Dialog,
     DialogContent,
@@ -15,6 +15,9 @@ import {Input} from "@/components/ui/input";
 import {Textarea} from "@/components/ui/textarea";
 import {Button} from "@/components/ui/button";
 import {updateProject} from "@/lib/controller/admin/content-moderation-controller";
+import {getProjectAttachments} from "@/lib/controller/project-attachment-controller";
+import type {ProjectAttachments} from "@/lib/domain/project-attachment";
+import {AttachmentsCard} from "@/components/dashboard/attachments/attachments-card";
 import {toast} from "sonner";
 import {useRouter} from "next/navigation";
 import {
@@ -41,7 +44,7 @@ import {cn} from "@/lib/utils";
 
 interface Props {
     statuses: typeof ProjectStatus;
-    project: ProjectWithDetails | null;
+    project: ProjectWithContacts | null;
     open: boolean;
     onOpenChange: (open: boolean) => void;
 }
@@ -51,9 +54,26 @@ export function ProjectDetailsDialog({statuses, project, open, onOpenChange}: Pr
     const router = useRouter();
     const [isEditMode, setIsEditMode] = useState(false);
     const [formData, setFormData] = useState<ProjectUpdateType>({});
-    const [activeProject, setActiveProject] = useState<ProjectWithDetails | null>(project);
+    const [activeProject, setActiveProject] = useState<ProjectWithContacts | null>(project);
+    const [attachments, setAttachments] = useState<{ projectId: string; data: ProjectAttachments } | null>(null);
     const isArchived = project?.status === statuses.ARCHIVED;
 
+    const loadAttachments = useCallback((projectId: string) => {
+        return getProjectAttachments(projectId).then((result) => {
+            if (result.success) {
+                setAttachments({projectId, data: result.data!});
+            } else {
+                toast.error(result.error);
+            }
+        });
+    }, []);
+
+    useEffect(() => {
+        if (open && project) {
+            void loadAttachments(project.id);
+        }
+    }, [open, project, loadAttachments]);
+
     useEffect(() => {
         setActiveProject(project);
         if (project) {
@@ -214,6 +234,22 @@ export function ProjectDetailsDialog({statuses, project, open, onOpenChange}: Pr
                                     <p className="text-sm text-muted-foreground italic sm:col-span-2">N/A</p>
                                 )}
                             </InfoSection>
+
+                            {attachments && attachments.projectId === activeProject.id && (
+                                <div className="space-y-4">
+                                    <AttachmentsCard
+                                        kind="materials"
+                                        list={attachments.data.materials}
+                                        target={{projectId: activeProject.id}}
+                                        onChanged={() => loadAttachments(activeProject.id)}
+                                    />
+                                    <AttachmentsCard
+                                        kind="deliverables"
+                                        list={attachments.data.deliverables}
+                                        onChanged={() => loadAttachments(activeProject.id)}
+                                    />
+                                </div>
+                            )}
                         </div>
                     </ScrollArea>
                 </div>
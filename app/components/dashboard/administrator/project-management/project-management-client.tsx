@@ -4,19 +4,20 @@
 import React, {useState, useCallback, useTransition} from "react";
 import {useRouter, usePathname, useSearchParams} from "next/navigation";
 import {useTranslations} from "next-intl";
-import type {ProjectWithDetails, ProjectStatus} from "@/lib/domain/project";
+import type {ProjectWithContacts, ProjectStatus} from "@/lib/domain/project";
 import {Briefcase} from "lucide-react";
 import {Card, CardContent, CardHeader, CardFooter} from "@/components/ui/card";
 import {ProjectToolbar} from "@/components/dashboard/administrator/project-management/project-toolbar";
 import {ProjectTable} from "@/components/dashboard/administrator/project-management/project-table";
 import {PaginationFooter} from "@/components/dashboard/administrator/user-management/pagination-footer";
 import {ProjectDetailsDialog} from "./project-details-dialog";
+import {AssignCoordinatorDialog} from "./assign-coordinator-dialog";
 import {ArchiveProjectDialog} from "./archive-project-dialog";
 import {DeleteProjectDialog} from "./delete-project-dialog";
 
 interface PageProps {
     statuses: typeof ProjectStatus;
-    initialProjects: ProjectWithDetails[];
+    initialProjects: ProjectWithContacts[];
     initialPagination: {
         page: number;
         pageSize: number;
@@ -40,9 +41,10 @@ export function ProjectManagementClient({statuses, initialProjects, initialPagin
     const pathname = usePathname();
     const searchParams = useSearchParams();
     const [isPending, startTransition] = useTransition();
-    const [viewTarget, setViewTarget] = useState<ProjectWithDetails | null>(null);
-    const [archiveTarget, setArchiveTarget] = useState<ProjectWithDetails | null>(null);
-    const [deleteTarget, setDeleteTarget] = useState<ProjectWithDetails | null>(null);
+    const [viewTarget, setViewTarget] = useState<ProjectWithContacts | null>(null);
+    const [assignTarget, setAssignTarget] = useState<ProjectWithContacts | null>(null);
+    const [archiveTarget, setArchiveTarget] = useState<ProjectWithContacts | null>(null);
+    const [deleteTarget, setDeleteTarget] = useState<ProjectWithContacts | null>(null);
 
 
     const updateUrl = useCallback(
@@ -107,6 +109,7 @@ export function ProjectManagementClient({statuses, initialProjects, initialPagin
                             statuses={statuses}
                             isPending={isPending}
                             onViewClick={setViewTarget}
+                            onAssignClick={setAssignTarget}
                             onArchiveClick={setArchiveTarget}
                             onDeleteClick={setDeleteTarget}
                         />
@@ -128,6 +131,11 @@ export function ProjectManagementClient({statuses, initialProjects, initialPagin
                 open={!!viewTarget}
                 onOpenChange={(open: boolean) => !open && setViewTarget(null)}
             />
+            <AssignCoordinatorDialog
+                target={assignTarget}
+                onOpenChange={(open: boolean) => !open && setAssignTarget(null)}
+                onSuccess={() => setAssignTarget(null)}
+            />
             <ArchiveProjectDialog
                 target={archiveTarget}
                 onOpenChange={(open: boolean) => !open && setArchiveTarget(null)}
@@ -2,7 +2,7 @@
 "use client";
 import React from "react";
 import {useTranslations} from "next-intl";
-import type {ProjectWithDetails, ProjectStatus} from "@/lib/domain/project";
+import type {ProjectWithContacts, ProjectStatus} from "@/lib/domain/project";
 import {Table, TableBody, TableCell, TableHead, TableHeader, TableRow} from "@/components/ui/table";
 import {Avatar, AvatarFallback, AvatarImage} from "@/components/ui/avatar";
 import {Search, Calendar} from "lucide-react";
@@ -11,19 +11,28 @@ import {Badge} from "@/components/ui/badge";
 import {ProjectActionsMenu} from "./project-actions-menu";
 
 interface Props {
-    projects: ProjectWithDetails[];
+    projects: ProjectWithContacts[];
     statuses: typeof ProjectStatus;
     isPending: boolean;
-    onViewClick: (project: ProjectWithDetails) => void;
-    onArchiveClick: (project: ProjectWithDetails) => void;
-    onDeleteClick: (project: ProjectWithDetails) => void;
+    onViewClick: (project: ProjectWithContacts) => void;
+    onAssignClick: (project: ProjectWithContacts) => void;
+    onArchiveClick: (project: ProjectWithContacts) => void;
+    onDeleteClick: (project: ProjectWithContacts) => void;
 }
 
 /**
  * Responsive Project List.
  * Renders a Card View on mobile devices and a Data Table on desktop.
  */
-export function ProjectTable({projects, statuses, isPending, onViewClick, onArchiveClick, onDeleteClick}: Props) {
+export function ProjectTable({
+    projects,
+    statuses,
+    isPending,
+    onViewClick,
+    onAssignClick,
+    onArchiveClick,
+    onDeleteClick
+}: Props) {
     const t = useTranslations("admin.projects.table");
 
     if (projects.length === 0) {
@@ -64,6 +73,7 @@ export function ProjectTable({projects, statuses, isPending, onViewClick, onArch
                                     statuses={statuses}
                                     project={project}
                                     onViewClick={() => onViewClick(project)}
+                                    onAssignClick={() => onAssignClick(project)}
                                     onArchiveClick={() => onArchiveClick(project)}
                                     onDeleteClick={() => onDeleteClick(project)}
                                 />
@@ -187,6 +197,7 @@ export function ProjectTable({projects, statuses, isPending, onViewClick, onArch
                                         statuses={statuses}
                                         project={project}
                                         onViewClick={() => onViewClick(project)}
+                                        onAssignClick={() => onAssignClick(project)}
                                         onArchiveClick={() => onArchiveClick(project)}
                                         onDeleteClick={() => onDeleteClick(project)}
                                     />
@@ -3,8 +3,15 @@
 
 import React, {useEffect, useState} from "react";
 import {useTranslations} from "next-intl";
-import {User} from "@/lib/domain/user";
 import {Config, ThemeColors, ConfigUpdateType, defaultConfig} from "@/lib/domain/config";
+import {
+    RATE_LIMITERS,
+    RateLimiterName,
+    RateLimitRule,
+    RateLimitSettings,
+    resolveRateLimits
+} from "@/lib/domain/rate-limit";
+import {MAX_TRASH_RETENTION_DAYS, resolveTrashRetentionDays} from "@/lib/domain/trash";
 import {getConfig, updateConfig} from "@/lib/controller/config-controller";
 import {
     Settings,
@@ -20,7 +27,11 @@ import {
     X,
     Building2,
     CheckCircle2,
-    RotateCcw
+    RotateCcw,
+    ShieldCheck,
+    KeyRound,
+    Gauge,
+    Trash2
 } from "lucide-react";
 import {Card, CardContent} from "@/components/ui/card";
 import {Tabs, TabsContent} from "@/components/ui/tabs";
@@ -35,10 +46,11 @@ import {toast} from "sonner";
 import Image from "next/image";
 
 interface AdminSettingsProps {
-    user: User;
+    /** Callback URL to register at the single sign-on provider. */
+    ssoRedirectUri: string;
 }
 
-export function AdminSettings({user}: AdminSettingsProps) {
+export function AdminSettings({ssoRedirectUri}: AdminSettingsProps) {
     const t = useTranslations("settings.admin");
 
     // State
@@ -80,6 +92,12 @@ export function AdminSettings({user}: AdminSettingsProps) {
         setConfigForm({...configForm, [field]: value});
     };
 
+    const handleRateLimitUpdate = (limiter: RateLimiterName, field: keyof RateLimitRule, value: string) => {
+        if (!configForm) return;
+        const rateLimits = editableRateLimits(configForm.rateLimits);
+        handleUpdate("rateLimits", {...rateLimits, [limiter]: {...rateLimits[limiter], [field]: Number(value)}});
+    };
+
     const handleThemeUpdate = (colors: ThemeColors) => {
         handleUpdate("themeColors", colors);
     };
@@ -100,7 +118,9 @@ export function AdminSettings({user}: AdminSettingsProps) {
         try {
             const updatePayload: ConfigUpdateType = {
                 ...configForm,
-                themeColors: configForm.themeColors as ThemeColors
+                themeColors: configForm.themeColors as ThemeColors,
+                rateLimits: resolveRateLimits(configForm.rateLimits),
+                trashRetentionDays: resolveTrashRetentionDays(configForm.trashRetentionDays)
             };
 
             const result = await updateConfig(updatePayload);
@@ -133,6 +153,8 @@ export function AdminSettings({user}: AdminSettingsProps) {
 
     // Helper for safe theme access
     const safeThemeColors = (configForm.themeColors as ThemeColors) || defaultConfig.themeColors;
+    const rateLimits = resolveRateLimits(configForm.rateLimits);
+    const rateLimitInputs = editableRateLimits(configForm.rateLimits);
 
     return (
         <div className="min-h-screen w-full bg-background p-4 sm:p-6 lg:p-8">
@@ -468,6 +490,43 @@ export function AdminSettings({user}: AdminSettingsProps) {
                                         </div>
                                     </div>
                                 </div>
+
+                                {/* Data Retention Card */}
+                                <div className="bg-card border border-border rounded-xl p-4 sm:p-6 shadow-sm space-y-6">
+                                    <div className="space-y-1">
+                                        <h3 className="text-sm font-semibold uppercase tracking-wider text-muted-foreground flex items-center gap-2">
+                                            <Trash2 className="w-4 h-4"/>
+                                            {t("system.retention")}
+                                        </h3>
+                                        <p className="text-xs text-muted-foreground">{t("system.retention_desc")}</p>
+                                    </div>
+
+                                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                                        <span className="text-sm font-medium text-foreground">
+                                            {t("system.trash_retention")}
+                                        </span>
+                                        {isEditMode ? (
+                                            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                                                <Input
+                                                    type="number"
+                                                    min={1}
+                                                    max={MAX_TRASH_RETENTION_DAYS}
+                                                    value={configForm.trashRetentionDays || ""}
+                                                    onChange={(e) => handleUpdate("trashRetentionDays", Number(e.target.value))}
+                                                    aria-label={t("system.trash_retention_days")}
+                                                    className="w-24 bg-background"
+                                                />
+                                                <span>{t("system.trash_retention_days")}</span>
+                                            </div>
+                                        ) : (
+                                            <span className="text-sm font-mono bg-muted/50 px-2 py-1 rounded">
+                                                {t("system.trash_retention_summary", {
+                                                    days: resolveTrashRetentionDays(configForm.trashRetentionDays)
+                                                })}
+                                            </span>
+                                        )}
+                                    </div>
+                                </div>
                             </TabsContent>
 
                             {/* TAB: SECURITY */}
@@ -580,6 +639,235 @@ export function AdminSettings({user}: AdminSettingsProps) {
                                                 </div>
                                             )}
                                         </div>
+
+                                        <div className="space-y-2">
+                                            <Label
+                                                className="text-xs font-medium text-muted-foreground uppercase mb-2 block">{t("security.two_factor")}</Label>
+                                            {isEditMode ? (
+                                                <div
+                                                    className="flex flex-col sm:flex-row sm:items-center justify-between border border-border bg-muted/20 p-4 rounded-lg gap-4 sm:gap-0">
+                                                    <div className="space-y-0.5">
+                                                        <Label
+                                                            className="text-sm font-medium text-foreground">{t("security.require_staff_two_factor")}</Label>
+                                                        <p className="text-xs text-muted-foreground">
+                                                            {t("security.require_staff_two_factor_desc")}
+                                                        </p>
+                                                    </div>
+                                                    <Switch
+                                                        checked={configForm.requireStaffTwoFactor}
+                                                        onCheckedChange={(val) => handleUpdate("requireStaffTwoFactor", val)}
+                                                    />
+                                                </div>
+                                            ) : (
+                                                <div
+                                                    className="flex items-center gap-3 border border-border p-4 rounded-lg bg-background">
+                                                    <div className={`p-2 rounded-full shrink-0 ${configForm.requireStaffTwoFactor ? "bg-green-500/10" : "bg-muted"}`}>
+                                                        <ShieldCheck
+                                                            className={`w-5 h-5 ${configForm.requireStaffTwoFactor ? "text-green-600" : "text-muted-foreground"}`}/>
+                                                    </div>
+                                                    <div className="min-w-0">
+                                                        <p className="font-medium text-sm text-foreground truncate">
+                                                            {configForm.requireStaffTwoFactor
+                                                                ? t("security.two_factor_required")
+                                                                : t("security.two_factor_optional")}
+                                                        </p>
+                                                        <p className="text-xs text-muted-foreground truncate">
+                                                            {t("security.require_staff_two_factor_desc")}
+                                                        </p>
+                                                    </div>
+                                                </div>
+                                            )}
+                                        </div>
+                                    </div>
+
+                                    {/* Single Sign-On Card */}
+                                    <div
+                                        className="md:col-span-2 bg-card border border-border rounded-xl p-4 sm:p-6 shadow-sm space-y-6">
+                                        <h3 className="text-sm font-semibold uppercase tracking-wider text-muted-foreground flex items-center gap-2">
+                                            <KeyRound className="w-4 h-4"/>
+                                            {t("security.sso")}
+                                        </h3>
+
+                                        {isEditMode ? (
+                                            <div
+                                                className="flex flex-col sm:flex-row sm:items-center justify-between border border-border bg-muted/20 p-4 rounded-lg gap-4 sm:gap-0">
+                                                <div className="space-y-0.5">
+                                                    <Label
+                                                        className="text-sm font-medium text-foreground">{t("security.sso_enabled")}</Label>
+                                                    <p className="text-xs text-muted-foreground">
+                                                        {t("security.sso_enabled_desc")}
+                                                    </p>
+                                                </div>
+                                                <Switch
+                                                    checked={configForm.oidcEnabled}
+                                                    onCheckedChange={(val) => handleUpdate("oidcEnabled", val)}
+                                                />
+                                            </div>
+                                        ) : (
+                                            <div
+                                                className="flex items-center gap-3 border border-border p-4 rounded-lg bg-background">
+                                                <div className={`p-2 rounded-full shrink-0 ${configForm.oidcEnabled ? "bg-green-500/10" : "bg-muted"}`}>
+                                                    <KeyRound
+                                                        className={`w-5 h-5 ${configForm.oidcEnabled ? "text-green-600" : "text-muted-foreground"}`}/>
+                                                </div>
+                                                <div className="min-w-0">
+                                                    <p className="font-medium text-sm text-foreground truncate">
+                                                        {configForm.oidcEnabled
+                                                            ? t("security.sso_on")
+                                                            : t("security.sso_off")}
+                                                    </p>
+                                                    <p className="text-xs text-muted-foreground truncate">
+                                                        {t("security.sso_enabled_desc")}
+                                                    </p>
+                                                </div>
+                                            </div>
+                                        )}
+
+                                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                            <div className="space-y-2">
+                                                <Label
+                                                    className="text-xs font-medium text-muted-foreground uppercase">{t("security.sso_display_name")}</Label>
+                                                {isEditMode ? (
+                                                    <Input
+                                                        value={configForm.oidcDisplayName || ''}
+                                                        onChange={(e) => handleUpdate("oidcDisplayName", e.target.value)}
+                                                        placeholder={t("security.sso_display_name_placeholder")}
+                                                        className="bg-background"
+                                                    />
+                                                ) : (
+                                                    <div
+                                                        className="flex items-center gap-2 min-h-[40px] px-3 border border-transparent overflow-hidden">
+                                                        <span
+                                                            className="text-sm font-medium truncate">{configForm.oidcDisplayName || "N/A"}</span>
+                                                    </div>
+                                                )}
+                                            </div>
+
+                                            <div className="space-y-2">
+                                                <Label
+                                                    className="text-xs font-medium text-muted-foreground uppercase">{t("security.sso_issuer")}</Label>
+                                                {isEditMode ? (
+                                                    <Input
+                                                        value={configForm.oidcIssuer || ''}
+                                                        onChange={(e) => handleUpdate("oidcIssuer", e.target.value)}
+                                                        placeholder="https://login.university.edu"
+                                                        className="bg-background"
+                                                    />
+                                                ) : (
+                                                    <div
+                                                        className="flex items-center gap-2 min-h-[40px] px-3 border border-transparent overflow-hidden">
+                                                        <Globe className="w-4 h-4 text-primary shrink-0"/>
+                                                        <span
+                                                            className="text-sm font-mono truncate">{configForm.oidcIssuer || "N/A"}</span>
+                                                    </div>
+                                                )}
+                                            </div>
+
+                                            <div className="space-y-2">
+                                                <Label
+                                                    className="text-xs font-medium text-muted-foreground uppercase">{t("security.sso_client_id")}</Label>
+                                                {isEditMode ? (
+                                                    <Input
+                                                        value={configForm.oidcClientId || ''}
+                                                        onChange={(e) => handleUpdate("oidcClientId", e.target.value)}
+                                                        autoComplete="off"
+                                                        className="bg-background"
+                                                    />
+                                                ) : (
+                                                    <div
+                                                        className="flex items-center gap-2 min-h-[40px] px-3 border border-transparent overflow-hidden">
+                                                        <span
+                                                            className="text-sm font-mono bg-muted/50 px-2 py-1 rounded truncate">{configForm.oidcClientId || "N/A"}</span>
+                                                    </div>
+                                                )}
+                                            </div>
+
+                                            <div className="space-y-2">
+                                                <Label
+                                                    className="text-xs font-medium text-muted-foreground uppercase">{t("security.sso_client_secret")}</Label>
+                                                {isEditMode ? (
+                                                    <Input
+                                                        type="password"
+                                                        value={configForm.oidcClientSecret || ''}
+                                                        onChange={(e) => handleUpdate("oidcClientSecret", e.target.value)}
+                                                        autoComplete="new-password"
+                                                        placeholder="••••••••"
+                                                        className="bg-background"
+                                                    />
+                                                ) : (
+                                                    <div
+                                                        className="flex items-center gap-2 min-h-[40px] px-3 border border-transparent">
+                                                        <span
+                                                            className="text-sm font-medium font-mono text-muted-foreground">••••••••</span>
+                                                    </div>
+                                                )}
+                                            </div>
+
+                                            <div className="md:col-span-2 space-y-2">
+                                                <Label
+                                                    className="text-xs font-medium text-muted-foreground uppercase">{t("security.sso_redirect_uri")}</Label>
+                                                <div
+                                                    className="flex items-center gap-2 min-h-[40px] px-3 border border-transparent overflow-hidden">
+                                                    <span
+                                                        className="text-sm font-mono bg-muted/50 px-2 py-1 rounded truncate">{ssoRedirectUri}</span>
+                                                </div>
+                                                <p className="text-xs text-muted-foreground">
+                                                    {t("security.sso_redirect_uri_desc")}
+                                                </p>
+                                            </div>
+                                        </div>
+                                    </div>
+
+                                    {/* Rate Limits Card */}
+                                    <div
+                                        className="md:col-span-2 bg-card border border-border rounded-xl p-4 sm:p-6 shadow-sm space-y-6">
+                                        <div className="space-y-1">
+                                            <h3 className="text-sm font-semibold uppercase tracking-wider text-muted-foreground flex items-center gap-2">
+                                                <Gauge className="w-4 h-4"/>
+                                                {t("security.rate_limits")}
+                                            </h3>
+                                            <p className="text-xs text-muted-foreground">{t("security.rate_limits_desc")}</p>
+                                        </div>
+
+                                        <div className="divide-y divide-border border border-border rounded-lg">
+                                            {RATE_LIMITERS.map((limiter) => (
+                                                <div key={limiter}
+                                                     className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4">
+                                                    <span className="text-sm font-medium text-foreground">
+                                                        {t(`security.limiters.${limiter}`)}
+                                                    </span>
+                                                    {isEditMode ? (
+                                                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                                                            <Input
+                                                                type="number"
+                                                                min={1}
+                                                                value={rateLimitInputs[limiter].limit || ""}
+                                                                onChange={(e) => handleRateLimitUpdate(limiter, "limit", e.target.value)}
+                                                                aria-label={t("security.rate_limit_requests")}
+                                                                className="w-20 bg-background"
+                                                            />
+                                                            <span>{t("security.rate_limit_requests")}</span>
+                                                            <Input
+                                                                type="number"
+                                                                min={1}
+                                                                value={rateLimitInputs[limiter].windowMinutes || ""}
+                                                                onChange={(e) => handleRateLimitUpdate(limiter, "windowMinutes", e.target.value)}
+                                                                aria-label={t("security.rate_limit_window")}
+                                                                className="w-20 bg-background"
+                                                            />
+                                                            <span>{t("security.rate_limit_window")}</span>
+                                                        </div>
+                                                    ) : (
+                                                        <span className="text-sm font-mono bg-muted/50 px-2 py-1 rounded">
+                                                            {t("security.rate_limit_summary", {
+                                                                limit: rateLimits[limiter].limit,
+                                                                minutes: rateLimits[limiter].windowMinutes
+                                                            })}
+                                                        </span>
+                                                    )}
+                                                </div>
+                                            ))}
+                                        </div>
                                     </div>
                                 </div>
                             </TabsContent>
@@ -591,6 +879,14 @@ export function AdminSettings({user}: AdminSettingsProps) {
     );
 }
 
+/**
+ * Rate limits as typed by the administrator: stored values, including ones that are
+ * not yet valid, over the defaults. Invalid values are replaced when saving.
+ */
+function editableRateLimits(value: unknown): RateLimitSettings {
+    return {...resolveRateLimits(value), ...(value as Partial<RateLimitSettings> | null)};
+}
+
 function ColorPreview({color, label}: { color: string, label: string }) {
     return (
         <div
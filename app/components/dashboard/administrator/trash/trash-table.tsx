@@ -0,0 +1,169 @@
+/** @format */
+"use client";
+
+import React, {useState} from "react";
+import {useRouter} from "next/navigation";
+import {useTranslations} from "next-intl";
+import {toast} from "sonner";
+import type {UserRole} from "@/lib/domain/user";
+import type {TrashItem} from "@/lib/domain/trash";
+import {restoreProject, restoreUser} from "@/lib/controller/admin/trash-controller";
+import {Table, TableBody, TableCell, TableHead, TableHeader, TableRow} from "@/components/ui/table";
+import {Button} from "@/components/ui/button";
+import {RoleBadge} from "@/components/dashboard/administrator/user-management/role-badge";
+import {Search, Calendar, Loader2, RotateCcw, FolderKanban} from "lucide-react";
+import {cn} from "@/lib/utils";
+
+interface Props {
+    items: TrashItem[];
+    roles: typeof UserRole;
+    isPending: boolean;
+}
+
+/**
+ * Responsive trash list.
+ * Renders a Card View on mobile devices and a Data Table on desktop.
+ */
+export function TrashTable({items, roles, isPending}: Props) {
+    const t = useTranslations("admin.trash");
+    const router = useRouter();
+    const [restoringId, setRestoringId] = useState<string | null>(null);
+
+    const handleRestore = async (item: TrashItem) => {
+        setRestoringId(item.id);
+        try {
+            const result = item.type === "users" ? await restoreUser(item.id) : await restoreProject(item.id);
+            if (result.success) {
+                toast.success(t(`restoreSuccess.${item.type}`));
+                router.refresh();
+            } else {
+                toast.error(result.error);
+            }
+        } finally {
+            setRestoringId(null);
+        }
+    };
+
+    const renderName = (item: TrashItem) => (
+        <div className="flex flex-col min-w-0">
+            <span className="font-medium text-sm text-foreground truncate">{item.name}</span>
+            <span className="text-xs text-muted-foreground truncate">{item.detail}</span>
+        </div>
+    );
+
+    const renderKind = (item: TrashItem) => item.role
+        ? <RoleBadge role={item.role} roles={roles}/>
+        : (
+            <span className="inline-flex items-center text-xs font-medium text-muted-foreground">
+                <FolderKanban className="w-3.5 h-3.5 mr-1.5 opacity-80"/>
+                {t("project")}
+            </span>
+        );
+
+    const renderRestore = (item: TrashItem) => item.restoredWithOrganization
+        ? <span className="text-xs text-muted-foreground italic">{t("restoredWithOrganization")}</span>
+        : (
+            <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleRestore(item)}
+                disabled={restoringId !== null}
+                className="h-8 border-input hover:bg-accent"
+            >
+                {restoringId === item.id
+                    ? <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin"/>
+                    : <RotateCcw className="mr-2 h-3.5 w-3.5"/>}
+                {t("restore")}
+            </Button>
+        );
+
+    if (items.length === 0) {
+        return (
+            <div className="flex flex-col items-center justify-center py-16 text-muted-foreground bg-muted/5">
+                <div className="p-4 rounded-full bg-muted/30 mb-3">
+                    <Search className="h-8 w-8 opacity-40"/>
+                </div>
+                <p className="font-medium">{t("noResults")}</p>
+                <p className="text-sm opacity-60">{t("noResultsDescription")}</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className={cn("w-full", isPending && "opacity-50 pointer-events-none transition-opacity")}>
+            <div className="block md:hidden divide-y divide-border">
+                {items.map((item) => (
+                    <div key={item.id} className="p-4 flex flex-col gap-3 bg-background">
+                        <div className="flex items-start justify-between gap-3">
+                            {renderName(item)}
+                            <div className="shrink-0">{renderKind(item)}</div>
+                        </div>
+
+                        <div className="flex flex-col gap-1 text-xs text-muted-foreground">
+                            <span className="flex items-center gap-1.5">
+                                <Calendar className="w-3.5 h-3.5 opacity-70"/>
+                                {t("deletedOn", {date: new Date(item.deletedAt).toLocaleDateString()})}
+                            </span>
+                            <span>{t("purgedOn", {date: new Date(item.purgeAt).toLocaleDateString()})}</span>
+                        </div>
+
+                        <div>{renderRestore(item)}</div>
+                    </div>
+                ))}
+            </div>
+
+            <div className="hidden md:block overflow-x-auto">
+                <Table>
+                    <TableHeader className="bg-muted/30">
+                        <TableRow className="hover:bg-transparent border-border">
+                            <TableHead
+                                className="py-4 pl-6 font-semibold text-xs uppercase tracking-wider text-muted-foreground">
+                                {t("columns.name")}
+                            </TableHead>
+                            <TableHead
+                                className="py-4 font-semibold text-xs uppercase tracking-wider text-muted-foreground w-[180px]">
+                                {t("columns.type")}
+                            </TableHead>
+                            <TableHead
+                                className="py-4 font-semibold text-xs uppercase tracking-wider text-muted-foreground w-[160px]">
+                                {t("columns.deletedAt")}
+                            </TableHead>
+                            <TableHead
+                                className="py-4 font-semibold text-xs uppercase tracking-wider text-muted-foreground w-[160px]">
+                                {t("columns.purgeAt")}
+                            </TableHead>
+                            <TableHead
+                                className="py-4 pr-6 text-right font-semibold text-xs uppercase tracking-wider text-muted-foreground w-[200px]">
+                                {t("columns.actions")}
+                            </TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {items.map((item) => (
+                            <TableRow
+                                key={item.id}
+                                className="group hover:bg-muted/30 border-border transition-colors duration-200"
+                            >
+                                <TableCell className="pl-6 py-3 max-w-[320px]">
+                                    {renderName(item)}
+                                </TableCell>
+                                <TableCell className="py-3">
+                                    {renderKind(item)}
+                                </TableCell>
+                                <TableCell className="py-3 text-muted-foreground text-sm font-medium">
+                                    {new Date(item.deletedAt).toLocaleDateString()}
+                                </TableCell>
+                                <TableCell className="py-3 text-muted-foreground text-sm font-medium">
+                                    {new Date(item.purgeAt).toLocaleDateString()}
+                                </TableCell>
+                                <TableCell className="py-3 pr-6 text-right">
+                                    {renderRestore(item)}
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,81 @@
+/** @format */
+'use client';
+
+import React, {useState} from 'react';
+import {useTranslations} from 'next-intl';
+import {TRASH_TYPES, TrashFilters, TrashType} from '@/lib/domain/trash';
+import {Filter, Loader2, Search} from 'lucide-react';
+import {Input} from '@/components/ui/input';
+import {Button} from '@/components/ui/button';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue
+} from '@/components/ui/select';
+
+interface Props {
+    initialFilters: Required<TrashFilters> & { type: TrashType };
+    isPending: boolean;
+    onFilterChange: (updates: Record<string, string | number | null>) => void;
+}
+
+/**
+ * Renders toolbar controls for choosing which deleted entities to list and searching them.
+ * The search input starts from the applied filter; the parent remounts the toolbar when it changes.
+ */
+export function TrashToolbar({initialFilters, isPending, onFilterChange}: Props): React.JSX.Element {
+    const t = useTranslations('admin.trash');
+    const [search, setSearch] = useState(initialFilters.search);
+
+    const handleApply = () => {
+        onFilterChange({search});
+    };
+
+    return (
+        <div className="flex flex-col sm:flex-row gap-3 sm:items-center sm:justify-between">
+            <div className="relative group flex-1 max-w-md">
+                <Search
+                    className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground group-focus-within:text-primary transition-colors"/>
+                <Input
+                    placeholder={t(`searchPlaceholder.${initialFilters.type}`)}
+                    className="pl-10 h-10 bg-background border-input focus:ring-1 focus:ring-primary/20 transition-all"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleApply()}
+                />
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3">
+                <Select value={initialFilters.type} onValueChange={(val) => onFilterChange({type: val, search: null})}>
+                    <SelectTrigger className="w-full sm:w-[200px] h-10 bg-background border-input">
+                        <div className="flex items-center gap-2 text-muted-foreground">
+                            <Filter className="h-3.5 w-3.5"/>
+                            <span className="text-foreground">
+                                <SelectValue placeholder={t('filterType')}/>
+                            </span>
+                        </div>
+                    </SelectTrigger>
+                    <SelectContent
+                        className="bg-background border-border shadow-xl min-w-[200px] z-50 isolate opacity-100"
+                        style={{backgroundColor: "var(--color-background, #ffffff)", opacity: 1}}
+                    >
+                        {TRASH_TYPES.map((type) => (
+                            <SelectItem key={type} value={type}>{t(`types.${type}`)}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+
+                <Button
+                    variant="outline"
+                    onClick={handleApply}
+                    disabled={isPending}
+                    className="h-10 px-4 border-input hover:bg-accent"
+                >
+                    {isPending ? <Loader2 className="h-4 w-4 animate-spin"/> : t('apply')}
+                </Button>
+            </div>
+        </div>
+    );
+}
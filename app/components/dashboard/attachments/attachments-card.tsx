@@ -0,0 +1,189 @@
+/** @format */
+"use client";
+
+import React, {useRef, useState, useTransition} from "react";
+import {useRouter} from "next/navigation";
+import {useFormatter, useTranslations} from "next-intl";
+import {toast} from "sonner";
+import {Download, FileText, Loader2, Paperclip, Trash2, Upload} from "lucide-react";
+import {
+    ATTACHMENT_CONTENT_TYPES,
+    AttachmentList,
+    getAttachmentDownloadUrl,
+    MAX_ATTACHMENT_BYTES
+} from "@/lib/domain/project-attachment";
+import {deleteProjectAttachment} from "@/lib/controller/project-attachment-controller";
+import {uploadAttachmentFile} from "@/lib/utils/upload";
+import {Card, CardContent, CardDescription, CardHeader, CardTitle} from "@/components/ui/card";
+import {Button} from "@/components/ui/button";
+
+interface Props {
+    /** Project materials or student deliverables; selects the title and empty state */
+    kind: "materials" | "deliverables";
+    list: AttachmentList;
+    /** Where uploaded files are added; required when the list allows uploads */
+    target?: { projectId: string } | { completionId: string };
+    /** Called after a file was added or removed; refreshes the page by default */
+    onChanged?: () => void;
+}
+
+/**
+ * Card listing the files attached to a project or handed in with a completion report.
+ *
+ * Every file can be downloaded; the upload button and the delete buttons are shown
+ * according to what the server allows the current user to change.
+ */
+export function AttachmentsCard({kind, list, target, onChanged}: Props) {
+    const t = useTranslations("attachments");
+    const format = useFormatter();
+    const router = useRouter();
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [isPending, startTransition] = useTransition();
+    const [isUploading, setIsUploading] = useState(false);
+    const [deletingId, setDeletingId] = useState<string | null>(null);
+
+    const title = kind === "materials" ? t("materials.title") : t("deliverables.title");
+    const description = kind === "materials" ? t("materials.description") : t("deliverables.description");
+    const emptyText = kind === "materials" ? t("materials.empty") : t("deliverables.empty");
+
+    const refresh = () => {
+        if (onChanged) {
+            onChanged();
+            return;
+        }
+        startTransition(() => {
+            router.refresh();
+        });
+    };
+
+    const formatSize = (bytes: number) => bytes < 1024 * 1024
+        ? format.number(Math.max(bytes / 1024, 0.1), {style: "unit", unit: "kilobyte", maximumFractionDigits: 1})
+        : format.number(bytes / (1024 * 1024), {style: "unit", unit: "megabyte", maximumFractionDigits: 1});
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file || !target) return;
+
+        // Checked again by the server
+        if (file.size > MAX_ATTACHMENT_BYTES) {
+            toast.error(t("tooLarge", {max: MAX_ATTACHMENT_BYTES / (1024 * 1024)}));
+            e.target.value = "";
+            return;
+        }
+
+        setIsUploading(true);
+        try {
+            const result = await uploadAttachmentFile(file, target);
+            if (result.success) {
+                toast.success(t("uploaded"));
+                refresh();
+            } else {
+                toast.error(result.error);
+            }
+        } catch {
+            toast.error(t("uploadFailed"));
+        } finally {
+            setIsUploading(false);
+            if (inputRef.current) inputRef.current.value = "";
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        setDeletingId(id);
+        const result = await deleteProjectAttachment(id);
+        setDeletingId(null);
+
+        if (!result.success) {
+            toast.error(result.error);
+            return;
+        }
+        toast.success(t("deleted"));
+        refresh();
+    };
+
+    return (
+        <Card className="shadow-sm border-border bg-surface">
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                <div className="space-y-1.5">
+                    <CardTitle className="flex items-center gap-2">
+                        <Paperclip className="h-4 w-4 text-primary"/>
+                        {title}
+                    </CardTitle>
+                    <CardDescription>{description}</CardDescription>
+                </div>
+                {list.canUpload && target && (
+                    <>
+                        <input
+                            ref={inputRef}
+                            type="file"
+                            accept={Object.keys(ATTACHMENT_CONTENT_TYPES).map((extension) => `.${extension}`).join(",")}
+                            className="hidden"
+                            onChange={handleFileChange}
+                        />
+                        <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            className="shrink-0"
+                            disabled={isUploading}
+                            onClick={() => inputRef.current?.click()}
+                        >
+                            {isUploading
+                                ? <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin"/>
+                                : <Upload className="mr-2 h-3.5 w-3.5"/>}
+                            {isUploading ? t("uploading") : t("upload")}
+                        </Button>
+                    </>
+                )}
+            </CardHeader>
+            <CardContent className="pt-0">
+                {list.attachments.length === 0 ? (
+                    <p className="text-sm text-muted-foreground italic">{emptyText}</p>
+                ) : (
+                    <ul className={`divide-y divide-border rounded-md border border-border ${isPending ? "opacity-60" : ""}`}>
+                        {list.attachments.map((attachment) => (
+                            <li key={attachment.id} className="flex items-center justify-between gap-3 px-3 py-2.5">
+                                <div className="flex min-w-0 items-center gap-3">
+                                    <FileText className="h-4 w-4 shrink-0 text-muted-foreground"/>
+                                    <div className="min-w-0">
+                                        <p className="truncate text-sm font-medium text-foreground" title={attachment.fileName}>
+                                            {attachment.fileName}
+                                        </p>
+                                        <p className="text-xs text-muted-foreground">
+                                            {formatSize(attachment.size)}
+                                            {" · "}
+                                            {format.dateTime(new Date(attachment.createdAt), {dateStyle: "medium"})}
+                                            {attachment.uploadedBy && ` · ${attachment.uploadedBy.name}`}
+                                        </p>
+                                    </div>
+                                </div>
+                                <div className="flex shrink-0 items-center gap-1">
+                                    <Button asChild variant="ghost" size="icon" className="h-8 w-8" title={t("download")}>
+                                        <a href={getAttachmentDownloadUrl(attachment.id)} download>
+                                            <Download className="h-4 w-4"/>
+                                        </a>
+                                    </Button>
+                                    {list.deletableIds.includes(attachment.id) && (
+                                        <Button
+                                            type="button"
+                                            variant="ghost"
+                                            size="icon"
+                                            className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
+                                            title={t("delete")}
+                                            disabled={deletingId !== null}
+                                            onClick={() => handleDelete(attachment.id)}
+                                        >
+                                            {deletingId === attachment.id
+                                                ? <Loader2 className="h-4 w-4 animate-spin"/>
+                                                : <Trash2 className="h-4 w-4"/>}
+                                        </Button>
+                                    )}
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
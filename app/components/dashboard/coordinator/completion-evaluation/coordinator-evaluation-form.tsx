@@ -0,0 +1,112 @@
+/** @format */
+"use client";
+
+import React, {useState} from "react";
+import {useTranslations} from "next-intl";
+import {useRouter} from "next/navigation";
+import {toast} from "sonner";
+import {Send, Loader2} from "lucide-react";
+import type {PerformanceRating} from "@/lib/domain/project-completion";
+import {submitCoordinatorEvaluation} from "@/lib/controller/coordinator/coordinator-completions-controller";
+import {
+    createCoordinatorEvaluationSchema,
+    getCompletionValidationErrorMessage
+} from "@/lib/utils/completion-validation";
+import {Button} from "@/components/ui/button";
+import {Textarea} from "@/components/ui/textarea";
+import {Label} from "@/components/ui/label";
+import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "@/components/ui/select";
+
+interface Props {
+    completionId: string;
+    ratings: typeof PerformanceRating;
+    minLength: number;
+}
+
+/**
+ * Academic evaluation form used by the coordinator to review a draft completion.
+ * Input is validated with the shared zod schema before it is submitted.
+ */
+export function CoordinatorEvaluationForm({completionId, ratings, minLength}: Props) {
+    const t = useTranslations("coordinator.evaluations.form");
+    const tRatings = useTranslations("completion.ratings");
+    const tRoot = useTranslations();
+    const router = useRouter();
+    const [rating, setRating] = useState<PerformanceRating | "">("");
+    const [evaluation, setEvaluation] = useState("");
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const remaining = Math.max(0, minLength - evaluation.trim().length);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const parsed = createCoordinatorEvaluationSchema(ratings, minLength).safeParse({
+            coordinatorPerformanceRating: rating,
+            coordinatorWrittenEvaluation: evaluation,
+        });
+        if (!parsed.success) {
+            toast.error(getCompletionValidationErrorMessage(tRoot, parsed.error, minLength));
+            return;
+        }
+
+        setIsSubmitting(true);
+        const result = await submitCoordinatorEvaluation(completionId, parsed.data);
+        setIsSubmitting(false);
+
+        if (result.success) {
+            toast.success(t("success"));
+            router.refresh();
+        } else {
+            toast.error(result.error);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+                <Label htmlFor="coordinatorPerformanceRating">{t("ratingLabel")}</Label>
+                <Select
+                    value={rating}
+                    onValueChange={(value) => setRating(value as PerformanceRating)}
+                    disabled={isSubmitting}
+                >
+                    <SelectTrigger id="coordinatorPerformanceRating" className="w-full sm:w-[280px] bg-background">
+                        <SelectValue placeholder={t("ratingPlaceholder")}/>
+                    </SelectTrigger>
+                    <SelectContent
+                        className="bg-background border-border shadow-xl z-50 isolate opacity-100"
+                        style={{backgroundColor: "var(--color-background, #ffffff)", opacity: 1}}
+                    >
+                        {Object.values(ratings).map((value) => (
+                            <SelectItem key={value} value={value}>
+                                {tRatings(value)}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+
+            <div className="space-y-2">
+                <Label htmlFor="coordinatorWrittenEvaluation">{t("evaluationLabel")}</Label>
+                <Textarea
+                    id="coordinatorWrittenEvaluation"
+                    value={evaluation}
+                    onChange={(e) => setEvaluation(e.target.value)}
+                    placeholder={t("evaluationPlaceholder")}
+                    className="resize-none min-h-[180px]"
+                    disabled={isSubmitting}
+                />
+                <p className="text-xs text-muted-foreground">
+                    {remaining > 0 ? t("charactersRemaining", {count: remaining}) : t("readyToSubmit")}
+                </p>
+            </div>
+
+            <Button type="submit" disabled={isSubmitting} className="w-full sm:w-auto">
+                {isSubmitting
+                    ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/>
+                    : <Send className="mr-2 h-4 w-4"/>}
+                {isSubmitting ? t("submitting") : t("submit")}
+            </Button>
+        </form>
+    );
+}
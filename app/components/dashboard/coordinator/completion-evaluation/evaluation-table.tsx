@@ -0,0 +1,161 @@
+/** @format */
+"use client";
+import React from "react";
+import Link from "next/link";
+import {useTranslations} from "next-intl";
+import type {ProjectCompletionWithDetails, ProjectCompletionStatus} from "@/lib/domain/project-completion";
+import {Table, TableBody, TableCell, TableHead, TableHeader, TableRow} from "@/components/ui/table";
+import {Avatar, AvatarFallback, AvatarImage} from "@/components/ui/avatar";
+import {Badge} from "@/components/ui/badge";
+import {buttonVariants} from "@/components/ui/button";
+import {Search, PenLine, Eye, Calendar} from "lucide-react";
+import {cn} from "@/lib/utils";
+
+interface Props {
+    completions: ProjectCompletionWithDetails[];
+    statuses: typeof ProjectCompletionStatus;
+    isPending: boolean;
+}
+
+/**
+ * Responsive list of completions awaiting or holding the coordinator's evaluation.
+ * Renders a Card View on mobile devices and a Data Table on desktop.
+ */
+export function EvaluationTable({completions, statuses, isPending}: Props) {
+    const t = useTranslations("coordinator.evaluations.table");
+    const tStatus = useTranslations("completion.status");
+
+    if (completions.length === 0) {
+        return (
+            <div className="flex flex-col items-center justify-center py-16 text-muted-foreground bg-muted/5">
+                <div className="p-4 rounded-full bg-muted/30 mb-3">
+                    <Search className="h-8 w-8 opacity-40"/>
+                </div>
+                <p className="font-medium">{t("noResults")}</p>
+            </div>
+        );
+    }
+
+    const statusVariant = (status: ProjectCompletionStatus) => {
+        if (status === statuses.PUBLISHED) return "default";
+        if (status === statuses.DRAFT) return "secondary";
+        return "outline";
+    };
+
+    const actionLink = (completion: ProjectCompletionWithDetails) => (
+        <Link
+            href={`/dashboard/evaluations/${completion.id}`}
+            className={buttonVariants({variant: completion.status === statuses.DRAFT ? "default" : "outline", size: "sm"})}
+        >
+            {completion.status === statuses.DRAFT ? (
+                <><PenLine className="mr-2 h-3.5 w-3.5"/>{t("evaluate")}</>
+            ) : (
+                <><Eye className="mr-2 h-3.5 w-3.5"/>{t("view")}</>
+            )}
+        </Link>
+    );
+
+    const studentCell = (completion: ProjectCompletionWithDetails) => (
+        <div className="flex items-center gap-3">
+            <Avatar className="h-9 w-9 border border-border bg-white">
+                <AvatarImage src={completion.student.user.profilePictureUrl || undefined}
+                             className="h-full w-full object-cover"/>
+                <AvatarFallback className="bg-primary/5 text-primary text-xs font-bold">
+                    {completion.student.user.name?.charAt(0) || "S"}
+                </AvatarFallback>
+            </Avatar>
+            <div className="flex flex-col min-w-0">
+                <span className="font-semibold text-sm text-foreground truncate">{completion.student.user.name}</span>
+                <span className="text-xs text-muted-foreground truncate">{completion.student.user.email}</span>
+            </div>
+        </div>
+    );
+
+    return (
+        <div className={cn("w-full", isPending && "opacity-50 pointer-events-none transition-opacity")}>
+            {/* Mobile Card View */}
+            <div className="block md:hidden divide-y divide-border">
+                {completions.map((completion) => (
+                    <div key={completion.id} className="p-4 flex flex-col gap-3 bg-background">
+                        <div className="flex items-start justify-between gap-3">
+                            {studentCell(completion)}
+                            <Badge variant={statusVariant(completion.status)}>
+                                {tStatus(completion.status)}
+                            </Badge>
+                        </div>
+                        <div className="text-sm font-medium text-foreground break-words">
+                            {completion.project.title}
+                        </div>
+                        <div className="flex items-center justify-between gap-2">
+                            <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                                <Calendar className="w-3.5 h-3.5 opacity-70"/>
+                                <span>{new Date(completion.createdAt).toLocaleDateString()}</span>
+                            </div>
+                            {actionLink(completion)}
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {/* Desktop Table View */}
+            <div className="hidden md:block overflow-x-auto">
+                <Table>
+                    <TableHeader className="bg-muted/30">
+                        <TableRow className="hover:bg-transparent border-border">
+                            <TableHead
+                                className="py-4 pl-6 font-semibold text-xs uppercase tracking-wider text-muted-foreground w-[280px]">
+                                {t("header.student")}
+                            </TableHead>
+                            <TableHead
+                                className="py-4 font-semibold text-xs uppercase tracking-wider text-muted-foreground">
+                                {t("header.project")}
+                            </TableHead>
+                            <TableHead
+                                className="py-4 font-semibold text-xs uppercase tracking-wider text-muted-foreground">
+                                {t("header.status")}
+                            </TableHead>
+                            <TableHead
+                                className="py-4 font-semibold text-xs uppercase tracking-wider text-muted-foreground">
+                                {t("header.submittedAt")}
+                            </TableHead>
+                            <TableHead
+                                className="py-4 pr-6 text-right font-semibold text-xs uppercase tracking-wider text-muted-foreground w-[140px]">
+                                {t("header.actions")}
+                            </TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {completions.map((completion) => (
+                            <TableRow
+                                key={completion.id}
+                                className="group hover:bg-muted/30 border-border transition-colors duration-200"
+                            >
+                                <TableCell className="pl-6 py-3">{studentCell(completion)}</TableCell>
+                                <TableCell>
+                                    <div className="flex flex-col gap-0.5">
+                                        <span className="font-medium text-sm text-foreground truncate block max-w-xs"
+                                              title={completion.project.title}>
+                                            {completion.project.title}
+                                        </span>
+                                        <span className="text-xs text-muted-foreground">
+                                            {completion.project.organization.user.name}
+                                        </span>
+                                    </div>
+                                </TableCell>
+                                <TableCell>
+                                    <Badge variant={statusVariant(completion.status)}>
+                                        {tStatus(completion.status)}
+                                    </Badge>
+                                </TableCell>
+                                <TableCell className="text-muted-foreground text-sm font-medium">
+                                    {new Date(completion.createdAt).toLocaleDateString()}
+                                </TableCell>
+                                <TableCell className="text-right pr-6">{actionLink(completion)}</TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,153 @@
+/** @format */
+"use client";
+
+import React, {useCallback, useTransition} from "react";
+import {useRouter, usePathname, useSearchParams} from "next/navigation";
+import {useTranslations} from "next-intl";
+import type {ProjectCompletionWithDetails, ProjectCompletionStatus} from "@/lib/domain/project-completion";
+import {GraduationCap, Filter} from "lucide-react";
+import {Card, CardContent, CardHeader, CardFooter} from "@/components/ui/card";
+import {Button} from "@/components/ui/button";
+import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "@/components/ui/select";
+import {EvaluationTable} from "./evaluation-table";
+
+interface PageProps {
+    statuses: typeof ProjectCompletionStatus;
+    initialCompletions: ProjectCompletionWithDetails[];
+    initialPagination: {
+        page: number;
+        pageSize: number;
+        total: number;
+        totalPages: number;
+    };
+    initialStatus: ProjectCompletionStatus | "ALL";
+}
+
+/**
+ * Coordinator Evaluations Client Page.
+ *
+ * Lists the completions of the coordinator's assigned projects with a status
+ * filter synchronized to the URL.
+ */
+export function EvaluationsClient({statuses, initialCompletions, initialPagination, initialStatus}: PageProps) {
+    const t = useTranslations("coordinator.evaluations");
+    const tStatus = useTranslations("completion.status");
+    const router = useRouter();
+    const pathname = usePathname();
+    const searchParams = useSearchParams();
+    const [isPending, startTransition] = useTransition();
+
+    const updateUrl = useCallback(
+        (updates: Record<string, string | number | null>) => {
+            const params = new URLSearchParams(searchParams.toString());
+            Object.entries(updates).forEach(([key, value]) => {
+                if (value === null || value === "") {
+                    params.delete(key);
+                } else {
+                    params.set(key, String(value));
+                }
+            });
+
+            if (!updates.page) {
+                params.set("page", "1");
+            }
+
+            startTransition(() => {
+                router.push(`${pathname}?${params.toString()}`);
+            });
+        },
+        [pathname, router, searchParams]
+    );
+
+    return (
+        <div className="min-h-screen w-full bg-background p-4 sm:p-6 lg:p-8">
+            <div className="mx-auto max-w-7xl animate-in fade-in zoom-in-95 duration-500 space-y-6">
+
+                <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                    <div className="flex items-center gap-4">
+                        <div
+                            className="flex h-12 w-12 items-center justify-center rounded-xl bg-primary/10 ring-1 ring-primary/20 shadow-sm">
+                            <GraduationCap className="h-6 w-6 text-primary"/>
+                        </div>
+                        <div className="space-y-1">
+                            <h1 className="text-2xl font-bold tracking-tight text-foreground">
+                                {t("title")}
+                            </h1>
+                            <p className="text-sm text-muted-foreground max-w-lg">
+                                {t("subtitle")}
+                            </p>
+                        </div>
+                    </div>
+                </div>
+
+                <Card className="shadow-xl border-border overflow-hidden bg-surface">
+                    <CardHeader className="bg-surface/50 pb-4 pt-6 px-6">
+                        <Select
+                            value={initialStatus}
+                            onValueChange={(val) => updateUrl({status: val})}
+                        >
+                            <SelectTrigger className="w-full sm:w-[240px] h-10 bg-background border-input">
+                                <div className="flex items-center gap-2 text-muted-foreground">
+                                    <Filter className="h-3.5 w-3.5"/>
+                                    <span className="text-foreground">
+                                        <SelectValue placeholder={t("statusSelect.placeholder")}/>
+                                    </span>
+                                </div>
+                            </SelectTrigger>
+                            <SelectContent
+                                className="bg-background border-border shadow-xl min-w-[240px] z-50 isolate opacity-100"
+                                style={{backgroundColor: "var(--color-background, #ffffff)", opacity: 1}}
+                            >
+                                <SelectItem value="ALL">{t("statusSelect.all")}</SelectItem>
+                                {Object.values(statuses).map((s) => (
+                                    <SelectItem key={s} value={s}>
+                                        {tStatus(s)}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </CardHeader>
+
+                    <CardContent className="p-0 border-t border-border">
+                        <EvaluationTable
+                            completions={initialCompletions}
+                            statuses={statuses}
+                            isPending={isPending}
+                        />
+                    </CardContent>
+
+                    <CardFooter className="bg-muted/30 border-t border-border p-4">
+                        <div className="flex flex-col sm:flex-row items-center justify-between w-full gap-4 sm:gap-0">
+                            <span className="text-sm text-muted-foreground font-medium">
+                                {t("pagination.info", {
+                                    current: initialCompletions.length,
+                                    total: initialPagination.total
+                                })}
+                            </span>
+                            <div className="flex gap-2">
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-8 px-4 border-input hover:bg-muted/50"
+                                    disabled={isPending || initialPagination.page <= 1}
+                                    onClick={() => updateUrl({page: initialPagination.page - 1})}
+                                >
+                                    {t("pagination.previous")}
+                                </Button>
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-8 px-4 border-input hover:bg-muted/50"
+                                    disabled={isPending || initialPagination.page >= initialPagination.totalPages}
+                                    onClick={() => updateUrl({page: initialPagination.page + 1})}
+                                >
+                                    {t("pagination.next")}
+                                </Button>
+                            </div>
+                        </div>
+                    </CardFooter>
+                </Card>
+            </div>
+        </div>
+    );
+}
@@ -1,11 +1,47 @@
 "use client"
+import Link from 'next/link'
+import {useTranslations} from 'next-intl'
+import {ClipboardCheck, GraduationCap, ArrowRight} from 'lucide-react'
 import {User} from '@/lib/domain/user'
+import {Card, CardDescription, CardHeader, CardTitle} from '@/components/ui/card'
 
 export function CoordinatorDashboard({user}: { user: User }) {
+    const t = useTranslations('dashboard.coordinator')
+
     return (
-        <div>
-            <h1 className="text-2xl font-bold">Coordinator Dashboard</h1>
-            <p>Welcome, {user.name}</p>
+        <div className="space-y-6">
+            <h1 className="text-3xl font-bold tracking-tight">{t('welcome', {name: user.name})}</h1>
+            <p className="text-muted-foreground">{t('subtitle')}</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                <Link href="/dashboard/reviews" className="group block">
+                    <Card className="h-full border-border bg-surface shadow-sm hover:shadow-lg hover:border-primary/40 transition-all duration-200">
+                        <CardHeader className="flex flex-row items-center gap-4 space-y-0">
+                            <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-xl bg-primary/10 ring-1 ring-primary/20">
+                                <ClipboardCheck className="h-5 w-5 text-primary"/>
+                            </div>
+                            <div className="flex-1 space-y-1">
+                                <CardTitle className="text-base">{t('reviewQueue')}</CardTitle>
+                                <CardDescription>{t('reviewQueueDescription')}</CardDescription>
+                            </div>
+                            <ArrowRight className="h-4 w-4 text-primary opacity-0 group-hover:opacity-100 transition-opacity"/>
+                        </CardHeader>
+                    </Card>
+                </Link>
+                <Link href="/dashboard/evaluations" className="group block">
+                    <Card className="h-full border-border bg-surface shadow-sm hover:shadow-lg hover:border-primary/40 transition-all duration-200">
+                        <CardHeader className="flex flex-row items-center gap-4 space-y-0">
+                            <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-xl bg-primary/10 ring-1 ring-primary/20">
+                                <GraduationCap className="h-5 w-5 text-primary"/>
+                            </div>
+                            <div className="flex-1 space-y-1">
+                                <CardTitle className="text-base">{t('evaluations')}</CardTitle>
+                                <CardDescription>{t('evaluationsDescription')}</CardDescription>
+                            </div>
+                            <ArrowRight className="h-4 w-4 text-primary opacity-0 group-hover:opacity-100 transition-opacity"/>
+                        </CardHeader>
+                    </Card>
+                </Link>
+            </div>
         </div>
     )
 }
@@ -9,6 +9,8 @@ import {Briefcase} from "lucide-react";
 
 // Domain & Controller
 import {CoordinatorWithUser} from "@/lib/domain/coordinator";
+import type {NotificationDelivery, NotificationPreferences} from "@/lib/domain/notification";
+import type {TwoFactorStatus} from "@/lib/domain/two-factor";
 import {
     updateMyCoordinatorProfile,
     deleteMyCoordinatorAccount
@@ -17,12 +19,17 @@ import {
 // Components
 import {BaseProfile, ProfileSection} from "@/components/profile/base-profile";
 import {CommonUserFields} from "@/components/profile/common-user-fields";
+import {NotificationPreferencesSection} from "@/components/profile/notification-preferences-section";
+import {TwoFactorSection} from "@/components/profile/two-factor-section";
 
 interface CoordinatorProfileProps {
     coordinator: CoordinatorWithUser;
+    notificationPreferences: NotificationPreferences;
+    notificationDeliveries: typeof NotificationDelivery;
+    twoFactorStatus: TwoFactorStatus;
 }
 
-export function CoordinatorProfile({coordinator}: CoordinatorProfileProps) {
+export function CoordinatorProfile({coordinator, notificationPreferences, notificationDeliveries, twoFactorStatus}: CoordinatorProfileProps) {
     const t = useTranslations("profile.coordinator");
 
     const [isSaving, setIsSaving] = useState(false);
@@ -189,6 +196,13 @@ export function CoordinatorProfile({coordinator}: CoordinatorProfileProps) {
                     )}
                 </div>
             </ProfileSection>
+
+            <NotificationPreferencesSection
+                preferences={notificationPreferences}
+                deliveries={notificationDeliveries}
+            />
+
+            <TwoFactorSection status={twoFactorStatus}/>
         </BaseProfile>
     );
 }
\ No newline at end of file
@@ -0,0 +1,88 @@
+/** @format */
+"use client";
+
+import React, {useState} from "react";
+import {useTranslations} from "next-intl";
+import {useRouter} from "next/navigation";
+import {toast} from "sonner";
+import type {ProjectWithDetails} from "@/lib/domain/project";
+import {requestAssignedProjectChanges} from "@/lib/controller/coordinator/coordinator-projects-controller";
+import {Button} from "@/components/ui/button";
+import {Textarea} from "@/components/ui/textarea";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle
+} from "@/components/ui/dialog";
+
+interface Props {
+    target: ProjectWithDetails | null;
+    onOpenChange: (open: boolean) => void;
+    onSuccess: () => void;
+}
+
+export function RequestChangesDialog({target, onOpenChange, onSuccess}: Props) {
+    const t = useTranslations("coordinator.reviews.changesDialog");
+    const router = useRouter();
+    const [reason, setReason] = useState("");
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleConfirm = async () => {
+        if (!target) return;
+        if (!reason.trim()) {
+            toast.error(t("reasonRequired"));
+            return;
+        }
+
+        setIsSubmitting(true);
+        const result = await requestAssignedProjectChanges(target.id, reason);
+        setIsSubmitting(false);
+
+        if (result.success) {
+            toast.success(t("success"));
+            setReason("");
+            router.refresh();
+            onSuccess();
+        } else {
+            toast.error(result.error);
+        }
+    };
+
+    return (
+        <Dialog open={!!target} onOpenChange={onOpenChange}>
+            <DialogContent
+                className="bg-white dark:bg-zinc-950 border-border shadow-2xl sm:max-w-[425px] z-[100] isolate opacity-100"
+                style={{backgroundColor: "var(--color-background, #ffffff)", opacity: 1}}
+            >
+                <DialogHeader>
+                    <DialogTitle>{t("title")}</DialogTitle>
+                    <DialogDescription>
+                        {t("description", {title: target?.title ?? ""})}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-3 py-2">
+                    <label className="text-sm font-medium">{t("reasonLabel")}</label>
+                    <Textarea
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        placeholder={t("reasonPlaceholder")}
+                        className="resize-none min-h-[100px]"
+                    />
+                </div>
+
+                <DialogFooter>
+                    <Button variant="ghost" className="border-muted" onClick={() => onOpenChange(false)}>
+                        {t("cancel")}
+                    </Button>
+                    <Button onClick={handleConfirm} disabled={isSubmitting}>
+                        {isSubmitting ? t("submitting") : t("confirm")}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,176 @@
+/** @format */
+"use client";
+
+import React, {useState, useEffect, useCallback, useTransition} from "react";
+import {useRouter, usePathname, useSearchParams} from "next/navigation";
+import {useTranslations} from "next-intl";
+import type {ProjectWithDetails} from "@/lib/domain/project";
+import {ClipboardCheck, Search, Loader2, Inbox} from "lucide-react";
+import {Card, CardContent, CardHeader, CardFooter} from "@/components/ui/card";
+import {Button} from "@/components/ui/button";
+import {Input} from "@/components/ui/input";
+import {cn} from "@/lib/utils";
+import {ReviewQueueItem} from "./review-queue-item";
+import {RequestChangesDialog} from "./request-changes-dialog";
+
+interface PageProps {
+    initialProjects: ProjectWithDetails[];
+    initialPagination: {
+        page: number;
+        pageSize: number;
+        total: number;
+        totalPages: number;
+    };
+    initialSearch: string;
+}
+
+/**
+ * Coordinator Review Queue Client Page.
+ *
+ * Lists the projects assigned to the coordinator that await review, with a search
+ * box synchronized to the URL, and orchestrates the approve and request-changes flows.
+ */
+export function ReviewQueueClient({initialProjects, initialPagination, initialSearch}: PageProps) {
+    const t = useTranslations("coordinator.reviews");
+    const router = useRouter();
+    const pathname = usePathname();
+    const searchParams = useSearchParams();
+    const [isPending, startTransition] = useTransition();
+    const [searchTerm, setSearchTerm] = useState(initialSearch);
+    const [changesTarget, setChangesTarget] = useState<ProjectWithDetails | null>(null);
+
+    useEffect(() => {
+        setSearchTerm(initialSearch);
+    }, [initialSearch]);
+
+    const updateUrl = useCallback(
+        (updates: Record<string, string | number | null>) => {
+            const params = new URLSearchParams(searchParams.toString());
+            Object.entries(updates).forEach(([key, value]) => {
+                if (value === null || value === "") {
+                    params.delete(key);
+                } else {
+                    params.set(key, String(value));
+                }
+            });
+
+            if (!updates.page) {
+                params.set("page", "1");
+            }
+
+            startTransition(() => {
+                router.push(`${pathname}?${params.toString()}`);
+            });
+        },
+        [pathname, router, searchParams]
+    );
+
+    return (
+        <div className="min-h-screen w-full bg-background p-4 sm:p-6 lg:p-8">
+            <div className="mx-auto max-w-7xl animate-in fade-in zoom-in-95 duration-500 space-y-6">
+
+                <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                    <div className="flex items-center gap-4">
+                        <div
+                            className="flex h-12 w-12 items-center justify-center rounded-xl bg-primary/10 ring-1 ring-primary/20 shadow-sm">
+                            <ClipboardCheck className="h-6 w-6 text-primary"/>
+                        </div>
+                        <div className="space-y-1">
+                            <h1 className="text-2xl font-bold tracking-tight text-foreground">
+                                {t("title")}
+                            </h1>
+                            <p className="text-sm text-muted-foreground max-w-lg">
+                                {t("subtitle")}
+                            </p>
+                        </div>
+                    </div>
+                </div>
+
+                <Card className="shadow-xl border-border overflow-hidden bg-surface">
+                    <CardHeader className="bg-surface/50 pb-4 pt-6 px-6">
+                        <div className="flex w-full sm:w-auto items-center gap-2">
+                            <div className="relative group w-full sm:w-[320px]">
+                                <Search
+                                    className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground group-focus-within:text-primary transition-colors"/>
+                                <Input
+                                    placeholder={t("searchPlaceholder")}
+                                    className="pl-10 h-10 bg-background border-input focus:ring-1 focus:ring-primary/20 transition-all"
+                                    value={searchTerm}
+                                    onChange={(e) => setSearchTerm(e.target.value)}
+                                    onKeyDown={(e) => e.key === "Enter" && updateUrl({search: searchTerm})}
+                                />
+                            </div>
+                            <Button
+                                variant="outline"
+                                onClick={() => updateUrl({search: searchTerm})}
+                                disabled={isPending}
+                                className="h-10 px-4 border-input hover:bg-accent"
+                            >
+                                {isPending ? <Loader2 className="h-4 w-4 animate-spin"/> : t("search")}
+                            </Button>
+                        </div>
+                    </CardHeader>
+
+                    <CardContent
+                        className={cn("p-4 sm:p-6 border-t border-border", isPending && "opacity-50 pointer-events-none transition-opacity")}>
+                        {initialProjects.length === 0 ? (
+                            <div className="flex flex-col items-center justify-center py-16 text-muted-foreground">
+                                <div className="p-4 rounded-full bg-muted/30 mb-3">
+                                    <Inbox className="h-8 w-8 opacity-40"/>
+                                </div>
+                                <p className="font-medium">{t("empty")}</p>
+                                <p className="text-sm opacity-60">{t("emptyHint")}</p>
+                            </div>
+                        ) : (
+                            <div className="space-y-4">
+                                {initialProjects.map((project) => (
+                                    <ReviewQueueItem
+                                        key={project.id}
+                                        project={project}
+                                        onRequestChanges={setChangesTarget}
+                                    />
+                                ))}
+                            </div>
+                        )}
+                    </CardContent>
+
+                    <CardFooter className="bg-muted/30 border-t border-border p-4">
+                        <div className="flex flex-col sm:flex-row items-center justify-between w-full gap-4 sm:gap-0">
+                            <span className="text-sm text-muted-foreground font-medium">
+                                {t("pagination.info", {
+                                    current: initialProjects.length,
+                                    total: initialPagination.total
+                                })}
+                            </span>
+                            <div className="flex gap-2">
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-8 px-4 border-input hover:bg-muted/50"
+                                    disabled={isPending || initialPagination.page <= 1}
+                                    onClick={() => updateUrl({page: initialPagination.page - 1})}
+                                >
+                                    {t("pagination.previous")}
+                                </Button>
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-8 px-4 border-input hover:bg-muted/50"
+                                    disabled={isPending || initialPagination.page >= initialPagination.totalPages}
+                                    onClick={() => updateUrl({page: initialPagination.page + 1})}
+                                >
+                                    {t("pagination.next")}
+                                </Button>
+                            </div>
+                        </div>
+                    </CardFooter>
+                </Card>
+            </div>
+            <RequestChangesDialog
+                target={changesTarget}
+                onOpenChange={(open: boolean) => !open && setChangesTarget(null)}
+                onSuccess={() => setChangesTarget(null)}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,134 @@
+/** @format */
+"use client";
+
+import React, {useState} from "react";
+import {useTranslations} from "next-intl";
+import {useRouter} from "next/navigation";
+import {toast} from "sonner";
+import type {ProjectWithDetails} from "@/lib/domain/project";
+import {approveAssignedProject} from "@/lib/controller/coordinator/coordinator-projects-controller";
+import {Badge} from "@/components/ui/badge";
+import {Button} from "@/components/ui/button";
+import {Building, Check, Clock, CalendarRange, Users, Tag, Globe, Loader2, PencilLine} from "lucide-react";
+
+interface Props {
+    project: ProjectWithDetails;
+    onRequestChanges: (project: ProjectWithDetails) => void;
+}
+
+/**
+ * A single project awaiting coordinator review.
+ *
+ * Shows the full proposal (description, requirements and organization) and lets
+ * the coordinator publish it or send it back to the organization for changes.
+ */
+export function ReviewQueueItem({project, onRequestChanges}: Props) {
+    const t = useTranslations("coordinator.reviews");
+    const tCategories = useTranslations("organization.projects.form.categories");
+    const router = useRouter();
+    const [isApproving, setIsApproving] = useState(false);
+
+    const handleApprove = async () => {
+        setIsApproving(true);
+        try {
+            const result = await approveAssignedProject(project.id);
+            if (result.success) {
+                toast.success(t("approveSuccess", {title: project.title}));
+                router.refresh();
+            } else {
+                toast.error(result.error);
+            }
+        } finally {
+            setIsApproving(false);
+        }
+    };
+
+    return (
+        <div className="bg-card border border-border rounded-xl p-4 sm:p-6 shadow-sm space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                <div className="flex flex-col gap-0.5 min-w-0">
+                    <h3 className="font-semibold text-base text-foreground break-words">{project.title}</h3>
+                    <span className="text-xs text-muted-foreground flex items-center gap-1.5">
+                        <Building className="w-3.5 h-3.5"/> {project.organization.user.name}
+                    </span>
+                </div>
+                <span className="text-xs text-muted-foreground shrink-0">
+                    {t("submittedAt", {date: new Date(project.updatedAt).toLocaleDateString()})}
+                </span>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+                <span className="flex items-center gap-1">
+                    <Tag className="w-3.5 h-3.5 opacity-70"/>
+                    {tCategories(project.category.toLowerCase())}
+                </span>
+                {project.estimatedHoursPerWeek && (
+                    <span className="flex items-center gap-1">
+                        <Clock className="w-3.5 h-3.5 opacity-70"/>
+                        {t("hoursPerWeek", {hours: project.estimatedHoursPerWeek})}
+                    </span>
+                )}
+                {project.estimatedDurationWeeks && (
+                    <span className="flex items-center gap-1">
+                        <CalendarRange className="w-3.5 h-3.5 opacity-70"/>
+                        {t("durationWeeks", {weeks: project.estimatedDurationWeeks})}
+                    </span>
+                )}
+                <span className="flex items-center gap-1">
+                    <Users className="w-3.5 h-3.5 opacity-70"/>
+                    {t("numberOfStudents", {count: project.numberOfStudents})}
+                </span>
+                {project.organization.websiteUrl && (
+                    <a
+                        href={project.organization.websiteUrl.startsWith("http") ? project.organization.websiteUrl : `https://${project.organization.websiteUrl}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="flex items-center gap-1 text-primary hover:underline"
+                    >
+                        <Globe className="w-3.5 h-3.5"/>
+                        {t("website")}
+                    </a>
+                )}
+            </div>
+
+            {project.requiredSkills.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                    {project.requiredSkills.map((skill) => (
+                        <Badge key={skill} variant="secondary"
+                               className="text-xs font-normal px-2 py-0 h-6 bg-primary/10 text-primary">
+                            {skill}
+                        </Badge>
+                    ))}
+                </div>
+            )}
+
+            <div className="space-y-1">
+                <h4 className="text-xs font-semibold tracking-wider text-muted-foreground uppercase">
+                    {t("description")}
+                </h4>
+                <p className="text-sm text-foreground whitespace-pre-line">{project.description}</p>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-2 sm:justify-end">
+                <Button
+                    variant="outline"
+                    size="sm"
+                    className="border-muted"
+                    onClick={() => onRequestChanges(project)}
+                    disabled={isApproving}
+                >
+                    <PencilLine className="mr-2 h-4 w-4"/>
+                    {t("requestChanges")}
+                </Button>
+                <Button size="sm" onClick={handleApprove} disabled={isApproving}>
+                    {isApproving ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin"/>
+                    ) : (
+                        <Check className="mr-2 h-4 w-4"/>
+                    )}
+                    {t("approve")}
+                </Button>
+            </div>
+        </div>
+    );
+}
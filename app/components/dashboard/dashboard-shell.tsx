@@ -23,6 +23,13 @@ import {
     PanelLeftOpen,
     FolderKanban,
     FileCheck,
+    ClipboardCheck,
+    GraduationCap,
+    Mail,
+    FileCode2,
+    MonitorSmartphone,
+    ScrollText,
+    Trash2,
     type LucideIcon,
 } from "lucide-react";
 import {Avatar, AvatarFallback, AvatarImage} from "@/components/ui/avatar";
@@ -34,8 +41,11 @@ import {
 } from "@/components/ui/tooltip";
 import type {User} from "@/lib/domain/user";
 import type {Config} from "@/lib/domain/config";
+import type {NotificationSummary} from "@/lib/domain/notification";
 import type {NavItem} from "@/lib/utils/navigation";
 import {cn} from "@/lib/utils";
+import {NotificationBell} from "@/components/dashboard/notifications/notification-bell";
+import {LanguageSwitcher} from "@/components/dashboard/language-switcher";
 
 /**
  * Maps navigation paths to their corresponding Lucide icons.
@@ -46,11 +56,18 @@ const ICON_MAP: Record<string, LucideIcon> = {
     "/dashboard/administrator/users": Users,
     "/dashboard/administrator/organizations": LucideBuilding2,
     "/dashboard/administrator/projects": LucideBriefcase,
+    "/dashboard/administrator/emails": Mail,
+    "/dashboard/administrator/email-templates": FileCode2,
+    "/dashboard/administrator/audit": ScrollText,
+    "/dashboard/administrator/trash": Trash2,
     "/dashboard/projects": FolderKanban,
     "/dashboard/opportunities": Briefcase,
     "/dashboard/completions": FileCheck,
     "/dashboard/applications": FileText,
+    "/dashboard/reviews": ClipboardCheck,
+    "/dashboard/evaluations": GraduationCap,
     "/dashboard/organization/profile": Building2,
+    "/dashboard/devices": MonitorSmartphone,
     "/dashboard/settings": Settings,
 };
 
@@ -64,6 +81,8 @@ interface DashboardShellProps {
     config: Config | null;
     /** List of navigation items authorized for the current user's role. */
     navItems: NavItem[];
+    /** Unread count and latest notifications shown in the notification bell. */
+    notificationSummary: NotificationSummary | null;
     /** The page content to be rendered within the shell layout. */
     children: React.ReactNode;
 }
@@ -89,9 +108,10 @@ const TOOLTIP_CONTENT_CLASS =
  * - **State Management**: Tracks sidebar collapse state and mobile menu visibility.
  * - **Role-Based Routing**: Renders navigation links dynamically based on the provided `navItems`.
  * - **User Context**: Displays the current user's profile and provides a logout mechanism.
+ * - **Notifications**: Shows the notification bell in the sidebar footer and the mobile header.
  * - **Branding**: Integrates the organization's logo and name from the global config.
  */
-export function DashboardShell({user, config, navItems, children,}: DashboardShellProps) {
+export function DashboardShell({user, config, navItems, notificationSummary, children,}: DashboardShellProps) {
     const t = useTranslations("dashboard");
     const pathname = usePathname();
     const [mobileOpen, setMobileOpen] = useState(false);
@@ -223,6 +243,18 @@ export function DashboardShell({user, config, navItems, children,}: DashboardShe
                     </nav>
 
                     <div className="px-3 pt-3 pb-3 border-t border-border bg-muted/5">
+                        <div className="mb-1">
+                            <NotificationBell
+                                initialSummary={notificationSummary}
+                                showLabel={!collapsed}
+                                side="right"
+                                align="end"
+                            />
+                        </div>
+                        <div className="mb-1">
+                            <LanguageSwitcher showLabel={!collapsed} side="right" align="end"/>
+                        </div>
+
                         <Tooltip delayDuration={0}>
                             <TooltipTrigger asChild>
                                 <Link
@@ -383,6 +415,10 @@ export function DashboardShell({user, config, navItems, children,}: DashboardShe
                         <span className="font-semibold text-foreground truncate">
                             {config?.name || "Dashboard"}
                         </span>
+                        <div className="ml-auto flex items-center gap-1">
+                            <LanguageSwitcher/>
+                            <NotificationBell initialSummary={notificationSummary}/>
+                        </div>
                     </header>
 
                     <div
@@ -0,0 +1,210 @@
+/** @format */
+"use client";
+
+import React, {useState, useTransition} from "react";
+import {useRouter} from "next/navigation";
+import {useFormatter, useTranslations} from "next-intl";
+import {toast} from "sonner";
+import type {DeviceSession} from "@/lib/domain/session";
+import {revokeMyDeviceSession, signOutEverywhere} from "@/lib/controller/auth/device-controller";
+import {describeUserAgent} from "@/lib/utils/user-agent";
+import {Globe, Loader2, LogOut, Monitor, MonitorSmartphone, Smartphone} from "lucide-react";
+import {Card, CardContent, CardDescription, CardHeader, CardTitle} from "@/components/ui/card";
+import {Button} from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+
+interface Props {
+    sessions: DeviceSession[];
+}
+
+/**
+ * Devices Client Page.
+ *
+ * Lists the devices the current user is signed in on, with the IP address, browser
+ * and last activity of each, and lets the user sign single devices or every device out.
+ */
+export function DevicesClient({sessions}: Props) {
+    const t = useTranslations("devices");
+    const format = useFormatter();
+    const router = useRouter();
+    const [isPending, startTransition] = useTransition();
+    const [revokingId, setRevokingId] = useState<string | null>(null);
+    const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+    const [isSigningOut, setIsSigningOut] = useState(false);
+
+    const handleRevoke = async (session: DeviceSession) => {
+        setRevokingId(session.id);
+        const result = await revokeMyDeviceSession(session.id);
+        setRevokingId(null);
+
+        if (!result.success) {
+            toast.error(result.error);
+            return;
+        }
+
+        toast.success(t("revoked"));
+        startTransition(() => {
+            router.refresh();
+        });
+    };
+
+    const handleSignOutEverywhere = async () => {
+        setIsSigningOut(true);
+        const result = await signOutEverywhere();
+
+        // On success the action redirects to the login page.
+        if (result && !result.success) {
+            toast.error(result.error);
+            setIsSigningOut(false);
+        }
+    };
+
+    const describeDevice = (session: DeviceSession) => {
+        const {browser, os} = describeUserAgent(session.userAgent);
+        if (browser && os) return t("device.browserOnOs", {browser, os});
+        return browser || os || t("device.unknown");
+    };
+
+    return (
+        <div className="min-h-screen w-full bg-background p-4 sm:p-6 lg:p-8">
+            <div className="mx-auto max-w-4xl animate-in fade-in zoom-in-95 duration-500 space-y-6">
+
+                <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+                    <div className="flex items-center gap-4">
+                        <div
+                            className="flex h-12 w-12 items-center justify-center rounded-xl bg-primary/10 ring-1 ring-primary/20 shadow-sm">
+                            <MonitorSmartphone className="h-6 w-6 text-primary"/>
+                        </div>
+                        <div className="space-y-1">
+                            <h1 className="text-2xl font-bold tracking-tight text-foreground">
+                                {t("title")}
+                            </h1>
+                            <p className="text-sm text-muted-foreground max-w-lg">
+                                {t("subtitle")}
+                            </p>
+                        </div>
+                    </div>
+                    <Button
+                        variant="destructive"
+                        className="bg-error hover:bg-error/90"
+                        onClick={() => setIsConfirmOpen(true)}
+                    >
+                        <LogOut className="mr-2 h-4 w-4"/>
+                        {t("signOutEverywhere.button")}
+                    </Button>
+                </div>
+
+                <Card className="shadow-xl border-border overflow-hidden bg-surface">
+                    <CardHeader className="bg-surface/50 pb-4 pt-6 px-6">
+                        <CardTitle className="text-lg">{t("list.title")}</CardTitle>
+                        <CardDescription>{t("list.description", {count: sessions.length})}</CardDescription>
+                    </CardHeader>
+
+                    <CardContent className="p-0 border-t border-border">
+                        <div className={`divide-y divide-border ${isPending ? "opacity-60" : ""}`}>
+                            {sessions.map((session) => {
+                                const DeviceIcon = describeUserAgent(session.userAgent).isMobile ? Smartphone : Monitor;
+
+                                return (
+                                    <div key={session.id}
+                                         className="flex flex-col gap-3 p-4 sm:flex-row sm:items-center sm:justify-between sm:px-6">
+                                        <div className="flex items-start gap-4 min-w-0">
+                                            <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-lg bg-muted/50">
+                                                <DeviceIcon className="h-5 w-5 text-muted-foreground"/>
+                                            </div>
+                                            <div className="min-w-0 space-y-1">
+                                                <div className="flex flex-wrap items-center gap-2">
+                                                    <span className="font-medium text-foreground">{describeDevice(session)}</span>
+                                                    {session.isCurrent && (
+                                                        <span
+                                                            className="inline-flex items-center rounded-full bg-success/10 px-2 py-0.5 text-xs font-medium text-success ring-1 ring-success/20">
+                                                            {t("device.current")}
+                                                        </span>
+                                                    )}
+                                                </div>
+                                                <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                                                    <span className="flex items-center gap-1">
+                                                        <Globe className="h-3 w-3"/>
+                                                        {session.ipAddress || t("device.unknownIp")}
+                                                    </span>
+                                                    <span>
+                                                        {t("device.lastActive", {
+                                                            time: format.relativeTime(new Date(session.lastActiveAt))
+                                                        })}
+                                                    </span>
+                                                    <span>
+                                                        {t("device.signedIn", {
+                                                            date: format.dateTime(new Date(session.createdAt), {dateStyle: "medium"})
+                                                        })}
+                                                    </span>
+                                                </div>
+                                                {session.userAgent && (
+                                                    <p className="truncate text-[11px] text-muted-foreground/70" title={session.userAgent}>
+                                                        {session.userAgent}
+                                                    </p>
+                                                )}
+                                            </div>
+                                        </div>
+
+                                        {!session.isCurrent && (
+                                            <Button
+                                                variant="outline"
+                                                size="sm"
+                                                className="h-8 shrink-0"
+                                                disabled={revokingId !== null}
+                                                onClick={() => handleRevoke(session)}
+                                            >
+                                                {revokingId === session.id
+                                                    ? <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin"/>
+                                                    : <LogOut className="mr-2 h-3.5 w-3.5"/>}
+                                                {t("revoke")}
+                                            </Button>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </CardContent>
+                </Card>
+            </div>
+
+            <Dialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+                <DialogContent className="bg-background border-border shadow-2xl sm:max-w-[425px] gap-6 z-[100]">
+                    <DialogHeader className="gap-2">
+                        <DialogTitle className="text-xl font-bold tracking-tight">
+                            {t("signOutEverywhere.title")}
+                        </DialogTitle>
+                        <DialogDescription className="text-muted-foreground">
+                            {t("signOutEverywhere.description")}
+                        </DialogDescription>
+                    </DialogHeader>
+                    <DialogFooter className="gap-2 sm:gap-0">
+                        <Button
+                            variant="outline"
+                            onClick={() => setIsConfirmOpen(false)}
+                            className="mr-2 border-muted"
+                        >
+                            {t("signOutEverywhere.cancel")}
+                        </Button>
+                        <Button
+                            variant="destructive"
+                            onClick={handleSignOutEverywhere}
+                            disabled={isSigningOut}
+                            className="bg-error hover:bg-error/90"
+                        >
+                            {isSigningOut && <Loader2 className="mr-2 h-4 w-4 animate-spin"/>}
+                            {t("signOutEverywhere.confirm")}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
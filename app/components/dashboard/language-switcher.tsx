@@ -0,0 +1,96 @@
+/** @format */
+"use client";
+
+import React, {useTransition} from "react";
+import {useSearchParams} from "next/navigation";
+import {useLocale, useTranslations} from "next-intl";
+import {toast} from "sonner";
+import {updateMyLocale} from "@/lib/controller/locale-controller";
+import {Locale, LOCALE_NAMES, routing, usePathname, useRouter} from "@/lib/utils/i18n/routing";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import {Check, Languages, Loader2} from "lucide-react";
+import {cn} from "@/lib/utils";
+
+interface Props {
+    showLabel?: boolean;
+    side?: "top" | "right" | "bottom" | "left";
+    align?: "start" | "center" | "end";
+}
+
+/**
+ * Language switcher of the dashboard.
+ * Stores the chosen language on the user, so emails follow it as well, and
+ * reloads the current page in that language.
+ */
+export function LanguageSwitcher({showLabel = false, side = "bottom", align = "end"}: Props) {
+    const t = useTranslations("dashboard.language");
+    const locale = useLocale();
+    const router = useRouter();
+    const pathname = usePathname();
+    const searchParams = useSearchParams();
+    const [isPending, startTransition] = useTransition();
+
+    const handleSelect = async (next: Locale) => {
+        if (next === locale) return;
+
+        const result = await updateMyLocale(next);
+        if (!result.success) {
+            toast.error(result.error);
+            return;
+        }
+
+        const query = searchParams.toString();
+        startTransition(() => {
+            router.replace(query ? `${pathname}?${query}` : pathname, {locale: next});
+        });
+    };
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <button
+                    type="button"
+                    aria-label={t("label")}
+                    disabled={isPending}
+                    className={cn(
+                        "flex items-center rounded-lg text-muted-foreground hover:bg-muted/50 hover:text-foreground transition-colors",
+                        showLabel ? "w-full gap-3 p-2" : "justify-center p-2"
+                    )}
+                >
+                    {isPending ? <Loader2 className="h-5 w-5 animate-spin"/> : <Languages className="h-5 w-5"/>}
+                    {showLabel && (
+                        <span className="text-sm font-medium">{LOCALE_NAMES[locale as Locale] ?? locale}</span>
+                    )}
+                </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent
+                side={side}
+                align={align}
+                className="w-[200px] bg-white dark:bg-zinc-950 border-border shadow-xl z-50 isolate opacity-100"
+                style={{backgroundColor: "var(--color-background, #ffffff)", opacity: 1}}
+            >
+                <DropdownMenuLabel className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                    {t("title")}
+                </DropdownMenuLabel>
+                <DropdownMenuSeparator/>
+                {routing.locales.map((option) => (
+                    <DropdownMenuItem
+                        key={option}
+                        onSelect={() => handleSelect(option)}
+                        className="flex items-center justify-between gap-2 cursor-pointer"
+                    >
+                        <span lang={option}>{LOCALE_NAMES[option]}</span>
+                        {option === locale && <Check className="h-4 w-4 text-primary"/>}
+                    </DropdownMenuItem>
+                ))}
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
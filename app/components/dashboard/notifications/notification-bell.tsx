@@ -0,0 +1,126 @@
+/** @format */
+"use client";
+
+import React, {useState} from "react";
+import Link from "next/link";
+import {useTranslations} from "next-intl";
+import type {NotificationSummary} from "@/lib/domain/notification";
+import {getMyNotificationSummary, markAllNotificationsRead} from "@/lib/controller/notification-controller";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import {Bell, CheckCheck} from "lucide-react";
+import {cn} from "@/lib/utils";
+import {NotificationItem} from "./notification-item";
+
+interface Props {
+    initialSummary: NotificationSummary | null;
+    showLabel?: boolean;
+    side?: "top" | "right" | "bottom" | "left";
+    align?: "start" | "center" | "end";
+}
+
+/**
+ * Notification bell showing the unread count and a dropdown with the latest notifications.
+ * The summary is refreshed every time the dropdown is opened.
+ */
+export function NotificationBell({initialSummary, showLabel = false, side = "bottom", align = "end"}: Props) {
+    const t = useTranslations("notifications.bell");
+    const [summary, setSummary] = useState<NotificationSummary>(initialSummary ?? {unreadCount: 0, recent: []});
+
+    const handleOpenChange = async (open: boolean) => {
+        if (!open) return;
+        const result = await getMyNotificationSummary();
+        if (result.success) {
+            setSummary(result.data);
+        }
+    };
+
+    const handleRead = (id: string) => {
+        setSummary((current) => ({
+            unreadCount: Math.max(0, current.unreadCount - 1),
+            recent: current.recent.map((notification) =>
+                notification.id === id ? {...notification, readAt: new Date()} : notification
+            ),
+        }));
+    };
+
+    const handleMarkAllRead = async () => {
+        const result = await markAllNotificationsRead();
+        if (result.success) {
+            setSummary((current) => ({
+                unreadCount: 0,
+                recent: current.recent.map((notification) => ({...notification, readAt: notification.readAt ?? new Date()})),
+            }));
+        }
+    };
+
+    return (
+        <DropdownMenu onOpenChange={handleOpenChange}>
+            <DropdownMenuTrigger asChild>
+                <button
+                    type="button"
+                    aria-label={t("label")}
+                    className={cn(
+                        "relative flex items-center rounded-lg text-muted-foreground hover:bg-muted/50 hover:text-foreground transition-colors",
+                        showLabel ? "w-full gap-3 p-2" : "justify-center p-2"
+                    )}
+                >
+                    <span className="relative">
+                        <Bell className="h-5 w-5"/>
+                        {summary.unreadCount > 0 && (
+                            <span
+                                className="absolute -right-1.5 -top-1.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-primary px-1 text-[10px] font-bold text-primary-foreground">
+                                {summary.unreadCount > 99 ? "99+" : summary.unreadCount}
+                            </span>
+                        )}
+                    </span>
+                    {showLabel && <span className="text-sm font-medium">{t("label")}</span>}
+                </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent
+                side={side}
+                align={align}
+                className="w-[340px] p-0 bg-white dark:bg-zinc-950 border-border shadow-xl z-50 isolate opacity-100"
+                style={{backgroundColor: "var(--color-background, #ffffff)", opacity: 1}}
+            >
+                <div className="flex items-center justify-between px-3 py-2">
+                    <DropdownMenuLabel className="p-0 text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                        {t("title")}
+                    </DropdownMenuLabel>
+                    {summary.unreadCount > 0 && (
+                        <button
+                            type="button"
+                            onClick={handleMarkAllRead}
+                            className="flex items-center gap-1 text-xs font-medium text-primary hover:underline"
+                        >
+                            <CheckCheck className="h-3.5 w-3.5"/>
+                            {t("markAllRead")}
+                        </button>
+                    )}
+                </div>
+                <DropdownMenuSeparator className="m-0"/>
+                {summary.recent.length === 0 ? (
+                    <p className="px-3 py-6 text-center text-sm text-muted-foreground">{t("empty")}</p>
+                ) : (
+                    <div className="max-h-[360px] overflow-y-auto divide-y divide-border">
+                        {summary.recent.map((notification) => (
+                            <NotificationItem key={notification.id} notification={notification} compact onRead={handleRead}/>
+                        ))}
+                    </div>
+                )}
+                <DropdownMenuSeparator className="m-0"/>
+                <Link
+                    href="/dashboard/notifications"
+                    className="block px-3 py-2 text-center text-sm font-medium text-primary hover:bg-muted/40"
+                >
+                    {t("viewAll")}
+                </Link>
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
@@ -0,0 +1,67 @@
+/** @format */
+"use client";
+
+import React from "react";
+import {useTranslations} from "next-intl";
+import {useRouter} from "next/navigation";
+import type {Notification, NotificationParams} from "@/lib/domain/notification";
+import {markNotificationRead} from "@/lib/controller/notification-controller";
+import {Bell} from "lucide-react";
+import {cn} from "@/lib/utils";
+
+interface Props {
+    notification: Notification;
+    compact?: boolean;
+    onRead?: (id: string) => void;
+}
+
+/**
+ * Single notification rendered from its type's translation.
+ * Clicking it marks it as read and follows its link, if any.
+ */
+export function NotificationItem({notification, compact = false, onRead}: Props) {
+    const t = useTranslations("notifications.types");
+    const router = useRouter();
+    const isUnread = !notification.readAt;
+    const params = notification.params as NotificationParams;
+
+    const handleClick = async () => {
+        if (isUnread) {
+            onRead?.(notification.id);
+            await markNotificationRead(notification.id);
+        }
+        if (notification.link) {
+            router.push(notification.link);
+        } else {
+            router.refresh();
+        }
+    };
+
+    return (
+        <button
+            type="button"
+            onClick={handleClick}
+            className={cn(
+                "w-full flex items-start gap-3 text-left transition-colors hover:bg-muted/40",
+                compact ? "px-3 py-2.5" : "px-6 py-4",
+                isUnread && "bg-primary/5"
+            )}
+        >
+            <div className="mt-0.5 flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-primary/10">
+                <Bell className="h-4 w-4 text-primary"/>
+            </div>
+            <div className="min-w-0 flex-1 space-y-0.5">
+                <p className={cn("text-sm text-foreground", isUnread && "font-semibold")}>
+                    {t(`${notification.type}.title`, params)}
+                </p>
+                <p className={cn("text-xs text-muted-foreground", compact && "line-clamp-2")}>
+                    {t(`${notification.type}.message`, params)}
+                </p>
+                <p className="text-[11px] text-muted-foreground/70">
+                    {new Date(notification.createdAt).toLocaleString()}
+                </p>
+            </div>
+            {isUnread && <span className="mt-2 h-2 w-2 shrink-0 rounded-full bg-primary" aria-hidden="true"/>}
+        </button>
+    );
+}
@@ -0,0 +1,180 @@
+/** @format */
+"use client";
+
+import React, {useCallback, useTransition} from "react";
+import {useRouter, usePathname, useSearchParams} from "next/navigation";
+import {useTranslations} from "next-intl";
+import {toast} from "sonner";
+import type {Notification} from "@/lib/domain/notification";
+import {markAllNotificationsRead} from "@/lib/controller/notification-controller";
+import {Bell, BellOff, CheckCheck, Filter} from "lucide-react";
+import {Card, CardContent, CardHeader, CardFooter} from "@/components/ui/card";
+import {Button} from "@/components/ui/button";
+import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "@/components/ui/select";
+import {NotificationItem} from "./notification-item";
+
+interface PageProps {
+    initialNotifications: Notification[];
+    initialPagination: {
+        page: number;
+        pageSize: number;
+        total: number;
+        totalPages: number;
+    };
+    initialFilter: "ALL" | "UNREAD";
+}
+
+/**
+ * Notification History Client Page.
+ *
+ * Lists all notifications of the current user with a read-state filter
+ * synchronized to the URL.
+ */
+export function NotificationsClient({initialNotifications, initialPagination, initialFilter}: PageProps) {
+    const t = useTranslations("notifications.page");
+    const router = useRouter();
+    const pathname = usePathname();
+    const searchParams = useSearchParams();
+    const [isPending, startTransition] = useTransition();
+
+    const updateUrl = useCallback(
+        (updates: Record<string, string | number | null>) => {
+            const params = new URLSearchParams(searchParams.toString());
+            Object.entries(updates).forEach(([key, value]) => {
+                if (value === null || value === "") {
+                    params.delete(key);
+                } else {
+                    params.set(key, String(value));
+                }
+            });
+
+            if (!updates.page) {
+                params.set("page", "1");
+            }
+
+            startTransition(() => {
+                router.push(`${pathname}?${params.toString()}`);
+            });
+        },
+        [pathname, router, searchParams]
+    );
+
+    const handleMarkAllRead = async () => {
+        const result = await markAllNotificationsRead();
+        if (!result.success) {
+            toast.error(result.error);
+            return;
+        }
+        startTransition(() => {
+            router.refresh();
+        });
+    };
+
+    return (
+        <div className="min-h-screen w-full bg-background p-4 sm:p-6 lg:p-8">
+            <div className="mx-auto max-w-7xl animate-in fade-in zoom-in-95 duration-500 space-y-6">
+
+                <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                    <div className="flex items-center gap-4">
+                        <div
+                            className="flex h-12 w-12 items-center justify-center rounded-xl bg-primary/10 ring-1 ring-primary/20 shadow-sm">
+                            <Bell className="h-6 w-6 text-primary"/>
+                        </div>
+                        <div className="space-y-1">
+                            <h1 className="text-2xl font-bold tracking-tight text-foreground">
+                                {t("title")}
+                            </h1>
+                            <p className="text-sm text-muted-foreground max-w-lg">
+                                {t("subtitle")}
+                            </p>
+                        </div>
+                    </div>
+                </div>
+
+                <Card className="shadow-xl border-border overflow-hidden bg-surface">
+                    <CardHeader className="bg-surface/50 pb-4 pt-6 px-6">
+                        <div className="flex flex-col sm:flex-row gap-3 sm:items-center sm:justify-between">
+                            <Select
+                                value={initialFilter}
+                                onValueChange={(val) => updateUrl({filter: val === "ALL" ? null : val})}
+                            >
+                                <SelectTrigger className="w-full sm:w-[240px] h-10 bg-background border-input">
+                                    <div className="flex items-center gap-2 text-muted-foreground">
+                                        <Filter className="h-3.5 w-3.5"/>
+                                        <span className="text-foreground">
+                                            <SelectValue placeholder={t("filter.placeholder")}/>
+                                        </span>
+                                    </div>
+                                </SelectTrigger>
+                                <SelectContent
+                                    className="bg-background border-border shadow-xl min-w-[240px] z-50 isolate opacity-100"
+                                    style={{backgroundColor: "var(--color-background, #ffffff)", opacity: 1}}
+                                >
+                                    <SelectItem value="ALL">{t("filter.all")}</SelectItem>
+                                    <SelectItem value="UNREAD">{t("filter.unread")}</SelectItem>
+                                </SelectContent>
+                            </Select>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                className="h-10"
+                                disabled={isPending}
+                                onClick={handleMarkAllRead}
+                            >
+                                <CheckCheck className="mr-2 h-4 w-4"/>
+                                {t("markAllRead")}
+                            </Button>
+                        </div>
+                    </CardHeader>
+
+                    <CardContent className="p-0 border-t border-border">
+                        {initialNotifications.length === 0 ? (
+                            <div className="flex flex-col items-center justify-center gap-2 py-16 text-center">
+                                <BellOff className="h-8 w-8 text-muted-foreground/60"/>
+                                <p className="text-sm font-medium text-foreground">{t("empty.title")}</p>
+                                <p className="text-xs text-muted-foreground">{t("empty.description")}</p>
+                            </div>
+                        ) : (
+                            <div className={`divide-y divide-border ${isPending ? "opacity-60" : ""}`}>
+                                {initialNotifications.map((notification) => (
+                                    <NotificationItem key={notification.id} notification={notification}/>
+                                ))}
+                            </div>
+                        )}
+                    </CardContent>
+
+                    <CardFooter className="bg-muted/30 border-t border-border p-4">
+                        <div className="flex flex-col sm:flex-row items-center justify-between w-full gap-4 sm:gap-0">
+                            <span className="text-sm text-muted-foreground font-medium">
+                                {t("pagination.info", {
+                                    current: initialNotifications.length,
+                                    total: initialPagination.total
+                                })}
+                            </span>
+                            <div className="flex gap-2">
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-8 px-4 border-input hover:bg-muted/50"
+                                    disabled={isPending || initialPagination.page <= 1}
+                                    onClick={() => updateUrl({page: initialPagination.page - 1})}
+                                >
+                                    {t("pagination.previous")}
+                                </Button>
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-8 px-4 border-input hover:bg-muted/50"
+                                    disabled={isPending || initialPagination.page >= initialPagination.totalPages}
+                                    onClick={() => updateUrl({page: initialPagination.page + 1})}
+                                >
+                                    {t("pagination.next")}
+                                </Button>
+                            </div>
+                        </div>
+                    </CardFooter>
+                </Card>
+            </div>
+        </div>
+    );
+}
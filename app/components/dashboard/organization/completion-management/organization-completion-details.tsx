@@ -0,0 +1,207 @@
+/** @format */
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import {useTranslations} from "next-intl";
+import type {
+    PerformanceRating,
+    ProjectCompletionStatus,
+    ProjectCompletionWithDetails
+} from "@/lib/domain/project-completion";
+import type {AttachmentList} from "@/lib/domain/project-attachment";
+import {Card, CardContent, CardHeader, CardTitle, CardDescription} from "@/components/ui/card";
+import {Badge} from "@/components/ui/badge";
+import {buttonVariants} from "@/components/ui/button";
+import {ArrowLeft, GraduationCap, FolderKanban, Clock, CalendarRange, Trophy, Award, UserCheck} from "lucide-react";
+import {OrganizationEvaluationForm} from "./organization-evaluation-form";
+import {AttachmentsCard} from "@/components/dashboard/attachments/attachments-card";
+
+interface Props {
+    completion: ProjectCompletionWithDetails;
+    statuses: typeof ProjectCompletionStatus;
+    ratings: typeof PerformanceRating;
+    minEvaluationLength: number;
+    /** Deliverables handed in with the report, or null if they could not be loaded */
+    deliverables: AttachmentList | null;
+}
+
+/**
+ * Detailed view of a student's completion for the organization that ran the project,
+ * with the coordinator's evaluation and the partner evaluation form while the
+ * completion awaits the organization's review.
+ */
+export function OrganizationCompletionDetails({completion, statuses, ratings, minEvaluationLength, deliverables}: Props) {
+    const t = useTranslations("organization.completions.details");
+    const tStatus = useTranslations("completion.status");
+    const tRatings = useTranslations("completion.ratings");
+    const awaitsReview = completion.status === statuses.COORDINATOR_REVIEWED;
+
+    return (
+        <div className="min-h-screen w-full bg-background p-4 sm:p-6 lg:p-8">
+            <div className="mx-auto max-w-7xl animate-in fade-in zoom-in-95 duration-500 space-y-6">
+                <Link href="/dashboard/completions" className={buttonVariants({variant: "ghost", size: "sm"})}>
+                    <ArrowLeft className="mr-2 h-4 w-4"/>
+                    {t("back")}
+                </Link>
+
+                <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                    <div className="flex items-center gap-4">
+                        <div
+                            className="flex h-12 w-12 shrink-0 items-center justify-center rounded-xl bg-primary/10 ring-1 ring-primary/20 shadow-sm">
+                            <GraduationCap className="h-6 w-6 text-primary"/>
+                        </div>
+                        <div className="space-y-1">
+                            <h1 className="text-xl sm:text-2xl font-bold tracking-tight text-foreground">
+                                {completion.student.user.name}
+                            </h1>
+                            <p className="text-xs sm:text-sm text-muted-foreground flex items-center gap-1.5">
+                                <FolderKanban className="w-3.5 h-3.5"/>
+                                {completion.project.title}
+                            </p>
+                        </div>
+                    </div>
+                    <Badge variant={awaitsReview ? "secondary" : "outline"} className="w-fit">
+                        {tStatus(completion.status)}
+                    </Badge>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                    <div className="lg:col-span-2 space-y-6">
+                        <Card className="shadow-sm border-border bg-surface">
+                            <CardHeader>
+                                <CardTitle>{t("sections.report")}</CardTitle>
+                            </CardHeader>
+                            <CardContent className="space-y-5">
+                                <div className="space-y-1">
+                                    <h4 className="text-xs font-semibold tracking-wider text-muted-foreground uppercase">
+                                        {t("fields.roleDescription")}
+                                    </h4>
+                                    <p className="text-sm text-foreground whitespace-pre-line">
+                                        {completion.roleDescription}
+                                    </p>
+                                </div>
+                                <div className="space-y-1">
+                                    <h4 className="text-xs font-semibold tracking-wider text-muted-foreground uppercase">
+                                        {t("fields.keyAchievements")}
+                                    </h4>
+                                    {completion.keyAchievements.length === 0 ? (
+                                        <span className="text-sm text-muted-foreground/40 italic">N/A</span>
+                                    ) : (
+                                        <ul className="space-y-1.5">
+                                            {completion.keyAchievements.map((achievement) => (
+                                                <li key={achievement} className="flex items-start gap-2 text-sm">
+                                                    <Trophy className="w-3.5 h-3.5 text-primary shrink-0 mt-0.5"/>
+                                                    <span>{achievement}</span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </div>
+                            </CardContent>
+                        </Card>
+
+                        <Card className="shadow-sm border-border bg-surface">
+                            <CardHeader>
+                                <CardTitle>{t("sections.coordinatorEvaluation")}</CardTitle>
+                                {completion.project.coordinator && (
+                                    <CardDescription className="flex items-center gap-1.5">
+                                        <UserCheck className="w-3.5 h-3.5"/>
+                                        {completion.project.coordinator.user.name}
+                                    </CardDescription>
+                                )}
+                            </CardHeader>
+                            <CardContent className="space-y-3">
+                                {completion.coordinatorPerformanceRating && (
+                                    <Badge variant="default">
+                                        {tRatings(completion.coordinatorPerformanceRating)}
+                                    </Badge>
+                                )}
+                                <p className="text-sm text-foreground whitespace-pre-line">
+                                    {completion.coordinatorWrittenEvaluation}
+                                </p>
+                            </CardContent>
+                        </Card>
+
+                        <Card className="shadow-sm border-border bg-surface">
+                            <CardHeader>
+                                <CardTitle>{t("sections.organizationEvaluation")}</CardTitle>
+                                {awaitsReview && <CardDescription>{t("evaluationDescription")}</CardDescription>}
+                            </CardHeader>
+                            <CardContent>
+                                {awaitsReview ? (
+                                    <OrganizationEvaluationForm
+                                        completionId={completion.id}
+                                        statuses={statuses}
+                                        ratings={ratings}
+                                        minLength={minEvaluationLength}
+                                    />
+                                ) : completion.organizationWrittenEvaluation ? (
+                                    <div className="space-y-3">
+                                        {completion.organizationPerformanceRating && (
+                                            <Badge variant="default">
+                                                {tRatings(completion.organizationPerformanceRating)}
+                                            </Badge>
+                                        )}
+                                        <p className="text-sm text-foreground whitespace-pre-line">
+                                            {completion.organizationWrittenEvaluation}
+                                        </p>
+                                    </div>
+                                ) : (
+                                    <p className="text-sm text-muted-foreground">{t("notAwaitingReview")}</p>
+                                )}
+                            </CardContent>
+                        </Card>
+                    </div>
+
+                    <div className="space-y-6">
+                        <Card className="shadow-sm border-border bg-surface">
+                            <CardHeader>
+                                <CardTitle>{t("sections.overview")}</CardTitle>
+                            </CardHeader>
+                            <CardContent className="space-y-4">
+                                <div className="flex flex-col gap-1.5">
+                                    <span className="text-xs font-medium text-muted-foreground flex items-center gap-1.5">
+                                        <Clock className="w-3.5 h-3.5 opacity-70"/>
+                                        {t("fields.actualHoursWorked")}
+                                    </span>
+                                    <span className="text-sm font-medium text-foreground">
+                                        {completion.actualHoursWorked ?? "N/A"}
+                                    </span>
+                                </div>
+                                <div className="flex flex-col gap-1.5">
+                                    <span className="text-xs font-medium text-muted-foreground flex items-center gap-1.5">
+                                        <CalendarRange className="w-3.5 h-3.5 opacity-70"/>
+                                        {t("fields.actualDurationWeeks")}
+                                    </span>
+                                    <span className="text-sm font-medium text-foreground">
+                                        {completion.actualDurationWeeks ?? "N/A"}
+                                    </span>
+                                </div>
+                                <div className="flex flex-col gap-1.5">
+                                    <span className="text-xs font-medium text-muted-foreground flex items-center gap-1.5">
+                                        <Award className="w-3.5 h-3.5 opacity-70"/>
+                                        {t("fields.skillsDeveloped")}
+                                    </span>
+                                    {completion.skillsDeveloped.length === 0 ? (
+                                        <span className="text-sm text-muted-foreground/40 italic">N/A</span>
+                                    ) : (
+                                        <div className="flex flex-wrap gap-1.5">
+                                            {completion.skillsDeveloped.map((skill) => (
+                                                <Badge key={skill} variant="secondary"
+                                                       className="text-xs font-normal px-2 py-0 h-6 bg-primary/10 text-primary">
+                                                    {skill}
+                                                </Badge>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            </CardContent>
+                        </Card>
+                        {deliverables && <AttachmentsCard kind="deliverables" list={deliverables}/>}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
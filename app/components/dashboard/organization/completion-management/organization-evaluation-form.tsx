@@ -0,0 +1,134 @@
+/** @format */
+"use client";
+
+import React, {useState} from "react";
+import {useTranslations} from "next-intl";
+import {useRouter} from "next/navigation";
+import {toast} from "sonner";
+import {Globe, Loader2, Send} from "lucide-react";
+import type {PerformanceRating, ProjectCompletionStatus} from "@/lib/domain/project-completion";
+import {updateOrganizationProjectCompletion} from "@/lib/controller/organization/organization-project-completions-controller";
+import {
+    createOrganizationEvaluationSchema,
+    getCompletionValidationErrorMessage
+} from "@/lib/utils/completion-validation";
+import {Button} from "@/components/ui/button";
+import {Textarea} from "@/components/ui/textarea";
+import {Label} from "@/components/ui/label";
+import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "@/components/ui/select";
+
+interface Props {
+    completionId: string;
+    statuses: typeof ProjectCompletionStatus;
+    ratings: typeof PerformanceRating;
+    minLength: number;
+}
+
+/**
+ * Partner evaluation form used by the organization once the coordinator has reviewed a completion.
+ * The organization either records its review or also publishes the completion to the student's portfolio.
+ * Input is validated with the shared zod schema before it is submitted.
+ */
+export function OrganizationEvaluationForm({completionId, statuses, ratings, minLength}: Props) {
+    const t = useTranslations("organization.completions.form");
+    const tRatings = useTranslations("completion.ratings");
+    const tRoot = useTranslations();
+    const router = useRouter();
+    const [rating, setRating] = useState<PerformanceRating | "">("");
+    const [evaluation, setEvaluation] = useState("");
+    const [submittingStatus, setSubmittingStatus] = useState<ProjectCompletionStatus | null>(null);
+
+    const isSubmitting = submittingStatus !== null;
+    const remaining = Math.max(0, minLength - evaluation.trim().length);
+
+    const submit = async (status: ProjectCompletionStatus) => {
+        const parsed = createOrganizationEvaluationSchema(ratings, statuses, minLength).safeParse({
+            organizationPerformanceRating: rating,
+            organizationWrittenEvaluation: evaluation,
+            status,
+        });
+        if (!parsed.success) {
+            toast.error(getCompletionValidationErrorMessage(tRoot, parsed.error, minLength));
+            return;
+        }
+
+        setSubmittingStatus(status);
+        const result = await updateOrganizationProjectCompletion(completionId, parsed.data);
+        setSubmittingStatus(null);
+
+        if (result.success) {
+            toast.success(status === statuses.PUBLISHED ? t("publishedSuccess") : t("reviewedSuccess"));
+            router.refresh();
+        } else {
+            toast.error(result.error);
+        }
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        submit(statuses.ORGANIZATION_REVIEWED);
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+                <Label htmlFor="organizationPerformanceRating">{t("ratingLabel")}</Label>
+                <Select
+                    value={rating}
+                    onValueChange={(value) => setRating(value as PerformanceRating)}
+                    disabled={isSubmitting}
+                >
+                    <SelectTrigger id="organizationPerformanceRating" className="w-full sm:w-[280px] bg-background">
+                        <SelectValue placeholder={t("ratingPlaceholder")}/>
+                    </SelectTrigger>
+                    <SelectContent
+                        className="bg-background border-border shadow-xl z-50 isolate opacity-100"
+                        style={{backgroundColor: "var(--color-background, #ffffff)", opacity: 1}}
+                    >
+                        {Object.values(ratings).map((value) => (
+                            <SelectItem key={value} value={value}>
+                                {tRatings(value)}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+
+            <div className="space-y-2">
+                <Label htmlFor="organizationWrittenEvaluation">{t("evaluationLabel")}</Label>
+                <Textarea
+                    id="organizationWrittenEvaluation"
+                    value={evaluation}
+                    onChange={(e) => setEvaluation(e.target.value)}
+                    placeholder={t("evaluationPlaceholder")}
+                    className="resize-none min-h-[180px]"
+                    disabled={isSubmitting}
+                />
+                <p className="text-xs text-muted-foreground">
+                    {remaining > 0 ? t("charactersRemaining", {count: remaining}) : t("readyToSubmit")}
+                </p>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-2">
+                <Button type="submit" variant="outline" disabled={isSubmitting} className="w-full sm:w-auto border-muted">
+                    {submittingStatus === statuses.ORGANIZATION_REVIEWED
+                        ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/>
+                        : <Send className="mr-2 h-4 w-4"/>}
+                    {t("submitReview")}
+                </Button>
+                <Button
+                    type="button"
+                    disabled={isSubmitting}
+                    onClick={() => submit(statuses.PUBLISHED)}
+                    className="w-full sm:w-auto"
+                >
+                    {submittingStatus === statuses.PUBLISHED
+                        ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/>
+                        : <Globe className="mr-2 h-4 w-4"/>}
+                    {t("submitAndPublish")}
+                </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">{t("publishHint")}</p>
+        </form>
+    );
+}
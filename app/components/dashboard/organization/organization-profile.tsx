@@ -11,6 +11,8 @@ import {Building2, MapPin, Phone, Globe, Facebook} from "lucide-react";
 
 // Domain & Controller
 import type {OrganizationWithUser, OrganizationType} from "@/lib/domain/organization";
+import type {NotificationDelivery, NotificationPreferences} from "@/lib/domain/notification";
+import type {TwoFactorStatus} from "@/lib/domain/two-factor";
 import {
     updateMyOrganizationProfile,
     deleteMyOrganizationAccount
@@ -19,13 +21,18 @@ import {
 // Components
 import {BaseProfile, ProfileSection} from "@/components/profile/base-profile";
 import {CommonUserFields} from "@/components/profile/common-user-fields";
+import {NotificationPreferencesSection} from "@/components/profile/notification-preferences-section";
+import {TwoFactorSection} from "@/components/profile/two-factor-section";
 
 interface OrganizationProfileProps {
     organization: OrganizationWithUser;
     organizationTypes: typeof OrganizationType;
+    notificationPreferences: NotificationPreferences;
+    notificationDeliveries: typeof NotificationDelivery;
+    twoFactorStatus: TwoFactorStatus;
 }
 
-export function OrganizationProfile({organization, organizationTypes}: OrganizationProfileProps) {
+export function OrganizationProfile({organization, organizationTypes, notificationPreferences, notificationDeliveries, twoFactorStatus}: OrganizationProfileProps) {
     const t = useTranslations("profile.organization");
 
     const [isSaving, setIsSaving] = useState(false);
@@ -303,6 +310,13 @@ export function OrganizationProfile({organization, organizationTypes}: Organizat
                     </div>
                 </div>
             </ProfileSection>
+
+            <NotificationPreferencesSection
+                preferences={notificationPreferences}
+                deliveries={notificationDeliveries}
+            />
+
+            <TwoFactorSection status={twoFactorStatus}/>
         </BaseProfile>
     );
 }
@@ -0,0 +1,212 @@
+/** @format */
+"use client";
+
+import React, {useState} from "react";
+import {useTranslations} from "next-intl";
+import {useRouter} from "next/navigation";
+import {toast} from "sonner";
+import type {ProjectWithApplications} from "@/lib/domain/project";
+import type {ApplicationStatus} from "@/lib/domain/application";
+import {acceptProjectApplication} from "@/lib/controller/organization/organization-applications-controller";
+import {Card, CardContent} from "@/components/ui/card";
+import {Badge} from "@/components/ui/badge";
+import {Button} from "@/components/ui/button";
+import {Avatar, AvatarFallback, AvatarImage} from "@/components/ui/avatar";
+import {Check, X, Inbox, Loader2, Users, Linkedin, GraduationCap} from "lucide-react";
+import {RejectApplicationDialog} from "./reject-application-dialog";
+
+type Applicant = ProjectWithApplications["applications"][number];
+
+interface Props {
+    project: ProjectWithApplications;
+    applicationStatuses: typeof ApplicationStatus;
+}
+
+/**
+ * Applicant inbox shown on the organization project detail page.
+ *
+ * Lists every application with the student's profile and motivation statement,
+ * and lets the organization accept or reject pending applications. Accepting is
+ * disabled once the number of accepted students reaches `numberOfStudents`.
+ */
+export function ApplicantInbox({project, applicationStatuses}: Props) {
+    const t = useTranslations("organization.applicants");
+    const router = useRouter();
+    const [acceptingId, setAcceptingId] = useState<string | null>(null);
+    const [rejectTarget, setRejectTarget] = useState<Applicant | null>(null);
+
+    const acceptedCount = project.applications.filter(
+        (application) => application.status === applicationStatuses.ACCEPTED
+    ).length;
+    const isFull = acceptedCount >= project.numberOfStudents;
+
+    const statusVariant = (status: ApplicationStatus) => {
+        if (status === applicationStatuses.ACCEPTED) return "default";
+        if (status === applicationStatuses.REJECTED) return "destructive";
+        return "outline";
+    };
+
+    const handleAccept = async (application: Applicant) => {
+        setAcceptingId(application.id);
+        try {
+            const result = await acceptProjectApplication(application.id);
+            if (result.success) {
+                toast.success(t("acceptSuccess", {name: application.student.user.name}));
+                router.refresh();
+            } else {
+                toast.error(result.error);
+            }
+        } finally {
+            setAcceptingId(null);
+        }
+    };
+
+    return (
+        <Card className="shadow-sm border-border bg-muted/30 overflow-hidden">
+            <div className="border-b border-border/50 bg-background/50 backdrop-blur-sm">
+                <div className="p-4 sm:p-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                    <div>
+                        <h2 className="text-lg font-medium text-foreground">{t("title")}</h2>
+                        <p className="text-sm text-muted-foreground">{t("subtitle")}</p>
+                    </div>
+                    <Badge variant={isFull ? "default" : "outline"} className="w-fit flex items-center gap-1.5">
+                        <Users className="h-3.5 w-3.5"/>
+                        {t("capacity", {accepted: acceptedCount, total: project.numberOfStudents})}
+                    </Badge>
+                </div>
+            </div>
+
+            <CardContent className="p-4 sm:p-6">
+                {project.applications.length === 0 ? (
+                    <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+                        <div className="p-4 rounded-full bg-muted/30 mb-3">
+                            <Inbox className="h-8 w-8 opacity-40"/>
+                        </div>
+                        <p className="font-medium">{t("empty")}</p>
+                    </div>
+                ) : (
+                    <div className="space-y-4">
+                        {project.applications.map((application) => (
+                            <div key={application.id}
+                                 className="bg-card border border-border rounded-xl p-4 sm:p-6 shadow-sm space-y-4">
+                                <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                                    <div className="flex items-center gap-4">
+                                        <Avatar className="h-10 w-10 border border-border bg-white">
+                                            <AvatarImage
+                                                src={application.student.user.profilePictureUrl || undefined}
+                                                className="h-full w-full object-cover"
+                                            />
+                                            <AvatarFallback className="bg-primary/5 text-primary text-xs font-bold">
+                                                {application.student.user.name?.charAt(0) || "S"}
+                                            </AvatarFallback>
+                                        </Avatar>
+                                        <div className="flex flex-col gap-0.5">
+                                            <span className="font-semibold text-sm text-foreground">
+                                                {application.student.user.name}
+                                            </span>
+                                            <span className="text-xs text-muted-foreground">
+                                                {application.student.user.email}
+                                            </span>
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <Badge variant={statusVariant(application.status)}>
+                                            {t(`status.${application.status}`)}
+                                        </Badge>
+                                        <span className="text-xs text-muted-foreground">
+                                            {new Date(application.createdAt).toLocaleDateString()}
+                                        </span>
+                                    </div>
+                                </div>
+
+                                <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+                                    {application.student.studyProgram && (
+                                        <span className="flex items-center gap-1">
+                                            <GraduationCap className="w-3.5 h-3.5 opacity-70"/>
+                                            {application.student.studyProgram}
+                                            {application.student.yearOfStudy
+                                                ? ` · ${t("year", {year: application.student.yearOfStudy})}`
+                                                : ""}
+                                        </span>
+                                    )}
+                                    {application.student.linkedinUrl && (
+                                        <a href={application.student.linkedinUrl} target="_blank" rel="noreferrer"
+                                           className="flex items-center gap-1 text-primary hover:underline">
+                                            <Linkedin className="w-3.5 h-3.5"/>
+                                            {t("linkedin")}
+                                        </a>
+                                    )}
+                                </div>
+
+                                {application.student.skills.length > 0 && (
+                                    <div className="flex flex-wrap gap-1.5">
+                                        {application.student.skills.map((skill) => (
+                                            <Badge key={skill} variant="secondary"
+                                                   className="text-xs font-normal px-2 py-0 h-6 bg-primary/10 text-primary">
+                                                {skill}
+                                            </Badge>
+                                        ))}
+                                    </div>
+                                )}
+
+                                <div className="space-y-1">
+                                    <h4 className="text-xs font-semibold tracking-wider text-muted-foreground uppercase">
+                                        {t("motivation")}
+                                    </h4>
+                                    <p className="text-sm text-foreground whitespace-pre-line">
+                                        {application.motivationStatement}
+                                    </p>
+                                </div>
+
+                                {application.rejectionReason && (
+                                    <div className="space-y-1">
+                                        <h4 className="text-xs font-semibold tracking-wider text-muted-foreground uppercase">
+                                            {t("rejectionReason")}
+                                        </h4>
+                                        <p className="text-sm text-muted-foreground italic">
+                                            {application.rejectionReason}
+                                        </p>
+                                    </div>
+                                )}
+
+                                {application.status === applicationStatuses.PENDING && (
+                                    <div className="flex flex-col sm:flex-row gap-2 sm:justify-end">
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            className="border-muted"
+                                            onClick={() => setRejectTarget(application)}
+                                            disabled={acceptingId === application.id}
+                                        >
+                                            <X className="mr-2 h-4 w-4"/>
+                                            {t("reject")}
+                                        </Button>
+                                        <Button
+                                            size="sm"
+                                            onClick={() => handleAccept(application)}
+                                            disabled={isFull || acceptingId === application.id}
+                                            title={isFull ? t("capacityReached") : undefined}
+                                        >
+                                            {acceptingId === application.id ? (
+                                                <Loader2 className="mr-2 h-4 w-4 animate-spin"/>
+                                            ) : (
+                                                <Check className="mr-2 h-4 w-4"/>
+                                            )}
+                                            {t("accept")}
+                                        </Button>
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </CardContent>
+
+            <RejectApplicationDialog
+                target={rejectTarget}
+                onOpenChange={(open: boolean) => !open && setRejectTarget(null)}
+                onSuccess={() => setRejectTarget(null)}
+            />
+        </Card>
+    );
+}
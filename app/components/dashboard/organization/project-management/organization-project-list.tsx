@@ -12,7 +12,9 @@ import {
     Filter,
     Search,
     Send,
-    Undo
+    Undo,
+    Play,
+    CheckCircle2
 } from "lucide-react";
 import type {
     ProjectStatus,
@@ -110,6 +112,10 @@ export function OrganizationProjectList({projectStatuses}: { projectStatuses: ty
                     toast.success(t("form.publish_success"));
                 } else if (newStatus === projectStatuses.DRAFT) {
                     toast.success(t("form.revert_success"));
+                } else if (newStatus === projectStatuses.IN_PROGRESS) {
+                    toast.success(t("form.start_success"));
+                } else if (newStatus === projectStatuses.COMPLETED) {
+                    toast.success(t("form.complete_success"));
                 } else {
                     toast.success(t("form.update_success"));
                 }
@@ -177,6 +183,26 @@ export function OrganizationProjectList({projectStatuses}: { projectStatuses: ty
                         </DropdownMenuItem>
                     )}
 
+                    {project.status === projectStatuses.PUBLISHED && (
+                        <DropdownMenuItem
+                            onClick={() => handleStatusChange(project, projectStatuses.IN_PROGRESS)}
+                            className="cursor-pointer focus:bg-muted"
+                        >
+                            <Play className="mr-2 h-4 w-4 text-muted-foreground"/>
+                            {t("actions.start")}
+                        </DropdownMenuItem>
+                    )}
+
+                    {project.status === projectStatuses.IN_PROGRESS && (
+                        <DropdownMenuItem
+                            onClick={() => handleStatusChange(project, projectStatuses.COMPLETED)}
+                            className="cursor-pointer focus:bg-muted"
+                        >
+                            <CheckCircle2 className="mr-2 h-4 w-4 text-muted-foreground"/>
+                            {t("actions.complete")}
+                        </DropdownMenuItem>
+                    )}
+
                     {isEditable && (
                         <>
                             <DropdownMenuItem
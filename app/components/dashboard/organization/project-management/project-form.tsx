@@ -28,7 +28,7 @@ import {
 } from "@/components/ui/select";
 import {Label} from "@/components/ui/label";
 import {Card, CardContent} from "@/components/ui/card";
-import {Loader2, Save, X, Info} from "lucide-react";
+import {Loader2, Save, X, Info, MessageSquareWarning} from "lucide-react";
 
 interface ProjectFormProps {
     initialData?: Project;
@@ -138,6 +138,21 @@ export function ProjectForm({initialData, projectStatuses, projectCategories}: P
                 </div>
 
                 <CardContent className="p-4 sm:p-6 space-y-6">
+                    {/* Coordinator Feedback */}
+                    {initialData?.rejectionReason && initialData.status === projectStatuses.DRAFT && (
+                        <div className="flex items-start gap-3 rounded-xl border border-warning/40 bg-warning/10 p-4 sm:p-6">
+                            <MessageSquareWarning className="h-5 w-5 text-warning shrink-0 mt-0.5"/>
+                            <div className="space-y-1">
+                                <h3 className="text-sm font-semibold text-foreground">
+                                    {t("sections.changes_requested")}
+                                </h3>
+                                <p className="text-sm text-muted-foreground whitespace-pre-line">
+                                    {initialData.rejectionReason}
+                                </p>
+                            </div>
+                        </div>
+                    )}
+
                     {/* General Info Card */}
                     <div className="bg-card border border-border rounded-xl p-4 sm:p-6 shadow-sm space-y-6 h-fit">
                         <h3 className="text-sm font-semibold uppercase tracking-wider text-muted-foreground mb-4 flex items-center gap-2">
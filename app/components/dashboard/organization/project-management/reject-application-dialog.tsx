@@ -0,0 +1,95 @@
+/** @format */
+"use client";
+
+import React, {useState} from "react";
+import {useTranslations} from "next-intl";
+import {useRouter} from "next/navigation";
+import {toast} from "sonner";
+import type {ProjectWithApplications} from "@/lib/domain/project";
+import {rejectProjectApplication} from "@/lib/controller/organization/organization-applications-controller";
+import {Button} from "@/components/ui/button";
+import {Textarea} from "@/components/ui/textarea";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle
+} from "@/components/ui/dialog";
+
+type Applicant = ProjectWithApplications["applications"][number];
+
+interface Props {
+    target: Applicant | null;
+    onOpenChange: (open: boolean) => void;
+    onSuccess: () => void;
+}
+
+export function RejectApplicationDialog({target, onOpenChange, onSuccess}: Props) {
+    const t = useTranslations("organization.applicants.rejectDialog");
+    const router = useRouter();
+    const [reason, setReason] = useState("");
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleConfirm = async () => {
+        if (!target) return;
+        if (!reason.trim()) {
+            toast.error(t("reasonRequired"));
+            return;
+        }
+
+        setIsSubmitting(true);
+        const result = await rejectProjectApplication(target.id, reason);
+        setIsSubmitting(false);
+
+        if (result.success) {
+            toast.success(t("success"));
+            setReason("");
+            router.refresh();
+            onSuccess();
+        } else {
+            toast.error(result.error);
+        }
+    };
+
+    return (
+        <Dialog open={!!target} onOpenChange={onOpenChange}>
+            <DialogContent
+                className="bg-white dark:bg-zinc-950 border-border shadow-2xl sm:max-w-[425px] z-[100] isolate opacity-100"
+                style={{backgroundColor: "var(--color-background, #ffffff)", opacity: 1}}
+            >
+                <DialogHeader>
+                    <DialogTitle className="text-error">{t("title")}</DialogTitle>
+                    <DialogDescription>
+                        {t("description", {name: target?.student.user.name ?? ""})}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-3 py-2">
+                    <label className="text-sm font-medium">{t("reasonLabel")}</label>
+                    <Textarea
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        placeholder={t("reasonPlaceholder")}
+                        className="resize-none min-h-[100px]"
+                    />
+                </div>
+
+                <DialogFooter>
+                    <Button variant="ghost" className="border-muted" onClick={() => onOpenChange(false)}>
+                        {t("cancel")}
+                    </Button>
+                    <Button
+                        variant="destructive"
+                        onClick={handleConfirm}
+                        disabled={isSubmitting}
+                        className="bg-error hover:bg-error/90"
+                    >
+                        {isSubmitting ? t("submitting") : t("confirm")}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
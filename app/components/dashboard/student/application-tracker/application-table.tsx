@@ -0,0 +1,199 @@
+/** @format */
+"use client";
+import React from "react";
+import Link from "next/link";
+import {useTranslations} from "next-intl";
+import type {ApplicationWithDetails, ApplicationStatus} from "@/lib/domain/application";
+import type {ProjectStatus} from "@/lib/domain/project";
+import {Table, TableBody, TableCell, TableHead, TableHeader, TableRow} from "@/components/ui/table";
+import {Badge} from "@/components/ui/badge";
+import {Button, buttonVariants} from "@/components/ui/button";
+import {Search, Calendar, Undo2, MessageSquareWarning, FileText} from "lucide-react";
+import {cn} from "@/lib/utils";
+
+interface Props {
+    applications: ApplicationWithDetails[];
+    statuses: typeof ApplicationStatus;
+    projectStatuses: typeof ProjectStatus;
+    isPending: boolean;
+    onWithdrawClick: (application: ApplicationWithDetails) => void;
+}
+
+/**
+ * Responsive list of the student's applications.
+ * Renders a Card View on mobile devices and a Data Table on desktop.
+ */
+export function ApplicationTable({applications, statuses, projectStatuses, isPending, onWithdrawClick}: Props) {
+    const t = useTranslations("student.applications.table");
+
+    if (applications.length === 0) {
+        return (
+            <div className="flex flex-col items-center justify-center py-16 text-muted-foreground bg-muted/5">
+                <div className="p-4 rounded-full bg-muted/30 mb-3">
+                    <Search className="h-8 w-8 opacity-40"/>
+                </div>
+                <p className="font-medium">{t("noResults")}</p>
+                <p className="text-sm opacity-60">{t("browseHint")}</p>
+            </div>
+        );
+    }
+
+    const statusVariant = (status: ApplicationStatus) => {
+        if (status === statuses.ACCEPTED) return "default";
+        if (status === statuses.REJECTED) return "destructive";
+        return "outline";
+    };
+
+    const canReportCompletion = (application: ApplicationWithDetails) =>
+        application.status === statuses.ACCEPTED &&
+        (application.project.status === projectStatuses.IN_PROGRESS ||
+            application.project.status === projectStatuses.COMPLETED);
+
+    const formatDate = (date: Date | null) =>
+        date ? new Date(date).toLocaleDateString() : t("notReviewed");
+
+    return (
+        <div className={cn("w-full", isPending && "opacity-50 pointer-events-none transition-opacity")}>
+            {/* Mobile Card View */}
+            <div className="block md:hidden divide-y divide-border">
+                {applications.map((application) => (
+                    <div key={application.id} className="p-4 flex flex-col gap-3 bg-background">
+                        <div className="flex items-start justify-between gap-3">
+                            <div className="flex flex-col min-w-0 flex-1 gap-0.5">
+                                <Link
+                                    href={`/dashboard/opportunities/${application.projectId}`}
+                                    className="font-semibold text-sm text-foreground hover:text-primary line-clamp-2 break-words leading-tight"
+                                >
+                                    {application.project.title}
+                                </Link>
+                                <div className="text-xs text-muted-foreground truncate">
+                                    {application.project.organization.user.name}
+                                </div>
+                            </div>
+                            <Badge variant={statusVariant(application.status)}>
+                                {t(`status.${application.status}`)}
+                            </Badge>
+                        </div>
+
+                        {application.rejectionReason && (
+                            <div className="flex items-start gap-2 text-xs text-muted-foreground">
+                                <MessageSquareWarning className="w-3.5 h-3.5 opacity-70 shrink-0 mt-0.5"/>
+                                <span className="break-words">{application.rejectionReason}</span>
+                            </div>
+                        )}
+
+                        <div className="flex items-center justify-between gap-2">
+                            <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                                <Calendar className="w-3.5 h-3.5 opacity-70"/>
+                                <span>
+                                    {t("header.reviewedAt")}: {formatDate(application.reviewedAt)}
+                                </span>
+                            </div>
+                            {application.status === statuses.PENDING && (
+                                <Button variant="outline" size="sm" onClick={() => onWithdrawClick(application)}>
+                                    <Undo2 className="mr-2 h-3.5 w-3.5"/>{t("withdraw")}
+                                </Button>
+                            )}
+                            {canReportCompletion(application) && (
+                                <Link
+                                    href={`/dashboard/applications/${application.id}/completion`}
+                                    className={buttonVariants({variant: "outline", size: "sm"})}
+                                >
+                                    <FileText className="mr-2 h-3.5 w-3.5"/>{t("completionReport")}
+                                </Link>
+                            )}
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {/* Desktop Table View */}
+            <div className="hidden md:block overflow-x-auto">
+                <Table>
+                    <TableHeader className="bg-muted/30">
+                        <TableRow className="hover:bg-transparent border-border">
+                            <TableHead
+                                className="py-4 pl-6 font-semibold text-xs uppercase tracking-wider text-muted-foreground w-[300px]">
+                                {t("header.project")}
+                            </TableHead>
+                            <TableHead
+                                className="py-4 font-semibold text-xs uppercase tracking-wider text-muted-foreground">
+                                {t("header.status")}
+                            </TableHead>
+                            <TableHead
+                                className="py-4 font-semibold text-xs uppercase tracking-wider text-muted-foreground">
+                                {t("header.appliedAt")}
+                            </TableHead>
+                            <TableHead
+                                className="py-4 font-semibold text-xs uppercase tracking-wider text-muted-foreground">
+                                {t("header.reviewedAt")}
+                            </TableHead>
+                            <TableHead
+                                className="py-4 font-semibold text-xs uppercase tracking-wider text-muted-foreground">
+                                {t("header.rejectionReason")}
+                            </TableHead>
+                            <TableHead
+                                className="py-4 pr-6 text-right font-semibold text-xs uppercase tracking-wider text-muted-foreground w-[140px]">
+                                {t("header.actions")}
+                            </TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {applications.map((application) => (
+                            <TableRow
+                                key={application.id}
+                                className="group hover:bg-muted/30 border-border transition-colors duration-200"
+                            >
+                                <TableCell className="pl-6 py-3">
+                                    <div className="flex flex-col gap-0.5">
+                                        <Link
+                                            href={`/dashboard/opportunities/${application.projectId}`}
+                                            className="font-semibold text-sm text-foreground group-hover:text-primary transition-colors truncate block max-w-xs"
+                                            title={application.project.title}
+                                        >
+                                            {application.project.title}
+                                        </Link>
+                                        <span className="text-xs text-muted-foreground">
+                                            {application.project.organization.user.name}
+                                        </span>
+                                    </div>
+                                </TableCell>
+                                <TableCell>
+                                    <Badge variant={statusVariant(application.status)}>
+                                        {t(`status.${application.status}`)}
+                                    </Badge>
+                                </TableCell>
+                                <TableCell className="text-muted-foreground text-sm font-medium">
+                                    {new Date(application.createdAt).toLocaleDateString()}
+                                </TableCell>
+                                <TableCell className="text-muted-foreground text-sm font-medium">
+                                    {formatDate(application.reviewedAt)}
+                                </TableCell>
+                                <TableCell className="text-muted-foreground text-sm max-w-xs">
+                                    <span className="line-clamp-2 break-words" title={application.rejectionReason ?? undefined}>
+                                        {application.rejectionReason || "—"}
+                                    </span>
+                                </TableCell>
+                                <TableCell className="text-right pr-6">
+                                    {application.status === statuses.PENDING && (
+                                        <Button variant="outline" size="sm" onClick={() => onWithdrawClick(application)}>
+                                            <Undo2 className="mr-2 h-3.5 w-3.5"/>{t("withdraw")}
+                                        </Button>
+                                    )}
+                                    {canReportCompletion(application) && (
+                                        <Link
+                                            href={`/dashboard/applications/${application.id}/completion`}
+                                            className={buttonVariants({variant: "outline", size: "sm"})}
+                                        >
+                                            <FileText className="mr-2 h-3.5 w-3.5"/>{t("completionReport")}
+                                        </Link>
+                                    )}
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </div>
+        </div>
+    );
+}
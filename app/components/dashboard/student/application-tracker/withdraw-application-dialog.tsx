@@ -0,0 +1,78 @@
+/** @format */
+"use client";
+import React, {useState} from "react";
+import {useTranslations} from "next-intl";
+import {toast} from "sonner";
+import {useRouter} from "next/navigation";
+import type {ApplicationWithDetails} from "@/lib/domain/application";
+import {withdrawMyApplication} from "@/lib/controller/student/student-applications-controller";
+import {Button} from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+
+interface Props {
+    target: ApplicationWithDetails | null;
+    onOpenChange: (open: boolean) => void;
+    onSuccess: () => void;
+}
+
+export function WithdrawApplicationDialog({target, onOpenChange, onSuccess}: Props) {
+    const t = useTranslations("student.applications.withdraw");
+    const router = useRouter();
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleConfirm = async () => {
+        if (!target) return;
+        setIsSubmitting(true);
+
+        try {
+            const result = await withdrawMyApplication(target.id);
+            if (result.success) {
+                toast.success(t("success"));
+                router.refresh();
+                onSuccess();
+            } else {
+                toast.error(result.error);
+            }
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={!!target} onOpenChange={onOpenChange}>
+            <DialogContent className="bg-background border-border shadow-2xl sm:max-w-[425px] gap-6 z-[100]">
+                <DialogHeader className="gap-2">
+                    <DialogTitle className="text-xl font-bold tracking-tight">
+                        {t("title")}
+                    </DialogTitle>
+                    <DialogDescription className="text-muted-foreground">
+                        {t("description", {project: target?.project.title ?? ""})}
+                    </DialogDescription>
+                </DialogHeader>
+                <DialogFooter className="gap-2 sm:gap-0">
+                    <Button
+                        variant="outline"
+                        onClick={() => onOpenChange(false)}
+                        className="mr-2 border-muted"
+                    >
+                        {t("cancel")}
+                    </Button>
+                    <Button
+                        variant="destructive"
+                        onClick={handleConfirm}
+                        disabled={isSubmitting}
+                    >
+                        {isSubmitting ? t("submitting") : t("confirm")}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
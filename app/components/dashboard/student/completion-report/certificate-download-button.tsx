@@ -0,0 +1,49 @@
+/** @format */
+"use client";
+
+import React, {useState} from "react";
+import {useTranslations} from "next-intl";
+import {toast} from "sonner";
+import {Download, Loader2} from "lucide-react";
+import {downloadMyCompletionCertificate} from "@/lib/controller/student/student-completions-controller";
+import {Button} from "@/components/ui/button";
+
+interface Props {
+    applicationId: string;
+}
+
+/**
+ * Button generating the student's certificate of completion and saving it as a PDF file.
+ */
+export function CertificateDownloadButton({applicationId}: Props) {
+    const t = useTranslations("student.completionReport.certificate");
+    const [isGenerating, setIsGenerating] = useState(false);
+
+    const handleDownload = async () => {
+        setIsGenerating(true);
+        const result = await downloadMyCompletionCertificate(applicationId);
+        setIsGenerating(false);
+
+        if (!result.success) {
+            toast.error(result.error);
+            return;
+        }
+
+        const bytes = Uint8Array.from(atob(result.data.content), (char) => char.charCodeAt(0));
+        const url = URL.createObjectURL(new Blob([bytes], {type: "application/pdf"}));
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = result.data.fileName;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <Button type="button" variant="outline" onClick={handleDownload} disabled={isGenerating}>
+            {isGenerating
+                ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/>
+                : <Download className="mr-2 h-4 w-4"/>}
+            {isGenerating ? t("generating") : t("download")}
+        </Button>
+    );
+}
@@ -0,0 +1,187 @@
+/** @format */
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import {useTranslations} from "next-intl";
+import type {ApplicationWithDetails} from "@/lib/domain/application";
+import type {ProjectCompletionStatus, ProjectCompletionWithDetails} from "@/lib/domain/project-completion";
+import type {AttachmentList} from "@/lib/domain/project-attachment";
+import {Card, CardContent, CardHeader, CardTitle, CardDescription} from "@/components/ui/card";
+import {Badge} from "@/components/ui/badge";
+import {buttonVariants} from "@/components/ui/button";
+import {ArrowLeft, FileText, Building, Clock, CalendarRange, Trophy, Award, Lock} from "lucide-react";
+import {CompletionReportForm} from "./completion-report-form";
+import {PortfolioVisibilityToggle} from "./portfolio-visibility-toggle";
+import {CertificateDownloadButton} from "./certificate-download-button";
+import {AttachmentsCard} from "@/components/dashboard/attachments/attachments-card";
+
+interface Props {
+    application: ApplicationWithDetails;
+    completion: ProjectCompletionWithDetails | null;
+    statuses: typeof ProjectCompletionStatus;
+    minRoleDescriptionLength: number;
+    /** Materials shared on the project, or null if they could not be loaded */
+    materials: AttachmentList | null;
+    /** Deliverables handed in with the report, or null before the report is saved */
+    deliverables: AttachmentList | null;
+}
+
+/**
+ * Completion self-report of the student for an accepted application.
+ * Shows the editable form while the completion is a draft and a read-only
+ * summary once a reviewer has acted on it. Deliverables are handed in next to the report.
+ */
+export function CompletionReportDetails({
+                                            application,
+                                            completion,
+                                            statuses,
+                                            minRoleDescriptionLength,
+                                            materials,
+                                            deliverables
+                                        }: Props) {
+    const t = useTranslations("student.completionReport");
+    const tStatus = useTranslations("completion.status");
+    const isLocked = completion !== null && completion.status !== statuses.DRAFT;
+
+    return (
+        <div className="min-h-screen w-full bg-background p-4 sm:p-6 lg:p-8">
+            <div className="mx-auto max-w-7xl animate-in fade-in zoom-in-95 duration-500 space-y-6">
+                <Link href="/dashboard/applications" className={buttonVariants({variant: "ghost", size: "sm"})}>
+                    <ArrowLeft className="mr-2 h-4 w-4"/>
+                    {t("back")}
+                </Link>
+
+                <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                    <div className="flex items-center gap-4">
+                        <div
+                            className="flex h-12 w-12 shrink-0 items-center justify-center rounded-xl bg-primary/10 ring-1 ring-primary/20 shadow-sm">
+                            <FileText className="h-6 w-6 text-primary"/>
+                        </div>
+                        <div className="space-y-1">
+                            <h1 className="text-xl sm:text-2xl font-bold tracking-tight text-foreground">
+                                {application.project.title}
+                            </h1>
+                            <p className="text-xs sm:text-sm text-muted-foreground flex items-center gap-1.5">
+                                <Building className="w-3.5 h-3.5"/>
+                                {application.project.organization.user.name}
+                            </p>
+                        </div>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-3">
+                        {completion?.status === statuses.PUBLISHED && (
+                            <CertificateDownloadButton applicationId={application.id}/>
+                        )}
+                        <Badge variant={isLocked ? "outline" : "secondary"} className="w-fit">
+                            {completion ? tStatus(completion.status) : t("notStarted")}
+                        </Badge>
+                    </div>
+                </div>
+
+                <Card className="shadow-sm border-border bg-surface">
+                    <CardHeader>
+                        <CardTitle>{t("title")}</CardTitle>
+                        <CardDescription>{isLocked ? t("lockedDescription") : t("description")}</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        {!isLocked ? (
+                            <CompletionReportForm
+                                applicationId={application.id}
+                                completion={completion}
+                                minLength={minRoleDescriptionLength}
+                            />
+                        ) : (
+                            <div className="space-y-5">
+                                <div
+                                    className="flex items-start gap-2 rounded-md border border-border bg-muted/30 p-3 text-sm text-muted-foreground">
+                                    <Lock className="w-4 h-4 shrink-0 mt-0.5"/>
+                                    <span>{t("lockedNotice")}</span>
+                                </div>
+                                {completion.status === statuses.PUBLISHED && (
+                                    <PortfolioVisibilityToggle
+                                        applicationId={application.id}
+                                        studentId={completion.studentId}
+                                        isVisibleInPortfolio={completion.isVisibleInPortfolio}
+                                    />
+                                )}
+                                <div className="space-y-1">
+                                    <h4 className="text-xs font-semibold tracking-wider text-muted-foreground uppercase">
+                                        {t("fields.roleDescription")}
+                                    </h4>
+                                    <p className="text-sm text-foreground whitespace-pre-line">
+                                        {completion.roleDescription}
+                                    </p>
+                                </div>
+                                <div className="space-y-1">
+                                    <h4 className="text-xs font-semibold tracking-wider text-muted-foreground uppercase">
+                                        {t("fields.keyAchievements")}
+                                    </h4>
+                                    <ul className="space-y-1.5">
+                                        {completion.keyAchievements.map((achievement) => (
+                                            <li key={achievement} className="flex items-start gap-2 text-sm">
+                                                <Trophy className="w-3.5 h-3.5 text-primary shrink-0 mt-0.5"/>
+                                                <span>{achievement}</span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                                <div className="space-y-1.5">
+                                    <h4 className="text-xs font-semibold tracking-wider text-muted-foreground uppercase flex items-center gap-1.5">
+                                        <Award className="w-3.5 h-3.5 opacity-70"/>
+                                        {t("fields.skillsDeveloped")}
+                                    </h4>
+                                    <div className="flex flex-wrap gap-1.5">
+                                        {completion.skillsDeveloped.map((skill) => (
+                                            <Badge key={skill} variant="secondary"
+                                                   className="text-xs font-normal px-2 py-0 h-6 bg-primary/10 text-primary">
+                                                {skill}
+                                            </Badge>
+                                        ))}
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                    <div className="flex flex-col gap-1.5">
+                                        <span className="text-xs font-medium text-muted-foreground flex items-center gap-1.5">
+                                            <Clock className="w-3.5 h-3.5 opacity-70"/>
+                                            {t("fields.actualHoursWorked")}
+                                        </span>
+                                        <span className="text-sm font-medium text-foreground">
+                                            {completion.actualHoursWorked ?? "N/A"}
+                                        </span>
+                                    </div>
+                                    <div className="flex flex-col gap-1.5">
+                                        <span className="text-xs font-medium text-muted-foreground flex items-center gap-1.5">
+                                            <CalendarRange className="w-3.5 h-3.5 opacity-70"/>
+                                            {t("fields.actualDurationWeeks")}
+                                        </span>
+                                        <span className="text-sm font-medium text-foreground">
+                                            {completion.actualDurationWeeks ?? "N/A"}
+                                        </span>
+                                    </div>
+                                </div>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+
+                <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+                    {deliverables && completion ? (
+                        <AttachmentsCard
+                            kind="deliverables"
+                            list={deliverables}
+                            target={{completionId: completion.id}}
+                        />
+                    ) : (
+                        <Card className="shadow-sm border-border bg-surface">
+                            <CardHeader>
+                                <CardTitle>{t("deliverables.title")}</CardTitle>
+                                <CardDescription>{t("deliverables.saveFirst")}</CardDescription>
+                            </CardHeader>
+                        </Card>
+                    )}
+                    {materials && <AttachmentsCard kind="materials" list={materials}/>}
+                </div>
+            </div>
+        </div>
+    );
+}
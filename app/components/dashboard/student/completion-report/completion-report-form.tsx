@@ -0,0 +1,152 @@
+/** @format */
+"use client";
+
+import React, {useState} from "react";
+import {useTranslations} from "next-intl";
+import {useRouter} from "next/navigation";
+import {toast} from "sonner";
+import {Save, Loader2} from "lucide-react";
+import type {ProjectCompletion} from "@/lib/domain/project-completion";
+import {saveMyCompletionReport} from "@/lib/controller/student/student-completions-controller";
+import {
+    createCompletionReportSchema,
+    getCompletionValidationErrorMessage
+} from "@/lib/utils/completion-validation";
+import {Button} from "@/components/ui/button";
+import {Input} from "@/components/ui/input";
+import {Textarea} from "@/components/ui/textarea";
+import {Label} from "@/components/ui/label";
+
+interface Props {
+    applicationId: string;
+    completion: ProjectCompletion | null;
+    minLength: number;
+}
+
+const splitLines = (value: string) => value.split("\n");
+
+const toNumberOrNull = (value: string) => (value.trim() === "" ? null : Number(value));
+
+/**
+ * Self-report form used by the student to describe their contribution to a project.
+ * Achievements and skills are entered one per line; input is validated with the
+ * shared zod schema before it is saved.
+ */
+export function CompletionReportForm({applicationId, completion, minLength}: Props) {
+    const t = useTranslations("student.completionReport.form");
+    const tRoot = useTranslations();
+    const router = useRouter();
+    const [roleDescription, setRoleDescription] = useState(completion?.roleDescription ?? "");
+    const [keyAchievements, setKeyAchievements] = useState(completion?.keyAchievements.join("\n") ?? "");
+    const [skillsDeveloped, setSkillsDeveloped] = useState(completion?.skillsDeveloped.join("\n") ?? "");
+    const [actualHoursWorked, setActualHoursWorked] = useState(completion?.actualHoursWorked?.toString() ?? "");
+    const [actualDurationWeeks, setActualDurationWeeks] = useState(completion?.actualDurationWeeks?.toString() ?? "");
+    const [isSaving, setIsSaving] = useState(false);
+
+    const remaining = Math.max(0, minLength - roleDescription.trim().length);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const input = {
+            roleDescription,
+            keyAchievements: splitLines(keyAchievements),
+            skillsDeveloped: splitLines(skillsDeveloped),
+            actualHoursWorked: toNumberOrNull(actualHoursWorked),
+            actualDurationWeeks: toNumberOrNull(actualDurationWeeks),
+        };
+        const parsed = createCompletionReportSchema(minLength).safeParse(input);
+        if (!parsed.success) {
+            toast.error(getCompletionValidationErrorMessage(tRoot, parsed.error, minLength));
+            return;
+        }
+
+        setIsSaving(true);
+        const result = await saveMyCompletionReport(applicationId, input);
+        setIsSaving(false);
+
+        if (result.success) {
+            toast.success(t("success"));
+            router.refresh();
+        } else {
+            toast.error(result.error);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-5">
+            <div className="space-y-2">
+                <Label htmlFor="roleDescription">{t("roleDescriptionLabel")}</Label>
+                <Textarea
+                    id="roleDescription"
+                    value={roleDescription}
+                    onChange={(e) => setRoleDescription(e.target.value)}
+                    placeholder={t("roleDescriptionPlaceholder")}
+                    className="resize-none min-h-[160px]"
+                    disabled={isSaving}
+                />
+                <p className="text-xs text-muted-foreground">
+                    {remaining > 0 ? t("charactersRemaining", {count: remaining}) : t("readyToSave")}
+                </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+                <div className="space-y-2">
+                    <Label htmlFor="keyAchievements">{t("keyAchievementsLabel")}</Label>
+                    <Textarea
+                        id="keyAchievements"
+                        value={keyAchievements}
+                        onChange={(e) => setKeyAchievements(e.target.value)}
+                        placeholder={t("keyAchievementsPlaceholder")}
+                        className="resize-none min-h-[120px]"
+                        disabled={isSaving}
+                    />
+                    <p className="text-xs text-muted-foreground">{t("onePerLine")}</p>
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="skillsDeveloped">{t("skillsDevelopedLabel")}</Label>
+                    <Textarea
+                        id="skillsDeveloped"
+                        value={skillsDeveloped}
+                        onChange={(e) => setSkillsDeveloped(e.target.value)}
+                        placeholder={t("skillsDevelopedPlaceholder")}
+                        className="resize-none min-h-[120px]"
+                        disabled={isSaving}
+                    />
+                    <p className="text-xs text-muted-foreground">{t("onePerLine")}</p>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-5">
+                <div className="space-y-2">
+                    <Label htmlFor="actualHoursWorked">{t("actualHoursWorkedLabel")}</Label>
+                    <Input
+                        id="actualHoursWorked"
+                        type="number"
+                        min={1}
+                        value={actualHoursWorked}
+                        onChange={(e) => setActualHoursWorked(e.target.value)}
+                        disabled={isSaving}
+                    />
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="actualDurationWeeks">{t("actualDurationWeeksLabel")}</Label>
+                    <Input
+                        id="actualDurationWeeks"
+                        type="number"
+                        min={1}
+                        value={actualDurationWeeks}
+                        onChange={(e) => setActualDurationWeeks(e.target.value)}
+                        disabled={isSaving}
+                    />
+                </div>
+            </div>
+
+            <Button type="submit" disabled={isSaving} className="w-full sm:w-auto">
+                {isSaving
+                    ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/>
+                    : <Save className="mr-2 h-4 w-4"/>}
+                {isSaving ? t("saving") : t("save")}
+            </Button>
+        </form>
+    );
+}
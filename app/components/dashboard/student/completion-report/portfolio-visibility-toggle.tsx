@@ -0,0 +1,69 @@
+/** @format */
+"use client";
+
+import React, {useState} from "react";
+import Link from "next/link";
+import {useTranslations} from "next-intl";
+import {useRouter} from "next/navigation";
+import {toast} from "sonner";
+import {ExternalLink} from "lucide-react";
+import {setMyCompletionPortfolioVisibility} from "@/lib/controller/student/student-completions-controller";
+import {Switch} from "@/components/ui/switch";
+import {Label} from "@/components/ui/label";
+
+interface Props {
+    applicationId: string;
+    studentId: string;
+    isVisibleInPortfolio: boolean;
+}
+
+/**
+ * Switch letting the student show or hide a published completion in their public portfolio.
+ */
+export function PortfolioVisibilityToggle({applicationId, studentId, isVisibleInPortfolio}: Props) {
+    const t = useTranslations("student.completionReport.portfolio");
+    const router = useRouter();
+    const [isVisible, setIsVisible] = useState(isVisibleInPortfolio);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const handleChange = async (checked: boolean) => {
+        setIsSaving(true);
+        setIsVisible(checked);
+        const result = await setMyCompletionPortfolioVisibility(applicationId, checked);
+        setIsSaving(false);
+
+        if (result.success) {
+            toast.success(checked ? t("shown") : t("hidden"));
+            router.refresh();
+        } else {
+            setIsVisible(!checked);
+            toast.error(result.error);
+        }
+    };
+
+    return (
+        <div
+            className="flex flex-col sm:flex-row sm:items-center justify-between border border-border bg-muted/20 p-4 rounded-lg gap-4 sm:gap-0">
+            <div className="space-y-0.5">
+                <Label htmlFor="isVisibleInPortfolio" className="text-sm font-medium text-foreground">
+                    {t("label")}
+                </Label>
+                <p className="text-xs text-muted-foreground">{t("description")}</p>
+                <Link
+                    href={`/portfolio/${studentId}`}
+                    target="_blank"
+                    className="inline-flex items-center gap-1 text-xs text-primary hover:underline"
+                >
+                    {t("view")}
+                    <ExternalLink className="w-3 h-3"/>
+                </Link>
+            </div>
+            <Switch
+                id="isVisibleInPortfolio"
+                checked={isVisible}
+                onCheckedChange={handleChange}
+                disabled={isSaving}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,150 @@
+/** @format */
+"use client";
+
+import React, {useCallback, useTransition} from "react";
+import {useRouter, usePathname, useSearchParams} from "next/navigation";
+import {useTranslations} from "next-intl";
+import type {ProjectWithDetails, ProjectCategory} from "@/lib/domain/project";
+import {Compass, Search} from "lucide-react";
+import {Card, CardContent, CardHeader, CardFooter} from "@/components/ui/card";
+import {Button} from "@/components/ui/button";
+import {cn} from "@/lib/utils";
+import {MarketplaceToolbar, MarketplaceFilters} from "./marketplace-toolbar";
+import {ProjectCard} from "./project-card";
+
+interface PageProps {
+    categories: typeof ProjectCategory;
+    initialProjects: ProjectWithDetails[];
+    initialPagination: {
+        page: number;
+        pageSize: number;
+        total: number;
+        totalPages: number;
+    };
+    initialFilters: MarketplaceFilters;
+}
+
+/**
+ * Student Project Marketplace Client Page.
+ *
+ * Orchestrates URL-synchronized filtering, the project card grid and pagination.
+ */
+export function MarketplaceClient({categories, initialProjects, initialPagination, initialFilters}: PageProps) {
+    const t = useTranslations("student.marketplace");
+    const router = useRouter();
+    const pathname = usePathname();
+    const searchParams = useSearchParams();
+    const [isPending, startTransition] = useTransition();
+
+    const updateUrl = useCallback(
+        (updates: Record<string, string | number | null>) => {
+            const params = new URLSearchParams(searchParams.toString());
+            Object.entries(updates).forEach(([key, value]) => {
+                if (value === null || value === "" || value === "ALL") {
+                    params.delete(key);
+                } else {
+                    params.set(key, String(value));
+                }
+            });
+
+            if (!updates.page) {
+                params.set("page", "1");
+            }
+
+            startTransition(() => {
+                router.push(`${pathname}?${params.toString()}`);
+            });
+        },
+        [pathname, router, searchParams]
+    );
+
+    return (
+        <div className="min-h-screen w-full bg-background p-4 sm:p-6 lg:p-8">
+            <div className="mx-auto max-w-7xl animate-in fade-in zoom-in-95 duration-500 space-y-6">
+
+                <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                    <div className="flex items-center gap-4">
+                        <div
+                            className="flex h-12 w-12 items-center justify-center rounded-xl bg-primary/10 ring-1 ring-primary/20 shadow-sm">
+                            <Compass className="h-6 w-6 text-primary"/>
+                        </div>
+                        <div className="space-y-1">
+                            <h1 className="text-2xl font-bold tracking-tight text-foreground">
+                                {t("title")}
+                            </h1>
+                            <p className="text-sm text-muted-foreground max-w-lg">
+                                {t("subtitle")}
+                            </p>
+                        </div>
+                    </div>
+                </div>
+
+                <Card className="shadow-xl border-border overflow-hidden bg-surface">
+                    <CardHeader className="bg-surface/50 pb-4 pt-6 px-6">
+                        <MarketplaceToolbar
+                            key={JSON.stringify([initialFilters.search, initialFilters.skills, initialFilters.maxHours, initialFilters.maxWeeks])}
+                            initialFilters={initialFilters}
+                            categories={categories}
+                            isPending={isPending}
+                            onFilterChange={updateUrl}
+                        />
+                    </CardHeader>
+
+                    <CardContent className="p-6 border-t border-border">
+                        {initialProjects.length === 0 ? (
+                            <div className="flex flex-col items-center justify-center py-16 text-muted-foreground">
+                                <div className="p-4 rounded-full bg-muted/30 mb-3">
+                                    <Search className="h-8 w-8 opacity-40"/>
+                                </div>
+                                <p className="font-medium">{t("noResults")}</p>
+                                <p className="text-sm opacity-60">{t("tryDifferentFilters")}</p>
+                            </div>
+                        ) : (
+                            <div
+                                className={cn(
+                                    "grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4",
+                                    isPending && "opacity-50 pointer-events-none transition-opacity"
+                                )}
+                            >
+                                {initialProjects.map((project) => (
+                                    <ProjectCard key={project.id} project={project}/>
+                                ))}
+                            </div>
+                        )}
+                    </CardContent>
+
+                    <CardFooter className="bg-muted/30 border-t border-border p-4">
+                        <div className="flex flex-col sm:flex-row items-center justify-between w-full gap-4 sm:gap-0">
+                            <span className="text-sm text-muted-foreground font-medium">
+                                {t("pagination.info", {
+                                    current: initialProjects.length,
+                                    total: initialPagination.total
+                                })}
+                            </span>
+                            <div className="flex gap-2">
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-8 px-4 border-input hover:bg-muted/50"
+                                    disabled={isPending || initialPagination.page <= 1}
+                                    onClick={() => updateUrl({page: initialPagination.page - 1})}
+                                >
+                                    {t("pagination.previous")}
+                                </Button>
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-8 px-4 border-input hover:bg-muted/50"
+                                    disabled={isPending || initialPagination.page >= initialPagination.totalPages}
+                                    onClick={() => updateUrl({page: initialPagination.page + 1})}
+                                >
+                                    {t("pagination.next")}
+                                </Button>
+                            </div>
+                        </div>
+                    </CardFooter>
+                </Card>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,148 @@
+/** @format */
+"use client";
+import React, {useState} from "react";
+import {useTranslations} from "next-intl";
+import {Input} from "@/components/ui/input";
+import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "@/components/ui/select";
+import type {ProjectCategory} from "@/lib/domain/project";
+import {Search, Filter, Loader2, Clock, CalendarRange, Award} from "lucide-react";
+import {Button} from "@/components/ui/button";
+
+export interface MarketplaceFilters {
+    search: string;
+    category: ProjectCategory | "ALL";
+    skills: string;
+    maxHours: string;
+    maxWeeks: string;
+}
+
+interface Props {
+    initialFilters: MarketplaceFilters;
+    categories: typeof ProjectCategory;
+    isPending: boolean;
+    onFilterChange: (filters: Partial<MarketplaceFilters>) => void;
+}
+
+/**
+ * A toolbar component for filtering the student project marketplace.
+ *
+ * Provides a free-text search over title and description, a category dropdown,
+ * a comma-separated skills input, and upper bounds for weekly hours and duration.
+ * Text filters are applied by pressing Enter or clicking the search button.
+ * The text inputs start from `initialFilters`; the parent keys the toolbar on those
+ * values so it remounts with fresh inputs when the URL changes (e.g. back navigation).
+ *
+ * @param {MarketplaceFilters} initialFilters - The filter values currently reflected in the URL.
+ * @param {typeof ProjectCategory} categories - An object containing all possible project categories.
+ * @param {boolean} isPending - A flag indicating if a transition is pending, used to disable inputs.
+ * @param {(filters: Partial<MarketplaceFilters>) => void} onFilterChange - Callback function triggered when filters are updated.
+ */
+export function MarketplaceToolbar({initialFilters, categories, isPending, onFilterChange}: Props) {
+    const t = useTranslations("student.marketplace.toolbar");
+    const tCategories = useTranslations("organization.projects.form.categories");
+    const [searchTerm, setSearchTerm] = useState(initialFilters.search);
+    const [skills, setSkills] = useState(initialFilters.skills);
+    const [maxHours, setMaxHours] = useState(initialFilters.maxHours);
+    const [maxWeeks, setMaxWeeks] = useState(initialFilters.maxWeeks);
+
+    const handleSearch = () => {
+        onFilterChange({search: searchTerm, skills, maxHours, maxWeeks});
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === "Enter") handleSearch();
+    };
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div className="flex flex-col sm:flex-row gap-4 items-center justify-between">
+                <div className="flex w-full sm:w-auto items-center gap-2">
+                    <div className="relative group w-full sm:w-[320px]">
+                        <Search
+                            className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground group-focus-within:text-primary transition-colors"/>
+                        <Input
+                            placeholder={t("searchPlaceholder")}
+                            className="pl-10 h-10 bg-background border-input focus:ring-1 focus:ring-primary/20 transition-all"
+                            value={searchTerm}
+                            onChange={(e) => setSearchTerm(e.target.value)}
+                            onKeyDown={handleKeyDown}
+                        />
+                    </div>
+                    <Button
+                        variant="outline"
+                        onClick={handleSearch}
+                        disabled={isPending}
+                        className="h-10 px-4 border-input hover:bg-accent"
+                    >
+                        {isPending ? <Loader2 className="h-4 w-4 animate-spin"/> : t("search")}
+                    </Button>
+                </div>
+
+                <Select
+                    value={initialFilters.category}
+                    onValueChange={(val) => onFilterChange({category: val as ProjectCategory | "ALL"})}
+                >
+                    <SelectTrigger className="w-full sm:w-[220px] h-10 bg-background border-input">
+                        <div className="flex items-center gap-2 text-muted-foreground">
+                            <Filter className="h-3.5 w-3.5"/>
+                            <span className="text-foreground">
+                                <SelectValue placeholder={t("categoryPlaceholder")}/>
+                            </span>
+                        </div>
+                    </SelectTrigger>
+                    <SelectContent
+                        className="bg-background border-border shadow-xl min-w-[220px] z-50 isolate opacity-100"
+                        style={{backgroundColor: "var(--color-background, #ffffff)", opacity: 1}}
+                    >
+                        <SelectItem value="ALL">{t("allCategories")}</SelectItem>
+                        {Object.values(categories).map((c) => (
+                            <SelectItem key={c} value={c}>
+                                {tCategories(c.toLowerCase())}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="relative group">
+                    <Award
+                        className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground group-focus-within:text-primary transition-colors"/>
+                    <Input
+                        placeholder={t("skillsPlaceholder")}
+                        className="pl-10 h-10 bg-background border-input"
+                        value={skills}
+                        onChange={(e) => setSkills(e.target.value)}
+                        onKeyDown={handleKeyDown}
+                    />
+                </div>
+                <div className="relative group">
+                    <Clock
+                        className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground group-focus-within:text-primary transition-colors"/>
+                    <Input
+                        type="number"
+                        min={1}
+                        placeholder={t("maxHoursPlaceholder")}
+                        className="pl-10 h-10 bg-background border-input"
+                        value={maxHours}
+                        onChange={(e) => setMaxHours(e.target.value)}
+                        onKeyDown={handleKeyDown}
+                    />
+                </div>
+                <div className="relative group">
+                    <CalendarRange
+                        className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground group-focus-within:text-primary transition-colors"/>
+                    <Input
+                        type="number"
+                        min={1}
+                        placeholder={t("maxWeeksPlaceholder")}
+                        className="pl-10 h-10 bg-background border-input"
+                        value={maxWeeks}
+                        onChange={(e) => setMaxWeeks(e.target.value)}
+                        onKeyDown={handleKeyDown}
+                    />
+                </div>
+            </div>
+        </div>
+    );
+}
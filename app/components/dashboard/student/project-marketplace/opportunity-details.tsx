@@ -0,0 +1,192 @@
+/** @format */
+"use client";
+
+import React, {isValidElement, cloneElement} from "react";
+import Link from "next/link";
+import {useTranslations} from "next-intl";
+import type {ProjectWithDetails} from "@/lib/domain/project";
+import type {Application, ApplicationStatus} from "@/lib/domain/application";
+import type {AttachmentList} from "@/lib/domain/project-attachment";
+import {Card, CardContent, CardHeader, CardTitle, CardDescription} from "@/components/ui/card";
+import {Badge} from "@/components/ui/badge";
+import {buttonVariants} from "@/components/ui/button";
+import {
+    ArrowLeft,
+    Briefcase,
+    Building,
+    Globe,
+    Clock,
+    CalendarRange,
+    Users,
+    Tag,
+    Award,
+    CheckCircle2,
+    MapPin
+} from "lucide-react";
+import {ProjectApplicationForm} from "./project-application-form";
+import {AttachmentsCard} from "@/components/dashboard/attachments/attachments-card";
+
+interface Props {
+    project: ProjectWithDetails;
+    application: Application | null;
+    applicationStatuses: typeof ApplicationStatus;
+    minMotivationLength: number;
+    /** Project materials, available once the student's application is accepted */
+    materials: AttachmentList | null;
+}
+
+/**
+ * Detailed view of a published project, including the organization profile
+ * and either the application form or the status of the existing application.
+ * Accepted students also see the materials shared on the project.
+ */
+export function OpportunityDetails({project, application, applicationStatuses, minMotivationLength, materials}: Props) {
+    const t = useTranslations("student.opportunity");
+    const tCategories = useTranslations("organization.projects.form.categories");
+
+    return (
+        <div className="min-h-screen w-full bg-background p-4 sm:p-6 lg:p-8">
+            <div className="mx-auto max-w-7xl animate-in fade-in zoom-in-95 duration-500 space-y-6">
+                <Link href="/dashboard/opportunities" className={buttonVariants({variant: "ghost", size: "sm"})}>
+                    <ArrowLeft className="mr-2 h-4 w-4"/>
+                    {t("back")}
+                </Link>
+
+                <div className="flex items-center gap-4">
+                    <div
+                        className="flex h-12 w-12 shrink-0 items-center justify-center rounded-xl bg-primary/10 ring-1 ring-primary/20 shadow-sm">
+                        <Briefcase className="h-6 w-6 text-primary"/>
+                    </div>
+                    <div className="space-y-1">
+                        <h1 className="text-xl sm:text-2xl font-bold tracking-tight text-foreground">
+                            {project.title}
+                        </h1>
+                        <p className="text-xs sm:text-sm text-muted-foreground flex items-center gap-1.5">
+                            <Building className="w-3.5 h-3.5"/> {project.organization.user.name}
+                        </p>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                    <div className="lg:col-span-2 space-y-6">
+                        <Card className="shadow-sm border-border bg-surface">
+                            <CardHeader>
+                                <CardTitle>{t("sections.description")}</CardTitle>
+                            </CardHeader>
+                            <CardContent>
+                                <p className="text-sm text-foreground whitespace-pre-line">{project.description}</p>
+                            </CardContent>
+                        </Card>
+
+                        {materials && <AttachmentsCard kind="materials" list={materials}/>}
+
+                        <Card className="shadow-sm border-border bg-surface">
+                            <CardHeader>
+                                <CardTitle>{t("sections.apply")}</CardTitle>
+                                <CardDescription>{t("apply.description")}</CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                {application ? (
+                                    <div className="flex items-start gap-3 rounded-lg border border-border bg-muted/20 p-4">
+                                        <CheckCircle2 className="h-5 w-5 text-primary shrink-0 mt-0.5"/>
+                                        <div className="space-y-1">
+                                            <p className="text-sm font-medium">
+                                                {t("apply.alreadyApplied", {
+                                                    date: new Date(application.createdAt).toLocaleDateString()
+                                                })}
+                                            </p>
+                                            <Badge
+                                                variant={application.status === applicationStatuses.ACCEPTED ? "default" : "outline"}>
+                                                {t(`applicationStatus.${application.status}`)}
+                                            </Badge>
+                                        </div>
+                                    </div>
+                                ) : (
+                                    <ProjectApplicationForm projectId={project.id} minLength={minMotivationLength}/>
+                                )}
+                            </CardContent>
+                        </Card>
+                    </div>
+
+                    <div className="space-y-6">
+                        <Card className="shadow-sm border-border bg-surface">
+                            <CardHeader>
+                                <CardTitle>{t("sections.overview")}</CardTitle>
+                            </CardHeader>
+                            <CardContent className="space-y-4">
+                                <InfoItem icon={<Tag/>} label={t("fields.category")}
+                                          value={tCategories(project.category.toLowerCase())}/>
+                                <InfoItem icon={<Clock/>} label={t("fields.hoursPerWeek")}
+                                          value={project.estimatedHoursPerWeek?.toString()}/>
+                                <InfoItem icon={<CalendarRange/>} label={t("fields.durationWeeks")}
+                                          value={project.estimatedDurationWeeks?.toString()}/>
+                                <InfoItem icon={<Users/>} label={t("fields.numberOfStudents")}
+                                          value={project.numberOfStudents.toString()}/>
+                                <div className="flex flex-col gap-1.5">
+                                    <span className="text-xs font-medium text-muted-foreground flex items-center gap-1.5">
+                                        <Award className="w-3.5 h-3.5 opacity-70"/>
+                                        {t("fields.requiredSkills")}
+                                    </span>
+                                    {project.requiredSkills.length === 0 ? (
+                                        <span className="text-sm text-muted-foreground/40 italic">N/A</span>
+                                    ) : (
+                                        <div className="flex flex-wrap gap-1.5">
+                                            {project.requiredSkills.map((skill) => (
+                                                <Badge key={skill} variant="secondary"
+                                                       className="text-xs font-normal px-2 py-0 h-6 bg-primary/10 text-primary">
+                                                    {skill}
+                                                </Badge>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            </CardContent>
+                        </Card>
+
+                        <Card className="shadow-sm border-border bg-surface">
+                            <CardHeader>
+                                <CardTitle>{t("sections.organization")}</CardTitle>
+                            </CardHeader>
+                            <CardContent className="space-y-4">
+                                <InfoItem icon={<Building/>} label={t("fields.organizationName")}
+                                          value={project.organization.user.name}/>
+                                <InfoItem icon={<MapPin/>} label={t("fields.location")}
+                                          value={[project.organization.city, project.organization.country].filter(Boolean).join(", ")}/>
+                                <InfoItem icon={<Globe/>} label={t("fields.website")}
+                                          value={project.organization.websiteUrl} isLink/>
+                            </CardContent>
+                        </Card>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+function InfoItem({icon, label, value, isLink}: {
+    icon?: React.ReactNode,
+    label: string,
+    value?: string | null,
+    isLink?: boolean
+}) {
+    return (
+        <div className="flex flex-col gap-1.5">
+            <span className="text-xs font-medium text-muted-foreground flex items-center gap-1.5">
+                {isValidElement(icon) && cloneElement(icon as React.ReactElement<{
+                    className?: string
+                }>, {className: 'w-3.5 h-3.5 opacity-70'})}
+                {label}
+            </span>
+            {!value ? (
+                <span className="text-sm text-muted-foreground/40 italic">N/A</span>
+            ) : isLink ? (
+                <a href={value.startsWith('http') ? value : `https://${value}`} target="_blank" rel="noreferrer"
+                   className="text-sm font-medium text-primary hover:underline truncate w-fit max-w-full block">
+                    {value}
+                </a>
+            ) : (
+                <span className="text-sm font-medium text-foreground break-words">{value}</span>
+            )}
+        </div>
+    );
+}
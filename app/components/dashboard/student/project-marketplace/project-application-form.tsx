@@ -0,0 +1,73 @@
+/** @format */
+"use client";
+
+import React, {useState} from "react";
+import {useTranslations} from "next-intl";
+import {useRouter} from "next/navigation";
+import {toast} from "sonner";
+import {Send, Loader2} from "lucide-react";
+import {applyToProject} from "@/lib/controller/student/student-projects-controller";
+import {Button} from "@/components/ui/button";
+import {Textarea} from "@/components/ui/textarea";
+import {Label} from "@/components/ui/label";
+
+interface Props {
+    projectId: string;
+    minLength: number;
+}
+
+/**
+ * Motivation statement form used to apply to a published project.
+ */
+export function ProjectApplicationForm({projectId, minLength}: Props) {
+    const t = useTranslations("student.opportunity.apply");
+    const router = useRouter();
+    const [motivation, setMotivation] = useState("");
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const remaining = Math.max(0, minLength - motivation.trim().length);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (remaining > 0) {
+            toast.error(t("tooShort", {min: minLength}));
+            return;
+        }
+
+        setIsSubmitting(true);
+        const result = await applyToProject(projectId, motivation);
+        setIsSubmitting(false);
+
+        if (result.success) {
+            toast.success(t("success"));
+            router.refresh();
+        } else {
+            toast.error(result.error);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+                <Label htmlFor="motivationStatement">{t("motivationLabel")}</Label>
+                <Textarea
+                    id="motivationStatement"
+                    value={motivation}
+                    onChange={(e) => setMotivation(e.target.value)}
+                    placeholder={t("motivationPlaceholder")}
+                    className="resize-none min-h-[160px]"
+                    disabled={isSubmitting}
+                />
+                <p className="text-xs text-muted-foreground">
+                    {remaining > 0 ? t("charactersRemaining", {count: remaining}) : t("readyToSubmit")}
+                </p>
+            </div>
+            <Button type="submit" disabled={isSubmitting} className="w-full sm:w-auto">
+                {isSubmitting
+                    ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/>
+                    : <Send className="mr-2 h-4 w-4"/>}
+                {isSubmitting ? t("submitting") : t("submit")}
+            </Button>
+        </form>
+    );
+}
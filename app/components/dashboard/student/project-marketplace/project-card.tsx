@@ -0,0 +1,81 @@
+/** @format */
+"use client";
+import React from "react";
+import Link from "next/link";
+import {useTranslations} from "next-intl";
+import type {ProjectWithDetails} from "@/lib/domain/project";
+import {Card, CardContent, CardHeader, CardFooter} from "@/components/ui/card";
+import {Badge} from "@/components/ui/badge";
+import {Building, Clock, CalendarRange, Users, ArrowRight} from "lucide-react";
+
+interface Props {
+    project: ProjectWithDetails;
+}
+
+/**
+ * Summary card for a published project in the student marketplace.
+ * Links to the project detail page where the student can apply.
+ */
+export function ProjectCard({project}: Props) {
+    const t = useTranslations("student.marketplace.card");
+    const tCategories = useTranslations("organization.projects.form.categories");
+
+    return (
+        <Link href={`/dashboard/opportunities/${project.id}`} className="group block h-full">
+            <Card
+                className="h-full flex flex-col border-border bg-surface shadow-sm hover:shadow-lg hover:border-primary/40 transition-all duration-200">
+                <CardHeader className="pb-3 space-y-2">
+                    <div className="flex items-start justify-between gap-3">
+                        <h3 className="font-semibold text-base text-foreground group-hover:text-primary transition-colors line-clamp-2">
+                            {project.title}
+                        </h3>
+                        <Badge variant="outline" className="shrink-0">
+                            {tCategories(project.category.toLowerCase())}
+                        </Badge>
+                    </div>
+                    <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                        <Building className="w-3.5 h-3.5 opacity-70"/>
+                        <span className="truncate">{project.organization.user.name}</span>
+                    </div>
+                </CardHeader>
+
+                <CardContent className="flex-1 space-y-3 pb-3">
+                    <p className="text-sm text-muted-foreground line-clamp-3">{project.description}</p>
+                    {project.requiredSkills.length > 0 && (
+                        <div className="flex flex-wrap gap-1.5">
+                            {project.requiredSkills.slice(0, 5).map((skill) => (
+                                <Badge key={skill} variant="secondary"
+                                       className="text-xs font-normal px-2 py-0 h-6 bg-primary/10 text-primary">
+                                    {skill}
+                                </Badge>
+                            ))}
+                        </div>
+                    )}
+                </CardContent>
+
+                <CardFooter
+                    className="flex items-center justify-between gap-3 border-t border-border pt-3 text-xs text-muted-foreground">
+                    <div className="flex flex-wrap items-center gap-3">
+                        {project.estimatedHoursPerWeek && (
+                            <span className="flex items-center gap-1">
+                                <Clock className="w-3.5 h-3.5 opacity-70"/>
+                                {t("hoursPerWeek", {hours: project.estimatedHoursPerWeek})}
+                            </span>
+                        )}
+                        {project.estimatedDurationWeeks && (
+                            <span className="flex items-center gap-1">
+                                <CalendarRange className="w-3.5 h-3.5 opacity-70"/>
+                                {t("weeks", {weeks: project.estimatedDurationWeeks})}
+                            </span>
+                        )}
+                        <span className="flex items-center gap-1">
+                            <Users className="w-3.5 h-3.5 opacity-70"/>
+                            {t("students", {count: project.numberOfStudents})}
+                        </span>
+                    </div>
+                    <ArrowRight className="w-4 h-4 text-primary opacity-0 group-hover:opacity-100 transition-opacity"/>
+                </CardFooter>
+            </Card>
+        </Link>
+    );
+}
@@ -1,6 +1,9 @@
 "use client"
+import Link from 'next/link'
 import {useTranslations} from 'next-intl'
+import {Compass, ArrowRight} from 'lucide-react'
 import {User} from '@/lib/domain/user'
+import {Card, CardDescription, CardHeader, CardTitle} from '@/components/ui/card'
 
 export function StudentDashboard({user}: { user: User }) {
     const t = useTranslations('dashboard.student')
@@ -9,7 +12,22 @@ export function StudentDashboard({user}: { user: User }) {
         <div className="space-y-6">
             <h1 className="text-3xl font-bold tracking-tight">{t('welcome', {name: user.name})}</h1>
             <p className="text-muted-foreground">{t('subtitle')}</p>
-            {/* Student specific widgets go here */}
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                <Link href="/dashboard/opportunities" className="group block">
+                    <Card className="h-full border-border bg-surface shadow-sm hover:shadow-lg hover:border-primary/40 transition-all duration-200">
+                        <CardHeader className="flex flex-row items-center gap-4 space-y-0">
+                            <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-xl bg-primary/10 ring-1 ring-primary/20">
+                                <Compass className="h-5 w-5 text-primary"/>
+                            </div>
+                            <div className="flex-1 space-y-1">
+                                <CardTitle className="text-base">{t('browseOpportunities')}</CardTitle>
+                                <CardDescription>{t('browseOpportunitiesDescription')}</CardDescription>
+                            </div>
+                            <ArrowRight className="h-4 w-4 text-primary opacity-0 group-hover:opacity-100 transition-opacity"/>
+                        </CardHeader>
+                    </Card>
+                </Link>
+            </div>
         </div>
     )
 }
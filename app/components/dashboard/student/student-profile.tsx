@@ -6,21 +6,29 @@ import {useTranslations} from "next-intl";
 import {toast} from "sonner";
 import {Input} from "@/components/ui/input";
 import {Label} from "@/components/ui/label";
-import {GraduationCap, Link as LinkIcon} from "lucide-react";
+import {Switch} from "@/components/ui/switch";
+import {GraduationCap, Link as LinkIcon, Globe, ExternalLink} from "lucide-react";
 
 // Domain & Controller
 import {StudentWithUser} from "@/lib/domain/student";
+import type {NotificationDelivery, NotificationPreferences} from "@/lib/domain/notification";
+import type {TwoFactorStatus} from "@/lib/domain/two-factor";
 import {updateMyStudentProfile, deleteMyStudentAccount} from "@/lib/controller/student/student-profile-controller";
 
 // Components
 import {BaseProfile, ProfileSection} from "@/components/profile/base-profile";
 import {CommonUserFields} from "@/components/profile/common-user-fields";
+import {NotificationPreferencesSection} from "@/components/profile/notification-preferences-section";
+import {TwoFactorSection} from "@/components/profile/two-factor-section";
 
 interface StudentProfileProps {
     student: StudentWithUser;
+    notificationPreferences: NotificationPreferences;
+    notificationDeliveries: typeof NotificationDelivery;
+    twoFactorStatus: TwoFactorStatus;
 }
 
-export function StudentProfile({student}: StudentProfileProps) {
+export function StudentProfile({student, notificationPreferences, notificationDeliveries, twoFactorStatus}: StudentProfileProps) {
     const t = useTranslations("profile.student");
 
     const [isSaving, setIsSaving] = useState(false);
@@ -83,7 +91,8 @@ export function StudentProfile({student}: StudentProfileProps) {
                 yearOfStudy: formData.yearOfStudy ? parseInt(String(formData.yearOfStudy)) : null,
                 skills: finalSkills, // Use processed array
                 interests: finalInterests, // Use processed array
-                linkedinUrl: formData.linkedinUrl
+                linkedinUrl: formData.linkedinUrl,
+                isPortfolioPublic: formData.isPortfolioPublic
             };
 
             const result = await updateMyStudentProfile(updatePayload);
@@ -256,6 +265,38 @@ export function StudentProfile({student}: StudentProfileProps) {
                     )}
                 </div>
             </ProfileSection>
+
+            <ProfileSection title={t("sections.portfolio")} icon={Globe}>
+                <div
+                    className="flex flex-col sm:flex-row sm:items-center justify-between border border-border bg-muted/20 p-4 rounded-lg gap-4 sm:gap-0">
+                    <div className="space-y-0.5">
+                        <Label htmlFor="isPortfolioPublic" className="text-sm font-medium text-foreground">
+                            {t("fields.isPortfolioPublic")}
+                        </Label>
+                        <p className="text-xs text-muted-foreground">{t("hints.portfolio_hint")}</p>
+                        {formData.isPortfolioPublic && (
+                            <a href={`/portfolio/${formData.id}`} target="_blank" rel="noopener noreferrer"
+                               className="inline-flex items-center gap-1 text-xs text-primary hover:underline">
+                                {t("actions.view_portfolio")}
+                                <ExternalLink className="w-3 h-3"/>
+                            </a>
+                        )}
+                    </div>
+                    <Switch
+                        id="isPortfolioPublic"
+                        checked={formData.isPortfolioPublic}
+                        onCheckedChange={(checked) => handleStudentUpdate("isPortfolioPublic", checked)}
+                        disabled={!isEditMode}
+                    />
+                </div>
+            </ProfileSection>
+
+            <NotificationPreferencesSection
+                preferences={notificationPreferences}
+                deliveries={notificationDeliveries}
+            />
+
+            <TwoFactorSection status={twoFactorStatus}/>
         </BaseProfile>
     );
 }
\ No newline at end of file
@@ -0,0 +1,201 @@
+/** @format */
+import React from "react";
+import {useTranslations} from "next-intl";
+import type {StudentPortfolio} from "@/lib/domain/student";
+import type {ProjectCompletionWithDetails} from "@/lib/domain/project-completion";
+import {Card, CardContent, CardHeader, CardTitle, CardDescription} from "@/components/ui/card";
+import {Badge} from "@/components/ui/badge";
+import {Avatar, AvatarFallback, AvatarImage} from "@/components/ui/avatar";
+import {
+    Building,
+    Clock,
+    CalendarRange,
+    Trophy,
+    Award,
+    GraduationCap,
+    Briefcase,
+    Link as LinkIcon
+} from "lucide-react";
+
+interface Props {
+    portfolio: StudentPortfolio;
+}
+
+/**
+ * Public portfolio of a student.
+ * Shows the student's profile followed by their published completions,
+ * each with the coordinator's and the organization's evaluation.
+ * Rendered on the server so the account records never reach the browser.
+ */
+export function StudentPortfolioView({portfolio}: Props) {
+    const t = useTranslations("portfolio");
+    const {student, completions} = portfolio;
+    const initials = student.user.name?.charAt(0)?.toUpperCase() || "U";
+
+    return (
+        <div className="min-h-screen w-full bg-background p-4 sm:p-6 lg:p-8">
+            <div className="mx-auto max-w-5xl animate-in fade-in zoom-in-95 duration-500 space-y-6">
+                <Card className="shadow-sm border-border bg-surface">
+                    <CardContent className="p-6 flex flex-col sm:flex-row gap-6">
+                        <Avatar className="h-24 w-24 border-2 border-border shadow-sm bg-muted overflow-hidden shrink-0">
+                            <AvatarImage
+                                src={student.user.profilePictureUrl || undefined}
+                                className="h-full w-full object-cover"
+                                alt={student.user.name}
+                            />
+                            <AvatarFallback className="text-2xl font-semibold text-muted-foreground bg-muted">
+                                {initials}
+                            </AvatarFallback>
+                        </Avatar>
+                        <div className="space-y-3 min-w-0">
+                            <div className="space-y-1">
+                                <h1 className="text-2xl font-bold tracking-tight text-foreground">
+                                    {student.user.name}
+                                </h1>
+                                {student.studyProgram && (
+                                    <p className="text-sm text-muted-foreground flex items-center gap-1.5">
+                                        <GraduationCap className="w-4 h-4"/>
+                                        {student.studyProgram}
+                                    </p>
+                                )}
+                            </div>
+                            {student.user.bio && (
+                                <p className="text-sm text-foreground whitespace-pre-line">{student.user.bio}</p>
+                            )}
+                            {student.skills.length > 0 && (
+                                <div className="flex flex-wrap gap-1.5">
+                                    {student.skills.map((skill) => (
+                                        <Badge key={skill} variant="secondary"
+                                               className="text-xs font-normal px-2 py-0 h-6 bg-primary/10 text-primary">
+                                            {skill}
+                                        </Badge>
+                                    ))}
+                                </div>
+                            )}
+                            {student.linkedinUrl && (
+                                <a href={student.linkedinUrl} target="_blank" rel="noopener noreferrer"
+                                   className="inline-flex items-center gap-1.5 text-sm text-primary hover:underline">
+                                    <LinkIcon className="w-3.5 h-3.5"/>
+                                    {t("linkedin")}
+                                </a>
+                            )}
+                        </div>
+                    </CardContent>
+                </Card>
+
+                <div className="flex items-center gap-3">
+                    <div
+                        className="flex h-10 w-10 shrink-0 items-center justify-center rounded-xl bg-primary/10 ring-1 ring-primary/20 shadow-sm">
+                        <Briefcase className="h-5 w-5 text-primary"/>
+                    </div>
+                    <h2 className="text-lg font-semibold tracking-tight text-foreground">{t("completionsTitle")}</h2>
+                </div>
+
+                {completions.length === 0 ? (
+                    <div
+                        className="flex flex-col items-center justify-center py-16 text-muted-foreground bg-muted/5 rounded-xl border border-border">
+                        <p className="font-medium">{t("noCompletions")}</p>
+                    </div>
+                ) : (
+                    completions.map((completion) => (
+                        <PortfolioCompletionCard key={completion.id} completion={completion}/>
+                    ))
+                )}
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Single published completion in the portfolio.
+ */
+function PortfolioCompletionCard({completion}: { completion: ProjectCompletionWithDetails }) {
+    const t = useTranslations("portfolio");
+    const tRatings = useTranslations("completion.ratings");
+
+    return (
+        <Card className="shadow-sm border-border bg-surface">
+            <CardHeader>
+                <CardTitle>{completion.project.title}</CardTitle>
+                <CardDescription className="flex items-center gap-1.5">
+                    <Building className="w-3.5 h-3.5"/>
+                    {completion.project.organization.user.name}
+                    <span>·</span>
+                    {new Date(completion.completedAt).toLocaleDateString()}
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-5">
+                <p className="text-sm text-foreground whitespace-pre-line">{completion.roleDescription}</p>
+
+                {completion.keyAchievements.length > 0 && (
+                    <ul className="space-y-1.5">
+                        {completion.keyAchievements.map((achievement) => (
+                            <li key={achievement} className="flex items-start gap-2 text-sm">
+                                <Trophy className="w-3.5 h-3.5 text-primary shrink-0 mt-0.5"/>
+                                <span>{achievement}</span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+                    {completion.actualHoursWorked && (
+                        <span className="flex items-center gap-1.5">
+                            <Clock className="w-3.5 h-3.5 opacity-70"/>
+                            {t("hours", {count: completion.actualHoursWorked})}
+                        </span>
+                    )}
+                    {completion.actualDurationWeeks && (
+                        <span className="flex items-center gap-1.5">
+                            <CalendarRange className="w-3.5 h-3.5 opacity-70"/>
+                            {t("weeks", {count: completion.actualDurationWeeks})}
+                        </span>
+                    )}
+                    {completion.skillsDeveloped.length > 0 && (
+                        <span className="flex items-center gap-1.5">
+                            <Award className="w-3.5 h-3.5 opacity-70"/>
+                            {completion.skillsDeveloped.join(", ")}
+                        </span>
+                    )}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2 rounded-lg border border-border bg-muted/20 p-4">
+                        <div className="flex items-center justify-between gap-2">
+                            <h4 className="text-xs font-semibold tracking-wider text-muted-foreground uppercase">
+                                {t("coordinatorEvaluation")}
+                            </h4>
+                            {completion.coordinatorPerformanceRating && (
+                                <Badge variant="default">{tRatings(completion.coordinatorPerformanceRating)}</Badge>
+                            )}
+                        </div>
+                        <p className="text-sm text-foreground whitespace-pre-line">
+                            {completion.coordinatorWrittenEvaluation}
+                        </p>
+                        {completion.project.coordinator && (
+                            <p className="text-xs text-muted-foreground">
+                                — {completion.project.coordinator.user.name}
+                            </p>
+                        )}
+                    </div>
+                    <div className="space-y-2 rounded-lg border border-border bg-muted/20 p-4">
+                        <div className="flex items-center justify-between gap-2">
+                            <h4 className="text-xs font-semibold tracking-wider text-muted-foreground uppercase">
+                                {t("organizationEvaluation")}
+                            </h4>
+                            {completion.organizationPerformanceRating && (
+                                <Badge variant="default">{tRatings(completion.organizationPerformanceRating)}</Badge>
+                            )}
+                        </div>
+                        <p className="text-sm text-foreground whitespace-pre-line">
+                            {completion.organizationWrittenEvaluation}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                            — {completion.project.organization.user.name}
+                        </p>
+                    </div>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
@@ -1,7 +1,8 @@
 /** @format */
 "use client";
 
-import React, {useRef} from "react";
+import React, {useRef, useState} from "react";
+import {useTranslations} from "next-intl";
 import {
     User as UserIcon,
     Mail,
@@ -10,6 +11,7 @@ import {
     Trash2,
     FileText,
     AtSign,
+    Loader2,
 } from "lucide-react";
 import {Input} from "@/components/ui/input";
 import {Textarea} from "@/components/ui/textarea";
@@ -18,6 +20,8 @@ import {Avatar, AvatarFallback, AvatarImage} from "@/components/ui/avatar";
 import {Button} from "@/components/ui/button";
 import {ProfileSection} from "./base-profile";
 import type {User} from "@/lib/domain/user";
+import {ALLOWED_IMAGE_TYPES, IMAGE_RULES} from "@/lib/domain/storage";
+import {uploadImageFile} from "@/lib/utils/upload";
 import {toast} from "sonner";
 
 interface CommonUserFieldsProps {
@@ -33,32 +37,40 @@ export function CommonUserFields({
                                      isEditMode,
                                      t,
                                  }: CommonUserFieldsProps) {
+    const tErrors = useTranslations("errors.storage");
     const inputRef = useRef<HTMLInputElement>(null);
+    const [isUploading, setIsUploading] = useState(false);
 
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (file) processFile(file);
     };
 
-    const processFile = (file: File) => {
-        if (file.size > 4 * 1024 * 1024) {
-            toast.error("File is too large. Max size is 4MB.");
+    const processFile = async (file: File) => {
+        // Checked again by the server
+        if (file.size > IMAGE_RULES.avatar.maxBytes) {
+            toast.error(tErrors("fileTooLarge"));
             return;
         }
 
-        const reader = new FileReader();
-        reader.onloadend = () => {
-            const result = reader.result as string;
-            onChange("profilePictureUrl", result);
-        };
-        reader.onerror = () => {
-            toast.error("Failed to process image.");
-        };
-        reader.readAsDataURL(file);
+        setIsUploading(true);
+        try {
+            const result = await uploadImageFile(file, "avatar");
+            if (result.success) {
+                onChange("profilePictureUrl", result.data.url);
+            } else {
+                toast.error(result.error);
+            }
+        } catch {
+            toast.error(tErrors("failed"));
+        } finally {
+            setIsUploading(false);
+            if (inputRef.current) inputRef.current.value = "";
+        }
     };
 
     const triggerUpload = () => {
-        if (!isEditMode) return;
+        if (!isEditMode || isUploading) return;
         inputRef.current?.click();
     };
 
@@ -81,7 +93,7 @@ export function CommonUserFields({
                 <input
                     ref={inputRef}
                     type="file"
-                    accept="image/*"
+                    accept={ALLOWED_IMAGE_TYPES.join(",")}
                     className="hidden"
                     onChange={handleFileChange}
                     disabled={!isEditMode}
@@ -106,7 +118,14 @@ export function CommonUserFields({
                             </AvatarFallback>
                         </Avatar>
 
-                        {isEditMode && (
+                        {isUploading && (
+                            <div
+                                className="absolute inset-0 flex items-center justify-center bg-black/60 rounded-full">
+                                <Loader2 className="w-7 h-7 text-white animate-spin"/>
+                            </div>
+                        )}
+
+                        {isEditMode && !isUploading && (
                             <div
                                 className="absolute inset-0 flex flex-col items-center justify-center bg-black/60 rounded-full opacity-0 group-hover:opacity-100 transition-all duration-200 backdrop-blur-[2px]">
                                 <Camera className="w-7 h-7 text-white mb-1"/>
@@ -125,6 +144,7 @@ export function CommonUserFields({
                                 size="sm"
                                 className="text-xs h-8"
                                 onClick={triggerUpload}
+                                disabled={isUploading}
                             >
                                 <Upload className="w-3 h-3 mr-2"/>
                                 {t("actions.change") ?? "Change"}
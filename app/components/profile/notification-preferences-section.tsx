@@ -0,0 +1,87 @@
+/** @format */
+"use client";
+
+import React, {useState} from "react";
+import {useTranslations} from "next-intl";
+import {toast} from "sonner";
+import {Bell} from "lucide-react";
+import type {NotificationDelivery, NotificationPreferences, NotificationType} from "@/lib/domain/notification";
+import {updateMyNotificationPreference} from "@/lib/controller/notification-controller";
+import {Label} from "@/components/ui/label";
+import {Select, SelectContent, SelectItem, SelectTrigger, SelectValue} from "@/components/ui/select";
+import {ProfileSection} from "@/components/profile/base-profile";
+
+interface Props {
+    preferences: NotificationPreferences;
+    deliveries: typeof NotificationDelivery;
+}
+
+/**
+ * Profile section where users choose, per event type, whether they are emailed
+ * immediately, in the daily digest or only notified in the app.
+ * Each change is saved right away, independently of the profile edit mode.
+ */
+export function NotificationPreferencesSection({preferences, deliveries}: Props) {
+    const t = useTranslations("profile.notifications");
+    const tTypes = useTranslations("notifications.types");
+    const [values, setValues] = useState<NotificationPreferences>(preferences);
+    const [savingType, setSavingType] = useState<NotificationType | null>(null);
+
+    const handleChange = async (type: NotificationType, delivery: NotificationDelivery) => {
+        const previous = values[type];
+        setSavingType(type);
+        setValues((current) => ({...current, [type]: delivery}));
+        const result = await updateMyNotificationPreference(type, delivery);
+        setSavingType(null);
+
+        if (result.success) {
+            toast.success(t("saved"));
+        } else {
+            setValues((current) => ({...current, [type]: previous}));
+            toast.error(result.error);
+        }
+    };
+
+    const types = Object.keys(values) as NotificationType[];
+
+    return (
+        <ProfileSection title={t("title")} icon={Bell}>
+            <p className="text-xs text-muted-foreground">{t("description")}</p>
+            <div className="space-y-3">
+                {types.map((type) => (
+                    <div
+                        key={type}
+                        className="flex flex-col sm:flex-row sm:items-center justify-between border border-border bg-muted/20 p-4 rounded-lg gap-3 sm:gap-6"
+                    >
+                        <div className="space-y-0.5">
+                            <Label htmlFor={`delivery-${type}`} className="text-sm font-medium text-foreground">
+                                {tTypes(`${type}.title`)}
+                            </Label>
+                            <p className="text-xs text-muted-foreground">{t(`hints.${type}`)}</p>
+                        </div>
+                        <Select
+                            value={values[type]}
+                            onValueChange={(val) => handleChange(type, val as NotificationDelivery)}
+                            disabled={savingType === type}
+                        >
+                            <SelectTrigger id={`delivery-${type}`} className="w-full sm:w-[220px] h-10 bg-background border-input">
+                                <SelectValue/>
+                            </SelectTrigger>
+                            <SelectContent
+                                className="bg-background border-border shadow-xl z-50 isolate opacity-100"
+                                style={{backgroundColor: "var(--color-background, #ffffff)", opacity: 1}}
+                            >
+                                {Object.values(deliveries).map((delivery) => (
+                                    <SelectItem key={delivery} value={delivery}>
+                                        {t(`deliveries.${delivery}`)}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                ))}
+            </div>
+            <p className="text-[10px] text-muted-foreground">{t("account_emails_hint")}</p>
+        </ProfileSection>
+    );
+}
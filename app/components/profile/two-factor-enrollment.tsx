@@ -0,0 +1,188 @@
+/** @format */
+"use client";
+
+import React, {useState} from "react";
+import {useTranslations} from "next-intl";
+import {toast} from "sonner";
+import {Copy, Download, KeyRound, Loader2, QrCode} from "lucide-react";
+import type {TwoFactorEnrollment as Enrollment} from "@/lib/domain/two-factor";
+import {confirmTwoFactorEnrollment, startTwoFactorEnrollment} from "@/lib/controller/auth/two-factor-controller";
+import {Button} from "@/components/ui/button";
+import {Input} from "@/components/ui/input";
+import {Label} from "@/components/ui/label";
+
+interface TwoFactorEnrollmentProps {
+    /** Called once the user has enabled two-factor authentication and saved the recovery codes. */
+    onComplete: () => void;
+}
+
+/**
+ * Guides the user through enabling two-factor authentication:
+ * scanning the QR code, confirming a first code and saving the recovery codes.
+ * Used on the profile page and on the mandatory setup page.
+ */
+export function TwoFactorEnrollment({onComplete}: TwoFactorEnrollmentProps) {
+    const t = useTranslations("profile.twoFactor");
+    const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+    const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+    const [code, setCode] = useState("");
+    const [isLoading, setIsLoading] = useState(false);
+
+    const handleStart = async () => {
+        setIsLoading(true);
+        const result = await startTwoFactorEnrollment();
+        setIsLoading(false);
+
+        if (result.success) {
+            setEnrollment(result.data);
+        } else {
+            toast.error(result.error);
+        }
+    };
+
+    const handleConfirm = async (event: React.FormEvent<HTMLFormElement>) => {
+        event.preventDefault();
+        setIsLoading(true);
+        const result = await confirmTwoFactorEnrollment(code);
+        setIsLoading(false);
+
+        if (result.success) {
+            toast.success(t("setup.enabled"));
+            setRecoveryCodes(result.data.recoveryCodes);
+        } else {
+            toast.error(result.error);
+            setCode("");
+        }
+    };
+
+    if (recoveryCodes) {
+        return <RecoveryCodesPanel codes={recoveryCodes} onDone={onComplete}/>;
+    }
+
+    if (!enrollment) {
+        return (
+            <Button onClick={handleStart} disabled={isLoading} size="sm">
+                {isLoading
+                    ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/>
+                    : <QrCode className="mr-2 h-4 w-4"/>}
+                {t("setup.button")}
+            </Button>
+        );
+    }
+
+    return (
+        <form onSubmit={handleConfirm} className="space-y-4">
+            <div className="flex flex-col sm:flex-row gap-4 sm:items-center">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                    src={enrollment.qrCodeDataUrl}
+                    alt={t("setup.qrAlt")}
+                    width={180}
+                    height={180}
+                    className="rounded-lg border border-border bg-white p-2 shrink-0 self-center"
+                />
+                <div className="space-y-2 min-w-0">
+                    <p className="text-sm text-muted-foreground">{t("setup.scan")}</p>
+                    <p className="text-xs text-muted-foreground">{t("setup.manual")}</p>
+                    <code className="block break-all rounded bg-muted/50 px-2 py-1 text-xs font-mono">
+                        {enrollment.secret}
+                    </code>
+                </div>
+            </div>
+
+            <div className="space-y-2">
+                <Label htmlFor="two-factor-code">{t("setup.codeLabel")}</Label>
+                <Input
+                    id="two-factor-code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    placeholder="123456"
+                    maxLength={6}
+                    className="max-w-[200px] font-mono tracking-widest bg-background"
+                    disabled={isLoading}
+                    required
+                />
+            </div>
+
+            <div className="flex gap-2">
+                <Button type="submit" size="sm" disabled={isLoading || code.length < 6}>
+                    {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin"/>}
+                    {t("setup.confirm")}
+                </Button>
+                <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="border-muted"
+                    onClick={() => setEnrollment(null)}
+                    disabled={isLoading}
+                >
+                    {t("setup.cancel")}
+                </Button>
+            </div>
+        </form>
+    );
+}
+
+interface RecoveryCodesPanelProps {
+    codes: string[];
+    onDone: () => void;
+}
+
+/**
+ * Shows freshly issued recovery codes, which cannot be displayed again, with copy and download actions.
+ */
+export function RecoveryCodesPanel({codes, onDone}: RecoveryCodesPanelProps) {
+    const t = useTranslations("profile.twoFactor.recovery");
+
+    const handleCopy = async () => {
+        await navigator.clipboard.writeText(codes.join("\n"));
+        toast.success(t("copied"));
+    };
+
+    const handleDownload = () => {
+        const blob = new Blob([codes.join("\n") + "\n"], {type: "text/plain"});
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = "recovery-codes.txt";
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="space-y-4 rounded-lg border border-warning/30 bg-warning/5 p-4">
+            <div className="flex items-start gap-3">
+                <KeyRound className="h-5 w-5 text-warning shrink-0 mt-0.5"/>
+                <div className="space-y-1">
+                    <h4 className="text-sm font-semibold text-foreground">{t("title")}</h4>
+                    <p className="text-xs text-muted-foreground">{t("description")}</p>
+                </div>
+            </div>
+
+            <ul className="grid grid-cols-2 gap-2 font-mono text-sm">
+                {codes.map((code) => (
+                    <li key={code} className="rounded bg-background border border-border px-3 py-1.5 text-center">
+                        {code}
+                    </li>
+                ))}
+            </ul>
+
+            <div className="flex flex-wrap gap-2">
+                <Button type="button" variant="outline" size="sm" className="border-muted" onClick={handleCopy}>
+                    <Copy className="mr-2 h-4 w-4"/>
+                    {t("copy")}
+                </Button>
+                <Button type="button" variant="outline" size="sm" className="border-muted" onClick={handleDownload}>
+                    <Download className="mr-2 h-4 w-4"/>
+                    {t("download")}
+                </Button>
+                <Button type="button" size="sm" onClick={onDone}>
+                    {t("done")}
+                </Button>
+            </div>
+        </div>
+    );
+}
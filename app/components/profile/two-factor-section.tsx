@@ -0,0 +1,173 @@
+/** @format */
+"use client";
+
+import React, {useState} from "react";
+import {useRouter} from "next/navigation";
+import {useTranslations} from "next-intl";
+import {toast} from "sonner";
+import {Loader2, RefreshCw, ShieldCheck, ShieldOff} from "lucide-react";
+import type {TwoFactorStatus} from "@/lib/domain/two-factor";
+import {disableMyTwoFactor, regenerateMyRecoveryCodes} from "@/lib/controller/auth/two-factor-controller";
+import {ProfileSection} from "@/components/profile/base-profile";
+import {RecoveryCodesPanel, TwoFactorEnrollment} from "@/components/profile/two-factor-enrollment";
+import {Button} from "@/components/ui/button";
+import {Input} from "@/components/ui/input";
+import {Label} from "@/components/ui/label";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+
+interface Props {
+    status: TwoFactorStatus;
+}
+
+type CodeAction = "regenerate" | "disable";
+
+/**
+ * Profile section where users turn two-factor authentication on or off
+ * and replace their recovery codes. Both changes ask for a current code.
+ */
+export function TwoFactorSection({status}: Props) {
+    const t = useTranslations("profile.twoFactor");
+    const router = useRouter();
+    const [action, setAction] = useState<CodeAction | null>(null);
+    const [code, setCode] = useState("");
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+    const closeDialog = () => {
+        setAction(null);
+        setCode("");
+    };
+
+    const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+        event.preventDefault();
+        setIsSubmitting(true);
+
+        if (action === "regenerate") {
+            const result = await regenerateMyRecoveryCodes(code);
+            if (result.success) {
+                setRecoveryCodes(result.data.recoveryCodes);
+                closeDialog();
+            } else {
+                toast.error(result.error);
+            }
+        } else {
+            const result = await disableMyTwoFactor(code);
+            if (result.success) {
+                toast.success(t("disabled"));
+                closeDialog();
+                router.refresh();
+            } else {
+                toast.error(result.error);
+            }
+        }
+
+        setIsSubmitting(false);
+    };
+
+    return (
+        <ProfileSection title={t("title")} icon={ShieldCheck}>
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div className="space-y-1">
+                    <p className="text-xs text-muted-foreground">{t("description")}</p>
+                    {status.required && !status.enabled && (
+                        <p className="text-xs font-medium text-warning">{t("requiredHint")}</p>
+                    )}
+                </div>
+                <span
+                    className={`inline-flex shrink-0 items-center rounded-full px-2.5 py-0.5 text-xs font-medium ring-1 ${
+                        status.enabled
+                            ? "bg-success/10 text-success ring-success/20"
+                            : "bg-muted text-muted-foreground ring-border"
+                    }`}
+                >
+                    {status.enabled ? t("status.enabled") : t("status.disabled")}
+                </span>
+            </div>
+
+            {!status.enabled && <TwoFactorEnrollment onComplete={() => router.refresh()}/>}
+
+            {status.enabled && recoveryCodes && (
+                <RecoveryCodesPanel
+                    codes={recoveryCodes}
+                    onDone={() => {
+                        setRecoveryCodes(null);
+                        router.refresh();
+                    }}
+                />
+            )}
+
+            {status.enabled && !recoveryCodes && (
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 border border-border bg-muted/20 p-4 rounded-lg">
+                    <p className="text-sm text-muted-foreground">
+                        {t("recoveryCodesRemaining", {count: status.recoveryCodesRemaining})}
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                        <Button variant="outline" size="sm" className="border-muted" onClick={() => setAction("regenerate")}>
+                            <RefreshCw className="mr-2 h-4 w-4"/>
+                            {t("manage.regenerate")}
+                        </Button>
+                        {!status.required && (
+                            <Button
+                                variant="destructive"
+                                size="sm"
+                                className="bg-error hover:bg-error/90"
+                                onClick={() => setAction("disable")}
+                            >
+                                <ShieldOff className="mr-2 h-4 w-4"/>
+                                {t("manage.disable")}
+                            </Button>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            <Dialog open={action !== null} onOpenChange={(open) => !open && closeDialog()}>
+                <DialogContent className="bg-background border-border shadow-2xl sm:max-w-[425px] gap-6 z-[100]">
+                    <form onSubmit={handleSubmit} className="space-y-6">
+                        <DialogHeader className="gap-2">
+                            <DialogTitle className="text-xl font-bold tracking-tight">
+                                {action === "disable" ? t("confirm.disableTitle") : t("confirm.regenerateTitle")}
+                            </DialogTitle>
+                            <DialogDescription className="text-muted-foreground">
+                                {action === "disable" ? t("confirm.disableDescription") : t("confirm.regenerateDescription")}
+                            </DialogDescription>
+                        </DialogHeader>
+                        <div className="space-y-2">
+                            <Label htmlFor="two-factor-confirm-code">{t("confirm.codeLabel")}</Label>
+                            <Input
+                                id="two-factor-confirm-code"
+                                value={code}
+                                onChange={(e) => setCode(e.target.value)}
+                                autoComplete="one-time-code"
+                                className="font-mono tracking-widest bg-background"
+                                disabled={isSubmitting}
+                                required
+                            />
+                        </div>
+                        <DialogFooter className="gap-2 sm:gap-0">
+                            <Button type="button" variant="outline" onClick={closeDialog} className="mr-2 border-muted">
+                                {t("confirm.cancel")}
+                            </Button>
+                            <Button
+                                type="submit"
+                                variant={action === "disable" ? "destructive" : "default"}
+                                disabled={isSubmitting || !code.trim()}
+                                className={action === "disable" ? "bg-error hover:bg-error/90" : undefined}
+                            >
+                                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin"/>}
+                                {t("confirm.submit")}
+                            </Button>
+                        </DialogFooter>
+                    </form>
+                </DialogContent>
+            </Dialog>
+        </ProfileSection>
+    );
+}
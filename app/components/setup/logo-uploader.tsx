@@ -2,10 +2,12 @@
 "use client";
 
 import React, {useRef, useState, useEffect} from "react";
-import {Upload, X, ImageOff, ImagePlus} from "lucide-react";
+import {Upload, X, ImageOff, ImagePlus, Loader2} from "lucide-react";
 import {Button} from "@/components/ui/button";
 import {cn} from "@/lib/utils";
 import {useTranslations} from "next-intl";
+import {ALLOWED_IMAGE_TYPES, IMAGE_RULES} from "@/lib/domain/storage";
+import {uploadImageFile} from "@/lib/utils/upload";
 
 /**
  * Props for the LogoUploader component.
@@ -13,16 +15,17 @@ import {useTranslations} from "next-intl";
 interface LogoUploaderProps {
     /** The current logo value. If empty, the upload dropzone is shown. */
     value: string;
-    /** Callback returning the new base64 string (or "" on clear). */
-    onChange: (base64: string) => void;
+    /** Callback returning the URL of the uploaded logo (or "" on clear). */
+    onChange: (url: string) => void;
     /** Optional error state to visually indicate validation failure. */
     hasError?: boolean;
 }
 
 /**
- * A robust image uploader that handles Base64 conversion.
+ * A robust image uploader that stores the logo through the upload route.
  *
  * Features:
+ * - **Server-side Storage**: The image is resized on the server; only its URL is kept in the form.
  * - **Strict Validation**: Only renders preview if `value` is a non-empty string.
  * - **Error Handling**: Automatically reverts to upload state if the image src fails to load.
  * - **Drag & Drop**: Friendly UI for file selection with clear visual feedback.
@@ -32,6 +35,7 @@ export function LogoUploader({value, onChange, hasError}: LogoUploaderProps) {
     const inputRef = useRef<HTMLInputElement>(null);
     const [loadError, setLoadError] = useState(false);
     const [isDragging, setIsDragging] = useState(false);
+    const [isUploading, setIsUploading] = useState(false);
 
     useEffect(() => {
         setLoadError(false);
@@ -42,21 +46,29 @@ export function LogoUploader({value, onChange, hasError}: LogoUploaderProps) {
         processFile(file);
     };
 
-    const processFile = (file?: File) => {
-        if (!file) return;
+    const processFile = async (file?: File) => {
+        if (!file || isUploading) return;
 
-        // 2MB Limit
-        if (file.size > 2 * 1024 * 1024) {
+        // Checked again by the server
+        if (file.size > IMAGE_RULES.logo.maxBytes) {
             alert(t("file_too_large"));
             return;
         }
 
-        const reader = new FileReader();
-        reader.onloadend = () => {
-            const result = reader.result as string;
-            onChange(result);
-        };
-        reader.readAsDataURL(file);
+        setIsUploading(true);
+        try {
+            const result = await uploadImageFile(file, "logo");
+            if (result.success) {
+                onChange(result.data.url);
+            } else {
+                alert(result.error);
+            }
+        } catch {
+            alert(t("upload_failed"));
+        } finally {
+            setIsUploading(false);
+            if (inputRef.current) inputRef.current.value = "";
+        }
     };
 
     const clearLogo = () => {
@@ -101,14 +113,14 @@ export function LogoUploader({value, onChange, hasError}: LogoUploaderProps) {
             <input
                 ref={inputRef}
                 type="file"
-                accept="image/*"
+                accept={ALLOWED_IMAGE_TYPES.join(",")}
                 className="hidden"
                 onChange={handleFileChange}
             />
 
             {!hasValidLogo ? (
                 <div
-                    onClick={() => inputRef.current?.click()}
+                    onClick={() => !isUploading && inputRef.current?.click()}
                     onDragOver={handleDragOver}
                     onDragLeave={handleDragLeave}
                     onDrop={handleDrop}
@@ -129,7 +141,9 @@ export function LogoUploader({value, onChange, hasError}: LogoUploaderProps) {
                                 ? "bg-primary/10 text-primary"
                                 : "bg-background shadow-sm text-muted-foreground group-hover:text-primary"
                     )}>
-                        {loadError ? (
+                        {isUploading ? (
+                            <Loader2 className="w-5 h-5 animate-spin"/>
+                        ) : loadError ? (
                             <ImageOff className="w-5 h-5"/>
                         ) : isDragging ? (
                             <ImagePlus className="w-5 h-5"/>
@@ -142,7 +156,9 @@ export function LogoUploader({value, onChange, hasError}: LogoUploaderProps) {
                             "text-sm font-medium transition-colors",
                             hasError ? "text-destructive" : "text-foreground"
                         )}>
-                            {loadError ? t("error_load") : isDragging ? t("drop_here") : t("drag_drop")}
+                            {isUploading
+                                ? t("uploading")
+                                : loadError ? t("error_load") : isDragging ? t("drop_here") : t("drag_drop")}
                         </p>
                         <p className="text-xs text-muted-foreground mt-1">
                             {t("file_hint")}
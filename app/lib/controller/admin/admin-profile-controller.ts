@@ -7,7 +7,8 @@ import {AuthService} from "@/lib/service/auth-service"
 import {AdministratorService} from "@/lib/service/admin-service"
 import {createLogger} from "@/lib/utils/logger"
 import {ActionResponse} from "@/lib/domain/actions"
-import {UserRole} from "@/lib/domain/user"
+import {getProfilePictureUpdate, pickProfileUserFields, UserRole} from "@/lib/domain/user"
+import {isUploadedImageUrl} from "@/lib/domain/storage"
 import type {AdministratorUpdateType, AdministratorWithUser} from "@/lib/domain/administrator"
 
 const logger = createLogger("AdminProfileController")
@@ -62,10 +63,15 @@ export async function updateMyAdministratorProfile(
     try {
         const adminUser = await ensureAdmin(t)
 
+        const update = pickProfileUserFields(data)
+        if (!isUploadedImageUrl(getProfilePictureUpdate(update), "avatar")) {
+            return {success: false, error: t("errors.storage.notUploaded")}
+        }
+
         const updated =
             await AdministratorService.instance.updateAdministratorProfile(
                 adminUser.id,
-                data
+                update
             )
 
         return {success: true, data: updated}
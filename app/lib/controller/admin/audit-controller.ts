@@ -0,0 +1,157 @@
+/** @format */
+"use server"
+
+import {getTranslations} from 'next-intl/server'
+import {AuthService} from '@/lib/service/auth-service'
+import {AuditService} from '@/lib/service/audit-service'
+import {AuditEventFilterOptions} from '@/lib/repository/audit-event-repository'
+import {createLogger} from '@/lib/utils/logger'
+import {toCsv} from '@/lib/utils/csv'
+import {ActionResponse} from '@/lib/domain/actions'
+import {UserRole} from '@/lib/domain/user'
+import {AuditAction, AuditChanges, AuditEntityType, AuditEvent, AuditLogFilters} from '@/lib/domain/audit'
+import {PaginationParams, PaginationResult} from '@/lib/domain/pagination'
+
+const logger = createLogger('AuditController')
+
+/**
+ * Checks if the current session user has administrator privileges.
+ * Throws an error if authentication fails or if the role is insufficient.
+ *
+ * @param t - The translation function for error messages.
+ * @returns The authenticated admin user.
+ */
+async function ensureAdmin(t: Awaited<ReturnType<typeof getTranslations>>) {
+    const currentUser = await AuthService.instance.getCurrentUser()
+    if (!currentUser || currentUser.role !== UserRole.ADMINISTRATOR) {
+        throw new Error(t('errors.auth.admin_required'))
+    }
+    return currentUser
+}
+
+/**
+ * Parses a `YYYY-MM-DD` date from the filters; the end of the range includes the whole day.
+ */
+function parseDay(value: string | undefined, endOfDay: boolean): Date | undefined {
+    if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        return undefined
+    }
+    const date = new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z`)
+    return isNaN(date.getTime()) ? undefined : date
+}
+
+/**
+ * Converts the filters chosen on the audit page into repository filters, dropping invalid values.
+ */
+function toFilterOptions(filters: AuditLogFilters): AuditEventFilterOptions {
+    return {
+        actor: filters.actor?.trim() || undefined,
+        entity: filters.entity?.trim() || undefined,
+        entityType: Object.values(AuditEntityType).find((type) => type === filters.entityType),
+        action: Object.values(AuditAction).find((action) => action === filters.action),
+        from: parseDay(filters.from, false),
+        to: parseDay(filters.to, true),
+    }
+}
+
+/**
+ * Formats recorded changes as `field: from → to` for the CSV export.
+ */
+function formatChanges(changes: AuditEvent['changes']): string {
+    if (!changes || typeof changes !== 'object') {
+        return ''
+    }
+    return Object.entries(changes as AuditChanges)
+        .map(([field, {from, to}]) => `${field}: ${JSON.stringify(from)} → ${JSON.stringify(to)}`)
+        .join('; ')
+}
+
+/**
+ * Formats recorded details as `key=value` for the CSV export.
+ */
+function formatMetadata(metadata: AuditEvent['metadata']): string {
+    if (!metadata || typeof metadata !== 'object') {
+        return ''
+    }
+    return Object.entries(metadata)
+        .map(([key, value]) => `${key}=${value ?? ''}`)
+        .join('; ')
+}
+
+/**
+ * Retrieves a paginated list of audit log entries.
+ * Restricted to administrators.
+ *
+ * @param pageParams - Pagination configuration (page, pageSize).
+ * @param filters - Filtering criteria (actor, target, action, date range).
+ * @returns A response containing the paginated audit entries.
+ */
+export async function getAuditEvents(
+    pageParams: PaginationParams,
+    filters: AuditLogFilters = {}
+): Promise<ActionResponse<PaginationResult<AuditEvent>>> {
+    const t = await getTranslations()
+    try {
+        await ensureAdmin(t)
+
+        const result = await AuditService.instance.getAuditEvents(pageParams, toFilterOptions(filters))
+
+        return {success: true, data: result}
+    } catch (error) {
+        logger.error('Failed to fetch audit events', error as Error)
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+}
+
+/**
+ * Exports the audit log entries matching the filters as a CSV file.
+ * Restricted to administrators. The export is capped at the most recent entries.
+ *
+ * @param filters - Filtering criteria (actor, target, action, date range).
+ * @returns The file name and CSV contents.
+ */
+export async function exportAuditEvents(
+    filters: AuditLogFilters = {}
+): Promise<ActionResponse<{ fileName: string; content: string }>> {
+    const t = await getTranslations()
+    try {
+        await ensureAdmin(t)
+
+        const events = await AuditService.instance.getAuditEventsForExport(toFilterOptions(filters))
+
+        const content = toCsv(
+            [
+                t('admin.audit.columns.time'),
+                t('admin.audit.columns.actorName'),
+                t('admin.audit.columns.actorEmail'),
+                t('admin.audit.columns.action'),
+                t('admin.audit.columns.entityType'),
+                t('admin.audit.columns.entityId'),
+                t('admin.audit.columns.entityLabel'),
+                t('admin.audit.columns.changes'),
+                t('admin.audit.columns.details'),
+                t('admin.audit.columns.ipAddress'),
+            ],
+            events.map((event) => [
+                event.createdAt.toISOString(),
+                event.actorName,
+                event.actorEmail,
+                event.action,
+                event.entityType,
+                event.entityId,
+                event.entityLabel,
+                formatChanges(event.changes),
+                formatMetadata(event.metadata),
+                event.ipAddress,
+            ])
+        )
+
+        return {
+            success: true,
+            data: {fileName: `audit-log-${new Date().toISOString().slice(0, 10)}.csv`, content}
+        }
+    } catch (error) {
+        logger.error('Failed to export audit events', error as Error)
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+}
@@ -7,14 +7,17 @@ import {AuthService} from '@/lib/service/auth-service'
 import {ProjectService} from '@/lib/service/project-service'
 import {ApplicationService} from '@/lib/service/application-service'
 import {ProjectCompletionService} from '@/lib/service/project-completion-service'
+import {CoordinatorService} from '@/lib/service/coordinator-service'
 import {ProjectFilterOptions, ProjectSortField} from '@/lib/repository/project-repository'
 import {ApplicationFilterOptions, ApplicationSortField} from '@/lib/repository/application-repository'
 import {CompletionFilterOptions, CompletionSortField} from '@/lib/repository/project-completion-repository'
 import {createLogger} from '@/lib/utils/logger'
+import {getProjectTransitionErrorMessage, ProjectTransitionError} from '@/lib/utils/project-lifecycle'
 import {ActionResponse} from '@/lib/domain/actions'
-import {Project, ProjectStatus, ProjectUpdateType, ProjectWithDetails} from '@/lib/domain/project'
+import {Project, ProjectStatus, ProjectUpdateType, ProjectWithContacts} from '@/lib/domain/project'
 import {Application, ApplicationUpdateType} from '@/lib/domain/application'
 import {ProjectCompletion, ProjectCompletionUpdateType} from '@/lib/domain/project-completion'
+import {CoordinatorSuggestion} from '@/lib/domain/coordinator'
 import {PaginationParams, PaginationResult} from '@/lib/domain/pagination'
 import {UserRole} from "@/lib/domain/user";
 
@@ -75,12 +78,12 @@ export async function getProjectsWithDetails(
     pageParams: PaginationParams,
     filters: ProjectFilterOptions = {},
     sort: { field: ProjectSortField; direction: 'asc' | 'desc' } = {field: 'createdAt', direction: 'desc'}
-): Promise<ActionResponse<PaginationResult<ProjectWithDetails>>> {
+): Promise<ActionResponse<PaginationResult<ProjectWithContacts>>> {
     const t = await getTranslations()
     try {
         await ensureAdmin(t)
 
-        const result = await ProjectService.instance.getProjectsWithDetails(pageParams, filters, sort)
+        const result = await ProjectService.instance.getProjectsWithContacts(pageParams, filters, sort)
 
         return {success: true, data: result}
     } catch (error) {
@@ -100,11 +103,14 @@ export async function updateProject(id: string, data: ProjectUpdateType): Promis
     const t = await getTranslations()
     try {
         await ensureAdmin(t)
-        const updatedProject = await ProjectService.instance.updateProject(id, data)
+        const updatedProject = await ProjectService.instance.updateProject(id, data, UserRole.ADMINISTRATOR)
         revalidatePath('/admin/content')
         return {success: true, data: updatedProject}
     } catch (error) {
         logger.error('Failed to update project', error as Error)
+        if (error instanceof ProjectTransitionError) {
+            return {success: false, error: getProjectTransitionErrorMessage(t, error)}
+        }
         return {success: false, error: (error as Error).message || t('errors.unexpected')}
     }
 }
@@ -136,11 +142,71 @@ export async function archiveProject(projectId: string): Promise<ActionResponse<
     const t = await getTranslations()
     try {
         await ensureAdmin(t)
-        await ProjectService.instance.updateProject(projectId, {status: ProjectStatus.ARCHIVED})
+        await ProjectService.instance.updateProject(projectId, {status: ProjectStatus.ARCHIVED}, UserRole.ADMINISTRATOR)
         revalidatePath('/admin/content')
         return {success: true, data: undefined}
     } catch (error) {
         logger.error('Failed to archive project', error as Error)
+        if (error instanceof ProjectTransitionError) {
+            return {success: false, error: getProjectTransitionErrorMessage(t, error)}
+        }
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+}
+
+/**
+ * Suggests coordinators for a project awaiting review.
+ * Coordinators are ranked by how well their expertise and department match the
+ * project category and skills, then by how many active projects they hold.
+ *
+ * @param projectId - The ID of the project that needs a coordinator.
+ * @returns A response containing the ranked coordinator suggestions.
+ */
+export async function getCoordinatorSuggestions(projectId: string): Promise<ActionResponse<CoordinatorSuggestion[]>> {
+    const t = await getTranslations()
+    try {
+        await ensureAdmin(t)
+        const project = await ProjectService.instance.getProjectById(projectId)
+        if (!project) {
+            return {success: false, error: t('errors.project_not_found')}
+        }
+        const suggestions = await CoordinatorService.instance.getCoordinatorSuggestions(project)
+        return {success: true, data: suggestions}
+    } catch (error) {
+        logger.error('Failed to fetch coordinator suggestions', error as Error)
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+}
+
+/**
+ * Assigns a coordinator to a project awaiting review.
+ * Moves the project to COORDINATOR_ASSIGNED and notifies the coordinator.
+ *
+ * @param projectId - The ID of the project.
+ * @param coordinatorId - The ID of the coordinator profile to assign.
+ */
+export async function assignProjectCoordinator(projectId: string, coordinatorId: string): Promise<ActionResponse<Project>> {
+    const t = await getTranslations()
+    try {
+        await ensureAdmin(t)
+        const project = await ProjectService.instance.getProjectById(projectId)
+        if (!project) {
+            return {success: false, error: t('errors.project_not_found')}
+        }
+        if (project.status !== ProjectStatus.PENDING_REVIEW) {
+            return {success: false, error: t('errors.project.not_pending_review')}
+        }
+        if (!(await CoordinatorService.instance.isCoordinatorActive(coordinatorId))) {
+            return {success: false, error: t('errors.project.coordinator_unavailable')}
+        }
+        const updatedProject = await ProjectService.instance.assignCoordinator(projectId, coordinatorId)
+        revalidatePath('/dashboard/administrator/projects')
+        return {success: true, data: updatedProject}
+    } catch (error) {
+        logger.error('Failed to assign coordinator', error as Error)
+        if (error instanceof ProjectTransitionError) {
+            return {success: false, error: getProjectTransitionErrorMessage(t, error)}
+        }
         return {success: false, error: (error as Error).message || t('errors.unexpected')}
     }
 }
@@ -0,0 +1,88 @@
+/** @format */
+"use server"
+
+import {getTranslations} from 'next-intl/server'
+import {revalidatePath} from 'next/cache'
+import {AuthService} from '@/lib/service/auth-service'
+import {EmailService} from '@/lib/service/email-service'
+import {OutboundEmailFilterOptions} from '@/lib/repository/email-outbox-repository'
+import {createLogger} from '@/lib/utils/logger'
+import {ActionResponse} from '@/lib/domain/actions'
+import {UserRole} from '@/lib/domain/user'
+import {canResendOutboundEmail, OutboundEmailSummary} from '@/lib/domain/email-outbox'
+import {PaginationParams, PaginationResult} from '@/lib/domain/pagination'
+
+const logger = createLogger('EmailOutboxController')
+
+/**
+ * Checks if the current session user has administrator privileges.
+ * Throws an error if authentication fails or if the role is insufficient.
+ *
+ * @param t - The translation function for error messages.
+ * @returns The authenticated admin user.
+ */
+async function ensureAdmin(t: any) {
+    const currentUser = await AuthService.instance.getCurrentUser()
+    if (!currentUser || currentUser.role !== UserRole.ADMINISTRATOR) {
+        throw new Error(t('errors.auth.admin_required'))
+    }
+    return currentUser
+}
+
+/**
+ * Retrieves a paginated list of queued, failed and sent emails, without their bodies.
+ * Restricted to administrators.
+ *
+ * @param pageParams - Pagination configuration (page, pageSize).
+ * @param filters - Filtering criteria (status, search).
+ * @returns A response containing the paginated outbox entries.
+ */
+export async function getOutboundEmails(
+    pageParams: PaginationParams,
+    filters: OutboundEmailFilterOptions = {}
+): Promise<ActionResponse<PaginationResult<OutboundEmailSummary>>> {
+    const t = await getTranslations()
+    try {
+        await ensureAdmin(t)
+
+        const result = await EmailService.instance.getOutboxEmails(pageParams, filters)
+
+        return {success: true, data: result}
+    } catch (error) {
+        logger.error('Failed to fetch outbound emails', error as Error)
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+}
+
+/**
+ * Puts an email back into the queue and attempts to deliver it right away.
+ * Restricted to administrators. Emails carrying single-use links cannot be resent.
+ *
+ * @param id - The ID of the outbox entry.
+ * @returns A response containing the entry after the delivery attempt.
+ */
+export async function resendOutboundEmail(id: string): Promise<ActionResponse<OutboundEmailSummary>> {
+    const t = await getTranslations()
+    try {
+        await ensureAdmin(t)
+
+        const existing = await EmailService.instance.getOutboxEmail(id)
+        if (!existing) {
+            return {success: false, error: t('errors.email.not_found')}
+        }
+        if (!canResendOutboundEmail(existing)) {
+            return {success: false, error: t('errors.email.not_resendable')}
+        }
+
+        const email = await EmailService.instance.resend(id)
+        if (!email) {
+            throw new Error(t('errors.email.not_found'))
+        }
+
+        revalidatePath('/dashboard/administrator/emails')
+        return {success: true, data: email}
+    } catch (error) {
+        logger.error(`Failed to resend outbound email ${id}`, error as Error)
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+}
@@ -0,0 +1,199 @@
+/** @format */
+"use server"
+
+import {getTranslations} from 'next-intl/server'
+import {revalidatePath} from 'next/cache'
+import {AuthService} from '@/lib/service/auth-service'
+import {EmailService} from '@/lib/service/email-service'
+import {EmailTemplateService} from '@/lib/service/email-template-service'
+import {createLogger} from '@/lib/utils/logger'
+import {Locale, routing} from '@/lib/utils/i18n/routing'
+import {ActionResponse} from '@/lib/domain/actions'
+import {UserRole} from '@/lib/domain/user'
+import {
+    EmailTemplateContent,
+    EmailTemplateDetails,
+    EmailTemplateKey,
+    EmailTemplateSummary
+} from '@/lib/domain/email-template'
+
+const logger = createLogger('EmailTemplateController')
+
+/**
+ * Checks if the current session user has administrator privileges.
+ * Throws an error if authentication fails or if the role is insufficient.
+ *
+ * @param t - The translation function for error messages.
+ * @returns The authenticated admin user.
+ */
+async function ensureAdmin(t: any) {
+    const currentUser = await AuthService.instance.getCurrentUser()
+    if (!currentUser || currentUser.role !== UserRole.ADMINISTRATOR) {
+        throw new Error(t('errors.auth.admin_required'))
+    }
+    return currentUser
+}
+
+/**
+ * Validates a locale received from the client.
+ */
+function ensureValidLocale(t: any, locale: string): Locale {
+    if (!routing.locales.includes(locale as Locale)) {
+        throw new Error(t('errors.email_template.invalid'))
+    }
+    return locale as Locale
+}
+
+/**
+ * Validates a template key and locale received from the client.
+ */
+function ensureValidTemplate(t: any, key: EmailTemplateKey, locale: string): Locale {
+    if (!Object.values(EmailTemplateKey).includes(key)) {
+        throw new Error(t('errors.email_template.invalid'))
+    }
+    return ensureValidLocale(t, locale)
+}
+
+/**
+ * Validates edited template content.
+ */
+function ensureValidContent(t: any, content: EmailTemplateContent): EmailTemplateContent {
+    const subject = content.subject?.trim()
+    const html = content.html?.trim()
+    if (!subject || !html) {
+        throw new Error(t('errors.email_template.content_required'))
+    }
+    return {subject, html}
+}
+
+/**
+ * Lists the email templates of a locale with their customization state.
+ * Restricted to administrators.
+ *
+ * @param locale - The template locale.
+ * @returns A response containing one entry per template.
+ */
+export async function getEmailTemplates(locale: string): Promise<ActionResponse<EmailTemplateSummary[]>> {
+    const t = await getTranslations()
+    try {
+        await ensureAdmin(t)
+        const validLocale = ensureValidLocale(t, locale)
+
+        const templates = await EmailTemplateService.instance.getTemplates(validLocale)
+
+        return {success: true, data: templates}
+    } catch (error) {
+        logger.error('Failed to fetch email templates', error as Error)
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+}
+
+/**
+ * Retrieves a template with its built-in defaults for the editor.
+ * Restricted to administrators.
+ *
+ * @param key - The template key.
+ * @param locale - The template locale.
+ * @returns A response containing the template details.
+ */
+export async function getEmailTemplate(
+    key: EmailTemplateKey,
+    locale: string
+): Promise<ActionResponse<EmailTemplateDetails>> {
+    const t = await getTranslations()
+    try {
+        await ensureAdmin(t)
+        const validLocale = ensureValidTemplate(t, key, locale)
+
+        const template = await EmailTemplateService.instance.getTemplate(key, validLocale)
+
+        return {success: true, data: template}
+    } catch (error) {
+        logger.error(`Failed to fetch email template ${key}`, error as Error)
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+}
+
+/**
+ * Saves an override of a template for a locale.
+ * Restricted to administrators.
+ *
+ * @param key - The template key.
+ * @param locale - The template locale.
+ * @param content - The subject and HTML body with `{{variable}}` placeholders.
+ */
+export async function saveEmailTemplate(
+    key: EmailTemplateKey,
+    locale: string,
+    content: EmailTemplateContent
+): Promise<ActionResponse<void>> {
+    const t = await getTranslations()
+    try {
+        await ensureAdmin(t)
+        const validLocale = ensureValidTemplate(t, key, locale)
+
+        await EmailTemplateService.instance.saveTemplate(key, validLocale, ensureValidContent(t, content))
+
+        revalidatePath('/dashboard/administrator/email-templates')
+        return {success: true, data: undefined}
+    } catch (error) {
+        logger.error(`Failed to save email template ${key}`, error as Error)
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+}
+
+/**
+ * Removes the override of a template so the built-in template is used again.
+ * Restricted to administrators.
+ *
+ * @param key - The template key.
+ * @param locale - The template locale.
+ */
+export async function resetEmailTemplate(key: EmailTemplateKey, locale: string): Promise<ActionResponse<void>> {
+    const t = await getTranslations()
+    try {
+        await ensureAdmin(t)
+        const validLocale = ensureValidTemplate(t, key, locale)
+
+        await EmailTemplateService.instance.resetTemplate(key, validLocale)
+
+        revalidatePath('/dashboard/administrator/email-templates')
+        return {success: true, data: undefined}
+    } catch (error) {
+        logger.error(`Failed to reset email template ${key}`, error as Error)
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+}
+
+/**
+ * Sends the given, possibly unsaved, template content with example values to the current administrator.
+ * Restricted to administrators.
+ *
+ * @param key - The template key.
+ * @param locale - The template locale.
+ * @param content - The subject and HTML body to test.
+ */
+export async function sendTestEmailTemplate(
+    key: EmailTemplateKey,
+    locale: string,
+    content: EmailTemplateContent
+): Promise<ActionResponse<void>> {
+    const t = await getTranslations()
+    try {
+        const admin = await ensureAdmin(t)
+        const validLocale = ensureValidTemplate(t, key, locale)
+
+        await EmailService.instance.sendTemplateTestEmail(
+            admin.email,
+            admin.name,
+            key,
+            validLocale,
+            ensureValidContent(t, content)
+        )
+
+        return {success: true, data: undefined}
+    } catch (error) {
+        logger.error(`Failed to send test email for template ${key}`, error as Error)
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+}
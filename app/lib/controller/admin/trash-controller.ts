@@ -0,0 +1,157 @@
+/** @format */
+"use server"
+
+import {getTranslations} from 'next-intl/server'
+import {revalidatePath} from 'next/cache'
+import {AuthService} from '@/lib/service/auth-service'
+import {UserService} from '@/lib/service/user-service'
+import {ProjectService} from '@/lib/service/project-service'
+import {ConfigService} from '@/lib/service/config-service'
+import {createLogger} from '@/lib/utils/logger'
+import {ActionResponse} from '@/lib/domain/actions'
+import {UserRole} from '@/lib/domain/user'
+import {
+    DeletedProject,
+    DeletedUser,
+    getTrashPurgeDate,
+    resolveTrashRetentionDays,
+    TrashFilters,
+    TrashItem,
+    TrashPage
+} from '@/lib/domain/trash'
+import {PaginationParams} from '@/lib/domain/pagination'
+
+const logger = createLogger('TrashController')
+
+/**
+ * Checks if the current session user has administrator privileges.
+ * Throws an error if authentication fails or if the role is insufficient.
+ *
+ * @param t - The translation function for error messages.
+ * @returns The authenticated admin user.
+ */
+async function ensureAdmin(t: Awaited<ReturnType<typeof getTranslations>>) {
+    const currentUser = await AuthService.instance.getCurrentUser()
+    if (!currentUser || currentUser.role !== UserRole.ADMINISTRATOR) {
+        throw new Error(t('errors.auth.admin_required'))
+    }
+    return currentUser
+}
+
+/**
+ * Converts a deleted user into a trash entry.
+ */
+function toUserItem(user: DeletedUser, retentionDays: number): TrashItem {
+    return {
+        id: user.id,
+        type: 'users',
+        name: user.name,
+        detail: user.email,
+        role: user.role,
+        deletedAt: user.deletedAt!,
+        purgeAt: getTrashPurgeDate(user.deletedAt!, retentionDays),
+        restoredWithOrganization: false,
+    }
+}
+
+/**
+ * Converts a deleted project into a trash entry.
+ */
+function toProjectItem(project: DeletedProject, retentionDays: number): TrashItem {
+    return {
+        id: project.id,
+        type: 'projects',
+        name: project.title,
+        detail: project.organization.user.name,
+        role: null,
+        deletedAt: project.deletedAt!,
+        purgeAt: getTrashPurgeDate(project.deletedAt!, retentionDays),
+        restoredWithOrganization: project.organization.deletedAt !== null,
+    }
+}
+
+/**
+ * Retrieves a paginated list of deleted users or projects, most recently deleted first.
+ * Restricted to administrators.
+ *
+ * @param pageParams - Pagination configuration (page, pageSize).
+ * @param filters - The kind of entities to list and an optional search term.
+ * @returns A response containing the trash entries and the retention period.
+ */
+export async function getTrashItems(
+    pageParams: PaginationParams,
+    filters: TrashFilters = {}
+): Promise<ActionResponse<TrashPage>> {
+    const t = await getTranslations()
+    try {
+        await ensureAdmin(t)
+
+        const config = await ConfigService.instance.getConfig()
+        const retentionDays = resolveTrashRetentionDays(config?.trashRetentionDays)
+        const search = filters.search?.trim() || undefined
+
+        if (filters.type === 'projects') {
+            const result = await ProjectService.instance.getDeletedProjects(pageParams, search)
+            const items = result.items.map((project) => toProjectItem(project, retentionDays))
+            return {success: true, data: {...result, items, retentionDays}}
+        }
+
+        const result = await UserService.instance.getDeletedUsers(pageParams, search)
+        const items = result.items.map((user) => toUserItem(user, retentionDays))
+        return {success: true, data: {...result, items, retentionDays}}
+    } catch (error) {
+        logger.error('Failed to fetch trash', error as Error)
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+}
+
+/**
+ * Restores a user account from the trash, with the profile and projects deleted together with it.
+ * Restricted to administrators.
+ *
+ * @param userId - The ID of the user to restore.
+ * @returns A response indicating success or failure.
+ */
+export async function restoreUser(userId: string): Promise<ActionResponse<void>> {
+    const t = await getTranslations()
+    try {
+        await ensureAdmin(t)
+
+        const user = await UserService.instance.getDeletedUser(userId)
+        if (!user) return {success: false, error: t('errors.trash.user_not_found')}
+
+        await UserService.instance.restoreUser(userId)
+
+        revalidatePath('/dashboard/administrator/trash')
+        return {success: true, data: undefined}
+    } catch (error) {
+        logger.error('Failed to restore user', error as Error)
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+}
+
+/**
+ * Restores a project from the trash.
+ * Restricted to administrators. Projects of a deleted organization are restored with the organization.
+ *
+ * @param projectId - The ID of the project to restore.
+ * @returns A response indicating success or failure.
+ */
+export async function restoreProject(projectId: string): Promise<ActionResponse<void>> {
+    const t = await getTranslations()
+    try {
+        await ensureAdmin(t)
+
+        const project = await ProjectService.instance.getDeletedProject(projectId)
+        if (!project) return {success: false, error: t('errors.trash.project_not_found')}
+        if (project.organization.deletedAt) return {success: false, error: t('errors.trash.organization_deleted')}
+
+        await ProjectService.instance.restoreProject(projectId)
+
+        revalidatePath('/dashboard/administrator/trash')
+        return {success: true, data: undefined}
+    } catch (error) {
+        logger.error('Failed to restore project', error as Error)
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+}
@@ -12,7 +12,6 @@ import {User, UserRole, UserWithProfile} from '@/lib/domain/user'
 import {PaginationParams, PaginationResult} from '@/lib/domain/pagination'
 import {OrganizationWithUser} from "@/lib/domain/organization";
 import {OrganizationService} from "@/lib/service/organization-service";
-import {EmailService} from "@/lib/service/email-service";
 
 const logger = createLogger('UserManagementController')
 
@@ -113,11 +112,8 @@ export async function rejectOrganization(userId: string, reason: string): Promis
         const user = await UserService.instance.getUserById(userId)
         if (!user) return { success: false, error: t('errors.auth.user_not_found') }
 
-        // Send Rejection Email
-        await EmailService.instance.sendOrganizationRejected(user.email, user.name || 'Applicant', reason)
-
-        // Delete the account
-        await OrganizationService.instance.deleteOrganizationAccount(userId)
+        // Send the rejection email and delete the account
+        await OrganizationService.instance.rejectOrganization(userId, reason)
 
         revalidatePath('/administrator/users')
         revalidatePath('/administrator/organizations/pending')
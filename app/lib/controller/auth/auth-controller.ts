@@ -1,7 +1,7 @@
 "use server"
 
 import {redirect} from "next/navigation";
-import {getTranslations} from "next-intl/server";
+import {getLocale, getTranslations} from "next-intl/server";
 import {AuthService} from "@/lib/service/auth-service";
 import {RateLimitService} from "@/lib/service/rate-limit-service";
 import {SessionService} from "@/lib/service/session-service";
@@ -11,6 +11,8 @@ import {createLogger} from "@/lib/utils/logger";
 import {ActionResponse} from "@/lib/domain/actions";
 import {UserRole} from "@/lib/domain/user";
 import {UserService} from "@/lib/service/user-service";
+import {resolveLocale} from "@/lib/utils/i18n/routing";
+import {setLocaleCookie} from "@/lib/utils/i18n/locale-cookie";
 
 const logger = createLogger('AuthController');
 
@@ -45,7 +47,7 @@ export async function signUp(formData: FormData): Promise<ActionResponse<{ needs
 
     try {
         const clientIp = await getClientIp();
-        const rateLimitResult = RateLimitService.signupLimiter.check(3, clientIp);
+        const rateLimitResult = await RateLimitService.signupLimiter.check(clientIp);
 
         if (!rateLimitResult.success) {
             return {
@@ -73,7 +75,8 @@ export async function signUp(formData: FormData): Promise<ActionResponse<{ needs
             return {success: false, error: t('errors.validation.invalidRole')};
         }
 
-        const {user} = await authService.signUp({name, email, password, role}, clientIp);
+        const locale = resolveLocale(await getLocale());
+        const {user} = await authService.signUp({name, email, password, role, locale}, clientIp);
         await sessionService.createSession(user);
 
         return {success: true, data: {needsVerification: true}};
@@ -87,12 +90,13 @@ export async function signUp(formData: FormData): Promise<ActionResponse<{ needs
 /**
  * Signs in an existing user.
  *
- * Handles credential validation and session creation.
+ * Handles credential validation and session creation. Users with two-factor
+ * authentication are not signed in yet; they continue with {@link verifyTwoFactorSignIn}.
  *
  * @param {FormData} formData - Form data containing email and password.
- * @returns {Promise<ActionResponse<void>>} Success status or error message.
+ * @returns {Promise<ActionResponse<{ twoFactorRequired: boolean }>>} Whether a code is needed, or an error message.
  */
-export async function signIn(formData: FormData): Promise<ActionResponse<void>> {
+export async function signIn(formData: FormData): Promise<ActionResponse<{ twoFactorRequired: boolean }>> {
     const t = await getTranslations();
     const authService = AuthService.instance;
 
@@ -108,8 +112,11 @@ export async function signIn(formData: FormData): Promise<ActionResponse<void>>
             return {success: false, error: t('errors.validation.passwordRequired')};
         }
 
-        await authService.signIn({email, password}, clientIp);
-        return {success: true, data: undefined};
+        const {user, twoFactorRequired} = await authService.signIn({email, password}, clientIp);
+        if (!twoFactorRequired) {
+            await setLocaleCookie(resolveLocale(user.locale));
+        }
+        return {success: true, data: {twoFactorRequired}};
 
     } catch (error) {
         logger.error("Sign in error", error as Error);
@@ -117,6 +124,50 @@ export async function signIn(formData: FormData): Promise<ActionResponse<void>>
     }
 }
 
+/**
+ * Completes a two-factor sign-in with an authenticator or recovery code.
+ *
+ * @param {FormData} formData - Form data containing the code.
+ * @returns {Promise<ActionResponse<void>>} Success status or error message.
+ */
+export async function verifyTwoFactorSignIn(formData: FormData): Promise<ActionResponse<void>> {
+    const t = await getTranslations();
+    const authService = AuthService.instance;
+
+    try {
+        const code = (formData.get("code") as string)?.trim();
+
+        if (!code) {
+            return {success: false, error: t('errors.validation.twoFactorCodeRequired')};
+        }
+
+        const user = await authService.completeTwoFactorSignIn(code);
+        await setLocaleCookie(resolveLocale(user.locale));
+        return {success: true, data: undefined};
+
+    } catch (error) {
+        logger.error("Two-factor sign in error", error as Error);
+
+        switch ((error as Error).message) {
+            case 'auth.invalidTwoFactorCode':
+                return {success: false, error: t('errors.auth.invalidTwoFactorCode')};
+            case 'auth.twoFactorExpired':
+                return {success: false, error: t('errors.auth.twoFactorExpired')};
+            case 'auth.rateLimitExceeded':
+                return {success: false, error: t('errors.auth.tooManyAttempts')};
+            default:
+                return {success: false, error: t('errors.auth.signInFailed')};
+        }
+    }
+}
+
+/**
+ * Abandons a sign-in waiting for its two-factor code, e.g. to use another account.
+ */
+export async function cancelTwoFactorSignIn(): Promise<void> {
+    await SessionService.instance.clearTwoFactorChallenge();
+}
+
 /**
  * Signs out the current user.
  *
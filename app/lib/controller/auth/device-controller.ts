@@ -0,0 +1,74 @@
+/** @format */
+'use server'
+
+import {getTranslations} from 'next-intl/server'
+import {revalidatePath} from 'next/cache'
+import {redirect} from 'next/navigation'
+import {AuthService} from '@/lib/service/auth-service'
+import {SessionService} from '@/lib/service/session-service'
+import {ActionResponse} from '@/lib/domain/actions'
+import type {DeviceSession} from '@/lib/domain/session'
+import {createLogger} from '@/lib/utils/logger'
+
+const logger = createLogger('DeviceController')
+
+/**
+ * Ensures a user is signed in.
+ * Returns the authenticated user; the devices page is available to every role.
+ */
+async function ensureAuthenticated(t: Awaited<ReturnType<typeof getTranslations>>) {
+    const currentUser = await AuthService.instance.getCurrentUser()
+    if (!currentUser) {
+        throw new Error(t('errors.auth.notAuthenticated'))
+    }
+    return currentUser
+}
+
+/**
+ * Retrieves the devices the current user is signed in on.
+ */
+export async function getMyDeviceSessions(): Promise<ActionResponse<DeviceSession[]>> {
+    const t = await getTranslations()
+    try {
+        const user = await ensureAuthenticated(t)
+        const sessions = await SessionService.instance.getDeviceSessions(user.id)
+        return {success: true, data: sessions}
+    } catch (error) {
+        logger.error('Failed to fetch device sessions', error as Error)
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+}
+
+/**
+ * Signs one of the current user's devices out.
+ */
+export async function revokeMyDeviceSession(sessionId: string): Promise<ActionResponse<void>> {
+    const t = await getTranslations()
+    try {
+        const user = await ensureAuthenticated(t)
+        const revoked = await SessionService.instance.revokeSession(user.id, sessionId)
+        if (!revoked) {
+            throw new Error(t('errors.session.not_found'))
+        }
+        revalidatePath('/dashboard/devices')
+        return {success: true, data: undefined}
+    } catch (error) {
+        logger.error('Failed to revoke device session', error as Error)
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+}
+
+/**
+ * Signs the current user out on every device, including this one, and redirects to the login page.
+ */
+export async function signOutEverywhere(): Promise<ActionResponse<void>> {
+    const t = await getTranslations()
+    try {
+        const user = await ensureAuthenticated(t)
+        await SessionService.instance.revokeAllSessions(user.id)
+    } catch (error) {
+        logger.error('Failed to sign out everywhere', error as Error)
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+    redirect('/login')
+}
@@ -0,0 +1,71 @@
+/** @format */
+'use server'
+
+import {SsoService} from '@/lib/service/sso-service'
+import {ActionResponse} from '@/lib/domain/actions'
+import {SSO_ERROR_REASONS, SsoErrorReason, SsoProvider} from '@/lib/domain/sso'
+import {resolveLocale} from '@/lib/utils/i18n/routing'
+import {getLocaleCookie, setLocaleCookie} from '@/lib/utils/i18n/locale-cookie'
+import {createLogger} from '@/lib/utils/logger'
+
+const logger = createLogger('SsoController')
+
+/**
+ * Maps a service error to the reason shown on the login page.
+ */
+function toErrorReason(error: unknown): SsoErrorReason {
+    const reason = (error as Error).message?.replace(/^sso\./, '')
+    return SSO_ERROR_REASONS.includes(reason as SsoErrorReason) ? reason as SsoErrorReason : 'failed'
+}
+
+/**
+ * Retrieves the identity provider offered on the login page.
+ *
+ * @returns {Promise<SsoProvider | null>} The provider, or null if single sign-on is off.
+ */
+export async function getSsoProvider(): Promise<SsoProvider | null> {
+    try {
+        return await SsoService.instance.getProvider()
+    } catch (error) {
+        logger.error('Failed to load single sign-on provider', error as Error)
+        return null
+    }
+}
+
+/**
+ * Starts a single sign-on login.
+ * Called by the login route handler, so errors are reasons for the login page URL rather than messages.
+ *
+ * @returns {Promise<ActionResponse<{ authorizationUrl: string }>>} The provider URL, or an error reason.
+ */
+export async function startSsoLogin(): Promise<ActionResponse<{ authorizationUrl: string }>> {
+    try {
+        const authorizationUrl = await SsoService.instance.beginLogin()
+        return {success: true, data: {authorizationUrl}}
+    } catch (error) {
+        logger.error('Failed to start single sign-on', error as Error)
+        return {success: false, error: toErrorReason(error)}
+    }
+}
+
+/**
+ * Completes a single sign-on login on the provider's callback.
+ * Called by the callback route handler, so errors are reasons for the login page URL rather than messages.
+ *
+ * @param {object} params - The `code`, `state` and `error` query parameters of the callback.
+ * @returns {Promise<ActionResponse<{ twoFactorRequired: boolean }>>} Whether a code is needed, or an error reason.
+ */
+export async function completeSsoLogin(
+    params: { code: string | null; state: string | null; error: string | null }
+): Promise<ActionResponse<{ twoFactorRequired: boolean }>> {
+    try {
+        const {user, twoFactorRequired} = await SsoService.instance.completeLogin(params, await getLocaleCookie())
+        if (!twoFactorRequired) {
+            await setLocaleCookie(resolveLocale(user.locale))
+        }
+        return {success: true, data: {twoFactorRequired}}
+    } catch (error) {
+        logger.error('Single sign-on callback error', error as Error)
+        return {success: false, error: toErrorReason(error)}
+    }
+}
@@ -0,0 +1,139 @@
+/** @format */
+'use server'
+
+import {getTranslations} from 'next-intl/server'
+import {revalidatePath} from 'next/cache'
+import {AuthService} from '@/lib/service/auth-service'
+import {TwoFactorService} from '@/lib/service/two-factor-service'
+import {RateLimitService} from '@/lib/service/rate-limit-service'
+import {ActionResponse} from '@/lib/domain/actions'
+import type {TwoFactorEnrollment, TwoFactorStatus} from '@/lib/domain/two-factor'
+import {createLogger} from '@/lib/utils/logger'
+
+const logger = createLogger('TwoFactorController')
+
+/**
+ * Ensures a user is signed in.
+ * Returns the authenticated user; every role can protect its account with two-factor authentication,
+ * including staff who still have to complete a mandatory enrollment.
+ */
+async function ensureAuthenticated(t: Awaited<ReturnType<typeof getTranslations>>) {
+    const currentUser = await AuthService.instance.getCurrentUserForTwoFactorSetup()
+    if (!currentUser) {
+        throw new Error(t('errors.auth.notAuthenticated'))
+    }
+    return currentUser
+}
+
+/**
+ * Ensures the user has not used up their code attempts, shared with the sign-in step.
+ */
+async function ensureCodeAttemptAllowed(t: Awaited<ReturnType<typeof getTranslations>>, userId: string) {
+    const {success} = await RateLimitService.twoFactorLimiter.check(userId)
+    if (!success) {
+        throw new Error(t('errors.auth.tooManyAttempts'))
+    }
+}
+
+/**
+ * Retrieves the two-factor state of the current user.
+ */
+export async function getMyTwoFactorStatus(): Promise<ActionResponse<TwoFactorStatus>> {
+    const t = await getTranslations()
+    try {
+        const user = await ensureAuthenticated(t)
+        const status = await TwoFactorService.instance.getStatus(user)
+        return {success: true, data: status}
+    } catch (error) {
+        logger.error('Failed to fetch two-factor status', error as Error)
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+}
+
+/**
+ * Generates a new secret and QR code for the current user's authenticator app.
+ */
+export async function startTwoFactorEnrollment(): Promise<ActionResponse<TwoFactorEnrollment>> {
+    const t = await getTranslations()
+    try {
+        const user = await ensureAuthenticated(t)
+        const enrollment = await TwoFactorService.instance.beginEnrollment(user)
+        if (!enrollment) {
+            throw new Error(t('errors.twoFactor.already_enabled'))
+        }
+        return {success: true, data: enrollment}
+    } catch (error) {
+        logger.error('Failed to start two-factor enrollment', error as Error)
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+}
+
+/**
+ * Enables two-factor authentication once the user entered a code from their app.
+ * Returns the recovery codes, which are not retrievable afterwards.
+ */
+export async function confirmTwoFactorEnrollment(code: string): Promise<ActionResponse<{ recoveryCodes: string[] }>> {
+    const t = await getTranslations()
+    try {
+        const user = await ensureAuthenticated(t)
+        await ensureCodeAttemptAllowed(t, user.id)
+
+        const recoveryCodes = await TwoFactorService.instance.confirmEnrollment(user.id, code)
+        if (!recoveryCodes) {
+            throw new Error(t('errors.twoFactor.invalid_code'))
+        }
+
+        revalidatePath('/dashboard/profile')
+        return {success: true, data: {recoveryCodes}}
+    } catch (error) {
+        logger.error('Failed to confirm two-factor enrollment', error as Error)
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+}
+
+/**
+ * Replaces the current user's recovery codes, invalidating the old ones.
+ */
+export async function regenerateMyRecoveryCodes(code: string): Promise<ActionResponse<{ recoveryCodes: string[] }>> {
+    const t = await getTranslations()
+    try {
+        const user = await ensureAuthenticated(t)
+        await ensureCodeAttemptAllowed(t, user.id)
+
+        const recoveryCodes = await TwoFactorService.instance.regenerateRecoveryCodes(user.id, code)
+        if (!recoveryCodes) {
+            throw new Error(t('errors.twoFactor.invalid_code'))
+        }
+
+        revalidatePath('/dashboard/profile')
+        return {success: true, data: {recoveryCodes}}
+    } catch (error) {
+        logger.error('Failed to regenerate recovery codes', error as Error)
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+}
+
+/**
+ * Turns two-factor authentication off for the current user, unless the platform requires it for their role.
+ */
+export async function disableMyTwoFactor(code: string): Promise<ActionResponse<void>> {
+    const t = await getTranslations()
+    try {
+        const user = await ensureAuthenticated(t)
+        if (await TwoFactorService.instance.isRequired(user.role)) {
+            throw new Error(t('errors.twoFactor.required'))
+        }
+        await ensureCodeAttemptAllowed(t, user.id)
+
+        const disabled = await TwoFactorService.instance.disable(user.id, code)
+        if (!disabled) {
+            throw new Error(t('errors.twoFactor.invalid_code'))
+        }
+
+        revalidatePath('/dashboard/profile')
+        return {success: true, data: undefined}
+    } catch (error) {
+        logger.error('Failed to disable two-factor authentication', error as Error)
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+}
@@ -0,0 +1,33 @@
+/** @format */
+'use server'
+
+import {getTranslations} from 'next-intl/server'
+import {CertificateService} from '@/lib/service/certificate-service'
+import {ActionResponse} from '@/lib/domain/actions'
+import type {CertificateVerification} from '@/lib/domain/project-completion'
+import {createLogger} from '@/lib/utils/logger'
+
+// Initialize Logger
+const logger = createLogger('CertificateController')
+
+/**
+ * Verifies a certificate of completion by the code printed on it.
+ * Available without authentication so third parties can confirm a certificate is authentic.
+ *
+ * @param {string} verificationCode - The code printed on the certificate.
+ * @returns {Promise<ActionResponse<CertificateVerification>>} The certified completion details.
+ */
+export async function verifyCertificate(verificationCode: string): Promise<ActionResponse<CertificateVerification>> {
+    const t = await getTranslations('errors.certificate')
+
+    try {
+        const verification = await CertificateService.instance.verifyCertificate(verificationCode)
+        if (!verification) {
+            return {success: false, error: t('not_found')}
+        }
+        return {success: true, data: verification}
+    } catch (error) {
+        logger.error('Failed to verify certificate', error as Error)
+        return {success: false, error: t('verifyFailed')}
+    }
+}
@@ -0,0 +1,142 @@
+/** @format */
+"use server"
+
+import {getTranslations} from "next-intl/server"
+import {revalidatePath} from "next/cache"
+import {AuthService} from "@/lib/service/auth-service"
+import {CoordinatorService} from "@/lib/service/coordinator-service"
+import {ProjectCompletionService} from "@/lib/service/project-completion-service"
+import {createLogger} from "@/lib/utils/logger"
+import {
+    createCoordinatorEvaluationSchema,
+    getCompletionValidationErrorMessage
+} from "@/lib/utils/completion-validation"
+import type {CoordinatorEvaluationInput} from "@/lib/utils/completion-validation"
+import {ActionResponse} from "@/lib/domain/actions"
+import {UserRole} from "@/lib/domain/user"
+import {MIN_EVALUATION_LENGTH, PerformanceRating, ProjectCompletionStatus} from "@/lib/domain/project-completion"
+import type {ProjectCompletionWithDetails} from "@/lib/domain/project-completion"
+import {PaginationParams, PaginationResult} from "@/lib/domain/pagination"
+
+const logger = createLogger("CoordinatorCompletionsController")
+
+/**
+ * Ensures the current session user is a coordinator.
+ * Returns the authenticated coordinator profile.
+ */
+async function ensureCoordinator(t: any) {
+    const currentUser = await AuthService.instance.getCurrentUser()
+    if (!currentUser || currentUser.role !== UserRole.COORDINATOR) {
+        throw new Error(t("errors.auth.coordinator_required"))
+    }
+    const coordinator = await CoordinatorService.instance.getCoordinatorProfile(currentUser.id)
+    if (!coordinator) {
+        throw new Error(t("errors.auth.user_not_found"))
+    }
+    return coordinator
+}
+
+/**
+ * Loads a completion belonging to a project assigned to the coordinator.
+ * Throws a localized error if it does not exist or belongs to another coordinator's project.
+ */
+async function getAssignedCompletion(
+    t: any,
+    coordinatorId: string,
+    completionId: string
+): Promise<ProjectCompletionWithDetails> {
+    const completion = await ProjectCompletionService.instance.getProjectCompletionById(completionId)
+    if (!completion || completion.project.coordinatorId !== coordinatorId) {
+        throw new Error(t("errors.completion.not_found"))
+    }
+    return completion
+}
+
+/**
+ * Retrieves the paginated completions of projects assigned to the currently
+ * logged-in coordinator, optionally filtered by status.
+ */
+export async function getMyAssignedCompletions(
+    pageParams: PaginationParams,
+    status?: ProjectCompletionStatus
+): Promise<ActionResponse<PaginationResult<ProjectCompletionWithDetails>>> {
+    const t = await getTranslations()
+    try {
+        const coordinator = await ensureCoordinator(t)
+
+        const completions = await ProjectCompletionService.instance.getProjectCompletions(
+            pageParams,
+            {coordinatorId: coordinator.id, status}
+        )
+
+        return {success: true, data: completions}
+    } catch (error) {
+        logger.error("Failed to fetch coordinator completions", error as Error)
+        return {
+            success: false,
+            error: (error as Error).message || t("errors.unexpected"),
+        }
+    }
+}
+
+/**
+ * Retrieves a single completion of a project assigned to the currently logged-in coordinator.
+ */
+export async function getMyAssignedCompletionById(
+    id: string
+): Promise<ActionResponse<ProjectCompletionWithDetails>> {
+    const t = await getTranslations()
+    try {
+        const coordinator = await ensureCoordinator(t)
+        const completion = await getAssignedCompletion(t, coordinator.id, id)
+
+        return {success: true, data: completion}
+    } catch (error) {
+        logger.error("Failed to fetch coordinator completion", error as Error)
+        return {
+            success: false,
+            error: (error as Error).message || t("errors.unexpected"),
+        }
+    }
+}
+
+/**
+ * Submits the coordinator's academic evaluation of a draft completion.
+ * Moves the completion from DRAFT to COORDINATOR_REVIEWED, which notifies the student.
+ */
+export async function submitCoordinatorEvaluation(
+    id: string,
+    input: CoordinatorEvaluationInput
+): Promise<ActionResponse<ProjectCompletionWithDetails>> {
+    const t = await getTranslations()
+    try {
+        const coordinator = await ensureCoordinator(t)
+
+        const parsed = createCoordinatorEvaluationSchema(PerformanceRating, MIN_EVALUATION_LENGTH).safeParse(input)
+        if (!parsed.success) {
+            return {
+                success: false,
+                error: getCompletionValidationErrorMessage(t, parsed.error, MIN_EVALUATION_LENGTH),
+            }
+        }
+
+        const completion = await getAssignedCompletion(t, coordinator.id, id)
+        if (completion.status !== ProjectCompletionStatus.DRAFT) {
+            return {success: false, error: t("errors.completion.already_reviewed")}
+        }
+
+        const updated = await ProjectCompletionService.instance.updateProjectCompletion(id, {
+            ...parsed.data,
+            status: ProjectCompletionStatus.COORDINATOR_REVIEWED,
+        })
+
+        revalidatePath("/dashboard/evaluations")
+        return {success: true, data: updated}
+    } catch (error) {
+        logger.error("Failed to submit coordinator evaluation", error as Error)
+        return {
+            success: false,
+            error: (error as Error).message || t("errors.unexpected"),
+        }
+    }
+}
@@ -7,7 +7,8 @@ import {AuthService} from "@/lib/service/auth-service"
 import {CoordinatorService} from "@/lib/service/coordinator-service"
 import {createLogger} from "@/lib/utils/logger"
 import {ActionResponse} from "@/lib/domain/actions"
-import {UserRole} from "@/lib/domain/user"
+import {getProfilePictureUpdate, pickProfileUserFields, UserRole} from "@/lib/domain/user"
+import {isUploadedImageUrl} from "@/lib/domain/storage"
 import type {CoordinatorUpdateType, CoordinatorWithUser} from "@/lib/domain/coordinator"
 
 const logger = createLogger("CoordinatorProfileController")
@@ -62,10 +63,15 @@ export async function updateMyCoordinatorProfile(
     try {
         const coordinatorUser = await ensureCoordinator(t)
 
+        const update = pickProfileUserFields(data)
+        if (!isUploadedImageUrl(getProfilePictureUpdate(update), "avatar")) {
+            return {success: false, error: t("errors.storage.notUploaded")}
+        }
+
         const updated =
             await CoordinatorService.instance.updateCoordinatorProfile(
                 coordinatorUser.id,
-                data
+                update
             )
 
         return {success: true, data: updated}
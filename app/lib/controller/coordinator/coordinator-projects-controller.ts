@@ -0,0 +1,133 @@
+/** @format */
+"use server"
+
+import {getTranslations} from "next-intl/server"
+import {revalidatePath} from "next/cache"
+import {AuthService} from "@/lib/service/auth-service"
+import {CoordinatorService} from "@/lib/service/coordinator-service"
+import {ProjectService} from "@/lib/service/project-service"
+import {createLogger} from "@/lib/utils/logger"
+import {ProjectTransitionError, getProjectTransitionErrorMessage} from "@/lib/utils/project-lifecycle"
+import {ActionResponse} from "@/lib/domain/actions"
+import {UserRole} from "@/lib/domain/user"
+import {ProjectStatus} from "@/lib/domain/project"
+import type {Project, ProjectWithDetails} from "@/lib/domain/project"
+import {PaginationParams, PaginationResult} from "@/lib/domain/pagination"
+
+const logger = createLogger("CoordinatorProjectsController")
+
+/**
+ * Ensures the current session user is a coordinator.
+ * Returns the authenticated coordinator profile.
+ */
+async function ensureCoordinator(t: any) {
+    const currentUser = await AuthService.instance.getCurrentUser()
+    if (!currentUser || currentUser.role !== UserRole.COORDINATOR) {
+        throw new Error(t("errors.auth.coordinator_required"))
+    }
+    const coordinator = await CoordinatorService.instance.getCoordinatorProfile(currentUser.id)
+    if (!coordinator) {
+        throw new Error(t("errors.auth.user_not_found"))
+    }
+    return coordinator
+}
+
+/**
+ * Loads a project assigned to the coordinator.
+ * Throws a localized error if it does not exist or is assigned to someone else.
+ */
+async function getAssignedProject(t: any, coordinatorId: string, projectId: string): Promise<ProjectWithDetails> {
+    const project = await ProjectService.instance.getProjectById(projectId)
+    if (!project || project.coordinatorId !== coordinatorId) {
+        throw new Error(t("errors.project_not_found"))
+    }
+    return project
+}
+
+/**
+ * Retrieves the paginated review queue of the currently logged-in coordinator.
+ * Only projects assigned to the coordinator and awaiting review are returned,
+ * with the public fields of the organization's account (see `PUBLIC_USER_SELECT`).
+ */
+export async function getMyReviewQueue(
+    pageParams: PaginationParams,
+    search?: string
+): Promise<ActionResponse<PaginationResult<ProjectWithDetails>>> {
+    const t = await getTranslations()
+    try {
+        const coordinator = await ensureCoordinator(t)
+
+        const projects = await ProjectService.instance.getProjectsWithDetails(
+            pageParams,
+            {coordinatorId: coordinator.id, status: ProjectStatus.COORDINATOR_ASSIGNED, search},
+            {field: "createdAt", direction: "asc"}
+        )
+
+        return {success: true, data: projects}
+    } catch (error) {
+        logger.error("Failed to fetch coordinator review queue", error as Error)
+        return {
+            success: false,
+            error: (error as Error).message || t("errors.unexpected"),
+        }
+    }
+}
+
+/**
+ * Approves a project assigned to the currently logged-in coordinator and publishes it.
+ */
+export async function approveAssignedProject(projectId: string): Promise<ActionResponse<Project>> {
+    const t = await getTranslations()
+    try {
+        const coordinator = await ensureCoordinator(t)
+        await getAssignedProject(t, coordinator.id, projectId)
+
+        const project = await ProjectService.instance.approveProject(projectId)
+
+        revalidatePath("/dashboard/reviews")
+        return {success: true, data: project}
+    } catch (error) {
+        logger.error("Failed to approve project", error as Error)
+        if (error instanceof ProjectTransitionError) {
+            return {success: false, error: getProjectTransitionErrorMessage(t, error)}
+        }
+        return {
+            success: false,
+            error: (error as Error).message || t("errors.unexpected"),
+        }
+    }
+}
+
+/**
+ * Sends a project assigned to the currently logged-in coordinator back to its
+ * organization as a draft, with the requested changes as the rejection reason.
+ */
+export async function requestAssignedProjectChanges(
+    projectId: string,
+    reason: string
+): Promise<ActionResponse<Project>> {
+    const t = await getTranslations()
+    try {
+        const coordinator = await ensureCoordinator(t)
+
+        if (!reason.trim()) {
+            return {success: false, error: t("errors.project.reason_required")}
+        }
+
+        await getAssignedProject(t, coordinator.id, projectId)
+
+        const project = await ProjectService.instance.requestProjectChanges(projectId, reason.trim())
+
+        revalidatePath("/dashboard/reviews")
+        return {success: true, data: project}
+    } catch (error) {
+        logger.error("Failed to request project changes", error as Error)
+        if (error instanceof ProjectTransitionError) {
+            return {success: false, error: getProjectTransitionErrorMessage(t, error)}
+        }
+        return {
+            success: false,
+            error: (error as Error).message || t("errors.unexpected"),
+        }
+    }
+}
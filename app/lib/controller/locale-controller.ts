@@ -0,0 +1,45 @@
+/** @format */
+'use server'
+
+import {getTranslations} from 'next-intl/server'
+import {AuthService} from '@/lib/service/auth-service'
+import {UserService} from '@/lib/service/user-service'
+import {ActionResponse} from '@/lib/domain/actions'
+import {Locale, routing} from '@/lib/utils/i18n/routing'
+import {setLocaleCookie} from '@/lib/utils/i18n/locale-cookie'
+import {createLogger} from '@/lib/utils/logger'
+
+const logger = createLogger('LocaleController')
+
+/**
+ * Ensures a user is signed in.
+ * Returns the authenticated user; every role can choose its language.
+ */
+async function ensureAuthenticated(t: Awaited<ReturnType<typeof getTranslations>>) {
+    const currentUser = await AuthService.instance.getCurrentUser()
+    if (!currentUser) {
+        throw new Error(t('errors.auth.notAuthenticated'))
+    }
+    return currentUser
+}
+
+/**
+ * Stores the preferred language of the current user.
+ * The language is used for the interface and for every email sent to the user.
+ */
+export async function updateMyLocale(locale: string): Promise<ActionResponse<void>> {
+    const t = await getTranslations()
+    try {
+        const user = await ensureAuthenticated(t)
+        if (!routing.locales.includes(locale as Locale)) {
+            throw new Error(t('errors.validation.invalidLocale'))
+        }
+
+        await UserService.instance.updateUser(user.id, {locale})
+        await setLocaleCookie(locale as Locale)
+        return {success: true, data: undefined}
+    } catch (error) {
+        logger.error('Failed to update locale', error as Error)
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+}
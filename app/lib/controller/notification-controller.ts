@@ -0,0 +1,130 @@
+/** @format */
+'use server'
+
+import {getTranslations} from 'next-intl/server'
+import {revalidatePath} from 'next/cache'
+import {AuthService} from '@/lib/service/auth-service'
+import {NotificationService} from '@/lib/service/notification-service'
+import {ActionResponse} from '@/lib/domain/actions'
+import type {Notification, NotificationPreferences, NotificationSummary} from '@/lib/domain/notification'
+import {NOTIFICATION_TYPES_BY_ROLE, NotificationDelivery, NotificationType} from '@/lib/domain/notification'
+import {PaginationParams, PaginationResult} from '@/lib/domain/pagination'
+import {createLogger} from '@/lib/utils/logger'
+
+const logger = createLogger('NotificationController')
+
+/**
+ * Ensures a user is signed in.
+ * Returns the authenticated user; notifications are available to every role.
+ */
+async function ensureAuthenticated(t: any) {
+    const currentUser = await AuthService.instance.getCurrentUser()
+    if (!currentUser) {
+        throw new Error(t('errors.auth.notAuthenticated'))
+    }
+    return currentUser
+}
+
+/**
+ * Retrieves the unread count and latest notifications of the current user.
+ */
+export async function getMyNotificationSummary(): Promise<ActionResponse<NotificationSummary>> {
+    const t = await getTranslations()
+    try {
+        const user = await ensureAuthenticated(t)
+        const summary = await NotificationService.instance.getSummary(user.id)
+        return {success: true, data: summary}
+    } catch (error) {
+        logger.error('Failed to fetch notification summary', error as Error)
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+}
+
+/**
+ * Retrieves a paginated history of the current user's notifications.
+ */
+export async function getMyNotifications(
+    pageParams: PaginationParams,
+    unreadOnly?: boolean
+): Promise<ActionResponse<PaginationResult<Notification>>> {
+    const t = await getTranslations()
+    try {
+        const user = await ensureAuthenticated(t)
+        const result = await NotificationService.instance.getNotifications(user.id, pageParams, {unreadOnly})
+        return {success: true, data: result}
+    } catch (error) {
+        logger.error('Failed to fetch notifications', error as Error)
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+}
+
+/**
+ * Marks one of the current user's notifications as read.
+ */
+export async function markNotificationRead(id: string): Promise<ActionResponse<void>> {
+    const t = await getTranslations()
+    try {
+        const user = await ensureAuthenticated(t)
+        await NotificationService.instance.markAsRead(id, user.id)
+        revalidatePath('/dashboard/notifications')
+        return {success: true, data: undefined}
+    } catch (error) {
+        logger.error('Failed to mark notification as read', error as Error)
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+}
+
+/**
+ * Marks all of the current user's notifications as read.
+ */
+export async function markAllNotificationsRead(): Promise<ActionResponse<void>> {
+    const t = await getTranslations()
+    try {
+        const user = await ensureAuthenticated(t)
+        await NotificationService.instance.markAllAsRead(user.id)
+        revalidatePath('/dashboard/notifications')
+        return {success: true, data: undefined}
+    } catch (error) {
+        logger.error('Failed to mark all notifications as read', error as Error)
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+}
+
+/**
+ * Retrieves the email delivery preferences of the current user.
+ */
+export async function getMyNotificationPreferences(): Promise<ActionResponse<NotificationPreferences>> {
+    const t = await getTranslations()
+    try {
+        const user = await ensureAuthenticated(t)
+        const preferences = await NotificationService.instance.getPreferences(user.id, user.role)
+        return {success: true, data: preferences}
+    } catch (error) {
+        logger.error('Failed to fetch notification preferences', error as Error)
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+}
+
+/**
+ * Updates how the current user is emailed about one event type.
+ */
+export async function updateMyNotificationPreference(
+    type: NotificationType,
+    delivery: NotificationDelivery
+): Promise<ActionResponse<void>> {
+    const t = await getTranslations()
+    try {
+        const user = await ensureAuthenticated(t)
+        if (!NOTIFICATION_TYPES_BY_ROLE[user.role].includes(type) ||
+            !Object.values(NotificationDelivery).includes(delivery)) {
+            throw new Error(t('errors.notification.invalid_preference'))
+        }
+
+        await NotificationService.instance.updatePreference(user.id, type, delivery)
+        revalidatePath('/dashboard/profile')
+        return {success: true, data: undefined}
+    } catch (error) {
+        logger.error('Failed to update notification preference', error as Error)
+        return {success: false, error: (error as Error).message || t('errors.unexpected')}
+    }
+}
@@ -0,0 +1,146 @@
+/** @format */
+"use server";
+
+import { getTranslations } from "next-intl/server";
+import { revalidatePath } from "next/cache";
+import { AuthService } from "@/lib/service/auth-service";
+import { ProjectService } from "@/lib/service/project-service";
+import { ApplicationService } from "@/lib/service/application-service";
+import { OrganizationService } from "@/lib/service/organization-service";
+import { createLogger } from "@/lib/utils/logger";
+import { ActionResponse } from "@/lib/domain/actions";
+import { UserRole } from "@/lib/domain/user";
+import { ApplicationReviewError, ApplicationStatus } from "@/lib/domain/application";
+import type { ApplicationWithDetails } from "@/lib/domain/application";
+import type { ProjectWithApplications } from "@/lib/domain/project";
+
+const logger = createLogger("OrganizationApplicationsController");
+
+/**
+ * Ensures the current session user is an organization.
+ * Returns the authenticated organization profile.
+ */
+async function ensureOrganization(t: any) {
+  const currentUser = await AuthService.instance.getCurrentUser();
+  if (!currentUser || currentUser.role !== UserRole.ORGANIZATION) {
+    throw new Error(t("errors.auth.organization_required"));
+  }
+  const organization = await OrganizationService.instance.getOrganizationProfile(currentUser.id);
+  if (!organization) {
+    throw new Error(t("errors.auth.organization_profile_not_found"));
+  }
+  return organization;
+}
+
+/**
+ * Loads a pending application that belongs to one of the organization's projects.
+ * Throws a localized error if it does not exist, is owned by another organization,
+ * or has already been reviewed.
+ */
+async function getReviewableApplication(
+  t: any,
+  organizationId: string,
+  applicationId: string
+): Promise<ApplicationWithDetails> {
+  const application = await ApplicationService.instance.getApplicationWithDetails(applicationId);
+  if (!application || application.project.organizationId !== organizationId) {
+    throw new Error(t("errors.application.not_found"));
+  }
+  if (application.status !== ApplicationStatus.PENDING) {
+    throw new Error(t("errors.application.already_reviewed"));
+  }
+  return application;
+}
+
+/**
+ * Retrieves a project of the currently logged-in organization with all of its applicants.
+ */
+export async function getMyProjectApplications(
+  projectId: string
+): Promise<ActionResponse<ProjectWithApplications>> {
+  const t = await getTranslations();
+  try {
+    const organization = await ensureOrganization(t);
+
+    const project = await ProjectService.instance.getProjectWithApplications(projectId);
+    if (!project || project.organizationId !== organization.id) {
+      return { success: false, error: t("errors.project_not_found") };
+    }
+
+    return { success: true, data: project };
+  } catch (error) {
+    logger.error("Failed to fetch project applications", error as Error);
+    return {
+      success: false,
+      error: (error as Error).message || t("errors.unexpected"),
+    };
+  }
+}
+
+/**
+ * Accepts a pending application to one of the organization's published projects.
+ * Blocked once the project has accepted `numberOfStudents` applicants.
+ */
+export async function acceptProjectApplication(
+  applicationId: string
+): Promise<ActionResponse<ApplicationWithDetails>> {
+  const t = await getTranslations();
+  try {
+    const organization = await ensureOrganization(t);
+    const application = await getReviewableApplication(t, organization.id, applicationId);
+
+    const accepted = await ApplicationService.instance.acceptApplication(
+      applicationId,
+      organization.userId
+    );
+
+    revalidatePath(`/dashboard/projects/${application.projectId}`);
+    return { success: true, data: accepted };
+  } catch (error) {
+    logger.error("Failed to accept application", error as Error);
+    if (error instanceof ApplicationReviewError) {
+      return { success: false, error: t(error.message, { count: error.capacity }) };
+    }
+    return {
+      success: false,
+      error: (error as Error).message || t("errors.unexpected"),
+    };
+  }
+}
+
+/**
+ * Rejects a pending application to one of the organization's projects with a reason.
+ */
+export async function rejectProjectApplication(
+  applicationId: string,
+  reason: string
+): Promise<ActionResponse<ApplicationWithDetails>> {
+  const t = await getTranslations();
+  try {
+    const organization = await ensureOrganization(t);
+
+    if (!reason.trim()) {
+      return { success: false, error: t("errors.application.reason_required") };
+    }
+
+    const application = await getReviewableApplication(t, organization.id, applicationId);
+
+    const rejected = await ApplicationService.instance.rejectApplication(
+      applicationId,
+      organization.userId,
+      reason.trim()
+    );
+
+    revalidatePath(`/dashboard/projects/${application.projectId}`);
+    return { success: true, data: rejected };
+  } catch (error) {
+    logger.error("Failed to reject application", error as Error);
+    if (error instanceof ApplicationReviewError) {
+      return { success: false, error: t(error.message, { count: error.capacity }) };
+    }
+    return {
+      success: false,
+      error: (error as Error).message || t("errors.unexpected"),
+    };
+  }
+}
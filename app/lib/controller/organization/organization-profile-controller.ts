@@ -7,7 +7,8 @@ import {AuthService} from "@/lib/service/auth-service"
 import {OrganizationService} from "@/lib/service/organization-service"
 import {createLogger} from "@/lib/utils/logger"
 import {ActionResponse} from "@/lib/domain/actions"
-import {UserRole} from "@/lib/domain/user"
+import {getProfilePictureUpdate, pickProfileUserFields, UserRole} from "@/lib/domain/user"
+import {isUploadedImageUrl} from "@/lib/domain/storage"
 import type {OrganizationUpdateType, OrganizationWithUser} from "@/lib/domain/organization"
 
 const logger = createLogger("OrganizationProfileController")
@@ -62,10 +63,15 @@ export async function updateMyOrganizationProfile(
     try {
         const organizationUser = await ensureOrganization(t)
 
+        const update = pickProfileUserFields(data)
+        if (!isUploadedImageUrl(getProfilePictureUpdate(update), "avatar")) {
+            return {success: false, error: t("errors.storage.notUploaded")}
+        }
+
         const updated =
             await OrganizationService.instance.updateOrganizationProfile(
                 organizationUser.id,
-                data
+                update
             )
 
         return {success: true, data: updated}
@@ -1,14 +1,57 @@
 /** @format */
 "use server";
 
-import {getCurrentUser} from "@/lib/controller/auth/session-controller";
-import {UserRole} from "@/lib/domain/user";
-import {ProjectCompletionService} from "@/lib/service/project-completion-service";
-import {ProjectCompletionStatus} from "@/lib/domain/project-completion";
-import type {ProjectCompletionUpdateType} from "@/lib/domain/project-completion";
+import {getTranslations} from "next-intl/server";
 import {revalidatePath} from "next/cache";
-import {CompletionFilterOptions} from "@/lib/repository/project-completion-repository";
+import {AuthService} from "@/lib/service/auth-service";
 import {OrganizationService} from "@/lib/service/organization-service";
+import {ProjectCompletionService} from "@/lib/service/project-completion-service";
+import {createLogger} from "@/lib/utils/logger";
+import {
+    createOrganizationEvaluationSchema,
+    getCompletionValidationErrorMessage
+} from "@/lib/utils/completion-validation";
+import type {OrganizationEvaluationInput} from "@/lib/utils/completion-validation";
+import {ActionResponse} from "@/lib/domain/actions";
+import {UserRole} from "@/lib/domain/user";
+import {MIN_EVALUATION_LENGTH, PerformanceRating, ProjectCompletionStatus} from "@/lib/domain/project-completion";
+import type {ProjectCompletionWithDetails} from "@/lib/domain/project-completion";
+import {PaginationResult} from "@/lib/domain/pagination";
+import {CompletionFilterOptions} from "@/lib/repository/project-completion-repository";
+
+const logger = createLogger("OrganizationProjectCompletionsController");
+
+/**
+ * Ensures the current session user is an organization.
+ * Returns the authenticated organization profile.
+ */
+async function ensureOrganization(t: any) {
+    const currentUser = await AuthService.instance.getCurrentUser();
+    if (!currentUser || currentUser.role !== UserRole.ORGANIZATION) {
+        throw new Error(t("errors.auth.organization_required"));
+    }
+    const organization = await OrganizationService.instance.getOrganizationProfile(currentUser.id);
+    if (!organization) {
+        throw new Error(t("errors.auth.user_not_found"));
+    }
+    return organization;
+}
+
+/**
+ * Loads a completion of one of the organization's projects.
+ * Throws a localized error if it does not exist or belongs to another organization's project.
+ */
+async function getOwnCompletion(
+    t: any,
+    organizationId: string,
+    completionId: string
+): Promise<ProjectCompletionWithDetails> {
+    const completion = await ProjectCompletionService.instance.getProjectCompletionById(completionId);
+    if (!completion || completion.project.organizationId !== organizationId) {
+        throw new Error(t("errors.completion.not_found"));
+    }
+    return completion;
+}
 
 /**
  * Retrieves all project completions for the current organization that are ready for organization review.
@@ -23,56 +66,94 @@ export async function getOrganizationProjectCompletions(
     page: number = 1,
     pageSize: number = 10,
     filters: CompletionFilterOptions = {}
-) {
+): Promise<ActionResponse<PaginationResult<ProjectCompletionWithDetails>>> {
+    const t = await getTranslations();
     try {
-        const user = await getCurrentUser();
-        if (!user || user.role !== UserRole.ORGANIZATION) {
-            return {success: false, error: "Unauthorized"};
-        }
-
-        const organization = await OrganizationService.instance.getOrganizationProfile(user.id)
-        if (!organization || !organization.id) {
-            return {success: false, error: "Organization not found"};
-        }
+        const organization = await ensureOrganization(t);
 
         const result = await ProjectCompletionService.instance.getByOrganizationId(
             organization.id,
-            page, 
-            pageSize, 
+            page,
+            pageSize,
             ProjectCompletionStatus.COORDINATOR_REVIEWED,
             filters
         );
 
         return {success: true, data: result};
     } catch (error) {
-        console.error("Failed to fetch organization project completions:", error);
-        return {success: false, error: "Failed to fetch project completions"};
+        logger.error("Failed to fetch organization project completions", error as Error);
+        return {
+            success: false,
+            error: (error as Error).message || t("errors.unexpected"),
+        };
     }
 }
 
 /**
- * Updates a project completion review by the organization.
+ * Retrieves a single completion of one of the current organization's projects.
+ */
+export async function getOrganizationProjectCompletionById(
+    id: string
+): Promise<ActionResponse<ProjectCompletionWithDetails>> {
+    const t = await getTranslations();
+    try {
+        const organization = await ensureOrganization(t);
+        const completion = await getOwnCompletion(t, organization.id, id);
+
+        return {success: true, data: completion};
+    } catch (error) {
+        logger.error("Failed to fetch organization project completion", error as Error);
+        return {
+            success: false,
+            error: (error as Error).message || t("errors.unexpected"),
+        };
+    }
+}
+
+/**
+ * Submits the organization's partner evaluation of a completion reviewed by the coordinator.
+ * Moves the completion from COORDINATOR_REVIEWED to ORGANIZATION_REVIEWED, or straight to
+ * PUBLISHED, which adds it to the student's portfolio, makes the certificate available
+ * and notifies the student.
  *
  * @param id - The ID of the project completion.
- * @param data - The update data (review, grade, etc.).
+ * @param input - The rating, written evaluation and requested status.
  * @returns The updated project completion.
  */
 export async function updateOrganizationProjectCompletion(
     id: string,
-    data: ProjectCompletionUpdateType
-) {
+    input: OrganizationEvaluationInput
+): Promise<ActionResponse<ProjectCompletionWithDetails>> {
+    const t = await getTranslations();
     try {
-        const user = await getCurrentUser();
-        if (!user || user.role !== UserRole.ORGANIZATION) {
-            return {success: false, error: "Unauthorized"};
+        const organization = await ensureOrganization(t);
+
+        const parsed = createOrganizationEvaluationSchema(
+            PerformanceRating,
+            ProjectCompletionStatus,
+            MIN_EVALUATION_LENGTH
+        ).safeParse(input);
+        if (!parsed.success) {
+            return {
+                success: false,
+                error: getCompletionValidationErrorMessage(t, parsed.error, MIN_EVALUATION_LENGTH),
+            };
         }
 
-        const result = await ProjectCompletionService.instance.update(id, data);
-        
+        const completion = await getOwnCompletion(t, organization.id, id);
+        if (completion.status !== ProjectCompletionStatus.COORDINATOR_REVIEWED) {
+            return {success: false, error: t("errors.completion.not_awaiting_organization_review")};
+        }
+
+        const updated = await ProjectCompletionService.instance.updateProjectCompletion(id, parsed.data);
+
         revalidatePath("/dashboard/completions");
-        return {success: true, data: result};
+        return {success: true, data: updated};
     } catch (error) {
-        console.error("Failed to update project completion:", error);
-        return {success: false, error: "Failed to update project completion"};
+        logger.error("Failed to submit organization evaluation", error as Error);
+        return {
+            success: false,
+            error: (error as Error).message || t("errors.unexpected"),
+        };
     }
 }
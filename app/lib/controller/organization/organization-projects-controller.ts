@@ -10,15 +10,22 @@ import { UserRole } from "@/lib/domain/user";
 import type {
   Project,
   ProjectCreateType,
-  ProjectStatus,
   ProjectUpdateType,
   ProjectWithDetails,
 } from "@/lib/domain/project";
+import {
+  pickOrganizationProjectFields,
+  ProjectStatus,
+} from "@/lib/domain/project";
 import {
   PaginationParams,
   PaginationResult,
 } from "@/lib/domain/pagination";
 import { OrganizationService } from "@/lib/service/organization-service";
+import {
+  getProjectTransitionErrorMessage,
+  ProjectTransitionError,
+} from "@/lib/utils/project-lifecycle";
 
 const logger = createLogger("OrganizationProjectsController");
 
@@ -95,6 +102,7 @@ export async function getMyOrganizationProjectById(
 
 /**
  * Creates a new project for the currently logged-in organization.
+ * New projects always start as drafts; only the fields organizations may set are kept.
  */
 export async function createMyOrganizationProject(
   data: Omit<ProjectCreateType, "organization">
@@ -104,7 +112,8 @@ export async function createMyOrganizationProject(
     const organization = await ensureOrganization(t);
 
     const projectData: ProjectCreateType = {
-      ...data,
+      ...(pickOrganizationProjectFields(data) as Omit<ProjectCreateType, "organization">),
+      status: ProjectStatus.DRAFT,
       organization: {
         connect: {
           id: organization.id,
@@ -144,12 +153,16 @@ export async function updateMyOrganizationProject(
 
     const updatedProject = await ProjectService.instance.updateProject(
       projectId,
-      data
+      data,
+      UserRole.ORGANIZATION
     );
 
     return { success: true, data: updatedProject };
   } catch (error) {
     logger.error("Failed to update organization project", error as Error);
+    if (error instanceof ProjectTransitionError) {
+      return { success: false, error: getProjectTransitionErrorMessage(t, error) };
+    }
     return {
       success: false,
       error: (error as Error).message || t("errors.unexpected"),
@@ -0,0 +1,33 @@
+/** @format */
+'use server'
+
+import {getTranslations} from 'next-intl/server'
+import {StudentService} from '@/lib/service/student-service'
+import {ActionResponse} from '@/lib/domain/actions'
+import type {StudentPortfolio} from '@/lib/domain/student'
+import {createLogger} from '@/lib/utils/logger'
+
+// Initialize Logger
+const logger = createLogger('PortfolioController')
+
+/**
+ * Retrieves the public portfolio of a student.
+ * Available without authentication; hidden or suspended portfolios are reported as not found.
+ *
+ * @param {string} studentId - The ID of the student profile.
+ * @returns {Promise<ActionResponse<StudentPortfolio>>} The student's portfolio.
+ */
+export async function getStudentPortfolio(studentId: string): Promise<ActionResponse<StudentPortfolio>> {
+    const t = await getTranslations('errors.portfolio')
+
+    try {
+        const portfolio = await StudentService.instance.getPublicPortfolio(studentId)
+        if (!portfolio) {
+            return {success: false, error: t('not_found')}
+        }
+        return {success: true, data: portfolio}
+    } catch (error) {
+        logger.error('Failed to fetch student portfolio', error as Error)
+        return {success: false, error: t('fetchFailed')}
+    }
+}
@@ -0,0 +1,394 @@
+/** @format */
+"use server";
+
+import {getTranslations} from "next-intl/server";
+import {AuthService} from "@/lib/service/auth-service";
+import {ProjectService} from "@/lib/service/project-service";
+import {ProjectCompletionService} from "@/lib/service/project-completion-service";
+import {ProjectAttachmentService} from "@/lib/service/project-attachment-service";
+import {OrganizationService} from "@/lib/service/organization-service";
+import {CoordinatorService} from "@/lib/service/coordinator-service";
+import {StudentService} from "@/lib/service/student-service";
+import {ApplicationService} from "@/lib/service/application-service";
+import {createLogger} from "@/lib/utils/logger";
+import {ActionResponse} from "@/lib/domain/actions";
+import {User, UserRole} from "@/lib/domain/user";
+import {ApplicationStatus} from "@/lib/domain/application";
+import {ProjectCompletionStatus} from "@/lib/domain/project-completion";
+import type {ProjectCompletionWithDetails} from "@/lib/domain/project-completion";
+import {
+    AttachmentList,
+    getAttachmentExtension,
+    MAX_ATTACHMENT_BYTES,
+    ProjectAttachment,
+    ProjectAttachments,
+    ProjectAttachmentWithUploader
+} from "@/lib/domain/project-attachment";
+import {isUploadLengthAllowed} from "@/lib/domain/storage";
+import type {StoredFile} from "@/lib/domain/storage";
+
+const logger = createLogger("ProjectAttachmentController");
+
+/**
+ * The current user's relation to a project, which decides what they may see and change.
+ */
+type ProjectViewer = {
+    user: User;
+    relation: "administrator" | "organization" | "coordinator" | "student";
+    /** Student profile ID, set for accepted students */
+    studentId?: string;
+};
+
+/**
+ * Ensures a user is signed in and returns them.
+ */
+async function ensureSignedIn(t: Awaited<ReturnType<typeof getTranslations>>): Promise<User> {
+    const currentUser = await AuthService.instance.getCurrentUser();
+    if (!currentUser) {
+        throw new Error(t("errors.auth.notAuthenticated"));
+    }
+    return currentUser;
+}
+
+/**
+ * Determines the current user's relation to a project.
+ * Only administrators, the owning organization, the assigned coordinator and
+ * students whose application was accepted have access to its attachments.
+ */
+async function ensureProjectViewer(
+    t: Awaited<ReturnType<typeof getTranslations>>,
+    user: User,
+    project: { id: string; organizationId: string; coordinatorId: string | null }
+): Promise<ProjectViewer> {
+    switch (user.role) {
+        case UserRole.ADMINISTRATOR:
+            return {user, relation: "administrator"};
+        case UserRole.ORGANIZATION: {
+            const organization = await OrganizationService.instance.getOrganizationProfile(user.id);
+            if (organization?.id === project.organizationId) {
+                return {user, relation: "organization"};
+            }
+            break;
+        }
+        case UserRole.COORDINATOR: {
+            const coordinator = await CoordinatorService.instance.getCoordinatorProfile(user.id);
+            if (coordinator && coordinator.id === project.coordinatorId) {
+                return {user, relation: "coordinator"};
+            }
+            break;
+        }
+        case UserRole.STUDENT: {
+            const student = await StudentService.instance.getStudentProfile(user.id);
+            const application = student
+                ? await ApplicationService.instance.getApplicationByStudentAndProject(student.id, project.id)
+                : null;
+            if (student && application?.status === ApplicationStatus.ACCEPTED) {
+                return {user, relation: "student", studentId: student.id};
+            }
+            break;
+        }
+    }
+    throw new Error(t("errors.attachment.forbidden"));
+}
+
+/**
+ * Loads a project the current user has access to.
+ */
+async function getViewedProject(t: Awaited<ReturnType<typeof getTranslations>>, projectId: string) {
+    const user = await ensureSignedIn(t);
+    const project = await ProjectService.instance.getProjectById(projectId);
+    if (!project) {
+        throw new Error(t("errors.project_not_found"));
+    }
+    const viewer = await ensureProjectViewer(t, user, project);
+    return {project, viewer};
+}
+
+/**
+ * Loads a completion the current user has access to.
+ * Students only have access to their own completion.
+ */
+async function getViewedCompletion(t: Awaited<ReturnType<typeof getTranslations>>, completionId: string) {
+    const user = await ensureSignedIn(t);
+    const completion = await ProjectCompletionService.instance.getProjectCompletionById(completionId);
+    if (!completion) {
+        throw new Error(t("errors.completion.not_found"));
+    }
+    const viewer = await ensureProjectViewer(t, user, completion.project);
+    if (viewer.relation === "student" && viewer.studentId !== completion.studentId) {
+        throw new Error(t("errors.attachment.forbidden"));
+    }
+    return {completion, viewer};
+}
+
+/**
+ * Whether the student who owns a completion may still add or remove deliverables.
+ * Deliverables are handed in with the report, so they are fixed once it is reviewed.
+ */
+function isDeliverableOwner(viewer: ProjectViewer, completion: ProjectCompletionWithDetails): boolean {
+    return viewer.relation === "student"
+        && viewer.studentId === completion.studentId
+        && completion.status === ProjectCompletionStatus.DRAFT;
+}
+
+/**
+ * Whether the viewer may delete an attachment.
+ * Administrators may delete any attachment, the organization any material of its project,
+ * and other users the materials they uploaded. Deliverables can only be removed
+ * by their student while the report is a draft.
+ */
+function canDelete(
+    viewer: ProjectViewer,
+    attachment: ProjectAttachment,
+    completion: ProjectCompletionWithDetails | null
+): boolean {
+    if (viewer.relation === "administrator") {
+        return true;
+    }
+    if (completion) {
+        return isDeliverableOwner(viewer, completion) && attachment.uploadedById === viewer.user.id;
+    }
+    return viewer.relation === "organization" || attachment.uploadedById === viewer.user.id;
+}
+
+/**
+ * Retrieves the materials and deliverables of a project visible to the current user.
+ *
+ * @param projectId - The ID of the project.
+ * @returns The project materials and the deliverables handed in for the project.
+ */
+export async function getProjectAttachments(projectId: string): Promise<ActionResponse<ProjectAttachments>> {
+    const t = await getTranslations();
+    try {
+        const {viewer} = await getViewedProject(t, projectId);
+
+        const materials = await ProjectAttachmentService.instance.getProjectMaterials(projectId);
+
+        let deliverables: ProjectAttachmentWithUploader[] = [];
+        if (viewer.relation !== "student") {
+            deliverables = await ProjectAttachmentService.instance.getDeliverables(projectId);
+        } else {
+            const completion = await ProjectCompletionService.instance.getCompletionByStudentAndProject(
+                viewer.studentId!,
+                projectId
+            );
+            if (completion) {
+                deliverables = await ProjectAttachmentService.instance.getDeliverables(projectId, completion.id);
+            }
+        }
+
+        return {
+            success: true,
+            data: {
+                materials: {
+                    attachments: materials,
+                    canUpload: viewer.relation !== "student",
+                    deletableIds: materials
+                        .filter((attachment) => canDelete(viewer, attachment, null))
+                        .map((attachment) => attachment.id),
+                },
+                deliverables: {
+                    attachments: deliverables,
+                    canUpload: false,
+                    deletableIds: viewer.relation === "administrator"
+                        ? deliverables.map((attachment) => attachment.id)
+                        : [],
+                },
+            },
+        };
+    } catch (error) {
+        logger.error("Failed to fetch project attachments", error as Error);
+        return {
+            success: false,
+            error: (error as Error).message || t("errors.unexpected"),
+        };
+    }
+}
+
+/**
+ * Retrieves the deliverables handed in with a completion report.
+ *
+ * @param completionId - The ID of the project completion.
+ * @returns The deliverables, and whether the current user may add or remove them.
+ */
+export async function getCompletionDeliverables(completionId: string): Promise<ActionResponse<AttachmentList>> {
+    const t = await getTranslations();
+    try {
+        const {completion, viewer} = await getViewedCompletion(t, completionId);
+
+        const deliverables = await ProjectAttachmentService.instance.getDeliverables(
+            completion.projectId,
+            completion.id
+        );
+
+        return {
+            success: true,
+            data: {
+                attachments: deliverables,
+                canUpload: isDeliverableOwner(viewer, completion),
+                deletableIds: deliverables
+                    .filter((attachment) => canDelete(viewer, attachment, completion))
+                    .map((attachment) => attachment.id),
+            },
+        };
+    } catch (error) {
+        logger.error("Failed to fetch completion deliverables", error as Error);
+        return {
+            success: false,
+            error: (error as Error).message || t("errors.unexpected"),
+        };
+    }
+}
+
+/**
+ * Checks an attachment upload before the route handler reads its body:
+ * the sender must be signed in and the declared size must fit the largest attachment.
+ * Access to the project or completion is checked by {@link uploadProjectAttachment}.
+ *
+ * @param contentLength - Value of the request's `Content-Length` header.
+ * @returns Whether the body may be read.
+ */
+export async function checkAttachmentUpload(contentLength: string | null): Promise<ActionResponse<void>> {
+    const t = await getTranslations();
+    try {
+        await ensureSignedIn(t);
+        if (!isUploadLengthAllowed(contentLength, MAX_ATTACHMENT_BYTES)) {
+            throw new Error(t("errors.attachment.too_large", {max: MAX_ATTACHMENT_BYTES / (1024 * 1024)}));
+        }
+        return {success: true, data: undefined};
+    } catch (error) {
+        return {success: false, error: (error as Error).message || t("errors.unexpected")};
+    }
+}
+
+/**
+ * Uploads a project material, or a deliverable when a completion is given.
+ * Called by the attachment upload route handler with the submitted form.
+ * Materials can be added by everyone with access except students; deliverables
+ * only by the completion's student while the report is a draft.
+ *
+ * @param formData - Form with the file in `file` and either `projectId` or `completionId`.
+ * @returns The created attachment.
+ */
+export async function uploadProjectAttachment(
+    formData: FormData
+): Promise<ActionResponse<ProjectAttachmentWithUploader>> {
+    const t = await getTranslations();
+    try {
+        const file = formData.get("file");
+        if (!(file instanceof File) || file.size === 0) {
+            throw new Error(t("errors.attachment.missing_file"));
+        }
+        const extension = getAttachmentExtension(file.name);
+        if (!extension) {
+            throw new Error(t("errors.attachment.invalid_type"));
+        }
+        if (file.size > MAX_ATTACHMENT_BYTES) {
+            throw new Error(t("errors.attachment.too_large", {max: MAX_ATTACHMENT_BYTES / (1024 * 1024)}));
+        }
+
+        const completionId = formData.get("completionId");
+        let projectId: string;
+        let viewer: ProjectViewer;
+
+        if (typeof completionId === "string" && completionId) {
+            const viewed = await getViewedCompletion(t, completionId);
+            if (!isDeliverableOwner(viewed.viewer, viewed.completion)) {
+                throw new Error(t("errors.attachment.deliverables_locked"));
+            }
+            projectId = viewed.completion.projectId;
+            viewer = viewed.viewer;
+        } else {
+            const viewed = await getViewedProject(t, String(formData.get("projectId") ?? ""));
+            if (viewed.viewer.relation === "student") {
+                throw new Error(t("errors.attachment.forbidden"));
+            }
+            projectId = viewed.project.id;
+            viewer = viewed.viewer;
+        }
+
+        const attachment = await ProjectAttachmentService.instance.addAttachment({
+            projectId,
+            completionId: typeof completionId === "string" && completionId ? completionId : null,
+            uploadedById: viewer.user.id,
+            file,
+            extension,
+        });
+
+        return {success: true, data: attachment};
+    } catch (error) {
+        logger.error("Failed to upload project attachment", error as Error);
+        return {
+            success: false,
+            error: (error as Error).message || t("errors.unexpected"),
+        };
+    }
+}
+
+/**
+ * Loads an attachment together with the current user's access to it.
+ */
+async function getViewedAttachment(t: Awaited<ReturnType<typeof getTranslations>>, id: string) {
+    const attachment = await ProjectAttachmentService.instance.getAttachmentById(id);
+    if (!attachment) {
+        throw new Error(t("errors.attachment.not_found"));
+    }
+    if (attachment.projectCompletionId) {
+        const {completion, viewer} = await getViewedCompletion(t, attachment.projectCompletionId);
+        return {attachment, completion, viewer};
+    }
+    const {viewer} = await getViewedProject(t, attachment.projectId);
+    return {attachment, completion: null, viewer};
+}
+
+/**
+ * Deletes an attachment and its file.
+ *
+ * @param id - The ID of the attachment.
+ */
+export async function deleteProjectAttachment(id: string): Promise<ActionResponse<void>> {
+    const t = await getTranslations();
+    try {
+        const {attachment, completion, viewer} = await getViewedAttachment(t, id);
+        if (!canDelete(viewer, attachment, completion)) {
+            throw new Error(t("errors.attachment.forbidden"));
+        }
+
+        await ProjectAttachmentService.instance.deleteAttachment(id);
+        return {success: true, data: undefined};
+    } catch (error) {
+        logger.error("Failed to delete project attachment", error as Error);
+        return {
+            success: false,
+            error: (error as Error).message || t("errors.unexpected"),
+        };
+    }
+}
+
+/**
+ * Reads an attachment for the download route handler.
+ *
+ * @param id - The ID of the attachment.
+ * @returns The attachment's file name and contents.
+ */
+export async function downloadProjectAttachment(
+    id: string
+): Promise<ActionResponse<{ fileName: string; file: StoredFile }>> {
+    const t = await getTranslations();
+    try {
+        const {attachment} = await getViewedAttachment(t, id);
+
+        const file = await ProjectAttachmentService.instance.getAttachmentFile(attachment);
+        if (!file) {
+            throw new Error(t("errors.attachment.not_found"));
+        }
+
+        return {success: true, data: {fileName: attachment.fileName, file}};
+    } catch (error) {
+        logger.error("Failed to download project attachment", error as Error);
+        return {
+            success: false,
+            error: (error as Error).message || t("errors.unexpected"),
+        };
+    }
+}
@@ -0,0 +1,119 @@
+/** @format */
+'use server'
+
+import {getTranslations} from 'next-intl/server'
+import {AuthService} from '@/lib/service/auth-service'
+import {ConfigService} from '@/lib/service/config-service'
+import {StorageService} from '@/lib/service/storage-service'
+import {ActionResponse} from '@/lib/domain/actions'
+import {UserRole} from '@/lib/domain/user'
+import {
+    IMAGE_KINDS,
+    IMAGE_RULES,
+    ImageKind,
+    isPublicStorageKey,
+    isUploadLengthAllowed,
+    STORAGE_ERROR_REASONS,
+    StorageErrorReason,
+    StoredFile
+} from '@/lib/domain/storage'
+import {createLogger} from '@/lib/utils/logger'
+
+const logger = createLogger('StorageController')
+
+/**
+ * Maps a service error to a reason translated under `errors.storage`.
+ */
+function toErrorReason(error: unknown): StorageErrorReason {
+    const reason = (error as Error).message?.replace(/^storage\./, '')
+    return STORAGE_ERROR_REASONS.includes(reason as StorageErrorReason) ? reason as StorageErrorReason : 'failed'
+}
+
+/**
+ * Checks that the current user may upload an image of the given kind.
+ * Profile pictures need a signed-in user; the logo needs an administrator,
+ * except during the initial setup, before any account exists.
+ */
+async function ensureCanUpload(kind: ImageKind) {
+    if (kind === 'logo' && !(await ConfigService.instance.isConfigured())) {
+        return
+    }
+
+    const currentUser = await AuthService.instance.getCurrentUser()
+    if (!currentUser || (kind === 'logo' && currentUser.role !== UserRole.ADMINISTRATOR)) {
+        throw new Error('storage.forbidden')
+    }
+}
+
+/**
+ * Checks an image upload before the route handler reads its body: the declared size must fit
+ * the largest accepted image and the sender must be allowed to upload images at all.
+ * The kind-specific checks follow in {@link uploadImage}.
+ *
+ * @param {string | null} contentLength - Value of the request's `Content-Length` header.
+ * @returns {Promise<ActionResponse<void>>} Whether the body may be read.
+ */
+export async function checkImageUpload(contentLength: string | null): Promise<ActionResponse<void>> {
+    const tErrors = await getTranslations('errors.storage')
+
+    const maxBytes = Math.max(...IMAGE_KINDS.map((kind) => IMAGE_RULES[kind].maxBytes))
+    if (!isUploadLengthAllowed(contentLength, maxBytes)) {
+        return {success: false, error: tErrors('fileTooLarge')}
+    }
+    if (await ConfigService.instance.isConfigured() && !(await AuthService.instance.getCurrentUser())) {
+        return {success: false, error: tErrors('forbidden')}
+    }
+    return {success: true, data: undefined}
+}
+
+/**
+ * Stores an uploaded image (platform logo or profile picture).
+ * Called by the upload route handler with the submitted form.
+ *
+ * @param {FormData} formData - Form with the image in `file` and its kind in `kind`.
+ * @returns {Promise<ActionResponse<{ url: string }>>} The URL of the stored image.
+ */
+export async function uploadImage(formData: FormData): Promise<ActionResponse<{ url: string }>> {
+    const tErrors = await getTranslations('errors.storage')
+
+    try {
+        const kind = IMAGE_KINDS.find((value) => value === formData.get('kind'))
+        if (!kind) {
+            throw new Error('storage.invalidKind')
+        }
+        const file = formData.get('file')
+        if (!(file instanceof File) || file.size === 0) {
+            throw new Error('storage.missingFile')
+        }
+
+        await ensureCanUpload(kind)
+
+        const url = await StorageService.instance.storeImage(kind, file)
+        return {success: true, data: {url}}
+    } catch (error) {
+        const reason = toErrorReason(error)
+        if (reason === 'failed') {
+            logger.error('Failed to store uploaded image', error as Error)
+        }
+        return {success: false, error: tErrors(reason)}
+    }
+}
+
+/**
+ * Reads a public stored file (logo or profile picture) for the file route handler.
+ *
+ * @param {string} key - Key of the file, taken from its URL.
+ * @returns {Promise<StoredFile | null>} The file, or null if it does not exist or is not public.
+ */
+export async function getStoredFile(key: string): Promise<StoredFile | null> {
+    if (!isPublicStorageKey(key)) {
+        return null
+    }
+
+    try {
+        return await StorageService.instance.getFile(key)
+    } catch (error) {
+        logger.error('Failed to read stored file', error as Error)
+        return null
+    }
+}
@@ -0,0 +1,95 @@
+/** @format */
+"use server"
+
+import {getTranslations} from "next-intl/server"
+import {revalidatePath} from "next/cache"
+import {AuthService} from "@/lib/service/auth-service"
+import {StudentService} from "@/lib/service/student-service"
+import {ApplicationService} from "@/lib/service/application-service"
+import {createLogger} from "@/lib/utils/logger"
+import {ActionResponse} from "@/lib/domain/actions"
+import {UserRole} from "@/lib/domain/user"
+import {ApplicationStatus} from "@/lib/domain/application"
+import type {Application, ApplicationWithDetails} from "@/lib/domain/application"
+import {PaginationParams, PaginationResult} from "@/lib/domain/pagination"
+
+const logger = createLogger("StudentApplicationsController")
+
+/**
+ * Ensures the current session user is a student.
+ * Returns the authenticated student profile.
+ */
+async function ensureStudent(t: any) {
+    const currentUser = await AuthService.instance.getCurrentUser()
+    if (!currentUser || currentUser.role !== UserRole.STUDENT) {
+        throw new Error(t("errors.auth.student_required"))
+    }
+    const student = await StudentService.instance.getStudentProfile(currentUser.id)
+    if (!student) {
+        throw new Error(t("errors.auth.user_not_found"))
+    }
+    return student
+}
+
+/**
+ * Retrieves the paginated applications of the currently logged-in student.
+ */
+export async function getMyApplications(
+    pageParams: PaginationParams,
+    status?: ApplicationStatus
+): Promise<ActionResponse<PaginationResult<ApplicationWithDetails>>> {
+    const t = await getTranslations()
+    try {
+        const student = await ensureStudent(t)
+
+        const applications = await ApplicationService.instance.getApplicationsWithDetails(
+            pageParams,
+            {studentId: student.id, status}
+        )
+
+        return {success: true, data: applications}
+    } catch (error) {
+        logger.error("Failed to fetch student applications", error as Error)
+        return {
+            success: false,
+            error: (error as Error).message || t("errors.unexpected"),
+        }
+    }
+}
+
+/**
+ * Withdraws a pending application of the currently logged-in student.
+ * The application is kept with the WITHDRAWN status instead of being deleted.
+ */
+export async function withdrawMyApplication(
+    applicationId: string
+): Promise<ActionResponse<Application>> {
+    const t = await getTranslations()
+    try {
+        const student = await ensureStudent(t)
+
+        const application = await ApplicationService.instance.getApplicationById(applicationId)
+        if (!application || application.studentId !== student.id) {
+            return {success: false, error: t("errors.application.not_found")}
+        }
+
+        if (application.status !== ApplicationStatus.PENDING) {
+            return {success: false, error: t("errors.application.not_pending")}
+        }
+
+        const withdrawn = await ApplicationService.instance.withdrawApplication(applicationId)
+        if (!withdrawn) {
+            return {success: false, error: t("errors.application.not_pending")}
+        }
+
+        revalidatePath("/dashboard/applications")
+        revalidatePath(`/dashboard/opportunities/${application.projectId}`)
+        return {success: true, data: withdrawn}
+    } catch (error) {
+        logger.error("Failed to withdraw application", error as Error)
+        return {
+            success: false,
+            error: (error as Error).message || t("errors.unexpected"),
+        }
+    }
+}
@@ -0,0 +1,217 @@
+/** @format */
+"use server"
+
+import {getLocale, getTranslations} from "next-intl/server"
+import {revalidatePath} from "next/cache"
+import {AuthService} from "@/lib/service/auth-service"
+import {StudentService} from "@/lib/service/student-service"
+import {ApplicationService} from "@/lib/service/application-service"
+import {ProjectCompletionService} from "@/lib/service/project-completion-service"
+import {CertificateService} from "@/lib/service/certificate-service"
+import {createLogger} from "@/lib/utils/logger"
+import {createCompletionReportSchema, getCompletionValidationErrorMessage} from "@/lib/utils/completion-validation"
+import type {CompletionReportInput} from "@/lib/utils/completion-validation"
+import {ActionResponse} from "@/lib/domain/actions"
+import {UserRole} from "@/lib/domain/user"
+import {ApplicationStatus} from "@/lib/domain/application"
+import type {ApplicationWithDetails} from "@/lib/domain/application"
+import {ProjectStatus} from "@/lib/domain/project"
+import {MIN_ROLE_DESCRIPTION_LENGTH, ProjectCompletionStatus} from "@/lib/domain/project-completion"
+import type {CompletionCertificate, ProjectCompletionWithDetails} from "@/lib/domain/project-completion"
+import type {Locale} from "@/lib/utils/i18n/routing"
+
+const logger = createLogger("StudentCompletionsController")
+
+/**
+ * Project statuses in which accepted students may write their completion report.
+ */
+const REPORTABLE_PROJECT_STATUSES: ProjectStatus[] = [ProjectStatus.IN_PROGRESS, ProjectStatus.COMPLETED]
+
+/**
+ * Ensures the current session user is a student.
+ * Returns the authenticated student profile.
+ */
+async function ensureStudent(t: any) {
+    const currentUser = await AuthService.instance.getCurrentUser()
+    if (!currentUser || currentUser.role !== UserRole.STUDENT) {
+        throw new Error(t("errors.auth.student_required"))
+    }
+    const student = await StudentService.instance.getStudentProfile(currentUser.id)
+    if (!student) {
+        throw new Error(t("errors.auth.user_not_found"))
+    }
+    return student
+}
+
+/**
+ * Loads an accepted application of the student whose project is running or finished.
+ * Throws a localized error if the application does not belong to the student, was
+ * not accepted, or the project is not yet in progress.
+ */
+async function getReportableApplication(
+    t: any,
+    studentId: string,
+    applicationId: string
+): Promise<ApplicationWithDetails> {
+    const application = await ApplicationService.instance.getApplicationWithDetails(applicationId)
+    if (!application || application.studentId !== studentId) {
+        throw new Error(t("errors.application.not_found"))
+    }
+    if (
+        application.status !== ApplicationStatus.ACCEPTED ||
+        !REPORTABLE_PROJECT_STATUSES.includes(application.project.status)
+    ) {
+        throw new Error(t("errors.completion.not_reportable"))
+    }
+    return application
+}
+
+/**
+ * Retrieves the completion report of the currently logged-in student for an accepted
+ * application, together with the application. The completion is null until the
+ * student saves the report for the first time.
+ */
+export async function getMyCompletionReport(applicationId: string): Promise<ActionResponse<{
+    application: ApplicationWithDetails
+    completion: ProjectCompletionWithDetails | null
+}>> {
+    const t = await getTranslations()
+    try {
+        const student = await ensureStudent(t)
+        const application = await getReportableApplication(t, student.id, applicationId)
+
+        const completion = await ProjectCompletionService.instance.getCompletionByStudentAndProject(
+            student.id,
+            application.projectId
+        )
+
+        return {success: true, data: {application, completion}}
+    } catch (error) {
+        logger.error("Failed to fetch completion report", error as Error)
+        return {
+            success: false,
+            error: (error as Error).message || t("errors.unexpected"),
+        }
+    }
+}
+
+/**
+ * Creates or updates the draft completion report of the currently logged-in student.
+ * Once a reviewer has acted on the completion it is locked and can no longer be edited.
+ */
+export async function saveMyCompletionReport(
+    applicationId: string,
+    input: CompletionReportInput
+): Promise<ActionResponse<ProjectCompletionWithDetails>> {
+    const t = await getTranslations()
+    try {
+        const student = await ensureStudent(t)
+
+        const parsed = createCompletionReportSchema(MIN_ROLE_DESCRIPTION_LENGTH).safeParse(input)
+        if (!parsed.success) {
+            return {
+                success: false,
+                error: getCompletionValidationErrorMessage(t, parsed.error, MIN_ROLE_DESCRIPTION_LENGTH),
+            }
+        }
+
+        const application = await getReportableApplication(t, student.id, applicationId)
+
+        const existing = await ProjectCompletionService.instance.getCompletionByStudentAndProject(
+            student.id,
+            application.projectId
+        )
+        if (existing && existing.status !== ProjectCompletionStatus.DRAFT) {
+            return {success: false, error: t("errors.completion.locked")}
+        }
+
+        const completion = existing
+            ? await ProjectCompletionService.instance.updateDraftCompletion(existing.id, parsed.data)
+            : await ProjectCompletionService.instance.createProjectCompletion({
+                ...parsed.data,
+                project: {connect: {id: application.projectId}},
+                student: {connect: {id: student.id}},
+            })
+        if (!completion) {
+            return {success: false, error: t("errors.completion.locked")}
+        }
+
+        revalidatePath("/dashboard/applications")
+        revalidatePath(`/dashboard/applications/${applicationId}/completion`)
+        return {success: true, data: completion}
+    } catch (error) {
+        logger.error("Failed to save completion report", error as Error)
+        return {
+            success: false,
+            error: (error as Error).message || t("errors.unexpected"),
+        }
+    }
+}
+
+/**
+ * Shows or hides one of the student's completions in their public portfolio.
+ */
+export async function setMyCompletionPortfolioVisibility(
+    applicationId: string,
+    isVisibleInPortfolio: boolean
+): Promise<ActionResponse<ProjectCompletionWithDetails>> {
+    const t = await getTranslations()
+    try {
+        const student = await ensureStudent(t)
+        const application = await getReportableApplication(t, student.id, applicationId)
+
+        const existing = await ProjectCompletionService.instance.getCompletionByStudentAndProject(
+            student.id,
+            application.projectId
+        )
+        if (!existing) {
+            return {success: false, error: t("errors.completion.not_found")}
+        }
+
+        const completion = await ProjectCompletionService.instance.updateProjectCompletion(existing.id, {
+            isVisibleInPortfolio,
+        })
+
+        revalidatePath(`/dashboard/applications/${applicationId}/completion`)
+        revalidatePath(`/portfolio/${student.id}`)
+        return {success: true, data: completion}
+    } catch (error) {
+        logger.error("Failed to update completion portfolio visibility", error as Error)
+        return {
+            success: false,
+            error: (error as Error).message || t("errors.unexpected"),
+        }
+    }
+}
+
+/**
+ * Generates the PDF certificate for one of the student's published completions.
+ */
+export async function downloadMyCompletionCertificate(
+    applicationId: string
+): Promise<ActionResponse<CompletionCertificate>> {
+    const t = await getTranslations()
+    try {
+        const student = await ensureStudent(t)
+        const application = await getReportableApplication(t, student.id, applicationId)
+
+        const completion = await ProjectCompletionService.instance.getCompletionByStudentAndProject(
+            student.id,
+            application.projectId
+        )
+        if (!completion || completion.status !== ProjectCompletionStatus.PUBLISHED) {
+            return {success: false, error: t("errors.completion.not_published")}
+        }
+
+        const locale = (await getLocale()) as Locale
+        const certificate = await CertificateService.instance.generateCertificate(completion, locale)
+
+        return {success: true, data: certificate}
+    } catch (error) {
+        logger.error("Failed to generate completion certificate", error as Error)
+        return {
+            success: false,
+            error: (error as Error).message || t("errors.unexpected"),
+        }
+    }
+}
@@ -7,7 +7,8 @@ import {AuthService} from "@/lib/service/auth-service"
 import {StudentService} from "@/lib/service/student-service"
 import {createLogger} from "@/lib/utils/logger"
 import {ActionResponse} from "@/lib/domain/actions"
-import {UserRole} from "@/lib/domain/user"
+import {getProfilePictureUpdate, pickProfileUserFields, UserRole} from "@/lib/domain/user"
+import {isUploadedImageUrl} from "@/lib/domain/storage"
 import type {StudentUpdateType, StudentWithUser} from "@/lib/domain/student"
 
 const logger = createLogger("StudentProfileController")
@@ -62,10 +63,15 @@ export async function updateMyStudentProfile(
     try {
         const studentUser = await ensureStudent(t)
 
+        const update = pickProfileUserFields(data)
+        if (!isUploadedImageUrl(getProfilePictureUpdate(update), "avatar")) {
+            return {success: false, error: t("errors.storage.notUploaded")}
+        }
+
         const updated =
             await StudentService.instance.updateStudentProfile(
                 studentUser.id,
-                data
+                update
             )
 
         return {success: true, data: updated}
@@ -0,0 +1,151 @@
+/** @format */
+"use server"
+
+import {getTranslations} from "next-intl/server"
+import {revalidatePath} from "next/cache"
+import {AuthService} from "@/lib/service/auth-service"
+import {StudentService} from "@/lib/service/student-service"
+import {ProjectService} from "@/lib/service/project-service"
+import {ApplicationService} from "@/lib/service/application-service"
+import {createLogger} from "@/lib/utils/logger"
+import {ActionResponse} from "@/lib/domain/actions"
+import {UserRole} from "@/lib/domain/user"
+import {ProjectStatus} from "@/lib/domain/project"
+import type {ProjectWithDetails} from "@/lib/domain/project"
+import {MIN_MOTIVATION_LENGTH} from "@/lib/domain/application"
+import type {Application} from "@/lib/domain/application"
+import {PaginationParams, PaginationResult} from "@/lib/domain/pagination"
+import type {ProjectFilterOptions} from "@/lib/repository/project-repository"
+
+const logger = createLogger("StudentProjectsController")
+
+/**
+ * Filters a student may apply when browsing the marketplace.
+ * Status and organization are fixed by the controller.
+ */
+export type MarketplaceFilterOptions = Omit<ProjectFilterOptions, "status" | "organizationId">
+
+/**
+ * Ensures the current session user is a student.
+ * Returns the authenticated student profile.
+ */
+async function ensureStudent(t: any) {
+    const currentUser = await AuthService.instance.getCurrentUser()
+    if (!currentUser || currentUser.role !== UserRole.STUDENT) {
+        throw new Error(t("errors.auth.student_required"))
+    }
+    const student = await StudentService.instance.getStudentProfile(currentUser.id)
+    if (!student) {
+        throw new Error(t("errors.auth.user_not_found"))
+    }
+    return student
+}
+
+/**
+ * Retrieves paginated published projects for the student marketplace.
+ */
+export async function getPublishedProjects(
+    pageParams: PaginationParams,
+    filters: MarketplaceFilterOptions = {}
+): Promise<ActionResponse<PaginationResult<ProjectWithDetails>>> {
+    const t = await getTranslations()
+    try {
+        await ensureStudent(t)
+
+        const projects = await ProjectService.instance.getProjectsWithDetails(
+            pageParams,
+            {...filters, status: ProjectStatus.PUBLISHED}
+        )
+
+        return {success: true, data: projects}
+    } catch (error) {
+        logger.error("Failed to fetch published projects", error as Error)
+        return {
+            success: false,
+            error: (error as Error).message || t("errors.unexpected"),
+        }
+    }
+}
+
+/**
+ * Retrieves a single project along with the student's existing application, if any.
+ * Projects that are no longer published remain visible to students who applied to them.
+ */
+export async function getPublishedProjectById(
+    projectId: string
+): Promise<ActionResponse<{ project: ProjectWithDetails; application: Application | null }>> {
+    const t = await getTranslations()
+    try {
+        const student = await ensureStudent(t)
+
+        const project = await ProjectService.instance.getProjectById(projectId)
+        if (!project) {
+            return {success: false, error: t("errors.project_not_found")}
+        }
+
+        const application = await ApplicationService.instance.getApplicationByStudentAndProject(
+            student.id,
+            projectId
+        )
+        if (project.status !== ProjectStatus.PUBLISHED && !application) {
+            return {success: false, error: t("errors.project_not_found")}
+        }
+
+        return {success: true, data: {project, application}}
+    } catch (error) {
+        logger.error("Failed to fetch published project", error as Error)
+        return {
+            success: false,
+            error: (error as Error).message || t("errors.unexpected"),
+        }
+    }
+}
+
+/**
+ * Submits an application with a motivation statement to a published project.
+ */
+export async function applyToProject(
+    projectId: string,
+    motivationStatement: string
+): Promise<ActionResponse<Application>> {
+    const t = await getTranslations()
+    try {
+        const student = await ensureStudent(t)
+
+        const motivation = motivationStatement.trim()
+        if (motivation.length < MIN_MOTIVATION_LENGTH) {
+            return {
+                success: false,
+                error: t("errors.application.motivation_too_short", {min: MIN_MOTIVATION_LENGTH}),
+            }
+        }
+
+        const project = await ProjectService.instance.getProjectById(projectId)
+        if (!project || project.status !== ProjectStatus.PUBLISHED) {
+            return {success: false, error: t("errors.application.project_not_open")}
+        }
+
+        const existing = await ApplicationService.instance.getApplicationByStudentAndProject(
+            student.id,
+            projectId
+        )
+        if (existing) {
+            return {success: false, error: t("errors.application.already_applied")}
+        }
+
+        const application = await ApplicationService.instance.createApplication({
+            motivationStatement: motivation,
+            student: {connect: {id: student.id}},
+            project: {connect: {id: projectId}},
+        })
+
+        revalidatePath(`/dashboard/opportunities/${projectId}`)
+        return {success: true, data: application}
+    } catch (error) {
+        logger.error("Failed to apply to project", error as Error)
+        return {
+            success: false,
+            error: (error as Error).message || t("errors.unexpected"),
+        }
+    }
+}
@@ -1,5 +1,6 @@
 /** @format */
 import type {Prisma} from "@/prisma/generated/client";
+import type {CONTACT_USER_SELECT, PUBLIC_USER_SELECT} from "@/lib/domain/user";
 
 /**
  * Re-exporting generated Prisma types for the Application entity.
@@ -24,22 +25,52 @@ export type ApplicationWhereInput = Prisma.ApplicationWhereInput;
 
 /**
  * Application entity including the Student profile and the target Project details.
- * Used for detailed application review views.
+ * Used for detailed application review views. The applicant comes with the contact details
+ * the organization needs, the project owners only with their public fields.
  */
 export type ApplicationWithDetails = Prisma.ApplicationGetPayload<{
     include: {
         student: {
-            include: { user: true }
+            include: { user: { select: typeof CONTACT_USER_SELECT } }
         };
         project: {
             include: {
                 organization: {
-                    include: { user: true }
+                    include: { user: { select: typeof PUBLIC_USER_SELECT } }
                 };
                 coordinator: {
-                    include: { user: true }
+                    include: { user: { select: typeof PUBLIC_USER_SELECT } }
                 };
             }
         };
     };
-}>;
\ No newline at end of file
+}>;
+/**
+ * Minimum length of the motivation statement submitted with an application.
+ */
+export const MIN_MOTIVATION_LENGTH = 50;
+
+/**
+ * Reasons an application cannot be reviewed, with their translation keys.
+ */
+export const APPLICATION_REVIEW_ERROR_MESSAGES = {
+    already_reviewed: "errors.application.already_reviewed",
+    capacity_reached: "errors.application.capacity_reached",
+    project_not_open: "errors.application.project_not_open",
+} as const;
+
+export type ApplicationReviewErrorReason = keyof typeof APPLICATION_REVIEW_ERROR_MESSAGES;
+
+/**
+ * Error raised when an application can no longer be accepted or rejected.
+ * The message is the translation key; `capacity` is exposed for interpolation.
+ */
+export class ApplicationReviewError extends Error {
+    constructor(
+        readonly reason: ApplicationReviewErrorReason,
+        readonly capacity: number
+    ) {
+        super(APPLICATION_REVIEW_ERROR_MESSAGES[reason]);
+        this.name = "ApplicationReviewError";
+    }
+}
@@ -0,0 +1,119 @@
+/** @format */
+import type {Prisma} from "@/prisma/generated/client";
+import {AuditAction, AuditEntityType} from "@/prisma/generated/client";
+
+/**
+ * Re-exporting generated Prisma types for the AuditEvent entity.
+ */
+export type {AuditEvent} from "@/prisma/generated/client";
+export {AuditAction, AuditEntityType} from "@/prisma/generated/client";
+
+/**
+ * Data Transfer Object (DTO) for recording a new AuditEvent.
+ */
+export type AuditEventCreateType = Prisma.AuditEventCreateInput;
+
+/**
+ * Type Definition for AuditEvent Filtering.
+ */
+export type AuditEventWhereInput = Prisma.AuditEventWhereInput;
+
+/**
+ * Values of one changed field before and after the action.
+ */
+export type AuditChange = {
+    from: Prisma.JsonValue;
+    to: Prisma.JsonValue;
+};
+
+/**
+ * Changed fields of the target entity, keyed by field name.
+ */
+export type AuditChanges = Record<string, AuditChange>;
+
+/**
+ * Action reported by a service. The actor and IP address are taken from the current request.
+ */
+export type AuditEventInput = {
+    action: AuditAction;
+    entityType: AuditEntityType;
+    entityId: string;
+    /** Readable name of the target (e.g. user email or project title), kept after it is deleted */
+    entityLabel?: string | null;
+    /** Target before the action; omitted for actions that create it */
+    before?: object | null;
+    /** Target after the action; omitted for actions that delete it */
+    after?: object | null;
+    /** Further details such as the reason given by the actor */
+    metadata?: Record<string, string | number | boolean | null>;
+};
+
+/**
+ * Filters chosen on the audit log page, as they appear in the URL.
+ */
+export type AuditLogFilters = {
+    /** Actor name or email */
+    actor?: string;
+    /** Target ID or name */
+    entity?: string;
+    entityType?: string;
+    action?: string;
+    /** First day of the range, `YYYY-MM-DD` */
+    from?: string;
+    /** Last day of the range, `YYYY-MM-DD` */
+    to?: string;
+};
+
+/**
+ * Fields never copied into an audit entry. Their changes are recorded without the values.
+ */
+export const AUDIT_REDACTED_FIELDS = ["hashedPassword", "smtpPassword", "oidcClientSecret"];
+
+/**
+ * Placeholder recorded instead of the value of a redacted field.
+ */
+export const AUDIT_REDACTED_VALUE = "[redacted]";
+
+/**
+ * Fields changed by every update, left out of the recorded changes.
+ */
+export const AUDIT_IGNORED_FIELDS = ["createdAt", "updatedAt"];
+
+/**
+ * Maximum number of entries written to one CSV export.
+ */
+export const AUDIT_EXPORT_LIMIT = 10000;
+
+/**
+ * Actions grouped by the kind of entity they target, in the order shown in the filter.
+ */
+export const AUDIT_ACTIONS_BY_ENTITY: Record<AuditEntityType, AuditAction[]> = {
+    [AuditEntityType.USER]: [
+        AuditAction.USER_SUSPENDED,
+        AuditAction.USER_UNSUSPENDED,
+        AuditAction.USER_DELETED,
+        AuditAction.USER_RESTORED,
+    ],
+    [AuditEntityType.ORGANIZATION]: [
+        AuditAction.ORGANIZATION_VERIFIED,
+        AuditAction.ORGANIZATION_REJECTED,
+    ],
+    [AuditEntityType.PROJECT]: [
+        AuditAction.PROJECT_UPDATED,
+        AuditAction.PROJECT_STATUS_CHANGED,
+        AuditAction.PROJECT_DELETED,
+        AuditAction.PROJECT_RESTORED,
+    ],
+    [AuditEntityType.PROJECT_COMPLETION]: [
+        AuditAction.PROJECT_COMPLETION_UPDATED,
+        AuditAction.PROJECT_COMPLETION_STATUS_CHANGED,
+    ],
+    [AuditEntityType.APPLICATION]: [
+        AuditAction.APPLICATION_ACCEPTED,
+        AuditAction.APPLICATION_REJECTED,
+        AuditAction.APPLICATION_WITHDRAWN,
+    ],
+    [AuditEntityType.CONFIG]: [
+        AuditAction.CONFIG_UPDATED,
+    ],
+};
@@ -1,5 +1,7 @@
 /** @format */
 import {Prisma} from "@/prisma/generated/client";
+import {defaultRateLimits, RateLimitSettings} from "@/lib/domain/rate-limit";
+import {DEFAULT_TRASH_RETENTION_DAYS} from "@/lib/domain/trash";
 
 /**
  * Represents the global configuration settings for the application.
@@ -10,6 +12,10 @@ import {Prisma} from "@/prisma/generated/client";
  * - Basic information: `id`, `name`, `logo`, `themeColors`
  * - SMTP/email configuration: `smtpHost`, `smtpPort`, `smtpUser`, `smtpPassword`, `emailFrom`
  * - Registration rules: `allowPublicRegistration`, `studentEmailDomain`, `staffEmailDomain`
+ * - Sign-in rules: `requireStaffTwoFactor`
+ * - Single sign-on: `oidcEnabled`, `oidcDisplayName`, `oidcIssuer`, `oidcClientId`, `oidcClientSecret`
+ * - Rate limiting: `rateLimits` (read through `resolveRateLimits`)
+ * - Trash: `trashRetentionDays` (read through `resolveTrashRetentionDays`)
  * - Metadata: `updatedAt` (automatically updated timestamp)
  */
 export type {Config} from "@/prisma/generated/client";
@@ -81,19 +87,23 @@ export type ThemeColors = {
 /**
  * Input type for creating a Config record.
  *
- * Extends the Prisma create type, but enforces `themeColors` to match `ThemeColors`.
+ * Extends the Prisma create type, but enforces `themeColors` to match `ThemeColors`
+ * and `rateLimits` to match `RateLimitSettings`.
  */
-export type ConfigCreateType = Omit<Prisma.ConfigCreateInput, "themeColors"> & {
+export type ConfigCreateType = Omit<Prisma.ConfigCreateInput, "themeColors" | "rateLimits"> & {
     themeColors: ThemeColors;
+    rateLimits?: RateLimitSettings;
 };
 
 /**
  * Input type for updating a Config record.
  *
- * Extends the Prisma update type, but enforces `themeColors` to match `ThemeColors`.
+ * Extends the Prisma update type, but enforces `themeColors` to match `ThemeColors`
+ * and `rateLimits` to match `RateLimitSettings`.
  */
-export type ConfigUpdateType = Omit<Prisma.ConfigUpdateInput, "themeColors"> & {
+export type ConfigUpdateType = Omit<Prisma.ConfigUpdateInput, "themeColors" | "rateLimits"> & {
     themeColors?: ThemeColors;
+    rateLimits?: RateLimitSettings;
 };
 
 /**
@@ -224,4 +234,14 @@ export const defaultConfig: ConfigCreateType = {
     allowPublicRegistration: false,
     studentEmailDomain: null,
     staffEmailDomain: null,
+    requireStaffTwoFactor: false,
+
+    oidcEnabled: false,
+    oidcDisplayName: null,
+    oidcIssuer: null,
+    oidcClientId: null,
+    oidcClientSecret: null,
+
+    rateLimits: defaultRateLimits,
+    trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
 };
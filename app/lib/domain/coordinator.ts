@@ -1,6 +1,6 @@
 /** @format */
 import type {Prisma} from "@/prisma/generated/client";
-import {UserCreateType} from "@/lib/domain/user";
+import type {CONTACT_USER_SELECT, UserCreateType} from "@/lib/domain/user";
 
 /**
  * Re-exporting generated Prisma types for the Coordinator entity.
@@ -29,6 +29,29 @@ export type CoordinatorWithUser = Prisma.CoordinatorGetPayload<{
  * Composite DTO used by the Service Layer to orchestrate registration.
  */
 export type CoordinatorRegistrationInput = {
-    user: Omit<UserCreateType, 'role' | 'hashedPassword'> & { password: string };
+    /** The password is omitted for accounts provisioned through single sign-on. */
+    user: Omit<UserCreateType, 'role' | 'hashedPassword'> & { password?: string };
     coordinator: Omit<CoordinatorCreateType, 'user' | 'userId'>;
 };
+
+/**
+ * Composite Type: Coordinator with the contact details of the parent User and the number of
+ * projects the coordinator currently holds.
+ */
+export type CoordinatorWithWorkload = Prisma.CoordinatorGetPayload<{
+    include: { user: { select: typeof CONTACT_USER_SELECT } };
+}> & {
+    activeProjectCount: number;
+};
+
+/**
+ * A coordinator suggested for a project, together with how well the
+ * coordinator's expertise matches the project.
+ */
+export type CoordinatorSuggestion = {
+    coordinator: CoordinatorWithWorkload;
+    /** Weighted number of project terms matched by the coordinator's expertise or department. */
+    matchScore: number;
+    /** The project category and skills that matched. */
+    matchedTerms: string[];
+};
@@ -0,0 +1,66 @@
+/** @format */
+import type {OutboundEmail, Prisma} from "@/prisma/generated/client";
+import {EmailTemplateKey} from "@/prisma/generated/client";
+
+/**
+ * Re-exporting generated Prisma types for the OutboundEmail entity.
+ */
+export type {OutboundEmail} from "@/prisma/generated/client";
+export {OutboundEmailStatus} from "@/prisma/generated/client";
+
+/**
+ * Data Transfer Object (DTO) for queueing a new email.
+ */
+export type OutboundEmailCreateType = Prisma.OutboundEmailCreateInput;
+
+/**
+ * Type Definition for OutboundEmail Filtering.
+ */
+export type OutboundEmailWhereInput = Prisma.OutboundEmailWhereInput;
+
+/**
+ * Outbox entry as listed to administrators.
+ * The rendered body is left out, since it may hold single-use links such as password resets.
+ */
+export type OutboundEmailSummary = Prisma.OutboundEmailGetPayload<{
+    omit: { html: true };
+}>;
+
+/**
+ * Templates whose emails carry single-use links. They are never resent from the outbox;
+ * users request a fresh email instead.
+ */
+export const NON_RESENDABLE_EMAIL_TEMPLATES: readonly EmailTemplateKey[] = [
+    EmailTemplateKey.VERIFICATION,
+    EmailTemplateKey.PASSWORD_RESET,
+];
+
+/**
+ * Checks whether an administrator may resend an email from the outbox.
+ *
+ * @param email - The outbox entry.
+ * @returns False for emails rendered from a single-use link template.
+ */
+export function canResendOutboundEmail(email: Pick<OutboundEmail, "templateKey">): boolean {
+    return !email.templateKey || !NON_RESENDABLE_EMAIL_TEMPLATES.includes(email.templateKey);
+}
+
+/**
+ * Number of delivery attempts before an email is marked as failed.
+ */
+export const EMAIL_MAX_ATTEMPTS = 6;
+
+/**
+ * Delay before the first retry; doubled after every further failed attempt.
+ */
+export const EMAIL_RETRY_BASE_DELAY_MS = 60 * 1000;
+
+/**
+ * Upper bound for the delay between two attempts.
+ */
+export const EMAIL_RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * Time after which an email stuck in `SENDING` (e.g. the process died mid-delivery) is retried.
+ */
+export const EMAIL_SENDING_TIMEOUT_MS = 10 * 60 * 1000;
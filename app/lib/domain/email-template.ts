@@ -0,0 +1,87 @@
+/** @format */
+import {EmailTemplateKey} from "@/prisma/generated/client";
+
+/**
+ * Re-exporting generated Prisma types for the EmailTemplate entity.
+ */
+export type {EmailTemplate} from "@/prisma/generated/client";
+export {EmailTemplateKey} from "@/prisma/generated/client";
+
+/**
+ * Values substituted for the `{{variable}}` placeholders of a template.
+ */
+export type EmailTemplateVariables = Record<string, string>;
+
+/**
+ * Rendered or editable content of an email template.
+ */
+export type EmailTemplateContent = {
+    subject: string;
+    html: string;
+};
+
+/**
+ * Template data shown in the admin editor.
+ * Contains the effective content (override or built-in) and the built-in default
+ * so the editor can offer resetting to it.
+ */
+export type EmailTemplateDetails = EmailTemplateContent & {
+    key: EmailTemplateKey;
+    locale: string;
+    variables: string[];
+    isCustomized: boolean;
+    updatedAt: Date | null;
+    defaults: EmailTemplateContent;
+};
+
+/**
+ * Placeholders available in each template.
+ * `name` always refers to the recipient.
+ */
+export const EMAIL_TEMPLATE_VARIABLES: Record<EmailTemplateKey, string[]> = {
+    [EmailTemplateKey.VERIFICATION]: ['name', 'url'],
+    [EmailTemplateKey.WELCOME]: ['name', 'url'],
+    [EmailTemplateKey.PASSWORD_RESET]: ['name', 'url'],
+    [EmailTemplateKey.ACCOUNT_SUSPENDED]: ['name', 'reason'],
+    [EmailTemplateKey.ORGANIZATION_APPROVED]: ['name', 'url'],
+    [EmailTemplateKey.ORGANIZATION_REJECTED]: ['name', 'reason'],
+    [EmailTemplateKey.NEW_ORGANIZATION_SIGNUP]: ['organizationName', 'url'],
+    [EmailTemplateKey.COORDINATOR_REVIEW_SUBMITTED]: ['name', 'projectName', 'url'],
+    [EmailTemplateKey.ORGANIZATION_REVIEW_SUBMITTED]: ['name', 'projectName', 'url'],
+    [EmailTemplateKey.APPLICATION_ACCEPTED]: ['name', 'projectName', 'url'],
+    [EmailTemplateKey.APPLICATION_REJECTED]: ['name', 'projectName', 'reason', 'url'],
+    [EmailTemplateKey.PROJECT_ASSIGNED]: ['name', 'projectName', 'organizationName', 'url'],
+    [EmailTemplateKey.PROJECT_APPROVED]: ['name', 'projectName', 'url'],
+    [EmailTemplateKey.PROJECT_CHANGES_REQUESTED]: ['name', 'projectName', 'reason', 'url'],
+    [EmailTemplateKey.NOTIFICATION_DIGEST]: ['name', 'count', 'notifications', 'url'],
+};
+
+/**
+ * Example values used for the editor preview and test emails.
+ */
+export const EMAIL_TEMPLATE_SAMPLE_VALUES: EmailTemplateVariables = {
+    name: 'Jane Doe',
+    projectName: 'Community Garden Website',
+    organizationName: 'Green City Association',
+    reason: 'This is an example reason entered by a reviewer.',
+    url: 'https://example.com/dashboard',
+    count: '2',
+    notifications: '<tr><td style="padding: 14px 0;">Your application was accepted</td></tr>'
+        + '<tr><td style="padding: 14px 0;">A project was assigned to you</td></tr>',
+};
+
+/**
+ * Template entry of the admin editor's template list.
+ */
+export type EmailTemplateSummary = {
+    key: EmailTemplateKey;
+    isCustomized: boolean;
+    updatedAt: Date | null;
+};
+
+/**
+ * Email rendered from a template, ready to be queued.
+ */
+export type RenderedEmail = EmailTemplateContent & {
+    fromLabel: string;
+};
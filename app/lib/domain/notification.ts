@@ -0,0 +1,71 @@
+/** @format */
+import type {Prisma, Notification} from "@/prisma/generated/client";
+import {NotificationDelivery, NotificationType, UserRole} from "@/prisma/generated/client";
+
+/**
+ * Re-exporting generated Prisma types for the Notification entity.
+ */
+export type {Notification, NotificationPreference} from "@/prisma/generated/client";
+export {NotificationType, NotificationDelivery} from "@/prisma/generated/client";
+
+/**
+ * Data Transfer Object (DTO) for creating a new Notification.
+ */
+export type NotificationCreateType = Prisma.NotificationCreateInput;
+
+/**
+ * Type Definition for Notification Filtering.
+ */
+export type NotificationWhereInput = Prisma.NotificationWhereInput;
+
+/**
+ * Values interpolated into the localized notification message (e.g. `projectName`).
+ */
+export type NotificationParams = Record<string, string>;
+
+/**
+ * Latest notifications of a user together with their unread count.
+ * Used to render the notification bell.
+ */
+export type NotificationSummary = {
+    unreadCount: number;
+    recent: Notification[];
+};
+
+/**
+ * Number of notifications shown in the notification bell.
+ */
+export const RECENT_NOTIFICATIONS_LIMIT = 5;
+
+/**
+ * Email delivery chosen by a user for each event type.
+ */
+export type NotificationPreferences = Partial<Record<NotificationType, NotificationDelivery>>;
+
+/**
+ * Delivery used for event types the user has not configured.
+ */
+export const DEFAULT_NOTIFICATION_DELIVERY = NotificationDelivery.IMMEDIATE;
+
+/**
+ * Event types each role can receive, in the order shown on the preferences form.
+ */
+export const NOTIFICATION_TYPES_BY_ROLE: Record<UserRole, NotificationType[]> = {
+    [UserRole.ADMINISTRATOR]: [
+        NotificationType.NEW_ORGANIZATION_SIGNUP,
+    ],
+    [UserRole.STUDENT]: [
+        NotificationType.APPLICATION_ACCEPTED,
+        NotificationType.APPLICATION_REJECTED,
+        NotificationType.COORDINATOR_REVIEW_SUBMITTED,
+        NotificationType.ORGANIZATION_REVIEW_SUBMITTED,
+    ],
+    [UserRole.COORDINATOR]: [
+        NotificationType.PROJECT_ASSIGNED,
+    ],
+    [UserRole.ORGANIZATION]: [
+        NotificationType.ORGANIZATION_APPROVED,
+        NotificationType.PROJECT_APPROVED,
+        NotificationType.PROJECT_CHANGES_REQUESTED,
+    ],
+};
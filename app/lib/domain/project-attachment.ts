@@ -0,0 +1,101 @@
+/** @format */
+import type {Prisma} from "@/prisma/generated/client";
+
+/**
+ * Re-exporting generated Prisma types for the ProjectAttachment entity.
+ */
+export type {ProjectAttachment} from "@/prisma/generated/client";
+
+/**
+ * Data Transfer Object (DTO) for creating a new Project Attachment record.
+ */
+export type ProjectAttachmentCreateType = Prisma.ProjectAttachmentCreateInput;
+
+/**
+ * Project Attachment entity including the name of the user who uploaded it.
+ * Only non-sensitive uploader fields are selected, since the list is sent to the browser.
+ */
+export type ProjectAttachmentWithUploader = Prisma.ProjectAttachmentGetPayload<{
+    include: {
+        uploadedBy: {
+            select: { id: true; name: true; role: true }
+        };
+    };
+}>;
+
+/**
+ * A list of attachments as shown to one viewer, with what the viewer may change.
+ */
+export type AttachmentList = {
+    attachments: ProjectAttachmentWithUploader[];
+    /** Whether the viewer may add files to the list */
+    canUpload: boolean;
+    /** IDs of the attachments the viewer may delete */
+    deletableIds: string[];
+};
+
+/**
+ * Attachments of a project as shown to one viewer.
+ * Project materials (briefs, datasets, brand kits) are listed apart from the deliverables
+ * students hand in with their completion reports; students only see their own deliverables.
+ */
+export type ProjectAttachments = {
+    materials: AttachmentList;
+    deliverables: AttachmentList;
+};
+
+/**
+ * Largest accepted attachment, in bytes.
+ */
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+/**
+ * Accepted attachment file extensions and the MIME type each is served with.
+ * The type is derived from the extension rather than trusted from the browser.
+ */
+export const ATTACHMENT_CONTENT_TYPES: Record<string, string> = {
+    pdf: "application/pdf",
+    doc: "application/msword",
+    docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    xls: "application/vnd.ms-excel",
+    xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    ppt: "application/vnd.ms-powerpoint",
+    pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    odt: "application/vnd.oasis.opendocument.text",
+    ods: "application/vnd.oasis.opendocument.spreadsheet",
+    odp: "application/vnd.oasis.opendocument.presentation",
+    txt: "text/plain",
+    md: "text/markdown",
+    csv: "text/csv",
+    json: "application/json",
+    zip: "application/zip",
+    png: "image/png",
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    gif: "image/gif",
+    webp: "image/webp",
+    svg: "image/svg+xml",
+};
+
+/**
+ * Returns the lower-case extension of a file name, if it is an accepted attachment type.
+ *
+ * @param fileName - Name of the uploaded file.
+ * @returns The extension without the dot, or null if the type is not accepted.
+ */
+export function getAttachmentExtension(fileName: string): string | null {
+    const extension = fileName.split(".").pop()?.toLowerCase();
+    if (!extension || extension === fileName.toLowerCase() || !Object.hasOwn(ATTACHMENT_CONTENT_TYPES, extension)) {
+        return null;
+    }
+    return extension;
+}
+
+/**
+ * Builds the URL an attachment is downloaded from.
+ *
+ * @param id - ID of the attachment.
+ */
+export function getAttachmentDownloadUrl(id: string): string {
+    return `/api/attachments/${id}`;
+}
@@ -1,5 +1,6 @@
 /** @format */
-import type {Prisma} from "@/prisma/generated/client";
+import type {Prisma, PerformanceRating} from "@/prisma/generated/client";
+import type {CONTACT_USER_SELECT, PUBLIC_USER_SELECT} from "@/lib/domain/user";
 
 /**
  * Re-exporting generated Prisma types for the ProjectCompletion entity.
@@ -25,21 +26,56 @@ export type ProjectCompletionWhereInput = Prisma.ProjectCompletionWhereInput;
 /**
  * Project Completion entity including the Student and Project details.
  * Used for generating certificates or viewing portfolio history.
+ * The student comes with the contact details, the project owners only with their public fields.
  */
 export type ProjectCompletionWithDetails = Prisma.ProjectCompletionGetPayload<{
     include: {
         student: {
-            include: { user: true }
+            include: { user: { select: typeof CONTACT_USER_SELECT } }
         };
         project: {
             include: {
                 organization: {
-                    include: { user: true }
+                    include: { user: { select: typeof PUBLIC_USER_SELECT } }
                 };
                 coordinator: {
-                    include: { user: true }
+                    include: { user: { select: typeof PUBLIC_USER_SELECT } }
                 };
             }
         };
     };
-}>;
\ No newline at end of file
+}>;
+/**
+ * Minimum length of a written evaluation submitted by a coordinator or organization.
+ */
+export const MIN_EVALUATION_LENGTH = 50;
+
+/**
+ * Minimum length of the role description written by the student in a completion report.
+ */
+export const MIN_ROLE_DESCRIPTION_LENGTH = 50;
+
+/**
+ * Downloadable certificate of completion.
+ * The PDF content is base64 encoded so it can be returned from a server action.
+ */
+export type CompletionCertificate = {
+    fileName: string;
+    content: string;
+};
+
+/**
+ * Public summary of a certificate, returned when a verification code is checked.
+ * Contains only the details printed on the certificate itself.
+ */
+export type CertificateVerification = {
+    verificationCode: string;
+    studentName: string;
+    projectTitle: string;
+    organizationName: string;
+    coordinatorName: string | null;
+    actualHoursWorked: number | null;
+    coordinatorPerformanceRating: PerformanceRating | null;
+    organizationPerformanceRating: PerformanceRating | null;
+    completedAt: Date;
+};
@@ -1,5 +1,6 @@
 /** @format */
 import type {Prisma} from "@/prisma/generated/client";
+import type {CONTACT_USER_SELECT, PUBLIC_USER_SELECT} from "@/lib/domain/user";
 
 /**
  * Re-exporting generated Prisma types for the Project entity.
@@ -30,14 +31,30 @@ export type ProjectOrderByInput = Prisma.ProjectOrderByWithRelationInput;
 /**
  * Project entity including both the Organization and Coordinator profiles.
  * This is the standard payload for displaying project cards or lists.
+ * Only the public fields of the owning users are loaded.
  */
 export type ProjectWithDetails = Prisma.ProjectGetPayload<{
     include: {
         organization: {
-            include: { user: true }
+            include: { user: { select: typeof PUBLIC_USER_SELECT } }
         };
         coordinator: {
-            include: { user: true }
+            include: { user: { select: typeof PUBLIC_USER_SELECT } }
+        };
+    };
+}>;
+
+/**
+ * Project entity including the Organization and Coordinator profiles with the contact details
+ * of their users. Used by administrators and for notification emails.
+ */
+export type ProjectWithContacts = Prisma.ProjectGetPayload<{
+    include: {
+        organization: {
+            include: { user: { select: typeof CONTACT_USER_SELECT } }
+        };
+        coordinator: {
+            include: { user: { select: typeof CONTACT_USER_SELECT } }
         };
     };
 }>;
@@ -49,17 +66,43 @@ export type ProjectWithDetails = Prisma.ProjectGetPayload<{
 export type ProjectWithApplications = Prisma.ProjectGetPayload<{
     include: {
         organization: {
-            include: { user: true }
+            include: { user: { select: typeof PUBLIC_USER_SELECT } }
         };
         coordinator: {
-            include: { user: true }
+            include: { user: { select: typeof PUBLIC_USER_SELECT } }
         };
         applications: {
             include: {
                 student: {
-                    include: { user: true }
+                    include: { user: { select: typeof CONTACT_USER_SELECT } }
                 }
             }
         };
     };
-}>;
\ No newline at end of file
+}>;
+/**
+ * Project fields organizations may set on their own projects.
+ * Coordinator assignment, review feedback and lifecycle timestamps are managed by the platform.
+ */
+export const ORGANIZATION_PROJECT_FIELDS = [
+    "title",
+    "description",
+    "category",
+    "requiredSkills",
+    "estimatedHoursPerWeek",
+    "estimatedDurationWeeks",
+    "numberOfStudents",
+    "status",
+] as const;
+
+/**
+ * Keeps only the fields organizations may set from a project payload.
+ *
+ * @param data - The payload received from an organization.
+ * @returns A copy holding only the {@link ORGANIZATION_PROJECT_FIELDS}.
+ */
+export function pickOrganizationProjectFields<T extends object>(data: T): Partial<T> {
+    return Object.fromEntries(
+        Object.entries(data).filter(([field]) => (ORGANIZATION_PROJECT_FIELDS as readonly string[]).includes(field))
+    ) as Partial<T>;
+}
@@ -26,3 +26,71 @@ export type RateLimit = {
      */
     resetAt: number
 }
+
+/**
+ * Storage backend of the rate limiters.
+ * Implementations must count concurrent requests atomically, so that limits
+ * hold across every application instance sharing the store.
+ */
+export interface RateLimitStore {
+    /**
+     * Counts a request for a token, starting a new window if none is active.
+     *
+     * @param token - Unique identifier for the rate-limited resource, prefixed with the limiter name.
+     * @param limit - Maximum number of requests allowed within the window.
+     * @param interval - Length of a new window in milliseconds.
+     * @returns The bucket after counting the request.
+     */
+    increment(token: string, limit: number, interval: number): Promise<RateLimit>
+}
+
+/**
+ * Rate limiters of the platform, each with its own limits in the admin settings.
+ */
+export const RATE_LIMITERS = ['login', 'signup', 'passwordReset', 'emailResend', 'twoFactor'] as const
+
+export type RateLimiterName = typeof RATE_LIMITERS[number]
+
+/**
+ * Requests allowed per window for one limiter.
+ */
+export type RateLimitRule = {
+    limit: number
+    windowMinutes: number
+}
+
+/**
+ * Limits of every rate limiter, stored in the global configuration.
+ */
+export type RateLimitSettings = Record<RateLimiterName, RateLimitRule>
+
+/**
+ * Limits used until an administrator changes them.
+ */
+export const defaultRateLimits: RateLimitSettings = {
+    login: {limit: 5, windowMinutes: 15},
+    signup: {limit: 3, windowMinutes: 60},
+    passwordReset: {limit: 3, windowMinutes: 60},
+    emailResend: {limit: 3, windowMinutes: 60},
+    twoFactor: {limit: 5, windowMinutes: 15},
+}
+
+/**
+ * Reads the limits stored in the configuration, falling back to the defaults
+ * for missing or invalid rules.
+ *
+ * @param value - The stored `rateLimits` JSON value.
+ * @returns Complete limits for every rate limiter.
+ */
+export function resolveRateLimits(value: unknown): RateLimitSettings {
+    const stored = (value && typeof value === 'object' ? value : {}) as Partial<Record<RateLimiterName, Partial<RateLimitRule>>>
+    const isPositiveInteger = (n: unknown): n is number => Number.isInteger(n) && (n as number) > 0
+
+    return Object.fromEntries(RATE_LIMITERS.map((name) => {
+        const {limit, windowMinutes} = stored[name] ?? {}
+        return [name, {
+            limit: isPositiveInteger(limit) ? limit : defaultRateLimits[name].limit,
+            windowMinutes: isPositiveInteger(windowMinutes) ? windowMinutes : defaultRateLimits[name].windowMinutes,
+        }]
+    })) as RateLimitSettings
+}
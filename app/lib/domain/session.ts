@@ -1,11 +1,23 @@
 /** @format */
 import {User} from '@/lib/domain/user'
+import type {SsoLoginState} from '@/lib/domain/sso'
+
+/**
+ * Re-exporting the generated Prisma type for the Session entity (a signed-in device).
+ */
+export type {Session} from '@/prisma/generated/client'
 
 /**
  * Represents the active user session structure.
  * Stores authentication state and user profile information.
  */
 export type SessionData = {
+    /**
+     * ID of the `Session` row backing this cookie.
+     * The cookie is only valid while that row exists.
+     */
+    sessionId: string
+
     /**
      * The fully authenticated user entity.
      * Contains profile information and role data.
@@ -27,4 +39,49 @@ export type SessionData = {
      * Unix timestamp (in milliseconds) representing when the session is scheduled to expire.
      */
     expiresAt: number
+
+    /**
+     * Sign-in waiting for a two-factor code: the password was accepted
+     * but the user is not authenticated yet.
+     */
+    twoFactorChallenge?: TwoFactorChallenge
+
+    /**
+     * Single sign-on login waiting for the identity provider's callback.
+     */
+    ssoLogin?: SsoLoginState
+}
+
+/**
+ * Pending second sign-in step, kept in the session cookie.
+ */
+export type TwoFactorChallenge = {
+    userId: string
+
+    /**
+     * Unix timestamp (in milliseconds) after which the password has to be entered again.
+     */
+    expiresAt: number
+}
+
+/**
+ * Device details recorded when a session is created.
+ */
+export type SessionDevice = {
+    ipAddress: string | null
+    userAgent: string | null
+}
+
+/**
+ * A signed-in device as listed on the devices page.
+ */
+export type DeviceSession = SessionDevice & {
+    id: string
+    createdAt: Date
+    lastActiveAt: Date
+
+    /**
+     * True for the session of the device viewing the list.
+     */
+    isCurrent: boolean
 }
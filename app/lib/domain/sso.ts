@@ -0,0 +1,47 @@
+/** @format */
+
+/**
+ * Time a user has to sign in at the identity provider before the login attempt is discarded.
+ */
+export const SSO_LOGIN_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Single sign-on login in progress, kept in the session cookie between
+ * the redirect to the identity provider and its callback.
+ */
+export type SsoLoginState = {
+    /** Random value echoed by the provider, binding the callback to this browser. */
+    state: string;
+    /** Random value the provider embeds in the ID token, preventing token replay. */
+    nonce: string;
+    /** PKCE verifier whose hash was sent with the authorization request. */
+    codeVerifier: string;
+    /** Unix timestamp (in milliseconds) after which the login has to be restarted. */
+    expiresAt: number;
+};
+
+/**
+ * Public information about the configured identity provider, shown on the login page.
+ */
+export type SsoProvider = {
+    displayName: string;
+};
+
+/**
+ * Reasons a single sign-on login can fail. They travel in the login page URL
+ * after the provider's callback, so only these values are translated there.
+ */
+export const SSO_ERROR_REASONS = [
+    'disabled',
+    'invalidState',
+    'providerError',
+    'emailMissing',
+    'emailNotVerified',
+    'domainNotAllowed',
+    'accountConflict',
+    'accountSuspended',
+    'accountDeleted',
+    'failed',
+] as const;
+
+export type SsoErrorReason = typeof SSO_ERROR_REASONS[number];
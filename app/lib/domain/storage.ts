@@ -0,0 +1,213 @@
+/** @format */
+
+/**
+ * A file read back from storage.
+ */
+export type StoredFile = {
+    /** Raw file contents */
+    body: Buffer
+
+    /** MIME type recorded when the file was stored */
+    contentType: string
+}
+
+/**
+ * Backend holding uploaded files.
+ * Keys are relative paths such as `avatars/<uuid>.webp`; every stored file gets a new key,
+ * so files never change once written and can be cached indefinitely.
+ */
+export interface StorageDriver {
+    /**
+     * Stores a file, replacing any file with the same key.
+     *
+     * @param key - Relative path of the file.
+     * @param body - File contents.
+     * @param contentType - MIME type served with the file.
+     */
+    put(key: string, body: Buffer, contentType: string): Promise<void>
+
+    /**
+     * Reads a file.
+     *
+     * @param key - Relative path of the file.
+     * @returns The file, or null if no file has this key.
+     */
+    get(key: string): Promise<StoredFile | null>
+
+    /**
+     * Removes a file. Removing a missing file is not an error.
+     *
+     * @param key - Relative path of the file.
+     */
+    delete(key: string): Promise<void>
+}
+
+/**
+ * Storage backends selectable with the `STORAGE_DRIVER` environment variable.
+ */
+export const STORAGE_DRIVERS = ['local', 's3'] as const
+
+export type StorageDriverName = typeof STORAGE_DRIVERS[number]
+
+/**
+ * Kinds of images users can upload.
+ */
+export const IMAGE_KINDS = ['logo', 'avatar'] as const
+
+export type ImageKind = typeof IMAGE_KINDS[number]
+
+/**
+ * How uploaded images of one kind are validated and resized.
+ */
+export type ImageRule = {
+    /** Largest accepted upload, in bytes */
+    maxBytes: number
+
+    /** Size of the stored image, in pixels */
+    width: number
+    height: number
+
+    /**
+     * `inside` keeps the whole image within the box (logos),
+     * `cover` crops it to fill the box (profile pictures).
+     */
+    fit: 'inside' | 'cover'
+
+    /** Format the image is stored in */
+    format: 'png' | 'webp'
+
+    /** Folder of the stored files */
+    folder: string
+}
+
+export const IMAGE_RULES: Record<ImageKind, ImageRule> = {
+    logo: {
+        maxBytes: 2 * 1024 * 1024,
+        width: 512,
+        height: 512,
+        fit: 'inside',
+        format: 'png',
+        folder: 'logos',
+    },
+    avatar: {
+        maxBytes: 4 * 1024 * 1024,
+        width: 256,
+        height: 256,
+        fit: 'cover',
+        format: 'webp',
+        folder: 'avatars',
+    },
+}
+
+/**
+ * Allowance for the multipart framing and the other form fields sent along with an uploaded file, in bytes.
+ */
+export const UPLOAD_FORM_OVERHEAD_BYTES = 64 * 1024
+
+/**
+ * Checks the declared size of an upload request before its body is read.
+ * Requests without a `Content-Length` are refused, so the body is never read without a known bound.
+ *
+ * @param contentLength - Value of the request's `Content-Length` header.
+ * @param maxFileBytes - Largest file the form may carry.
+ */
+export function isUploadLengthAllowed(contentLength: string | null, maxFileBytes: number): boolean {
+    if (!contentLength) {
+        return false
+    }
+    const bytes = Number(contentLength)
+    return Number.isSafeInteger(bytes) && bytes >= 0 && bytes <= maxFileBytes + UPLOAD_FORM_OVERHEAD_BYTES
+}
+
+/**
+ * Checks whether a stored file may be served to anyone through {@link STORED_FILE_URL_PREFIX}.
+ * Only uploaded images (logos, profile pictures) are public; other files, such as
+ * project attachments, are served by routes that check access.
+ *
+ * @param key - Key of the file.
+ */
+export function isPublicStorageKey(key: string): boolean {
+    return IMAGE_KINDS.some((kind) => key.startsWith(`${IMAGE_RULES[kind].folder}/`))
+}
+
+/**
+ * Image formats accepted for upload.
+ * SVG is not accepted, since it can carry scripts.
+ */
+export const ALLOWED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'] as const
+
+/**
+ * Reasons an upload can be rejected, translated under `errors.storage`.
+ */
+export const STORAGE_ERROR_REASONS = [
+    'missingFile',
+    'invalidKind',
+    'invalidType',
+    'fileTooLarge',
+    'invalidImage',
+    'forbidden',
+    'failed',
+] as const
+
+export type StorageErrorReason = typeof STORAGE_ERROR_REASONS[number]
+
+/**
+ * Path under which stored files are served.
+ */
+export const STORED_FILE_URL_PREFIX = '/api/files/'
+
+/**
+ * Builds the URL a stored file is served from.
+ *
+ * @param key - Relative path of the file.
+ * @returns The URL, relative to the application.
+ */
+export function toStoredFileUrl(key: string): string {
+    return `${STORED_FILE_URL_PREFIX}${key}`
+}
+
+/**
+ * Makes a stored file URL absolute, for content read outside the application such as emails.
+ * Other values, e.g. external links and data URLs, are returned unchanged.
+ *
+ * @param url - A URL built by {@link toStoredFileUrl}, or any other value.
+ * @param baseUrl - Public URL of the application, usually `APP_URL`.
+ * @returns The absolute URL.
+ */
+export function toAbsoluteStoredFileUrl(url: string, baseUrl: string | undefined): string {
+    if (!getStoredFileKey(url) || !baseUrl) {
+        return url
+    }
+    return `${baseUrl.replace(/\/+$/, '')}${url}`
+}
+
+/**
+ * Checks whether a value may be saved as an image of the given kind: either empty, or the URL of
+ * an image uploaded to that kind's folder. Data URLs and external links are rejected, so images
+ * are never stored in the database.
+ *
+ * @param url - The submitted value.
+ * @param kind - The kind of image.
+ */
+export function isUploadedImageUrl(url: unknown, kind: ImageKind): boolean {
+    if (url === undefined || url === null || url === '') {
+        return true
+    }
+    if (typeof url !== 'string') {
+        return false
+    }
+    return getStoredFileKey(url)?.startsWith(`${IMAGE_RULES[kind].folder}/`) ?? false
+}
+
+/**
+ * Extracts the storage key from a URL built by {@link toStoredFileUrl}.
+ *
+ * @param url - A stored file URL, or any other value such as an external link.
+ * @returns The key, or null if the URL does not point to a stored file.
+ */
+export function getStoredFileKey(url: string | null | undefined): string | null {
+    if (!url || !url.startsWith(STORED_FILE_URL_PREFIX)) {
+        return null
+    }
+    return url.slice(STORED_FILE_URL_PREFIX.length) || null
+}
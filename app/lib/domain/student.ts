@@ -1,6 +1,7 @@
 /** @format */
 import type {Prisma} from "@/prisma/generated/client";
 import {UserCreateType} from "@/lib/domain/user";
+import type {ProjectCompletionWithDetails} from "@/lib/domain/project-completion";
 
 /**
  * Re-exporting generated Prisma types for the Student entity.
@@ -31,6 +32,16 @@ export type StudentWithUser = Prisma.StudentGetPayload<{
  * Composite DTO used by the Service Layer to orchestrate registration.
  */
 export type StudentRegistrationInput = {
-    user: Omit<UserCreateType, 'role' | 'hashedPassword'> & { password: string };
+    /** The password is omitted for accounts provisioned through single sign-on. */
+    user: Omit<UserCreateType, 'role' | 'hashedPassword'> & { password?: string };
     student: Omit<StudentCreateType, 'user' | 'userId'>;
 };
+
+/**
+ * Public portfolio of a student: the profile together with the published
+ * completions the student chose to show.
+ */
+export type StudentPortfolio = {
+    student: StudentWithUser;
+    completions: ProjectCompletionWithDetails[];
+};
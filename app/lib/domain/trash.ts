@@ -0,0 +1,93 @@
+/** @format */
+import type {Organization, Project, User, UserRole} from "@/prisma/generated/client";
+import type {PaginationResult} from "@/lib/domain/pagination";
+
+/**
+ * Days deleted entities stay in the trash until an administrator changes it.
+ */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Longest retention period accepted in the settings.
+ */
+export const MAX_TRASH_RETENTION_DAYS = 365;
+
+/**
+ * Kinds of entities listed in the trash, each on its own tab.
+ */
+export const TRASH_TYPES = ["users", "projects"] as const;
+
+export type TrashType = typeof TRASH_TYPES[number];
+
+/**
+ * Filters chosen on the trash page, as they appear in the URL.
+ */
+export type TrashFilters = {
+    type?: string;
+    /** Name, email or project title */
+    search?: string;
+};
+
+/**
+ * Deleted user, with the organization profile of organization accounts.
+ */
+export type DeletedUser = User & {
+    organization: Organization | null;
+};
+
+/**
+ * Deleted project, with the name of the organization that owns it.
+ */
+export type DeletedProject = Project & {
+    organization: Organization & { user: User };
+};
+
+/**
+ * Entry of the trash page, built from a deleted user or project.
+ */
+export type TrashItem = {
+    id: string;
+    type: TrashType;
+    /** User name or project title */
+    name: string;
+    /** Email of users, name of the owning organization of projects */
+    detail: string;
+    /** Role of users, null for projects */
+    role: UserRole | null;
+    deletedAt: Date;
+    /** When the purge job removes the entry permanently */
+    purgeAt: Date;
+    /** Set for projects of an organization in the trash, which come back with the organization */
+    restoredWithOrganization: boolean;
+};
+
+/**
+ * One page of the trash, with the retention period used for the purge dates.
+ */
+export type TrashPage = PaginationResult<TrashItem> & {
+    retentionDays: number;
+};
+
+/**
+ * Reads the retention period stored in the configuration, falling back to the default
+ * for missing or out of range values.
+ *
+ * @param value - The stored `trashRetentionDays` value.
+ * @returns Whole days between 1 and {@link MAX_TRASH_RETENTION_DAYS}.
+ */
+export function resolveTrashRetentionDays(value: unknown): number {
+    return Number.isInteger(value) && (value as number) > 0 && (value as number) <= MAX_TRASH_RETENTION_DAYS
+        ? value as number
+        : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Computes when an entity moved to the trash is purged permanently.
+ *
+ * @param deletedAt - When the entity was deleted.
+ * @param retentionDays - The configured retention period.
+ * @returns The purge date.
+ */
+export function getTrashPurgeDate(deletedAt: Date, retentionDays: number): Date {
+    return new Date(new Date(deletedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000);
+}
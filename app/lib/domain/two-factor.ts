@@ -0,0 +1,47 @@
+/** @format */
+import {UserRole} from "@/lib/domain/user";
+
+/**
+ * Re-exporting the generated Prisma type for the TwoFactorAuth entity.
+ */
+export type {TwoFactorAuth} from "@/prisma/generated/client";
+
+/**
+ * Roles that must use two-factor authentication when the platform requires it for staff.
+ */
+export const TWO_FACTOR_STAFF_ROLES: UserRole[] = [UserRole.ADMINISTRATOR, UserRole.COORDINATOR];
+
+/**
+ * Number of recovery codes issued when two-factor authentication is enabled.
+ */
+export const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Time a user has to enter their code after the password was accepted.
+ */
+export const TWO_FACTOR_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Two-factor state of a user, as shown on the profile page.
+ */
+export type TwoFactorStatus = {
+    enabled: boolean;
+    recoveryCodesRemaining: number;
+
+    /**
+     * True if the platform settings do not allow the user to turn it off.
+     */
+    required: boolean;
+};
+
+/**
+ * Data needed to add the account to an authenticator app.
+ */
+export type TwoFactorEnrollment = {
+    /** Base32 secret, for apps that cannot scan the QR code. */
+    secret: string;
+    /** The `otpauth://` URI encoded in the QR code. */
+    otpauthUrl: string;
+    /** The QR code as a PNG data URL. */
+    qrCodeDataUrl: string;
+};
@@ -89,3 +89,73 @@ export type UserWithRoles = Prisma.UserGetPayload<{
         administrator: true;
     };
 }>;
+
+/**
+ * User fields that may be shown to any other user, such as the owner of a project card.
+ * Relations loaded for the browser select these instead of the whole row.
+ */
+export const PUBLIC_USER_SELECT = {
+    id: true,
+    name: true,
+    profilePictureUrl: true
+} as const;
+
+/**
+ * User fields needed to reach a user, for staff and partner views and for notification emails.
+ */
+export const CONTACT_USER_SELECT = {
+    ...PUBLIC_USER_SELECT,
+    email: true,
+    locale: true
+} as const;
+
+/**
+ * User as shown to other users.
+ */
+export type PublicUser = Prisma.UserGetPayload<{
+    select: typeof PUBLIC_USER_SELECT;
+}>;
+
+/**
+ * User with the contact details needed to reach them.
+ */
+export type ContactUser = Prisma.UserGetPayload<{
+    select: typeof CONTACT_USER_SELECT;
+}>;
+
+/**
+ * User fields users may change from their own profile page.
+ */
+export const PROFILE_USER_FIELDS = ["name", "bio", "profilePictureUrl"] as const;
+
+/**
+ * Keeps only the {@link PROFILE_USER_FIELDS} in the nested user update of a profile payload,
+ * so a profile update cannot change other fields of the account, such as its role or email.
+ *
+ * @param data - The profile update received from the user.
+ * @returns A copy whose `user` relation holds a plain update of the allowed fields only.
+ */
+export function pickProfileUserFields<T extends object>(data: T): T {
+    if (!("user" in data)) {
+        return data;
+    }
+    const update = (data.user as { update?: Record<string, unknown> } | null)?.update ?? {};
+    return {
+        ...data,
+        user: {
+            update: Object.fromEntries(
+                Object.entries(update).filter(([field]) => (PROFILE_USER_FIELDS as readonly string[]).includes(field))
+            ),
+        },
+    };
+}
+
+/**
+ * Reads the profile picture set by a profile payload picked with {@link pickProfileUserFields}.
+ *
+ * @param data - The profile update.
+ * @returns The new value, or undefined if the payload leaves the picture unchanged.
+ */
+export function getProfilePictureUpdate(data: object): unknown {
+    return (data as { user?: { update?: Record<string, unknown> } }).user?.update?.profilePictureUrl;
+}
@@ -27,13 +27,14 @@ export class AdministratorRepository {
     }
     
     /**
-     * Retrieves all administrator profiles.
+     * Retrieves all administrator profiles, except those of deleted accounts.
      *
      * @returns A list of all administrator profiles including their user relation.
      */
     async getMany(): Promise<AdministratorWithUser[]> {
         try {
             return await database.administrator.findMany({
+                where: {user: {deletedAt: null}},
                 include: {user: true},
             });
         } catch (error) {
@@ -51,7 +52,7 @@ export class AdministratorRepository {
     async getByUserId(userId: string): Promise<AdministratorWithUser | null> {
         try {
             const admin = await database.administrator.findUnique({
-                where: {userId},
+                where: {userId, user: {deletedAt: null}},
                 include: {user: true},
             })
 
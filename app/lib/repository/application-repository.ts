@@ -5,11 +5,27 @@ import type {
     Application,
     ApplicationCreateType,
     ApplicationUpdateType,
-    ApplicationWhereInput
+    ApplicationWhereInput,
+    ApplicationWithDetails
 } from '@/lib/domain/application';
 import {ApplicationStatus} from '@/lib/domain/application';
 import {createLogger} from '@/lib/utils/logger';
 import {PaginationParams, PaginationResult} from '@/lib/domain/pagination';
+import {CONTACT_USER_SELECT, PUBLIC_USER_SELECT} from '@/lib/domain/user';
+
+/**
+ * Student and project relations included with detailed applications. The applicant is loaded
+ * with the contact details, the project owners only with what may be shown to other users.
+ */
+const DETAILS_INCLUDE = {
+    student: {include: {user: {select: CONTACT_USER_SELECT}}},
+    project: {
+        include: {
+            organization: {include: {user: {select: PUBLIC_USER_SELECT}}},
+            coordinator: {include: {user: {select: PUBLIC_USER_SELECT}}}
+        }
+    }
+} as const;
 
 /**
  * Filter criteria available for application queries.
@@ -30,7 +46,8 @@ export type ApplicationSortField = 'createdAt' | 'updatedAt';
  * Singleton repository handling database operations for Applications.
  *
  * Manages the lifecycle of student applications to projects, including
- * retrieval, creation, status updates, and deletion.
+ * retrieval, creation, status updates, and deletion. Applications of students
+ * or projects in the trash are left out of every read.
  */
 export class ApplicationRepository {
     private static _instance: ApplicationRepository;
@@ -56,7 +73,10 @@ export class ApplicationRepository {
      */
     async countByStatus(organizationId?: string): Promise<Record<ApplicationStatus, number>> {
         try {
-            const where: ApplicationWhereInput = organizationId ? {project: {organizationId}} : {};
+            const where: ApplicationWhereInput = {
+                student: {user: {deletedAt: null}},
+                project: {organizationId, deletedAt: null}
+            };
             
             const counts = await database.application.groupBy({
                 by: ['status'],
@@ -108,7 +128,8 @@ export class ApplicationRepository {
                 studentId: filters.studentId,
                 projectId: filters.projectId,
                 status: filters.status,
-                project: filters.organizationId ? {organizationId: filters.organizationId} : undefined
+                student: {user: {deletedAt: null}},
+                project: {organizationId: filters.organizationId, deletedAt: null}
             };
 
             const [items, total] = await Promise.all([
@@ -118,7 +139,7 @@ export class ApplicationRepository {
                     take: pageSize,
                     orderBy: {[sort.field]: sort.direction},
                     include: {
-                        student: {include: {user: true}},
+                        student: {include: {user: {select: CONTACT_USER_SELECT}}},
                         project: {include: {organization: true}}
                     }
                 }),
@@ -138,6 +159,59 @@ export class ApplicationRepository {
         }
     }
 
+    /**
+     * Retrieves a paginated list of applications (with student and full project details)
+     * based on provided filters.
+     *
+     * @param {PaginationParams} pagination Page number and size configuration.
+     * @param {ApplicationFilterOptions} [filters={}] Student, project, and status filters.
+     * @param {object} [sort] Sorting configuration defaults to created descending.
+     * @returns {Promise<PaginationResult<ApplicationWithDetails>>} Paginated applications with metadata.
+     */
+    async findManyWithDetails(
+        pagination: PaginationParams,
+        filters: ApplicationFilterOptions = {},
+        sort: { field: ApplicationSortField; direction: 'asc' | 'desc' } = {
+            field: 'createdAt',
+            direction: 'desc'
+        }
+    ): Promise<PaginationResult<ApplicationWithDetails>> {
+        const {page, pageSize} = pagination;
+        const skip = (page - 1) * pageSize;
+
+        try {
+            const where: ApplicationWhereInput = {
+                studentId: filters.studentId,
+                projectId: filters.projectId,
+                status: filters.status,
+                student: {user: {deletedAt: null}},
+                project: {organizationId: filters.organizationId, deletedAt: null}
+            };
+
+            const [items, total] = await Promise.all([
+                database.application.findMany({
+                    where,
+                    skip,
+                    take: pageSize,
+                    orderBy: {[sort.field]: sort.direction},
+                    include: DETAILS_INCLUDE
+                }),
+                database.application.count({where})
+            ]);
+
+            return {
+                items,
+                total,
+                page,
+                pageSize,
+                totalPages: Math.ceil(total / pageSize)
+            };
+        } catch (error) {
+            this.logger.error('Failed to find applications', error as Error);
+            throw error;
+        }
+    }
+
     /**
      * Retrieves a single application by its unique identifier.
      *
@@ -149,9 +223,9 @@ export class ApplicationRepository {
     async getById(id: string): Promise<Application | null> {
         try {
             return await database.application.findUnique({
-                where: {id},
+                where: {id, student: {user: {deletedAt: null}}, project: {deletedAt: null}},
                 include: {
-                    student: {include: {user: true}},
+                    student: {include: {user: {select: CONTACT_USER_SELECT}}},
                     project: true
                 }
             });
@@ -164,6 +238,46 @@ export class ApplicationRepository {
         }
     }
 
+    /**
+     * Retrieves a single application with the student (with user) and the project
+     * (with organization and coordinator profiles).
+     *
+     * @param {string} id The unique application ID.
+     * @returns {Promise<ApplicationWithDetails | null>} The application data or null if not found.
+     */
+    async getByIdWithDetails(id: string): Promise<ApplicationWithDetails | null> {
+        try {
+            return await database.application.findUnique({
+                where: {id, student: {user: {deletedAt: null}}, project: {deletedAt: null}},
+                include: DETAILS_INCLUDE
+            });
+        } catch (error) {
+            this.logger.error('Failed to retrieve application with details', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Counts the applications of a project in a given status.
+     *
+     * @param {string} projectId The project's ID.
+     * @param {ApplicationStatus} status The status to count.
+     * @param {TransactionClient} [tx=database] Optional transaction client.
+     * @returns {Promise<number>} The number of matching applications.
+     */
+    async countByProjectAndStatus(
+        projectId: string,
+        status: ApplicationStatus,
+        tx: TransactionClient = database
+    ): Promise<number> {
+        try {
+            return await tx.application.count({where: {projectId, status}});
+        } catch (error) {
+            this.logger.error('Failed to count project applications', error as Error);
+            throw error;
+        }
+    }
+
     /**
      * Checks for an existing application by a specific student for a specific project.
      *
@@ -236,6 +350,37 @@ export class ApplicationRepository {
         }
     }
 
+    /**
+     * Updates an application only while it still matches the given conditions, e.g. its
+     * expected status, so concurrent reviews cannot overwrite each other.
+     *
+     * @param {string} id The unique ID of the application to update.
+     * @param {ApplicationWhereInput} conditions The conditions the application must still meet.
+     * @param {ApplicationUpdateType} data The fields to update.
+     * @param {TransactionClient} [tx=database] Optional transaction client.
+     * @returns {Promise<boolean>} True if the application was updated.
+     */
+    async updateIfMatches(
+        id: string,
+        conditions: ApplicationWhereInput,
+        data: ApplicationUpdateType,
+        tx: TransactionClient = database
+    ): Promise<boolean> {
+        try {
+            const {count} = await tx.application.updateMany({where: {...conditions, id}, data});
+            if (count > 0) {
+                this.logger.info('Application updated', {
+                    applicationId: id,
+                    status: data.status
+                });
+            }
+            return count > 0;
+        } catch (error) {
+            this.logger.error('Failed to update application', error as Error);
+            throw error;
+        }
+    }
+
     /**
      * Deletes or withdraws an application.
      *
@@ -0,0 +1,153 @@
+/** @format */
+import 'server-only';
+import {database} from '@/lib/database';
+import type {
+    AuditEvent,
+    AuditEventCreateType,
+    AuditEventWhereInput
+} from '@/lib/domain/audit';
+import {AuditAction, AuditEntityType} from '@/lib/domain/audit';
+import {createLogger} from '@/lib/utils/logger';
+import {PaginationParams, PaginationResult} from '@/lib/domain/pagination';
+
+/**
+ * Filter criteria available for audit log queries.
+ */
+export type AuditEventFilterOptions = {
+    /** Matches the actor's name or email */
+    actor?: string;
+    entityType?: AuditEntityType;
+    /** Matches the target's ID or name */
+    entity?: string;
+    action?: AuditAction;
+    /** Earliest time of the action, inclusive */
+    from?: Date;
+    /** Latest time of the action, inclusive */
+    to?: Date;
+};
+
+/**
+ * Repository handling database operations for the audit log.
+ * Entries are only ever added; they are never updated or deleted.
+ */
+export class AuditEventRepository {
+    private static _instance: AuditEventRepository;
+    private readonly logger = createLogger('AuditEventRepository');
+
+    private constructor() {
+    }
+
+    /**
+     * Gets the singleton instance of the repository.
+     */
+    static get instance(): AuditEventRepository {
+        if (!AuditEventRepository._instance) {
+            AuditEventRepository._instance = new AuditEventRepository();
+        }
+        return AuditEventRepository._instance;
+    }
+
+    /**
+     * Builds the query condition for a set of filters.
+     */
+    private buildWhere(filters: AuditEventFilterOptions): AuditEventWhereInput {
+        return {
+            action: filters.action,
+            entityType: filters.entityType,
+            createdAt: filters.from || filters.to ? {gte: filters.from, lte: filters.to} : undefined,
+            AND: [
+                filters.actor
+                    ? {
+                        OR: [
+                            {actorName: {contains: filters.actor, mode: 'insensitive'}},
+                            {actorEmail: {contains: filters.actor, mode: 'insensitive'}},
+                        ]
+                    }
+                    : {},
+                filters.entity
+                    ? {
+                        OR: [
+                            {entityId: filters.entity},
+                            {entityLabel: {contains: filters.entity, mode: 'insensitive'}},
+                        ]
+                    }
+                    : {},
+            ],
+        };
+    }
+
+    /**
+     * Records an action.
+     *
+     * @param {AuditEventCreateType} data The action, its actor and its target.
+     * @returns {Promise<AuditEvent>} The recorded entry.
+     */
+    async create(data: AuditEventCreateType): Promise<AuditEvent> {
+        try {
+            return await database.auditEvent.create({data});
+        } catch (error) {
+            this.logger.error('Failed to record audit event', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Retrieves a paginated list of entries, most recent first.
+     *
+     * @param {PaginationParams} pagination Page number and size configuration.
+     * @param {AuditEventFilterOptions} [filters={}] Optional actor, target, action and date filters.
+     * @returns {Promise<PaginationResult<AuditEvent>>} Paginated entries with metadata.
+     */
+    async findMany(
+        pagination: PaginationParams,
+        filters: AuditEventFilterOptions = {}
+    ): Promise<PaginationResult<AuditEvent>> {
+        const {page, pageSize} = pagination;
+        const skip = (page - 1) * pageSize;
+
+        try {
+            const where = this.buildWhere(filters);
+
+            const [items, total] = await Promise.all([
+                database.auditEvent.findMany({
+                    where,
+                    skip,
+                    take: pageSize,
+                    orderBy: {createdAt: 'desc'},
+                }),
+                database.auditEvent.count({where})
+            ]);
+
+            return {
+                items,
+                total,
+                page,
+                pageSize,
+                totalPages: Math.ceil(total / pageSize)
+            };
+        } catch (error) {
+            this.logger.error('Failed to find audit events', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Retrieves the most recent entries matching the filters, without pagination.
+     *
+     * @param {AuditEventFilterOptions} filters Actor, target, action and date filters.
+     * @param {number} limit Maximum number of entries returned.
+     * @returns {Promise<AuditEvent[]>} The entries, most recent first.
+     */
+    async findAll(filters: AuditEventFilterOptions, limit: number): Promise<AuditEvent[]> {
+        try {
+            return await database.auditEvent.findMany({
+                where: this.buildWhere(filters),
+                take: limit,
+                orderBy: {createdAt: 'desc'},
+            });
+        } catch (error) {
+            this.logger.error('Failed to export audit events', error as Error);
+            throw error;
+        }
+    }
+}
@@ -36,8 +36,8 @@ export class ConfigRepository {
     /**
      * Retrieves the global configuration singleton.
      *
-     * Automatically handles the decryption of the SMTP password. If decryption fails
-     * (e.g., due to a changed encryption key), the password field is returned as `null`
+     * Automatically handles the decryption of the SMTP password and the OIDC client secret.
+     * If decryption fails (e.g., due to a changed encryption key), the field is returned empty
      * to prevent application crashes.
      *
      * @param useCache - Whether to return a cached version if available (default: true)
@@ -68,6 +68,18 @@ export class ConfigRepository {
                 }
             }
 
+            if (config.oidcClientSecret) {
+                try {
+                    config.oidcClientSecret = decrypt(config.oidcClientSecret)
+                } catch (error) {
+                    this.logger.error(
+                        'Failed to decrypt OIDC client secret. Returning empty string for safety.',
+                        error as Error
+                    )
+                    config.oidcClientSecret = ''
+                }
+            }
+
             this.cache = config
             return config
         } catch (error) {
@@ -79,7 +91,7 @@ export class ConfigRepository {
     /**
      * Creates the global configuration record.
      *
-     * Handles secure encryption of the SMTP password before saving.
+     * Handles secure encryption of the SMTP password and the OIDC client secret before saving.
      *
      * @param data - The Prisma create input object.
      * @returns {Promise<Config>} The newly created configuration record.
@@ -92,6 +104,10 @@ export class ConfigRepository {
                 payload.smtpPassword = encrypt(payload.smtpPassword)
             }
 
+            if (payload.oidcClientSecret) {
+                payload.oidcClientSecret = encrypt(payload.oidcClientSecret)
+            }
+
             const createdConfig = await database.config.create({
                 data: payload,
             })
@@ -108,7 +124,7 @@ export class ConfigRepository {
     /**
      * Updates the global configuration record.
      *
-     * Handles secure encryption of the SMTP password before updating.
+     * Handles secure encryption of the SMTP password and the OIDC client secret before updating.
      *
      * @param data - The Prisma update input object.
      * @returns {Promise<Config>} The updated configuration record.
@@ -121,6 +137,10 @@ export class ConfigRepository {
                 payload.smtpPassword = encrypt(payload.smtpPassword as string)
             }
 
+            if (payload.oidcClientSecret) {
+                payload.oidcClientSecret = encrypt(payload.oidcClientSecret as string)
+            }
+
             const updatedConfig = await database.config.update({
                 where: {id: 'global_config'},
                 data: payload,
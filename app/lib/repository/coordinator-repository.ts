@@ -5,10 +5,18 @@ import type {
     Coordinator,
     CoordinatorCreateType,
     CoordinatorUpdateType,
-    CoordinatorWithUser
+    CoordinatorWithUser,
+    CoordinatorWithWorkload
 } from '@/lib/domain/coordinator'
+import type {ProjectStatus} from '@/lib/domain/project'
+import {CONTACT_USER_SELECT} from '@/lib/domain/user'
 import {createLogger} from '@/lib/utils/logger'
 
+/**
+ * Coordinators who can take on projects: their account is neither suspended nor deleted.
+ */
+const ACTIVE_COORDINATOR_WHERE = {user: {isSuspended: false, deletedAt: null}} as const
+
 /**
  * Repository for managing Coordinator entities.
  */
@@ -35,7 +43,7 @@ export class CoordinatorRepository {
     async getByUserId(userId: string): Promise<CoordinatorWithUser | null> {
         try {
             const coordinator = await database.coordinator.findUnique({
-                where: {userId},
+                where: {userId, user: {deletedAt: null}},
                 include: {user: true},
             })
 
@@ -49,6 +57,51 @@ export class CoordinatorRepository {
         }
     }
 
+    /**
+     * Retrieves every active (not suspended or deleted) coordinator together with the number of
+     * assigned projects that are in one of the given statuses.
+     *
+     * @param activeStatuses - The project statuses that count towards a coordinator's workload.
+     * @returns The coordinators including the user's contact details and their active project count.
+     */
+    async findAllWithWorkload(activeStatuses: ProjectStatus[]): Promise<CoordinatorWithWorkload[]> {
+        try {
+            const coordinators = await database.coordinator.findMany({
+                where: ACTIVE_COORDINATOR_WHERE,
+                include: {
+                    user: {select: CONTACT_USER_SELECT},
+                    _count: {
+                        select: {projects: {where: {status: {in: activeStatuses}, deletedAt: null}}}
+                    }
+                },
+                orderBy: {user: {name: 'asc'}},
+            })
+
+            return coordinators.map(({_count, ...coordinator}) => ({
+                ...coordinator,
+                activeProjectCount: _count.projects,
+            }))
+        } catch (error) {
+            this.logger.error('Failed to retrieve coordinators with workload', error as Error)
+            throw error
+        }
+    }
+
+    /**
+     * Checks whether a coordinator exists and can take on projects.
+     *
+     * @param id - The ID of the coordinator profile.
+     * @returns True if the coordinator's account is neither suspended nor deleted.
+     */
+    async isActive(id: string): Promise<boolean> {
+        try {
+            return await database.coordinator.count({where: {...ACTIVE_COORDINATOR_WHERE, id}}) > 0
+        } catch (error) {
+            this.logger.error('Failed to check coordinator', error as Error)
+            throw error
+        }
+    }
+
     /**
      * Creates a new coordinator profile.
      *
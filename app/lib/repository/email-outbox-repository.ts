@@ -0,0 +1,219 @@
+/** @format */
+import 'server-only';
+import {database, TransactionClient} from '@/lib/database';
+import type {
+    OutboundEmail,
+    OutboundEmailCreateType,
+    OutboundEmailSummary,
+    OutboundEmailWhereInput
+} from '@/lib/domain/email-outbox';
+import {OutboundEmailStatus} from '@/lib/domain/email-outbox';
+import {createLogger} from '@/lib/utils/logger';
+import {getFailedAttemptUpdate} from '@/lib/utils/mailer';
+import {PaginationParams, PaginationResult} from '@/lib/domain/pagination';
+
+/**
+ * Filter criteria available for outbox queries.
+ */
+export type OutboundEmailFilterOptions = {
+    status?: OutboundEmailStatus;
+    search?: string;
+};
+
+/**
+ * Repository handling database operations for the email outbox.
+ */
+export class EmailOutboxRepository {
+    private static _instance: EmailOutboxRepository;
+    private readonly logger = createLogger('EmailOutboxRepository');
+
+    private constructor() {
+    }
+
+    /**
+     * Gets the singleton instance of the repository.
+     */
+    static get instance(): EmailOutboxRepository {
+        if (!EmailOutboxRepository._instance) {
+            EmailOutboxRepository._instance = new EmailOutboxRepository();
+        }
+        return EmailOutboxRepository._instance;
+    }
+
+    /**
+     * Queues a new email for delivery.
+     *
+     * @param {OutboundEmailCreateType} data The rendered email.
+     * @param {TransactionClient} [tx=database] Optional transaction client for atomic operations.
+     * @returns {Promise<OutboundEmail>} The queued email.
+     */
+    async create(data: OutboundEmailCreateType, tx: TransactionClient = database): Promise<OutboundEmail> {
+        try {
+            return await tx.outboundEmail.create({data});
+        } catch (error) {
+            this.logger.error('Failed to queue email', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Retrieves a queued email by its ID.
+     *
+     * @param {string} id The email ID.
+     * @returns {Promise<OutboundEmail | null>} The email or null if not found.
+     */
+    async getById(id: string): Promise<OutboundEmail | null> {
+        try {
+            return await database.outboundEmail.findUnique({where: {id}});
+        } catch (error) {
+            this.logger.error('Failed to get queued email', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Retrieves a queued email by its ID, without the rendered body.
+     *
+     * @param {string} id The email ID.
+     * @returns {Promise<OutboundEmailSummary | null>} The email or null if not found.
+     */
+    async getSummaryById(id: string): Promise<OutboundEmailSummary | null> {
+        try {
+            return await database.outboundEmail.findUnique({where: {id}, omit: {html: true}});
+        } catch (error) {
+            this.logger.error('Failed to get queued email', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Retrieves a paginated list of emails without their rendered bodies, most recent first.
+     *
+     * @param {PaginationParams} pagination Page number and size configuration.
+     * @param {OutboundEmailFilterOptions} [filters={}] Optional status and recipient/subject search.
+     * @returns {Promise<PaginationResult<OutboundEmailSummary>>} Paginated emails with metadata.
+     */
+    async findMany(
+        pagination: PaginationParams,
+        filters: OutboundEmailFilterOptions = {}
+    ): Promise<PaginationResult<OutboundEmailSummary>> {
+        const {page, pageSize} = pagination;
+        const skip = (page - 1) * pageSize;
+
+        try {
+            const where: OutboundEmailWhereInput = {
+                status: filters.status,
+                OR: filters.search
+                    ? [
+                        {to: {contains: filters.search, mode: 'insensitive'}},
+                        {subject: {contains: filters.search, mode: 'insensitive'}},
+                    ]
+                    : undefined,
+            };
+
+            const [items, total] = await Promise.all([
+                database.outboundEmail.findMany({
+                    where,
+                    skip,
+                    take: pageSize,
+                    orderBy: {createdAt: 'desc'},
+                    omit: {html: true},
+                }),
+                database.outboundEmail.count({where})
+            ]);
+
+            return {
+                items,
+                total,
+                page,
+                pageSize,
+                totalPages: Math.ceil(total / pageSize)
+            };
+        } catch (error) {
+            this.logger.error('Failed to find queued emails', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Claims a pending email for delivery and counts the attempt.
+     * Only one process can claim an email, so concurrent senders never deliver it twice.
+     *
+     * @param {string} id The email ID.
+     * @returns {Promise<boolean>} Whether the email was claimed.
+     */
+    async claim(id: string): Promise<boolean> {
+        try {
+            const result = await database.outboundEmail.updateMany({
+                where: {id, status: OutboundEmailStatus.PENDING},
+                data: {status: OutboundEmailStatus.SENDING, attempts: {increment: 1}},
+            });
+            return result.count === 1;
+        } catch (error) {
+            this.logger.error('Failed to claim queued email', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Marks an email as delivered.
+     *
+     * @param {string} id The email ID.
+     * @returns {Promise<OutboundEmail>} The updated email.
+     */
+    async markSent(id: string): Promise<OutboundEmail> {
+        try {
+            return await database.outboundEmail.update({
+                where: {id},
+                data: {status: OutboundEmailStatus.SENT, sentAt: new Date(), lastError: null},
+            });
+        } catch (error) {
+            this.logger.error('Failed to mark email as sent', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Records a failed delivery attempt, rescheduling the email or marking it as failed.
+     *
+     * @param {string} id The email ID.
+     * @param {number} attempts The number of attempts made so far.
+     * @param {unknown} deliveryError The delivery error.
+     * @returns {Promise<OutboundEmail>} The updated email.
+     */
+    async markAttemptFailed(id: string, attempts: number, deliveryError: unknown): Promise<OutboundEmail> {
+        try {
+            return await database.outboundEmail.update({
+                where: {id},
+                data: getFailedAttemptUpdate(attempts, deliveryError),
+            });
+        } catch (error) {
+            this.logger.error('Failed to record email delivery failure', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Puts an email back in the queue with a fresh attempt budget.
+     *
+     * @param {string} id The email ID.
+     * @returns {Promise<OutboundEmail>} The requeued email.
+     */
+    async requeue(id: string): Promise<OutboundEmail> {
+        try {
+            return await database.outboundEmail.update({
+                where: {id},
+                data: {
+                    status: OutboundEmailStatus.PENDING,
+                    attempts: 0,
+                    lastError: null,
+                    nextAttemptAt: new Date(),
+                    sentAt: null,
+                },
+            });
+        } catch (error) {
+            this.logger.error('Failed to requeue email', error as Error);
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,100 @@
+/** @format */
+import 'server-only';
+import {database, TransactionClient} from '@/lib/database';
+import type {EmailTemplate, EmailTemplateContent, EmailTemplateKey} from '@/lib/domain/email-template';
+import {createLogger} from '@/lib/utils/logger';
+
+/**
+ * Repository handling database operations for email template overrides.
+ */
+export class EmailTemplateRepository {
+    private static _instance: EmailTemplateRepository;
+    private readonly logger = createLogger('EmailTemplateRepository');
+
+    private constructor() {
+    }
+
+    /**
+     * Gets the singleton instance of the repository.
+     */
+    static get instance(): EmailTemplateRepository {
+        if (!EmailTemplateRepository._instance) {
+            EmailTemplateRepository._instance = new EmailTemplateRepository();
+        }
+        return EmailTemplateRepository._instance;
+    }
+
+    /**
+     * Retrieves the override of a template for a locale.
+     *
+     * @param {EmailTemplateKey} key The template key.
+     * @param {string} locale The locale.
+     * @returns {Promise<EmailTemplate | null>} The override or null if the built-in template applies.
+     */
+    async findByKeyAndLocale(key: EmailTemplateKey, locale: string): Promise<EmailTemplate | null> {
+        try {
+            return await database.emailTemplate.findUnique({where: {key_locale: {key, locale}}});
+        } catch (error) {
+            this.logger.error('Failed to get email template', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Retrieves every override of a locale.
+     *
+     * @param {string} locale The locale.
+     * @returns {Promise<EmailTemplate[]>} The overrides of the locale.
+     */
+    async findByLocale(locale: string): Promise<EmailTemplate[]> {
+        try {
+            return await database.emailTemplate.findMany({where: {locale}});
+        } catch (error) {
+            this.logger.error('Failed to list email templates', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Creates or replaces the override of a template for a locale.
+     *
+     * @param {EmailTemplateKey} key The template key.
+     * @param {string} locale The locale.
+     * @param {EmailTemplateContent} content The subject and HTML body.
+     * @param {TransactionClient} [tx=database] Optional transaction client for atomic operations.
+     * @returns {Promise<EmailTemplate>} The stored override.
+     */
+    async upsert(
+        key: EmailTemplateKey,
+        locale: string,
+        content: EmailTemplateContent,
+        tx: TransactionClient = database
+    ): Promise<EmailTemplate> {
+        try {
+            return await tx.emailTemplate.upsert({
+                where: {key_locale: {key, locale}},
+                create: {key, locale, ...content},
+                update: content,
+            });
+        } catch (error) {
+            this.logger.error('Failed to save email template', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Removes the override of a template for a locale, restoring the built-in template.
+     *
+     * @param {EmailTemplateKey} key The template key.
+     * @param {string} locale The locale.
+     * @param {TransactionClient} [tx=database] Optional transaction client for atomic operations.
+     */
+    async delete(key: EmailTemplateKey, locale: string, tx: TransactionClient = database): Promise<void> {
+        try {
+            await tx.emailTemplate.deleteMany({where: {key, locale}});
+        } catch (error) {
+            this.logger.error('Failed to delete email template', error as Error);
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,49 @@
+/** @format */
+import 'server-only'
+import {LRUCache} from 'lru-cache';
+import {RateLimit, RateLimitStore} from '@/lib/domain/rate-limit';
+import {createLogger} from '@/lib/utils/logger';
+
+/**
+ * Repository for managing rate limiting state using an in-memory LRU cache
+ * Tracks request counts per token (e.g., IP address, user ID, API key) within time windows
+ * State is lost on restart and not shared between instances; use the PostgreSQL store when scaling out
+ */
+export class MemoryRateLimitRepository implements RateLimitStore {
+    private tokenCache: LRUCache<string, RateLimit>;
+    private readonly logger = createLogger('MemoryRateLimitRepository');
+
+    /**
+     * Initializes the rate limit repository with specified options
+     *
+     * @param maxTokens - Maximum number of unique tokens to track simultaneously in the cache
+     */
+    constructor(maxTokens: number) {
+        this.tokenCache = new LRUCache({
+            max: maxTokens || 5000,
+        });
+        this.logger.debug('MemoryRateLimitRepository initialized', { maxTokens });
+    }
+
+    /**
+     * Counts a request for a token, starting a new window if none is active
+     * Entries expire from the cache together with their window
+     *
+     * @param token - Unique identifier for the rate-limited resource
+     * @param limit - Maximum number of requests allowed within the time window
+     * @param interval - Length of a new window in milliseconds
+     * @returns The RateLimit object after counting the request
+     */
+    async increment(token: string, limit: number, interval: number): Promise<RateLimit> {
+        let rateLimit = this.tokenCache.get(token);
+
+        if (!rateLimit || Date.now() > rateLimit.resetAt) {
+            rateLimit = {token, count: 0, limit, resetAt: Date.now() + interval};
+            this.logger.debug('New rate limit entry created', { token, limit, resetAt: rateLimit.resetAt });
+        }
+
+        rateLimit.count += 1;
+        this.tokenCache.set(token, rateLimit, {ttl: Math.max(rateLimit.resetAt - Date.now(), 1)});
+        return rateLimit;
+    }
+}
@@ -0,0 +1,90 @@
+/** @format */
+import 'server-only';
+import {database, TransactionClient} from '@/lib/database';
+import type {
+    NotificationDelivery,
+    NotificationPreference,
+    NotificationType
+} from '@/lib/domain/notification';
+import {createLogger} from '@/lib/utils/logger';
+
+/**
+ * Repository handling database operations for notification preferences.
+ */
+export class NotificationPreferenceRepository {
+    private static _instance: NotificationPreferenceRepository;
+    private readonly logger = createLogger('NotificationPreferenceRepository');
+
+    private constructor() {
+    }
+
+    /**
+     * Gets the singleton instance of the repository.
+     */
+    static get instance(): NotificationPreferenceRepository {
+        if (!NotificationPreferenceRepository._instance) {
+            NotificationPreferenceRepository._instance = new NotificationPreferenceRepository();
+        }
+        return NotificationPreferenceRepository._instance;
+    }
+
+    /**
+     * Retrieves every stored preference of a user.
+     *
+     * @param {string} userId The user ID.
+     * @returns {Promise<NotificationPreference[]>} The user's preferences.
+     */
+    async findByUserId(userId: string): Promise<NotificationPreference[]> {
+        try {
+            return await database.notificationPreference.findMany({where: {userId}});
+        } catch (error) {
+            this.logger.error('Failed to find notification preferences', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Retrieves the preference of a user for one event type.
+     *
+     * @param {string} userId The user ID.
+     * @param {NotificationType} type The event type.
+     * @returns {Promise<NotificationPreference | null>} The preference or null if the user kept the default.
+     */
+    async findByUserAndType(userId: string, type: NotificationType): Promise<NotificationPreference | null> {
+        try {
+            return await database.notificationPreference.findUnique({
+                where: {userId_type: {userId, type}},
+            });
+        } catch (error) {
+            this.logger.error('Failed to find notification preference', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Creates or updates the preference of a user for one event type.
+     *
+     * @param {string} userId The user ID.
+     * @param {NotificationType} type The event type.
+     * @param {NotificationDelivery} delivery The chosen delivery.
+     * @param {TransactionClient} [tx=database] Optional transaction client for atomic operations.
+     * @returns {Promise<NotificationPreference>} The stored preference.
+     */
+    async upsert(
+        userId: string,
+        type: NotificationType,
+        delivery: NotificationDelivery,
+        tx: TransactionClient = database
+    ): Promise<NotificationPreference> {
+        try {
+            return await tx.notificationPreference.upsert({
+                where: {userId_type: {userId, type}},
+                update: {delivery},
+                create: {userId, type, delivery},
+            });
+        } catch (error) {
+            this.logger.error('Failed to save notification preference', error as Error);
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,154 @@
+/** @format */
+import 'server-only';
+import {database, TransactionClient} from '@/lib/database';
+import type {
+    Notification,
+    NotificationCreateType,
+    NotificationWhereInput
+} from '@/lib/domain/notification';
+import {createLogger} from '@/lib/utils/logger';
+import {PaginationParams, PaginationResult} from '@/lib/domain/pagination';
+
+/**
+ * Filter criteria available for notification queries.
+ */
+export type NotificationFilterOptions = {
+    unreadOnly?: boolean;
+};
+
+/**
+ * Repository handling database operations for in-app notifications.
+ */
+export class NotificationRepository {
+    private static _instance: NotificationRepository;
+    private readonly logger = createLogger('NotificationRepository');
+
+    private constructor() {
+    }
+
+    /**
+     * Gets the singleton instance of the repository.
+     */
+    static get instance(): NotificationRepository {
+        if (!NotificationRepository._instance) {
+            NotificationRepository._instance = new NotificationRepository();
+        }
+        return NotificationRepository._instance;
+    }
+
+    /**
+     * Creates a new notification.
+     *
+     * @param {NotificationCreateType} data The notification creation payload.
+     * @param {TransactionClient} [tx=database] Optional transaction client for atomic operations.
+     * @returns {Promise<Notification>} The created notification.
+     */
+    async create(data: NotificationCreateType, tx: TransactionClient = database): Promise<Notification> {
+        try {
+            return await tx.notification.create({data});
+        } catch (error) {
+            this.logger.error('Failed to create notification', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Retrieves a paginated list of a user's notifications, most recent first.
+     *
+     * @param {string} userId The recipient's user ID.
+     * @param {PaginationParams} pagination Page number and size configuration.
+     * @param {NotificationFilterOptions} [filters={}] Optional filters.
+     * @returns {Promise<PaginationResult<Notification>>} Paginated notifications with metadata.
+     */
+    async findManyByUserId(
+        userId: string,
+        pagination: PaginationParams,
+        filters: NotificationFilterOptions = {}
+    ): Promise<PaginationResult<Notification>> {
+        const {page, pageSize} = pagination;
+        const skip = (page - 1) * pageSize;
+
+        try {
+            const where: NotificationWhereInput = {
+                userId,
+                readAt: filters.unreadOnly ? null : undefined,
+            };
+
+            const [items, total] = await Promise.all([
+                database.notification.findMany({
+                    where,
+                    skip,
+                    take: pageSize,
+                    orderBy: {createdAt: 'desc'},
+                }),
+                database.notification.count({where})
+            ]);
+
+            return {
+                items,
+                total,
+                page,
+                pageSize,
+                totalPages: Math.ceil(total / pageSize)
+            };
+        } catch (error) {
+            this.logger.error('Failed to find notifications', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Counts the unread notifications of a user.
+     *
+     * @param {string} userId The recipient's user ID.
+     * @returns {Promise<number>} The number of unread notifications.
+     */
+    async countUnread(userId: string): Promise<number> {
+        try {
+            return await database.notification.count({where: {userId, readAt: null}});
+        } catch (error) {
+            this.logger.error('Failed to count unread notifications', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Marks a single notification of a user as read.
+     * Has no effect if the notification belongs to another user or is already read.
+     *
+     * @param {string} id The notification ID.
+     * @param {string} userId The recipient's user ID.
+     * @returns {Promise<number>} The number of notifications updated (0 or 1).
+     */
+    async markRead(id: string, userId: string): Promise<number> {
+        try {
+            const result = await database.notification.updateMany({
+                where: {id, userId, readAt: null},
+                data: {readAt: new Date()},
+            });
+            return result.count;
+        } catch (error) {
+            this.logger.error('Failed to mark notification as read', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Marks every unread notification of a user as read.
+     *
+     * @param {string} userId The recipient's user ID.
+     * @returns {Promise<number>} The number of notifications updated.
+     */
+    async markAllRead(userId: string): Promise<number> {
+        try {
+            const result = await database.notification.updateMany({
+                where: {userId, readAt: null},
+                data: {readAt: new Date()},
+            });
+            return result.count;
+        } catch (error) {
+            this.logger.error('Failed to mark all notifications as read', error as Error);
+            throw error;
+        }
+    }
+}
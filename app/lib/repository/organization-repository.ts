@@ -35,7 +35,7 @@ export class OrganizationRepository {
     async getByUserId(userId: string): Promise<OrganizationWithUser | null> {
         try {
             const org = await database.organization.findUnique({
-                where: {userId},
+                where: {userId, deletedAt: null},
                 include: {user: true},
             })
 
@@ -57,7 +57,7 @@ export class OrganizationRepository {
     async getPendingVerification(): Promise<OrganizationWithUser[]> {
         try {
             const pendingOrgs = await database.organization.findMany({
-                where: {isVerified: false},
+                where: {isVerified: false, deletedAt: null},
                 include: {user: true},
                 orderBy: {user: {createdAt: 'desc'}},
             })
@@ -118,7 +118,7 @@ export class OrganizationRepository {
     }
 
     /**
-     * Deletes an organization profile.
+     * Permanently deletes an organization profile.
      * Note: Does not delete the parent User entity.
      *
      * @param userId - The ID of the user whose profile to delete.
@@ -134,4 +134,41 @@ export class OrganizationRepository {
             throw error
         }
     }
+
+    /**
+     * Moves an organization profile to the trash together with its account.
+     *
+     * @param userId - The ID of the user whose profile to delete.
+     * @param deletedAt - The deletion time of the account.
+     * @param tx - Optional transaction client.
+     * @returns The deleted organization profile.
+     */
+    async softDelete(userId: string, deletedAt: Date, tx: TransactionClient = database): Promise<Organization> {
+        try {
+            const org = await tx.organization.update({where: {userId}, data: {deletedAt}})
+            this.logger.info('Organization profile moved to trash', { userId })
+            return org
+        } catch (error) {
+            this.logger.error('Failed to move organization to trash', error as Error)
+            throw error
+        }
+    }
+
+    /**
+     * Restores an organization profile from the trash.
+     *
+     * @param userId - The ID of the user whose profile to restore.
+     * @param tx - Optional transaction client.
+     * @returns The restored organization profile.
+     */
+    async restore(userId: string, tx: TransactionClient = database): Promise<Organization> {
+        try {
+            const org = await tx.organization.update({where: {userId}, data: {deletedAt: null}})
+            this.logger.info('Organization profile restored from trash', { userId })
+            return org
+        } catch (error) {
+            this.logger.error('Failed to restore organization', error as Error)
+            throw error
+        }
+    }
 }
@@ -0,0 +1,67 @@
+/** @format */
+import 'server-only'
+import {database} from '@/lib/database'
+import {RateLimit, RateLimitStore} from '@/lib/domain/rate-limit'
+import {createLogger} from '@/lib/utils/logger'
+
+/**
+ * How often expired buckets are removed from the table.
+ */
+const PURGE_INTERVAL_MS = 10 * 60 * 1000
+
+/**
+ * Repository for managing rate limiting state in PostgreSQL.
+ * Counts survive restarts and are shared by every application instance.
+ * Each request is counted with a single upsert, so concurrent requests cannot exceed the limit.
+ */
+export class PostgresRateLimitRepository implements RateLimitStore {
+    private readonly logger = createLogger('PostgresRateLimitRepository')
+
+    /** Time of the last removal of expired buckets */
+    private lastPurgeAt = 0
+
+    /**
+     * Counts a request for a token, starting a new window if none is active.
+     *
+     * @param token - Unique identifier for the rate-limited resource.
+     * @param limit - Maximum number of requests allowed within the time window.
+     * @param interval - Length of a new window in milliseconds.
+     * @returns The bucket after counting the request.
+     */
+    async increment(token: string, limit: number, interval: number): Promise<RateLimit> {
+        try {
+            const now = new Date()
+            const resetAt = new Date(now.getTime() + interval)
+            const [bucket] = await database.$queryRaw<{ count: number; resetAt: Date }[]>`
+                INSERT INTO "rate_limits" ("token", "count", "resetAt")
+                VALUES (${token}, 1, ${resetAt})
+                ON CONFLICT ("token") DO UPDATE SET
+                    "count"   = CASE WHEN "rate_limits"."resetAt" < ${now} THEN 1 ELSE "rate_limits"."count" + 1 END,
+                    "resetAt" = CASE WHEN "rate_limits"."resetAt" < ${now} THEN EXCLUDED."resetAt" ELSE "rate_limits"."resetAt" END
+                RETURNING "count", "resetAt"`
+
+            await this.purgeExpired()
+
+            return {token, count: bucket.count, limit, resetAt: bucket.resetAt.getTime()}
+        } catch (error) {
+            this.logger.error('Failed to count rate-limited request', error as Error)
+            throw error
+        }
+    }
+
+    /**
+     * Removes buckets whose window has ended, at most once per purge interval.
+     * Failures are logged only, as stale rows do not affect the limits.
+     */
+    private async purgeExpired(): Promise<void> {
+        if (Date.now() - this.lastPurgeAt < PURGE_INTERVAL_MS) return
+        this.lastPurgeAt = Date.now()
+
+        try {
+            const {count} = await database.rateLimitBucket.deleteMany({where: {resetAt: {lt: new Date()}}})
+            this.logger.debug('Expired rate limit buckets removed', {count})
+        } catch (error) {
+            this.logger.error('Failed to remove expired rate limit buckets', error as Error)
+        }
+    }
+}
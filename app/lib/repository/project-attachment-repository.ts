@@ -0,0 +1,133 @@
+/** @format */
+import 'server-only';
+import {database} from '@/lib/database';
+import type {
+    ProjectAttachment,
+    ProjectAttachmentCreateType,
+    ProjectAttachmentWithUploader
+} from '@/lib/domain/project-attachment';
+import {createLogger} from '@/lib/utils/logger';
+
+/**
+ * Uploader fields included with attachments, limited to what may be shown to other users.
+ */
+const UPLOADER_INCLUDE = {
+    uploadedBy: {
+        select: {id: true, name: true, role: true}
+    }
+} as const;
+
+/**
+ * Repository handling database operations for project attachments.
+ *
+ * Only the attachment metadata is kept in the database; the file contents
+ * are stored through the StorageService under `storageKey`.
+ */
+export class ProjectAttachmentRepository {
+    private static _instance: ProjectAttachmentRepository;
+    private readonly logger = createLogger('ProjectAttachmentRepository');
+
+    private constructor() {
+    }
+
+    /**
+     * Gets the singleton instance of the repository.
+     */
+    static get instance(): ProjectAttachmentRepository {
+        if (!ProjectAttachmentRepository._instance) {
+            ProjectAttachmentRepository._instance = new ProjectAttachmentRepository();
+        }
+        return ProjectAttachmentRepository._instance;
+    }
+
+    /**
+     * Retrieves a single attachment by its ID.
+     *
+     * @param {string} id The attachment ID.
+     * @returns {Promise<ProjectAttachment | null>} The attachment if found, otherwise null.
+     */
+    async getById(id: string): Promise<ProjectAttachment | null> {
+        try {
+            return await database.projectAttachment.findUnique({where: {id}});
+        } catch (error) {
+            this.logger.error('Failed to fetch project attachment', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Retrieves the materials of a project, i.e. attachments not linked to a completion.
+     *
+     * @param {string} projectId The project ID.
+     * @returns {Promise<ProjectAttachmentWithUploader[]>} The materials, oldest first.
+     */
+    async findMaterials(projectId: string): Promise<ProjectAttachmentWithUploader[]> {
+        try {
+            return await database.projectAttachment.findMany({
+                where: {projectId, projectCompletionId: null},
+                include: UPLOADER_INCLUDE,
+                orderBy: {createdAt: 'asc'},
+            });
+        } catch (error) {
+            this.logger.error('Failed to fetch project materials', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Retrieves deliverables handed in for a project.
+     *
+     * @param {string} projectId The project ID.
+     * @param {string} [completionId] Optional completion ID to only return the deliverables of one student.
+     * @returns {Promise<ProjectAttachmentWithUploader[]>} The deliverables, oldest first.
+     */
+    async findDeliverables(projectId: string, completionId?: string): Promise<ProjectAttachmentWithUploader[]> {
+        try {
+            return await database.projectAttachment.findMany({
+                where: {
+                    projectId,
+                    projectCompletionId: completionId ?? {not: null},
+                },
+                include: UPLOADER_INCLUDE,
+                orderBy: {createdAt: 'asc'},
+            });
+        } catch (error) {
+            this.logger.error('Failed to fetch project deliverables', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Creates a new attachment record.
+     *
+     * @param {ProjectAttachmentCreateType} data The attachment creation payload.
+     * @returns {Promise<ProjectAttachmentWithUploader>} The created attachment.
+     */
+    async create(data: ProjectAttachmentCreateType): Promise<ProjectAttachmentWithUploader> {
+        try {
+            const attachment = await database.projectAttachment.create({data, include: UPLOADER_INCLUDE});
+            this.logger.info('Project attachment created', {attachmentId: attachment.id});
+            return attachment;
+        } catch (error) {
+            this.logger.error('Failed to create project attachment', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Deletes an attachment record.
+     *
+     * @param {string} id The attachment ID.
+     * @returns {Promise<ProjectAttachment>} The deleted attachment.
+     */
+    async delete(id: string): Promise<ProjectAttachment> {
+        try {
+            const attachment = await database.projectAttachment.delete({where: {id}});
+            this.logger.info('Project attachment deleted', {attachmentId: id});
+            return attachment;
+        } catch (error) {
+            this.logger.error('Failed to delete project attachment', error as Error);
+            throw error;
+        }
+    }
+}
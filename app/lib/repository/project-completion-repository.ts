@@ -6,10 +6,26 @@ import type {
     ProjectCompletionCreateType,
     ProjectCompletionUpdateType,
     ProjectCompletionWhereInput,
-    ProjectCompletionStatus, ProjectCompletionWithDetails
+    ProjectCompletionWithDetails
 } from '@/lib/domain/project-completion';
+import {ProjectCompletionStatus} from '@/lib/domain/project-completion';
 import {createLogger} from '@/lib/utils/logger';
 import {PaginationParams, PaginationResult} from '@/lib/domain/pagination';
+import {CONTACT_USER_SELECT, PUBLIC_USER_SELECT} from '@/lib/domain/user';
+
+/**
+ * Student and project relations included with completions. The student is loaded with the
+ * contact details, the project owners only with what may be shown to other users.
+ */
+const DETAILS_INCLUDE = {
+    student: {include: {user: {select: CONTACT_USER_SELECT}}},
+    project: {
+        include: {
+            organization: {include: {user: {select: PUBLIC_USER_SELECT}}},
+            coordinator: {include: {user: {select: PUBLIC_USER_SELECT}}}
+        }
+    }
+} as const;
 
 /**
  * Filter criteria available for project completion queries.
@@ -18,6 +34,7 @@ export type CompletionFilterOptions = {
     studentId?: string;
     projectId?: string;
     organizationId?: string;
+    coordinatorId?: string;
     status?: ProjectCompletionStatus;
     studentName?: string;
     coordinatorName?: string;
@@ -34,6 +51,7 @@ export type CompletionSortField = 'createdAt';
  *
  * Provides methods for listing, retrieving, creating, and updating
  * completion records, with support for pagination and transactions.
+ * Completions of students or projects in the trash are left out of listings and lookups by ID.
  */
 export class ProjectCompletionRepository {
     private static _instance: ProjectCompletionRepository;
@@ -60,7 +78,10 @@ export class ProjectCompletionRepository {
      */
     async countAll(organizationId?: string): Promise<number> {
         try {
-            const where: ProjectCompletionWhereInput = organizationId ? {project: {organizationId}} : {};
+            const where: ProjectCompletionWhereInput = {
+                student: {user: {deletedAt: null}},
+                project: {organizationId, deletedAt: null}
+            };
             return await database.projectCompletion.count({where});
         } catch (error) {
             this.logger.error('Failed to count project completions', error as Error);
@@ -93,7 +114,9 @@ export class ProjectCompletionRepository {
                 projectId: filters.projectId,
                 status: filters.status,
                 project: {
+                    deletedAt: null,
                     organizationId: filters.organizationId,
+                    coordinatorId: filters.coordinatorId,
                     title: filters.projectName ? {contains: filters.projectName, mode: 'insensitive'} : undefined,
                     coordinator: filters.coordinatorName ? {
                         user: {
@@ -101,11 +124,12 @@ export class ProjectCompletionRepository {
                         }
                     } : undefined,
                 },
-                student: filters.studentName ? {
+                student: {
                     user: {
-                        name: {contains: filters.studentName, mode: 'insensitive'}
+                        deletedAt: null,
+                        name: filters.studentName ? {contains: filters.studentName, mode: 'insensitive'} : undefined
                     }
-                } : undefined,
+                },
             };
 
             const [items, total] = await Promise.all([
@@ -114,15 +138,7 @@ export class ProjectCompletionRepository {
                     skip,
                     take: pageSize,
                     orderBy: {[sort.field]: sort.direction},
-                    include: {
-                        student: {include: {user: true}},
-                        project: {
-                            include: {
-                                organization: {include: {user: true}},
-                                coordinator: {include: {user: true}}
-                            }
-                        }
-                    }
+                    include: DETAILS_INCLUDE
                 }),
                 database.projectCompletion.count({where})
             ]);
@@ -151,16 +167,8 @@ export class ProjectCompletionRepository {
     async getById(id: string): Promise<ProjectCompletionWithDetails | null> {
         try {
             return await database.projectCompletion.findUnique({
-                where: {id},
-                include: {
-                    student: {include: {user: true}},
-                    project: {
-                        include: {
-                            organization: {include: {user: true}},
-                            coordinator: {include: {user: true}}
-                        }
-                    }
-                }
+                where: {id, student: {user: {deletedAt: null}}, project: {deletedAt: null}},
+                include: DETAILS_INCLUDE
             });
         } catch (error) {
             this.logger.error(
@@ -187,15 +195,7 @@ export class ProjectCompletionRepository {
         try {
             return await database.projectCompletion.findFirst({
                 where: {studentId, projectId},
-                include: {
-                    student: {include: {user: true}},
-                    project: {
-                        include: {
-                            organization: {include: {user: true}},
-                            coordinator: {include: {user: true}}
-                        }
-                    }
-                }
+                include: DETAILS_INCLUDE
             });
         } catch (error) {
             this.logger.error(
@@ -206,6 +206,57 @@ export class ProjectCompletionRepository {
         }
     }
 
+    /**
+     * Retrieves a project completion by its certificate verification code.
+     * Issued certificates stay verifiable while the student or project is in the trash.
+     *
+     * @param {string} verificationCode The code printed on the certificate.
+     * @returns {Promise<ProjectCompletionWithDetails | null>} The completion record or null if not found.
+     */
+    async getByVerificationCode(verificationCode: string): Promise<ProjectCompletionWithDetails | null> {
+        try {
+            return await database.projectCompletion.findUnique({
+                where: {verificationCode},
+                include: DETAILS_INCLUDE
+            });
+        } catch (error) {
+            this.logger.error(
+                'Failed to retrieve completion by verification code',
+                error as Error
+            );
+            throw error;
+        }
+    }
+
+    /**
+     * Retrieves the published completions of a student that are visible in their portfolio.
+     *
+     * Results are ordered by completion date, most recent first.
+     *
+     * @param {string} studentId The student's ID.
+     * @returns {Promise<ProjectCompletionWithDetails[]>} The portfolio completions.
+     */
+    async findPortfolioByStudentId(studentId: string): Promise<ProjectCompletionWithDetails[]> {
+        try {
+            return await database.projectCompletion.findMany({
+                where: {
+                    studentId,
+                    status: ProjectCompletionStatus.PUBLISHED,
+                    isVisibleInPortfolio: true,
+                    project: {deletedAt: null, organization: {deletedAt: null}}
+                },
+                orderBy: {completedAt: 'desc'},
+                include: DETAILS_INCLUDE
+            });
+        } catch (error) {
+            this.logger.error(
+                'Failed to find portfolio completions',
+                error as Error
+            );
+            throw error;
+        }
+    }
+
     /**
      * Creates a new project completion record.
      *
@@ -220,15 +271,7 @@ export class ProjectCompletionRepository {
         try {
             const completion = await tx.projectCompletion.create({
                 data,
-                include: {
-                    student: {include: {user: true}},
-                    project: {
-                        include: {
-                            organization: {include: {user: true}},
-                            coordinator: {include: {user: true}}
-                        }
-                    }
-                }
+                include: DETAILS_INCLUDE
             });
             this.logger.info('Project completion submitted', {
                 completionId: completion.id
@@ -259,15 +302,7 @@ export class ProjectCompletionRepository {
             const completion = await tx.projectCompletion.update({
                 where: {id},
                 data,
-                include: {
-                    student: {include: {user: true}},
-                    project: {
-                        include: {
-                            organization: {include: {user: true}},
-                            coordinator: {include: {user: true}}
-                        }
-                    }
-                }
+                include: DETAILS_INCLUDE
             });
             this.logger.info('Project completion updated', {
                 completionId: id
@@ -278,4 +313,69 @@ export class ProjectCompletionRepository {
             throw error;
         }
     }
+
+    /**
+     * Updates a completion only while it still matches the given conditions, e.g. its
+     * expected status, so a report cannot be edited after a reviewer acted on it.
+     *
+     * @param {string} id The unique ID of the completion to update.
+     * @param {ProjectCompletionWhereInput} conditions The conditions the completion must still meet.
+     * @param {ProjectCompletionUpdateType} data The fields to update.
+     * @param {TransactionClient} [tx=database] Optional transaction client.
+     * @returns {Promise<boolean>} True if the completion was updated.
+     */
+    async updateIfMatches(
+        id: string,
+        conditions: ProjectCompletionWhereInput,
+        data: ProjectCompletionUpdateType,
+        tx: TransactionClient = database
+    ): Promise<boolean> {
+        try {
+            const {count} = await tx.projectCompletion.updateMany({where: {...conditions, id}, data});
+            if (count > 0) {
+                this.logger.info('Project completion updated', {
+                    completionId: id
+                });
+            }
+            return count > 0;
+        } catch (error) {
+            this.logger.error('Failed to update completion', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Stores a certificate verification code unless the completion already has one, so
+     * concurrent downloads of the same certificate end up with a single code.
+     *
+     * @param {string} id The unique ID of the completion.
+     * @param {string} verificationCode The newly generated code.
+     * @param {TransactionClient} [tx=database] Optional transaction client.
+     * @returns {Promise<string | null>} The code stored on the completion, or null if it does not exist.
+     */
+    async assignVerificationCode(
+        id: string,
+        verificationCode: string,
+        tx: TransactionClient = database
+    ): Promise<string | null> {
+        try {
+            const {count} = await tx.projectCompletion.updateMany({
+                where: {id, verificationCode: null},
+                data: {verificationCode}
+            });
+            if (count > 0) {
+                this.logger.info('Verification code assigned', {
+                    completionId: id
+                });
+            }
+            const completion = await tx.projectCompletion.findUnique({
+                where: {id},
+                select: {verificationCode: true}
+            });
+            return completion?.verificationCode ?? null;
+        } catch (error) {
+            this.logger.error('Failed to assign verification code', error as Error);
+            throw error;
+        }
+    }
 }
@@ -6,11 +6,15 @@ import type {
     ProjectCreateType,
     ProjectUpdateType,
     ProjectWhereInput,
+    ProjectWithApplications,
+    ProjectWithContacts,
     ProjectWithDetails
 } from '@/lib/domain/project';
-import {ProjectStatus} from '@/lib/domain/project';
+import {ProjectCategory, ProjectStatus} from '@/lib/domain/project';
 import {createLogger} from '@/lib/utils/logger';
 import {PaginationParams, PaginationResult} from '@/lib/domain/pagination';
+import type {DeletedProject} from '@/lib/domain/trash';
+import {CONTACT_USER_SELECT, PUBLIC_USER_SELECT} from '@/lib/domain/user';
 
 /**
  * Filter criteria available for project queries.
@@ -19,6 +23,13 @@ export type ProjectFilterOptions = {
     search?: string;
     status?: ProjectStatus;
     organizationId?: string;
+    coordinatorId?: string;
+    category?: ProjectCategory;
+    skills?: string[];
+    minHoursPerWeek?: number;
+    maxHoursPerWeek?: number;
+    minDurationWeeks?: number;
+    maxDurationWeeks?: number;
 };
 
 /**
@@ -26,6 +37,24 @@ export type ProjectFilterOptions = {
  */
 export type ProjectSortField = 'createdAt' | 'title' | 'deadline';
 
+/**
+ * Organization and coordinator profiles included with projects sent to the browser,
+ * limited to what may be shown to other users.
+ */
+const DETAILS_INCLUDE = {
+    organization: {include: {user: {select: PUBLIC_USER_SELECT}}},
+    coordinator: {include: {user: {select: PUBLIC_USER_SELECT}}}
+} as const;
+
+/**
+ * Organization and coordinator profiles with the contact details of their users,
+ * for administrators and notification emails.
+ */
+const CONTACTS_INCLUDE = {
+    organization: {include: {user: {select: CONTACT_USER_SELECT}}},
+    coordinator: {include: {user: {select: CONTACT_USER_SELECT}}}
+} as const;
+
 /**
  * Singleton repository handling database operations for Projects.
  *
@@ -48,6 +77,44 @@ export class ProjectRepository {
         return ProjectRepository._instance;
     }
 
+    /**
+     * Builds the Prisma where clause for the provided filter options.
+     *
+     * Search matches title and description, skills match projects requiring any
+     * of the given skills, and hour/duration bounds are inclusive. Projects in the
+     * trash are never matched.
+     *
+     * @param {ProjectFilterOptions} filters The filter criteria.
+     * @returns {ProjectWhereInput} The corresponding where clause.
+     */
+    private buildWhere(filters: ProjectFilterOptions): ProjectWhereInput {
+        const hasHours = filters.minHoursPerWeek !== undefined || filters.maxHoursPerWeek !== undefined;
+        const hasDuration = filters.minDurationWeeks !== undefined || filters.maxDurationWeeks !== undefined;
+
+        return {
+            deletedAt: null,
+            status: filters.status,
+            organizationId: filters.organizationId,
+            coordinatorId: filters.coordinatorId,
+            category: filters.category,
+            requiredSkills: filters.skills && filters.skills.length > 0
+                ? {hasSome: filters.skills}
+                : undefined,
+            estimatedHoursPerWeek: hasHours
+                ? {gte: filters.minHoursPerWeek, lte: filters.maxHoursPerWeek}
+                : undefined,
+            estimatedDurationWeeks: hasDuration
+                ? {gte: filters.minDurationWeeks, lte: filters.maxDurationWeeks}
+                : undefined,
+            OR: filters.search
+                ? [
+                    {title: {contains: filters.search, mode: 'insensitive'}},
+                    {description: {contains: filters.search, mode: 'insensitive'}}
+                ]
+                : undefined
+        };
+    }
+
     /**
      * Retrieves a count of projects for each status.
      * @param organizationId - Optional organization ID to filter by.
@@ -55,7 +122,7 @@ export class ProjectRepository {
      */
     async countByStatus(organizationId?: string): Promise<Record<ProjectStatus, number>> {
         try {
-            const where: ProjectWhereInput = organizationId ? {organizationId} : {};
+            const where: ProjectWhereInput = organizationId ? {organizationId, deletedAt: null} : {deletedAt: null};
             
             const counts = await database.project.groupBy({
                 by: ['status'],
@@ -90,7 +157,7 @@ export class ProjectRepository {
      * Retrieves a paginated list of projects matching the provided filters.
      *
      * @param {PaginationParams} pagination Page number and size configuration.
-     * @param {ProjectFilterOptions} [filters={}] Search, status, and organization filters.
+     * @param {ProjectFilterOptions} [filters={}] Search, status, organization, category, skill, and workload filters.
      * @param {object} [sort] Sorting configuration defaults to created descending.
      * @returns {Promise<PaginationResult<Project>>} Paginated projects with metadata.
      */
@@ -106,16 +173,7 @@ export class ProjectRepository {
         const skip = (page - 1) * pageSize;
 
         try {
-            const where: ProjectWhereInput = {
-                status: filters.status,
-                organizationId: filters.organizationId,
-                OR: filters.search
-                    ? [
-                        {title: {contains: filters.search, mode: 'insensitive'}},
-                        {description: {contains: filters.search, mode: 'insensitive'}}
-                    ]
-                    : undefined
-            };
+            const where = this.buildWhere(filters);
 
             const [items, total] = await Promise.all([
                 database.project.findMany({
@@ -144,7 +202,7 @@ export class ProjectRepository {
      * Retrieves a paginated list of projects (with details) matching the provided filters.
      *
      * @param {PaginationParams} pagination Page number and size configuration.
-     * @param {ProjectFilterOptions} [filters={}] Search, status, and organization filters.
+     * @param {ProjectFilterOptions} [filters={}] Search, status, organization, category, skill, and workload filters.
      * @param {object} [sort] Sorting configuration defaults to created descending.
      * @returns {Promise<PaginationResult<ProjectWithDetails>>} Paginated projects with metadata.
      */
@@ -160,15 +218,54 @@ export class ProjectRepository {
         const skip = (page - 1) * pageSize;
 
         try {
-            const where: ProjectWhereInput = {
-                status: filters.status,
-                organizationId: filters.organizationId,
-                OR: filters.search
-                    ? [
-                        {title: {contains: filters.search, mode: 'insensitive'}},
-                    ]
-                    : undefined
+            const where = this.buildWhere(filters);
+
+            const [items, total] = await Promise.all([
+                database.project.findMany({
+                    where,
+                    skip,
+                    take: pageSize,
+                    orderBy: {[sort.field]: sort.direction},
+                    include: DETAILS_INCLUDE
+                }),
+                database.project.count({where})
+            ]);
+
+            return {
+                items,
+                total,
+                page,
+                pageSize,
+                totalPages: Math.ceil(total / pageSize)
             };
+        } catch (error) {
+            this.logger.error('Failed to find projects', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Retrieves a paginated list of projects matching the provided filters, with the contact
+     * details of the organization and coordinator users.
+     *
+     * @param {PaginationParams} pagination Page number and size configuration.
+     * @param {ProjectFilterOptions} [filters={}] Search, status, organization, category, skill, and workload filters.
+     * @param {object} [sort] Sorting configuration defaults to created descending.
+     * @returns {Promise<PaginationResult<ProjectWithContacts>>} Paginated projects with metadata.
+     */
+    async findManyWithContacts(
+        pagination: PaginationParams,
+        filters: ProjectFilterOptions = {},
+        sort: { field: ProjectSortField; direction: 'asc' | 'desc' } = {
+            field: 'createdAt',
+            direction: 'desc'
+        }
+    ): Promise<PaginationResult<ProjectWithContacts>> {
+        const {page, pageSize} = pagination;
+        const skip = (page - 1) * pageSize;
+
+        try {
+            const where = this.buildWhere(filters);
 
             const [items, total] = await Promise.all([
                 database.project.findMany({
@@ -176,7 +273,7 @@ export class ProjectRepository {
                     skip,
                     take: pageSize,
                     orderBy: {[sort.field]: sort.direction},
-                    include: {organization: {include: {user: true}}, coordinator: {include: {user: true}}}
+                    include: CONTACTS_INCLUDE
                 }),
                 database.project.count({where})
             ]);
@@ -197,7 +294,7 @@ export class ProjectRepository {
     /**
      * Retrieves a single project by its unique identifier.
      *
-     * Includes related organization (with user) and application data.
+     * Includes the related organization and coordinator with their public user fields.
      *
      * @param {string} id The unique project ID.
      * @returns {Promise<ProjectWithDetails | null>} The project data or null if not found.
@@ -205,15 +302,55 @@ export class ProjectRepository {
     async getById(id: string): Promise<ProjectWithDetails | null> {
         try {
             return await database.project.findUnique({
-                where: {id},
+                where: {id, deletedAt: null},
+                include: DETAILS_INCLUDE
+            });
+        } catch (error) {
+            this.logger.error('Failed to retrieve project by ID', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Retrieves a single project with the contact details of the organization and coordinator users.
+     *
+     * @param {string} id The unique project ID.
+     * @returns {Promise<ProjectWithContacts | null>} The project data or null if not found.
+     */
+    async getByIdWithContacts(id: string): Promise<ProjectWithContacts | null> {
+        try {
+            return await database.project.findUnique({
+                where: {id, deletedAt: null},
+                include: CONTACTS_INCLUDE
+            });
+        } catch (error) {
+            this.logger.error('Failed to retrieve project by ID', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Retrieves a single project including every application and the applying students,
+     * with the contact details partners need to reach them.
+     *
+     * @param {string} id The unique project ID.
+     * @returns {Promise<ProjectWithApplications | null>} The project data or null if not found.
+     */
+    async getByIdWithApplications(id: string): Promise<ProjectWithApplications | null> {
+        try {
+            return await database.project.findUnique({
+                where: {id, deletedAt: null},
                 include: {
-                    organization: {include: {user: true}},
-                    coordinator: {include: {user: true}},
-                    applications: true
+                    ...DETAILS_INCLUDE,
+                    applications: {
+                        where: {student: {user: {deletedAt: null}}},
+                        include: {student: {include: {user: {select: CONTACT_USER_SELECT}}}},
+                        orderBy: {createdAt: 'asc'}
+                    }
                 }
             });
         } catch (error) {
-            this.logger.error('Failed to retrieve project by ID', error as Error);
+            this.logger.error('Failed to retrieve project with applications', error as Error);
             throw error;
         }
     }
@@ -263,7 +400,35 @@ export class ProjectRepository {
     }
 
     /**
-     * Deletes a project record.
+     * Moves a project to a new status only while it still has the expected one,
+     * so concurrent status changes cannot overwrite each other.
+     *
+     * @param {string} id The unique ID of the project.
+     * @param {ProjectStatus} from The status the project must still have.
+     * @param {ProjectStatus} to The new status.
+     * @param {TransactionClient} [tx=database] Optional transaction client.
+     * @returns {Promise<boolean>} True if the project was moved.
+     */
+    async updateStatusIfMatches(
+        id: string,
+        from: ProjectStatus,
+        to: ProjectStatus,
+        tx: TransactionClient = database
+    ): Promise<boolean> {
+        try {
+            const {count} = await tx.project.updateMany({where: {id, status: from, deletedAt: null}, data: {status: to}});
+            if (count > 0) {
+                this.logger.info('Project status updated', {projectId: id, from, to});
+            }
+            return count > 0;
+        } catch (error) {
+            this.logger.error('Failed to update project status', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Permanently deletes a project record.
      *
      * @param {string} id The unique ID of the project to delete.
      * @param {TransactionClient} [tx=database] Optional transaction client.
@@ -282,4 +447,155 @@ export class ProjectRepository {
             throw error;
         }
     }
+
+    /**
+     * Retrieves a paginated list of projects in the trash, most recently deleted first.
+     *
+     * @param {PaginationParams} pagination Page number and size configuration.
+     * @param {string} [search] Optional title search term.
+     * @returns {Promise<PaginationResult<DeletedProject>>} Paginated deleted projects with their organization.
+     */
+    async findDeleted(pagination: PaginationParams, search?: string): Promise<PaginationResult<DeletedProject>> {
+        const {page, pageSize} = pagination;
+        const skip = (page - 1) * pageSize;
+
+        try {
+            const where: ProjectWhereInput = {
+                deletedAt: {not: null},
+                title: search ? {contains: search, mode: 'insensitive'} : undefined
+            };
+
+            const [items, total] = await Promise.all([
+                database.project.findMany({
+                    where,
+                    skip,
+                    take: pageSize,
+                    orderBy: {deletedAt: 'desc'},
+                    include: {organization: {include: {user: true}}}
+                }),
+                database.project.count({where})
+            ]);
+
+            return {
+                items,
+                total,
+                page,
+                pageSize,
+                totalPages: Math.ceil(total / pageSize)
+            };
+        } catch (error) {
+            this.logger.error('Failed to find deleted projects', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Retrieves a project in the trash by its unique identifier.
+     *
+     * @param {string} id The unique project ID.
+     * @returns {Promise<DeletedProject | null>} The deleted project, or null if it is not in the trash.
+     */
+    async getDeletedById(id: string): Promise<DeletedProject | null> {
+        try {
+            return await database.project.findUnique({
+                where: {id, deletedAt: {not: null}},
+                include: {organization: {include: {user: true}}}
+            });
+        } catch (error) {
+            this.logger.error('Failed to retrieve deleted project by ID', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Moves a project to the trash. The project and its applications and completions
+     * are kept, but the project is hidden from every other query.
+     *
+     * @param {string} id The unique ID of the project to delete.
+     * @param {Date} deletedAt The deletion time.
+     * @param {TransactionClient} [tx=database] Optional transaction client.
+     * @returns {Promise<Project>} The deleted project.
+     */
+    async softDelete(
+        id: string,
+        deletedAt: Date,
+        tx: TransactionClient = database
+    ): Promise<Project> {
+        try {
+            const project = await tx.project.update({where: {id, deletedAt: null}, data: {deletedAt}});
+            this.logger.info('Project moved to trash', {projectId: id});
+            return project;
+        } catch (error) {
+            this.logger.error('Failed to move project to trash', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Moves every project of an organization that is not yet in the trash to it.
+     *
+     * @param {string} organizationId The ID of the organization.
+     * @param {Date} deletedAt The deletion time of the organization account.
+     * @param {TransactionClient} [tx=database] Optional transaction client.
+     * @returns {Promise<number>} The number of projects deleted.
+     */
+    async softDeleteByOrganization(
+        organizationId: string,
+        deletedAt: Date,
+        tx: TransactionClient = database
+    ): Promise<number> {
+        try {
+            const {count} = await tx.project.updateMany({where: {organizationId, deletedAt: null}, data: {deletedAt}});
+            this.logger.info('Organization projects moved to trash', {organizationId, count});
+            return count;
+        } catch (error) {
+            this.logger.error('Failed to move organization projects to trash', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Restores a project from the trash.
+     *
+     * @param {string} id The unique ID of the project to restore.
+     * @param {TransactionClient} [tx=database] Optional transaction client.
+     * @returns {Promise<Project>} The restored project.
+     */
+    async restore(
+        id: string,
+        tx: TransactionClient = database
+    ): Promise<Project> {
+        try {
+            const project = await tx.project.update({where: {id, deletedAt: {not: null}}, data: {deletedAt: null}});
+            this.logger.info('Project restored from trash', {projectId: id});
+            return project;
+        } catch (error) {
+            this.logger.error('Failed to restore project', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Restores the projects deleted together with an organization account.
+     * Projects deleted on their own before the account stay in the trash.
+     *
+     * @param {string} organizationId The ID of the organization.
+     * @param {Date} deletedAt The deletion time of the organization account.
+     * @param {TransactionClient} [tx=database] Optional transaction client.
+     * @returns {Promise<number>} The number of projects restored.
+     */
+    async restoreByOrganization(
+        organizationId: string,
+        deletedAt: Date,
+        tx: TransactionClient = database
+    ): Promise<number> {
+        try {
+            const {count} = await tx.project.updateMany({where: {organizationId, deletedAt}, data: {deletedAt: null}});
+            this.logger.info('Organization projects restored from trash', {organizationId, count});
+            return count;
+        } catch (error) {
+            this.logger.error('Failed to restore organization projects', error as Error);
+            throw error;
+        }
+    }
 }
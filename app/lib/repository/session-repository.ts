@@ -2,8 +2,10 @@
 import 'server-only'
 import {cookies} from 'next/headers';
 import {getIronSession, SessionOptions} from 'iron-session';
+import {database} from '@/lib/database';
 import {User} from '@/lib/domain/user';
-import {SessionData} from '@/lib/domain/session';
+import {Session, SessionData, SessionDevice} from '@/lib/domain/session';
+import type {SsoLoginState} from '@/lib/domain/sso';
 import {createLogger} from '@/lib/utils/logger';
 
 /**
@@ -23,8 +25,9 @@ const sessionOptions: SessionOptions = {
 }
 
 /**
- * Repository for managing user sessions using iron-session
- * Handles session storage in encrypted, signed cookies for stateless authentication
+ * Repository for managing user sessions
+ * The encrypted iron-session cookie references a `Session` row in the database,
+ * which can be revoked to sign a device out before the cookie expires
  */
 export class SessionRepository {
     private readonly logger = createLogger('SessionRepository')
@@ -42,27 +45,46 @@ export class SessionRepository {
 
     /**
      * Creates a new authenticated session for a user
-     * Sets authentication state, user data, and calculates expiration timestamp
+     * Stores the session row, then sets authentication state, user data, and expiration timestamp in the cookie
+     * A session already held by this browser is replaced rather than left behind
      *
      * @param user - The user object to store in the session
+     * @param device - IP address and user agent of the signing-in device
      */
-    async createSession(user: User) {
+    async createSession(user: User, device: SessionDevice) {
         try {
             const session = await this.getSession()
             const now = Date.now()
+            const expiresAt = now + (sessionOptions.ttl! * 1000)
 
+            if (session.sessionId) {
+                await database.session.deleteMany({where: {id: session.sessionId}})
+            }
+
+            const record = await database.session.create({
+                data: {
+                    userId: user.id,
+                    ipAddress: device.ipAddress,
+                    userAgent: device.userAgent,
+                    expiresAt: new Date(expiresAt),
+                }
+            })
+
+            session.sessionId = record.id
+            delete session.twoFactorChallenge
             session.user = {
                 ...user,
                 profilePictureUrl: null
             }
             session.isAuth = true
             session.createdAt = now
-            session.expiresAt = now + (sessionOptions.ttl! * 1000)
+            session.expiresAt = expiresAt
 
             await session.save()
 
             this.logger.info('Session created successfully', {
                 userId: user.id,
+                sessionId: record.id,
                 expiresAt: new Date(session.expiresAt).toISOString()
             })
         } catch (error) {
@@ -72,7 +94,77 @@ export class SessionRepository {
     }
 
     /**
-     * Destroys the current session by removing the encrypted cookie
+     * Stores a pending two-factor sign-in in the cookie, leaving the authentication state untouched
+     *
+     * @param userId - The user whose password was accepted
+     * @param expiresAt - Unix timestamp (in milliseconds) until which the code can be entered
+     */
+    async createTwoFactorChallenge(userId: string, expiresAt: number) {
+        try {
+            const session = await this.getSession()
+            session.twoFactorChallenge = {userId, expiresAt}
+            await session.save()
+
+            this.logger.debug('Two-factor challenge created', { userId })
+        } catch (error) {
+            this.logger.error('Failed to create two-factor challenge', error as Error)
+            throw error
+        }
+    }
+
+    /**
+     * Removes a pending two-factor sign-in from the cookie
+     */
+    async clearTwoFactorChallenge() {
+        try {
+            const session = await this.getSession()
+            if (session.twoFactorChallenge) {
+                delete session.twoFactorChallenge
+                await session.save()
+            }
+        } catch (error) {
+            this.logger.error('Failed to clear two-factor challenge', error as Error)
+        }
+    }
+
+    /**
+     * Stores a single sign-on login in progress in the cookie, leaving the authentication state untouched
+     *
+     * @param login - The state, nonce and PKCE verifier of the login
+     */
+    async saveSsoLogin(login: SsoLoginState) {
+        try {
+            const session = await this.getSession()
+            session.ssoLogin = login
+            await session.save()
+        } catch (error) {
+            this.logger.error('Failed to save single sign-on login', error as Error)
+            throw error
+        }
+    }
+
+    /**
+     * Reads and removes the single sign-on login in progress, so its callback can only be used once
+     *
+     * @returns The stored login or null if there is none
+     */
+    async takeSsoLogin(): Promise<SsoLoginState | null> {
+        try {
+            const session = await this.getSession()
+            const login = session.ssoLogin ?? null
+            if (login) {
+                delete session.ssoLogin
+                await session.save()
+            }
+            return login
+        } catch (error) {
+            this.logger.error('Failed to read single sign-on login', error as Error)
+            throw error
+        }
+    }
+
+    /**
+     * Destroys the current session by deleting its row and removing the encrypted cookie
      * Effectively logs out the user by clearing all session data
      */
     async destroySession() {
@@ -80,6 +172,9 @@ export class SessionRepository {
             const session = await this.getSession()
             const userId = session.user?.id
 
+            if (session.sessionId) {
+                await database.session.deleteMany({where: {id: session.sessionId}})
+            }
             session.destroy()
 
             this.logger.info('Session destroyed', { userId })
@@ -118,15 +213,20 @@ export class SessionRepository {
 
     /**
      * Extends the current session's expiration time by resetting the expiresAt timestamp
-     * Only refreshes if the session is currently authenticated
+     * Only refreshes if the session is currently authenticated and backed by a stored session;
+     * a revoked session fails the update and is not extended
      */
     async refreshSession() {
         try {
             const session = await this.getSession()
 
-            if (session.isAuth) {
+            if (session.isAuth && session.sessionId) {
                 const now = Date.now()
                 session.expiresAt = now + (sessionOptions.ttl! * 1000)
+                await database.session.update({
+                    where: {id: session.sessionId},
+                    data: {expiresAt: new Date(session.expiresAt), lastActiveAt: new Date(now)}
+                })
                 await session.save()
 
                 this.logger.debug('Session refreshed', { userId: session.user?.id })
@@ -135,4 +235,96 @@ export class SessionRepository {
             this.logger.error('Failed to refresh session', error as Error)
         }
     }
+
+    /**
+     * Finds a stored session by its ID
+     *
+     * @param sessionId - The ID referenced by the session cookie
+     * @returns The session row or null if it was revoked
+     */
+    async findById(sessionId: string): Promise<Session | null> {
+        try {
+            return await database.session.findUnique({where: {id: sessionId}})
+        } catch (error) {
+            this.logger.error('Failed to find session', error as Error)
+            throw error
+        }
+    }
+
+    /**
+     * Lists the unexpired sessions of a user, most recently active first
+     *
+     * @param userId - The ID of the user
+     * @returns The user's active sessions
+     */
+    async findActiveByUserId(userId: string): Promise<Session[]> {
+        try {
+            return await database.session.findMany({
+                where: {userId, expiresAt: {gt: new Date()}},
+                orderBy: {lastActiveAt: 'desc'},
+            })
+        } catch (error) {
+            this.logger.error('Failed to list sessions', error as Error)
+            throw error
+        }
+    }
+
+    /**
+     * Records activity on a stored session
+     *
+     * @param sessionId - The ID of the session
+     */
+    async touch(sessionId: string) {
+        try {
+            await database.session.updateMany({where: {id: sessionId}, data: {lastActiveAt: new Date()}})
+        } catch (error) {
+            this.logger.error('Failed to update session activity', error as Error)
+        }
+    }
+
+    /**
+     * Deletes one session of a user, signing that device out
+     *
+     * @param userId - The owner of the session
+     * @param sessionId - The ID of the session to delete
+     * @returns True if a session was deleted
+     */
+    async deleteByIdForUser(userId: string, sessionId: string): Promise<boolean> {
+        try {
+            const {count} = await database.session.deleteMany({where: {id: sessionId, userId}})
+            return count > 0
+        } catch (error) {
+            this.logger.error('Failed to delete session', error as Error)
+            throw error
+        }
+    }
+
+    /**
+     * Deletes every session of a user, signing all of their devices out
+     *
+     * @param userId - The ID of the user
+     * @returns The number of deleted sessions
+     */
+    async deleteAllByUserId(userId: string): Promise<number> {
+        try {
+            const {count} = await database.session.deleteMany({where: {userId}})
+            return count
+        } catch (error) {
+            this.logger.error('Failed to delete sessions', error as Error)
+            throw error
+        }
+    }
+
+    /**
+     * Deletes the expired sessions of a user
+     *
+     * @param userId - The ID of the user
+     */
+    async deleteExpiredByUserId(userId: string) {
+        try {
+            await database.session.deleteMany({where: {userId, expiresAt: {lte: new Date()}}})
+        } catch (error) {
+            this.logger.error('Failed to delete expired sessions', error as Error)
+        }
+    }
 }
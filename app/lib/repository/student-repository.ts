@@ -11,6 +11,7 @@ import {createLogger} from '@/lib/utils/logger'
 
 /**
  * Repository for managing Student entities.
+ * Profiles of accounts in the trash are not returned.
  */
 export class StudentRepository {
     private static _instance: StudentRepository
@@ -35,7 +36,7 @@ export class StudentRepository {
     async getByUserId(userId: string): Promise<StudentWithUser | null> {
         try {
             const student = await database.student.findUnique({
-                where: {userId},
+                where: {userId, user: {deletedAt: null}},
                 include: {user: true},
             })
 
@@ -49,6 +50,29 @@ export class StudentRepository {
         }
     }
 
+    /**
+     * Retrieves a student profile by its own ID.
+     *
+     * @param id - The ID of the student profile.
+     * @returns The student profile including the user relation.
+     */
+    async getById(id: string): Promise<StudentWithUser | null> {
+        try {
+            const student = await database.student.findUnique({
+                where: {id, user: {deletedAt: null}},
+                include: {user: true},
+            })
+
+            if (!student) {
+                this.logger.debug('Student profile not found', { studentId: id })
+            }
+            return student
+        } catch (error) {
+            this.logger.error('Failed to retrieve student by id', error as Error)
+            throw error
+        }
+    }
+
     /**
      * Creates a new student profile.
      *
@@ -0,0 +1,154 @@
+/** @format */
+import 'server-only'
+import {database} from '@/lib/database'
+import type {TwoFactorAuth} from '@/lib/domain/two-factor'
+import {createLogger} from '@/lib/utils/logger'
+
+/**
+ * Repository for managing the two-factor authentication of users.
+ */
+export class TwoFactorRepository {
+    private static _instance: TwoFactorRepository
+    private readonly logger = createLogger('TwoFactorRepository')
+
+    private constructor() {
+    }
+
+    static get instance(): TwoFactorRepository {
+        if (!TwoFactorRepository._instance) {
+            TwoFactorRepository._instance = new TwoFactorRepository()
+        }
+        return TwoFactorRepository._instance
+    }
+
+    /**
+     * Retrieves the two-factor record of a user.
+     *
+     * @param userId - The ID of the user.
+     * @returns The record or null if the user never started enrollment.
+     */
+    async findByUserId(userId: string): Promise<TwoFactorAuth | null> {
+        try {
+            return await database.twoFactorAuth.findUnique({where: {userId}})
+        } catch (error) {
+            this.logger.error('Failed to get two-factor record', error as Error)
+            throw error
+        }
+    }
+
+    /**
+     * Stores a new, not yet enabled secret for a user, replacing an unfinished enrollment.
+     *
+     * @param userId - The ID of the user.
+     * @param secret - The encrypted secret.
+     * @returns The pending record.
+     */
+    async savePendingSecret(userId: string, secret: string): Promise<TwoFactorAuth> {
+        try {
+            return await database.twoFactorAuth.upsert({
+                where: {userId},
+                create: {userId, secret},
+                update: {secret, recoveryCodes: [], lastUsedStep: null, enabledAt: null},
+            })
+        } catch (error) {
+            this.logger.error('Failed to save two-factor secret', error as Error)
+            throw error
+        }
+    }
+
+    /**
+     * Enables two-factor authentication with the pending secret.
+     *
+     * @param userId - The ID of the user.
+     * @param recoveryCodes - Hashes of the issued recovery codes.
+     * @param lastUsedStep - Time step of the code that confirmed the enrollment.
+     */
+    async enable(userId: string, recoveryCodes: string[], lastUsedStep: number): Promise<TwoFactorAuth> {
+        try {
+            return await database.twoFactorAuth.update({
+                where: {userId},
+                data: {recoveryCodes, lastUsedStep, enabledAt: new Date()},
+            })
+        } catch (error) {
+            this.logger.error('Failed to enable two-factor authentication', error as Error)
+            throw error
+        }
+    }
+
+    /**
+     * Records the time step of an accepted code, unless another sign-in recorded one since
+     * the record was read, so the same code cannot be used twice concurrently.
+     *
+     * @param userId - The ID of the user.
+     * @param lastUsedStep - The time step of the code.
+     * @param previousStep - The time step stored when the code was checked.
+     * @returns True if the step was recorded.
+     */
+    async updateLastUsedStep(userId: string, lastUsedStep: number, previousStep: number | null): Promise<boolean> {
+        try {
+            const {count} = await database.twoFactorAuth.updateMany({
+                where: {userId, lastUsedStep: previousStep},
+                data: {lastUsedStep}
+            })
+            return count > 0
+        } catch (error) {
+            this.logger.error('Failed to record two-factor code use', error as Error)
+            throw error
+        }
+    }
+
+    /**
+     * Replaces the stored recovery codes.
+     *
+     * @param userId - The ID of the user.
+     * @param recoveryCodes - Hashes of the remaining or newly issued codes.
+     */
+    async updateRecoveryCodes(userId: string, recoveryCodes: string[]) {
+        try {
+            await database.twoFactorAuth.update({where: {userId}, data: {recoveryCodes}})
+        } catch (error) {
+            this.logger.error('Failed to update recovery codes', error as Error)
+            throw error
+        }
+    }
+
+    /**
+     * Replaces the stored recovery codes, unless they changed since they were read,
+     * so the same recovery code cannot be used twice concurrently.
+     *
+     * @param userId - The ID of the user.
+     * @param previousCodes - The hashes stored when the code was checked.
+     * @param recoveryCodes - Hashes of the remaining codes.
+     * @returns True if the codes were replaced.
+     */
+    async updateRecoveryCodesIfUnchanged(
+        userId: string,
+        previousCodes: string[],
+        recoveryCodes: string[]
+    ): Promise<boolean> {
+        try {
+            const {count} = await database.twoFactorAuth.updateMany({
+                where: {userId, recoveryCodes: {equals: previousCodes}},
+                data: {recoveryCodes}
+            })
+            return count > 0
+        } catch (error) {
+            this.logger.error('Failed to update recovery codes', error as Error)
+            throw error
+        }
+    }
+
+    /**
+     * Removes the two-factor record of a user, turning two-factor authentication off.
+     *
+     * @param userId - The ID of the user.
+     */
+    async deleteByUserId(userId: string) {
+        try {
+            await database.twoFactorAuth.deleteMany({where: {userId}})
+        } catch (error) {
+            this.logger.error('Failed to delete two-factor record', error as Error)
+            throw error
+        }
+    }
+}
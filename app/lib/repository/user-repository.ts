@@ -11,6 +11,7 @@ import type {
 import {UserRole} from '@/lib/domain/user'
 import {createLogger} from '@/lib/utils/logger'
 import {PaginationParams, PaginationResult} from '@/lib/domain/pagination'
+import type {DeletedUser} from '@/lib/domain/trash'
 
 /**
  * Options for filtering users in list queries.
@@ -53,6 +54,7 @@ export class UserRepository {
         try {
             const counts = await database.user.groupBy({
                 by: ['role'],
+                where: {deletedAt: null},
                 _count: {
                     role: true,
                 },
@@ -95,6 +97,7 @@ export class UserRepository {
         try {
             // Construct strongly-typed Prisma where clause using domain-exported type
             const where: UserWhereInput = {
+                deletedAt: null,
                 role: filters.role,
                 isSuspended: filters.isSuspended,
                 emailVerified: filters.isVerified ? {not: null} : undefined,
@@ -135,7 +138,7 @@ export class UserRepository {
      */
     async getById(id: string): Promise<User | null> {
         try {
-            return await database.user.findUnique({where: {id}})
+            return await database.user.findUnique({where: {id, deletedAt: null}})
         } catch (error) {
             this.logger.error('Failed to retrieve user by ID', error as Error)
             throw error
@@ -146,17 +149,33 @@ export class UserRepository {
      * Retrieves a user by their email address.
      *
      * @param email - The email to search for.
+     * @param includeDeleted - Whether accounts in the trash are returned, e.g. to keep their email reserved.
      * @returns The user record or null if not found.
      */
-    async getByEmail(email: string): Promise<User | null> {
+    async getByEmail(email: string, includeDeleted = false): Promise<User | null> {
         try {
-            return await database.user.findUnique({where: {email}})
+            return await database.user.findUnique({where: {email, deletedAt: includeDeleted ? undefined : null}})
         } catch (error) {
             this.logger.error('Failed to retrieve user by email', error as Error)
             throw error
         }
     }
 
+    /**
+     * Retrieves a user by the subject identifier of their single sign-on account.
+     *
+     * @param subject - The `sub` claim issued by the OpenID Connect provider.
+     * @returns The user record or null if no user is linked to it.
+     */
+    async getByOidcSubject(subject: string): Promise<User | null> {
+        try {
+            return await database.user.findUnique({where: {oidcSubject: subject, deletedAt: null}})
+        } catch (error) {
+            this.logger.error('Failed to retrieve user by OIDC subject', error as Error)
+            throw error
+        }
+    }
+
     /**
      * Retrieves a user by ID including their role-specific profile data.
      *
@@ -166,7 +185,7 @@ export class UserRepository {
     async getByIdWithProfile(id: string): Promise<UserWithProfile | null> {
         try {
             const partialUser = await database.user.findUnique({
-                where: {id},
+                where: {id, deletedAt: null},
                 select: {role: true},
             })
 
@@ -252,7 +271,7 @@ export class UserRepository {
     }
 
     /**
-     * Deletes a user.
+     * Permanently deletes a user.
      *
      * @param id - The ID of the user to delete.
      * @param tx - Optional transaction client.
@@ -268,4 +287,103 @@ export class UserRepository {
             throw error
         }
     }
+
+    /**
+     * Retrieves paginated users in the trash, most recently deleted first.
+     *
+     * @param pagination - Pagination parameters (page, pageSize).
+     * @param search - Optional name or email search term.
+     * @returns A paginated result containing the deleted users and their organization profiles.
+     */
+    async findDeleted(pagination: PaginationParams, search?: string): Promise<PaginationResult<DeletedUser>> {
+        const {page, pageSize} = pagination
+        const skip = (page - 1) * pageSize
+
+        try {
+            const where: UserWhereInput = {
+                deletedAt: {not: null},
+                OR: search ? [
+                    {name: {contains: search, mode: 'insensitive'}},
+                    {email: {contains: search, mode: 'insensitive'}}
+                ] : undefined
+            }
+
+            const [items, total] = await Promise.all([
+                database.user.findMany({
+                    where,
+                    skip,
+                    take: pageSize,
+                    orderBy: {deletedAt: 'desc'},
+                    include: {organization: true}
+                }),
+                database.user.count({where})
+            ])
+
+            return {
+                items,
+                total,
+                page,
+                pageSize,
+                totalPages: Math.ceil(total / pageSize)
+            }
+        } catch (error) {
+            this.logger.error('Failed to find deleted users', error as Error)
+            throw error
+        }
+    }
+
+    /**
+     * Retrieves a user in the trash by their identifier.
+     *
+     * @param id - The identifier to search for.
+     * @returns The deleted user with their organization profile, or null if the user is not in the trash.
+     */
+    async getDeletedById(id: string): Promise<DeletedUser | null> {
+        try {
+            return await database.user.findUnique({
+                where: {id, deletedAt: {not: null}},
+                include: {organization: true}
+            })
+        } catch (error) {
+            this.logger.error('Failed to retrieve deleted user by ID', error as Error)
+            throw error
+        }
+    }
+
+    /**
+     * Moves a user to the trash. The record is kept, but hidden from every other query.
+     *
+     * @param id - The ID of the user to delete.
+     * @param deletedAt - The deletion time, shared by the profile and projects deleted with the user.
+     * @param tx - Optional transaction client.
+     * @returns The deleted user.
+     */
+    async softDelete(id: string, deletedAt: Date, tx: TransactionClient = database): Promise<User> {
+        try {
+            const user = await tx.user.update({where: {id, deletedAt: null}, data: {deletedAt}})
+            this.logger.info('User moved to trash', {userId: id})
+            return user
+        } catch (error) {
+            this.logger.error('Failed to move user to trash', error as Error)
+            throw error
+        }
+    }
+
+    /**
+     * Restores a user from the trash.
+     *
+     * @param id - The ID of the user to restore.
+     * @param tx - Optional transaction client.
+     * @returns The restored user.
+     */
+    async restore(id: string, tx: TransactionClient = database): Promise<User> {
+        try {
+            const user = await tx.user.update({where: {id, deletedAt: {not: null}}, data: {deletedAt: null}})
+            this.logger.info('User restored from trash', {userId: id})
+            return user
+        } catch (error) {
+            this.logger.error('Failed to restore user', error as Error)
+            throw error
+        }
+    }
 }
@@ -0,0 +1,229 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import {PSEUDO_LOCALE} from '../utils/i18n/pseudo-locale'
+
+/**
+ * Root of the Next.js application.
+ */
+const APP_DIR = path.resolve(__dirname, '../..')
+
+/**
+ * Directory holding the message files of every locale.
+ */
+const MESSAGES_DIR = path.join(APP_DIR, 'resources/messages')
+
+/**
+ * Source directories scanned for translation keys.
+ */
+const SOURCE_DIRS = ['app', 'components', 'lib', 'resources']
+
+/**
+ * Directories that never contain translation keys.
+ */
+const IGNORED_DIRS = ['node_modules', 'generated', '.next']
+
+/**
+ * Binds a translator variable, e.g. `const t = await getTranslations('admin.users')`.
+ */
+const TRANSLATOR_PATTERN = /(?:const|let)\s+(\w+)\s*=\s*(?:await\s+)?(?:useTranslations|getTranslations|createTranslator)\(([^)]*)\)/g
+
+/**
+ * Calls a translator with a literal key, e.g. `t('title')`, `t.rich("intro")` or ``t(`status.${status}`)``.
+ */
+const CALL_PATTERN = /\b(\w+)(?:\.(?:rich|markup|raw|has))?\(\s*(['"`])((?:(?!\2).)*?)\2/g
+
+/**
+ * Calls a translator with a variable key, e.g. `t(project.status)`.
+ */
+const VARIABLE_CALL_PATTERN = /\b(\w+)\(\s*[A-Za-z_$][\w$.]*\s*[,)]/g
+
+/**
+ * Throws an error whose message is a translation key, e.g. `new Error('errors.auth.admin_required')`.
+ */
+const ERROR_PATTERN = /new Error\(\s*(['"`])(errors\.[\w.]+)\1/g
+
+/**
+ * Any quoted dotted identifier, used to spot keys and namespaces referenced indirectly.
+ */
+const LITERAL_PATTERN = /(['"`])([A-Za-z_]\w*(?:\.\w+)+)\1/g
+
+/**
+ * Translator name used for translators handed over as props or parameters.
+ */
+const DEFAULT_TRANSLATOR = 't'
+
+interface KeyUsage {
+    key: string
+    location: string
+}
+
+interface SourceScan {
+    /** Fully qualified keys used by translators with a known namespace and by thrown errors. */
+    keys: KeyUsage[]
+    /** Keys used by translators whose namespace is not known in the file (e.g. a `t` prop). */
+    relativeKeys: KeyUsage[]
+    /** Key prefixes of dynamic lookups such as ``t(`status.${status}`)``. */
+    prefixes: string[]
+    /** Other dotted string literals, e.g. namespaces stored in configuration objects. */
+    literals: string[]
+}
+
+/**
+ * Recursively lists the TypeScript sources of a directory.
+ */
+function listSourceFiles(dir: string): string[] {
+    return fs.readdirSync(dir, {withFileTypes: true}).flatMap((entry) => {
+        const entryPath = path.join(dir, entry.name)
+        if (entry.isDirectory()) {
+            return IGNORED_DIRS.includes(entry.name) ? [] : listSourceFiles(entryPath)
+        }
+        return /\.tsx?$/.test(entry.name) && !entry.name.endsWith('.d.ts') ? [entryPath] : []
+    })
+}
+
+/**
+ * Flattens a message tree into its dotted keys.
+ */
+function flattenKeys(messages: Record<string, unknown>, prefix = ''): string[] {
+    return Object.entries(messages).flatMap(([key, value]) => {
+        const fullKey = prefix ? `${prefix}.${key}` : key
+        return value && typeof value === 'object'
+            ? flattenKeys(value as Record<string, unknown>, fullKey)
+            : [fullKey]
+    })
+}
+
+/**
+ * Resolves the namespace a translator was created with.
+ * Returns `''` for the root namespace and `null` when it is not a literal.
+ */
+function parseNamespace(args: string): string | null {
+    const option = args.match(/namespace:\s*(['"])([\w.]+)\1/)
+    if (option) return option[2]
+
+    const literal = args.match(/^\s*(['"])([\w.]*)\1\s*$/)
+    if (literal) return literal[2]
+
+    return /^\s*(\{[^}]*})?\s*$/.test(args) && !/namespace/.test(args) ? '' : null
+}
+
+/**
+ * Collects the translation keys referenced by a single source file.
+ */
+function scanFile(file: string, scan: SourceScan) {
+    // Block comments are blanked (keeping their line breaks) so documented examples are not picked up.
+    const source = fs.readFileSync(file, 'utf-8').replace(/(?<=^|[\s{(])\/\*[\s\S]*?\*\//gm, (comment) => comment.replace(/[^\n]/g, ' '))
+    const relative = path.relative(APP_DIR, file)
+    const lineOf = (index: number) => source.slice(0, index).split('\n').length
+
+    // A file may bind the same name in several components, so each call uses the closest binding above it.
+    const translators = [...source.matchAll(TRANSLATOR_PATTERN)].map((match) => ({
+        name: match[1],
+        index: match.index!,
+        namespace: parseNamespace(match[2]),
+    }))
+
+    for (const match of source.matchAll(CALL_PATTERN)) {
+        const [, name, quote, key] = match
+        const binding = translators.findLast((translator) => translator.name === name && translator.index < match.index!)
+        if (!binding && name !== DEFAULT_TRANSLATOR) continue
+
+        const namespace = binding ? binding.namespace : null
+        const location = `${relative}:${lineOf(match.index!)}`
+        const qualify = (value: string) => (namespace ? `${namespace}.${value}` : value)
+
+        if (quote === '`' && key.includes('${')) {
+            const prefix = namespace !== null ? qualify(key.slice(0, key.indexOf('${'))) : key.slice(0, key.indexOf('${'))
+            if (prefix) scan.prefixes.push(prefix)
+        } else if (namespace !== null) {
+            scan.keys.push({key: qualify(key), location})
+        } else {
+            scan.relativeKeys.push({key, location})
+        }
+    }
+
+    // A variable key may be any message of the translator's namespace.
+    for (const match of source.matchAll(VARIABLE_CALL_PATTERN)) {
+        const binding = translators.findLast((translator) => translator.name === match[1] && translator.index < match.index!)
+        if (binding?.namespace) scan.prefixes.push(`${binding.namespace}.`)
+    }
+
+    for (const match of source.matchAll(ERROR_PATTERN)) {
+        scan.keys.push({key: match[2], location: `${relative}:${lineOf(match.index!)}`})
+    }
+
+    // Namespaces handed to the translators themselves do not mark their whole subtree as used.
+    const namespaces = new Set(translators.map((translator) => translator.namespace))
+    for (const match of source.matchAll(LITERAL_PATTERN)) {
+        if (!namespaces.has(match[2])) scan.literals.push(match[2])
+    }
+}
+
+/**
+ * Reports, per locale, the keys used in the sources that have no message (missing)
+ * and the messages that no source refers to (unused).
+ * Exits with a non-zero code when any key is missing, so it can guard CI.
+ */
+function checkTranslations() {
+    const scan: SourceScan = {keys: [], relativeKeys: [], prefixes: [], literals: []}
+    for (const dir of SOURCE_DIRS) {
+        listSourceFiles(path.join(APP_DIR, dir)).forEach((file) => scanFile(file, scan))
+    }
+
+    const locales = fs.readdirSync(MESSAGES_DIR)
+        .filter((file) => file.endsWith('.json') && file !== `${PSEUDO_LOCALE}.json`)
+        .map((file) => path.basename(file, '.json'))
+        .sort()
+
+    let missingCount = 0
+
+    for (const locale of locales) {
+        const messages = JSON.parse(fs.readFileSync(path.join(MESSAGES_DIR, `${locale}.json`), 'utf-8'))
+        const available = flattenKeys(messages)
+        const availableSet = new Set(available)
+        const used = new Set<string>()
+        const missing = new Map<string, string>()
+
+        for (const {key, location} of scan.keys) {
+            if (availableSet.has(key)) used.add(key)
+            else if (!missing.has(key)) missing.set(key, location)
+        }
+
+        // Without a namespace, a relative key matches any message ending with it.
+        for (const {key, location} of scan.relativeKeys) {
+            const matches = available.filter((candidate) => candidate === key || candidate.endsWith(`.${key}`))
+            matches.forEach((candidate) => used.add(candidate))
+            if (matches.length === 0 && !missing.has(key)) missing.set(key, location)
+        }
+
+        const unused = available.filter((key) =>
+            !used.has(key)
+            && !scan.prefixes.some((prefix) => key.startsWith(prefix))
+            && !scan.literals.some((literal) => key === literal || key.startsWith(`${literal}.`))
+        )
+
+        missingCount += missing.size
+
+        console.log(`\nLocale "${locale}": ${missing.size} missing, ${unused.length} unused of ${available.length} keys.`)
+        if (missing.size > 0) {
+            console.log('  Missing:')
+            for (const [key, location] of [...missing].sort(([a], [b]) => a.localeCompare(b))) {
+                console.log(`    ${key}  (${location})`)
+            }
+        }
+        if (unused.length > 0) {
+            console.log('  Unused:')
+            unused.forEach((key) => console.log(`    ${key}`))
+        }
+    }
+
+    return missingCount
+}
+
+try {
+    const missingCount = checkTranslations()
+    process.exit(missingCount > 0 ? 1 : 0)
+} catch (error) {
+    console.error('Translation check failed:', error)
+    process.exit(1)
+}
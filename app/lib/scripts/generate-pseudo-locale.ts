@@ -0,0 +1,29 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import {PSEUDO_LOCALE, pseudoLocalizeMessages} from '../utils/i18n/pseudo-locale'
+
+/**
+ * Directory holding the message files of every locale.
+ */
+const MESSAGES_DIR = path.resolve(__dirname, '../../resources/messages')
+
+/**
+ * Generates the pseudo-locale from the English messages.
+ * Start the app with `I18N_PSEUDO_LOCALE=true` to serve it instead of English:
+ * any text that still shows up unaccented is hard-coded rather than translated.
+ */
+function generatePseudoLocale() {
+    const source = JSON.parse(fs.readFileSync(path.join(MESSAGES_DIR, 'en.json'), 'utf-8'))
+    const target = path.join(MESSAGES_DIR, `${PSEUDO_LOCALE}.json`)
+
+    fs.writeFileSync(target, JSON.stringify(pseudoLocalizeMessages(source), null, 2) + '\n', 'utf-8')
+    console.log(`Pseudo-locale written to ${path.relative(process.cwd(), target)}.`)
+}
+
+try {
+    generatePseudoLocale()
+    process.exit(0)
+} catch (error) {
+    console.error('Pseudo-locale generation failed:', error)
+    process.exit(1)
+}
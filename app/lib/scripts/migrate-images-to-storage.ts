@@ -0,0 +1,127 @@
+import 'dotenv/config'
+import {database} from '../database'
+import {ImageKind, IMAGE_RULES, toStoredFileUrl} from '../domain/storage'
+import {createStorageDriver, createStorageKey, processImage} from '../utils/storage'
+
+/**
+ * Users loaded per batch, since each row may carry a multi-megabyte image.
+ */
+const BATCH_SIZE = 20
+
+/**
+ * Matches images saved as data URLs before uploads went to storage.
+ */
+const DATA_URL_PATTERN = /^data:([^;,]+)?(;base64)?,/
+
+const driver = createStorageDriver()
+const dryRun = process.argv.includes('--dry-run')
+
+/**
+ * Decodes an image saved as a data URL, resizes it like a new upload and stores it.
+ *
+ * @param {ImageKind} kind - Kind of image, selecting size and format.
+ * @param {string} dataUrl - The saved value.
+ * @returns {Promise<string>} The URL of the stored image.
+ */
+async function storeDataUrl(kind: ImageKind, dataUrl: string): Promise<string> {
+    const match = dataUrl.match(DATA_URL_PATTERN)!
+    const payload = dataUrl.slice(match[0].length)
+    const input = match[2]
+        ? Buffer.from(payload, 'base64')
+        : Buffer.from(decodeURIComponent(payload))
+
+    const image = await processImage(kind, input)
+    const key = createStorageKey(IMAGE_RULES[kind].folder, image.extension)
+    if (!dryRun) {
+        await driver.put(key, image.body, image.contentType)
+    }
+    return toStoredFileUrl(key)
+}
+
+/**
+ * Moves the platform logo into storage.
+ */
+async function migrateLogo(): Promise<'migrated' | 'skipped' | 'failed'> {
+    const config = await database.config.findUnique({where: {id: 'global_config'}, select: {logo: true}})
+    if (!config || !DATA_URL_PATTERN.test(config.logo)) {
+        return 'skipped'
+    }
+
+    try {
+        const url = await storeDataUrl('logo', config.logo)
+        if (!dryRun) {
+            await database.config.update({where: {id: 'global_config'}, data: {logo: url}})
+        }
+        console.log(`Logo moved to ${url}`)
+        return 'migrated'
+    } catch (error) {
+        console.error('Failed to migrate the logo:', error)
+        return 'failed'
+    }
+}
+
+/**
+ * Moves every profile picture saved as a data URL into storage, in batches.
+ * Pictures that cannot be decoded are left unchanged and reported.
+ */
+async function migrateProfilePictures(): Promise<{ migrated: number; failed: number }> {
+    let migrated = 0
+    let failed = 0
+    let cursor: string | undefined
+
+    while (true) {
+        const users = await database.user.findMany({
+            where: {profilePictureUrl: {startsWith: 'data:'}},
+            select: {id: true, email: true, profilePictureUrl: true},
+            orderBy: {id: 'asc'},
+            take: BATCH_SIZE,
+            ...(cursor ? {cursor: {id: cursor}, skip: 1} : {}),
+        })
+        if (users.length === 0) {
+            break
+        }
+        cursor = users[users.length - 1].id
+
+        for (const user of users) {
+            try {
+                const url = await storeDataUrl('avatar', user.profilePictureUrl!)
+                if (!dryRun) {
+                    await database.user.update({where: {id: user.id}, data: {profilePictureUrl: url}})
+                }
+                migrated++
+            } catch (error) {
+                console.error(`Failed to migrate the profile picture of ${user.email}:`, error)
+                failed++
+            }
+        }
+    }
+
+    return {migrated, failed}
+}
+
+/**
+ * Moves images saved as base64 data URLs (the platform logo and profile pictures)
+ * into the storage selected by `STORAGE_DRIVER`, replacing them with their URLs.
+ * Safe to run more than once: values that are already URLs are skipped.
+ * Run it with `--dry-run` to convert the images without storing or saving anything.
+ * Restart the application afterwards, since it caches the configuration.
+ */
+async function migrateImagesToStorage() {
+    console.log(`Migrating images to ${process.env.STORAGE_DRIVER || 'local'} storage${dryRun ? ' (dry run)' : ''}...`)
+
+    const logo = await migrateLogo()
+    const pictures = await migrateProfilePictures()
+
+    console.log(`Image migration completed. Logo: ${logo}. Profile pictures migrated: ${pictures.migrated}, failed: ${pictures.failed}.`)
+}
+
+migrateImagesToStorage()
+    .then(async () => {
+        await database.$disconnect()
+        process.exit(0)
+    })
+    .catch(async (error) => {
+        console.error('Image migration failed:', error)
+        await database.$disconnect()
+        process.exit(1)
+    })
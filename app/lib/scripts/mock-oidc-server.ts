@@ -0,0 +1,266 @@
+import http from 'node:http'
+import {createHash, generateKeyPairSync, randomBytes, sign} from 'node:crypto'
+
+/**
+ * Local OpenID Connect provider for trying out single sign-on without a real identity provider.
+ * The login page asks for any email and name; no password is checked.
+ *
+ * Configure it in the admin settings with the issuer, client ID and client secret printed on start.
+ * NEVER expose it outside a development machine.
+ */
+
+/**
+ * Port the provider listens on.
+ */
+const PORT = Number(process.env.OIDC_MOCK_PORT || 4000)
+
+/**
+ * Issuer URL, which is also the base URL of every endpoint.
+ */
+const ISSUER = `http://localhost:${PORT}`
+
+/**
+ * Credentials the application has to use.
+ */
+const CLIENT_ID = process.env.OIDC_MOCK_CLIENT_ID || 'studwork'
+const CLIENT_SECRET = process.env.OIDC_MOCK_CLIENT_SECRET || 'studwork-secret'
+
+/**
+ * Lifetime of authorization codes and ID tokens, in seconds.
+ */
+const CODE_TTL_SECONDS = 60
+const TOKEN_TTL_SECONDS = 5 * 60
+
+/**
+ * Signing key, generated on every start; the application reads it from the JWKS endpoint.
+ */
+const KEY_ID = randomBytes(8).toString('hex')
+const {privateKey, publicKey} = generateKeyPairSync('rsa', {modulusLength: 2048})
+
+/**
+ * A login approved on the authorization page, waiting to be exchanged for tokens.
+ */
+type PendingCode = {
+    clientId: string
+    redirectUri: string
+    nonce?: string
+    codeChallenge?: string
+    email: string
+    emailVerified: boolean
+    name: string
+    expiresAt: number
+}
+
+const pendingCodes = new Map<string, PendingCode>()
+
+/**
+ * Escapes a value for use in HTML.
+ */
+function escapeHtml(value: string): string {
+    return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`)
+}
+
+/**
+ * Derives a stable subject identifier from an email, so repeated logins map to the same account.
+ */
+function subjectFor(email: string): string {
+    return createHash('sha256').update(email.toLowerCase()).digest('hex').slice(0, 24)
+}
+
+/**
+ * Signs the claims as an RS256 JSON Web Token.
+ */
+function signIdToken(claims: Record<string, unknown>): string {
+    const header = Buffer.from(JSON.stringify({alg: 'RS256', typ: 'JWT', kid: KEY_ID})).toString('base64url')
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url')
+    const signature = sign('sha256', Buffer.from(`${header}.${payload}`), privateKey).toString('base64url')
+    return `${header}.${payload}.${signature}`
+}
+
+/**
+ * Reads an `application/x-www-form-urlencoded` request body.
+ */
+async function readForm(request: http.IncomingMessage): Promise<URLSearchParams> {
+    const chunks: Buffer[] = []
+    for await (const chunk of request) {
+        chunks.push(chunk as Buffer)
+    }
+    return new URLSearchParams(Buffer.concat(chunks).toString('utf8'))
+}
+
+function sendJson(response: http.ServerResponse, status: number, body: unknown) {
+    response.writeHead(status, {'Content-Type': 'application/json', 'Cache-Control': 'no-store'})
+    response.end(JSON.stringify(body))
+}
+
+function sendHtml(response: http.ServerResponse, status: number, body: string) {
+    response.writeHead(status, {'Content-Type': 'text/html; charset=utf-8'})
+    response.end(`<!doctype html><html><head><title>Mock OIDC provider</title></head>
+<body style="font-family: sans-serif; max-width: 420px; margin: 60px auto">${body}</body></html>`)
+}
+
+/**
+ * Shows the login form for an authorization request.
+ */
+function handleAuthorize(url: URL, response: http.ServerResponse) {
+    const params = url.searchParams
+    if (params.get('client_id') !== CLIENT_ID) {
+        return sendHtml(response, 400, '<p>Unknown client_id.</p>')
+    }
+    if (params.get('response_type') !== 'code' || !params.get('redirect_uri')) {
+        return sendHtml(response, 400, '<p>Only the authorization code flow is supported.</p>')
+    }
+
+    const hiddenFields = ['client_id', 'redirect_uri', 'state', 'nonce', 'code_challenge', 'code_challenge_method']
+        .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(params.get(name) ?? '')}">`)
+        .join('')
+
+    sendHtml(response, 200, `
+<h2>Mock OIDC provider</h2>
+<form method="post" action="/authorize">
+    ${hiddenFields}
+    <p><label>Email<br><input name="email" type="email" required style="width: 100%"></label></p>
+    <p><label>Name<br><input name="name" style="width: 100%"></label></p>
+    <p><label><input name="email_verified" type="checkbox" checked> Email verified</label></p>
+    <p><button type="submit">Sign in</button> <button type="submit" name="deny" value="1">Deny</button></p>
+</form>`)
+}
+
+/**
+ * Approves or denies the login and redirects back to the client.
+ */
+async function handleApprove(request: http.IncomingMessage, response: http.ServerResponse) {
+    const form = await readForm(request)
+    const redirectUrl = new URL(form.get('redirect_uri')!)
+    if (form.get('state')) {
+        redirectUrl.searchParams.set('state', form.get('state')!)
+    }
+
+    if (form.get('deny')) {
+        redirectUrl.searchParams.set('error', 'access_denied')
+    } else {
+        if (form.get('code_challenge') && form.get('code_challenge_method') !== 'S256') {
+            return sendHtml(response, 400, '<p>Only the S256 code challenge method is supported.</p>')
+        }
+
+        const code = randomBytes(24).toString('base64url')
+        pendingCodes.set(code, {
+            clientId: form.get('client_id')!,
+            redirectUri: form.get('redirect_uri')!,
+            nonce: form.get('nonce') || undefined,
+            codeChallenge: form.get('code_challenge') || undefined,
+            email: form.get('email')!,
+            emailVerified: form.get('email_verified') === 'on',
+            name: form.get('name') || '',
+            expiresAt: Date.now() + CODE_TTL_SECONDS * 1000,
+        })
+        redirectUrl.searchParams.set('code', code)
+    }
+
+    response.writeHead(302, {Location: redirectUrl.toString()})
+    response.end()
+}
+
+/**
+ * Exchanges an authorization code for an ID token.
+ * Accepts client credentials through HTTP Basic authentication or the request body.
+ */
+async function handleToken(request: http.IncomingMessage, response: http.ServerResponse) {
+    const form = await readForm(request)
+
+    let clientId = form.get('client_id')
+    let clientSecret = form.get('client_secret')
+    const authorization = request.headers.authorization
+    if (authorization?.startsWith('Basic ')) {
+        const [id, secret] = Buffer.from(authorization.slice(6), 'base64').toString('utf8').split(':')
+        clientId = decodeURIComponent(id)
+        clientSecret = decodeURIComponent(secret ?? '')
+    }
+    if (clientId !== CLIENT_ID || clientSecret !== CLIENT_SECRET) {
+        return sendJson(response, 401, {error: 'invalid_client'})
+    }
+
+    const code = form.get('code') ?? ''
+    const pending = pendingCodes.get(code)
+    pendingCodes.delete(code)
+
+    if (form.get('grant_type') !== 'authorization_code') {
+        return sendJson(response, 400, {error: 'unsupported_grant_type'})
+    }
+    if (!pending || pending.expiresAt < Date.now() || pending.clientId !== clientId
+        || pending.redirectUri !== form.get('redirect_uri')) {
+        return sendJson(response, 400, {error: 'invalid_grant'})
+    }
+    if (pending.codeChallenge) {
+        const challenge = createHash('sha256').update(form.get('code_verifier') ?? '').digest('base64url')
+        if (challenge !== pending.codeChallenge) {
+            return sendJson(response, 400, {error: 'invalid_grant', error_description: 'PKCE verification failed'})
+        }
+    }
+
+    const now = Math.floor(Date.now() / 1000)
+    const idToken = signIdToken({
+        iss: ISSUER,
+        sub: subjectFor(pending.email),
+        aud: clientId,
+        iat: now,
+        exp: now + TOKEN_TTL_SECONDS,
+        nonce: pending.nonce,
+        email: pending.email,
+        email_verified: pending.emailVerified,
+        name: pending.name || undefined,
+    })
+
+    sendJson(response, 200, {
+        access_token: randomBytes(24).toString('base64url'),
+        token_type: 'Bearer',
+        expires_in: TOKEN_TTL_SECONDS,
+        id_token: idToken,
+    })
+}
+
+const server = http.createServer(async (request, response) => {
+    const url = new URL(request.url ?? '/', ISSUER)
+    console.log(`${request.method} ${url.pathname}`)
+
+    try {
+        if (request.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+            return sendJson(response, 200, {
+                issuer: ISSUER,
+                authorization_endpoint: `${ISSUER}/authorize`,
+                token_endpoint: `${ISSUER}/token`,
+                jwks_uri: `${ISSUER}/jwks`,
+                response_types_supported: ['code'],
+                subject_types_supported: ['public'],
+                id_token_signing_alg_values_supported: ['RS256'],
+                scopes_supported: ['openid', 'email', 'profile'],
+                token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+                code_challenge_methods_supported: ['S256'],
+            })
+        }
+        if (request.method === 'GET' && url.pathname === '/jwks') {
+            const jwk = publicKey.export({format: 'jwk'})
+            return sendJson(response, 200, {keys: [{...jwk, kid: KEY_ID, use: 'sig', alg: 'RS256'}]})
+        }
+        if (request.method === 'GET' && url.pathname === '/authorize') {
+            return handleAuthorize(url, response)
+        }
+        if (request.method === 'POST' && url.pathname === '/authorize') {
+            return await handleApprove(request, response)
+        }
+        if (request.method === 'POST' && url.pathname === '/token') {
+            return await handleToken(request, response)
+        }
+        sendJson(response, 404, {error: 'not_found'})
+    } catch (error) {
+        console.error('Request failed:', error)
+        sendJson(response, 500, {error: 'server_error'})
+    }
+})
+
+server.listen(PORT, () => {
+    console.log(`Mock OIDC provider running at ${ISSUER}`)
+    console.log(`  Issuer:        ${ISSUER}`)
+    console.log(`  Client ID:     ${CLIENT_ID}`)
+    console.log(`  Client secret: ${CLIENT_SECRET}`)
+})
@@ -0,0 +1,145 @@
+import 'dotenv/config'
+import {database} from '../database'
+import {decrypt} from '../utils/crypto'
+import {createMailTransporter, getFailedAttemptUpdate} from '../utils/mailer'
+import type {Config} from '../domain/config'
+import {EMAIL_SENDING_TIMEOUT_MS, OutboundEmailStatus} from '../domain/email-outbox'
+
+/**
+ * Time to wait between two passes over the outbox in watch mode.
+ */
+const POLL_INTERVAL_MS = 30 * 1000
+
+/**
+ * Maximum number of emails delivered in one pass.
+ */
+const BATCH_SIZE = 50
+
+/**
+ * Set once a termination signal is received so the current pass can finish cleanly.
+ */
+let stopping = false
+
+/**
+ * Loads the global configuration with the SMTP password decrypted.
+ *
+ * @returns {Promise<Config | null>} The configuration or null if the platform is not set up.
+ */
+async function loadConfig(): Promise<Config | null> {
+    const config = await database.config.findUnique({where: {id: 'global_config'}})
+    if (config?.smtpPassword) {
+        config.smtpPassword = decrypt(config.smtpPassword)
+    }
+    return config
+}
+
+/**
+ * Returns emails stuck in `SENDING` for longer than the timeout back to the queue.
+ * This happens when a process died between claiming an email and recording the result.
+ */
+async function releaseStaleEmails(): Promise<number> {
+    const result = await database.outboundEmail.updateMany({
+        where: {
+            status: OutboundEmailStatus.SENDING,
+            updatedAt: {lt: new Date(Date.now() - EMAIL_SENDING_TIMEOUT_MS)},
+        },
+        data: {status: OutboundEmailStatus.PENDING, nextAttemptAt: new Date()},
+    })
+    return result.count
+}
+
+/**
+ * Delivers every pending email whose next attempt is due.
+ * Each email is claimed first, so the app and several workers never deliver it twice.
+ */
+async function processOutbox(): Promise<void> {
+    const released = await releaseStaleEmails()
+    if (released > 0) {
+        console.log(`Released ${released} stale email(s).`)
+    }
+
+    const due = await database.outboundEmail.findMany({
+        where: {status: OutboundEmailStatus.PENDING, nextAttemptAt: {lte: new Date()}},
+        orderBy: {nextAttemptAt: 'asc'},
+        take: BATCH_SIZE,
+    })
+
+    if (due.length === 0) {
+        return
+    }
+
+    const config = await loadConfig()
+    if (!config) {
+        console.error('Global configuration not found. Please run the setup first.')
+        return
+    }
+
+    const transporter = createMailTransporter(config)
+    let sent = 0
+    let failed = 0
+
+    for (const email of due) {
+        if (stopping) break
+
+        const claim = await database.outboundEmail.updateMany({
+            where: {id: email.id, status: OutboundEmailStatus.PENDING},
+            data: {status: OutboundEmailStatus.SENDING, attempts: {increment: 1}},
+        })
+        if (claim.count === 0) continue
+
+        const attempts = email.attempts + 1
+        try {
+            await transporter.sendMail({
+                from: email.from,
+                to: email.to,
+                subject: email.subject,
+                html: email.html,
+            })
+            await database.outboundEmail.update({
+                where: {id: email.id},
+                data: {status: OutboundEmailStatus.SENT, sentAt: new Date(), lastError: null},
+            })
+            sent++
+        } catch (error) {
+            const update = getFailedAttemptUpdate(attempts, error)
+            await database.outboundEmail.update({where: {id: email.id}, data: update})
+            console.error(`Attempt ${attempts} for ${email.to} failed (${update.status}):`, update.lastError)
+            failed++
+        }
+    }
+
+    transporter.close()
+    console.log(`Outbox pass completed. Sent: ${sent}, failed: ${failed}.`)
+}
+
+/**
+ * Processes the email outbox.
+ * Runs a single pass with `--once` (e.g. from cron), otherwise keeps polling until stopped.
+ */
+async function main() {
+    const once = process.argv.includes('--once')
+    console.log(`Starting email outbox worker${once ? ' (single pass)' : ''}...`)
+
+    process.on('SIGINT', () => stopping = true)
+    process.on('SIGTERM', () => stopping = true)
+
+    do {
+        await processOutbox()
+        if (!once && !stopping) {
+            await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS))
+        }
+    } while (!once && !stopping)
+
+    console.log('Email outbox worker stopped.')
+}
+
+main()
+    .then(async () => {
+        await database.$disconnect()
+        process.exit(0)
+    })
+    .catch(async (error) => {
+        console.error('Email outbox worker failed:', error)
+        await database.$disconnect()
+        process.exit(1)
+    })
@@ -0,0 +1,133 @@
+import 'dotenv/config'
+import {database} from '../database'
+import {getStoredFileKey} from '../domain/storage'
+import {resolveTrashRetentionDays} from '../domain/trash'
+import {createStorageDriver} from '../utils/storage'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const dryRun = process.argv.includes('--dry-run')
+
+/**
+ * Removes files whose rows were purged. Failures are reported, since the rows are already gone.
+ *
+ * @param {string[]} keys - Storage keys of the purged files.
+ * @returns {Promise<number>} The number of files that could not be removed.
+ */
+async function deleteFiles(keys: string[]): Promise<number> {
+    const driver = createStorageDriver()
+    let failed = 0
+
+    for (const key of keys) {
+        try {
+            await driver.delete(key)
+        } catch (error) {
+            console.error(`Failed to delete stored file ${key}:`, error)
+            failed++
+        }
+    }
+    return failed
+}
+
+/**
+ * Permanently deletes users, organizations and projects that stayed in the trash longer
+ * than the retention period configured in the admin settings.
+ * Intended to run once a day (e.g. from cron); pass `--dry-run` to only report what would be purged.
+ *
+ * Purging a user removes their profile and, for organizations, their projects; purging a project
+ * removes its applications and attachments. Stored files are removed afterwards.
+ * Projects with completion records, and the organizations owning them, are kept in the trash so the
+ * students' completions and certificates survive; a student's own completions go with their account.
+ */
+async function purgeTrash() {
+    console.log('Starting trash purge...')
+
+    const config = await database.config.findUnique({where: {id: 'global_config'}, select: {trashRetentionDays: true}})
+    if (!config) {
+        console.error('Global configuration not found. Please run the setup first.')
+        return
+    }
+
+    const retentionDays = resolveTrashRetentionDays(config.trashRetentionDays)
+    const cutoff = new Date(Date.now() - retentionDays * DAY_MS)
+
+    // Completion records belong to the students who earned them
+    const hasCompletions = {completions: {some: {}}}
+
+    const users = await database.user.findMany({
+        where: {deletedAt: {lt: cutoff}, NOT: {organization: {projects: {some: hasCompletions}}}},
+        select: {id: true, email: true, profilePictureUrl: true},
+    })
+    const userIds = users.map((user) => user.id)
+
+    const projects = await database.project.findMany({
+        where: {
+            OR: [
+                {deletedAt: {lt: cutoff}},
+                {organization: {userId: {in: userIds}}},
+            ],
+            NOT: hasCompletions,
+        },
+        select: {id: true, title: true},
+    })
+    const projectIds = projects.map((project) => project.id)
+
+    const keptProjects = await database.project.count({where: {deletedAt: {lt: cutoff}, ...hasCompletions}})
+    if (keptProjects > 0) {
+        console.log(`Keeping ${keptProjects} project(s) with completion records in the trash.`)
+    }
+
+    if (users.length === 0 && projects.length === 0) {
+        console.log(`Nothing to purge (retention: ${retentionDays} days).`)
+        return
+    }
+
+    // Attachments of purged projects and deliverables of purged students go with their rows
+    const attachments = await database.projectAttachment.findMany({
+        where: {
+            OR: [
+                {projectId: {in: projectIds}},
+                {projectCompletion: {student: {userId: {in: userIds}}}},
+            ]
+        },
+        select: {storageKey: true},
+    })
+    const fileKeys = [
+        ...attachments.map((attachment) => attachment.storageKey),
+        ...users.map((user) => getStoredFileKey(user.profilePictureUrl)).filter((key): key is string => key !== null),
+    ]
+
+    for (const user of users) {
+        console.log(`${dryRun ? 'Would purge' : 'Purging'} user ${user.email}`)
+    }
+    for (const project of projects) {
+        console.log(`${dryRun ? 'Would purge' : 'Purging'} project "${project.title}"`)
+    }
+
+    if (dryRun) {
+        console.log(`Dry run completed. Users: ${users.length}, projects: ${projects.length}, files: ${fileKeys.length}.`)
+        return
+    }
+
+    await database.$transaction([
+        database.project.deleteMany({where: {id: {in: projectIds}}}),
+        database.user.deleteMany({where: {id: {in: userIds}}}),
+    ])
+    const failedFiles = await deleteFiles(fileKeys)
+
+    console.log(
+        `Trash purge completed. Users: ${users.length}, projects: ${projects.length}, ` +
+        `files: ${fileKeys.length - failedFiles}, failed files: ${failedFiles}.`
+    )
+}
+
+purgeTrash()
+    .then(async () => {
+        await database.$disconnect()
+        process.exit(0)
+    })
+    .catch(async (error) => {
+        console.error('Trash purge failed:', error)
+        await database.$disconnect()
+        process.exit(1)
+    })
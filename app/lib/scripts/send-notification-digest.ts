@@ -0,0 +1,146 @@
+import 'dotenv/config'
+import {createTranslator} from 'next-intl'
+import {database} from '../database'
+import {formatFromAddress} from '../utils/mailer'
+import type {Config} from '../domain/config'
+import type {EmailTemplate, EmailTemplateVariables} from '../domain/email-template'
+import {EmailTemplateKey} from '../domain/email-template'
+import type {Notification} from '../domain/notification'
+import {toAbsoluteStoredFileUrl} from '../domain/storage'
+import type {User} from '../domain/user'
+import {renderTemplateContent} from '../utils/email-template'
+import {Locale, resolveLocale} from '../utils/i18n/routing'
+import {getNotificationDigestItems, getNotificationDigestTemplate} from '../../resources/emails/notification-digest'
+import en from '../../resources/messages/en.json'
+import ro from '../../resources/messages/ro.json'
+
+/**
+ * Messages of every supported locale; each digest is written in its recipient's locale.
+ */
+const MESSAGES: Record<Locale, typeof en> = {en, ro}
+
+/**
+ * Loads the global configuration used for the sender address and email branding.
+ * An uploaded logo is linked with its absolute URL, as in every other email.
+ *
+ * @returns {Promise<Config | null>} The configuration or null if the platform is not set up.
+ */
+async function loadConfig(): Promise<Config | null> {
+    const config = await database.config.findUnique({where: {id: 'global_config'}})
+    return config && {...config, logo: toAbsoluteStoredFileUrl(config.logo, process.env.APP_URL)}
+}
+
+/**
+ * Loads the administrator overrides of the digest template, by locale.
+ *
+ * @returns {Promise<Map<string, EmailTemplate>>} The overrides keyed by locale.
+ */
+async function loadTemplateOverrides(): Promise<Map<string, EmailTemplate>> {
+    const templates = await database.emailTemplate.findMany({where: {key: EmailTemplateKey.NOTIFICATION_DIGEST}})
+    return new Map(templates.map((template) => [template.locale, template]))
+}
+
+/**
+ * Groups pending notifications by recipient, keeping them in chronological order.
+ */
+function groupByUser(notifications: (Notification & { user: User })[]): Map<string, (Notification & { user: User })[]> {
+    const groups = new Map<string, (Notification & { user: User })[]>()
+    for (const notification of notifications) {
+        const group = groups.get(notification.userId) ?? []
+        group.push(notification)
+        groups.set(notification.userId, group)
+    }
+    return groups
+}
+
+/**
+ * Queues one digest email per user with every notification flagged for the digest.
+ * Intended to run once a day (e.g. from cron). The email is rendered from the administrator
+ * override of the recipient's locale when one exists, like every other email. The email and
+ * the unflagging of its notifications are written together; delivery and retries are left
+ * to the outbox worker.
+ */
+async function sendNotificationDigest() {
+    console.log('Starting notification digest...')
+
+    const config = await loadConfig()
+    if (!config) {
+        console.error('Global configuration not found. Please run the setup first.')
+        return
+    }
+
+    const pending = await database.notification.findMany({
+        where: {pendingDigest: true},
+        include: {user: true},
+        orderBy: {createdAt: 'asc'},
+    })
+
+    if (pending.length === 0) {
+        console.log('No pending notifications.')
+        return
+    }
+
+    const appUrl = process.env.APP_URL || ''
+    const overrides = await loadTemplateOverrides()
+    let queued = 0
+    let failed = 0
+
+    for (const notifications of groupByUser(pending).values()) {
+        const user = notifications[0].user
+        const locale = resolveLocale(user.locale)
+        const t = createTranslator({locale, messages: MESSAGES[locale]})
+        const canReceive = !user.isSuspended && !user.deletedAt
+
+        try {
+            const variables: EmailTemplateVariables = {
+                name: user.name,
+                count: String(notifications.length),
+                notifications: getNotificationDigestItems(notifications, appUrl, t, locale, config),
+                url: `${appUrl}/dashboard/notifications`,
+            }
+            const override = overrides.get(locale)
+            const email = override
+                ? renderTemplateContent(override, variables)
+                : {
+                    subject: t('email.notificationDigest.subject', variables),
+                    html: getNotificationDigestTemplate(variables.name, variables.count, variables.notifications, variables.url, t, locale, config),
+                }
+
+            await database.$transaction(async (tx) => {
+                if (canReceive) {
+                    await tx.outboundEmail.create({
+                        data: {
+                            from: formatFromAddress(config, t('email.notificationDigest.from')),
+                            to: user.email,
+                            subject: email.subject,
+                            html: email.html,
+                            templateKey: EmailTemplateKey.NOTIFICATION_DIGEST,
+                        },
+                    })
+                }
+
+                await tx.notification.updateMany({
+                    where: {id: {in: notifications.map((notification) => notification.id)}},
+                    data: {pendingDigest: false},
+                })
+            })
+            if (canReceive) queued++
+        } catch (error) {
+            console.error(`Failed to queue digest for ${user.email}:`, error)
+            failed++
+        }
+    }
+
+    console.log(`Notification digest completed. Queued: ${queued}, failed: ${failed}.`)
+}
+
+sendNotificationDigest()
+    .then(async () => {
+        await database.$disconnect()
+        process.exit(0)
+    })
+    .catch(async (error) => {
+        console.error('Notification digest failed:', error)
+        await database.$disconnect()
+        process.exit(1)
+    })
@@ -3,6 +3,8 @@ import 'server-only'
 import type {AdministratorUpdateType, AdministratorWithUser} from '@/lib/domain/administrator'
 import {AdministratorRepository} from '@/lib/repository/administrator-repository'
 import {UserRepository} from '@/lib/repository/user-repository'
+import {StorageService} from '@/lib/service/storage-service'
+import {getProfilePictureUpdate} from '@/lib/domain/user'
 import {createLogger} from '@/lib/utils/logger'
 
 /**
@@ -43,6 +45,7 @@ export class AdministratorService {
 
     /**
      * Updates a administrator's profile information.
+     * A replaced profile picture is removed from storage.
      *
      * @param userId - The ID of the user.
      * @param data - The update payload.
@@ -62,6 +65,11 @@ export class AdministratorService {
 
             const administrator = await AdministratorRepository.instance.update(userId, data)
 
+            const profilePictureUrl = getProfilePictureUpdate(data)
+            if (profilePictureUrl !== undefined && profilePictureUrl !== existingProfile.user.profilePictureUrl) {
+                await StorageService.instance.deleteFileByUrl(existingProfile.user.profilePictureUrl)
+            }
+
             this.logger.info('Administrator profile updated', { userId })
             return {...administrator, user: existingProfile.user}
         } catch (error) {
@@ -1,10 +1,23 @@
 /** @format */
 import 'server-only';
-import type {Application, ApplicationCreateType, ApplicationUpdateType} from '@/lib/domain/application';
+import type {
+    Application,
+    ApplicationCreateType,
+    ApplicationUpdateType,
+    ApplicationWithDetails
+} from '@/lib/domain/application';
 import {ApplicationRepository, ApplicationFilterOptions, ApplicationSortField} from '@/lib/repository/application-repository';
 import {createLogger} from '@/lib/utils/logger';
 import {PaginationParams, PaginationResult} from '@/lib/domain/pagination';
-import {ApplicationStatus} from "@/lib/domain/application";
+import {ApplicationReviewError, ApplicationStatus} from "@/lib/domain/application";
+import {ProjectStatus} from '@/lib/domain/project';
+import {database} from '@/lib/database';
+import {EmailService} from '@/lib/service/email-service';
+import {NotificationService} from '@/lib/service/notification-service';
+import {NotificationDelivery, NotificationType} from '@/lib/domain/notification';
+import {resolveLocale} from '@/lib/utils/i18n/routing';
+import {AuditService} from '@/lib/service/audit-service';
+import {AuditAction, AuditEntityType} from '@/lib/domain/audit';
 
 /**
  * Service for managing project applications.
@@ -54,6 +67,22 @@ export class ApplicationService {
         return ApplicationRepository.instance.findMany(pageParams, filters, sort);
     }
 
+    /**
+     * Retrieves a paginated list of applications with student and project details.
+     *
+     * @param pageParams - Pagination settings.
+     * @param filters - Filtering criteria.
+     * @param sort - Sorting configuration.
+     * @returns A paginated list of detailed applications.
+     */
+    async getApplicationsWithDetails(
+        pageParams: PaginationParams,
+        filters: ApplicationFilterOptions = {},
+        sort: { field: ApplicationSortField; direction: 'asc' | 'desc' } = {field: 'createdAt', direction: 'desc'}
+    ): Promise<PaginationResult<ApplicationWithDetails>> {
+        return ApplicationRepository.instance.findManyWithDetails(pageParams, filters, sort);
+    }
+
     /**
      * Retrieves an application by its ID.
      *
@@ -64,6 +93,38 @@ export class ApplicationService {
         return ApplicationRepository.instance.getById(id);
     }
 
+    /**
+     * Retrieves an application by its ID including student and project details.
+     *
+     * @param id - The application ID.
+     * @returns The detailed application or null if not found.
+     */
+    async getApplicationWithDetails(id: string): Promise<ApplicationWithDetails | null> {
+        return ApplicationRepository.instance.getByIdWithDetails(id);
+    }
+
+    /**
+     * Counts the applications of a project in a given status.
+     *
+     * @param projectId - The project ID.
+     * @param status - The application status to count.
+     * @returns The number of matching applications.
+     */
+    async countProjectApplicationsByStatus(projectId: string, status: ApplicationStatus): Promise<number> {
+        return ApplicationRepository.instance.countByProjectAndStatus(projectId, status);
+    }
+
+    /**
+     * Retrieves a student's application to a specific project.
+     *
+     * @param studentId - The student profile ID.
+     * @param projectId - The project ID.
+     * @returns The application or null if the student has not applied.
+     */
+    async getApplicationByStudentAndProject(studentId: string, projectId: string): Promise<Application | null> {
+        return ApplicationRepository.instance.getByStudentAndProject(studentId, projectId);
+    }
+
     /**
      * Creates a new application.
      *
@@ -95,6 +156,200 @@ export class ApplicationService {
         }
     }
 
+    /**
+     * Accepts an application, records the reviewer and notifies the student by email.
+     *
+     * The capacity check and the status change run in one serializable transaction, and only
+     * pending applications of published projects are updated, so concurrent reviews can neither
+     * exceed `numberOfStudents` nor accept an application that was withdrawn or rejected meanwhile.
+     *
+     * @param id - The application ID.
+     * @param reviewerId - The user ID of the reviewer.
+     * @returns The accepted application.
+     * @throws {ApplicationReviewError} If the application is no longer pending, the project is not
+     *         published or the project has no places left.
+     */
+    async acceptApplication(id: string, reviewerId: string): Promise<ApplicationWithDetails> {
+        try {
+            const previous = await ApplicationRepository.instance.getByIdWithDetails(id);
+            if (!previous) {
+                throw new Error(`Application not found: ${id}`);
+            }
+
+            const capacity = previous.project.numberOfStudents;
+            if (previous.project.status !== ProjectStatus.PUBLISHED) {
+                throw new ApplicationReviewError('project_not_open', capacity);
+            }
+
+            await database.$transaction(async (tx) => {
+                const acceptedCount = await ApplicationRepository.instance.countByProjectAndStatus(
+                    previous.projectId,
+                    ApplicationStatus.ACCEPTED,
+                    tx
+                );
+                if (acceptedCount >= capacity) {
+                    throw new ApplicationReviewError('capacity_reached', capacity);
+                }
+
+                const updated = await ApplicationRepository.instance.updateIfMatches(
+                    id,
+                    {status: ApplicationStatus.PENDING, project: {status: ProjectStatus.PUBLISHED}},
+                    {
+                        status: ApplicationStatus.ACCEPTED,
+                        reviewedBy: reviewerId,
+                        reviewedAt: new Date(),
+                        rejectionReason: null
+                    },
+                    tx
+                );
+                if (!updated) {
+                    throw new ApplicationReviewError('already_reviewed', capacity);
+                }
+            }, {isolationLevel: 'Serializable'});
+
+            const application = await ApplicationRepository.instance.getByIdWithDetails(id);
+            if (!application) {
+                throw new Error('Application not found after update');
+            }
+
+            await AuditService.instance.record({
+                action: AuditAction.APPLICATION_ACCEPTED,
+                entityType: AuditEntityType.APPLICATION,
+                entityId: id,
+                entityLabel: `${application.student.user.name} · ${application.project.title}`,
+                before: previous,
+                after: application,
+            });
+
+            const delivery = await NotificationService.instance.notify(
+                application.student.userId,
+                NotificationType.APPLICATION_ACCEPTED,
+                {projectName: application.project.title},
+                '/dashboard/applications'
+            );
+            if (delivery === NotificationDelivery.IMMEDIATE) {
+                await EmailService.instance.sendApplicationAcceptedEmail(
+                    application.student.user.email,
+                    application.student.user.name,
+                    application.project.title,
+                    resolveLocale(application.student.user.locale)
+                );
+            }
+
+            this.logger.info('Application accepted', {applicationId: id, reviewerId});
+            return application;
+        } catch (error) {
+            this.logger.error('Failed to accept application', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Rejects an application with a reason, records the reviewer and notifies the student by email.
+     *
+     * @param id - The application ID.
+     * @param reviewerId - The user ID of the reviewer.
+     * @param reason - The rejection reason shown to the student.
+     * @returns The rejected application.
+     * @throws {ApplicationReviewError} If the application is no longer pending.
+     */
+    async rejectApplication(id: string, reviewerId: string, reason: string): Promise<ApplicationWithDetails> {
+        try {
+            const previous = await ApplicationRepository.instance.getByIdWithDetails(id);
+            if (!previous) {
+                throw new Error(`Application not found: ${id}`);
+            }
+
+            const updated = await ApplicationRepository.instance.updateIfMatches(
+                id,
+                {status: ApplicationStatus.PENDING},
+                {
+                    status: ApplicationStatus.REJECTED,
+                    reviewedBy: reviewerId,
+                    reviewedAt: new Date(),
+                    rejectionReason: reason
+                }
+            );
+            if (!updated) {
+                throw new ApplicationReviewError('already_reviewed', previous.project.numberOfStudents);
+            }
+
+            const application = await ApplicationRepository.instance.getByIdWithDetails(id);
+            if (!application) {
+                throw new Error('Application not found after update');
+            }
+
+            await AuditService.instance.record({
+                action: AuditAction.APPLICATION_REJECTED,
+                entityType: AuditEntityType.APPLICATION,
+                entityId: id,
+                entityLabel: `${application.student.user.name} · ${application.project.title}`,
+                before: previous,
+                after: application,
+                metadata: {reason},
+            });
+
+            const delivery = await NotificationService.instance.notify(
+                application.student.userId,
+                NotificationType.APPLICATION_REJECTED,
+                {projectName: application.project.title},
+                '/dashboard/applications'
+            );
+            if (delivery === NotificationDelivery.IMMEDIATE) {
+                await EmailService.instance.sendApplicationRejectedEmail(
+                    application.student.user.email,
+                    application.student.user.name,
+                    application.project.title,
+                    reason,
+                    resolveLocale(application.student.user.locale)
+                );
+            }
+
+            this.logger.info('Application rejected', {applicationId: id, reviewerId});
+            return application;
+        } catch (error) {
+            this.logger.error('Failed to reject application', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Withdraws an application on behalf of the student.
+     * The record is kept with the WITHDRAWN status so the history remains visible.
+     * Only pending applications are withdrawn, so a concurrent review is never overwritten.
+     *
+     * @param id - The application ID.
+     * @returns The withdrawn application, or null if it is no longer pending.
+     */
+    async withdrawApplication(id: string): Promise<Application | null> {
+        try {
+            const previous = await ApplicationRepository.instance.getByIdWithDetails(id);
+            const updated = await ApplicationRepository.instance.updateIfMatches(
+                id,
+                {status: ApplicationStatus.PENDING},
+                {status: ApplicationStatus.WITHDRAWN}
+            );
+            if (!updated) {
+                return null;
+            }
+
+            const application = await ApplicationRepository.instance.getByIdWithDetails(id);
+            await AuditService.instance.record({
+                action: AuditAction.APPLICATION_WITHDRAWN,
+                entityType: AuditEntityType.APPLICATION,
+                entityId: id,
+                entityLabel: previous ? `${previous.student.user.name} · ${previous.project.title}` : null,
+                before: previous,
+                after: application,
+            });
+            this.logger.info('Application withdrawn', {applicationId: id});
+            return application;
+        } catch (error) {
+            this.logger.error('Failed to withdraw application', error as Error);
+            throw error;
+        }
+    }
+
     /**
      * Deletes an application.
      *
@@ -0,0 +1,75 @@
+/** @format */
+import 'server-only'
+import {AuditEventFilterOptions, AuditEventRepository} from '@/lib/repository/audit-event-repository'
+import {SessionService} from '@/lib/service/session-service'
+import {AUDIT_EXPORT_LIMIT, AuditEvent, AuditEventInput} from '@/lib/domain/audit'
+import {PaginationParams, PaginationResult} from '@/lib/domain/pagination'
+import {getAuditChanges} from '@/lib/utils/audit'
+import {getClientIp} from '@/lib/utils/ip'
+import {createLogger} from '@/lib/utils/logger'
+
+/**
+ * Audit Service
+ * Keeps the audit log of administrative and lifecycle actions.
+ * Services report their actions here; the actor and IP address are taken from the current request.
+ */
+export class AuditService {
+    private static _instance: AuditService
+    private readonly logger = createLogger('AuditService')
+
+    private constructor() {
+    }
+
+    static get instance(): AuditService {
+        if (!AuditService._instance) {
+            AuditService._instance = new AuditService()
+        }
+        return AuditService._instance
+    }
+
+    /**
+     * Records an action performed by the current user.
+     * A failure to write the entry is logged and does not undo or fail the action itself.
+     *
+     * @param input - The action, its target and the target's state before and after it.
+     */
+    async record(input: AuditEventInput): Promise<void> {
+        try {
+            const actor = await SessionService.instance.getCurrentSessionUser()
+            const ipAddress = await getClientIp().catch(() => 'unknown')
+            const changes = getAuditChanges(input.before, input.after)
+
+            await AuditEventRepository.instance.create({
+                action: input.action,
+                actor: actor ? {connect: {id: actor.id}} : undefined,
+                actorName: actor?.name ?? null,
+                actorEmail: actor?.email ?? null,
+                entityType: input.entityType,
+                entityId: input.entityId,
+                entityLabel: input.entityLabel ?? null,
+                changes: Object.keys(changes).length > 0 ? changes : undefined,
+                metadata: input.metadata,
+                ipAddress: ipAddress === 'unknown' ? null : ipAddress,
+            })
+        } catch (error) {
+            this.logger.error(`Failed to record audit event ${input.action}`, error as Error)
+        }
+    }
+
+    /**
+     * Retrieves a paginated list of audit entries for the admin overview.
+     */
+    async getAuditEvents(
+        pageParams: PaginationParams,
+        filters: AuditEventFilterOptions = {}
+    ): Promise<PaginationResult<AuditEvent>> {
+        return AuditEventRepository.instance.findMany(pageParams, filters)
+    }
+
+    /**
+     * Retrieves the entries matching the filters for a CSV export, up to the export limit.
+     */
+    async getAuditEventsForExport(filters: AuditEventFilterOptions = {}): Promise<AuditEvent[]> {
+        return AuditEventRepository.instance.findAll(filters, AUDIT_EXPORT_LIMIT)
+    }
+}
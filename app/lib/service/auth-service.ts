@@ -1,6 +1,6 @@
 /** @format */
 import 'server-only'
-import {UserRole} from '@/lib/domain/user'
+import {User, UserRole} from '@/lib/domain/user'
 import {UserRepository} from '@/lib/repository/user-repository'
 import {SessionService} from '@/lib/service/session-service'
 import {TokenService} from '@/lib/service/token-service'
@@ -10,9 +10,11 @@ import {StudentService} from '@/lib/service/student-service'
 import {CoordinatorService} from '@/lib/service/coordinator-service'
 import {OrganizationService} from '@/lib/service/organization-service'
 import {ConfigService} from '@/lib/service/config-service'
+import {TwoFactorService} from '@/lib/service/two-factor-service'
 import {hashPassword, verifyPassword} from '@/lib/utils/password'
-import {UserService} from "@/lib/service/user-service";
+import {matchesEmailDomain} from '@/lib/utils/email-domain'
 import {createLogger} from '@/lib/utils/logger'
+import {Locale, resolveLocale} from '@/lib/utils/i18n/routing'
 
 /**
  * Authentication Service
@@ -46,11 +48,12 @@ export class AuthService {
             email: string
             password: string
             role: UserRole
+            locale: Locale
         },
         ipAddress: string
     ) {
         // Rate Limit Check
-        const limitCheck = RateLimitService.signupLimiter.check(3, ipAddress)
+        const limitCheck = await RateLimitService.signupLimiter.check(ipAddress)
         if (!limitCheck.success) {
             this.logger.warn('Signup rate limit exceeded', { ipAddress })
             throw new Error('auth.rateLimitExceeded')
@@ -66,24 +69,20 @@ export class AuthService {
         if (!config.allowPublicRegistration) {
             // For internal roles, check domains if configured
             if (data.role === UserRole.STUDENT && config.studentEmailDomain) {
-                const domain = config.studentEmailDomain.toLowerCase()
-                const emailDomain = data.email.split('@')[1]?.toLowerCase()
-                if (emailDomain !== domain && "@" + emailDomain !== domain) {
+                if (!matchesEmailDomain(data.email, config.studentEmailDomain)) {
                     throw new Error('auth.invalidStudentDomain')
                 }
             }
 
             if (data.role === UserRole.COORDINATOR && config.staffEmailDomain) {
-                const domain = config.staffEmailDomain.toLowerCase()
-                const emailDomain = data.email.split('@')[1]?.toLowerCase()
-                if (emailDomain !== domain && "@" + emailDomain !== domain) {
+                if (!matchesEmailDomain(data.email, config.staffEmailDomain)) {
                     throw new Error('auth.invalidStaffDomain')
                 }
             }
         }
 
-        // Check for Existing User
-        const existingUser = await UserRepository.instance.getByEmail(data.email)
+        // Check for Existing User, including accounts in the trash that may still be restored
+        const existingUser = await UserRepository.instance.getByEmail(data.email, true)
         if (existingUser) {
             this.logger.debug('Signup failed: email already exists', { email: data.email })
             throw new Error('auth.emailAlreadyExists')
@@ -101,6 +100,7 @@ export class AuthService {
                             name: data.name,
                             email: data.email,
                             password: data.password,
+                            locale: data.locale,
                         },
                         student: {}
                     })
@@ -113,6 +113,7 @@ export class AuthService {
                             name: data.name,
                             email: data.email,
                             password: data.password,
+                            locale: data.locale,
                         },
                         coordinator: {},
                     })
@@ -125,6 +126,7 @@ export class AuthService {
                             name: data.name,
                             email: data.email,
                             password: data.password,
+                            locale: data.locale,
                         },
                         organization: {},
                     })
@@ -142,7 +144,8 @@ export class AuthService {
             await EmailService.instance.sendVerificationEmail(
                 user.name,
                 user.email,
-                verificationToken.token
+                verificationToken.token,
+                data.locale
             )
 
             this.logger.info('User signed up successfully', { userId: user.id, role: data.role })
@@ -157,7 +160,7 @@ export class AuthService {
                 )
 
                 // Hard delete the user to clean up.
-                await UserService.instance.deleteUser(user.id)
+                await UserRepository.instance.delete(user.id)
             }
 
             if (error.message === 'email.verificationFailed') {
@@ -169,6 +172,8 @@ export class AuthService {
 
     /**
      * Authenticate a user and create a session.
+     * Users with two-factor authentication get a pending challenge instead of a session,
+     * completed by {@link completeTwoFactorSignIn}.
      *
      * @param data - Login credentials
      * @param ipAddress - Client IP for rate limiting
@@ -180,7 +185,7 @@ export class AuthService {
         },
         ipAddress: string
     ) {
-        const limitCheck = RateLimitService.loginLimiter.check(5, ipAddress)
+        const limitCheck = await RateLimitService.loginLimiter.check(ipAddress)
         if (!limitCheck.success) {
             this.logger.warn('Login rate limit exceeded', { ipAddress, email: data.email })
             throw new Error('auth.rateLimitExceeded')
@@ -204,10 +209,52 @@ export class AuthService {
             throw new Error('auth.accountSuspended')
         }
 
+        if (await TwoFactorService.instance.isEnabled(user.id)) {
+            await SessionService.instance.startTwoFactorChallenge(user.id)
+            this.logger.info('Password accepted, awaiting two-factor code', { userId: user.id })
+            return {user, twoFactorRequired: true}
+        }
+
         await SessionService.instance.createSession(user)
 
         this.logger.info('User signed in', { userId: user.id })
 
+        return {user, twoFactorRequired: false}
+    }
+
+    /**
+     * Completes a sign-in started by {@link signIn} with an authenticator or recovery code.
+     *
+     * @param code - The code entered by the user
+     */
+    async completeTwoFactorSignIn(code: string) {
+        const userId = await SessionService.instance.getTwoFactorChallengeUserId()
+        if (!userId) {
+            throw new Error('auth.twoFactorExpired')
+        }
+
+        const limitCheck = await RateLimitService.twoFactorLimiter.check(userId)
+        if (!limitCheck.success) {
+            this.logger.warn('Two-factor rate limit exceeded', { userId })
+            throw new Error('auth.rateLimitExceeded')
+        }
+
+        const user = await UserRepository.instance.getById(userId)
+        if (!user || user.isSuspended) {
+            await SessionService.instance.clearTwoFactorChallenge()
+            throw new Error('auth.invalidCredentials')
+        }
+
+        const isValidCode = await TwoFactorService.instance.verifyCode(user.id, code)
+        if (!isValidCode) {
+            this.logger.debug('Login failed: invalid two-factor code', { userId })
+            throw new Error('auth.invalidTwoFactorCode')
+        }
+
+        await SessionService.instance.createSession(user)
+
+        this.logger.info('User signed in with two-factor authentication', { userId: user.id })
+
         return user
     }
 
@@ -222,7 +269,7 @@ export class AuthService {
         data: { email: string },
         ipAddress: string
     ) {
-        const limitCheck = RateLimitService.passwordResetLimiter.check(3, ipAddress)
+        const limitCheck = await RateLimitService.passwordResetLimiter.check(ipAddress)
         if (!limitCheck.success) {
             throw new Error('auth.rateLimitExceeded')
         }
@@ -237,7 +284,7 @@ export class AuthService {
         const token = await TokenService.instance.createPasswordResetToken(user.id)
 
         try {
-            await EmailService.instance.sendPasswordResetEmail(user.name, user.email, token.token)
+            await EmailService.instance.sendPasswordResetEmail(user.name, user.email, token.token, resolveLocale(user.locale))
             this.logger.info('Password reset email sent', { userId: user.id })
         } catch (error) {
             this.logger.error('Failed to send password reset email', error as Error)
@@ -250,6 +297,7 @@ export class AuthService {
 
     /**
      * Process the password reset with a valid token.
+     * Signs the user out on every device, so a session opened with the old password cannot be kept.
      */
     async resetPassword(data: { token: string; password: string }) {
         const result = await TokenService.instance.verifyPasswordResetToken(data.token)
@@ -262,6 +310,7 @@ export class AuthService {
 
         await UserRepository.instance.update(result.userId, {hashedPassword})
         await TokenService.instance.deletePasswordResetToken(data.token)
+        await SessionService.instance.revokeAllSessions(result.userId)
 
         this.logger.info('Password reset successfully', { userId: result.userId })
 
@@ -287,7 +336,7 @@ export class AuthService {
         const user = await UserRepository.instance.getById(result.userId)
         if (user) {
             try {
-                await EmailService.instance.sendWelcomeEmail(user.email, user.name)
+                await EmailService.instance.sendWelcomeEmail(user.email, user.name, resolveLocale(user.locale))
             } catch (error) {
                 this.logger.error('Failed to send welcome email after verification', error as Error)
             }
@@ -301,7 +350,7 @@ export class AuthService {
      * Uses rate limiting based on the email address itself to prevent spam.
      */
     async resendVerificationEmail(data: { email: string }) {
-        const limitCheck = RateLimitService.emailResendLimiter.check(3, data.email)
+        const limitCheck = await RateLimitService.emailResendLimiter.check(data.email)
         if (!limitCheck.success) {
             throw new Error('auth.rateLimitExceeded')
         }
@@ -313,7 +362,7 @@ export class AuthService {
         const verificationToken = await TokenService.instance.createVerificationToken(user.id)
 
         try {
-            await EmailService.instance.sendVerificationEmail(user.name, user.email, verificationToken.token)
+            await EmailService.instance.sendVerificationEmail(user.name, user.email, verificationToken.token, resolveLocale(user.locale))
             this.logger.info('Verification email resent', { userId: user.id })
         } catch (error) {
             this.logger.error('Failed to resend verification email', error as Error)
@@ -331,7 +380,7 @@ export class AuthService {
      */
     async resendVerificationEmailAuthenticated(userId: string) {
         // Rate limit check based on User ID
-        const limitCheck = RateLimitService.emailResendLimiter.check(3, userId)
+        const limitCheck = await RateLimitService.emailResendLimiter.check(userId)
         if (!limitCheck.success) {
             this.logger.warn('Authenticated email resend rate limit exceeded', { userId })
             throw new Error('auth.rateLimitExceeded')
@@ -351,7 +400,7 @@ export class AuthService {
         const verificationToken = await TokenService.instance.createVerificationToken(user.id)
 
         try {
-            await EmailService.instance.sendVerificationEmail(user.name, user.email, verificationToken.token)
+            await EmailService.instance.sendVerificationEmail(user.name, user.email, verificationToken.token, resolveLocale(user.locale))
             this.logger.info('Verification email resent (authenticated)', { userId })
         } catch (error) {
             this.logger.error('Failed to resend verification email (authenticated)', error as Error)
@@ -365,7 +414,7 @@ export class AuthService {
      * Logs out the current user.
      */
     async signOut() {
-        const user = await this.getCurrentUser()
+        const user = await SessionService.instance.getCurrentSessionUser()
         if (user) {
             this.logger.info('User signed out', { userId: user.id })
         }
@@ -374,8 +423,31 @@ export class AuthService {
 
     /**
      * Gets the current authenticated user.
+     * Staff who must use two-factor authentication but have not enrolled yet are treated as
+     * signed out, so server actions and API routes stay closed to them until they enroll.
      */
     async getCurrentUser() {
+        const user = await SessionService.instance.getCurrentSessionUser()
+        if (user && await this.isTwoFactorSetupPending(user)) {
+            this.logger.debug('Two-factor enrollment pending', { userId: user.id })
+            return null
+        }
+        return user
+    }
+
+    /**
+     * Gets the current authenticated user, even while their mandatory two-factor enrollment is pending.
+     * Only meant for the enrollment itself.
+     */
+    async getCurrentUserForTwoFactorSetup() {
         return SessionService.instance.getCurrentSessionUser()
     }
+
+    /**
+     * Checks whether the platform requires two-factor authentication for a user who has not enabled it.
+     */
+    private async isTwoFactorSetupPending(user: User): Promise<boolean> {
+        return await TwoFactorService.instance.isRequired(user.role)
+            && !(await TwoFactorService.instance.isEnabled(user.id))
+    }
 }
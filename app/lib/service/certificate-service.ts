@@ -0,0 +1,119 @@
+/** @format */
+import 'server-only';
+import {getTranslations} from 'next-intl/server';
+import {ProjectCompletionRepository} from '@/lib/repository/project-completion-repository';
+import {ConfigService} from '@/lib/service/config-service';
+import {ProjectCompletionStatus} from '@/lib/domain/project-completion';
+import type {
+    CertificateVerification,
+    CompletionCertificate,
+    ProjectCompletionWithDetails
+} from '@/lib/domain/project-completion';
+import {Locale} from '@/lib/utils/i18n/routing';
+import {generateToken} from '@/lib/utils/crypto';
+import {createLogger} from '@/lib/utils/logger';
+import {getCompletionCertificatePdf} from '@/resources/certificates/completion-certificate';
+
+/**
+ * Service issuing and verifying certificates of completion.
+ *
+ * Certificates are only available for published completions. The verification
+ * code is assigned the first time a certificate is generated and stays stable
+ * for every later download.
+ */
+export class CertificateService {
+    private static _instance: CertificateService;
+    private readonly logger = createLogger('CertificateService');
+
+    private constructor() {
+    }
+
+    /**
+     * Gets the singleton instance of the service.
+     */
+    static get instance(): CertificateService {
+        if (!CertificateService._instance) {
+            CertificateService._instance = new CertificateService();
+        }
+        return CertificateService._instance;
+    }
+
+    /**
+     * Generates the PDF certificate for a published completion.
+     *
+     * @param completion - The completion to certify.
+     * @param locale - Language of the certificate.
+     * @returns The certificate file name and base64 encoded PDF.
+     * @throws Error if the completion is not published or the platform is not configured.
+     */
+    async generateCertificate(
+        completion: ProjectCompletionWithDetails,
+        locale: Locale = 'en'
+    ): Promise<CompletionCertificate> {
+        try {
+            if (completion.status !== ProjectCompletionStatus.PUBLISHED) {
+                throw new Error(`Completion ${completion.id} is not published`);
+            }
+
+            const config = await ConfigService.instance.getConfig();
+            if (!config) {
+                throw new Error('Global configuration not found');
+            }
+
+            const verificationCode = completion.verificationCode ?? await this.assignVerificationCode(completion.id);
+            const verificationUrl = `${process.env.APP_URL}/certificates/verify?code=${verificationCode}`;
+            const t = await getTranslations({locale});
+
+            const pdf = await getCompletionCertificatePdf(completion, verificationCode, verificationUrl, t, locale, config);
+
+            this.logger.info('Certificate generated', {completionId: completion.id});
+            return {
+                fileName: `certificate-${verificationCode}.pdf`,
+                content: Buffer.from(pdf).toString('base64'),
+            };
+        } catch (error) {
+            this.logger.error('Failed to generate certificate', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Looks up a certificate by its verification code.
+     *
+     * @param verificationCode - The code printed on the certificate.
+     * @returns The certificate details or null if no published completion matches the code.
+     */
+    async verifyCertificate(verificationCode: string): Promise<CertificateVerification | null> {
+        const completion = await ProjectCompletionRepository.instance.getByVerificationCode(
+            verificationCode.trim().toUpperCase()
+        );
+        if (!completion || completion.status !== ProjectCompletionStatus.PUBLISHED) {
+            return null;
+        }
+
+        return {
+            verificationCode: completion.verificationCode!,
+            studentName: completion.student.user.name,
+            projectTitle: completion.project.title,
+            organizationName: completion.project.organization.user.name,
+            coordinatorName: completion.project.coordinator?.user.name ?? null,
+            actualHoursWorked: completion.actualHoursWorked,
+            coordinatorPerformanceRating: completion.coordinatorPerformanceRating,
+            organizationPerformanceRating: completion.organizationPerformanceRating,
+            completedAt: completion.completedAt,
+        };
+    }
+
+    /**
+     * Assigns a new verification code to a completion, formatted as `XXXX-XXXX-XXXX`.
+     * If another request assigned one first, that code is kept and returned instead.
+     */
+    private async assignVerificationCode(completionId: string): Promise<string> {
+        const generated = generateToken(6).toUpperCase().match(/.{4}/g)!.join('-');
+        const verificationCode = await ProjectCompletionRepository.instance.assignVerificationCode(completionId, generated);
+        if (!verificationCode) {
+            throw new Error(`Completion ${completionId} not found`);
+        }
+        return verificationCode;
+    }
+}
@@ -1,6 +1,9 @@
 /** @format */
 import 'server-only'
 import {ConfigRepository} from '@/lib/repository/config-repository'
+import {StorageService} from '@/lib/service/storage-service'
+import {AuditService} from '@/lib/service/audit-service'
+import {AuditAction, AuditEntityType} from '@/lib/domain/audit'
 import {Config, ConfigCreateType, ConfigUpdateType} from '@/lib/domain/config'
 import {createLogger} from '@/lib/utils/logger'
 
@@ -61,15 +64,29 @@ export class ConfigService {
     /**
      * Updates the global configuration.
      *
-     * Handles partial updates and validation.
+     * Handles partial updates and validation. A replaced logo is removed from storage,
+     * and the changed settings are recorded in the audit log.
      *
      * @param {ConfigUpdateType} input - Configuration update input
      * @returns {Promise<Config>} The updated configuration record.
      */
     async updateConfig(input: ConfigUpdateType): Promise<Config> {
         try {
+            const previous = await this.repository.getGlobalConfig()
             const config = await this.repository.updateConfig(input)
             this.logger.info('Global configuration updated via service')
+            await AuditService.instance.record({
+                action: AuditAction.CONFIG_UPDATED,
+                entityType: AuditEntityType.CONFIG,
+                entityId: config.id,
+                entityLabel: config.name,
+                before: previous,
+                after: config,
+            })
+
+            if (previous?.logo && previous.logo !== config.logo) {
+                await StorageService.instance.deleteFileByUrl(previous.logo)
+            }
             return config
         } catch (error) {
             this.logger.error('Failed to update global configuration via service', error as Error)
@@ -1,10 +1,19 @@
 /** @format */
 import {database} from '@/lib/database'
-import type {CoordinatorRegistrationInput, CoordinatorUpdateType, CoordinatorWithUser} from '@/lib/domain/coordinator'
+import type {
+    CoordinatorRegistrationInput,
+    CoordinatorSuggestion,
+    CoordinatorUpdateType,
+    CoordinatorWithUser
+} from '@/lib/domain/coordinator'
+import type {Project} from '@/lib/domain/project'
 import {CoordinatorRepository} from '@/lib/repository/coordinator-repository'
 import {UserRepository} from '@/lib/repository/user-repository'
+import {StorageService} from '@/lib/service/storage-service'
+import {getProfilePictureUpdate} from '@/lib/domain/user'
 import {hashPassword} from '@/lib/utils/password'
 import {createLogger} from '@/lib/utils/logger'
+import {ACTIVE_COORDINATOR_PROJECT_STATUSES, rankCoordinatorsForProject} from '@/lib/utils/coordinator-matching'
 
 /**
  * Service for managing Coordinator (Staff) business logic.
@@ -36,7 +45,7 @@ export class CoordinatorService {
         try {
             const result = await database.$transaction(async (tx) => {
                 const {password, ...userData} = input.user
-                const hashedPassword = await hashPassword(password)
+                const hashedPassword = password ? await hashPassword(password) : null
 
                 const user = await UserRepository.instance.create(
                     {...userData, hashedPassword, role: 'COORDINATOR',}, tx
@@ -64,8 +73,34 @@ export class CoordinatorService {
         return CoordinatorRepository.instance.getByUserId(userId)
     }
 
+    /**
+     * Checks whether a coordinator can be assigned to projects, i.e. exists and is neither suspended nor deleted.
+     */
+    async isCoordinatorActive(coordinatorId: string): Promise<boolean> {
+        return CoordinatorRepository.instance.isActive(coordinatorId)
+    }
+
+    /**
+     * Suggests coordinators for a project, ranked by how well their expertise and
+     * department match the project category and skills, then by active workload.
+     */
+    async getCoordinatorSuggestions(
+        project: Pick<Project, 'category' | 'requiredSkills'>
+    ): Promise<CoordinatorSuggestion[]> {
+        try {
+            const coordinators = await CoordinatorRepository.instance.findAllWithWorkload(
+                ACTIVE_COORDINATOR_PROJECT_STATUSES
+            )
+            return rankCoordinatorsForProject(project, coordinators)
+        } catch (error) {
+            this.logger.error('Failed to build coordinator suggestions', error as Error)
+            throw error
+        }
+    }
+
     /**
      * Updates a coordinator's profile.
+     * A replaced profile picture is removed from storage.
      */
     async updateCoordinatorProfile(
         userId: string,
@@ -80,6 +115,11 @@ export class CoordinatorService {
 
             const coordinator = await CoordinatorRepository.instance.update(userId, data)
 
+            const profilePictureUrl = getProfilePictureUpdate(data)
+            if (profilePictureUrl !== undefined && profilePictureUrl !== existingProfile.user.profilePictureUrl) {
+                await StorageService.instance.deleteFileByUrl(existingProfile.user.profilePictureUrl)
+            }
+
             this.logger.info('Coordinator profile updated', { userId })
             return {...coordinator, user: existingProfile.user}
         } catch (error) {
@@ -1,20 +1,18 @@
 /** @format */
 import 'server-only'
-import nodemailer, {Transporter} from 'nodemailer'
-import {getTranslations} from 'next-intl/server'
+import {Transporter} from 'nodemailer'
 import {ConfigService} from '@/lib/service/config-service'
 import {Locale} from '@/lib/utils/i18n/routing'
-import {getVerificationEmailTemplate} from '@/resources/emails/verification'
-import {getWelcomeEmailTemplate} from '@/resources/emails/welcome'
-import {getPasswordResetEmailTemplate} from '@/resources/emails/password-reset'
-import {getAccountSuspendedTemplate} from '@/resources/emails/account-suspended'
-import {getOrganizationRejectedTemplate} from '@/resources/emails/organization-rejected'
-import {getOrganizationApprovedTemplate} from '@/resources/emails/organization-approved'
-import {getNewOrganizationSignupTemplate} from '@/resources/emails/new-organization-signup'
-import {getCoordinatorReviewSubmittedTemplate} from '@/resources/emails/coordinator-review-submitted'
-import {getOrganizationReviewSubmittedTemplate} from '@/resources/emails/organization-review-submitted'
 import {Config} from "@/lib/domain/config"
 import {createLogger} from '@/lib/utils/logger'
+import {createMailTransporter, formatFromAddress} from '@/lib/utils/mailer'
+import {EmailOutboxRepository, OutboundEmailFilterOptions} from '@/lib/repository/email-outbox-repository'
+import type {OutboundEmail, OutboundEmailSummary} from '@/lib/domain/email-outbox'
+import {canResendOutboundEmail} from '@/lib/domain/email-outbox'
+import {PaginationParams, PaginationResult} from '@/lib/domain/pagination'
+import {EmailTemplateService} from '@/lib/service/email-template-service'
+import type {EmailTemplateContent, EmailTemplateVariables} from '@/lib/domain/email-template'
+import {EMAIL_TEMPLATE_SAMPLE_VALUES, EmailTemplateKey} from '@/lib/domain/email-template'
 import {UserRepository} from "@/lib/repository/user-repository";
 import {AdministratorRepository} from "@/lib/repository/administrator-repository";
 import {AdministratorService} from "@/lib/service/admin-service";
@@ -22,6 +20,13 @@ import {AdministratorService} from "@/lib/service/admin-service";
 /**
  * Email Service
  * Handles sending transactional emails with templating and i18n support.
+ * Subjects and bodies come from `EmailTemplateService`, which applies administrator
+ * overrides and falls back to the built-in templates.
+ *
+ * Emails are rendered and stored in the outbox before any SMTP traffic, so a
+ * failing mail server never loses a message nor fails the calling action.
+ * Delivery is attempted right away in the background; failed attempts are
+ * retried with exponential backoff by the outbox worker script.
  */
 export class EmailService {
     private static _instance: EmailService
@@ -68,23 +73,7 @@ export class EmailService {
 
         try {
             const config = await this.getSafeConfig()
-            const isSecure = config.smtpPort === 465
-
-            this.transporter = nodemailer.createTransport({
-                host: config.smtpHost,
-                port: config.smtpPort,
-                secure: isSecure,
-                auth: {
-                    user: config.smtpUser,
-                    pass: config.smtpPassword,
-                },
-                tls: {
-                    ciphers: 'SSLv3',
-                },
-                family: 4,
-                connectionTimeout: 10000,
-                greetingTimeout: 10000,
-            } as any)
+            this.transporter = createMailTransporter(config)
 
             this.logger.info(`SMTP initialized`, { host: config.smtpHost, port: config.smtpPort })
             return this.transporter
@@ -99,8 +88,7 @@ export class EmailService {
      */
     private async getFromAddress(label: string): Promise<string> {
         const config = await this.getSafeConfig()
-        const email = config.emailFrom || config.smtpUser || 'noreply@example.com'
-        return `"${label}" <${email}>`
+        return formatFromAddress(config, label)
     }
 
     /**
@@ -121,6 +109,139 @@ export class EmailService {
         }
     }
 
+    /**
+     * Stores a rendered email in the outbox and starts its first delivery attempt
+     * without waiting for the SMTP server.
+     */
+    private async queue(message: {
+        from: string,
+        to: string,
+        subject: string,
+        html: string,
+        templateKey?: EmailTemplateKey
+    }): Promise<void> {
+        const email = await EmailOutboxRepository.instance.create(message)
+        this.deliver(email.id)
+            .catch(error => this.logger.error('Failed to deliver queued email', error as Error))
+    }
+
+    /**
+     * Renders a template in the given locale and queues the resulting email.
+     */
+    private async queueTemplate(
+        key: EmailTemplateKey,
+        to: string,
+        locale: Locale,
+        variables: EmailTemplateVariables,
+        content?: EmailTemplateContent
+    ): Promise<void> {
+        const email = await EmailTemplateService.instance.render(key, locale, variables, content)
+        await this.queue({
+            from: await this.getFromAddress(email.fromLabel),
+            to,
+            subject: email.subject,
+            html: email.html,
+            templateKey: key,
+        })
+    }
+
+    /**
+     * Performs one delivery attempt for a queued email.
+     * Does nothing if the email is not pending or another process already claimed it.
+     *
+     * @returns The email after the attempt, or null if it was not claimed.
+     */
+    private async deliver(id: string): Promise<OutboundEmail | null> {
+        const claimed = await EmailOutboxRepository.instance.claim(id)
+        if (!claimed) return null
+
+        const email = await EmailOutboxRepository.instance.getById(id)
+        if (!email) return null
+
+        try {
+            const transporter = await this.getTransporter()
+            if (!transporter) {
+                throw new Error('SMTP transporter is not available')
+            }
+
+            await transporter.sendMail({
+                from: email.from,
+                to: email.to,
+                subject: email.subject,
+                html: email.html,
+            })
+
+            this.logger.info('Queued email delivered', { id, to: email.to })
+            return await EmailOutboxRepository.instance.markSent(id)
+        } catch (error) {
+            this.logger.warn('Email delivery attempt failed', { id, attempts: email.attempts })
+            return await EmailOutboxRepository.instance.markAttemptFailed(id, email.attempts, error)
+        }
+    }
+
+    /**
+     * Retrieves a paginated list of outbox emails for the admin overview, without their bodies.
+     */
+    async getOutboxEmails(
+        pageParams: PaginationParams,
+        filters: OutboundEmailFilterOptions = {}
+    ): Promise<PaginationResult<OutboundEmailSummary>> {
+        return EmailOutboxRepository.instance.findMany(pageParams, filters)
+    }
+
+    /**
+     * Retrieves an outbox email without its body.
+     *
+     * @param id - The outbox email ID.
+     * @returns The email or null if it does not exist.
+     */
+    async getOutboxEmail(id: string): Promise<OutboundEmailSummary | null> {
+        return EmailOutboxRepository.instance.getSummaryById(id)
+    }
+
+    /**
+     * Requeues an email with a fresh attempt budget and tries to deliver it immediately.
+     * Emails carrying single-use links are never resent.
+     *
+     * @param id - The outbox email ID.
+     * @returns The email after the delivery attempt, without its body, or null if it does not exist.
+     * @throws Error if the email was rendered from a single-use link template.
+     */
+    async resend(id: string): Promise<OutboundEmailSummary | null> {
+        const existing = await EmailOutboxRepository.instance.getSummaryById(id)
+        if (!existing) return null
+        if (!canResendOutboundEmail(existing)) {
+            throw new Error(`Email ${id} holds a single-use link and cannot be resent`)
+        }
+
+        await EmailOutboxRepository.instance.requeue(id)
+        await this.deliver(id)
+        const email = await EmailOutboxRepository.instance.getSummaryById(id)
+        this.logger.info('Email resent', { id, status: email?.status })
+        return email
+    }
+
+    /**
+     * Sends a template with example values to an administrator, e.g. to check unsaved changes.
+     * Unlike the other emails, failures are propagated so the editor can report them.
+     *
+     * @param email - The administrator's email address.
+     * @param name - The administrator's name, used as the recipient name.
+     * @param key - The template key.
+     * @param locale - The template locale.
+     * @param content - The content to send instead of the stored template.
+     */
+    async sendTemplateTestEmail(
+        email: string,
+        name: string,
+        key: EmailTemplateKey,
+        locale: Locale,
+        content: EmailTemplateContent
+    ): Promise<void> {
+        await this.queueTemplate(key, email, locale, {...EMAIL_TEMPLATE_SAMPLE_VALUES, name}, content)
+        this.logger.info('Template test email queued', { email, key, locale })
+    }
+
     async sendVerificationEmail(
         name: string,
         email: string,
@@ -128,23 +249,11 @@ export class EmailService {
         locale: Locale = 'en'
     ): Promise<void> {
         try {
-            const transporter = await this.getTransporter()
-            const config = await this.getSafeConfig()
-            if (!transporter) return
-
-            const t = await getTranslations({locale})
             const verificationUrl = `${process.env.APP_URL}/verify-email?token=${token}`
 
-            const htmlBody = getVerificationEmailTemplate(name, verificationUrl, t, locale, config)
-
-            await transporter.sendMail({
-                from: await this.getFromAddress(t('from')),
-                to: email,
-                subject: t('subject'),
-                html: htmlBody,
-            })
+            await this.queueTemplate(EmailTemplateKey.VERIFICATION, email, locale, {name, url: verificationUrl})
 
-            this.logger.info('Verification email sent', { email })
+            this.logger.info('Verification email queued', { email })
         } catch (error) {
             this.logger.error('Failed to send verification email', error as Error)
             throw new Error('email.verificationFailed')
@@ -157,23 +266,11 @@ export class EmailService {
         locale: Locale = 'en'
     ): Promise<void> {
         try {
-            const transporter = await this.getTransporter()
-            const config = await this.getSafeConfig()
-            if (!transporter) return
-
-            const t = await getTranslations({locale})
             const dashboardUrl = `${process.env.APP_URL}/dashboard`
 
-            const htmlBody = getWelcomeEmailTemplate(name, dashboardUrl, t, locale, config)
-
-            await transporter.sendMail({
-                from: await this.getFromAddress(t('from')),
-                to: email,
-                subject: t('subject'),
-                html: htmlBody,
-            })
+            await this.queueTemplate(EmailTemplateKey.WELCOME, email, locale, {name, url: dashboardUrl})
 
-            this.logger.info('Welcome email sent', { email })
+            this.logger.info('Welcome email queued', { email })
         } catch (error) {
             this.logger.error('Failed to send welcome email', error as Error)
         }
@@ -186,23 +283,11 @@ export class EmailService {
         locale: Locale = 'en'
     ): Promise<void> {
         try {
-            const transporter = await this.getTransporter()
-            const config = await this.getSafeConfig()
-            if (!transporter) return
-
-            const t = await getTranslations({locale})
             const resetUrl = `${process.env.APP_URL}/reset-password?token=${token}`
 
-            const htmlBody = getPasswordResetEmailTemplate(name, resetUrl, t, locale, config)
-
-            await transporter.sendMail({
-                from: await this.getFromAddress(t('from')),
-                to: email,
-                subject: t('subject'),
-                html: htmlBody,
-            })
+            await this.queueTemplate(EmailTemplateKey.PASSWORD_RESET, email, locale, {name, url: resetUrl})
 
-            this.logger.info('Password reset email sent', { email })
+            this.logger.info('Password reset email queued', { email })
         } catch (error) {
             this.logger.error('Failed to send password reset email', error as Error)
             throw new Error('email.resetFailed')
@@ -215,23 +300,11 @@ export class EmailService {
         locale: Locale = 'en'
     ): Promise<void> {
         try {
-            const transporter = await this.getTransporter()
-            const config = await this.getSafeConfig()
-            if (!transporter) return
-
-            const t = await getTranslations({locale})
             const dashboardUrl = `${process.env.APP_URL}/dashboard/organization`
 
-            const htmlBody = getOrganizationApprovedTemplate(name, dashboardUrl, t, locale, config)
+            await this.queueTemplate(EmailTemplateKey.ORGANIZATION_APPROVED, email, locale, {name, url: dashboardUrl})
 
-            await transporter.sendMail({
-                from: await this.getFromAddress(t('from')),
-                to: email,
-                subject: t('subject'),
-                html: htmlBody,
-            })
-
-            this.logger.info('Organization approved email sent', { email })
+            this.logger.info('Organization approved email queued', { email })
         } catch (error) {
             this.logger.error('Failed to send org approval email', error as Error)
         }
@@ -244,23 +317,9 @@ export class EmailService {
         locale: Locale = 'en'
     ): Promise<void> {
         try {
-            const transporter = await this.getTransporter()
-            const config = await this.getSafeConfig()
-            if (!transporter) return
+            await this.queueTemplate(EmailTemplateKey.ORGANIZATION_REJECTED, email, locale, {name, reason})
 
-            const t = await getTranslations({locale})
-            const supportUrl = `${process.env.APP_URL}/contact`
-
-            const htmlBody = getOrganizationRejectedTemplate(name, reason, supportUrl, locale, config)
-
-            await transporter.sendMail({
-                from: await this.getFromAddress(t('from')),
-                to: email,
-                subject: t('subject'),
-                html: htmlBody,
-            })
-
-            this.logger.info('Organization rejected email sent', { email })
+            this.logger.info('Organization rejected email queued', { email })
         } catch (error) {
             this.logger.error('Failed to send org rejection email', error as Error)
         }
@@ -273,22 +332,9 @@ export class EmailService {
         locale: Locale = 'en'
     ): Promise<void> {
         try {
-            const transporter = await this.getTransporter()
-            const config = await this.getSafeConfig()
-            if (!transporter) return
-
-            const t = await getTranslations({locale})
+            await this.queueTemplate(EmailTemplateKey.ACCOUNT_SUSPENDED, email, locale, {name, reason})
 
-            const htmlBody = getAccountSuspendedTemplate(name, reason, t, locale, config)
-
-            await transporter.sendMail({
-                from: await this.getFromAddress(t('from')),
-                to: email,
-                subject: t('subject'),
-                html: htmlBody,
-            })
-
-            this.logger.info('Account suspended email sent', { email })
+            this.logger.info('Account suspended email queued', { email })
         } catch (error) {
             this.logger.error('Failed to send suspension email', error as Error)
         }
@@ -300,22 +346,10 @@ export class EmailService {
         locale: Locale = 'en'
     ): Promise<void> {
         try {
-            const transporter = await this.getTransporter()
-            const config = await this.getSafeConfig()
-            if (!transporter) return
-
-            const t = await getTranslations({locale})
             const adminDashboardUrl = `${process.env.APP_URL}/admin/organizations`
 
-            const htmlBody = getNewOrganizationSignupTemplate(orgName, adminDashboardUrl, t, locale, config)
-
-            await transporter.sendMail({
-                from: await this.getFromAddress(t('from')),
-                to: adminEmail,
-                subject: t('subject'),
-                html: htmlBody,
-            })
-            this.logger.info('New organization signup email sent to admin', { email: adminEmail })
+            await this.queueTemplate(EmailTemplateKey.NEW_ORGANIZATION_SIGNUP, adminEmail, locale, {organizationName: orgName, url: adminDashboardUrl})
+            this.logger.info('New organization signup email queued for admin', { email: adminEmail })
         } catch (error) {
             this.logger.error('Failed to send new organization signup email', error as Error)
         }
@@ -328,23 +362,11 @@ export class EmailService {
         locale: Locale = 'en'
     ): Promise<void> {
         try {
-            const transporter = await this.getTransporter()
-            const config = await this.getSafeConfig()
-            if (!transporter) return
-
-            const t = await getTranslations({locale})
             const dashboardUrl = `${process.env.APP_URL}/dashboard/completions`
 
-            const htmlBody = getCoordinatorReviewSubmittedTemplate(studentName, projectName, dashboardUrl, t, locale, config)
+            await this.queueTemplate(EmailTemplateKey.COORDINATOR_REVIEW_SUBMITTED, email, locale, {name: studentName, projectName, url: dashboardUrl})
 
-            await transporter.sendMail({
-                from: await this.getFromAddress(t('from')),
-                to: email,
-                subject: t('email.coordinatorReviewSubmitted.subject'),
-                html: htmlBody,
-            })
-
-            this.logger.info('Coordinator review submitted email sent', { email })
+            this.logger.info('Coordinator review submitted email queued', { email })
         } catch (error) {
             this.logger.error('Failed to send coordinator review submitted email', error as Error)
         }
@@ -357,28 +379,104 @@ export class EmailService {
         locale: Locale = 'en'
     ): Promise<void> {
         try {
-            const transporter = await this.getTransporter()
-            const config = await this.getSafeConfig()
-            if (!transporter) return
-
-            const t = await getTranslations({locale})
             const dashboardUrl = `${process.env.APP_URL}/dashboard/completions`
 
-            const htmlBody = getOrganizationReviewSubmittedTemplate(studentName, projectName, dashboardUrl, t, locale, config)
-
-            await transporter.sendMail({
-                from: await this.getFromAddress(t('from')),
-                to: email,
-                subject: t('email.organizationReviewSubmitted.subject'),
-                html: htmlBody,
-            })
+            await this.queueTemplate(EmailTemplateKey.ORGANIZATION_REVIEW_SUBMITTED, email, locale, {name: studentName, projectName, url: dashboardUrl})
 
-            this.logger.info('Organization review submitted email sent', { email })
+            this.logger.info('Organization review submitted email queued', { email })
         } catch (error) {
             this.logger.error('Failed to send organization review submitted email', error as Error)
         }
     }
 
+    async sendApplicationAcceptedEmail(
+        email: string,
+        studentName: string,
+        projectName: string,
+        locale: Locale = 'en'
+    ): Promise<void> {
+        try {
+            const dashboardUrl = `${process.env.APP_URL}/dashboard/applications`
+
+            await this.queueTemplate(EmailTemplateKey.APPLICATION_ACCEPTED, email, locale, {name: studentName, projectName, url: dashboardUrl})
+
+            this.logger.info('Application accepted email queued', { email })
+        } catch (error) {
+            this.logger.error('Failed to send application accepted email', error as Error)
+        }
+    }
+
+    async sendApplicationRejectedEmail(
+        email: string,
+        studentName: string,
+        projectName: string,
+        reason: string,
+        locale: Locale = 'en'
+    ): Promise<void> {
+        try {
+            const dashboardUrl = `${process.env.APP_URL}/dashboard/applications`
+
+            await this.queueTemplate(EmailTemplateKey.APPLICATION_REJECTED, email, locale, {name: studentName, projectName, reason, url: dashboardUrl})
+
+            this.logger.info('Application rejected email queued', { email })
+        } catch (error) {
+            this.logger.error('Failed to send application rejected email', error as Error)
+        }
+    }
+
+    async sendProjectAssignedEmail(
+        email: string,
+        coordinatorName: string,
+        projectName: string,
+        organizationName: string,
+        locale: Locale = 'en'
+    ): Promise<void> {
+        try {
+            const dashboardUrl = `${process.env.APP_URL}/dashboard/reviews`
+
+            await this.queueTemplate(EmailTemplateKey.PROJECT_ASSIGNED, email, locale, {name: coordinatorName, projectName, organizationName, url: dashboardUrl})
+
+            this.logger.info('Project assigned email queued', { email })
+        } catch (error) {
+            this.logger.error('Failed to send project assigned email', error as Error)
+        }
+    }
+
+    async sendProjectApprovedEmail(
+        email: string,
+        organizationName: string,
+        projectName: string,
+        locale: Locale = 'en'
+    ): Promise<void> {
+        try {
+            const dashboardUrl = `${process.env.APP_URL}/dashboard/projects`
+
+            await this.queueTemplate(EmailTemplateKey.PROJECT_APPROVED, email, locale, {name: organizationName, projectName, url: dashboardUrl})
+
+            this.logger.info('Project approved email queued', { email })
+        } catch (error) {
+            this.logger.error('Failed to send project approved email', error as Error)
+        }
+    }
+
+    async sendProjectChangesRequestedEmail(
+        email: string,
+        organizationName: string,
+        projectName: string,
+        reason: string,
+        locale: Locale = 'en'
+    ): Promise<void> {
+        try {
+            const dashboardUrl = `${process.env.APP_URL}/dashboard/projects`
+
+            await this.queueTemplate(EmailTemplateKey.PROJECT_CHANGES_REQUESTED, email, locale, {name: organizationName, projectName, reason, url: dashboardUrl})
+
+            this.logger.info('Project changes requested email queued', { email })
+        } catch (error) {
+            this.logger.error('Failed to send project changes requested email', error as Error)
+        }
+    }
+
     /**
      * Forces a reload of the transporter configuration.
      * Clears both the cached config and the transporter instance.
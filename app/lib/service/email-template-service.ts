@@ -0,0 +1,173 @@
+/** @format */
+import 'server-only';
+import {getTranslations} from 'next-intl/server';
+import {EmailTemplateRepository} from '@/lib/repository/email-template-repository';
+import {ConfigService} from '@/lib/service/config-service';
+import type {
+    EmailTemplateContent,
+    EmailTemplateDetails,
+    EmailTemplateSummary,
+    EmailTemplateVariables,
+    RenderedEmail
+} from '@/lib/domain/email-template';
+import {EMAIL_TEMPLATE_VARIABLES, EmailTemplateKey} from '@/lib/domain/email-template';
+import type {Config} from '@/lib/domain/config';
+import {toAbsoluteStoredFileUrl} from '@/lib/domain/storage';
+import {Locale} from '@/lib/utils/i18n/routing';
+import {renderTemplateContent, toPlaceholder} from '@/lib/utils/email-template';
+import {createLogger} from '@/lib/utils/logger';
+import {BUILT_IN_EMAIL_TEMPLATES} from '@/resources/emails/built-in-templates';
+
+/**
+ * Service resolving email templates.
+ *
+ * Administrators can override the subject and HTML of every built-in template per
+ * locale. Overrides use `{{variable}}` placeholders; the built-in templates in
+ * `resources/emails` are used whenever no override exists for the locale.
+ */
+export class EmailTemplateService {
+    private static _instance: EmailTemplateService;
+    private readonly logger = createLogger('EmailTemplateService');
+
+    private constructor() {
+    }
+
+    /**
+     * Gets the singleton instance of the service.
+     */
+    static get instance(): EmailTemplateService {
+        if (!EmailTemplateService._instance) {
+            EmailTemplateService._instance = new EmailTemplateService();
+        }
+        return EmailTemplateService._instance;
+    }
+
+    /**
+     * Loads the configuration the built-in templates are branded with.
+     * An uploaded logo is linked with its absolute URL, since emails are read outside the application.
+     */
+    private async getConfig(): Promise<Config> {
+        const config = await ConfigService.instance.getConfig();
+        if (!config) {
+            throw new Error('Global configuration not found');
+        }
+        return {...config, logo: toAbsoluteStoredFileUrl(config.logo, process.env.APP_URL)};
+    }
+
+    /**
+     * Renders the built-in template of a key with the given variables.
+     */
+    private async renderBuiltIn(
+        key: EmailTemplateKey,
+        locale: Locale,
+        variables: EmailTemplateVariables
+    ): Promise<RenderedEmail> {
+        const template = BUILT_IN_EMAIL_TEMPLATES[key];
+        const t = await getTranslations({locale});
+        const config = await this.getConfig();
+
+        return {
+            fromLabel: t(`${template.namespace}.from`),
+            subject: t(`${template.namespace}.subject`, variables),
+            html: template.render(variables, t, locale, config),
+        };
+    }
+
+    /**
+     * Lists every template with whether it is overridden for the locale.
+     *
+     * @param {Locale} locale The locale.
+     * @returns {Promise<EmailTemplateSummary[]>} One entry per template key.
+     */
+    async getTemplates(locale: Locale): Promise<EmailTemplateSummary[]> {
+        const overrides = await EmailTemplateRepository.instance.findByLocale(locale);
+
+        return Object.values(EmailTemplateKey).map((key) => {
+            const override = overrides.find((template) => template.key === key);
+            return {key, isCustomized: !!override, updatedAt: override?.updatedAt ?? null};
+        });
+    }
+
+    /**
+     * Retrieves a template for editing.
+     * The built-in defaults are rendered with the placeholders themselves as values,
+     * so they can be used as the starting point of an override.
+     *
+     * @param {EmailTemplateKey} key The template key.
+     * @param {Locale} locale The locale.
+     * @returns {Promise<EmailTemplateDetails>} The effective content and the built-in defaults.
+     */
+    async getTemplate(key: EmailTemplateKey, locale: Locale): Promise<EmailTemplateDetails> {
+        const variables = EMAIL_TEMPLATE_VARIABLES[key];
+        const placeholders = Object.fromEntries(variables.map((variable) => [variable, toPlaceholder(variable)]));
+
+        const [override, builtIn] = await Promise.all([
+            EmailTemplateRepository.instance.findByKeyAndLocale(key, locale),
+            this.renderBuiltIn(key, locale, placeholders)
+        ]);
+
+        const defaults = {subject: builtIn.subject, html: builtIn.html};
+
+        return {
+            key,
+            locale,
+            variables,
+            subject: override?.subject ?? defaults.subject,
+            html: override?.html ?? defaults.html,
+            isCustomized: !!override,
+            updatedAt: override?.updatedAt ?? null,
+            defaults,
+        };
+    }
+
+    /**
+     * Renders an email from its template.
+     * Uses the override of the locale when one exists and the built-in template otherwise.
+     *
+     * @param {EmailTemplateKey} key The template key.
+     * @param {Locale} locale The recipient's locale.
+     * @param {EmailTemplateVariables} variables The placeholder values.
+     * @param {EmailTemplateContent} [content] Unsaved content to render instead of the stored template (e.g. for test emails).
+     * @returns {Promise<RenderedEmail>} The rendered subject and HTML with the sender label.
+     */
+    async render(
+        key: EmailTemplateKey,
+        locale: Locale,
+        variables: EmailTemplateVariables,
+        content?: EmailTemplateContent
+    ): Promise<RenderedEmail> {
+        const override = content ?? await EmailTemplateRepository.instance.findByKeyAndLocale(key, locale);
+        if (!override) {
+            return this.renderBuiltIn(key, locale, variables);
+        }
+
+        const t = await getTranslations({locale});
+        return {
+            fromLabel: t(`${BUILT_IN_EMAIL_TEMPLATES[key].namespace}.from`),
+            ...renderTemplateContent(override, variables),
+        };
+    }
+
+    /**
+     * Stores an override of a template for a locale.
+     *
+     * @param {EmailTemplateKey} key The template key.
+     * @param {Locale} locale The locale.
+     * @param {EmailTemplateContent} content The subject and HTML body.
+     */
+    async saveTemplate(key: EmailTemplateKey, locale: Locale, content: EmailTemplateContent): Promise<void> {
+        await EmailTemplateRepository.instance.upsert(key, locale, content);
+        this.logger.info('Email template saved', {key, locale});
+    }
+
+    /**
+     * Removes the override of a template, restoring the built-in template for the locale.
+     *
+     * @param {EmailTemplateKey} key The template key.
+     * @param {Locale} locale The locale.
+     */
+    async resetTemplate(key: EmailTemplateKey, locale: Locale): Promise<void> {
+        await EmailTemplateRepository.instance.delete(key, locale);
+        this.logger.info('Email template reset to default', {key, locale});
+    }
+}
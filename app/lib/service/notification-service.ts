@@ -0,0 +1,176 @@
+/** @format */
+import 'server-only';
+import {NotificationRepository} from '@/lib/repository/notification-repository';
+import type {NotificationFilterOptions} from '@/lib/repository/notification-repository';
+import {NotificationPreferenceRepository} from '@/lib/repository/notification-preference-repository';
+import type {
+    Notification,
+    NotificationParams,
+    NotificationPreferences,
+    NotificationSummary,
+    NotificationType
+} from '@/lib/domain/notification';
+import {
+    DEFAULT_NOTIFICATION_DELIVERY,
+    NOTIFICATION_TYPES_BY_ROLE,
+    NotificationDelivery,
+    RECENT_NOTIFICATIONS_LIMIT
+} from '@/lib/domain/notification';
+import type {UserRole} from '@/lib/domain/user';
+import {PaginationParams, PaginationResult} from '@/lib/domain/pagination';
+import {createLogger} from '@/lib/utils/logger';
+
+/**
+ * Service managing in-app notifications.
+ *
+ * Other services call `notify` for every event and only send the matching email
+ * right away when the recipient's preference is immediate delivery. Events the
+ * recipient wants in the daily digest are flagged and emailed by the digest job.
+ * Like email delivery, a failed notification is logged and never breaks the
+ * operation that triggered it.
+ */
+export class NotificationService {
+    private static _instance: NotificationService;
+    private readonly logger = createLogger('NotificationService');
+
+    private constructor() {
+    }
+
+    /**
+     * Gets the singleton instance of the service.
+     */
+    static get instance(): NotificationService {
+        if (!NotificationService._instance) {
+            NotificationService._instance = new NotificationService();
+        }
+        return NotificationService._instance;
+    }
+
+    /**
+     * Records a notification for a user according to their delivery preference.
+     *
+     * @param userId - The recipient's user ID.
+     * @param type - The kind of event.
+     * @param params - Values interpolated into the localized message.
+     * @param link - Optional dashboard path the notification points to.
+     * @returns The recipient's delivery preference; callers send the email only when it is immediate.
+     */
+    async notify(
+        userId: string,
+        type: NotificationType,
+        params: NotificationParams = {},
+        link?: string
+    ): Promise<NotificationDelivery> {
+        let delivery: NotificationDelivery = DEFAULT_NOTIFICATION_DELIVERY;
+        try {
+            delivery = await this.getDelivery(userId, type);
+            await NotificationRepository.instance.create({
+                type,
+                params,
+                link,
+                pendingDigest: delivery === NotificationDelivery.DAILY_DIGEST,
+                user: {connect: {id: userId}},
+            });
+            this.logger.info('Notification created', {userId, type, delivery});
+        } catch (error) {
+            this.logger.error('Failed to create notification', error as Error);
+        }
+        return delivery;
+    }
+
+    /**
+     * Resolves how a user wants to be emailed about an event type.
+     *
+     * @param userId - The user ID.
+     * @param type - The kind of event.
+     * @returns The stored delivery or the default when the user kept it.
+     */
+    async getDelivery(userId: string, type: NotificationType): Promise<NotificationDelivery> {
+        const preference = await NotificationPreferenceRepository.instance.findByUserAndType(userId, type);
+        return preference?.delivery ?? DEFAULT_NOTIFICATION_DELIVERY;
+    }
+
+    /**
+     * Retrieves the delivery preferences of a user for every event type of their role.
+     *
+     * @param userId - The user ID.
+     * @param role - The user's role.
+     * @returns The delivery per event type, defaults included.
+     */
+    async getPreferences(userId: string, role: UserRole): Promise<NotificationPreferences> {
+        const stored = await NotificationPreferenceRepository.instance.findByUserId(userId);
+        const preferences: NotificationPreferences = {};
+        for (const type of NOTIFICATION_TYPES_BY_ROLE[role]) {
+            preferences[type] = stored.find((preference) => preference.type === type)?.delivery
+                ?? DEFAULT_NOTIFICATION_DELIVERY;
+        }
+        return preferences;
+    }
+
+    /**
+     * Stores the delivery preference of a user for one event type.
+     *
+     * @param userId - The user ID.
+     * @param type - The kind of event.
+     * @param delivery - The chosen delivery.
+     */
+    async updatePreference(userId: string, type: NotificationType, delivery: NotificationDelivery): Promise<void> {
+        try {
+            await NotificationPreferenceRepository.instance.upsert(userId, type, delivery);
+            this.logger.info('Notification preference updated', {userId, type, delivery});
+        } catch (error) {
+            this.logger.error('Failed to update notification preference', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Retrieves a paginated list of a user's notifications.
+     *
+     * @param userId - The recipient's user ID.
+     * @param pageParams - Pagination parameters.
+     * @param filters - Optional filters.
+     * @returns Paginated notifications.
+     */
+    async getNotifications(
+        userId: string,
+        pageParams: PaginationParams,
+        filters: NotificationFilterOptions = {}
+    ): Promise<PaginationResult<Notification>> {
+        return NotificationRepository.instance.findManyByUserId(userId, pageParams, filters);
+    }
+
+    /**
+     * Retrieves the unread count and latest notifications of a user.
+     *
+     * @param userId - The recipient's user ID.
+     * @returns The notification summary.
+     */
+    async getSummary(userId: string): Promise<NotificationSummary> {
+        const [unreadCount, recent] = await Promise.all([
+            NotificationRepository.instance.countUnread(userId),
+            NotificationRepository.instance.findManyByUserId(userId, {page: 1, pageSize: RECENT_NOTIFICATIONS_LIMIT}),
+        ]);
+        return {unreadCount, recent: recent.items};
+    }
+
+    /**
+     * Marks a notification of a user as read.
+     *
+     * @param id - The notification ID.
+     * @param userId - The recipient's user ID.
+     */
+    async markAsRead(id: string, userId: string): Promise<void> {
+        await NotificationRepository.instance.markRead(id, userId);
+    }
+
+    /**
+     * Marks all notifications of a user as read.
+     *
+     * @param userId - The recipient's user ID.
+     */
+    async markAllAsRead(userId: string): Promise<void> {
+        const count = await NotificationRepository.instance.markAllRead(userId);
+        this.logger.info('Notifications marked as read', {userId, count});
+    }
+}
@@ -11,7 +11,15 @@ import {UserRepository} from '@/lib/repository/user-repository'
 import {hashPassword} from '@/lib/utils/password'
 import {createLogger} from '@/lib/utils/logger'
 import {EmailService} from "@/lib/service/email-service";
+import {NotificationService} from "@/lib/service/notification-service";
+import {NotificationDelivery, NotificationType} from "@/lib/domain/notification";
 import {AdministratorService} from "@/lib/service/admin-service";
+import {resolveLocale} from "@/lib/utils/i18n/routing";
+import {AuditService} from "@/lib/service/audit-service";
+import {AuditAction, AuditEntityType} from "@/lib/domain/audit";
+import {UserService} from "@/lib/service/user-service";
+import {StorageService} from "@/lib/service/storage-service";
+import {getProfilePictureUpdate} from "@/lib/domain/user";
 
 /**
  * Service for managing Organization-related business logic.
@@ -71,8 +79,15 @@ export class OrganizationService {
                 const orgName = result.user.name || 'Unnamed Organization'
                 
                 admins.forEach(admin => {
-                    EmailService.instance.sendNewOrganizationSignupEmail(admin.user.email, orgName)
-                        .catch(err => this.logger.error('Failed to send admin notification email', err as Error))
+                    NotificationService.instance.notify(
+                        admin.userId,
+                        NotificationType.NEW_ORGANIZATION_SIGNUP,
+                        {organizationName: orgName},
+                        '/dashboard/administrator/organizations'
+                    ).then(delivery => {
+                        if (delivery !== NotificationDelivery.IMMEDIATE) return
+                        return EmailService.instance.sendNewOrganizationSignupEmail(admin.user.email, orgName, resolveLocale(admin.user.locale))
+                    }).catch(err => this.logger.error('Failed to send admin notification email', err as Error))
                 })
             }).catch(err => {
                 this.logger.error('Failed to fetch admins for notification', err as Error)
@@ -94,6 +109,7 @@ export class OrganizationService {
 
     /**
      * Updates an organization's profile.
+     * A replaced profile picture is removed from storage.
      */
     async updateOrganizationProfile(
         userId: string,
@@ -108,6 +124,11 @@ export class OrganizationService {
 
             const org = await OrganizationRepository.instance.update(userId, data)
 
+            const profilePictureUrl = getProfilePictureUpdate(data)
+            if (profilePictureUrl !== undefined && profilePictureUrl !== existingProfile.user.profilePictureUrl) {
+                await StorageService.instance.deleteFileByUrl(existingProfile.user.profilePictureUrl)
+            }
+
             this.logger.info('Organization profile updated', { userId })
             return {...org, user: existingProfile.user}
         } catch (error) {
@@ -124,7 +145,8 @@ export class OrganizationService {
      */
     async verifyOrganization(userId: string): Promise<void> {
         try {
-            await OrganizationRepository.instance.update(userId, {
+            const previous = await OrganizationRepository.instance.getByUserId(userId)
+            const organization = await OrganizationRepository.instance.update(userId, {
                 isVerified: true,
                 verifiedAt: new Date(),
             })
@@ -133,10 +155,28 @@ export class OrganizationService {
                 emailVerified: new Date()
             })
 
-            await EmailService.instance.sendOrganizationApproved(
-                user.email,
-                user.name || 'Organization'
+            await AuditService.instance.record({
+                action: AuditAction.ORGANIZATION_VERIFIED,
+                entityType: AuditEntityType.ORGANIZATION,
+                entityId: organization.id,
+                entityLabel: user.name,
+                before: previous,
+                after: organization,
+            })
+
+            const delivery = await NotificationService.instance.notify(
+                user.id,
+                NotificationType.ORGANIZATION_APPROVED,
+                {},
+                '/dashboard/projects'
             )
+            if (delivery === NotificationDelivery.IMMEDIATE) {
+                await EmailService.instance.sendOrganizationApproved(
+                    user.email,
+                    user.name || 'Organization',
+                    resolveLocale(user.locale)
+                )
+            }
 
             this.logger.info('Organization verified', { userId })
         } catch (error) {
@@ -153,12 +193,48 @@ export class OrganizationService {
     }
 
     /**
-     * Permanently deletes an organization account.
+     * Rejects an organization that signed up.
+     * Emails the reason to the organization and moves its account to the trash.
+     *
+     * @param userId - The ID of the organization's user account.
+     * @param reason - The reason given by the administrator.
+     */
+    async rejectOrganization(userId: string, reason: string): Promise<void> {
+        try {
+            const organization = await OrganizationRepository.instance.getByUserId(userId)
+            if (!organization) {
+                throw new Error(`Organization not found: ${userId}`)
+            }
+
+            await EmailService.instance.sendOrganizationRejected(
+                organization.user.email,
+                organization.user.name || 'Applicant',
+                reason,
+                resolveLocale(organization.user.locale)
+            )
+            await this.deleteOrganizationAccount(userId)
+
+            await AuditService.instance.record({
+                action: AuditAction.ORGANIZATION_REJECTED,
+                entityType: AuditEntityType.ORGANIZATION,
+                entityId: organization.id,
+                entityLabel: organization.user.name,
+                before: organization,
+                metadata: {reason, email: organization.user.email},
+            })
+        } catch (error) {
+            this.logger.error('Failed to reject organization', error as Error)
+            throw error
+        }
+    }
+
+    /**
+     * Moves an organization account to the trash together with its profile and projects.
      */
     async deleteOrganizationAccount(userId: string): Promise<void> {
         try {
-            await UserRepository.instance.delete(userId)
-            this.logger.warn('Organization account permanently deleted', { userId })
+            await UserService.instance.softDeleteAccount(userId)
+            this.logger.warn('Organization account moved to trash', { userId })
         } catch (error) {
             this.logger.error('Failed to delete organization account', error as Error)
             throw error
@@ -0,0 +1,117 @@
+/** @format */
+import 'server-only'
+import {ProjectAttachmentRepository} from '@/lib/repository/project-attachment-repository'
+import {StorageService} from '@/lib/service/storage-service'
+import {
+    ATTACHMENT_CONTENT_TYPES,
+    ProjectAttachment,
+    ProjectAttachmentWithUploader
+} from '@/lib/domain/project-attachment'
+import type {StoredFile} from '@/lib/domain/storage'
+import {createLogger} from '@/lib/utils/logger'
+
+/**
+ * Storage folder of attachment files.
+ */
+const ATTACHMENTS_FOLDER = 'attachments'
+
+/**
+ * Project Attachment Service
+ * Stores project materials and student deliverables and keeps their metadata.
+ * Access checks are left to the callers, which know the viewer's relation to the project.
+ */
+export class ProjectAttachmentService {
+    private static _instance: ProjectAttachmentService
+    private readonly repository = ProjectAttachmentRepository.instance
+    private readonly logger = createLogger('ProjectAttachmentService')
+
+    private constructor() {
+    }
+
+    static get instance(): ProjectAttachmentService {
+        if (!ProjectAttachmentService._instance) {
+            ProjectAttachmentService._instance = new ProjectAttachmentService()
+        }
+        return ProjectAttachmentService._instance
+    }
+
+    /**
+     * Retrieves an attachment by its ID.
+     */
+    async getAttachmentById(id: string): Promise<ProjectAttachment | null> {
+        return this.repository.getById(id)
+    }
+
+    /**
+     * Retrieves the materials shared on a project.
+     */
+    async getProjectMaterials(projectId: string): Promise<ProjectAttachmentWithUploader[]> {
+        return this.repository.findMaterials(projectId)
+    }
+
+    /**
+     * Retrieves the deliverables handed in for a project, optionally only those of one completion.
+     */
+    async getDeliverables(projectId: string, completionId?: string): Promise<ProjectAttachmentWithUploader[]> {
+        return this.repository.findDeliverables(projectId, completionId)
+    }
+
+    /**
+     * Stores a file and records it as an attachment of the project.
+     * If the record cannot be created, the stored file is removed again.
+     *
+     * @param input.projectId - Project the file belongs to.
+     * @param input.completionId - Completion the file is a deliverable of, or null for project materials.
+     * @param input.uploadedById - User uploading the file.
+     * @param input.file - The uploaded file, already checked against the accepted types and size.
+     * @param input.extension - Accepted extension of the file.
+     * @returns The created attachment.
+     */
+    async addAttachment(input: {
+        projectId: string
+        completionId: string | null
+        uploadedById: string
+        file: File
+        extension: string
+    }): Promise<ProjectAttachmentWithUploader> {
+        const contentType = ATTACHMENT_CONTENT_TYPES[input.extension]
+        const body = Buffer.from(await input.file.arrayBuffer())
+        const storageKey = await StorageService.instance.storeFile(ATTACHMENTS_FOLDER, input.extension, body, contentType)
+
+        try {
+            return await this.repository.create({
+                project: {connect: {id: input.projectId}},
+                projectCompletion: input.completionId ? {connect: {id: input.completionId}} : undefined,
+                uploadedBy: {connect: {id: input.uploadedById}},
+                fileName: input.file.name,
+                contentType,
+                size: body.length,
+                storageKey,
+            })
+        } catch (error) {
+            await StorageService.instance.deleteFile(storageKey)
+            throw error
+        }
+    }
+
+    /**
+     * Reads the contents of an attachment.
+     *
+     * @returns The file, or null if it is missing from storage.
+     */
+    async getAttachmentFile(attachment: ProjectAttachment): Promise<StoredFile | null> {
+        const file = await StorageService.instance.getFile(attachment.storageKey)
+        if (!file) {
+            this.logger.warn('Attachment file missing from storage', {attachmentId: attachment.id})
+        }
+        return file
+    }
+
+    /**
+     * Deletes an attachment together with its file.
+     */
+    async deleteAttachment(id: string): Promise<void> {
+        const attachment = await this.repository.delete(id)
+        await StorageService.instance.deleteFile(attachment.storageKey)
+    }
+}
@@ -11,6 +11,11 @@ import {ProjectCompletionRepository, CompletionFilterOptions, CompletionSortFiel
 import {createLogger} from '@/lib/utils/logger';
 import {PaginationParams, PaginationResult} from '@/lib/domain/pagination';
 import {EmailService} from '@/lib/service/email-service';
+import {NotificationService} from '@/lib/service/notification-service';
+import {NotificationDelivery, NotificationType} from '@/lib/domain/notification';
+import {resolveLocale} from '@/lib/utils/i18n/routing';
+import {AuditService} from '@/lib/service/audit-service';
+import {AuditAction, AuditEntityType} from '@/lib/domain/audit';
 
 /**
  * Service for managing project completions.
@@ -94,6 +99,20 @@ export class ProjectCompletionService {
         return ProjectCompletionRepository.instance.getById(id);
     }
 
+    /**
+     * Retrieves the project completion of a student for a specific project.
+     *
+     * @param studentId - The student ID.
+     * @param projectId - The project ID.
+     * @returns The project completion or null if the student has not started one.
+     */
+    async getCompletionByStudentAndProject(
+        studentId: string,
+        projectId: string
+    ): Promise<ProjectCompletionWithDetails | null> {
+        return ProjectCompletionRepository.instance.getByStudentAndProject(studentId, projectId);
+    }
+
     /**
      * Creates a new project completion.
      *
@@ -109,6 +128,44 @@ export class ProjectCompletionService {
         }
     }
 
+    /**
+     * Updates the report of a completion that is still a draft.
+     * The update only applies while the status is DRAFT, so a concurrent review is never overwritten.
+     *
+     * @param id - The project completion ID.
+     * @param data - The report fields to update.
+     * @returns The updated project completion, or null if it is no longer a draft.
+     */
+    async updateDraftCompletion(id: string, data: ProjectCompletionUpdateType): Promise<ProjectCompletionWithDetails | null> {
+        try {
+            const previous = await ProjectCompletionRepository.instance.getById(id);
+            const updated = await ProjectCompletionRepository.instance.updateIfMatches(
+                id,
+                {status: ProjectCompletionStatus.DRAFT},
+                data
+            );
+            if (!updated) {
+                return null;
+            }
+
+            const completion = await ProjectCompletionRepository.instance.getById(id);
+            if (completion) {
+                await AuditService.instance.record({
+                    action: AuditAction.PROJECT_COMPLETION_UPDATED,
+                    entityType: AuditEntityType.PROJECT_COMPLETION,
+                    entityId: id,
+                    entityLabel: `${completion.student.user.name} · ${completion.project.title}`,
+                    before: previous,
+                    after: completion,
+                });
+            }
+            return completion;
+        } catch (error) {
+            this.logger.error('Failed to update draft project completion', error as Error);
+            throw error;
+        }
+    }
+
     /**
      * Updates an existing project completion.
      *
@@ -118,7 +175,18 @@ export class ProjectCompletionService {
      */
     async updateProjectCompletion(id: string, data: ProjectCompletionUpdateType): Promise<ProjectCompletionWithDetails> {
         try {
+            const previous = await ProjectCompletionRepository.instance.getById(id);
             const updatedCompletion = await ProjectCompletionRepository.instance.update(id, data);
+            await AuditService.instance.record({
+                action: previous && previous.status !== updatedCompletion.status
+                    ? AuditAction.PROJECT_COMPLETION_STATUS_CHANGED
+                    : AuditAction.PROJECT_COMPLETION_UPDATED,
+                entityType: AuditEntityType.PROJECT_COMPLETION,
+                entityId: id,
+                entityLabel: `${updatedCompletion.student.user.name} · ${updatedCompletion.project.title}`,
+                before: previous,
+                after: updatedCompletion,
+            });
 
             // Send email notifications based on status change
             if (data.status) {
@@ -128,20 +196,39 @@ export class ProjectCompletionService {
                 if (fullCompletion && fullCompletion.student?.user?.email) {
                     const studentEmail = fullCompletion.student.user.email;
                     const studentName = fullCompletion.student.user.name || 'Student';
+                    const studentLocale = resolveLocale(fullCompletion.student.user.locale);
                     const projectName = fullCompletion.project.title;
 
                     if (data.status === ProjectCompletionStatus.COORDINATOR_REVIEWED) {
-                        await EmailService.instance.sendCoordinatorReviewSubmittedEmail(
-                            studentEmail,
-                            studentName,
-                            projectName
+                        const delivery = await NotificationService.instance.notify(
+                            fullCompletion.student.userId,
+                            NotificationType.COORDINATOR_REVIEW_SUBMITTED,
+                            {projectName},
+                            '/dashboard/applications'
                         );
+                        if (delivery === NotificationDelivery.IMMEDIATE) {
+                            await EmailService.instance.sendCoordinatorReviewSubmittedEmail(
+                                studentEmail,
+                                studentName,
+                                projectName,
+                                studentLocale
+                            );
+                        }
                     } else if (data.status === ProjectCompletionStatus.PUBLISHED) {
-                        await EmailService.instance.sendOrganizationReviewSubmittedEmail(
-                            studentEmail,
-                            studentName,
-                            projectName
+                        const delivery = await NotificationService.instance.notify(
+                            fullCompletion.student.userId,
+                            NotificationType.ORGANIZATION_REVIEW_SUBMITTED,
+                            {projectName},
+                            '/dashboard/applications'
                         );
+                        if (delivery === NotificationDelivery.IMMEDIATE) {
+                            await EmailService.instance.sendOrganizationReviewSubmittedEmail(
+                                studentEmail,
+                                studentName,
+                                projectName,
+                                studentLocale
+                            );
+                        }
                     }
                 }
             }
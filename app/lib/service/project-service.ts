@@ -3,13 +3,30 @@ import 'server-only';
 import type {
     Project,
     ProjectCreateType,
-    ProjectStatus,
     ProjectUpdateType,
+    ProjectWithApplications,
+    ProjectWithContacts,
     ProjectWithDetails
 } from '@/lib/domain/project';
 import {ProjectRepository, ProjectFilterOptions, ProjectSortField} from '@/lib/repository/project-repository';
 import {createLogger} from '@/lib/utils/logger';
+import {database} from '@/lib/database';
 import {PaginationParams, PaginationResult} from '@/lib/domain/pagination';
+import {UserRole} from '@/lib/domain/user';
+import {pickOrganizationProjectFields, ProjectStatus} from '@/lib/domain/project';
+import {EmailService} from '@/lib/service/email-service';
+import {NotificationService} from '@/lib/service/notification-service';
+import {CoordinatorService} from '@/lib/service/coordinator-service';
+import {NotificationDelivery, NotificationType} from '@/lib/domain/notification';
+import {
+    assertProjectTransition,
+    getProjectTransitionTimestamps,
+    ProjectTransitionError
+} from '@/lib/utils/project-lifecycle';
+import {resolveLocale} from '@/lib/utils/i18n/routing';
+import {AuditService} from '@/lib/service/audit-service';
+import {AuditAction, AuditEntityType} from '@/lib/domain/audit';
+import type {DeletedProject} from '@/lib/domain/trash';
 
 /**
  * Service for generic Project operations.
@@ -76,6 +93,23 @@ export class ProjectService {
         return ProjectRepository.instance.findManyWithDetails(pageParams, filters, sort);
     }
 
+    /**
+     * Retrieves a paginated list of projects with the contact details of the organization
+     * and coordinator users, for administrators.
+     *
+     * @param pageParams - Pagination settings (page, pageSize).
+     * @param filters - Optional filtering criteria.
+     * @param sort - Sorting configuration.
+     * @returns A paginated list of projects.
+     */
+    async getProjectsWithContacts(
+        pageParams: PaginationParams,
+        filters: ProjectFilterOptions = {},
+        sort: { field: ProjectSortField; direction: 'asc' | 'desc' } = {field: 'createdAt', direction: 'desc'}
+    ): Promise<PaginationResult<ProjectWithContacts>> {
+        return ProjectRepository.instance.findManyWithContacts(pageParams, filters, sort);
+    }
+
     /**
      * Retrieves a project by its unique ID.
      *
@@ -86,6 +120,16 @@ export class ProjectService {
         return ProjectRepository.instance.getById(id);
     }
 
+    /**
+     * Retrieves a project by its unique ID together with all of its applications.
+     *
+     * @param id - The project ID.
+     * @returns The project with applications or null if not found.
+     */
+    async getProjectWithApplications(id: string): Promise<ProjectWithApplications | null> {
+        return ProjectRepository.instance.getByIdWithApplications(id);
+    }
+
     /**
      * Creates a new project.
      *
@@ -104,13 +148,69 @@ export class ProjectService {
     /**
      * Updates an existing project.
      *
+     * Status changes are validated against the project lifecycle transition table
+     * for the acting role, and the matching lifecycle timestamp is stamped.
+     * The status only changes if the project still has the status it was validated against,
+     * and moving it to COORDINATOR_ASSIGNED requires connecting a coordinator
+     * (see `assignCoordinator`).
+     * Organizations may only change the fields listed in `ORGANIZATION_PROJECT_FIELDS`.
+     *
      * @param id - The project ID.
      * @param data - The update payload.
+     * @param actorRole - The role of the user performing the update.
      * @returns The updated project.
+     * @throws {ProjectTransitionError} If the requested status change is not allowed,
+     *         lacks a coordinator or lost a race with another status change.
      */
-    async updateProject(id: string, data: ProjectUpdateType): Promise<Project> {
+    async updateProject(id: string, data: ProjectUpdateType, actorRole: UserRole): Promise<Project> {
         try {
-            return await ProjectRepository.instance.update(id, data);
+            if (actorRole === UserRole.ORGANIZATION) {
+                data = pickOrganizationProjectFields(data);
+            }
+            const nextStatus = typeof data.status === 'object' ? data.status?.set : data.status;
+
+            const project = await ProjectRepository.instance.getById(id);
+            if (!project) {
+                throw new Error(`Project not found: ${id}`);
+            }
+
+            const statusChanged = !!nextStatus && project.status !== nextStatus;
+            if (nextStatus && statusChanged) {
+                assertProjectTransition(actorRole, project.status, nextStatus);
+                if (nextStatus === ProjectStatus.COORDINATOR_ASSIGNED && !data.coordinator?.connect?.id) {
+                    throw new ProjectTransitionError(project.status, nextStatus, actorRole);
+                }
+                data = {...data, ...getProjectTransitionTimestamps(nextStatus)};
+                this.logger.info('Project status transition', {
+                    projectId: id,
+                    from: project.status,
+                    to: nextStatus,
+                    role: actorRole
+                });
+            }
+
+            const updated = await database.$transaction(async (tx) => {
+                if (nextStatus && statusChanged) {
+                    const moved = await ProjectRepository.instance.updateStatusIfMatches(id, project.status, nextStatus, tx);
+                    if (!moved) {
+                        return null;
+                    }
+                }
+                return ProjectRepository.instance.update(id, data, tx);
+            });
+            if (!updated) {
+                const current = await ProjectRepository.instance.getById(id);
+                throw new ProjectTransitionError(current?.status ?? project.status, nextStatus!, actorRole);
+            }
+            await AuditService.instance.record({
+                action: statusChanged ? AuditAction.PROJECT_STATUS_CHANGED : AuditAction.PROJECT_UPDATED,
+                entityType: AuditEntityType.PROJECT,
+                entityId: id,
+                entityLabel: updated.title,
+                before: project,
+                after: updated,
+            });
+            return updated;
         } catch (error) {
             this.logger.error('Failed to update project', error as Error);
             throw error;
@@ -118,17 +218,220 @@ export class ProjectService {
     }
 
     /**
-     * Deletes a project.
+     * Assigns a coordinator to a project awaiting review.
+     * Moves the project to COORDINATOR_ASSIGNED and notifies the coordinator by email.
+     *
+     * @param id - The project ID.
+     * @param coordinatorId - The ID of the coordinator profile to assign.
+     * @returns The updated project.
+     * @throws {ProjectTransitionError} If the project cannot be moved to COORDINATOR_ASSIGNED.
+     * @throws {Error} If the coordinator does not exist or is suspended or deleted.
+     */
+    async assignCoordinator(id: string, coordinatorId: string): Promise<Project> {
+        try {
+            if (!(await CoordinatorService.instance.isCoordinatorActive(coordinatorId))) {
+                throw new Error(`Coordinator not available: ${coordinatorId}`);
+            }
+
+            const project = await this.updateProject(
+                id,
+                {status: ProjectStatus.COORDINATOR_ASSIGNED, coordinator: {connect: {id: coordinatorId}}},
+                UserRole.ADMINISTRATOR
+            );
+
+            const details = await ProjectRepository.instance.getByIdWithContacts(id);
+            if (details?.coordinator) {
+                const delivery = await NotificationService.instance.notify(
+                    details.coordinator.userId,
+                    NotificationType.PROJECT_ASSIGNED,
+                    {projectName: details.title, organizationName: details.organization.user.name},
+                    '/dashboard/reviews'
+                );
+                if (delivery === NotificationDelivery.IMMEDIATE) {
+                    await EmailService.instance.sendProjectAssignedEmail(
+                        details.coordinator.user.email,
+                        details.coordinator.user.name,
+                        details.title,
+                        details.organization.user.name,
+                        resolveLocale(details.coordinator.user.locale)
+                    );
+                }
+            }
+
+            this.logger.info('Coordinator assigned to project', {projectId: id, coordinatorId});
+            return project;
+        } catch (error) {
+            this.logger.error('Failed to assign coordinator', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Approves a project on behalf of its assigned coordinator.
+     * Moves the project to PUBLISHED, clears any previous rejection reason and
+     * notifies the owning organization by email.
+     *
+     * @param id - The project ID.
+     * @returns The published project.
+     * @throws {ProjectTransitionError} If the project is not awaiting coordinator review.
+     */
+    async approveProject(id: string): Promise<Project> {
+        try {
+            const project = await this.updateProject(
+                id,
+                {status: ProjectStatus.PUBLISHED, rejectionReason: null},
+                UserRole.COORDINATOR
+            );
+
+            const details = await ProjectRepository.instance.getByIdWithContacts(id);
+            if (details) {
+                const delivery = await NotificationService.instance.notify(
+                    details.organization.userId,
+                    NotificationType.PROJECT_APPROVED,
+                    {projectName: details.title},
+                    `/dashboard/projects/${id}`
+                );
+                if (delivery === NotificationDelivery.IMMEDIATE) {
+                    await EmailService.instance.sendProjectApprovedEmail(
+                        details.organization.user.email,
+                        details.organization.user.name,
+                        details.title,
+                        resolveLocale(details.organization.user.locale)
+                    );
+                }
+            }
+
+            this.logger.info('Project approved by coordinator', {projectId: id});
+            return project;
+        } catch (error) {
+            this.logger.error('Failed to approve project', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Sends a project back to its organization for changes.
+     * Moves the project to DRAFT, stores the coordinator's feedback as the rejection
+     * reason and notifies the owning organization by email.
+     *
+     * @param id - The project ID.
+     * @param reason - Feedback describing the requested changes.
+     * @returns The updated project.
+     * @throws {ProjectTransitionError} If the project is not awaiting coordinator review.
+     */
+    async requestProjectChanges(id: string, reason: string): Promise<Project> {
+        try {
+            const project = await this.updateProject(
+                id,
+                {status: ProjectStatus.DRAFT, rejectionReason: reason},
+                UserRole.COORDINATOR
+            );
+
+            const details = await ProjectRepository.instance.getByIdWithContacts(id);
+            if (details) {
+                const delivery = await NotificationService.instance.notify(
+                    details.organization.userId,
+                    NotificationType.PROJECT_CHANGES_REQUESTED,
+                    {projectName: details.title},
+                    `/dashboard/projects/${id}`
+                );
+                if (delivery === NotificationDelivery.IMMEDIATE) {
+                    await EmailService.instance.sendProjectChangesRequestedEmail(
+                        details.organization.user.email,
+                        details.organization.user.name,
+                        details.title,
+                        reason,
+                        resolveLocale(details.organization.user.locale)
+                    );
+                }
+            }
+
+            this.logger.info('Project changes requested by coordinator', {projectId: id});
+            return project;
+        } catch (error) {
+            this.logger.error('Failed to request project changes', error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * Moves a project to the trash.
+     * Its applications and completion records are kept, and the project can be restored
+     * until it is purged after the retention period.
      *
      * @param projectId - The ID of the project to delete.
      */
     async deleteProject(projectId: string): Promise<void> {
         try {
-            await ProjectRepository.instance.delete(projectId);
-            this.logger.warn('Project permanently deleted', {projectId});
+            const project = await ProjectRepository.instance.getById(projectId);
+            const deleted = await ProjectRepository.instance.softDelete(projectId, new Date());
+            await AuditService.instance.record({
+                action: AuditAction.PROJECT_DELETED,
+                entityType: AuditEntityType.PROJECT,
+                entityId: projectId,
+                entityLabel: deleted.title,
+                before: project,
+                after: deleted,
+            });
+            this.logger.warn('Project moved to trash', {projectId});
         } catch (error) {
             this.logger.error('Failed to delete project', error as Error);
             throw error;
         }
     }
+
+    /**
+     * Retrieves a paginated list of projects in the trash.
+     *
+     * @param pageParams - Pagination settings (page, pageSize).
+     * @param search - Optional title search term.
+     * @returns A paginated list of deleted projects.
+     */
+    async getDeletedProjects(pageParams: PaginationParams, search?: string): Promise<PaginationResult<DeletedProject>> {
+        return ProjectRepository.instance.findDeleted(pageParams, search);
+    }
+
+    /**
+     * Retrieves a project in the trash by its unique ID.
+     *
+     * @param id - The project ID.
+     * @returns The deleted project or null if it is not in the trash.
+     */
+    async getDeletedProject(id: string): Promise<DeletedProject | null> {
+        return ProjectRepository.instance.getDeletedById(id);
+    }
+
+    /**
+     * Restores a project from the trash.
+     * Projects of an organization in the trash come back with the organization instead.
+     *
+     * @param projectId - The ID of the project to restore.
+     * @returns The restored project.
+     */
+    async restoreProject(projectId: string): Promise<Project> {
+        try {
+            const previous = await ProjectRepository.instance.getDeletedById(projectId);
+            if (!previous) {
+                throw new Error(`Project not in trash: ${projectId}`);
+            }
+            if (previous.organization.deletedAt) {
+                throw new Error(`Organization of project is in trash: ${projectId}`);
+            }
+
+            const project = await ProjectRepository.instance.restore(projectId);
+            await AuditService.instance.record({
+                action: AuditAction.PROJECT_RESTORED,
+                entityType: AuditEntityType.PROJECT,
+                entityId: projectId,
+                entityLabel: project.title,
+                before: previous,
+                after: project,
+            });
+            this.logger.info('Project restored from trash', {projectId});
+            return project;
+        } catch (error) {
+            this.logger.error('Failed to restore project', error as Error);
+            throw error;
+        }
+    }
 }
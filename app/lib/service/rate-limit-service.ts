@@ -1,51 +1,64 @@
 /** @format */
 import 'server-only'
-import {RateLimitRepository} from '@/lib/repository/rate-limit-repository'
+import {RateLimiterName, RateLimitStore, resolveRateLimits} from '@/lib/domain/rate-limit'
+import {MemoryRateLimitRepository} from '@/lib/repository/memory-rate-limit-repository'
+import {PostgresRateLimitRepository} from '@/lib/repository/postgres-rate-limit-repository'
+import {ConfigService} from '@/lib/service/config-service'
 import {createLogger} from '@/lib/utils/logger'
 
+/**
+ * Creates the store selected by the `RATE_LIMIT_STORE` environment variable.
+ * PostgreSQL keeps limits across restarts and instances; memory is the default for a single instance.
+ */
+function createRateLimitStore(): RateLimitStore {
+    if (process.env.RATE_LIMIT_STORE === 'postgres') {
+        return new PostgresRateLimitRepository()
+    }
+    // 5000 unique tokens shared by all limiters
+    return new MemoryRateLimitRepository(5000)
+}
+
+/**
+ * Store shared by every rate limiter; tokens are prefixed with the limiter name.
+ */
+const store = createRateLimitStore()
+
 /**
  * Rate Limit Service
- * Implements token bucket algorithm for rate limiting API requests.
- * Tracks request counts per token (e.g., IP address, user ID, email) within time windows.
+ * Implements fixed-window rate limiting for sensitive actions.
+ * Tracks request counts per token (e.g., IP address, user ID, email) within time windows
+ * whose size and limit are configured per limiter in the admin settings.
  */
 export class RateLimitService {
-    private repository: RateLimitRepository
+    private readonly name: RateLimiterName
     private readonly logger = createLogger('RateLimitService')
 
     /**
      * Private constructor to enforce usage of static instances.
      *
-     * @param repository - Repository instance configured with specific interval and cache size.
+     * @param name - Limiter whose configured limits apply.
      */
-    private constructor(repository: RateLimitRepository) {
-        this.repository = repository
+    private constructor(name: RateLimiterName) {
+        this.name = name
     }
 
     /**
-     * Checks if a request is allowed under the rate limit.
-     * Implements token bucket algorithm with automatic reset after interval expiration.
+     * Checks if a request is allowed under the rate limit, counting it.
+     * The limit and window are read from the global configuration.
      *
-     * @param limit - Maximum number of requests allowed within the time window.
      * @param token - Unique identifier for the rate-limited resource (e.g., IP address, user ID, email).
      * @returns Object with success status (boolean), remaining quota (number), and reset timestamp (number).
      */
-    check(limit: number, token: string): { success: boolean; remaining: number; reset: number } {
-        // Retrieve existing rate limit record for the token
-        let rateLimit = this.repository.get(token)
+    async check(token: string): Promise<{ success: boolean; remaining: number; reset: number }> {
+        const config = await ConfigService.instance.getConfig()
+        const {limit, windowMinutes} = resolveRateLimits(config?.rateLimits)[this.name]
 
-        // Create a new record if none exists
-        if (!rateLimit) {
-            rateLimit = this.repository.create(token, limit)
-        }
-
-        // Reset the record if the current interval has expired
-        if (Date.now() > rateLimit.resetAt) {
-            rateLimit = this.repository.create(token, limit)
-        }
+        const rateLimit = await store.increment(`${this.name}:${token}`, limit, windowMinutes * 60 * 1000)
 
-        // Deny if the usage has already reached or exceeded the limit
-        if (rateLimit.count >= limit) {
+        // Deny once the usage exceeds the limit
+        if (rateLimit.count > limit) {
             this.logger.warn('Rate limit exceeded', {
+                limiter: this.name,
                 token,
                 limit,
                 resetAt: new Date(rateLimit.resetAt).toISOString()
@@ -58,11 +71,6 @@ export class RateLimitService {
             }
         }
 
-        // Increment the usage count and persist the updated record
-        rateLimit.count += 1
-        this.repository.save(rateLimit)
-
-        // Return the success response with remaining quota and reset time
         return {
             success: true,
             remaining: limit - rateLimit.count,
@@ -72,41 +80,36 @@ export class RateLimitService {
 
     /**
      * Login rate limiter instance.
-     * Limits login attempts to 5 per 15 minutes per IP address.
+     * Limits login attempts per IP address (default: 5 per 15 minutes).
      * Prevents brute force password attacks.
      */
-    static loginLimiter = new RateLimitService(
-        // 15 minutes, 500 unique tokens
-        new RateLimitRepository(15 * 60 * 1000, 500)
-    )
+    static loginLimiter = new RateLimitService('login')
 
     /**
      * Signup rate limiter instance.
-     * Limits signups to 3 per hour per IP address.
+     * Limits signups per IP address (default: 3 per hour).
      * Prevents automated account creation and spam registrations.
      */
-    static signupLimiter = new RateLimitService(
-        // 1 hour, 500 unique tokens
-        new RateLimitRepository(60 * 60 * 1000, 500)
-    )
+    static signupLimiter = new RateLimitService('signup')
 
     /**
      * Password reset rate limiter instance.
-     * Limits password reset requests to 3 per hour per IP address.
+     * Limits password reset requests per IP address (default: 3 per hour).
      * Prevents abuse of password reset functionality.
      */
-    static passwordResetLimiter = new RateLimitService(
-        // 1 hour, 500 unique tokens
-        new RateLimitRepository(60 * 60 * 1000, 500)
-    )
+    static passwordResetLimiter = new RateLimitService('passwordReset')
 
     /**
      * Email verification resend rate limiter instance.
-     * Limits verification email resends to 3 per hour per email address.
+     * Limits verification email resends per email address (default: 3 per hour).
      * Prevents email spam and abuse of verification system.
      */
-    static emailResendLimiter = new RateLimitService(
-        // 1 hour, 500 unique tokens
-        new RateLimitRepository(60 * 60 * 1000, 500)
-    )
+    static emailResendLimiter = new RateLimitService('emailResend')
+
+    /**
+     * Two-factor code rate limiter instance.
+     * Limits code attempts per user (default: 5 per 15 minutes).
+     * Prevents guessing the six-digit code once the password is known.
+     */
+    static twoFactorLimiter = new RateLimitService('twoFactor')
 }
@@ -2,12 +2,22 @@
 import 'server-only'
 import {SessionRepository} from '@/lib/repository/session-repository'
 import type {User} from '@/lib/domain/user'
+import type {DeviceSession} from '@/lib/domain/session'
+import {TWO_FACTOR_CHALLENGE_TTL_MS} from '@/lib/domain/two-factor'
+import {SSO_LOGIN_TTL_MS, SsoLoginState} from '@/lib/domain/sso'
+import {getClientIp, getUserAgent} from '@/lib/utils/ip'
 import {createLogger} from '@/lib/utils/logger'
 
+/**
+ * Minimum time between two updates of a session's last activity, to avoid a write on every request.
+ */
+const ACTIVITY_UPDATE_INTERVAL_MS = 5 * 60 * 1000
+
 /**
  * Session Service
  * Handles session management including creation, validation, and retrieval.
- * Optimized to use session-stored user data to minimize database queries.
+ * User data is read from the session cookie; only the backing session row is looked up,
+ * so revoked sessions stop working immediately.
  */
 export class SessionService {
     private static _instance: SessionService
@@ -37,13 +47,18 @@ export class SessionService {
 
     /**
      * Creates a new authenticated session for a user.
-     * Stores user data in encrypted session cookie.
+     * Records the signing-in device and stores user data in encrypted session cookie.
      *
      * @param user - The user object to store in the session.
      */
     async createSession(user: User) {
         try {
-            await this.sessionRepository.createSession(user)
+            const ipAddress = await getClientIp()
+            await this.sessionRepository.deleteExpiredByUserId(user.id)
+            await this.sessionRepository.createSession(user, {
+                ipAddress: ipAddress === 'unknown' ? null : ipAddress,
+                userAgent: await getUserAgent(),
+            })
             this.logger.debug('Session created via service', { userId: user.id })
         } catch (error) {
             this.logger.error('Failed to create session in service', error as Error)
@@ -51,6 +66,60 @@ export class SessionService {
         }
     }
 
+    /**
+     * Starts the second sign-in step for a user whose password was accepted.
+     * The user stays signed out until {@link createSession} is called after the code is checked.
+     *
+     * @param userId - The ID of the user.
+     */
+    async startTwoFactorChallenge(userId: string) {
+        await this.sessionRepository.createTwoFactorChallenge(userId, Date.now() + TWO_FACTOR_CHALLENGE_TTL_MS)
+    }
+
+    /**
+     * Retrieves the user waiting for the second sign-in step in this browser.
+     *
+     * @returns The user ID, or null if there is no pending sign-in or it expired.
+     */
+    async getTwoFactorChallengeUserId(): Promise<string | null> {
+        const session = await this.getSession()
+        const challenge = session.twoFactorChallenge
+
+        if (!challenge || Date.now() > challenge.expiresAt) {
+            return null
+        }
+        return challenge.userId
+    }
+
+    /**
+     * Abandons the pending second sign-in step.
+     */
+    async clearTwoFactorChallenge() {
+        await this.sessionRepository.clearTwoFactorChallenge()
+    }
+
+    /**
+     * Remembers a single sign-on login until the identity provider redirects back.
+     *
+     * @param login - The state, nonce and PKCE verifier sent to the provider.
+     */
+    async startSsoLogin(login: Omit<SsoLoginState, 'expiresAt'>) {
+        await this.sessionRepository.saveSsoLogin({...login, expiresAt: Date.now() + SSO_LOGIN_TTL_MS})
+    }
+
+    /**
+     * Retrieves the single sign-on login this browser started and forgets it.
+     *
+     * @returns The login, or null if there is none or it expired.
+     */
+    async consumeSsoLogin(): Promise<SsoLoginState | null> {
+        const login = await this.sessionRepository.takeSsoLogin()
+        if (!login || Date.now() > login.expiresAt) {
+            return null
+        }
+        return login
+    }
+
     /**
      * Destroys the current session.
      * Removes the encrypted session cookie and clears all session data.
@@ -106,7 +175,8 @@ export class SessionService {
                 return false
             }
 
-            return true
+            // Check if session was revoked
+            return await this.isStoredSessionValid(session.sessionId, session.user.id)
         } catch (error) {
             this.logger.error('Error verifying session', error as Error)
             return false
@@ -137,10 +207,98 @@ export class SessionService {
                 return null
             }
 
-            return session.user
+            // Check if session was revoked
+            const valid = await this.isStoredSessionValid(session.sessionId, session.user.id)
+            return valid ? session.user : null
         } catch (error) {
             this.logger.error('Error retrieving current session user', error as Error)
             return null
         }
     }
+
+    /**
+     * Lists the devices a user is signed in on.
+     *
+     * @param userId - The ID of the user.
+     * @returns The user's active sessions, with the current device flagged.
+     */
+    async getDeviceSessions(userId: string): Promise<DeviceSession[]> {
+        const session = await this.getSession()
+        const sessions = await this.sessionRepository.findActiveByUserId(userId)
+
+        return sessions.map((record) => ({
+            id: record.id,
+            ipAddress: record.ipAddress,
+            userAgent: record.userAgent,
+            createdAt: record.createdAt,
+            lastActiveAt: record.lastActiveAt,
+            isCurrent: record.id === session.sessionId,
+        }))
+    }
+
+    /**
+     * Signs one of a user's devices out.
+     * Revoking the current device also clears its session cookie.
+     *
+     * @param userId - The owner of the session.
+     * @param sessionId - The ID of the session to revoke.
+     * @returns True if the session existed and was revoked.
+     */
+    async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+        try {
+            const revoked = await this.sessionRepository.deleteByIdForUser(userId, sessionId)
+
+            const session = await this.getSession()
+            if (revoked && session.sessionId === sessionId) {
+                session.destroy()
+            }
+            if (revoked) {
+                this.logger.info('Session revoked', { userId, sessionId })
+            }
+            return revoked
+        } catch (error) {
+            this.logger.error('Failed to revoke session', error as Error)
+            throw error
+        }
+    }
+
+    /**
+     * Signs a user out on every device, e.g. after suspension or a password reset.
+     * Clears the current session cookie too when it belongs to that user.
+     *
+     * @param userId - The ID of the user.
+     */
+    async revokeAllSessions(userId: string) {
+        try {
+            const count = await this.sessionRepository.deleteAllByUserId(userId)
+
+            const session = await this.getSession()
+            if (session.user?.id === userId) {
+                session.destroy()
+            }
+            this.logger.info('All sessions revoked', { userId, count })
+        } catch (error) {
+            this.logger.error('Failed to revoke sessions', error as Error)
+            throw error
+        }
+    }
+
+    /**
+     * Checks that the session row referenced by the cookie still exists for the user,
+     * recording activity on it. A cookie whose row was revoked is rejected on every request
+     * until it is replaced by a new sign-in.
+     */
+    private async isStoredSessionValid(sessionId: string | undefined, userId: string): Promise<boolean> {
+        const record = sessionId ? await this.sessionRepository.findById(sessionId) : null
+
+        if (!record || record.userId !== userId || record.expiresAt.getTime() < Date.now()) {
+            this.logger.debug('Session revoked or unknown', { userId, sessionId })
+            return false
+        }
+
+        if (Date.now() - record.lastActiveAt.getTime() > ACTIVITY_UPDATE_INTERVAL_MS) {
+            await this.sessionRepository.touch(record.id)
+        }
+        return true
+    }
 }
@@ -0,0 +1,256 @@
+/** @format */
+import 'server-only'
+import type {Config} from '@/lib/domain/config'
+import type {SsoProvider} from '@/lib/domain/sso'
+import {User, UserRole} from '@/lib/domain/user'
+import {UserRepository} from '@/lib/repository/user-repository'
+import {ConfigService} from '@/lib/service/config-service'
+import {SessionService} from '@/lib/service/session-service'
+import {TwoFactorService} from '@/lib/service/two-factor-service'
+import {StudentService} from '@/lib/service/student-service'
+import {CoordinatorService} from '@/lib/service/coordinator-service'
+import {EmailService} from '@/lib/service/email-service'
+import {matchesEmailDomain} from '@/lib/utils/email-domain'
+import {Locale, resolveLocale} from '@/lib/utils/i18n/routing'
+import {
+    buildAuthorizationUrl,
+    discoverOidcProvider,
+    exchangeAuthorizationCode,
+    generateOidcRandom,
+    getOidcRedirectUri,
+    OidcClaims,
+    verifyIdToken
+} from '@/lib/utils/oidc'
+import {createLogger} from '@/lib/utils/logger'
+
+/**
+ * Single Sign-On Service
+ * Signs university members in through the OpenID Connect provider configured in the admin settings.
+ * Accounts are matched by their provider subject, then by email; unknown students and staff
+ * are provisioned on their first login, with the role given by their email domain.
+ */
+export class SsoService {
+    private static _instance: SsoService
+    private readonly logger = createLogger('SsoService')
+
+    private constructor() {
+    }
+
+    static get instance(): SsoService {
+        if (!SsoService._instance) {
+            SsoService._instance = new SsoService()
+        }
+        return SsoService._instance
+    }
+
+    /**
+     * Retrieves the configured identity provider for the login page.
+     *
+     * @returns The provider or null if single sign-on is disabled or incomplete.
+     */
+    async getProvider(): Promise<SsoProvider | null> {
+        const config = await this.getEnabledConfig()
+        if (!config) return null
+
+        return {displayName: config.oidcDisplayName || new URL(config.oidcIssuer!).hostname}
+    }
+
+    /**
+     * Starts a login by remembering its state in the session cookie.
+     *
+     * @returns The provider URL to send the browser to.
+     */
+    async beginLogin(): Promise<string> {
+        const config = await this.getEnabledConfig()
+        if (!config) {
+            throw new Error('sso.disabled')
+        }
+
+        try {
+            const metadata = await discoverOidcProvider(config.oidcIssuer!)
+            const login = {
+                state: generateOidcRandom(),
+                nonce: generateOidcRandom(),
+                codeVerifier: generateOidcRandom(),
+            }
+            await SessionService.instance.startSsoLogin(login)
+
+            return buildAuthorizationUrl(metadata, {
+                clientId: config.oidcClientId!,
+                redirectUri: getOidcRedirectUri(),
+                ...login,
+            })
+        } catch (error) {
+            this.logger.error('Failed to start single sign-on', error as Error)
+            throw new Error('sso.providerError')
+        }
+    }
+
+    /**
+     * Completes a login on the provider's callback.
+     * Users with two-factor authentication get a pending challenge instead of a session.
+     *
+     * @param params - Query parameters of the callback.
+     * @param locale - Language of a newly provisioned account.
+     */
+    async completeLogin(
+        params: { code: string | null; state: string | null; error: string | null },
+        locale: Locale
+    ): Promise<{ user: User; twoFactorRequired: boolean }> {
+        const login = await SessionService.instance.consumeSsoLogin()
+        if (!login || !params.state || login.state !== params.state) {
+            throw new Error('sso.invalidState')
+        }
+
+        if (params.error || !params.code) {
+            this.logger.warn('Identity provider returned an error', {error: params.error})
+            throw new Error('sso.providerError')
+        }
+
+        const config = await this.getEnabledConfig()
+        if (!config) {
+            throw new Error('sso.disabled')
+        }
+
+        let claims: OidcClaims
+        try {
+            const metadata = await discoverOidcProvider(config.oidcIssuer!)
+            const idToken = await exchangeAuthorizationCode(metadata, {
+                clientId: config.oidcClientId!,
+                clientSecret: config.oidcClientSecret!,
+                redirectUri: getOidcRedirectUri(),
+                code: params.code,
+                codeVerifier: login.codeVerifier,
+            })
+            claims = await verifyIdToken(metadata, idToken, {clientId: config.oidcClientId!, nonce: login.nonce})
+        } catch (error) {
+            this.logger.error('Failed to verify single sign-on response', error as Error)
+            throw new Error('sso.providerError')
+        }
+
+        const user = await this.findOrProvisionUser(claims, config, locale)
+
+        if (user.isSuspended) {
+            this.logger.warn('Suspended user attempted single sign-on', {userId: user.id})
+            throw new Error('sso.accountSuspended')
+        }
+
+        if (await TwoFactorService.instance.isEnabled(user.id)) {
+            await SessionService.instance.startTwoFactorChallenge(user.id)
+            this.logger.info('Single sign-on accepted, awaiting two-factor code', {userId: user.id})
+            return {user, twoFactorRequired: true}
+        }
+
+        await SessionService.instance.createSession(user)
+
+        this.logger.info('User signed in with single sign-on', {userId: user.id})
+
+        return {user, twoFactorRequired: false}
+    }
+
+    /**
+     * Returns the configuration if single sign-on is enabled and fully configured.
+     */
+    private async getEnabledConfig(): Promise<Config | null> {
+        const config = await ConfigService.instance.getConfig()
+        if (!config?.oidcEnabled || !config.oidcIssuer || !config.oidcClientId || !config.oidcClientSecret) {
+            return null
+        }
+        return config
+    }
+
+    /**
+     * Determines the role of a new account from its email domain; staff take precedence.
+     */
+    private resolveRole(email: string, config: Config): UserRole | null {
+        if (config.staffEmailDomain && matchesEmailDomain(email, config.staffEmailDomain)) {
+            return UserRole.COORDINATOR
+        }
+        if (config.studentEmailDomain && matchesEmailDomain(email, config.studentEmailDomain)) {
+            return UserRole.STUDENT
+        }
+        return null
+    }
+
+    /**
+     * Finds the account of a provider user, linking an existing student or coordinator account
+     * with the same email, or creates a student or coordinator account for them.
+     * The provider must confirm the email is verified, and only emails of the configured
+     * domains are linked or provisioned.
+     */
+    private async findOrProvisionUser(claims: OidcClaims, config: Config, locale: Locale): Promise<User> {
+        const linkedUser = await UserRepository.instance.getByOidcSubject(claims.sub)
+        if (linkedUser) {
+            return linkedUser
+        }
+
+        const email = claims.email?.trim()
+        if (!email) {
+            throw new Error('sso.emailMissing')
+        }
+        if (claims.email_verified !== true) {
+            throw new Error('sso.emailNotVerified')
+        }
+
+        const role = this.resolveRole(email, config)
+        const existingUser = await UserRepository.instance.getByEmail(email, true)
+        if (existingUser) {
+            if (existingUser.deletedAt) {
+                this.logger.warn('Single sign-on rejected: account is in the trash', {userId: existingUser.id})
+                throw new Error('sso.accountDeleted')
+            }
+            if (existingUser.oidcSubject) {
+                this.logger.warn('Email already linked to another provider account', {userId: existingUser.id})
+                throw new Error('sso.accountConflict')
+            }
+            if (!role || (existingUser.role !== UserRole.STUDENT && existingUser.role !== UserRole.COORDINATOR)) {
+                this.logger.warn('Single sign-on rejected: account cannot be linked', {
+                    userId: existingUser.id,
+                    role: existingUser.role
+                })
+                throw new Error('sso.accountConflict')
+            }
+
+            this.logger.info('Linking existing account to single sign-on', {userId: existingUser.id})
+            return UserRepository.instance.update(existingUser.id, {
+                oidcSubject: claims.sub,
+                emailVerified: existingUser.emailVerified ?? new Date(),
+            })
+        }
+
+        if (!role) {
+            this.logger.warn('Single sign-on rejected: email domain not allowed', {email})
+            throw new Error('sso.domainNotAllowed')
+        }
+
+        const userData = {
+            name: this.resolveName(claims, email),
+            email,
+            emailVerified: new Date(),
+            oidcSubject: claims.sub,
+            locale,
+        }
+
+        const {user} = role === UserRole.COORDINATOR
+            ? await CoordinatorService.instance.registerCoordinator({user: userData, coordinator: {}})
+            : await StudentService.instance.registerStudent({user: userData, student: {}})
+
+        this.logger.info('Account provisioned through single sign-on', {userId: user.id, role})
+
+        try {
+            await EmailService.instance.sendWelcomeEmail(user.email, user.name, resolveLocale(user.locale))
+        } catch (error) {
+            this.logger.error('Failed to send welcome email after single sign-on', error as Error)
+        }
+
+        return user
+    }
+
+    /**
+     * Picks a display name from the claims, falling back to the email's local part.
+     */
+    private resolveName(claims: OidcClaims, email: string): string {
+        const fullName = [claims.given_name, claims.family_name].filter(Boolean).join(' ')
+        return claims.name || fullName || claims.preferred_username || email.split('@')[0]
+    }
+}
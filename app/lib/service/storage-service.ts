@@ -0,0 +1,124 @@
+/** @format */
+import 'server-only'
+import {
+    ALLOWED_IMAGE_TYPES,
+    getStoredFileKey,
+    IMAGE_RULES,
+    ImageKind,
+    StorageDriver,
+    StoredFile,
+    toStoredFileUrl
+} from '@/lib/domain/storage'
+import {createStorageDriver, createStorageKey, isValidStorageKey, processImage} from '@/lib/utils/storage'
+import {createLogger} from '@/lib/utils/logger'
+
+/**
+ * Storage Service
+ * Stores uploaded files through the driver selected by the `STORAGE_DRIVER` environment variable
+ * and serves them back by key. Records only keep the returned URL, never the file contents.
+ */
+export class StorageService {
+    private static _instance: StorageService
+    private readonly driver: StorageDriver
+    private readonly logger = createLogger('StorageService')
+
+    private constructor() {
+        this.driver = createStorageDriver()
+    }
+
+    static get instance(): StorageService {
+        if (!StorageService._instance) {
+            StorageService._instance = new StorageService()
+        }
+        return StorageService._instance
+    }
+
+    /**
+     * Validates, resizes and stores an uploaded image.
+     *
+     * @param kind - Kind of image, selecting the size limit and output size.
+     * @param file - The uploaded file.
+     * @returns The URL the stored image is served from.
+     * @throws Error `storage.<reason>` if the file is rejected.
+     */
+    async storeImage(kind: ImageKind, file: File): Promise<string> {
+        const rule = IMAGE_RULES[kind]
+
+        if (!ALLOWED_IMAGE_TYPES.some((type) => type === file.type)) {
+            throw new Error('storage.invalidType')
+        }
+        if (file.size > rule.maxBytes) {
+            throw new Error('storage.fileTooLarge')
+        }
+
+        const image = await processImage(kind, Buffer.from(await file.arrayBuffer()))
+        const key = createStorageKey(rule.folder, image.extension)
+        await this.driver.put(key, image.body, image.contentType)
+
+        this.logger.info('Image stored', {kind, key, size: image.body.length})
+        return toStoredFileUrl(key)
+    }
+
+    /**
+     * Stores a file as is, under a new key in the given folder.
+     * Callers validate the file beforehand; files stored this way are not served publicly.
+     *
+     * @param folder - Folder of the file, e.g. `attachments`.
+     * @param extension - File extension without the dot.
+     * @param body - File contents.
+     * @param contentType - MIME type served with the file.
+     * @returns The key of the stored file.
+     */
+    async storeFile(folder: string, extension: string, body: Buffer, contentType: string): Promise<string> {
+        const key = createStorageKey(folder, extension)
+        await this.driver.put(key, body, contentType)
+
+        this.logger.info('File stored', {key, size: body.length})
+        return key
+    }
+
+    /**
+     * Reads a stored file.
+     *
+     * @param key - Key of the file, as found in its URL.
+     * @returns The file, or null if the key is invalid or no file has it.
+     */
+    async getFile(key: string): Promise<StoredFile | null> {
+        if (!isValidStorageKey(key)) {
+            return null
+        }
+        return this.driver.get(key)
+    }
+
+    /**
+     * Removes a file that is no longer referenced, such as a replaced profile picture.
+     * Values that are not stored file URLs are ignored.
+     *
+     * @param url - URL previously returned by {@link storeImage}.
+     */
+    async deleteFileByUrl(url: string | null | undefined): Promise<void> {
+        const key = getStoredFileKey(url)
+        if (key) {
+            await this.deleteFile(key)
+        }
+    }
+
+    /**
+     * Removes a stored file by its key. Failures are logged, not thrown,
+     * since a leftover file does not affect the user.
+     *
+     * @param key - Key of the file.
+     */
+    async deleteFile(key: string): Promise<void> {
+        if (!isValidStorageKey(key)) {
+            return
+        }
+
+        try {
+            await this.driver.delete(key)
+            this.logger.info('Stored file deleted', {key})
+        } catch (error) {
+            this.logger.error(`Failed to delete stored file ${key}`, error as Error)
+        }
+    }
+}
@@ -1,9 +1,17 @@
 /** @format */
 import 'server-only'
 import {database} from '@/lib/database'
-import type {StudentRegistrationInput, StudentUpdateType, StudentWithUser} from '@/lib/domain/student'
+import type {
+    StudentPortfolio,
+    StudentRegistrationInput,
+    StudentUpdateType,
+    StudentWithUser
+} from '@/lib/domain/student'
 import {StudentRepository} from '@/lib/repository/student-repository'
+import {ProjectCompletionRepository} from '@/lib/repository/project-completion-repository'
 import {UserRepository} from '@/lib/repository/user-repository'
+import {StorageService} from '@/lib/service/storage-service'
+import {getProfilePictureUpdate} from '@/lib/domain/user'
 import {hashPassword} from '@/lib/utils/password'
 import {createLogger} from '@/lib/utils/logger'
 
@@ -35,7 +43,7 @@ export class StudentService {
         try {
             const result = await database.$transaction(async (tx) => {
                 const {password, ...userData} = input.user
-                const hashedPassword = await hashPassword(password)
+                const hashedPassword = password ? await hashPassword(password) : null
 
                 const user = await UserRepository.instance.create(
                     {...userData, hashedPassword, role: 'STUDENT',}, tx
@@ -66,8 +74,31 @@ export class StudentService {
         return StudentRepository.instance.getByUserId(userId)
     }
 
+    /**
+     * Retrieves the public portfolio of a student.
+     * Suspended students and students who hid their portfolio are treated as not found.
+     *
+     * @param studentId - The ID of the student profile.
+     * @returns The portfolio or null if it is not publicly available.
+     */
+    async getPublicPortfolio(studentId: string): Promise<StudentPortfolio | null> {
+        try {
+            const student = await StudentRepository.instance.getById(studentId)
+            if (!student || student.user.isSuspended || !student.isPortfolioPublic) {
+                return null
+            }
+
+            const completions = await ProjectCompletionRepository.instance.findPortfolioByStudentId(studentId)
+            return {student, completions}
+        } catch (error) {
+            this.logger.error('Failed to retrieve student portfolio', error as Error)
+            throw error
+        }
+    }
+
     /**
      * Updates a student's profile information.
+     * A replaced profile picture is removed from storage.
      *
      * @param userId - The ID of the user.
      * @param data - The update payload.
@@ -87,6 +118,11 @@ export class StudentService {
 
             const student = await StudentRepository.instance.update(userId, data)
 
+            const profilePictureUrl = getProfilePictureUpdate(data)
+            if (profilePictureUrl !== undefined && profilePictureUrl !== existingProfile.user.profilePictureUrl) {
+                await StorageService.instance.deleteFileByUrl(existingProfile.user.profilePictureUrl)
+            }
+
             this.logger.info('Student profile updated', { userId })
             return {...student, user: existingProfile.user}
         } catch (error) {
@@ -0,0 +1,220 @@
+/** @format */
+import 'server-only'
+import QRCode from 'qrcode'
+import {TwoFactorRepository} from '@/lib/repository/two-factor-repository'
+import {ConfigService} from '@/lib/service/config-service'
+import type {User, UserRole} from '@/lib/domain/user'
+import {
+    RECOVERY_CODE_COUNT,
+    TWO_FACTOR_STAFF_ROLES,
+    TwoFactorEnrollment,
+    TwoFactorStatus
+} from '@/lib/domain/two-factor'
+import {decrypt, encrypt} from '@/lib/utils/crypto'
+import {
+    buildOtpauthUrl,
+    generateRecoveryCodes,
+    generateTotpSecret,
+    hashRecoveryCode,
+    verifyTotp
+} from '@/lib/utils/totp'
+import {createLogger} from '@/lib/utils/logger'
+
+/**
+ * Issuer shown in authenticator apps when the platform has no name configured.
+ */
+const DEFAULT_ISSUER = 'StudWork'
+
+/**
+ * Two-Factor Service
+ * Handles TOTP enrollment, code verification and recovery codes.
+ * Secrets are stored encrypted and recovery codes hashed; plaintext recovery codes
+ * are only returned once, when they are issued.
+ */
+export class TwoFactorService {
+    private static _instance: TwoFactorService
+    private readonly repository = TwoFactorRepository.instance
+    private readonly logger = createLogger('TwoFactorService')
+
+    private constructor() {
+    }
+
+    static get instance(): TwoFactorService {
+        if (!TwoFactorService._instance) {
+            TwoFactorService._instance = new TwoFactorService()
+        }
+        return TwoFactorService._instance
+    }
+
+    /**
+     * Checks whether a user has completed two-factor enrollment.
+     *
+     * @param userId - The ID of the user.
+     */
+    async isEnabled(userId: string): Promise<boolean> {
+        const record = await this.repository.findByUserId(userId)
+        return !!record?.enabledAt
+    }
+
+    /**
+     * Checks whether the platform settings require two-factor authentication for a role.
+     *
+     * @param role - The role of the user.
+     */
+    async isRequired(role: UserRole): Promise<boolean> {
+        const config = await ConfigService.instance.getConfig()
+        return !!config?.requireStaffTwoFactor && TWO_FACTOR_STAFF_ROLES.includes(role)
+    }
+
+    /**
+     * Retrieves the two-factor state of a user for the profile page.
+     *
+     * @param user - The user.
+     */
+    async getStatus(user: User): Promise<TwoFactorStatus> {
+        const record = await this.repository.findByUserId(user.id)
+        return {
+            enabled: !!record?.enabledAt,
+            recoveryCodesRemaining: record?.enabledAt ? record.recoveryCodes.length : 0,
+            required: await this.isRequired(user.role),
+        }
+    }
+
+    /**
+     * Starts enrollment by generating a new secret.
+     * The secret only protects sign-in once it is confirmed with {@link confirmEnrollment}.
+     *
+     * @param user - The user enrolling.
+     * @returns The data for the authenticator app, or null if two-factor authentication is already enabled.
+     */
+    async beginEnrollment(user: User): Promise<TwoFactorEnrollment | null> {
+        try {
+            if (await this.isEnabled(user.id)) {
+                return null
+            }
+
+            const secret = generateTotpSecret()
+            await this.repository.savePendingSecret(user.id, encrypt(secret))
+
+            const config = await ConfigService.instance.getConfig()
+            const otpauthUrl = buildOtpauthUrl(config?.name || DEFAULT_ISSUER, user.email, secret)
+            const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl, {margin: 1, width: 240})
+
+            this.logger.info('Two-factor enrollment started', {userId: user.id})
+            return {secret, otpauthUrl, qrCodeDataUrl}
+        } catch (error) {
+            this.logger.error('Failed to start two-factor enrollment', error as Error)
+            throw error
+        }
+    }
+
+    /**
+     * Completes enrollment with a code from the authenticator app and issues recovery codes.
+     *
+     * @param userId - The ID of the user enrolling.
+     * @param code - The current code shown by the app.
+     * @returns The plaintext recovery codes, or null if the code is wrong or no enrollment is pending.
+     */
+    async confirmEnrollment(userId: string, code: string): Promise<string[] | null> {
+        try {
+            const record = await this.repository.findByUserId(userId)
+            if (!record || record.enabledAt) {
+                return null
+            }
+
+            const step = verifyTotp(decrypt(record.secret), code)
+            if (step === null) {
+                return null
+            }
+
+            const recoveryCodes = generateRecoveryCodes(RECOVERY_CODE_COUNT)
+            await this.repository.enable(userId, recoveryCodes.map(hashRecoveryCode), step)
+
+            this.logger.info('Two-factor authentication enabled', {userId})
+            return recoveryCodes
+        } catch (error) {
+            this.logger.error('Failed to confirm two-factor enrollment', error as Error)
+            throw error
+        }
+    }
+
+    /**
+     * Verifies a code entered at sign-in or to confirm a sensitive change.
+     * Accepts an authenticator code or an unused recovery code, which is consumed.
+     *
+     * @param userId - The ID of the user.
+     * @param code - The code entered by the user.
+     * @returns True if the code is valid.
+     */
+    async verifyCode(userId: string, code: string): Promise<boolean> {
+        try {
+            const record = await this.repository.findByUserId(userId)
+            if (!record?.enabledAt) {
+                return false
+            }
+
+            const step = verifyTotp(decrypt(record.secret), code, record.lastUsedStep)
+            if (step !== null) {
+                if (await this.repository.updateLastUsedStep(userId, step, record.lastUsedStep)) {
+                    return true
+                }
+                this.logger.warn('Two-factor code used concurrently', {userId})
+                return false
+            }
+
+            const hash = hashRecoveryCode(code)
+            if (record.recoveryCodes.includes(hash)) {
+                const remaining = record.recoveryCodes.filter((stored) => stored !== hash)
+                if (await this.repository.updateRecoveryCodesIfUnchanged(userId, record.recoveryCodes, remaining)) {
+                    this.logger.info('Recovery code used', {userId, remaining: remaining.length})
+                    return true
+                }
+                this.logger.warn('Recovery code used concurrently', {userId})
+                return false
+            }
+
+            this.logger.debug('Invalid two-factor code', {userId})
+            return false
+        } catch (error) {
+            this.logger.error('Failed to verify two-factor code', error as Error)
+            throw error
+        }
+    }
+
+    /**
+     * Replaces the recovery codes of a user after checking a current code.
+     *
+     * @param userId - The ID of the user.
+     * @param code - An authenticator or recovery code.
+     * @returns The new plaintext recovery codes, or null if the code is wrong.
+     */
+    async regenerateRecoveryCodes(userId: string, code: string): Promise<string[] | null> {
+        if (!(await this.verifyCode(userId, code))) {
+            return null
+        }
+
+        const recoveryCodes = generateRecoveryCodes(RECOVERY_CODE_COUNT)
+        await this.repository.updateRecoveryCodes(userId, recoveryCodes.map(hashRecoveryCode))
+
+        this.logger.info('Recovery codes regenerated', {userId})
+        return recoveryCodes
+    }
+
+    /**
+     * Turns two-factor authentication off after checking a current code.
+     *
+     * @param userId - The ID of the user.
+     * @param code - An authenticator or recovery code.
+     * @returns True if it was turned off, false if the code is wrong.
+     */
+    async disable(userId: string, code: string): Promise<boolean> {
+        if (!(await this.verifyCode(userId, code))) {
+            return false
+        }
+
+        await this.repository.deleteByUserId(userId)
+
+        this.logger.info('Two-factor authentication disabled', {userId})
+        return true
+    }
+}
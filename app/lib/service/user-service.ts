@@ -1,10 +1,18 @@
 /** @format */
 import 'server-only'
+import {database} from '@/lib/database'
 import type {User, UserCreateType, UserUpdateType} from '@/lib/domain/user'
+import type {DeletedUser} from '@/lib/domain/trash'
 import {UserRepository, UserFilterOptions, UserSortField} from '@/lib/repository/user-repository'
+import {OrganizationRepository} from '@/lib/repository/organization-repository'
+import {ProjectRepository} from '@/lib/repository/project-repository'
 import {createLogger} from '@/lib/utils/logger'
+import {resolveLocale} from '@/lib/utils/i18n/routing'
 import {PaginationParams, PaginationResult} from '@/lib/domain/pagination'
 import {EmailService} from '@/lib/service/email-service'
+import {SessionService} from '@/lib/service/session-service'
+import {AuditService} from '@/lib/service/audit-service'
+import {AuditAction, AuditEntityType} from '@/lib/domain/audit'
 import {UserRole} from "@/lib/domain/user";
 
 /**
@@ -117,7 +125,7 @@ export class UserService {
     }
 
     /**
-     * Suspends a user account, preventing login access, and sends a notification email.
+     * Suspends a user account, signs it out on every device, and sends a notification email.
      *
      * @param targetUserId - The ID of the user to suspend.
      * @param reason - Optional reason for suspension to be included in the email.
@@ -125,12 +133,24 @@ export class UserService {
      */
     async suspendUser(targetUserId: string, reason?: string): Promise<User> {
         try {
+            const previous = await UserRepository.instance.getById(targetUserId)
             const user = await UserRepository.instance.update(targetUserId, {isSuspended: true})
+            await SessionService.instance.revokeAllSessions(targetUserId)
+            await AuditService.instance.record({
+                action: AuditAction.USER_SUSPENDED,
+                entityType: AuditEntityType.USER,
+                entityId: user.id,
+                entityLabel: user.email,
+                before: previous,
+                after: user,
+                metadata: {reason: reason || null},
+            })
 
             await EmailService.instance.sendAccountSuspended(
                 user.email,
                 user.name || 'User',
-                reason || 'Terms Violation'
+                reason || 'Terms Violation',
+                resolveLocale(user.locale)
             )
 
             this.logger.warn('User suspended', {userId: targetUserId})
@@ -149,7 +169,16 @@ export class UserService {
      */
     async unsuspendUser(targetUserId: string): Promise<User> {
         try {
+            const previous = await UserRepository.instance.getById(targetUserId)
             const user = await UserRepository.instance.update(targetUserId, {isSuspended: false})
+            await AuditService.instance.record({
+                action: AuditAction.USER_UNSUSPENDED,
+                entityType: AuditEntityType.USER,
+                entityId: user.id,
+                entityLabel: user.email,
+                before: previous,
+                after: user,
+            })
             this.logger.info('User unsuspended', {userId: targetUserId})
             return user
         } catch (error) {
@@ -159,17 +188,118 @@ export class UserService {
     }
 
     /**
-     * Permanently deletes a user account.
+     * Moves a user account to the trash and signs it out on every device.
+     *
+     * Organization accounts take their profile and projects with them. Applications and
+     * completion records are kept, so students do not lose them, and the account can be
+     * restored until it is purged after the retention period.
+     *
+     * @param userId - The ID of the user to delete.
+     * @returns The deleted user.
+     */
+    async softDeleteAccount(userId: string): Promise<User> {
+        try {
+            const deletedAt = new Date()
+            const user = await database.$transaction(async (tx) => {
+                const user = await UserRepository.instance.softDelete(userId, deletedAt, tx)
+                if (user.role === UserRole.ORGANIZATION) {
+                    const organization = await OrganizationRepository.instance.softDelete(userId, deletedAt, tx)
+                    await ProjectRepository.instance.softDeleteByOrganization(organization.id, deletedAt, tx)
+                }
+                return user
+            })
+            await SessionService.instance.revokeAllSessions(userId)
+
+            this.logger.warn('User account moved to trash', {userId})
+            return user
+        } catch (error) {
+            this.logger.error('Failed to move user account to trash', error as Error)
+            throw error
+        }
+    }
+
+    /**
+     * Deletes a user account on behalf of an administrator.
+     * The account is moved to the trash, see {@link softDeleteAccount}.
      *
      * @param userId - The ID of the user to delete.
      */
     async deleteUser(userId: string): Promise<void> {
         try {
-            await UserRepository.instance.delete(userId)
-            this.logger.warn('User permanently deleted', {userId})
+            const previous = await UserRepository.instance.getById(userId)
+            const user = await this.softDeleteAccount(userId)
+            await AuditService.instance.record({
+                action: AuditAction.USER_DELETED,
+                entityType: AuditEntityType.USER,
+                entityId: userId,
+                entityLabel: user.email,
+                before: previous,
+                after: user,
+            })
         } catch (error) {
             this.logger.error('Failed to delete user', error as Error)
             throw error
         }
     }
+
+    /**
+     * Retrieves paginated users in the trash.
+     *
+     * @param pageParams - Pagination settings (page, pageSize).
+     * @param search - Optional name or email search term.
+     * @returns A paginated list of deleted users.
+     */
+    async getDeletedUsers(pageParams: PaginationParams, search?: string): Promise<PaginationResult<DeletedUser>> {
+        return UserRepository.instance.findDeleted(pageParams, search)
+    }
+
+    /**
+     * Retrieves a user in the trash by their unique ID.
+     *
+     * @param id - The user ID.
+     * @returns The deleted user or null if they are not in the trash.
+     */
+    async getDeletedUser(id: string): Promise<DeletedUser | null> {
+        return UserRepository.instance.getDeletedById(id)
+    }
+
+    /**
+     * Restores a user account from the trash.
+     * Organization accounts get back their profile and the projects deleted together with them.
+     *
+     * @param userId - The ID of the user to restore.
+     * @returns The restored user.
+     */
+    async restoreUser(userId: string): Promise<User> {
+        try {
+            const previous = await UserRepository.instance.getDeletedById(userId)
+            if (!previous) {
+                throw new Error(`User not in trash: ${userId}`)
+            }
+
+            const user = await database.$transaction(async (tx) => {
+                const user = await UserRepository.instance.restore(userId, tx)
+                const organization = previous.organization
+                if (organization?.deletedAt) {
+                    await OrganizationRepository.instance.restore(userId, tx)
+                    await ProjectRepository.instance.restoreByOrganization(organization.id, organization.deletedAt, tx)
+                }
+                return user
+            })
+            await AuditService.instance.record({
+                action: AuditAction.USER_RESTORED,
+                entityType: AuditEntityType.USER,
+                entityId: user.id,
+                entityLabel: user.email,
+                before: previous,
+                after: user,
+            })
+
+            this.logger.info('User restored from trash', {userId})
+            return user
+        } catch (error) {
+            this.logger.error('Failed to restore user', error as Error)
+            throw error
+        }
+    }
 }
@@ -0,0 +1,61 @@
+/** @format */
+import type {Prisma} from '@/prisma/generated/client'
+import {
+    AUDIT_IGNORED_FIELDS,
+    AUDIT_REDACTED_FIELDS,
+    AUDIT_REDACTED_VALUE,
+    AuditChanges
+} from '@/lib/domain/audit'
+
+/**
+ * Whether a value is a related record (or a list of them) loaded alongside the entity.
+ */
+function isRelation(value: unknown): boolean {
+    if (Array.isArray(value)) {
+        return value.length > 0 && isRelation(value[0])
+    }
+    return typeof value === 'object' && value !== null && !(value instanceof Date) && 'id' in value
+}
+
+/**
+ * Converts a field value to its JSON form, so dates and missing values compare and store consistently.
+ */
+function toJsonValue(value: unknown): Prisma.JsonValue {
+    if (value === undefined) {
+        return null
+    }
+    return JSON.parse(JSON.stringify(value))
+}
+
+/**
+ * Lists the fields that differ between two states of an entity.
+ * Related records, timestamps and secrets are left out; a changed secret is recorded without its values.
+ * Either state may be omitted to record every field of a created or deleted entity.
+ *
+ * @param {object | null | undefined} before - The entity before the action.
+ * @param {object | null | undefined} after - The entity after the action.
+ * @returns {AuditChanges} The changed fields with their previous and new values.
+ */
+export function getAuditChanges(before?: object | null, after?: object | null): AuditChanges {
+    const previous = (before ?? {}) as Record<string, unknown>
+    const next = (after ?? {}) as Record<string, unknown>
+    const fields = new Set([...Object.keys(previous), ...Object.keys(next)])
+    const changes: AuditChanges = {}
+
+    for (const field of fields) {
+        if (AUDIT_IGNORED_FIELDS.includes(field) || isRelation(previous[field]) || isRelation(next[field])) {
+            continue
+        }
+
+        const from = toJsonValue(previous[field])
+        const to = toJsonValue(next[field])
+        if (JSON.stringify(from) === JSON.stringify(to)) {
+            continue
+        }
+
+        changes[field] = AUDIT_REDACTED_FIELDS.includes(field)
+            ? {from: AUDIT_REDACTED_VALUE, to: AUDIT_REDACTED_VALUE}
+            : {from, to}
+    }
+    return changes
+}
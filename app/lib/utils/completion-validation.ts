@@ -0,0 +1,112 @@
+/** @format */
+import {z} from 'zod'
+import type {PerformanceRating, ProjectCompletionStatus} from '@/lib/domain/project-completion'
+
+/**
+ * Builds the zod schema for a coordinator's academic evaluation of a completion.
+ * The rating enum and minimum length are passed in so the schema can be shared
+ * between server actions and client components.
+ * Issue messages are translation keys; `min` is available for interpolation.
+ *
+ * @param ratings - The PerformanceRating enum.
+ * @param minLength - Minimum length of the written evaluation.
+ * @returns The evaluation schema.
+ */
+export function createCoordinatorEvaluationSchema(ratings: typeof PerformanceRating, minLength: number) {
+    return z.object({
+        coordinatorPerformanceRating: z.enum(ratings, {message: 'errors.completion.rating_required'}),
+        coordinatorWrittenEvaluation: z
+            .string()
+            .trim()
+            .min(minLength, {message: 'errors.completion.evaluation_too_short'}),
+    })
+}
+
+/**
+ * Input accepted when a coordinator evaluates a completion.
+ */
+export type CoordinatorEvaluationInput = z.infer<ReturnType<typeof createCoordinatorEvaluationSchema>>
+
+/**
+ * Builds the zod schema for an organization's partner evaluation of a completion.
+ * The organization either records its review (ORGANIZATION_REVIEWED) or also publishes
+ * the completion (PUBLISHED); no other status can be requested.
+ * Issue messages are translation keys; `min` is available for interpolation.
+ *
+ * @param ratings - The PerformanceRating enum.
+ * @param statuses - The ProjectCompletionStatus enum.
+ * @param minLength - Minimum length of the written evaluation.
+ * @returns The evaluation schema.
+ */
+export function createOrganizationEvaluationSchema(
+    ratings: typeof PerformanceRating,
+    statuses: typeof ProjectCompletionStatus,
+    minLength: number
+) {
+    return z.object({
+        organizationPerformanceRating: z.enum(ratings, {message: 'errors.completion.rating_required'}),
+        organizationWrittenEvaluation: z
+            .string()
+            .trim()
+            .min(minLength, {message: 'errors.completion.evaluation_too_short'}),
+        status: z.enum([statuses.ORGANIZATION_REVIEWED, statuses.PUBLISHED], {
+            message: 'errors.completion.invalid_review_status',
+        }),
+    })
+}
+
+/**
+ * Input accepted when an organization evaluates a completion.
+ */
+export type OrganizationEvaluationInput = z.infer<ReturnType<typeof createOrganizationEvaluationSchema>>
+
+/**
+ * Builds the zod schema for a student's completion self-report.
+ * Achievements and skills are trimmed and empty entries dropped; hours and weeks
+ * are optional positive integers.
+ * Issue messages are translation keys; `min` is available for interpolation.
+ *
+ * @param minLength - Minimum length of the role description.
+ * @returns The completion report schema.
+ */
+export function createCompletionReportSchema(minLength: number) {
+    const entries = z.array(z.string().trim()).transform((values) => values.filter(Boolean))
+    const positiveInt = z
+        .number({message: 'errors.completion.invalid_number'})
+        .int({message: 'errors.completion.invalid_number'})
+        .positive({message: 'errors.completion.invalid_number'})
+        .nullable()
+
+    return z.object({
+        roleDescription: z
+            .string()
+            .trim()
+            .min(minLength, {message: 'errors.completion.role_description_too_short'}),
+        keyAchievements: entries.refine((values) => values.length > 0, {
+            message: 'errors.completion.achievements_required',
+        }),
+        skillsDeveloped: entries.refine((values) => values.length > 0, {
+            message: 'errors.completion.skills_required',
+        }),
+        actualHoursWorked: positiveInt,
+        actualDurationWeeks: positiveInt,
+    })
+}
+
+/**
+ * Input accepted when a student saves their completion self-report.
+ */
+export type CompletionReportInput = z.input<ReturnType<typeof createCompletionReportSchema>>
+
+/**
+ * Resolves a localized message for the first issue of a failed validation.
+ *
+ * @param t - The translation function.
+ * @param error - The zod validation error.
+ * @param minLength - Minimum length used by the schema, for interpolation.
+ * @returns The localized error message.
+ */
+export function getCompletionValidationErrorMessage(t: any, error: z.ZodError, minLength: number): string {
+    const issue = error.issues[0]
+    return issue ? t(issue.message, {min: minLength}) : t('errors.unexpected')
+}
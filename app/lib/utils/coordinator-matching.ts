@@ -0,0 +1,81 @@
+/** @format */
+import {ProjectStatus} from '@/lib/domain/project'
+import type {Project} from '@/lib/domain/project'
+import type {CoordinatorSuggestion, CoordinatorWithWorkload} from '@/lib/domain/coordinator'
+
+/**
+ * Project statuses that count towards a coordinator's active workload.
+ */
+export const ACTIVE_COORDINATOR_PROJECT_STATUSES: ProjectStatus[] = [
+    ProjectStatus.COORDINATOR_ASSIGNED,
+    ProjectStatus.PUBLISHED,
+    ProjectStatus.IN_PROGRESS,
+]
+
+/**
+ * Weight of a category match relative to a single skill match.
+ */
+const CATEGORY_MATCH_WEIGHT = 2
+
+/**
+ * Lowercases a term and collapses underscores and repeated whitespace.
+ */
+function normalizeTerm(term: string): string {
+    return term.toLowerCase().replace(/_/g, ' ').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Checks whether a project term matches any of the coordinator's expertise terms.
+ * A match is a case-insensitive containment in either direction, so "react" matches
+ * "React Development" and "software development" matches "Software".
+ */
+function matchesExpertise(term: string, expertise: string[]): boolean {
+    return expertise.some((area) => area.includes(term) || term.includes(area))
+}
+
+/**
+ * Ranks coordinators for a project.
+ *
+ * Coordinators whose `areasOfExpertise` or `department` match the project category
+ * (weighted double) and required skills rank first; ties are broken by the lowest
+ * number of active projects and then by name.
+ *
+ * @param project - The project that needs a coordinator.
+ * @param coordinators - The candidate coordinators with their workload.
+ * @returns The suggestions ordered from best to worst match.
+ */
+export function rankCoordinatorsForProject(
+    project: Pick<Project, 'category' | 'requiredSkills'>,
+    coordinators: CoordinatorWithWorkload[]
+): CoordinatorSuggestion[] {
+    const category = normalizeTerm(project.category)
+    const skills = project.requiredSkills.filter((skill) => normalizeTerm(skill))
+
+    return coordinators
+        .map((coordinator) => {
+            const expertise = [...coordinator.areasOfExpertise, coordinator.department ?? '']
+                .map(normalizeTerm)
+                .filter(Boolean)
+
+            const matchedTerms: string[] = []
+            let matchScore = 0
+
+            if (matchesExpertise(category, expertise)) {
+                matchedTerms.push(project.category)
+                matchScore += CATEGORY_MATCH_WEIGHT
+            }
+            for (const skill of skills) {
+                if (matchesExpertise(normalizeTerm(skill), expertise)) {
+                    matchedTerms.push(skill)
+                    matchScore += 1
+                }
+            }
+
+            return {coordinator, matchScore, matchedTerms}
+        })
+        .sort((a, b) =>
+            b.matchScore - a.matchScore ||
+            a.coordinator.activeProjectCount - b.coordinator.activeProjectCount ||
+            a.coordinator.user.name.localeCompare(b.coordinator.user.name)
+        )
+}
@@ -1,5 +1,6 @@
 /** @format */
-import 'server-only'
+// No `server-only` guard: the CLI scripts in lib/scripts decrypt SMTP credentials outside Next.js.
+// Never import this module from client components.
 import crypto from 'crypto'
 import {
     createCipheriv,
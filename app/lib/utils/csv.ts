@@ -0,0 +1,32 @@
+/** @format */
+
+/**
+ * Characters that make spreadsheet applications treat a cell as a formula.
+ */
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r']
+
+/**
+ * Escapes a single CSV cell.
+ * Cells that would start a formula are prefixed with a quote, so exported data cannot run in a spreadsheet.
+ *
+ * @param {string | number | null | undefined} value - The cell value.
+ * @returns {string} The cell, quoted when needed.
+ */
+function toCsvCell(value: string | number | null | undefined): string {
+    let text = value === null || value === undefined ? '' : String(value)
+    if (FORMULA_PREFIXES.some((prefix) => text.startsWith(prefix))) {
+        text = `'${text}`
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Builds a CSV document (RFC 4180) from a header row and data rows.
+ *
+ * @param {string[]} header - Column titles.
+ * @param {Array<Array<string | number | null | undefined>>} rows - Data rows, in column order.
+ * @returns {string} The CSV text with CRLF line endings.
+ */
+export function toCsv(header: string[], rows: Array<Array<string | number | null | undefined>>): string {
+    return [header, ...rows].map((row) => row.map(toCsvCell).join(',')).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,15 @@
+/** @format */
+
+/**
+ * Checks whether an email address belongs to a configured domain.
+ * The domain may be written with or without a leading `@` (e.g. `@university.edu`); case is ignored.
+ *
+ * @param {string} email - The email address.
+ * @param {string} domain - The domain from the platform configuration.
+ * @returns {boolean} True if the address is at exactly that domain.
+ */
+export function matchesEmailDomain(email: string, domain: string): boolean {
+    const normalizedDomain = domain.trim().toLowerCase().replace(/^@/, '')
+    const emailDomain = email.split('@')[1]?.toLowerCase()
+    return !!normalizedDomain && emailDomain === normalizedDomain
+}
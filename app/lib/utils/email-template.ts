@@ -0,0 +1,66 @@
+/** @format */
+import type {EmailTemplateContent} from '@/lib/domain/email-template';
+
+/**
+ * Matches `{{variable}}` placeholders, allowing whitespace inside the braces.
+ */
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z][a-zA-Z0-9]*)\s*\}\}/g;
+
+/**
+ * Variables whose values are markup rendered by the platform, such as the rows of the
+ * notification digest. They are inserted as is; every other value is escaped.
+ */
+export const HTML_TEMPLATE_VARIABLES: readonly string[] = ['notifications'];
+
+/**
+ * Escapes a value for safe insertion into HTML.
+ *
+ * @param {string} value - Raw value.
+ * @returns {string} HTML-escaped value.
+ */
+export function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Replaces the `{{variable}}` placeholders of a template with their values.
+ * Unknown placeholders are left untouched so mistakes stay visible in the preview.
+ *
+ * @param {string} template - Template text.
+ * @param {Record<string, string>} variables - Placeholder values.
+ * @param {boolean} [html=true] - Whether values are HTML-escaped; disable for plain text such as subjects.
+ * @returns {string} The rendered text.
+ */
+export function renderPlaceholders(template: string, variables: Record<string, string>, html: boolean = true): string {
+    return template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+        if (!(name in variables)) return placeholder;
+        return html && !HTML_TEMPLATE_VARIABLES.includes(name) ? escapeHtml(variables[name]) : variables[name];
+    });
+}
+
+/**
+ * Renders the subject and HTML of an administrator override.
+ * Shared with the digest job script, which cannot use `EmailTemplateService`.
+ *
+ * @param {EmailTemplateContent} content - Stored or unsaved template content.
+ * @param {Record<string, string>} variables - Placeholder values.
+ * @returns {EmailTemplateContent} The rendered subject and HTML.
+ */
+export function renderTemplateContent(content: EmailTemplateContent, variables: Record<string, string>): EmailTemplateContent {
+    return {
+        subject: renderPlaceholders(content.subject, variables, false),
+        html: renderPlaceholders(content.html, variables),
+    };
+}
+
+/**
+ * Builds the placeholder token for a variable, e.g. `name` -> `{{name}}`.
+ */
+export function toPlaceholder(variable: string): string {
+    return `{{${variable}}}`;
+}
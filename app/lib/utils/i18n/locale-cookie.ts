@@ -0,0 +1,34 @@
+/** @format */
+import {cookies} from 'next/headers'
+import {Locale, resolveLocale} from './routing'
+
+/**
+ * Cookie the `next-intl` middleware reads to pick the locale of unprefixed paths.
+ */
+const LOCALE_COOKIE_NAME = 'NEXT_LOCALE'
+
+/**
+ * Stores the preferred locale in the `next-intl` locale cookie, so links and
+ * redirects without a locale prefix (e.g. `/dashboard`) resolve to it.
+ *
+ * @param {Locale} locale - The locale to remember.
+ */
+export async function setLocaleCookie(locale: Locale): Promise<void> {
+    const cookieStore = await cookies()
+    cookieStore.set(LOCALE_COOKIE_NAME, locale, {
+        path: '/',
+        sameSite: 'lax',
+        maxAge: 60 * 60 * 24 * 365,
+    })
+}
+
+/**
+ * Reads the preferred locale from the `next-intl` locale cookie, for requests
+ * outside the localized routes (e.g. API route handlers).
+ *
+ * @returns {Promise<Locale>} The remembered locale, or the default locale.
+ */
+export async function getLocaleCookie(): Promise<Locale> {
+    const cookieStore = await cookies()
+    return resolveLocale(cookieStore.get(LOCALE_COOKIE_NAME)?.value)
+}
@@ -0,0 +1,132 @@
+/** @format */
+
+/**
+ * Locale code of the generated pseudo-locale (`resources/messages/en-XA.json`).
+ * It is not a routable locale; when `I18N_PSEUDO_LOCALE=true` it replaces the English messages.
+ */
+export const PSEUDO_LOCALE = 'en-XA'
+
+/**
+ * Accented look-alikes of the ASCII letters, keeping pseudo-localized text readable.
+ */
+const ACCENTS: Record<string, string> = {
+    a: 'á', b: 'ƀ', c: 'ç', d: 'ð', e: 'é', f: 'ƒ', g: 'ĝ', h: 'ĥ', i: 'í', j: 'ĵ', k: 'ķ', l: 'ĺ', m: 'ɱ',
+    n: 'ñ', o: 'ó', p: 'þ', q: 'ǫ', r: 'ŕ', s: 'š', t: 'ţ', u: 'ú', v: 'ṽ', w: 'ŵ', x: 'ẋ', y: 'ý', z: 'ž',
+    A: 'Á', B: 'Ɓ', C: 'Ç', D: 'Ð', E: 'É', F: 'Ƒ', G: 'Ĝ', H: 'Ĥ', I: 'Í', J: 'Ĵ', K: 'Ķ', L: 'Ĺ', M: 'Ṁ',
+    N: 'Ñ', O: 'Ó', P: 'Þ', Q: 'Ǫ', R: 'Ŕ', S: 'Š', T: 'Ţ', U: 'Ú', V: 'Ṽ', W: 'Ŵ', X: 'Ẋ', Y: 'Ý', Z: 'Ž',
+}
+
+/**
+ * ICU argument types whose options contain nested messages that must be translated.
+ */
+const NESTED_ARGUMENT_TYPES = ['plural', 'select', 'selectordinal']
+
+/**
+ * Share of the original length added as padding, simulating languages with longer words.
+ */
+const EXPANSION_RATIO = 0.3
+
+interface ParserState {
+    index: number
+}
+
+/**
+ * Copies a `{...}` block verbatim, including any nested braces.
+ */
+function copyBlock(source: string, state: ParserState): string {
+    const start = state.index
+    let depth = 0
+    while (state.index < source.length) {
+        const char = source[state.index++]
+        if (char === '{') depth++
+        if (char === '}' && --depth === 0) break
+    }
+    return source.slice(start, state.index)
+}
+
+/**
+ * Translates an ICU argument starting at `{`. Simple placeholders and formatted values are kept,
+ * while the option messages of plural and select arguments are pseudo-localized.
+ */
+function transformArgument(source: string, state: ParserState): string {
+    const start = state.index
+    const nameEnd = source.slice(start).search(/[,}]/) + start
+    if (nameEnd < start || source[nameEnd] === '}') {
+        return copyBlock(source, state)
+    }
+
+    const typeEnd = source.slice(nameEnd + 1).search(/[,}]/) + nameEnd + 1
+    const type = source.slice(nameEnd + 1, typeEnd).trim()
+    if (!NESTED_ARGUMENT_TYPES.includes(type) || source[typeEnd] !== ',') {
+        return copyBlock(source, state)
+    }
+
+    let output = source.slice(start, typeEnd + 1)
+    state.index = typeEnd + 1
+    while (state.index < source.length) {
+        const char = source[state.index++]
+        output += char
+        if (char === '}') break
+        if (char === '{') {
+            output += transformText(source, state, true)
+            if (state.index < source.length) output += source[state.index++]
+        }
+    }
+    return output
+}
+
+/**
+ * Replaces letters with accented look-alikes, leaving ICU arguments and rich-text tags intact.
+ * When `nested`, stops before the `}` closing the current option message.
+ */
+function transformText(source: string, state: ParserState, nested: boolean): string {
+    let output = ''
+    while (state.index < source.length) {
+        const char = source[state.index]
+        if (char === '}' && nested) break
+
+        if (char === '{') {
+            output += transformArgument(source, state)
+        } else if (char === '<') {
+            const end = source.indexOf('>', state.index)
+            const tagEnd = end === -1 ? source.length : end + 1
+            output += source.slice(state.index, tagEnd)
+            state.index = tagEnd
+        } else {
+            output += ACCENTS[char] ?? char
+            state.index++
+        }
+    }
+    return output
+}
+
+/**
+ * Pseudo-localizes a single message: accents its letters, pads it to simulate longer
+ * translations and wraps it in brackets so truncated or hard-coded text stands out.
+ *
+ * @param {string} message - The source (English) message.
+ * @returns {string} The pseudo-localized message.
+ */
+export function pseudoLocalizeMessage(message: string): string {
+    if (!message) return message
+    const padding = '~'.repeat(Math.ceil(message.length * EXPANSION_RATIO))
+    return `[${transformText(message, {index: 0}, false)} ${padding}]`
+}
+
+/**
+ * Pseudo-localizes every message of a message tree, keeping its structure.
+ *
+ * @param {T} messages - The source message tree.
+ * @returns {T} A tree with the same keys and pseudo-localized messages.
+ */
+export function pseudoLocalizeMessages<T>(messages: T): T {
+    if (typeof messages === 'string') {
+        return pseudoLocalizeMessage(messages) as T
+    }
+    if (messages && typeof messages === 'object') {
+        return Object.fromEntries(
+            Object.entries(messages).map(([key, value]) => [key, pseudoLocalizeMessages(value)])
+        ) as T
+    }
+    return messages
+}
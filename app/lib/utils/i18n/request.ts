@@ -1,6 +1,7 @@
 /** @format */
 import {getRequestConfig} from 'next-intl/server'
 import {routing} from './routing'
+import {PSEUDO_LOCALE} from './pseudo-locale'
 
 /**
  * Per-Request Internationalization Configuration.
@@ -24,6 +25,12 @@ export default getRequestConfig(async ({requestLocale}) => {
         locale = routing.defaultLocale
     }
 
+    // During development, the generated pseudo-locale (`npm run i18n:pseudo`) can stand in for
+    // the default locale to reveal text that bypasses the message files.
+    const messagesFile = locale === routing.defaultLocale && process.env.I18N_PSEUDO_LOCALE === 'true'
+        ? PSEUDO_LOCALE
+        : locale
+
     return {
         locale,
         /**
@@ -32,6 +39,6 @@ export default getRequestConfig(async ({requestLocale}) => {
          *
          * Structure assumed: root/resources/messages/{locale}.json
          */
-        messages: (await import(`../../../resources/messages/${locale}.json`)).default,
+        messages: (await import(`../../../resources/messages/${messagesFile}.json`)).default,
     }
 })
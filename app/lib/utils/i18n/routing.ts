@@ -12,9 +12,9 @@ import {createNavigation} from 'next-intl/navigation'
 export const routing = defineRouting({
     /**
      * A list of all locales that are supported by the application.
-     * Currently supports English ('en').
+     * Currently supports English ('en') and Romanian ('ro').
      */
-    locales: ['en'],
+    locales: ['en', 'ro'],
 
     /**
      * The default locale used when:
@@ -49,3 +49,22 @@ export const {Link, redirect, usePathname, useRouter, getPathname} = createNavig
  * Derived automatically from `routing.locales`.
  */
 export type Locale = (typeof routing.locales)[number]
+
+/**
+ * Native names of the supported locales, shown in the language switcher.
+ */
+export const LOCALE_NAMES: Record<Locale, string> = {
+    en: 'English',
+    ro: 'Română',
+}
+
+/**
+ * Resolves a stored locale value (e.g. `User.locale`) to a supported locale.
+ * Falls back to the default locale for missing or no longer supported values.
+ *
+ * @param {string | null | undefined} locale - The stored locale.
+ * @returns {Locale} A supported locale.
+ */
+export function resolveLocale(locale: string | null | undefined): Locale {
+    return routing.locales.includes(locale as Locale) ? (locale as Locale) : routing.defaultLocale
+}
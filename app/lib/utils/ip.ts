@@ -34,3 +34,13 @@ export async function getClientIp(): Promise<string> {
 
     return 'unknown'
 }
+
+/**
+ * Retrieves the client's user agent from the request headers.
+ *
+ * @returns {Promise<string | null>} The user agent string or null if the header is missing.
+ */
+export async function getUserAgent(): Promise<string | null> {
+    const headersList = await headers()
+    return headersList.get('user-agent')
+}
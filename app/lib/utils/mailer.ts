@@ -0,0 +1,78 @@
+/** @format */
+import nodemailer, {Transporter} from 'nodemailer'
+import SMTPTransport from 'nodemailer/lib/smtp-transport'
+import {Config} from '@/lib/domain/config'
+import {
+    EMAIL_MAX_ATTEMPTS,
+    EMAIL_RETRY_BASE_DELAY_MS,
+    EMAIL_RETRY_MAX_DELAY_MS,
+    OutboundEmailStatus
+} from '@/lib/domain/email-outbox'
+
+/**
+ * Creates an SMTP transporter from the platform configuration.
+ * Port 465 uses implicit TLS, every other port upgrades with STARTTLS.
+ *
+ * @param {Config} config - Platform config with decrypted SMTP credentials.
+ * @returns {Transporter} The nodemailer transporter.
+ */
+export function createMailTransporter(config: Config): Transporter {
+    const isSecure = config.smtpPort === 465
+
+    // `family` (force IPv4) is passed on to the socket but missing from the typings
+    const options: SMTPTransport.Options & { family: number } = {
+        host: config.smtpHost,
+        port: config.smtpPort,
+        secure: isSecure,
+        auth: {
+            user: config.smtpUser,
+            pass: config.smtpPassword,
+        },
+        tls: {
+            ciphers: 'SSLv3',
+        },
+        family: 4,
+        connectionTimeout: 10000,
+        greetingTimeout: 10000,
+    }
+    return nodemailer.createTransport(options)
+}
+
+/**
+ * Formats the "From" header with a display label and the configured sender address.
+ *
+ * @param {Config} config - Platform config.
+ * @param {string} label - Display name shown to the recipient.
+ * @returns {string} The formatted address, e.g. `"Label" <noreply@example.com>`.
+ */
+export function formatFromAddress(config: Config, label: string): string {
+    const email = config.emailFrom || config.smtpUser || 'noreply@example.com'
+    return `"${label}" <${email}>`
+}
+
+/**
+ * Computes the delay before the next delivery attempt using exponential backoff.
+ *
+ * @param {number} attempts - Number of attempts made so far (at least 1).
+ * @returns {number} The delay in milliseconds, capped at {@link EMAIL_RETRY_MAX_DELAY_MS}.
+ */
+export function getRetryDelay(attempts: number): number {
+    const delay = EMAIL_RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1)
+    return Math.min(delay, EMAIL_RETRY_MAX_DELAY_MS)
+}
+
+/**
+ * Builds the outbox update recorded after a failed delivery attempt.
+ * The email is rescheduled until {@link EMAIL_MAX_ATTEMPTS} is reached, then marked as failed.
+ *
+ * @param {number} attempts - Number of attempts made so far, including the failed one.
+ * @param {unknown} error - The delivery error.
+ * @returns The status, error message and next attempt time to store.
+ */
+export function getFailedAttemptUpdate(attempts: number, error: unknown) {
+    return {
+        status: attempts >= EMAIL_MAX_ATTEMPTS ? OutboundEmailStatus.FAILED : OutboundEmailStatus.PENDING,
+        lastError: error instanceof Error ? error.message : String(error),
+        nextAttemptAt: new Date(Date.now() + getRetryDelay(attempts)),
+    }
+}
@@ -49,6 +49,26 @@ export const NAVIGATION_ITEMS: NavItem[] = [
         href: '/dashboard/administrator/projects',
         roles: [UserRole.ADMINISTRATOR]
     },
+    {
+        titleKey: 'emails',
+        href: '/dashboard/administrator/emails',
+        roles: [UserRole.ADMINISTRATOR]
+    },
+    {
+        titleKey: 'emailTemplates',
+        href: '/dashboard/administrator/email-templates',
+        roles: [UserRole.ADMINISTRATOR]
+    },
+    {
+        titleKey: 'audit',
+        href: '/dashboard/administrator/audit',
+        roles: [UserRole.ADMINISTRATOR]
+    },
+    {
+        titleKey: 'trash',
+        href: '/dashboard/administrator/trash',
+        roles: [UserRole.ADMINISTRATOR]
+    },
     {
         titleKey: 'projects',
         href: '/dashboard/projects',
@@ -64,11 +84,26 @@ export const NAVIGATION_ITEMS: NavItem[] = [
         href: '/dashboard/opportunities',
         roles: [UserRole.STUDENT, UserRole.COORDINATOR]
     },
+    {
+        titleKey: 'reviews',
+        href: '/dashboard/reviews',
+        roles: [UserRole.COORDINATOR]
+    },
+    {
+        titleKey: 'evaluations',
+        href: '/dashboard/evaluations',
+        roles: [UserRole.COORDINATOR]
+    },
     {
         titleKey: 'applications',
         href: '/dashboard/applications',
         roles: [UserRole.STUDENT]
     },
+    {
+        titleKey: 'devices',
+        href: '/dashboard/devices',
+        roles: [UserRole.STUDENT, UserRole.COORDINATOR, UserRole.ORGANIZATION, UserRole.ADMINISTRATOR]
+    },
     {
         titleKey: 'settings',
         href: '/dashboard/settings',
@@ -0,0 +1,230 @@
+/** @format */
+import {createHash, createPublicKey, randomBytes, verify, JsonWebKey} from 'crypto'
+
+/**
+ * Endpoints of an OpenID Connect provider, read from its discovery document.
+ */
+export type OidcProviderMetadata = {
+    issuer: string
+    authorization_endpoint: string
+    token_endpoint: string
+    jwks_uri: string
+    userinfo_endpoint?: string
+}
+
+/**
+ * Claims of a verified ID token used to identify and provision the user.
+ */
+export type OidcClaims = {
+    iss: string
+    sub: string
+    aud: string | string[]
+    exp: number
+    nonce?: string
+    email?: string
+    email_verified?: boolean
+    name?: string
+    given_name?: string
+    family_name?: string
+    preferred_username?: string
+}
+
+/**
+ * Tolerated clock difference with the provider when checking token expiry.
+ */
+const CLOCK_SKEW_SECONDS = 60
+
+/**
+ * Node.js digest names of the supported JWS signature algorithms.
+ */
+const SIGNATURE_DIGESTS: Record<string, string> = {
+    RS256: 'sha256',
+    RS384: 'sha384',
+    RS512: 'sha512',
+    ES256: 'sha256',
+    ES384: 'sha384',
+    ES512: 'sha512',
+}
+
+/**
+ * Encodes bytes as base64url without padding.
+ */
+function base64Url(buffer: Buffer): string {
+    return buffer.toString('base64url')
+}
+
+/**
+ * Builds the callback URL registered at the identity provider.
+ *
+ * @returns {string} The absolute redirect URI.
+ */
+export function getOidcRedirectUri(): string {
+    return `${process.env.APP_URL}/api/auth/oidc/callback`
+}
+
+/**
+ * Generates a random value for the `state` or `nonce` parameters.
+ *
+ * @returns {string} 32 random bytes, base64url-encoded.
+ */
+export function generateOidcRandom(): string {
+    return base64Url(randomBytes(32))
+}
+
+/**
+ * Derives the PKCE `S256` challenge of a code verifier.
+ *
+ * @param {string} codeVerifier - The verifier kept by the client.
+ * @returns {string} The challenge sent with the authorization request.
+ */
+export function createCodeChallenge(codeVerifier: string): string {
+    return base64Url(createHash('sha256').update(codeVerifier).digest())
+}
+
+/**
+ * Loads the discovery document of a provider.
+ *
+ * @param {string} issuer - The issuer URL configured by the administrator.
+ * @returns {Promise<OidcProviderMetadata>} The provider endpoints.
+ * @throws {Error} If the document cannot be loaded or belongs to another issuer.
+ */
+export async function discoverOidcProvider(issuer: string): Promise<OidcProviderMetadata> {
+    const normalizedIssuer = issuer.replace(/\/+$/, '')
+    const response = await fetch(`${normalizedIssuer}/.well-known/openid-configuration`, {cache: 'no-store'})
+    if (!response.ok) {
+        throw new Error(`OIDC discovery failed with status ${response.status}`)
+    }
+
+    const metadata = await response.json() as OidcProviderMetadata
+    if (metadata.issuer.replace(/\/+$/, '') !== normalizedIssuer) {
+        throw new Error(`OIDC discovery returned issuer ${metadata.issuer}, expected ${issuer}`)
+    }
+    return metadata
+}
+
+/**
+ * Builds the URL the browser is sent to for signing in at the provider (authorization code flow with PKCE).
+ *
+ * @param {OidcProviderMetadata} metadata - The provider endpoints.
+ * @param {object} params - Client ID, redirect URI and the per-login random values.
+ * @returns {string} The authorization URL.
+ */
+export function buildAuthorizationUrl(
+    metadata: OidcProviderMetadata,
+    params: { clientId: string; redirectUri: string; state: string; nonce: string; codeVerifier: string }
+): string {
+    const url = new URL(metadata.authorization_endpoint)
+    url.searchParams.set('response_type', 'code')
+    url.searchParams.set('client_id', params.clientId)
+    url.searchParams.set('redirect_uri', params.redirectUri)
+    url.searchParams.set('scope', 'openid email profile')
+    url.searchParams.set('state', params.state)
+    url.searchParams.set('nonce', params.nonce)
+    url.searchParams.set('code_challenge', createCodeChallenge(params.codeVerifier))
+    url.searchParams.set('code_challenge_method', 'S256')
+    return url.toString()
+}
+
+/**
+ * Exchanges an authorization code for tokens at the provider's token endpoint.
+ *
+ * @param {OidcProviderMetadata} metadata - The provider endpoints.
+ * @param {object} params - Client credentials, redirect URI, the received code and the PKCE verifier.
+ * @returns {Promise<string>} The raw ID token.
+ * @throws {Error} If the provider rejects the code or returns no ID token.
+ */
+export async function exchangeAuthorizationCode(
+    metadata: OidcProviderMetadata,
+    params: { clientId: string; clientSecret: string; redirectUri: string; code: string; codeVerifier: string }
+): Promise<string> {
+    const credentials = Buffer.from(
+        `${encodeURIComponent(params.clientId)}:${encodeURIComponent(params.clientSecret)}`
+    ).toString('base64')
+
+    const response = await fetch(metadata.token_endpoint, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'Authorization': `Basic ${credentials}`,
+        },
+        body: new URLSearchParams({
+            grant_type: 'authorization_code',
+            code: params.code,
+            redirect_uri: params.redirectUri,
+            code_verifier: params.codeVerifier,
+        }),
+        cache: 'no-store',
+    })
+
+    const body = await response.json().catch(() => ({}))
+    if (!response.ok) {
+        throw new Error(`OIDC token exchange failed: ${body.error || response.status}`)
+    }
+    if (typeof body.id_token !== 'string') {
+        throw new Error('OIDC token response contains no ID token')
+    }
+    return body.id_token
+}
+
+/**
+ * Verifies the signature and claims of an ID token.
+ *
+ * @param {OidcProviderMetadata} metadata - The provider endpoints; its JWKS holds the signing keys.
+ * @param {string} idToken - The raw ID token.
+ * @param {object} expected - The client ID (audience) and the nonce sent with the authorization request.
+ * @returns {Promise<OidcClaims>} The verified claims.
+ * @throws {Error} If the token is malformed, badly signed, expired or meant for another client or login.
+ */
+export async function verifyIdToken(
+    metadata: OidcProviderMetadata,
+    idToken: string,
+    expected: { clientId: string; nonce: string }
+): Promise<OidcClaims> {
+    const [encodedHeader, encodedPayload, encodedSignature] = idToken.split('.')
+    if (!encodedHeader || !encodedPayload || !encodedSignature) {
+        throw new Error('Malformed ID token')
+    }
+
+    const header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf8')) as { alg: string; kid?: string }
+    const digest = SIGNATURE_DIGESTS[header.alg]
+    if (!digest) {
+        throw new Error(`Unsupported ID token algorithm ${header.alg}`)
+    }
+
+    const jwksResponse = await fetch(metadata.jwks_uri, {cache: 'no-store'})
+    if (!jwksResponse.ok) {
+        throw new Error(`Loading the OIDC signing keys failed with status ${jwksResponse.status}`)
+    }
+    const {keys} = await jwksResponse.json() as { keys: (JsonWebKey & { kid?: string; use?: string })[] }
+    const jwk = keys.find((key) => (header.kid ? key.kid === header.kid : key.use !== 'enc'))
+    if (!jwk) {
+        throw new Error('No matching OIDC signing key')
+    }
+
+    const isValidSignature = verify(
+        digest,
+        Buffer.from(`${encodedHeader}.${encodedPayload}`),
+        {key: createPublicKey({key: jwk, format: 'jwk'}), dsaEncoding: 'ieee-p1363'},
+        Buffer.from(encodedSignature, 'base64url')
+    )
+    if (!isValidSignature) {
+        throw new Error('Invalid ID token signature')
+    }
+
+    const claims = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8')) as OidcClaims
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+
+    if (claims.iss !== metadata.issuer) {
+        throw new Error('ID token issuer mismatch')
+    }
+    if (!audiences.includes(expected.clientId)) {
+        throw new Error('ID token audience mismatch')
+    }
+    if (claims.exp + CLOCK_SKEW_SECONDS < Date.now() / 1000) {
+        throw new Error('ID token expired')
+    }
+    if (claims.nonce !== expected.nonce) {
+        throw new Error('ID token nonce mismatch')
+    }
+    return claims
+}
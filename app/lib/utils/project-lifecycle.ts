@@ -0,0 +1,119 @@
+/** @format */
+import {UserRole} from '@/lib/domain/user'
+import {ProjectStatus} from '@/lib/domain/project'
+
+/**
+ * Allowed project status transitions per role.
+ * Maps a role to the target statuses it may move a project to from each source status.
+ * Any transition not listed here is rejected.
+ */
+export const PROJECT_TRANSITIONS: Record<UserRole, Partial<Record<ProjectStatus, ProjectStatus[]>>> = {
+    [UserRole.STUDENT]: {},
+    [UserRole.ORGANIZATION]: {
+        [ProjectStatus.DRAFT]: [ProjectStatus.PENDING_REVIEW, ProjectStatus.ARCHIVED],
+        [ProjectStatus.PENDING_REVIEW]: [ProjectStatus.DRAFT],
+        [ProjectStatus.PUBLISHED]: [ProjectStatus.IN_PROGRESS],
+        [ProjectStatus.IN_PROGRESS]: [ProjectStatus.COMPLETED],
+        [ProjectStatus.COMPLETED]: [ProjectStatus.ARCHIVED],
+    },
+    [UserRole.COORDINATOR]: {
+        [ProjectStatus.COORDINATOR_ASSIGNED]: [ProjectStatus.PUBLISHED, ProjectStatus.DRAFT],
+    },
+    [UserRole.ADMINISTRATOR]: {
+        [ProjectStatus.DRAFT]: [ProjectStatus.PENDING_REVIEW, ProjectStatus.ARCHIVED],
+        [ProjectStatus.PENDING_REVIEW]: [ProjectStatus.COORDINATOR_ASSIGNED, ProjectStatus.DRAFT, ProjectStatus.ARCHIVED],
+        [ProjectStatus.COORDINATOR_ASSIGNED]: [ProjectStatus.PUBLISHED, ProjectStatus.DRAFT, ProjectStatus.ARCHIVED],
+        [ProjectStatus.PUBLISHED]: [ProjectStatus.IN_PROGRESS, ProjectStatus.DRAFT, ProjectStatus.ARCHIVED],
+        [ProjectStatus.IN_PROGRESS]: [ProjectStatus.COMPLETED, ProjectStatus.ARCHIVED],
+        [ProjectStatus.COMPLETED]: [ProjectStatus.ARCHIVED],
+    },
+}
+
+/**
+ * Error raised when a role attempts a project status transition that is not allowed.
+ * The message is the translation key; `from` and `to` are exposed for interpolation.
+ */
+export class ProjectTransitionError extends Error {
+    constructor(
+        readonly from: ProjectStatus,
+        readonly to: ProjectStatus,
+        readonly role: UserRole
+    ) {
+        super('errors.project.invalid_transition')
+        this.name = 'ProjectTransitionError'
+    }
+}
+
+/**
+ * Returns the statuses a role may move a project to from its current status.
+ *
+ * @param role - The role of the actor.
+ * @param from - The current project status.
+ * @returns The list of allowed target statuses.
+ */
+export function getAllowedProjectTransitions(role: UserRole, from: ProjectStatus): ProjectStatus[] {
+    return PROJECT_TRANSITIONS[role]?.[from] ?? []
+}
+
+/**
+ * Checks whether a role may move a project between two statuses.
+ *
+ * @param role - The role of the actor.
+ * @param from - The current project status.
+ * @param to - The requested project status.
+ * @returns True if the transition is allowed.
+ */
+export function canTransitionProject(role: UserRole, from: ProjectStatus, to: ProjectStatus): boolean {
+    return getAllowedProjectTransitions(role, from).includes(to)
+}
+
+/**
+ * Enforces that a role may move a project between two statuses.
+ *
+ * @param role - The role of the actor.
+ * @param from - The current project status.
+ * @param to - The requested project status.
+ * @throws {ProjectTransitionError} If the transition is not allowed.
+ */
+export function assertProjectTransition(role: UserRole, from: ProjectStatus, to: ProjectStatus): void {
+    if (!canTransitionProject(role, from, to)) {
+        throw new ProjectTransitionError(from, to, role)
+    }
+}
+
+/**
+ * Returns the lifecycle timestamps stamped when a project enters a status.
+ *
+ * @param to - The status the project is moving to.
+ * @param now - The moment of the transition.
+ * @returns The timestamp fields to persist alongside the status change.
+ */
+export function getProjectTransitionTimestamps(
+    to: ProjectStatus,
+    now: Date = new Date()
+): { publishedAt?: Date; startedAt?: Date; completedAt?: Date } {
+    switch (to) {
+        case ProjectStatus.PUBLISHED:
+            return {publishedAt: now}
+        case ProjectStatus.IN_PROGRESS:
+            return {startedAt: now}
+        case ProjectStatus.COMPLETED:
+            return {completedAt: now}
+        default:
+            return {}
+    }
+}
+
+/**
+ * Resolves a localized message for a project transition error.
+ *
+ * @param t - The translation function.
+ * @param error - The transition error.
+ * @returns The localized error message.
+ */
+export function getProjectTransitionErrorMessage(t: any, error: ProjectTransitionError): string {
+    return t(error.message, {
+        from: t(`errors.project.status.${error.from}`),
+        to: t(`errors.project.status.${error.to}`),
+    })
+}
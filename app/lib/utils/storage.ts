@@ -0,0 +1,228 @@
+/** @format */
+import {randomUUID} from 'node:crypto'
+import {mkdir, readFile, rm, writeFile} from 'node:fs/promises'
+import path from 'node:path'
+import {DeleteObjectCommand, GetObjectCommand, PutObjectCommand, S3Client} from '@aws-sdk/client-s3'
+import sharp from 'sharp'
+import {
+    ALLOWED_IMAGE_TYPES,
+    IMAGE_RULES,
+    ImageKind,
+    StorageDriver,
+    StoredFile
+} from '@/lib/domain/storage'
+
+/**
+ * Largest image, in pixels, that is decoded; protects against decompression bombs.
+ */
+const MAX_INPUT_PIXELS = 40_000_000
+
+/**
+ * Checks that a key is a plain relative path such as `avatars/<uuid>.webp`,
+ * so it cannot escape the storage root.
+ *
+ * @param {string} key - Key taken from a URL or the database.
+ * @returns {boolean} True if the key is safe to use.
+ */
+export function isValidStorageKey(key: string): boolean {
+    return /^[a-z0-9-]+(\/[a-z0-9-]+)*\.[a-z0-9]+$/i.test(key)
+}
+
+/**
+ * Generates a new, unguessable key for a file.
+ *
+ * @param {string} folder - Folder of the file, e.g. `avatars`.
+ * @param {string} extension - File extension without the dot.
+ * @returns {string} The key, e.g. `avatars/<uuid>.webp`.
+ */
+export function createStorageKey(folder: string, extension: string): string {
+    return `${folder}/${randomUUID()}.${extension}`
+}
+
+/**
+ * Stores files in a directory on the server's disk.
+ * The MIME type of each file is kept next to it in a `.meta.json` file.
+ */
+export class LocalStorageDriver implements StorageDriver {
+    private readonly root: string
+
+    /**
+     * @param root - Directory holding the files; created on first write.
+     */
+    constructor(root: string) {
+        this.root = path.resolve(root)
+    }
+
+    private resolve(key: string): string {
+        if (!isValidStorageKey(key)) {
+            throw new Error(`Invalid storage key: ${key}`)
+        }
+        return path.join(this.root, key)
+    }
+
+    async put(key: string, body: Buffer, contentType: string): Promise<void> {
+        const filePath = this.resolve(key)
+        await mkdir(path.dirname(filePath), {recursive: true})
+        await writeFile(filePath, body)
+        await writeFile(`${filePath}.meta.json`, JSON.stringify({contentType}))
+    }
+
+    async get(key: string): Promise<StoredFile | null> {
+        const filePath = this.resolve(key)
+        try {
+            const [body, meta] = await Promise.all([
+                readFile(filePath),
+                readFile(`${filePath}.meta.json`, 'utf8'),
+            ])
+            return {body, contentType: JSON.parse(meta).contentType}
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return null
+            }
+            throw error
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        const filePath = this.resolve(key)
+        await rm(filePath, {force: true})
+        await rm(`${filePath}.meta.json`, {force: true})
+    }
+}
+
+/**
+ * Connection settings of an S3-compatible bucket.
+ */
+export type S3StorageOptions = {
+    bucket: string
+    region: string
+    /** Endpoint of a non-AWS service such as MinIO, e.g. `http://localhost:9000` */
+    endpoint?: string
+    accessKeyId?: string
+    secretAccessKey?: string
+    /** Addresses the bucket in the path rather than the host name; required by MinIO */
+    forcePathStyle: boolean
+}
+
+/**
+ * Stores files in an S3-compatible bucket (AWS S3, MinIO, ...).
+ * Files are read through the application, so the bucket can stay private.
+ */
+export class S3StorageDriver implements StorageDriver {
+    private readonly client: S3Client
+    private readonly bucket: string
+
+    constructor(options: S3StorageOptions) {
+        this.bucket = options.bucket
+        this.client = new S3Client({
+            region: options.region,
+            endpoint: options.endpoint,
+            forcePathStyle: options.forcePathStyle,
+            credentials: options.accessKeyId && options.secretAccessKey
+                ? {accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey}
+                : undefined,
+        })
+    }
+
+    async put(key: string, body: Buffer, contentType: string): Promise<void> {
+        await this.client.send(new PutObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+            Body: body,
+            ContentType: contentType,
+        }))
+    }
+
+    async get(key: string): Promise<StoredFile | null> {
+        try {
+            const object = await this.client.send(new GetObjectCommand({Bucket: this.bucket, Key: key}))
+            if (!object.Body) {
+                return null
+            }
+            return {
+                body: Buffer.from(await object.Body.transformToByteArray()),
+                contentType: object.ContentType || 'application/octet-stream',
+            }
+        } catch (error) {
+            if ((error as Error).name === 'NoSuchKey') {
+                return null
+            }
+            throw error
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.client.send(new DeleteObjectCommand({Bucket: this.bucket, Key: key}))
+    }
+}
+
+/**
+ * Creates the driver selected by the `STORAGE_DRIVER` environment variable.
+ * The local disk is the default; `s3` reads the bucket settings from the `S3_*` variables.
+ *
+ * @returns {StorageDriver} The storage driver.
+ */
+export function createStorageDriver(): StorageDriver {
+    if (process.env.STORAGE_DRIVER === 's3') {
+        if (!process.env.S3_BUCKET) {
+            throw new Error('S3_BUCKET must be set when STORAGE_DRIVER is "s3"')
+        }
+        return new S3StorageDriver({
+            bucket: process.env.S3_BUCKET,
+            region: process.env.S3_REGION || 'us-east-1',
+            endpoint: process.env.S3_ENDPOINT || undefined,
+            accessKeyId: process.env.S3_ACCESS_KEY_ID,
+            secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+            forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+        })
+    }
+    return new LocalStorageDriver(process.env.STORAGE_LOCAL_DIR || 'storage')
+}
+
+/**
+ * An image converted for storage.
+ */
+export type ProcessedImage = {
+    body: Buffer
+    contentType: string
+    extension: string
+}
+
+/**
+ * Validates an uploaded image and resizes it for its kind.
+ * The format is detected from the file contents rather than the declared MIME type,
+ * the orientation is applied and metadata such as GPS position is dropped.
+ *
+ * @param {ImageKind} kind - Kind of image, selecting size and format.
+ * @param {Buffer} input - The uploaded file.
+ * @returns {Promise<ProcessedImage>} The image to store.
+ * @throws Error `storage.invalidImage` if the file cannot be decoded,
+ *         `storage.invalidType` if it is not an accepted format.
+ */
+export async function processImage(kind: ImageKind, input: Buffer): Promise<ProcessedImage> {
+    const rule = IMAGE_RULES[kind]
+    const image = sharp(input, {limitInputPixels: MAX_INPUT_PIXELS})
+
+    let format: string | undefined
+    try {
+        format = (await image.metadata()).format
+    } catch {
+        throw new Error('storage.invalidImage')
+    }
+    if (!ALLOWED_IMAGE_TYPES.some((type) => type === `image/${format}`)) {
+        throw new Error('storage.invalidType')
+    }
+
+    const resized = image
+        .rotate()
+        .resize({width: rule.width, height: rule.height, fit: rule.fit, withoutEnlargement: true})
+
+    try {
+        const body = rule.format === 'png'
+            ? await resized.png().toBuffer()
+            : await resized.webp({quality: 85}).toBuffer()
+        return {body, contentType: `image/${rule.format}`, extension: rule.format}
+    } catch {
+        throw new Error('storage.invalidImage')
+    }
+}
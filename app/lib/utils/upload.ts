@@ -0,0 +1,56 @@
+/** @format */
+import {ActionResponse} from '@/lib/domain/actions'
+import {ImageKind} from '@/lib/domain/storage'
+import {ProjectAttachmentWithUploader} from '@/lib/domain/project-attachment'
+
+/**
+ * Uploads an image from the browser to the upload route.
+ * The server validates and resizes the image; only the returned URL is saved on the record.
+ *
+ * @param {File} file - The selected image.
+ * @param {ImageKind} kind - Kind of image, selecting the size limit and output size.
+ * @returns {Promise<ActionResponse<{ url: string }>>} The URL of the stored image, or a localized error.
+ * @throws If the request does not reach the server.
+ */
+export async function uploadImageFile(file: File, kind: ImageKind): Promise<ActionResponse<{ url: string }>> {
+    const formData = new FormData()
+    formData.append('file', file)
+    formData.append('kind', kind)
+
+    const response = await fetch('/api/uploads', {method: 'POST', body: formData})
+    const body = await response.json()
+
+    if (!response.ok) {
+        return {success: false, error: body.error}
+    }
+    return {success: true, data: body}
+}
+
+/**
+ * Uploads a project material, or a deliverable when a completion is given, to the attachment route.
+ *
+ * @param {File} file - The selected file.
+ * @param {object} target - The project the material belongs to, or the completion the deliverable is handed in with.
+ * @returns {Promise<ActionResponse<ProjectAttachmentWithUploader>>} The created attachment, or a localized error.
+ * @throws If the request does not reach the server.
+ */
+export async function uploadAttachmentFile(
+    file: File,
+    target: { projectId: string } | { completionId: string }
+): Promise<ActionResponse<ProjectAttachmentWithUploader>> {
+    const formData = new FormData()
+    formData.append('file', file)
+    if ('completionId' in target) {
+        formData.append('completionId', target.completionId)
+    } else {
+        formData.append('projectId', target.projectId)
+    }
+
+    const response = await fetch('/api/attachments', {method: 'POST', body: formData})
+    const body = await response.json()
+
+    if (!response.ok) {
+        return {success: false, error: body.error}
+    }
+    return {success: true, data: body}
+}
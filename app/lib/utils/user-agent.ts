@@ -0,0 +1,52 @@
+/** @format */
+
+/**
+ * Browser and operating system recognized from a user agent string.
+ */
+export type DeviceDescription = {
+    browser: string | null;
+    os: string | null;
+    isMobile: boolean;
+};
+
+/**
+ * Browsers in detection order; Chromium-based browsers must be checked before Chrome and Safari.
+ */
+const BROWSERS: [RegExp, string][] = [
+    [/Edg(e|A|iOS)?\//, 'Edge'],
+    [/OPR\/|Opera/, 'Opera'],
+    [/SamsungBrowser\//, 'Samsung Internet'],
+    [/Firefox\/|FxiOS\//, 'Firefox'],
+    [/Chrome\/|CriOS\//, 'Chrome'],
+    [/Safari\//, 'Safari'],
+];
+
+/**
+ * Operating systems in detection order; Android and iOS must be checked before Linux and macOS.
+ */
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+    [/Android/, 'Android'],
+    [/iPhone|iPad|iPod/, 'iOS'],
+    [/Windows/, 'Windows'],
+    [/Mac OS X|Macintosh/, 'macOS'],
+    [/CrOS/, 'ChromeOS'],
+    [/Linux/, 'Linux'],
+];
+
+/**
+ * Describes the device behind a user agent string for display, e.g. on the devices page.
+ *
+ * @param {string | null} userAgent - The raw `User-Agent` header.
+ * @returns {DeviceDescription} The recognized browser and operating system, or null parts when unknown.
+ */
+export function describeUserAgent(userAgent: string | null): DeviceDescription {
+    if (!userAgent) {
+        return {browser: null, os: null, isMobile: false};
+    }
+
+    return {
+        browser: BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null,
+        os: OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null,
+        isMobile: /Mobi|Android|iPhone|iPad|iPod/.test(userAgent),
+    };
+}
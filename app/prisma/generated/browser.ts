@@ -0,0 +1,127 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file should be your main import to use Prisma-related types and utilities in a browser. 
+ * Use it to get access to models, enums, and input types.
+ * 
+ * This file does not contain a `PrismaClient` class, nor several other helpers that are intended as server-side only.
+ * See `client.ts` for the standard, server-side entry point.
+ *
+ * 🟢 You can import this file directly.
+ */
+
+import * as Prisma from './internal/prismaNamespaceBrowser'
+export { Prisma }
+export * as $Enums from './enums'
+export * from './enums';
+/**
+ * Model Config
+ * Global system settings. Only one row should exist with id="global_config".
+ */
+export type Config = Prisma.ConfigModel
+/**
+ * Model User
+ * Base user entity containing authentication and common profile data.
+ */
+export type User = Prisma.UserModel
+/**
+ * Model Student
+ * Profile for students seeking projects.
+ */
+export type Student = Prisma.StudentModel
+/**
+ * Model Coordinator
+ * Profile for university staff managing projects.
+ */
+export type Coordinator = Prisma.CoordinatorModel
+/**
+ * Model Organization
+ * Profile for external partners proposing projects.
+ */
+export type Organization = Prisma.OrganizationModel
+/**
+ * Model Administrator
+ * Profile for system administrators.
+ */
+export type Administrator = Prisma.AdministratorModel
+/**
+ * Model VerificationToken
+ * 
+ */
+export type VerificationToken = Prisma.VerificationTokenModel
+/**
+ * Model PasswordResetToken
+ * 
+ */
+export type PasswordResetToken = Prisma.PasswordResetTokenModel
+/**
+ * Model Session
+ * A signed-in device. The session cookie only references this row,
+ * so deleting it signs the device out immediately.
+ */
+export type Session = Prisma.SessionModel
+/**
+ * Model RateLimitBucket
+ * Request counter of one rate-limited token (e.g. "login:<ip>"), used by the PostgreSQL rate limit store.
+ */
+export type RateLimitBucket = Prisma.RateLimitBucketModel
+/**
+ * Model TwoFactorAuth
+ * TOTP two-factor authentication of a user. The row is created when enrollment starts
+ * and only protects sign-in once `enabledAt` is set.
+ */
+export type TwoFactorAuth = Prisma.TwoFactorAuthModel
+/**
+ * Model Project
+ * Represents a practical learning opportunity proposed by an Organization.
+ */
+export type Project = Prisma.ProjectModel
+/**
+ * Model Application
+ * A student's application to a specific project.
+ */
+export type Application = Prisma.ApplicationModel
+/**
+ * Model ProjectCompletion
+ * Final record of a student completing a project, including evaluations.
+ */
+export type ProjectCompletion = Prisma.ProjectCompletionModel
+/**
+ * Model ProjectAttachment
+ * File attached to a project: material shared with the team (brief, dataset, brand kit),
+ * or a student's deliverable when linked to a completion. The contents are kept in file storage.
+ */
+export type ProjectAttachment = Prisma.ProjectAttachmentModel
+/**
+ * Model Notification
+ * In-app record of an event the user was notified about.
+ * The message is rendered from the type's translation with `params` interpolated.
+ */
+export type Notification = Prisma.NotificationModel
+/**
+ * Model NotificationPreference
+ * How a user wants to be emailed about one kind of event.
+ * Event types without a stored preference are emailed immediately.
+ */
+export type NotificationPreference = Prisma.NotificationPreferenceModel
+/**
+ * Model OutboundEmail
+ * Rendered email waiting for, or done with, SMTP delivery.
+ * Failed attempts are retried with exponential backoff until the attempt limit is reached.
+ */
+export type OutboundEmail = Prisma.OutboundEmailModel
+/**
+ * Model EmailTemplate
+ * Administrator override of a built-in email template for one locale.
+ * Subject and HTML may contain `{{variable}}` placeholders filled in when the email is sent.
+ */
+export type EmailTemplate = Prisma.EmailTemplateModel
+/**
+ * Model AuditEvent
+ * Record of an administrative or lifecycle action, kept after the actor or target is deleted.
+ * Actor and target names are copied so the entry stays readable on its own.
+ */
+export type AuditEvent = Prisma.AuditEventModel
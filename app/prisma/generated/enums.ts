@@ -0,0 +1,181 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+* This file exports all enum related types from the schema.
+*
+* 🟢 You can import this file directly.
+*/
+
+export const UserRole = {
+  STUDENT: 'STUDENT',
+  COORDINATOR: 'COORDINATOR',
+  ORGANIZATION: 'ORGANIZATION',
+  ADMINISTRATOR: 'ADMINISTRATOR'
+} as const
+
+export type UserRole = (typeof UserRole)[keyof typeof UserRole]
+
+
+export const OrganizationType = {
+  NGO: 'NGO',
+  SMALL_BUSINESS: 'SMALL_BUSINESS',
+  STARTUP: 'STARTUP',
+  NON_PROFIT: 'NON_PROFIT',
+  SOCIAL_ENTERPRISE: 'SOCIAL_ENTERPRISE',
+  OTHER: 'OTHER'
+} as const
+
+export type OrganizationType = (typeof OrganizationType)[keyof typeof OrganizationType]
+
+
+export const ProjectStatus = {
+  DRAFT: 'DRAFT',
+  PENDING_REVIEW: 'PENDING_REVIEW',
+  COORDINATOR_ASSIGNED: 'COORDINATOR_ASSIGNED',
+  PUBLISHED: 'PUBLISHED',
+  IN_PROGRESS: 'IN_PROGRESS',
+  COMPLETED: 'COMPLETED',
+  ARCHIVED: 'ARCHIVED'
+} as const
+
+export type ProjectStatus = (typeof ProjectStatus)[keyof typeof ProjectStatus]
+
+
+export const ProjectCompletionStatus = {
+  DRAFT: 'DRAFT',
+  COORDINATOR_REVIEWED: 'COORDINATOR_REVIEWED',
+  ORGANIZATION_REVIEWED: 'ORGANIZATION_REVIEWED',
+  PUBLISHED: 'PUBLISHED',
+  ARCHIVED: 'ARCHIVED'
+} as const
+
+export type ProjectCompletionStatus = (typeof ProjectCompletionStatus)[keyof typeof ProjectCompletionStatus]
+
+
+export const ProjectCategory = {
+  DIGITALIZATION: 'DIGITALIZATION',
+  COMMUNICATION: 'COMMUNICATION',
+  RESEARCH: 'RESEARCH',
+  COMMUNITY_SERVICES: 'COMMUNITY_SERVICES',
+  MARKETING: 'MARKETING',
+  DESIGN: 'DESIGN',
+  SOFTWARE_DEVELOPMENT: 'SOFTWARE_DEVELOPMENT',
+  DATA_ANALYSIS: 'DATA_ANALYSIS',
+  EVENT_MANAGEMENT: 'EVENT_MANAGEMENT',
+  OTHER: 'OTHER'
+} as const
+
+export type ProjectCategory = (typeof ProjectCategory)[keyof typeof ProjectCategory]
+
+
+export const PerformanceRating = {
+  EXCELLENT: 'EXCELLENT',
+  VERY_GOOD: 'VERY_GOOD',
+  GOOD: 'GOOD',
+  SATISFACTORY: 'SATISFACTORY',
+  NEEDS_IMPROVEMENT: 'NEEDS_IMPROVEMENT'
+} as const
+
+export type PerformanceRating = (typeof PerformanceRating)[keyof typeof PerformanceRating]
+
+
+export const ApplicationStatus = {
+  PENDING: 'PENDING',
+  ACCEPTED: 'ACCEPTED',
+  REJECTED: 'REJECTED',
+  WITHDRAWN: 'WITHDRAWN'
+} as const
+
+export type ApplicationStatus = (typeof ApplicationStatus)[keyof typeof ApplicationStatus]
+
+
+export const NotificationType = {
+  ORGANIZATION_APPROVED: 'ORGANIZATION_APPROVED',
+  NEW_ORGANIZATION_SIGNUP: 'NEW_ORGANIZATION_SIGNUP',
+  APPLICATION_ACCEPTED: 'APPLICATION_ACCEPTED',
+  APPLICATION_REJECTED: 'APPLICATION_REJECTED',
+  PROJECT_ASSIGNED: 'PROJECT_ASSIGNED',
+  PROJECT_APPROVED: 'PROJECT_APPROVED',
+  PROJECT_CHANGES_REQUESTED: 'PROJECT_CHANGES_REQUESTED',
+  COORDINATOR_REVIEW_SUBMITTED: 'COORDINATOR_REVIEW_SUBMITTED',
+  ORGANIZATION_REVIEW_SUBMITTED: 'ORGANIZATION_REVIEW_SUBMITTED'
+} as const
+
+export type NotificationType = (typeof NotificationType)[keyof typeof NotificationType]
+
+
+export const NotificationDelivery = {
+  IMMEDIATE: 'IMMEDIATE',
+  DAILY_DIGEST: 'DAILY_DIGEST',
+  IN_APP_ONLY: 'IN_APP_ONLY'
+} as const
+
+export type NotificationDelivery = (typeof NotificationDelivery)[keyof typeof NotificationDelivery]
+
+
+export const OutboundEmailStatus = {
+  PENDING: 'PENDING',
+  SENDING: 'SENDING',
+  SENT: 'SENT',
+  FAILED: 'FAILED'
+} as const
+
+export type OutboundEmailStatus = (typeof OutboundEmailStatus)[keyof typeof OutboundEmailStatus]
+
+
+export const EmailTemplateKey = {
+  VERIFICATION: 'VERIFICATION',
+  WELCOME: 'WELCOME',
+  PASSWORD_RESET: 'PASSWORD_RESET',
+  ACCOUNT_SUSPENDED: 'ACCOUNT_SUSPENDED',
+  ORGANIZATION_APPROVED: 'ORGANIZATION_APPROVED',
+  ORGANIZATION_REJECTED: 'ORGANIZATION_REJECTED',
+  NEW_ORGANIZATION_SIGNUP: 'NEW_ORGANIZATION_SIGNUP',
+  COORDINATOR_REVIEW_SUBMITTED: 'COORDINATOR_REVIEW_SUBMITTED',
+  ORGANIZATION_REVIEW_SUBMITTED: 'ORGANIZATION_REVIEW_SUBMITTED',
+  APPLICATION_ACCEPTED: 'APPLICATION_ACCEPTED',
+  APPLICATION_REJECTED: 'APPLICATION_REJECTED',
+  PROJECT_ASSIGNED: 'PROJECT_ASSIGNED',
+  PROJECT_APPROVED: 'PROJECT_APPROVED',
+  PROJECT_CHANGES_REQUESTED: 'PROJECT_CHANGES_REQUESTED',
+  NOTIFICATION_DIGEST: 'NOTIFICATION_DIGEST'
+} as const
+
+export type EmailTemplateKey = (typeof EmailTemplateKey)[keyof typeof EmailTemplateKey]
+
+
+export const AuditAction = {
+  USER_SUSPENDED: 'USER_SUSPENDED',
+  USER_UNSUSPENDED: 'USER_UNSUSPENDED',
+  USER_DELETED: 'USER_DELETED',
+  USER_RESTORED: 'USER_RESTORED',
+  ORGANIZATION_VERIFIED: 'ORGANIZATION_VERIFIED',
+  ORGANIZATION_REJECTED: 'ORGANIZATION_REJECTED',
+  PROJECT_UPDATED: 'PROJECT_UPDATED',
+  PROJECT_STATUS_CHANGED: 'PROJECT_STATUS_CHANGED',
+  PROJECT_DELETED: 'PROJECT_DELETED',
+  PROJECT_RESTORED: 'PROJECT_RESTORED',
+  PROJECT_COMPLETION_UPDATED: 'PROJECT_COMPLETION_UPDATED',
+  PROJECT_COMPLETION_STATUS_CHANGED: 'PROJECT_COMPLETION_STATUS_CHANGED',
+  APPLICATION_ACCEPTED: 'APPLICATION_ACCEPTED',
+  APPLICATION_REJECTED: 'APPLICATION_REJECTED',
+  APPLICATION_WITHDRAWN: 'APPLICATION_WITHDRAWN',
+  CONFIG_UPDATED: 'CONFIG_UPDATED'
+} as const
+
+export type AuditAction = (typeof AuditAction)[keyof typeof AuditAction]
+
+
+export const AuditEntityType = {
+  USER: 'USER',
+  ORGANIZATION: 'ORGANIZATION',
+  PROJECT: 'PROJECT',
+  PROJECT_COMPLETION: 'PROJECT_COMPLETION',
+  APPLICATION: 'APPLICATION',
+  CONFIG: 'CONFIG'
+} as const
+
+export type AuditEntityType = (typeof AuditEntityType)[keyof typeof AuditEntityType]
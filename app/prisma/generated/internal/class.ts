@@ -0,0 +1,380 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * WARNING: This is an internal file that is subject to change!
+ *
+ * 🛑 Under no circumstances should you import this file directly! 🛑
+ *
+ * Please import the `PrismaClient` class from the `client.ts` file instead.
+ */
+
+import * as runtime from "@prisma/client/runtime/client"
+import type * as Prisma from "./prismaNamespace"
+
+
+const config: runtime.GetPrismaClientConfig = {
+  "previewFeatures": [],
+  "clientVersion": "7.1.0",
+  "engineVersion": "ab635e6b9d606fa5c8fb8b1a7f909c3c3c1c98ba",
+  "activeProvider": "postgresql",
+  "inlineSchema": "generator client {\n  provider = \"prisma-client\"\n  output   = \"../prisma/generated\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\n// ============================================================================\n// SYSTEM CONFIGURATION\n// ============================================================================\n\n/// Global system settings. Only one row should exist with id=\"global_config\".\nmodel Config {\n  id String @id @default(\"global_config\")\n\n  name        String\n  logo        String\n  themeColors Json\n\n  // SMTP Settings for system emails\n  smtpHost     String\n  smtpPort     Int\n  smtpUser     String\n  smtpPassword String\n  emailFrom    String\n\n  // Access Control Settings\n  allowPublicRegistration Boolean\n  studentEmailDomain      String? // e.g., \"@student.university.edu\"\n  staffEmailDomain        String? // e.g., \"@university.edu\"\n\n  /// Administrators and coordinators must enroll in two-factor authentication before using the dashboard.\n  requireStaffTwoFactor Boolean @default(false)\n\n  // Single sign-on through the university's OpenID Connect provider\n  oidcEnabled      Boolean @default(false)\n  oidcDisplayName  String? // e.g., \"University Account\"\n  oidcIssuer       String? // e.g., \"https://login.university.edu/realms/main\"\n  oidcClientId     String?\n  oidcClientSecret String? // Encrypted\n\n  /// Requests allowed per window for each rate limiter, e.g. { \"login\": { \"limit\": 5, \"windowMinutes\": 15 } }.\n  /// Missing limiters use the defaults in lib/domain/rate-limit.ts.\n  rateLimits Json?\n\n  /// Days a deleted user, organization or project stays in the trash before it is purged permanently.\n  trashRetentionDays Int @default(30)\n\n  updatedAt DateTime @updatedAt\n}\n\n// ============================================================================\n// ENUMS\n// ============================================================================\n\nenum UserRole {\n  STUDENT\n  COORDINATOR\n  ORGANIZATION\n  ADMINISTRATOR\n}\n\nenum OrganizationType {\n  NGO\n  SMALL_BUSINESS\n  STARTUP\n  NON_PROFIT\n  SOCIAL_ENTERPRISE\n  OTHER\n}\n\nenum ProjectStatus {\n  DRAFT\n  PENDING_REVIEW\n  COORDINATOR_ASSIGNED\n  PUBLISHED\n  IN_PROGRESS\n  COMPLETED\n  ARCHIVED\n}\n\nenum ProjectCompletionStatus {\n  DRAFT\n  COORDINATOR_REVIEWED\n  ORGANIZATION_REVIEWED\n  PUBLISHED\n  ARCHIVED\n}\n\nenum ProjectCategory {\n  DIGITALIZATION\n  COMMUNICATION\n  RESEARCH\n  COMMUNITY_SERVICES\n  MARKETING\n  DESIGN\n  SOFTWARE_DEVELOPMENT\n  DATA_ANALYSIS\n  EVENT_MANAGEMENT\n  OTHER\n}\n\nenum PerformanceRating {\n  EXCELLENT\n  VERY_GOOD\n  GOOD\n  SATISFACTORY\n  NEEDS_IMPROVEMENT\n}\n\nenum ApplicationStatus {\n  PENDING\n  ACCEPTED\n  REJECTED\n  WITHDRAWN\n}\n\nenum NotificationType {\n  ORGANIZATION_APPROVED\n  NEW_ORGANIZATION_SIGNUP\n  APPLICATION_ACCEPTED\n  APPLICATION_REJECTED\n  PROJECT_ASSIGNED\n  PROJECT_APPROVED\n  PROJECT_CHANGES_REQUESTED\n  COORDINATOR_REVIEW_SUBMITTED\n  ORGANIZATION_REVIEW_SUBMITTED\n}\n\nenum NotificationDelivery {\n  IMMEDIATE\n  DAILY_DIGEST\n  IN_APP_ONLY\n}\n\nenum OutboundEmailStatus {\n  PENDING\n  SENDING\n  SENT\n  FAILED\n}\n\nenum EmailTemplateKey {\n  VERIFICATION\n  WELCOME\n  PASSWORD_RESET\n  ACCOUNT_SUSPENDED\n  ORGANIZATION_APPROVED\n  ORGANIZATION_REJECTED\n  NEW_ORGANIZATION_SIGNUP\n  COORDINATOR_REVIEW_SUBMITTED\n  ORGANIZATION_REVIEW_SUBMITTED\n  APPLICATION_ACCEPTED\n  APPLICATION_REJECTED\n  PROJECT_ASSIGNED\n  PROJECT_APPROVED\n  PROJECT_CHANGES_REQUESTED\n  NOTIFICATION_DIGEST\n}\n\nenum AuditAction {\n  USER_SUSPENDED\n  USER_UNSUSPENDED\n  USER_DELETED\n  USER_RESTORED\n  ORGANIZATION_VERIFIED\n  ORGANIZATION_REJECTED\n  PROJECT_UPDATED\n  PROJECT_STATUS_CHANGED\n  PROJECT_DELETED\n  PROJECT_RESTORED\n  PROJECT_COMPLETION_UPDATED\n  PROJECT_COMPLETION_STATUS_CHANGED\n  APPLICATION_ACCEPTED\n  APPLICATION_REJECTED\n  APPLICATION_WITHDRAWN\n  CONFIG_UPDATED\n}\n\nenum AuditEntityType {\n  USER\n  ORGANIZATION\n  PROJECT\n  PROJECT_COMPLETION\n  APPLICATION\n  CONFIG\n}\n\n// ============================================================================\n// USER MANAGEMENT\n// ============================================================================\n\n/// Base user entity containing authentication and common profile data.\nmodel User {\n  id             String    @id @default(cuid())\n  email          String    @unique\n  emailVerified  DateTime?\n  hashedPassword String?\n  role           UserRole\n\n  name              String\n  profilePictureUrl String?\n  bio               String? @db.Text\n\n  isSuspended Boolean @default(false)\n\n  /// Subject identifier at the OpenID Connect provider, set on the first single sign-on.\n  oidcSubject String? @unique\n\n  /// Preferred language of the interface and of the emails sent to the user.\n  locale String @default(\"en\")\n\n  // Security tokens\n  verificationTokens  VerificationToken[]\n  passwordResetTokens PasswordResetToken[]\n\n  // Signed-in devices\n  sessions Session[]\n\n  // Two-factor authentication\n  twoFactorAuth TwoFactorAuth?\n\n  // In-app notifications\n  notifications           Notification[]\n  notificationPreferences NotificationPreference[]\n\n  // Files uploaded to projects\n  projectAttachments ProjectAttachment[]\n\n  // Administrative and lifecycle actions performed by the user\n  auditEvents AuditEvent[]\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  /// Set when the account is moved to the trash. Hidden from every query until restored or purged.\n  deletedAt DateTime?\n\n  // Role-specific profiles (1:1 relations)\n  student       Student?\n  coordinator   Coordinator?\n  organization  Organization?\n  administrator Administrator?\n\n  @@index([email])\n  @@index([role])\n  @@index([deletedAt])\n  @@map(\"users\")\n}\n\n/// Profile for students seeking projects.\nmodel Student {\n  id     String @id @default(cuid())\n  userId String @unique\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  studyProgram String?\n  yearOfStudy  Int?\n\n  skills      String[]\n  interests   String[]\n  linkedinUrl String?\n\n  // Public portfolio built from published completions\n  isPortfolioPublic Boolean @default(true)\n\n  // Relations\n  applications       Application[]\n  projectCompletions ProjectCompletion[]\n\n  @@index([userId])\n  @@index([studyProgram])\n  @@map(\"students\")\n}\n\n/// Profile for university staff managing projects.\nmodel Coordinator {\n  id     String @id @default(cuid())\n  userId String @unique\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  department       String?\n  title            String?\n  areasOfExpertise String[]\n\n  // Relations\n  projects Project[] @relation(\"CoordinatorProjects\")\n\n  @@index([userId])\n  @@index([department])\n  @@map(\"coordinators\")\n}\n\n/// Profile for external partners proposing projects.\nmodel Organization {\n  id     String @id @default(cuid())\n  userId String @unique\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  type OrganizationType @default(OTHER)\n\n  // Contact details specific to the organization entity\n  contactPerson String?\n  contactEmail  String?\n  contactPhone  String?\n  websiteUrl    String?\n  facebookUrl   String?\n\n  // Location\n  address String?\n  city    String?\n  country String?\n\n  // Verification status (Approved by Admin)\n  isVerified Boolean   @default(false)\n  verifiedAt DateTime?\n\n  /// Set together with the account when the organization is moved to the trash.\n  deletedAt DateTime?\n\n  // Relations\n  projects Project[]\n\n  @@index([userId])\n  @@index([isVerified])\n  @@index([type])\n  @@index([deletedAt])\n  @@map(\"organizations\")\n}\n\n/// Profile for system administrators.\nmodel Administrator {\n  id     String @id @default(cuid())\n  userId String @unique\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@index([userId])\n  @@map(\"administrators\")\n}\n\n// ============================================================================\n// SECURITY TOKENS\n// ============================================================================\n\nmodel VerificationToken {\n  id        String   @id @default(cuid())\n  userId    String\n  token     String   @unique\n  expiresAt DateTime\n  createdAt DateTime @default(now())\n\n  user User @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@index([userId])\n  @@index([token])\n}\n\nmodel PasswordResetToken {\n  id        String   @id @default(cuid())\n  userId    String\n  token     String   @unique\n  expiresAt DateTime\n  createdAt DateTime @default(now())\n\n  user User @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@index([userId])\n  @@index([token])\n  @@map(\"password_reset_tokens\")\n}\n\n/// A signed-in device. The session cookie only references this row,\n/// so deleting it signs the device out immediately.\nmodel Session {\n  id     String @id @default(cuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // Device details shown on the devices page\n  ipAddress String?\n  userAgent String? @db.Text\n\n  lastActiveAt DateTime @default(now())\n  expiresAt    DateTime\n  createdAt    DateTime @default(now())\n\n  @@index([userId])\n  @@index([expiresAt])\n  @@map(\"sessions\")\n}\n\n/// Request counter of one rate-limited token (e.g. \"login:<ip>\"), used by the PostgreSQL rate limit store.\nmodel RateLimitBucket {\n  token   String   @id\n  count   Int\n  resetAt DateTime\n\n  @@index([resetAt])\n  @@map(\"rate_limits\")\n}\n\n/// TOTP two-factor authentication of a user. The row is created when enrollment starts\n/// and only protects sign-in once `enabledAt` is set.\nmodel TwoFactorAuth {\n  id     String @id @default(cuid())\n  userId String @unique\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // Shared secret, encrypted with the platform key\n  secret String\n\n  // SHA-256 hashes of the unused recovery codes\n  recoveryCodes String[] @default([])\n\n  // Time step of the last accepted code, so a code cannot be replayed\n  lastUsedStep Int?\n\n  enabledAt DateTime?\n  createdAt DateTime  @default(now())\n  updatedAt DateTime  @updatedAt\n\n  @@map(\"two_factor_auth\")\n}\n\n// ============================================================================\n// PROJECT DOMAIN\n// ============================================================================\n\n/// Represents a practical learning opportunity proposed by an Organization.\nmodel Project {\n  id String @id @default(cuid())\n\n  title       String\n  description String          @db.Text\n  category    ProjectCategory\n\n  // Requirements\n  requiredSkills         String[]\n  estimatedHoursPerWeek  Int?\n  estimatedDurationWeeks Int?\n  numberOfStudents       Int      @default(1)\n\n  // Lifecycle\n  status          ProjectStatus @default(DRAFT)\n  rejectionReason String?       @db.Text\n\n  // Relations\n  organizationId String\n  organization   Organization @relation(fields: [organizationId], references: [id], onDelete: Cascade)\n  coordinatorId  String?\n  coordinator    Coordinator? @relation(\"CoordinatorProjects\", fields: [coordinatorId], references: [id], onDelete: SetNull)\n\n  createdAt   DateTime  @default(now())\n  updatedAt   DateTime  @updatedAt\n  publishedAt DateTime?\n  startedAt   DateTime?\n  completedAt DateTime?\n\n  /// Set when the project is moved to the trash. Hidden from every query until restored or purged.\n  deletedAt DateTime?\n\n  applications Application[]\n  completions  ProjectCompletion[]\n  attachments  ProjectAttachment[]\n\n  @@index([organizationId])\n  @@index([coordinatorId])\n  @@index([status])\n  @@index([category])\n  @@index([createdAt])\n  @@index([deletedAt])\n  @@map(\"projects\")\n}\n\n/// A student's application to a specific project.\nmodel Application {\n  id String @id @default(cuid())\n\n  studentId String\n  student   Student @relation(fields: [studentId], references: [id], onDelete: Cascade)\n\n  projectId String\n  project   Project @relation(fields: [projectId], references: [id], onDelete: Cascade)\n\n  motivationStatement String            @db.Text\n  status              ApplicationStatus @default(PENDING)\n\n  // Review details\n  reviewedBy      String?\n  reviewedAt      DateTime?\n  rejectionReason String?   @db.Text\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@unique([studentId, projectId])\n  @@index([studentId])\n  @@index([projectId])\n  @@index([status])\n  @@map(\"applications\")\n}\n\n/// Final record of a student completing a project, including evaluations.\nmodel ProjectCompletion {\n  id String @id @default(cuid())\n\n  projectId String\n  project   Project @relation(fields: [projectId], references: [id], onDelete: Cascade)\n\n  studentId String\n  student   Student @relation(fields: [studentId], references: [id], onDelete: Cascade)\n\n  // Student's Output\n  roleDescription     String   @db.Text\n  keyAchievements     String[]\n  skillsDeveloped     String[]\n  actualHoursWorked   Int?\n  actualDurationWeeks Int?\n\n  // Academic Evaluation (by Coordinator), filled in once the student's draft is reviewed\n  coordinatorPerformanceRating PerformanceRating?\n  coordinatorWrittenEvaluation String?            @db.Text\n\n  // Partner Evaluation (by Organization), filled in after the coordinator's review\n  organizationPerformanceRating PerformanceRating?\n  organizationWrittenEvaluation String?            @db.Text\n\n  status               ProjectCompletionStatus @default(DRAFT)\n  isVisibleInPortfolio Boolean                 @default(true)\n\n  // Printed on the certificate so third parties can confirm its authenticity\n  verificationCode String? @unique\n\n  completedAt DateTime @default(now())\n  createdAt   DateTime @default(now())\n  updatedAt   DateTime @updatedAt\n\n  // Files handed in by the student with the report\n  deliverables ProjectAttachment[]\n\n  @@unique([projectId, studentId])\n  @@index([studentId])\n  @@index([projectId])\n  @@index([completedAt])\n  @@map(\"project_completions\")\n}\n\n/// File attached to a project: material shared with the team (brief, dataset, brand kit),\n/// or a student's deliverable when linked to a completion. The contents are kept in file storage.\nmodel ProjectAttachment {\n  id String @id @default(cuid())\n\n  projectId String\n  project   Project @relation(fields: [projectId], references: [id], onDelete: Cascade)\n\n  // Set for deliverables handed in with a completion report\n  projectCompletionId String?\n  projectCompletion   ProjectCompletion? @relation(fields: [projectCompletionId], references: [id], onDelete: Cascade)\n\n  uploadedById String?\n  uploadedBy   User?   @relation(fields: [uploadedById], references: [id], onDelete: SetNull)\n\n  fileName    String\n  contentType String\n  size        Int\n  storageKey  String @unique\n\n  createdAt DateTime @default(now())\n\n  @@index([projectId])\n  @@index([projectCompletionId])\n  @@map(\"project_attachments\")\n}\n\n// ============================================================================\n// NOTIFICATIONS\n// ============================================================================\n\n/// In-app record of an event the user was notified about.\n/// The message is rendered from the type's translation with `params` interpolated.\nmodel Notification {\n  id     String @id @default(cuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  type   NotificationType\n  params Json             @default(\"{}\")\n  link   String?\n\n  readAt    DateTime?\n  createdAt DateTime  @default(now())\n\n  // Set when the recipient chose the daily digest; cleared once the digest email is sent\n  pendingDigest Boolean @default(false)\n\n  @@index([userId, readAt])\n  @@index([createdAt])\n  @@index([pendingDigest])\n  @@map(\"notifications\")\n}\n\n/// How a user wants to be emailed about one kind of event.\n/// Event types without a stored preference are emailed immediately.\nmodel NotificationPreference {\n  id     String @id @default(cuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  type     NotificationType\n  delivery NotificationDelivery @default(IMMEDIATE)\n\n  updatedAt DateTime @updatedAt\n\n  @@unique([userId, type])\n  @@map(\"notification_preferences\")\n}\n\n// ============================================================================\n// EMAIL OUTBOX\n// ============================================================================\n\n/// Rendered email waiting for, or done with, SMTP delivery.\n/// Failed attempts are retried with exponential backoff until the attempt limit is reached.\nmodel OutboundEmail {\n  id String @id @default(cuid())\n\n  from    String\n  to      String\n  subject String\n  html    String @db.Text\n\n  /// Template the email was rendered from; emails of single-use link templates are never resent.\n  templateKey EmailTemplateKey?\n\n  status        OutboundEmailStatus @default(PENDING)\n  attempts      Int                 @default(0)\n  lastError     String?             @db.Text\n  nextAttemptAt DateTime            @default(now())\n  sentAt        DateTime?\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@index([status, nextAttemptAt])\n  @@index([createdAt])\n  @@map(\"email_outbox\")\n}\n\n/// Administrator override of a built-in email template for one locale.\n/// Subject and HTML may contain `{{variable}}` placeholders filled in when the email is sent.\nmodel EmailTemplate {\n  id String @id @default(cuid())\n\n  key    EmailTemplateKey\n  locale String\n\n  subject String\n  html    String @db.Text\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@unique([key, locale])\n  @@map(\"email_templates\")\n}\n\n// ============================================================================\n// AUDIT LOG\n// ============================================================================\n\n/// Record of an administrative or lifecycle action, kept after the actor or target is deleted.\n/// Actor and target names are copied so the entry stays readable on its own.\nmodel AuditEvent {\n  id     String      @id @default(cuid())\n  action AuditAction\n\n  // Null for actions without a signed-in user (e.g. scheduled jobs)\n  actorId    String?\n  actor      User?   @relation(fields: [actorId], references: [id], onDelete: SetNull)\n  actorName  String?\n  actorEmail String?\n\n  entityType  AuditEntityType\n  entityId    String\n  entityLabel String?\n\n  /// Changed fields, e.g. { \"status\": { \"from\": \"PUBLISHED\", \"to\": \"ARCHIVED\" } }.\n  changes  Json?\n  /// Further details such as the reason given for a suspension.\n  metadata Json?\n\n  ipAddress String?\n  createdAt DateTime @default(now())\n\n  @@index([actorId])\n  @@index([entityType, entityId])\n  @@index([createdAt])\n  @@map(\"audit_events\")\n}\n",
+  "runtimeDataModel": {
+    "models": {},
+    "enums": {},
+    "types": {}
+  }
+}
+
+config.runtimeDataModel = JSON.parse("{\"models\":{\"Config\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"logo\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"themeColors\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"smtpHost\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"smtpPort\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"smtpUser\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"smtpPassword\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"emailFrom\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"allowPublicRegistration\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"studentEmailDomain\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"staffEmailDomain\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"requireStaffTwoFactor\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"oidcEnabled\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"oidcDisplayName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"oidcIssuer\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"oidcClientId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"oidcClientSecret\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rateLimits\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"trashRetentionDays\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"emailVerified\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"hashedPassword\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"UserRole\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"profilePictureUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bio\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isSuspended\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"oidcSubject\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"locale\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"verificationTokens\",\"kind\":\"object\",\"type\":\"VerificationToken\",\"relationName\":\"UserToVerificationToken\"},{\"name\":\"passwordResetTokens\",\"kind\":\"object\",\"type\":\"PasswordResetToken\",\"relationName\":\"PasswordResetTokenToUser\"},{\"name\":\"sessions\",\"kind\":\"object\",\"type\":\"Session\",\"relationName\":\"SessionToUser\"},{\"name\":\"twoFactorAuth\",\"kind\":\"object\",\"type\":\"TwoFactorAuth\",\"relationName\":\"TwoFactorAuthToUser\"},{\"name\":\"notifications\",\"kind\":\"object\",\"type\":\"Notification\",\"relationName\":\"NotificationToUser\"},{\"name\":\"notificationPreferences\",\"kind\":\"object\",\"type\":\"NotificationPreference\",\"relationName\":\"NotificationPreferenceToUser\"},{\"name\":\"projectAttachments\",\"kind\":\"object\",\"type\":\"ProjectAttachment\",\"relationName\":\"ProjectAttachmentToUser\"},{\"name\":\"auditEvents\",\"kind\":\"object\",\"type\":\"AuditEvent\",\"relationName\":\"AuditEventToUser\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"student\",\"kind\":\"object\",\"type\":\"Student\",\"relationName\":\"StudentToUser\"},{\"name\":\"coordinator\",\"kind\":\"object\",\"type\":\"Coordinator\",\"relationName\":\"CoordinatorToUser\"},{\"name\":\"organization\",\"kind\":\"object\",\"type\":\"Organization\",\"relationName\":\"OrganizationToUser\"},{\"name\":\"administrator\",\"kind\":\"object\",\"type\":\"Administrator\",\"relationName\":\"AdministratorToUser\"}],\"dbName\":\"users\"},\"Student\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"StudentToUser\"},{\"name\":\"studyProgram\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"yearOfStudy\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"skills\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"interests\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"linkedinUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isPortfolioPublic\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"applications\",\"kind\":\"object\",\"type\":\"Application\",\"relationName\":\"ApplicationToStudent\"},{\"name\":\"projectCompletions\",\"kind\":\"object\",\"type\":\"ProjectCompletion\",\"relationName\":\"ProjectCompletionToStudent\"}],\"dbName\":\"students\"},\"Coordinator\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"CoordinatorToUser\"},{\"name\":\"department\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"areasOfExpertise\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"projects\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"CoordinatorProjects\"}],\"dbName\":\"coordinators\"},\"Organization\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"OrganizationToUser\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"OrganizationType\"},{\"name\":\"contactPerson\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contactEmail\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contactPhone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"websiteUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"facebookUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"address\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"city\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"country\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isVerified\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"verifiedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"projects\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"OrganizationToProject\"}],\"dbName\":\"organizations\"},\"Administrator\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AdministratorToUser\"}],\"dbName\":\"administrators\"},\"VerificationToken\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"UserToVerificationToken\"}],\"dbName\":null},\"PasswordResetToken\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"PasswordResetTokenToUser\"}],\"dbName\":\"password_reset_tokens\"},\"Session\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SessionToUser\"},{\"name\":\"ipAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userAgent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastActiveAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"sessions\"},\"RateLimitBucket\":{\"fields\":[{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"count\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"resetAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"rate_limits\"},\"TwoFactorAuth\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TwoFactorAuthToUser\"},{\"name\":\"secret\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"recoveryCodes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastUsedStep\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"enabledAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"two_factor_auth\"},\"Project\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"category\",\"kind\":\"enum\",\"type\":\"ProjectCategory\"},{\"name\":\"requiredSkills\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"estimatedHoursPerWeek\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"estimatedDurationWeeks\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"numberOfStudents\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"ProjectStatus\"},{\"name\":\"rejectionReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"organizationId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"organization\",\"kind\":\"object\",\"type\":\"Organization\",\"relationName\":\"OrganizationToProject\"},{\"name\":\"coordinatorId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"coordinator\",\"kind\":\"object\",\"type\":\"Coordinator\",\"relationName\":\"CoordinatorProjects\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"publishedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"startedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"completedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"applications\",\"kind\":\"object\",\"type\":\"Application\",\"relationName\":\"ApplicationToProject\"},{\"name\":\"completions\",\"kind\":\"object\",\"type\":\"ProjectCompletion\",\"relationName\":\"ProjectToProjectCompletion\"},{\"name\":\"attachments\",\"kind\":\"object\",\"type\":\"ProjectAttachment\",\"relationName\":\"ProjectToProjectAttachment\"}],\"dbName\":\"projects\"},\"Application\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"studentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"student\",\"kind\":\"object\",\"type\":\"Student\",\"relationName\":\"ApplicationToStudent\"},{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"project\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ApplicationToProject\"},{\"name\":\"motivationStatement\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"ApplicationStatus\"},{\"name\":\"reviewedBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reviewedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"rejectionReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"applications\"},\"ProjectCompletion\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"project\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToProjectCompletion\"},{\"name\":\"studentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"student\",\"kind\":\"object\",\"type\":\"Student\",\"relationName\":\"ProjectCompletionToStudent\"},{\"name\":\"roleDescription\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"keyAchievements\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"skillsDeveloped\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"actualHoursWorked\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"actualDurationWeeks\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"coordinatorPerformanceRating\",\"kind\":\"enum\",\"type\":\"PerformanceRating\"},{\"name\":\"coordinatorWrittenEvaluation\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"organizationPerformanceRating\",\"kind\":\"enum\",\"type\":\"PerformanceRating\"},{\"name\":\"organizationWrittenEvaluation\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"ProjectCompletionStatus\"},{\"name\":\"isVisibleInPortfolio\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"verificationCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"completedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deliverables\",\"kind\":\"object\",\"type\":\"ProjectAttachment\",\"relationName\":\"ProjectAttachmentToProjectCompletion\"}],\"dbName\":\"project_completions\"},\"ProjectAttachment\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"projectId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"project\",\"kind\":\"object\",\"type\":\"Project\",\"relationName\":\"ProjectToProjectAttachment\"},{\"name\":\"projectCompletionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"projectCompletion\",\"kind\":\"object\",\"type\":\"ProjectCompletion\",\"relationName\":\"ProjectAttachmentToProjectCompletion\"},{\"name\":\"uploadedById\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"uploadedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"ProjectAttachmentToUser\"},{\"name\":\"fileName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contentType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"size\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"storageKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"project_attachments\"},\"Notification\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"NotificationToUser\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"NotificationType\"},{\"name\":\"params\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"link\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"readAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"pendingDigest\",\"kind\":\"scalar\",\"type\":\"Boolean\"}],\"dbName\":\"notifications\"},\"NotificationPreference\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"NotificationPreferenceToUser\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"NotificationType\"},{\"name\":\"delivery\",\"kind\":\"enum\",\"type\":\"NotificationDelivery\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"notification_preferences\"},\"OutboundEmail\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"from\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"to\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"subject\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"html\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"templateKey\",\"kind\":\"enum\",\"type\":\"EmailTemplateKey\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"OutboundEmailStatus\"},{\"name\":\"attempts\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lastError\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nextAttemptAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"sentAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"email_outbox\"},\"EmailTemplate\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"key\",\"kind\":\"enum\",\"type\":\"EmailTemplateKey\"},{\"name\":\"locale\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"subject\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"html\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"email_templates\"},\"AuditEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"action\",\"kind\":\"enum\",\"type\":\"AuditAction\"},{\"name\":\"actorId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"actor\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AuditEventToUser\"},{\"name\":\"actorName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"actorEmail\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"entityType\",\"kind\":\"enum\",\"type\":\"AuditEntityType\"},{\"name\":\"entityId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"entityLabel\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"changes\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"ipAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"audit_events\"}},\"enums\":{},\"types\":{}}")
+
+async function decodeBase64AsWasm(wasmBase64: string): Promise<WebAssembly.Module> {
+  const { Buffer } = await import('node:buffer')
+  const wasmArray = Buffer.from(wasmBase64, 'base64')
+  return new WebAssembly.Module(wasmArray)
+}
+
+config.compilerWasm = {
+  getRuntime: async () => await import("@prisma/client/runtime/query_compiler_bg.postgresql.mjs"),
+
+  getQueryCompilerWasmModule: async () => {
+    const { wasm } = await import("@prisma/client/runtime/query_compiler_bg.postgresql.wasm-base64.mjs")
+    return await decodeBase64AsWasm(wasm)
+  }
+}
+
+
+
+export type LogOptions<ClientOptions extends Prisma.PrismaClientOptions> =
+  'log' extends keyof ClientOptions ? ClientOptions['log'] extends Array<Prisma.LogLevel | Prisma.LogDefinition> ? Prisma.GetEvents<ClientOptions['log']> : never : never
+
+export interface PrismaClientConstructor {
+    /**
+   * ## Prisma Client
+   * 
+   * Type-safe database client for TypeScript
+   * @example
+   * ```
+   * const prisma = new PrismaClient()
+   * // Fetch zero or more Configs
+   * const configs = await prisma.config.findMany()
+   * ```
+   * 
+   * Read more in our [docs](https://pris.ly/d/client).
+   */
+
+  new <
+    Options extends Prisma.PrismaClientOptions = Prisma.PrismaClientOptions,
+    LogOpts extends LogOptions<Options> = LogOptions<Options>,
+    OmitOpts extends Prisma.PrismaClientOptions['omit'] = Options extends { omit: infer U } ? U : Prisma.PrismaClientOptions['omit'],
+    ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+  >(options: Prisma.Subset<Options, Prisma.PrismaClientOptions> ): PrismaClient<LogOpts, OmitOpts, ExtArgs>
+}
+
+/**
+ * ## Prisma Client
+ * 
+ * Type-safe database client for TypeScript
+ * @example
+ * ```
+ * const prisma = new PrismaClient()
+ * // Fetch zero or more Configs
+ * const configs = await prisma.config.findMany()
+ * ```
+ * 
+ * Read more in our [docs](https://pris.ly/d/client).
+ */
+
+export interface PrismaClient<
+  in LogOpts extends Prisma.LogLevel = never,
+  in out OmitOpts extends Prisma.PrismaClientOptions['omit'] = undefined,
+  in out ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['other'] }
+
+  $on<V extends LogOpts>(eventType: V, callback: (event: V extends 'query' ? Prisma.QueryEvent : Prisma.LogEvent) => void): PrismaClient;
+
+  /**
+   * Connect with the database
+   */
+  $connect(): runtime.Types.Utils.JsPromise<void>;
+
+  /**
+   * Disconnect from the database
+   */
+  $disconnect(): runtime.Types.Utils.JsPromise<void>;
+
+/**
+   * Executes a prepared raw query and returns the number of affected rows.
+   * @example
+   * ```
+   * const result = await prisma.$executeRaw`UPDATE User SET cool = ${true} WHERE email = ${'user@email.com'};`
+   * ```
+   *
+   * Read more in our [docs](https://pris.ly/d/raw-queries).
+   */
+  $executeRaw<T = unknown>(query: TemplateStringsArray | Prisma.Sql, ...values: any[]): Prisma.PrismaPromise<number>;
+
+  /**
+   * Executes a raw query and returns the number of affected rows.
+   * Susceptible to SQL injections, see documentation.
+   * @example
+   * ```
+   * const result = await prisma.$executeRawUnsafe('UPDATE User SET cool = $1 WHERE email = $2 ;', true, 'user@email.com')
+   * ```
+   *
+   * Read more in our [docs](https://pris.ly/d/raw-queries).
+   */
+  $executeRawUnsafe<T = unknown>(query: string, ...values: any[]): Prisma.PrismaPromise<number>;
+
+  /**
+   * Performs a prepared raw query and returns the `SELECT` data.
+   * @example
+   * ```
+   * const result = await prisma.$queryRaw`SELECT * FROM User WHERE id = ${1} OR email = ${'user@email.com'};`
+   * ```
+   *
+   * Read more in our [docs](https://pris.ly/d/raw-queries).
+   */
+  $queryRaw<T = unknown>(query: TemplateStringsArray | Prisma.Sql, ...values: any[]): Prisma.PrismaPromise<T>;
+
+  /**
+   * Performs a raw query and returns the `SELECT` data.
+   * Susceptible to SQL injections, see documentation.
+   * @example
+   * ```
+   * const result = await prisma.$queryRawUnsafe('SELECT * FROM User WHERE id = $1 OR email = $2;', 1, 'user@email.com')
+   * ```
+   *
+   * Read more in our [docs](https://pris.ly/d/raw-queries).
+   */
+  $queryRawUnsafe<T = unknown>(query: string, ...values: any[]): Prisma.PrismaPromise<T>;
+
+
+  /**
+   * Allows the running of a sequence of read/write operations that are guaranteed to either succeed or fail as a whole.
+   * @example
+   * ```
+   * const [george, bob, alice] = await prisma.$transaction([
+   *   prisma.user.create({ data: { name: 'George' } }),
+   *   prisma.user.create({ data: { name: 'Bob' } }),
+   *   prisma.user.create({ data: { name: 'Alice' } }),
+   * ])
+   * ```
+   * 
+   * Read more in our [docs](https://www.prisma.io/docs/concepts/components/prisma-client/transactions).
+   */
+  $transaction<P extends Prisma.PrismaPromise<any>[]>(arg: [...P], options?: { isolationLevel?: Prisma.TransactionIsolationLevel }): runtime.Types.Utils.JsPromise<runtime.Types.Utils.UnwrapTuple<P>>
+
+  $transaction<R>(fn: (prisma: Omit<PrismaClient, runtime.ITXClientDenyList>) => runtime.Types.Utils.JsPromise<R>, options?: { maxWait?: number, timeout?: number, isolationLevel?: Prisma.TransactionIsolationLevel }): runtime.Types.Utils.JsPromise<R>
+
+  $extends: runtime.Types.Extensions.ExtendsHook<"extends", Prisma.TypeMapCb<OmitOpts>, ExtArgs, runtime.Types.Utils.Call<Prisma.TypeMapCb<OmitOpts>, {
+    extArgs: ExtArgs
+  }>>
+
+      /**
+   * `prisma.config`: Exposes CRUD operations for the **Config** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Configs
+    * const configs = await prisma.config.findMany()
+    * ```
+    */
+  get config(): Prisma.ConfigDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.user`: Exposes CRUD operations for the **User** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Users
+    * const users = await prisma.user.findMany()
+    * ```
+    */
+  get user(): Prisma.UserDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.student`: Exposes CRUD operations for the **Student** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Students
+    * const students = await prisma.student.findMany()
+    * ```
+    */
+  get student(): Prisma.StudentDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.coordinator`: Exposes CRUD operations for the **Coordinator** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Coordinators
+    * const coordinators = await prisma.coordinator.findMany()
+    * ```
+    */
+  get coordinator(): Prisma.CoordinatorDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.organization`: Exposes CRUD operations for the **Organization** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Organizations
+    * const organizations = await prisma.organization.findMany()
+    * ```
+    */
+  get organization(): Prisma.OrganizationDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.administrator`: Exposes CRUD operations for the **Administrator** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Administrators
+    * const administrators = await prisma.administrator.findMany()
+    * ```
+    */
+  get administrator(): Prisma.AdministratorDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.verificationToken`: Exposes CRUD operations for the **VerificationToken** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more VerificationTokens
+    * const verificationTokens = await prisma.verificationToken.findMany()
+    * ```
+    */
+  get verificationToken(): Prisma.VerificationTokenDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.passwordResetToken`: Exposes CRUD operations for the **PasswordResetToken** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more PasswordResetTokens
+    * const passwordResetTokens = await prisma.passwordResetToken.findMany()
+    * ```
+    */
+  get passwordResetToken(): Prisma.PasswordResetTokenDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.session`: Exposes CRUD operations for the **Session** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Sessions
+    * const sessions = await prisma.session.findMany()
+    * ```
+    */
+  get session(): Prisma.SessionDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.rateLimitBucket`: Exposes CRUD operations for the **RateLimitBucket** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more RateLimitBuckets
+    * const rateLimitBuckets = await prisma.rateLimitBucket.findMany()
+    * ```
+    */
+  get rateLimitBucket(): Prisma.RateLimitBucketDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.twoFactorAuth`: Exposes CRUD operations for the **TwoFactorAuth** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more TwoFactorAuths
+    * const twoFactorAuths = await prisma.twoFactorAuth.findMany()
+    * ```
+    */
+  get twoFactorAuth(): Prisma.TwoFactorAuthDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.project`: Exposes CRUD operations for the **Project** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Projects
+    * const projects = await prisma.project.findMany()
+    * ```
+    */
+  get project(): Prisma.ProjectDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.application`: Exposes CRUD operations for the **Application** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Applications
+    * const applications = await prisma.application.findMany()
+    * ```
+    */
+  get application(): Prisma.ApplicationDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.projectCompletion`: Exposes CRUD operations for the **ProjectCompletion** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ProjectCompletions
+    * const projectCompletions = await prisma.projectCompletion.findMany()
+    * ```
+    */
+  get projectCompletion(): Prisma.ProjectCompletionDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.projectAttachment`: Exposes CRUD operations for the **ProjectAttachment** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more ProjectAttachments
+    * const projectAttachments = await prisma.projectAttachment.findMany()
+    * ```
+    */
+  get projectAttachment(): Prisma.ProjectAttachmentDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.notification`: Exposes CRUD operations for the **Notification** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Notifications
+    * const notifications = await prisma.notification.findMany()
+    * ```
+    */
+  get notification(): Prisma.NotificationDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.notificationPreference`: Exposes CRUD operations for the **NotificationPreference** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more NotificationPreferences
+    * const notificationPreferences = await prisma.notificationPreference.findMany()
+    * ```
+    */
+  get notificationPreference(): Prisma.NotificationPreferenceDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.outboundEmail`: Exposes CRUD operations for the **OutboundEmail** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more OutboundEmails
+    * const outboundEmails = await prisma.outboundEmail.findMany()
+    * ```
+    */
+  get outboundEmail(): Prisma.OutboundEmailDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.emailTemplate`: Exposes CRUD operations for the **EmailTemplate** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more EmailTemplates
+    * const emailTemplates = await prisma.emailTemplate.findMany()
+    * ```
+    */
+  get emailTemplate(): Prisma.EmailTemplateDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.auditEvent`: Exposes CRUD operations for the **AuditEvent** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more AuditEvents
+    * const auditEvents = await prisma.auditEvent.findMany()
+    * ```
+    */
+  get auditEvent(): Prisma.AuditEventDelegate<ExtArgs, { omit: OmitOpts }>;
+}
+
+export function getPrismaClientClass(): PrismaClientConstructor {
+  return runtime.getPrismaClient(config) as unknown as PrismaClientConstructor
+}
@@ -0,0 +1,31 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This is a barrel export file for all models and their related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+export type * from './models/Config'
+export type * from './models/User'
+export type * from './models/Student'
+export type * from './models/Coordinator'
+export type * from './models/Organization'
+export type * from './models/Administrator'
+export type * from './models/VerificationToken'
+export type * from './models/PasswordResetToken'
+export type * from './models/Session'
+export type * from './models/RateLimitBucket'
+export type * from './models/TwoFactorAuth'
+export type * from './models/Project'
+export type * from './models/Application'
+export type * from './models/ProjectCompletion'
+export type * from './models/ProjectAttachment'
+export type * from './models/Notification'
+export type * from './models/NotificationPreference'
+export type * from './models/OutboundEmail'
+export type * from './models/EmailTemplate'
+export type * from './models/AuditEvent'
+export type * from './commonInputTypes'
\ No newline at end of file
@@ -0,0 +1,1194 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `Administrator` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model Administrator
+ * Profile for system administrators.
+ */
+export type AdministratorModel = runtime.Types.Result.DefaultSelection<Prisma.$AdministratorPayload>
+
+export type AggregateAdministrator = {
+  _count: AdministratorCountAggregateOutputType | null
+  _min: AdministratorMinAggregateOutputType | null
+  _max: AdministratorMaxAggregateOutputType | null
+}
+
+export type AdministratorMinAggregateOutputType = {
+  id: string | null
+  userId: string | null
+}
+
+export type AdministratorMaxAggregateOutputType = {
+  id: string | null
+  userId: string | null
+}
+
+export type AdministratorCountAggregateOutputType = {
+  id: number
+  userId: number
+  _all: number
+}
+
+
+export type AdministratorMinAggregateInputType = {
+  id?: true
+  userId?: true
+}
+
+export type AdministratorMaxAggregateInputType = {
+  id?: true
+  userId?: true
+}
+
+export type AdministratorCountAggregateInputType = {
+  id?: true
+  userId?: true
+  _all?: true
+}
+
+export type AdministratorAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Administrator to aggregate.
+   */
+  where?: Prisma.AdministratorWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Administrators to fetch.
+   */
+  orderBy?: Prisma.AdministratorOrderByWithRelationInput | Prisma.AdministratorOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.AdministratorWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Administrators from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Administrators.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned Administrators
+  **/
+  _count?: true | AdministratorCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: AdministratorMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: AdministratorMaxAggregateInputType
+}
+
+export type GetAdministratorAggregateType<T extends AdministratorAggregateArgs> = {
+      [P in keyof T & keyof AggregateAdministrator]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateAdministrator[P]>
+    : Prisma.GetScalarType<T[P], AggregateAdministrator[P]>
+}
+
+
+
+
+export type AdministratorGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AdministratorWhereInput
+  orderBy?: Prisma.AdministratorOrderByWithAggregationInput | Prisma.AdministratorOrderByWithAggregationInput[]
+  by: Prisma.AdministratorScalarFieldEnum[] | Prisma.AdministratorScalarFieldEnum
+  having?: Prisma.AdministratorScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: AdministratorCountAggregateInputType | true
+  _min?: AdministratorMinAggregateInputType
+  _max?: AdministratorMaxAggregateInputType
+}
+
+export type AdministratorGroupByOutputType = {
+  id: string
+  userId: string
+  _count: AdministratorCountAggregateOutputType | null
+  _min: AdministratorMinAggregateOutputType | null
+  _max: AdministratorMaxAggregateOutputType | null
+}
+
+type GetAdministratorGroupByPayload<T extends AdministratorGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<AdministratorGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof AdministratorGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], AdministratorGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], AdministratorGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type AdministratorWhereInput = {
+  AND?: Prisma.AdministratorWhereInput | Prisma.AdministratorWhereInput[]
+  OR?: Prisma.AdministratorWhereInput[]
+  NOT?: Prisma.AdministratorWhereInput | Prisma.AdministratorWhereInput[]
+  id?: Prisma.StringFilter<"Administrator"> | string
+  userId?: Prisma.StringFilter<"Administrator"> | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}
+
+export type AdministratorOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  user?: Prisma.UserOrderByWithRelationInput
+}
+
+export type AdministratorWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  userId?: string
+  AND?: Prisma.AdministratorWhereInput | Prisma.AdministratorWhereInput[]
+  OR?: Prisma.AdministratorWhereInput[]
+  NOT?: Prisma.AdministratorWhereInput | Prisma.AdministratorWhereInput[]
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}, "id" | "userId">
+
+export type AdministratorOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  _count?: Prisma.AdministratorCountOrderByAggregateInput
+  _max?: Prisma.AdministratorMaxOrderByAggregateInput
+  _min?: Prisma.AdministratorMinOrderByAggregateInput
+}
+
+export type AdministratorScalarWhereWithAggregatesInput = {
+  AND?: Prisma.AdministratorScalarWhereWithAggregatesInput | Prisma.AdministratorScalarWhereWithAggregatesInput[]
+  OR?: Prisma.AdministratorScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.AdministratorScalarWhereWithAggregatesInput | Prisma.AdministratorScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"Administrator"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"Administrator"> | string
+}
+
+export type AdministratorCreateInput = {
+  id?: string
+  user: Prisma.UserCreateNestedOneWithoutAdministratorInput
+}
+
+export type AdministratorUncheckedCreateInput = {
+  id?: string
+  userId: string
+}
+
+export type AdministratorUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  user?: Prisma.UserUpdateOneRequiredWithoutAdministratorNestedInput
+}
+
+export type AdministratorUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+}
+
+export type AdministratorCreateManyInput = {
+  id?: string
+  userId: string
+}
+
+export type AdministratorUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+}
+
+export type AdministratorUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+}
+
+export type AdministratorNullableScalarRelationFilter = {
+  is?: Prisma.AdministratorWhereInput | null
+  isNot?: Prisma.AdministratorWhereInput | null
+}
+
+export type AdministratorCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+}
+
+export type AdministratorMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+}
+
+export type AdministratorMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+}
+
+export type AdministratorCreateNestedOneWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.AdministratorCreateWithoutUserInput, Prisma.AdministratorUncheckedCreateWithoutUserInput>
+  connectOrCreate?: Prisma.AdministratorCreateOrConnectWithoutUserInput
+  connect?: Prisma.AdministratorWhereUniqueInput
+}
+
+export type AdministratorUncheckedCreateNestedOneWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.AdministratorCreateWithoutUserInput, Prisma.AdministratorUncheckedCreateWithoutUserInput>
+  connectOrCreate?: Prisma.AdministratorCreateOrConnectWithoutUserInput
+  connect?: Prisma.AdministratorWhereUniqueInput
+}
+
+export type AdministratorUpdateOneWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.AdministratorCreateWithoutUserInput, Prisma.AdministratorUncheckedCreateWithoutUserInput>
+  connectOrCreate?: Prisma.AdministratorCreateOrConnectWithoutUserInput
+  upsert?: Prisma.AdministratorUpsertWithoutUserInput
+  disconnect?: Prisma.AdministratorWhereInput | boolean
+  delete?: Prisma.AdministratorWhereInput | boolean
+  connect?: Prisma.AdministratorWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.AdministratorUpdateToOneWithWhereWithoutUserInput, Prisma.AdministratorUpdateWithoutUserInput>, Prisma.AdministratorUncheckedUpdateWithoutUserInput>
+}
+
+export type AdministratorUncheckedUpdateOneWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.AdministratorCreateWithoutUserInput, Prisma.AdministratorUncheckedCreateWithoutUserInput>
+  connectOrCreate?: Prisma.AdministratorCreateOrConnectWithoutUserInput
+  upsert?: Prisma.AdministratorUpsertWithoutUserInput
+  disconnect?: Prisma.AdministratorWhereInput | boolean
+  delete?: Prisma.AdministratorWhereInput | boolean
+  connect?: Prisma.AdministratorWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.AdministratorUpdateToOneWithWhereWithoutUserInput, Prisma.AdministratorUpdateWithoutUserInput>, Prisma.AdministratorUncheckedUpdateWithoutUserInput>
+}
+
+export type AdministratorCreateWithoutUserInput = {
+  id?: string
+}
+
+export type AdministratorUncheckedCreateWithoutUserInput = {
+  id?: string
+}
+
+export type AdministratorCreateOrConnectWithoutUserInput = {
+  where: Prisma.AdministratorWhereUniqueInput
+  create: Prisma.XOR<Prisma.AdministratorCreateWithoutUserInput, Prisma.AdministratorUncheckedCreateWithoutUserInput>
+}
+
+export type AdministratorUpsertWithoutUserInput = {
+  update: Prisma.XOR<Prisma.AdministratorUpdateWithoutUserInput, Prisma.AdministratorUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.AdministratorCreateWithoutUserInput, Prisma.AdministratorUncheckedCreateWithoutUserInput>
+  where?: Prisma.AdministratorWhereInput
+}
+
+export type AdministratorUpdateToOneWithWhereWithoutUserInput = {
+  where?: Prisma.AdministratorWhereInput
+  data: Prisma.XOR<Prisma.AdministratorUpdateWithoutUserInput, Prisma.AdministratorUncheckedUpdateWithoutUserInput>
+}
+
+export type AdministratorUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+}
+
+export type AdministratorUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+}
+
+
+
+export type AdministratorSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["administrator"]>
+
+export type AdministratorSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["administrator"]>
+
+export type AdministratorSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["administrator"]>
+
+export type AdministratorSelectScalar = {
+  id?: boolean
+  userId?: boolean
+}
+
+export type AdministratorOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId", ExtArgs["result"]["administrator"]>
+export type AdministratorInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type AdministratorIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type AdministratorIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $AdministratorPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "Administrator"
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    userId: string
+  }, ExtArgs["result"]["administrator"]>
+  composites: {}
+}
+
+export type AdministratorGetPayload<S extends boolean | null | undefined | AdministratorDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$AdministratorPayload, S>
+
+export type AdministratorCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<AdministratorFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: AdministratorCountAggregateInputType | true
+  }
+
+export interface AdministratorDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Administrator'], meta: { name: 'Administrator' } }
+  /**
+   * Find zero or one Administrator that matches the filter.
+   * @param {AdministratorFindUniqueArgs} args - Arguments to find a Administrator
+   * @example
+   * // Get one Administrator
+   * const administrator = await prisma.administrator.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends AdministratorFindUniqueArgs>(args: Prisma.SelectSubset<T, AdministratorFindUniqueArgs<ExtArgs>>): Prisma.Prisma__AdministratorClient<runtime.Types.Result.GetResult<Prisma.$AdministratorPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one Administrator that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {AdministratorFindUniqueOrThrowArgs} args - Arguments to find a Administrator
+   * @example
+   * // Get one Administrator
+   * const administrator = await prisma.administrator.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends AdministratorFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, AdministratorFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__AdministratorClient<runtime.Types.Result.GetResult<Prisma.$AdministratorPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Administrator that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AdministratorFindFirstArgs} args - Arguments to find a Administrator
+   * @example
+   * // Get one Administrator
+   * const administrator = await prisma.administrator.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends AdministratorFindFirstArgs>(args?: Prisma.SelectSubset<T, AdministratorFindFirstArgs<ExtArgs>>): Prisma.Prisma__AdministratorClient<runtime.Types.Result.GetResult<Prisma.$AdministratorPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Administrator that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AdministratorFindFirstOrThrowArgs} args - Arguments to find a Administrator
+   * @example
+   * // Get one Administrator
+   * const administrator = await prisma.administrator.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends AdministratorFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, AdministratorFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__AdministratorClient<runtime.Types.Result.GetResult<Prisma.$AdministratorPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more Administrators that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AdministratorFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all Administrators
+   * const administrators = await prisma.administrator.findMany()
+   * 
+   * // Get first 10 Administrators
+   * const administrators = await prisma.administrator.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const administratorWithIdOnly = await prisma.administrator.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends AdministratorFindManyArgs>(args?: Prisma.SelectSubset<T, AdministratorFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AdministratorPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a Administrator.
+   * @param {AdministratorCreateArgs} args - Arguments to create a Administrator.
+   * @example
+   * // Create one Administrator
+   * const Administrator = await prisma.administrator.create({
+   *   data: {
+   *     // ... data to create a Administrator
+   *   }
+   * })
+   * 
+   */
+  create<T extends AdministratorCreateArgs>(args: Prisma.SelectSubset<T, AdministratorCreateArgs<ExtArgs>>): Prisma.Prisma__AdministratorClient<runtime.Types.Result.GetResult<Prisma.$AdministratorPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many Administrators.
+   * @param {AdministratorCreateManyArgs} args - Arguments to create many Administrators.
+   * @example
+   * // Create many Administrators
+   * const administrator = await prisma.administrator.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends AdministratorCreateManyArgs>(args?: Prisma.SelectSubset<T, AdministratorCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many Administrators and returns the data saved in the database.
+   * @param {AdministratorCreateManyAndReturnArgs} args - Arguments to create many Administrators.
+   * @example
+   * // Create many Administrators
+   * const administrator = await prisma.administrator.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many Administrators and only return the `id`
+   * const administratorWithIdOnly = await prisma.administrator.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends AdministratorCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, AdministratorCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AdministratorPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a Administrator.
+   * @param {AdministratorDeleteArgs} args - Arguments to delete one Administrator.
+   * @example
+   * // Delete one Administrator
+   * const Administrator = await prisma.administrator.delete({
+   *   where: {
+   *     // ... filter to delete one Administrator
+   *   }
+   * })
+   * 
+   */
+  delete<T extends AdministratorDeleteArgs>(args: Prisma.SelectSubset<T, AdministratorDeleteArgs<ExtArgs>>): Prisma.Prisma__AdministratorClient<runtime.Types.Result.GetResult<Prisma.$AdministratorPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one Administrator.
+   * @param {AdministratorUpdateArgs} args - Arguments to update one Administrator.
+   * @example
+   * // Update one Administrator
+   * const administrator = await prisma.administrator.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends AdministratorUpdateArgs>(args: Prisma.SelectSubset<T, AdministratorUpdateArgs<ExtArgs>>): Prisma.Prisma__AdministratorClient<runtime.Types.Result.GetResult<Prisma.$AdministratorPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more Administrators.
+   * @param {AdministratorDeleteManyArgs} args - Arguments to filter Administrators to delete.
+   * @example
+   * // Delete a few Administrators
+   * const { count } = await prisma.administrator.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends AdministratorDeleteManyArgs>(args?: Prisma.SelectSubset<T, AdministratorDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Administrators.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AdministratorUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many Administrators
+   * const administrator = await prisma.administrator.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends AdministratorUpdateManyArgs>(args: Prisma.SelectSubset<T, AdministratorUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Administrators and returns the data updated in the database.
+   * @param {AdministratorUpdateManyAndReturnArgs} args - Arguments to update many Administrators.
+   * @example
+   * // Update many Administrators
+   * const administrator = await prisma.administrator.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more Administrators and only return the `id`
+   * const administratorWithIdOnly = await prisma.administrator.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends AdministratorUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, AdministratorUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AdministratorPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one Administrator.
+   * @param {AdministratorUpsertArgs} args - Arguments to update or create a Administrator.
+   * @example
+   * // Update or create a Administrator
+   * const administrator = await prisma.administrator.upsert({
+   *   create: {
+   *     // ... data to create a Administrator
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the Administrator we want to update
+   *   }
+   * })
+   */
+  upsert<T extends AdministratorUpsertArgs>(args: Prisma.SelectSubset<T, AdministratorUpsertArgs<ExtArgs>>): Prisma.Prisma__AdministratorClient<runtime.Types.Result.GetResult<Prisma.$AdministratorPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of Administrators.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AdministratorCountArgs} args - Arguments to filter Administrators to count.
+   * @example
+   * // Count the number of Administrators
+   * const count = await prisma.administrator.count({
+   *   where: {
+   *     // ... the filter for the Administrators we want to count
+   *   }
+   * })
+  **/
+  count<T extends AdministratorCountArgs>(
+    args?: Prisma.Subset<T, AdministratorCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], AdministratorCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a Administrator.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AdministratorAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends AdministratorAggregateArgs>(args: Prisma.Subset<T, AdministratorAggregateArgs>): Prisma.PrismaPromise<GetAdministratorAggregateType<T>>
+
+  /**
+   * Group by Administrator.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AdministratorGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends AdministratorGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: AdministratorGroupByArgs['orderBy'] }
+      : { orderBy?: AdministratorGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, AdministratorGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetAdministratorGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the Administrator model
+ */
+readonly fields: AdministratorFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Administrator.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__AdministratorClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the Administrator model
+ */
+export interface AdministratorFieldRefs {
+  readonly id: Prisma.FieldRef<"Administrator", 'String'>
+  readonly userId: Prisma.FieldRef<"Administrator", 'String'>
+}
+    
+
+// Custom InputTypes
+/**
+ * Administrator findUnique
+ */
+export type AdministratorFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Administrator
+   */
+  select?: Prisma.AdministratorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Administrator
+   */
+  omit?: Prisma.AdministratorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AdministratorInclude<ExtArgs> | null
+  /**
+   * Filter, which Administrator to fetch.
+   */
+  where: Prisma.AdministratorWhereUniqueInput
+}
+
+/**
+ * Administrator findUniqueOrThrow
+ */
+export type AdministratorFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Administrator
+   */
+  select?: Prisma.AdministratorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Administrator
+   */
+  omit?: Prisma.AdministratorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AdministratorInclude<ExtArgs> | null
+  /**
+   * Filter, which Administrator to fetch.
+   */
+  where: Prisma.AdministratorWhereUniqueInput
+}
+
+/**
+ * Administrator findFirst
+ */
+export type AdministratorFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Administrator
+   */
+  select?: Prisma.AdministratorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Administrator
+   */
+  omit?: Prisma.AdministratorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AdministratorInclude<ExtArgs> | null
+  /**
+   * Filter, which Administrator to fetch.
+   */
+  where?: Prisma.AdministratorWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Administrators to fetch.
+   */
+  orderBy?: Prisma.AdministratorOrderByWithRelationInput | Prisma.AdministratorOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Administrators.
+   */
+  cursor?: Prisma.AdministratorWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Administrators from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Administrators.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Administrators.
+   */
+  distinct?: Prisma.AdministratorScalarFieldEnum | Prisma.AdministratorScalarFieldEnum[]
+}
+
+/**
+ * Administrator findFirstOrThrow
+ */
+export type AdministratorFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Administrator
+   */
+  select?: Prisma.AdministratorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Administrator
+   */
+  omit?: Prisma.AdministratorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AdministratorInclude<ExtArgs> | null
+  /**
+   * Filter, which Administrator to fetch.
+   */
+  where?: Prisma.AdministratorWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Administrators to fetch.
+   */
+  orderBy?: Prisma.AdministratorOrderByWithRelationInput | Prisma.AdministratorOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Administrators.
+   */
+  cursor?: Prisma.AdministratorWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Administrators from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Administrators.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Administrators.
+   */
+  distinct?: Prisma.AdministratorScalarFieldEnum | Prisma.AdministratorScalarFieldEnum[]
+}
+
+/**
+ * Administrator findMany
+ */
+export type AdministratorFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Administrator
+   */
+  select?: Prisma.AdministratorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Administrator
+   */
+  omit?: Prisma.AdministratorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AdministratorInclude<ExtArgs> | null
+  /**
+   * Filter, which Administrators to fetch.
+   */
+  where?: Prisma.AdministratorWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Administrators to fetch.
+   */
+  orderBy?: Prisma.AdministratorOrderByWithRelationInput | Prisma.AdministratorOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing Administrators.
+   */
+  cursor?: Prisma.AdministratorWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Administrators from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Administrators.
+   */
+  skip?: number
+  distinct?: Prisma.AdministratorScalarFieldEnum | Prisma.AdministratorScalarFieldEnum[]
+}
+
+/**
+ * Administrator create
+ */
+export type AdministratorCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Administrator
+   */
+  select?: Prisma.AdministratorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Administrator
+   */
+  omit?: Prisma.AdministratorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AdministratorInclude<ExtArgs> | null
+  /**
+   * The data needed to create a Administrator.
+   */
+  data: Prisma.XOR<Prisma.AdministratorCreateInput, Prisma.AdministratorUncheckedCreateInput>
+}
+
+/**
+ * Administrator createMany
+ */
+export type AdministratorCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many Administrators.
+   */
+  data: Prisma.AdministratorCreateManyInput | Prisma.AdministratorCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * Administrator createManyAndReturn
+ */
+export type AdministratorCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Administrator
+   */
+  select?: Prisma.AdministratorSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Administrator
+   */
+  omit?: Prisma.AdministratorOmit<ExtArgs> | null
+  /**
+   * The data used to create many Administrators.
+   */
+  data: Prisma.AdministratorCreateManyInput | Prisma.AdministratorCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AdministratorIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Administrator update
+ */
+export type AdministratorUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Administrator
+   */
+  select?: Prisma.AdministratorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Administrator
+   */
+  omit?: Prisma.AdministratorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AdministratorInclude<ExtArgs> | null
+  /**
+   * The data needed to update a Administrator.
+   */
+  data: Prisma.XOR<Prisma.AdministratorUpdateInput, Prisma.AdministratorUncheckedUpdateInput>
+  /**
+   * Choose, which Administrator to update.
+   */
+  where: Prisma.AdministratorWhereUniqueInput
+}
+
+/**
+ * Administrator updateMany
+ */
+export type AdministratorUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update Administrators.
+   */
+  data: Prisma.XOR<Prisma.AdministratorUpdateManyMutationInput, Prisma.AdministratorUncheckedUpdateManyInput>
+  /**
+   * Filter which Administrators to update
+   */
+  where?: Prisma.AdministratorWhereInput
+  /**
+   * Limit how many Administrators to update.
+   */
+  limit?: number
+}
+
+/**
+ * Administrator updateManyAndReturn
+ */
+export type AdministratorUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Administrator
+   */
+  select?: Prisma.AdministratorSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Administrator
+   */
+  omit?: Prisma.AdministratorOmit<ExtArgs> | null
+  /**
+   * The data used to update Administrators.
+   */
+  data: Prisma.XOR<Prisma.AdministratorUpdateManyMutationInput, Prisma.AdministratorUncheckedUpdateManyInput>
+  /**
+   * Filter which Administrators to update
+   */
+  where?: Prisma.AdministratorWhereInput
+  /**
+   * Limit how many Administrators to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AdministratorIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Administrator upsert
+ */
+export type AdministratorUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Administrator
+   */
+  select?: Prisma.AdministratorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Administrator
+   */
+  omit?: Prisma.AdministratorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AdministratorInclude<ExtArgs> | null
+  /**
+   * The filter to search for the Administrator to update in case it exists.
+   */
+  where: Prisma.AdministratorWhereUniqueInput
+  /**
+   * In case the Administrator found by the `where` argument doesn't exist, create a new Administrator with this data.
+   */
+  create: Prisma.XOR<Prisma.AdministratorCreateInput, Prisma.AdministratorUncheckedCreateInput>
+  /**
+   * In case the Administrator was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.AdministratorUpdateInput, Prisma.AdministratorUncheckedUpdateInput>
+}
+
+/**
+ * Administrator delete
+ */
+export type AdministratorDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Administrator
+   */
+  select?: Prisma.AdministratorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Administrator
+   */
+  omit?: Prisma.AdministratorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AdministratorInclude<ExtArgs> | null
+  /**
+   * Filter which Administrator to delete.
+   */
+  where: Prisma.AdministratorWhereUniqueInput
+}
+
+/**
+ * Administrator deleteMany
+ */
+export type AdministratorDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Administrators to delete
+   */
+  where?: Prisma.AdministratorWhereInput
+  /**
+   * Limit how many Administrators to delete.
+   */
+  limit?: number
+}
+
+/**
+ * Administrator without action
+ */
+export type AdministratorDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Administrator
+   */
+  select?: Prisma.AdministratorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Administrator
+   */
+  omit?: Prisma.AdministratorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AdministratorInclude<ExtArgs> | null
+}
@@ -0,0 +1,1607 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `AuditEvent` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model AuditEvent
+ * Record of an administrative or lifecycle action, kept after the actor or target is deleted.
+ * Actor and target names are copied so the entry stays readable on its own.
+ */
+export type AuditEventModel = runtime.Types.Result.DefaultSelection<Prisma.$AuditEventPayload>
+
+export type AggregateAuditEvent = {
+  _count: AuditEventCountAggregateOutputType | null
+  _min: AuditEventMinAggregateOutputType | null
+  _max: AuditEventMaxAggregateOutputType | null
+}
+
+export type AuditEventMinAggregateOutputType = {
+  id: string | null
+  action: $Enums.AuditAction | null
+  actorId: string | null
+  actorName: string | null
+  actorEmail: string | null
+  entityType: $Enums.AuditEntityType | null
+  entityId: string | null
+  entityLabel: string | null
+  ipAddress: string | null
+  createdAt: Date | null
+}
+
+export type AuditEventMaxAggregateOutputType = {
+  id: string | null
+  action: $Enums.AuditAction | null
+  actorId: string | null
+  actorName: string | null
+  actorEmail: string | null
+  entityType: $Enums.AuditEntityType | null
+  entityId: string | null
+  entityLabel: string | null
+  ipAddress: string | null
+  createdAt: Date | null
+}
+
+export type AuditEventCountAggregateOutputType = {
+  id: number
+  action: number
+  actorId: number
+  actorName: number
+  actorEmail: number
+  entityType: number
+  entityId: number
+  entityLabel: number
+  changes: number
+  metadata: number
+  ipAddress: number
+  createdAt: number
+  _all: number
+}
+
+
+export type AuditEventMinAggregateInputType = {
+  id?: true
+  action?: true
+  actorId?: true
+  actorName?: true
+  actorEmail?: true
+  entityType?: true
+  entityId?: true
+  entityLabel?: true
+  ipAddress?: true
+  createdAt?: true
+}
+
+export type AuditEventMaxAggregateInputType = {
+  id?: true
+  action?: true
+  actorId?: true
+  actorName?: true
+  actorEmail?: true
+  entityType?: true
+  entityId?: true
+  entityLabel?: true
+  ipAddress?: true
+  createdAt?: true
+}
+
+export type AuditEventCountAggregateInputType = {
+  id?: true
+  action?: true
+  actorId?: true
+  actorName?: true
+  actorEmail?: true
+  entityType?: true
+  entityId?: true
+  entityLabel?: true
+  changes?: true
+  metadata?: true
+  ipAddress?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type AuditEventAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which AuditEvent to aggregate.
+   */
+  where?: Prisma.AuditEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AuditEvents to fetch.
+   */
+  orderBy?: Prisma.AuditEventOrderByWithRelationInput | Prisma.AuditEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.AuditEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AuditEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AuditEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned AuditEvents
+  **/
+  _count?: true | AuditEventCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: AuditEventMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: AuditEventMaxAggregateInputType
+}
+
+export type GetAuditEventAggregateType<T extends AuditEventAggregateArgs> = {
+      [P in keyof T & keyof AggregateAuditEvent]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateAuditEvent[P]>
+    : Prisma.GetScalarType<T[P], AggregateAuditEvent[P]>
+}
+
+
+
+
+export type AuditEventGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AuditEventWhereInput
+  orderBy?: Prisma.AuditEventOrderByWithAggregationInput | Prisma.AuditEventOrderByWithAggregationInput[]
+  by: Prisma.AuditEventScalarFieldEnum[] | Prisma.AuditEventScalarFieldEnum
+  having?: Prisma.AuditEventScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: AuditEventCountAggregateInputType | true
+  _min?: AuditEventMinAggregateInputType
+  _max?: AuditEventMaxAggregateInputType
+}
+
+export type AuditEventGroupByOutputType = {
+  id: string
+  action: $Enums.AuditAction
+  actorId: string | null
+  actorName: string | null
+  actorEmail: string | null
+  entityType: $Enums.AuditEntityType
+  entityId: string
+  entityLabel: string | null
+  changes: runtime.JsonValue | null
+  metadata: runtime.JsonValue | null
+  ipAddress: string | null
+  createdAt: Date
+  _count: AuditEventCountAggregateOutputType | null
+  _min: AuditEventMinAggregateOutputType | null
+  _max: AuditEventMaxAggregateOutputType | null
+}
+
+type GetAuditEventGroupByPayload<T extends AuditEventGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<AuditEventGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof AuditEventGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], AuditEventGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], AuditEventGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type AuditEventWhereInput = {
+  AND?: Prisma.AuditEventWhereInput | Prisma.AuditEventWhereInput[]
+  OR?: Prisma.AuditEventWhereInput[]
+  NOT?: Prisma.AuditEventWhereInput | Prisma.AuditEventWhereInput[]
+  id?: Prisma.StringFilter<"AuditEvent"> | string
+  action?: Prisma.EnumAuditActionFilter<"AuditEvent"> | $Enums.AuditAction
+  actorId?: Prisma.StringNullableFilter<"AuditEvent"> | string | null
+  actorName?: Prisma.StringNullableFilter<"AuditEvent"> | string | null
+  actorEmail?: Prisma.StringNullableFilter<"AuditEvent"> | string | null
+  entityType?: Prisma.EnumAuditEntityTypeFilter<"AuditEvent"> | $Enums.AuditEntityType
+  entityId?: Prisma.StringFilter<"AuditEvent"> | string
+  entityLabel?: Prisma.StringNullableFilter<"AuditEvent"> | string | null
+  changes?: Prisma.JsonNullableFilter<"AuditEvent">
+  metadata?: Prisma.JsonNullableFilter<"AuditEvent">
+  ipAddress?: Prisma.StringNullableFilter<"AuditEvent"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"AuditEvent"> | Date | string
+  actor?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}
+
+export type AuditEventOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  actorId?: Prisma.SortOrderInput | Prisma.SortOrder
+  actorName?: Prisma.SortOrderInput | Prisma.SortOrder
+  actorEmail?: Prisma.SortOrderInput | Prisma.SortOrder
+  entityType?: Prisma.SortOrder
+  entityId?: Prisma.SortOrder
+  entityLabel?: Prisma.SortOrderInput | Prisma.SortOrder
+  changes?: Prisma.SortOrderInput | Prisma.SortOrder
+  metadata?: Prisma.SortOrderInput | Prisma.SortOrder
+  ipAddress?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  actor?: Prisma.UserOrderByWithRelationInput
+}
+
+export type AuditEventWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.AuditEventWhereInput | Prisma.AuditEventWhereInput[]
+  OR?: Prisma.AuditEventWhereInput[]
+  NOT?: Prisma.AuditEventWhereInput | Prisma.AuditEventWhereInput[]
+  action?: Prisma.EnumAuditActionFilter<"AuditEvent"> | $Enums.AuditAction
+  actorId?: Prisma.StringNullableFilter<"AuditEvent"> | string | null
+  actorName?: Prisma.StringNullableFilter<"AuditEvent"> | string | null
+  actorEmail?: Prisma.StringNullableFilter<"AuditEvent"> | string | null
+  entityType?: Prisma.EnumAuditEntityTypeFilter<"AuditEvent"> | $Enums.AuditEntityType
+  entityId?: Prisma.StringFilter<"AuditEvent"> | string
+  entityLabel?: Prisma.StringNullableFilter<"AuditEvent"> | string | null
+  changes?: Prisma.JsonNullableFilter<"AuditEvent">
+  metadata?: Prisma.JsonNullableFilter<"AuditEvent">
+  ipAddress?: Prisma.StringNullableFilter<"AuditEvent"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"AuditEvent"> | Date | string
+  actor?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}, "id">
+
+export type AuditEventOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  actorId?: Prisma.SortOrderInput | Prisma.SortOrder
+  actorName?: Prisma.SortOrderInput | Prisma.SortOrder
+  actorEmail?: Prisma.SortOrderInput | Prisma.SortOrder
+  entityType?: Prisma.SortOrder
+  entityId?: Prisma.SortOrder
+  entityLabel?: Prisma.SortOrderInput | Prisma.SortOrder
+  changes?: Prisma.SortOrderInput | Prisma.SortOrder
+  metadata?: Prisma.SortOrderInput | Prisma.SortOrder
+  ipAddress?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.AuditEventCountOrderByAggregateInput
+  _max?: Prisma.AuditEventMaxOrderByAggregateInput
+  _min?: Prisma.AuditEventMinOrderByAggregateInput
+}
+
+export type AuditEventScalarWhereWithAggregatesInput = {
+  AND?: Prisma.AuditEventScalarWhereWithAggregatesInput | Prisma.AuditEventScalarWhereWithAggregatesInput[]
+  OR?: Prisma.AuditEventScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.AuditEventScalarWhereWithAggregatesInput | Prisma.AuditEventScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"AuditEvent"> | string
+  action?: Prisma.EnumAuditActionWithAggregatesFilter<"AuditEvent"> | $Enums.AuditAction
+  actorId?: Prisma.StringNullableWithAggregatesFilter<"AuditEvent"> | string | null
+  actorName?: Prisma.StringNullableWithAggregatesFilter<"AuditEvent"> | string | null
+  actorEmail?: Prisma.StringNullableWithAggregatesFilter<"AuditEvent"> | string | null
+  entityType?: Prisma.EnumAuditEntityTypeWithAggregatesFilter<"AuditEvent"> | $Enums.AuditEntityType
+  entityId?: Prisma.StringWithAggregatesFilter<"AuditEvent"> | string
+  entityLabel?: Prisma.StringNullableWithAggregatesFilter<"AuditEvent"> | string | null
+  changes?: Prisma.JsonNullableWithAggregatesFilter<"AuditEvent">
+  metadata?: Prisma.JsonNullableWithAggregatesFilter<"AuditEvent">
+  ipAddress?: Prisma.StringNullableWithAggregatesFilter<"AuditEvent"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"AuditEvent"> | Date | string
+}
+
+export type AuditEventCreateInput = {
+  id?: string
+  action: $Enums.AuditAction
+  actorName?: string | null
+  actorEmail?: string | null
+  entityType: $Enums.AuditEntityType
+  entityId: string
+  entityLabel?: string | null
+  changes?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  ipAddress?: string | null
+  createdAt?: Date | string
+  actor?: Prisma.UserCreateNestedOneWithoutAuditEventsInput
+}
+
+export type AuditEventUncheckedCreateInput = {
+  id?: string
+  action: $Enums.AuditAction
+  actorId?: string | null
+  actorName?: string | null
+  actorEmail?: string | null
+  entityType: $Enums.AuditEntityType
+  entityId: string
+  entityLabel?: string | null
+  changes?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  ipAddress?: string | null
+  createdAt?: Date | string
+}
+
+export type AuditEventUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumAuditActionFieldUpdateOperationsInput | $Enums.AuditAction
+  actorName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  actorEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  entityType?: Prisma.EnumAuditEntityTypeFieldUpdateOperationsInput | $Enums.AuditEntityType
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  entityLabel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  changes?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  ipAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  actor?: Prisma.UserUpdateOneWithoutAuditEventsNestedInput
+}
+
+export type AuditEventUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumAuditActionFieldUpdateOperationsInput | $Enums.AuditAction
+  actorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  actorName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  actorEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  entityType?: Prisma.EnumAuditEntityTypeFieldUpdateOperationsInput | $Enums.AuditEntityType
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  entityLabel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  changes?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  ipAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AuditEventCreateManyInput = {
+  id?: string
+  action: $Enums.AuditAction
+  actorId?: string | null
+  actorName?: string | null
+  actorEmail?: string | null
+  entityType: $Enums.AuditEntityType
+  entityId: string
+  entityLabel?: string | null
+  changes?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  ipAddress?: string | null
+  createdAt?: Date | string
+}
+
+export type AuditEventUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumAuditActionFieldUpdateOperationsInput | $Enums.AuditAction
+  actorName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  actorEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  entityType?: Prisma.EnumAuditEntityTypeFieldUpdateOperationsInput | $Enums.AuditEntityType
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  entityLabel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  changes?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  ipAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AuditEventUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumAuditActionFieldUpdateOperationsInput | $Enums.AuditAction
+  actorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  actorName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  actorEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  entityType?: Prisma.EnumAuditEntityTypeFieldUpdateOperationsInput | $Enums.AuditEntityType
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  entityLabel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  changes?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  ipAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AuditEventListRelationFilter = {
+  every?: Prisma.AuditEventWhereInput
+  some?: Prisma.AuditEventWhereInput
+  none?: Prisma.AuditEventWhereInput
+}
+
+export type AuditEventOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type AuditEventCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  actorName?: Prisma.SortOrder
+  actorEmail?: Prisma.SortOrder
+  entityType?: Prisma.SortOrder
+  entityId?: Prisma.SortOrder
+  entityLabel?: Prisma.SortOrder
+  changes?: Prisma.SortOrder
+  metadata?: Prisma.SortOrder
+  ipAddress?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type AuditEventMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  actorName?: Prisma.SortOrder
+  actorEmail?: Prisma.SortOrder
+  entityType?: Prisma.SortOrder
+  entityId?: Prisma.SortOrder
+  entityLabel?: Prisma.SortOrder
+  ipAddress?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type AuditEventMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  actorName?: Prisma.SortOrder
+  actorEmail?: Prisma.SortOrder
+  entityType?: Prisma.SortOrder
+  entityId?: Prisma.SortOrder
+  entityLabel?: Prisma.SortOrder
+  ipAddress?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type AuditEventCreateNestedManyWithoutActorInput = {
+  create?: Prisma.XOR<Prisma.AuditEventCreateWithoutActorInput, Prisma.AuditEventUncheckedCreateWithoutActorInput> | Prisma.AuditEventCreateWithoutActorInput[] | Prisma.AuditEventUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.AuditEventCreateOrConnectWithoutActorInput | Prisma.AuditEventCreateOrConnectWithoutActorInput[]
+  createMany?: Prisma.AuditEventCreateManyActorInputEnvelope
+  connect?: Prisma.AuditEventWhereUniqueInput | Prisma.AuditEventWhereUniqueInput[]
+}
+
+export type AuditEventUncheckedCreateNestedManyWithoutActorInput = {
+  create?: Prisma.XOR<Prisma.AuditEventCreateWithoutActorInput, Prisma.AuditEventUncheckedCreateWithoutActorInput> | Prisma.AuditEventCreateWithoutActorInput[] | Prisma.AuditEventUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.AuditEventCreateOrConnectWithoutActorInput | Prisma.AuditEventCreateOrConnectWithoutActorInput[]
+  createMany?: Prisma.AuditEventCreateManyActorInputEnvelope
+  connect?: Prisma.AuditEventWhereUniqueInput | Prisma.AuditEventWhereUniqueInput[]
+}
+
+export type AuditEventUpdateManyWithoutActorNestedInput = {
+  create?: Prisma.XOR<Prisma.AuditEventCreateWithoutActorInput, Prisma.AuditEventUncheckedCreateWithoutActorInput> | Prisma.AuditEventCreateWithoutActorInput[] | Prisma.AuditEventUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.AuditEventCreateOrConnectWithoutActorInput | Prisma.AuditEventCreateOrConnectWithoutActorInput[]
+  upsert?: Prisma.AuditEventUpsertWithWhereUniqueWithoutActorInput | Prisma.AuditEventUpsertWithWhereUniqueWithoutActorInput[]
+  createMany?: Prisma.AuditEventCreateManyActorInputEnvelope
+  set?: Prisma.AuditEventWhereUniqueInput | Prisma.AuditEventWhereUniqueInput[]
+  disconnect?: Prisma.AuditEventWhereUniqueInput | Prisma.AuditEventWhereUniqueInput[]
+  delete?: Prisma.AuditEventWhereUniqueInput | Prisma.AuditEventWhereUniqueInput[]
+  connect?: Prisma.AuditEventWhereUniqueInput | Prisma.AuditEventWhereUniqueInput[]
+  update?: Prisma.AuditEventUpdateWithWhereUniqueWithoutActorInput | Prisma.AuditEventUpdateWithWhereUniqueWithoutActorInput[]
+  updateMany?: Prisma.AuditEventUpdateManyWithWhereWithoutActorInput | Prisma.AuditEventUpdateManyWithWhereWithoutActorInput[]
+  deleteMany?: Prisma.AuditEventScalarWhereInput | Prisma.AuditEventScalarWhereInput[]
+}
+
+export type AuditEventUncheckedUpdateManyWithoutActorNestedInput = {
+  create?: Prisma.XOR<Prisma.AuditEventCreateWithoutActorInput, Prisma.AuditEventUncheckedCreateWithoutActorInput> | Prisma.AuditEventCreateWithoutActorInput[] | Prisma.AuditEventUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.AuditEventCreateOrConnectWithoutActorInput | Prisma.AuditEventCreateOrConnectWithoutActorInput[]
+  upsert?: Prisma.AuditEventUpsertWithWhereUniqueWithoutActorInput | Prisma.AuditEventUpsertWithWhereUniqueWithoutActorInput[]
+  createMany?: Prisma.AuditEventCreateManyActorInputEnvelope
+  set?: Prisma.AuditEventWhereUniqueInput | Prisma.AuditEventWhereUniqueInput[]
+  disconnect?: Prisma.AuditEventWhereUniqueInput | Prisma.AuditEventWhereUniqueInput[]
+  delete?: Prisma.AuditEventWhereUniqueInput | Prisma.AuditEventWhereUniqueInput[]
+  connect?: Prisma.AuditEventWhereUniqueInput | Prisma.AuditEventWhereUniqueInput[]
+  update?: Prisma.AuditEventUpdateWithWhereUniqueWithoutActorInput | Prisma.AuditEventUpdateWithWhereUniqueWithoutActorInput[]
+  updateMany?: Prisma.AuditEventUpdateManyWithWhereWithoutActorInput | Prisma.AuditEventUpdateManyWithWhereWithoutActorInput[]
+  deleteMany?: Prisma.AuditEventScalarWhereInput | Prisma.AuditEventScalarWhereInput[]
+}
+
+export type EnumAuditActionFieldUpdateOperationsInput = {
+  set?: $Enums.AuditAction
+}
+
+export type EnumAuditEntityTypeFieldUpdateOperationsInput = {
+  set?: $Enums.AuditEntityType
+}
+
+export type AuditEventCreateWithoutActorInput = {
+  id?: string
+  action: $Enums.AuditAction
+  actorName?: string | null
+  actorEmail?: string | null
+  entityType: $Enums.AuditEntityType
+  entityId: string
+  entityLabel?: string | null
+  changes?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  ipAddress?: string | null
+  createdAt?: Date | string
+}
+
+export type AuditEventUncheckedCreateWithoutActorInput = {
+  id?: string
+  action: $Enums.AuditAction
+  actorName?: string | null
+  actorEmail?: string | null
+  entityType: $Enums.AuditEntityType
+  entityId: string
+  entityLabel?: string | null
+  changes?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  ipAddress?: string | null
+  createdAt?: Date | string
+}
+
+export type AuditEventCreateOrConnectWithoutActorInput = {
+  where: Prisma.AuditEventWhereUniqueInput
+  create: Prisma.XOR<Prisma.AuditEventCreateWithoutActorInput, Prisma.AuditEventUncheckedCreateWithoutActorInput>
+}
+
+export type AuditEventCreateManyActorInputEnvelope = {
+  data: Prisma.AuditEventCreateManyActorInput | Prisma.AuditEventCreateManyActorInput[]
+  skipDuplicates?: boolean
+}
+
+export type AuditEventUpsertWithWhereUniqueWithoutActorInput = {
+  where: Prisma.AuditEventWhereUniqueInput
+  update: Prisma.XOR<Prisma.AuditEventUpdateWithoutActorInput, Prisma.AuditEventUncheckedUpdateWithoutActorInput>
+  create: Prisma.XOR<Prisma.AuditEventCreateWithoutActorInput, Prisma.AuditEventUncheckedCreateWithoutActorInput>
+}
+
+export type AuditEventUpdateWithWhereUniqueWithoutActorInput = {
+  where: Prisma.AuditEventWhereUniqueInput
+  data: Prisma.XOR<Prisma.AuditEventUpdateWithoutActorInput, Prisma.AuditEventUncheckedUpdateWithoutActorInput>
+}
+
+export type AuditEventUpdateManyWithWhereWithoutActorInput = {
+  where: Prisma.AuditEventScalarWhereInput
+  data: Prisma.XOR<Prisma.AuditEventUpdateManyMutationInput, Prisma.AuditEventUncheckedUpdateManyWithoutActorInput>
+}
+
+export type AuditEventScalarWhereInput = {
+  AND?: Prisma.AuditEventScalarWhereInput | Prisma.AuditEventScalarWhereInput[]
+  OR?: Prisma.AuditEventScalarWhereInput[]
+  NOT?: Prisma.AuditEventScalarWhereInput | Prisma.AuditEventScalarWhereInput[]
+  id?: Prisma.StringFilter<"AuditEvent"> | string
+  action?: Prisma.EnumAuditActionFilter<"AuditEvent"> | $Enums.AuditAction
+  actorId?: Prisma.StringNullableFilter<"AuditEvent"> | string | null
+  actorName?: Prisma.StringNullableFilter<"AuditEvent"> | string | null
+  actorEmail?: Prisma.StringNullableFilter<"AuditEvent"> | string | null
+  entityType?: Prisma.EnumAuditEntityTypeFilter<"AuditEvent"> | $Enums.AuditEntityType
+  entityId?: Prisma.StringFilter<"AuditEvent"> | string
+  entityLabel?: Prisma.StringNullableFilter<"AuditEvent"> | string | null
+  changes?: Prisma.JsonNullableFilter<"AuditEvent">
+  metadata?: Prisma.JsonNullableFilter<"AuditEvent">
+  ipAddress?: Prisma.StringNullableFilter<"AuditEvent"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"AuditEvent"> | Date | string
+}
+
+export type AuditEventCreateManyActorInput = {
+  id?: string
+  action: $Enums.AuditAction
+  actorName?: string | null
+  actorEmail?: string | null
+  entityType: $Enums.AuditEntityType
+  entityId: string
+  entityLabel?: string | null
+  changes?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  ipAddress?: string | null
+  createdAt?: Date | string
+}
+
+export type AuditEventUpdateWithoutActorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumAuditActionFieldUpdateOperationsInput | $Enums.AuditAction
+  actorName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  actorEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  entityType?: Prisma.EnumAuditEntityTypeFieldUpdateOperationsInput | $Enums.AuditEntityType
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  entityLabel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  changes?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  ipAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AuditEventUncheckedUpdateWithoutActorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumAuditActionFieldUpdateOperationsInput | $Enums.AuditAction
+  actorName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  actorEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  entityType?: Prisma.EnumAuditEntityTypeFieldUpdateOperationsInput | $Enums.AuditEntityType
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  entityLabel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  changes?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  ipAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AuditEventUncheckedUpdateManyWithoutActorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumAuditActionFieldUpdateOperationsInput | $Enums.AuditAction
+  actorName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  actorEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  entityType?: Prisma.EnumAuditEntityTypeFieldUpdateOperationsInput | $Enums.AuditEntityType
+  entityId?: Prisma.StringFieldUpdateOperationsInput | string
+  entityLabel?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  changes?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  ipAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type AuditEventSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  action?: boolean
+  actorId?: boolean
+  actorName?: boolean
+  actorEmail?: boolean
+  entityType?: boolean
+  entityId?: boolean
+  entityLabel?: boolean
+  changes?: boolean
+  metadata?: boolean
+  ipAddress?: boolean
+  createdAt?: boolean
+  actor?: boolean | Prisma.AuditEvent$actorArgs<ExtArgs>
+}, ExtArgs["result"]["auditEvent"]>
+
+export type AuditEventSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  action?: boolean
+  actorId?: boolean
+  actorName?: boolean
+  actorEmail?: boolean
+  entityType?: boolean
+  entityId?: boolean
+  entityLabel?: boolean
+  changes?: boolean
+  metadata?: boolean
+  ipAddress?: boolean
+  createdAt?: boolean
+  actor?: boolean | Prisma.AuditEvent$actorArgs<ExtArgs>
+}, ExtArgs["result"]["auditEvent"]>
+
+export type AuditEventSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  action?: boolean
+  actorId?: boolean
+  actorName?: boolean
+  actorEmail?: boolean
+  entityType?: boolean
+  entityId?: boolean
+  entityLabel?: boolean
+  changes?: boolean
+  metadata?: boolean
+  ipAddress?: boolean
+  createdAt?: boolean
+  actor?: boolean | Prisma.AuditEvent$actorArgs<ExtArgs>
+}, ExtArgs["result"]["auditEvent"]>
+
+export type AuditEventSelectScalar = {
+  id?: boolean
+  action?: boolean
+  actorId?: boolean
+  actorName?: boolean
+  actorEmail?: boolean
+  entityType?: boolean
+  entityId?: boolean
+  entityLabel?: boolean
+  changes?: boolean
+  metadata?: boolean
+  ipAddress?: boolean
+  createdAt?: boolean
+}
+
+export type AuditEventOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "action" | "actorId" | "actorName" | "actorEmail" | "entityType" | "entityId" | "entityLabel" | "changes" | "metadata" | "ipAddress" | "createdAt", ExtArgs["result"]["auditEvent"]>
+export type AuditEventInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  actor?: boolean | Prisma.AuditEvent$actorArgs<ExtArgs>
+}
+export type AuditEventIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  actor?: boolean | Prisma.AuditEvent$actorArgs<ExtArgs>
+}
+export type AuditEventIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  actor?: boolean | Prisma.AuditEvent$actorArgs<ExtArgs>
+}
+
+export type $AuditEventPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "AuditEvent"
+  objects: {
+    actor: Prisma.$UserPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    action: $Enums.AuditAction
+    actorId: string | null
+    actorName: string | null
+    actorEmail: string | null
+    entityType: $Enums.AuditEntityType
+    entityId: string
+    entityLabel: string | null
+    /**
+     * Changed fields, e.g. { "status": { "from": "PUBLISHED", "to": "ARCHIVED" } }.
+     */
+    changes: runtime.JsonValue | null
+    /**
+     * Further details such as the reason given for a suspension.
+     */
+    metadata: runtime.JsonValue | null
+    ipAddress: string | null
+    createdAt: Date
+  }, ExtArgs["result"]["auditEvent"]>
+  composites: {}
+}
+
+export type AuditEventGetPayload<S extends boolean | null | undefined | AuditEventDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$AuditEventPayload, S>
+
+export type AuditEventCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<AuditEventFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: AuditEventCountAggregateInputType | true
+  }
+
+export interface AuditEventDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['AuditEvent'], meta: { name: 'AuditEvent' } }
+  /**
+   * Find zero or one AuditEvent that matches the filter.
+   * @param {AuditEventFindUniqueArgs} args - Arguments to find a AuditEvent
+   * @example
+   * // Get one AuditEvent
+   * const auditEvent = await prisma.auditEvent.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends AuditEventFindUniqueArgs>(args: Prisma.SelectSubset<T, AuditEventFindUniqueArgs<ExtArgs>>): Prisma.Prisma__AuditEventClient<runtime.Types.Result.GetResult<Prisma.$AuditEventPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one AuditEvent that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {AuditEventFindUniqueOrThrowArgs} args - Arguments to find a AuditEvent
+   * @example
+   * // Get one AuditEvent
+   * const auditEvent = await prisma.auditEvent.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends AuditEventFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, AuditEventFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__AuditEventClient<runtime.Types.Result.GetResult<Prisma.$AuditEventPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first AuditEvent that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AuditEventFindFirstArgs} args - Arguments to find a AuditEvent
+   * @example
+   * // Get one AuditEvent
+   * const auditEvent = await prisma.auditEvent.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends AuditEventFindFirstArgs>(args?: Prisma.SelectSubset<T, AuditEventFindFirstArgs<ExtArgs>>): Prisma.Prisma__AuditEventClient<runtime.Types.Result.GetResult<Prisma.$AuditEventPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first AuditEvent that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AuditEventFindFirstOrThrowArgs} args - Arguments to find a AuditEvent
+   * @example
+   * // Get one AuditEvent
+   * const auditEvent = await prisma.auditEvent.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends AuditEventFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, AuditEventFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__AuditEventClient<runtime.Types.Result.GetResult<Prisma.$AuditEventPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more AuditEvents that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AuditEventFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all AuditEvents
+   * const auditEvents = await prisma.auditEvent.findMany()
+   * 
+   * // Get first 10 AuditEvents
+   * const auditEvents = await prisma.auditEvent.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const auditEventWithIdOnly = await prisma.auditEvent.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends AuditEventFindManyArgs>(args?: Prisma.SelectSubset<T, AuditEventFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AuditEventPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a AuditEvent.
+   * @param {AuditEventCreateArgs} args - Arguments to create a AuditEvent.
+   * @example
+   * // Create one AuditEvent
+   * const AuditEvent = await prisma.auditEvent.create({
+   *   data: {
+   *     // ... data to create a AuditEvent
+   *   }
+   * })
+   * 
+   */
+  create<T extends AuditEventCreateArgs>(args: Prisma.SelectSubset<T, AuditEventCreateArgs<ExtArgs>>): Prisma.Prisma__AuditEventClient<runtime.Types.Result.GetResult<Prisma.$AuditEventPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many AuditEvents.
+   * @param {AuditEventCreateManyArgs} args - Arguments to create many AuditEvents.
+   * @example
+   * // Create many AuditEvents
+   * const auditEvent = await prisma.auditEvent.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends AuditEventCreateManyArgs>(args?: Prisma.SelectSubset<T, AuditEventCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many AuditEvents and returns the data saved in the database.
+   * @param {AuditEventCreateManyAndReturnArgs} args - Arguments to create many AuditEvents.
+   * @example
+   * // Create many AuditEvents
+   * const auditEvent = await prisma.auditEvent.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many AuditEvents and only return the `id`
+   * const auditEventWithIdOnly = await prisma.auditEvent.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends AuditEventCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, AuditEventCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AuditEventPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a AuditEvent.
+   * @param {AuditEventDeleteArgs} args - Arguments to delete one AuditEvent.
+   * @example
+   * // Delete one AuditEvent
+   * const AuditEvent = await prisma.auditEvent.delete({
+   *   where: {
+   *     // ... filter to delete one AuditEvent
+   *   }
+   * })
+   * 
+   */
+  delete<T extends AuditEventDeleteArgs>(args: Prisma.SelectSubset<T, AuditEventDeleteArgs<ExtArgs>>): Prisma.Prisma__AuditEventClient<runtime.Types.Result.GetResult<Prisma.$AuditEventPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one AuditEvent.
+   * @param {AuditEventUpdateArgs} args - Arguments to update one AuditEvent.
+   * @example
+   * // Update one AuditEvent
+   * const auditEvent = await prisma.auditEvent.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends AuditEventUpdateArgs>(args: Prisma.SelectSubset<T, AuditEventUpdateArgs<ExtArgs>>): Prisma.Prisma__AuditEventClient<runtime.Types.Result.GetResult<Prisma.$AuditEventPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more AuditEvents.
+   * @param {AuditEventDeleteManyArgs} args - Arguments to filter AuditEvents to delete.
+   * @example
+   * // Delete a few AuditEvents
+   * const { count } = await prisma.auditEvent.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends AuditEventDeleteManyArgs>(args?: Prisma.SelectSubset<T, AuditEventDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more AuditEvents.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AuditEventUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many AuditEvents
+   * const auditEvent = await prisma.auditEvent.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends AuditEventUpdateManyArgs>(args: Prisma.SelectSubset<T, AuditEventUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more AuditEvents and returns the data updated in the database.
+   * @param {AuditEventUpdateManyAndReturnArgs} args - Arguments to update many AuditEvents.
+   * @example
+   * // Update many AuditEvents
+   * const auditEvent = await prisma.auditEvent.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more AuditEvents and only return the `id`
+   * const auditEventWithIdOnly = await prisma.auditEvent.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends AuditEventUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, AuditEventUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AuditEventPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one AuditEvent.
+   * @param {AuditEventUpsertArgs} args - Arguments to update or create a AuditEvent.
+   * @example
+   * // Update or create a AuditEvent
+   * const auditEvent = await prisma.auditEvent.upsert({
+   *   create: {
+   *     // ... data to create a AuditEvent
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the AuditEvent we want to update
+   *   }
+   * })
+   */
+  upsert<T extends AuditEventUpsertArgs>(args: Prisma.SelectSubset<T, AuditEventUpsertArgs<ExtArgs>>): Prisma.Prisma__AuditEventClient<runtime.Types.Result.GetResult<Prisma.$AuditEventPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of AuditEvents.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AuditEventCountArgs} args - Arguments to filter AuditEvents to count.
+   * @example
+   * // Count the number of AuditEvents
+   * const count = await prisma.auditEvent.count({
+   *   where: {
+   *     // ... the filter for the AuditEvents we want to count
+   *   }
+   * })
+  **/
+  count<T extends AuditEventCountArgs>(
+    args?: Prisma.Subset<T, AuditEventCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], AuditEventCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a AuditEvent.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AuditEventAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends AuditEventAggregateArgs>(args: Prisma.Subset<T, AuditEventAggregateArgs>): Prisma.PrismaPromise<GetAuditEventAggregateType<T>>
+
+  /**
+   * Group by AuditEvent.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AuditEventGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends AuditEventGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: AuditEventGroupByArgs['orderBy'] }
+      : { orderBy?: AuditEventGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, AuditEventGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetAuditEventGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the AuditEvent model
+ */
+readonly fields: AuditEventFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for AuditEvent.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__AuditEventClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  actor<T extends Prisma.AuditEvent$actorArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.AuditEvent$actorArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the AuditEvent model
+ */
+export interface AuditEventFieldRefs {
+  readonly id: Prisma.FieldRef<"AuditEvent", 'String'>
+  readonly action: Prisma.FieldRef<"AuditEvent", 'AuditAction'>
+  readonly actorId: Prisma.FieldRef<"AuditEvent", 'String'>
+  readonly actorName: Prisma.FieldRef<"AuditEvent", 'String'>
+  readonly actorEmail: Prisma.FieldRef<"AuditEvent", 'String'>
+  readonly entityType: Prisma.FieldRef<"AuditEvent", 'AuditEntityType'>
+  readonly entityId: Prisma.FieldRef<"AuditEvent", 'String'>
+  readonly entityLabel: Prisma.FieldRef<"AuditEvent", 'String'>
+  readonly changes: Prisma.FieldRef<"AuditEvent", 'Json'>
+  readonly metadata: Prisma.FieldRef<"AuditEvent", 'Json'>
+  readonly ipAddress: Prisma.FieldRef<"AuditEvent", 'String'>
+  readonly createdAt: Prisma.FieldRef<"AuditEvent", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * AuditEvent findUnique
+ */
+export type AuditEventFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AuditEvent
+   */
+  select?: Prisma.AuditEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AuditEvent
+   */
+  omit?: Prisma.AuditEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AuditEventInclude<ExtArgs> | null
+  /**
+   * Filter, which AuditEvent to fetch.
+   */
+  where: Prisma.AuditEventWhereUniqueInput
+}
+
+/**
+ * AuditEvent findUniqueOrThrow
+ */
+export type AuditEventFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AuditEvent
+   */
+  select?: Prisma.AuditEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AuditEvent
+   */
+  omit?: Prisma.AuditEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AuditEventInclude<ExtArgs> | null
+  /**
+   * Filter, which AuditEvent to fetch.
+   */
+  where: Prisma.AuditEventWhereUniqueInput
+}
+
+/**
+ * AuditEvent findFirst
+ */
+export type AuditEventFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AuditEvent
+   */
+  select?: Prisma.AuditEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AuditEvent
+   */
+  omit?: Prisma.AuditEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AuditEventInclude<ExtArgs> | null
+  /**
+   * Filter, which AuditEvent to fetch.
+   */
+  where?: Prisma.AuditEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AuditEvents to fetch.
+   */
+  orderBy?: Prisma.AuditEventOrderByWithRelationInput | Prisma.AuditEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for AuditEvents.
+   */
+  cursor?: Prisma.AuditEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AuditEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AuditEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of AuditEvents.
+   */
+  distinct?: Prisma.AuditEventScalarFieldEnum | Prisma.AuditEventScalarFieldEnum[]
+}
+
+/**
+ * AuditEvent findFirstOrThrow
+ */
+export type AuditEventFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AuditEvent
+   */
+  select?: Prisma.AuditEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AuditEvent
+   */
+  omit?: Prisma.AuditEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AuditEventInclude<ExtArgs> | null
+  /**
+   * Filter, which AuditEvent to fetch.
+   */
+  where?: Prisma.AuditEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AuditEvents to fetch.
+   */
+  orderBy?: Prisma.AuditEventOrderByWithRelationInput | Prisma.AuditEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for AuditEvents.
+   */
+  cursor?: Prisma.AuditEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AuditEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AuditEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of AuditEvents.
+   */
+  distinct?: Prisma.AuditEventScalarFieldEnum | Prisma.AuditEventScalarFieldEnum[]
+}
+
+/**
+ * AuditEvent findMany
+ */
+export type AuditEventFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AuditEvent
+   */
+  select?: Prisma.AuditEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AuditEvent
+   */
+  omit?: Prisma.AuditEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AuditEventInclude<ExtArgs> | null
+  /**
+   * Filter, which AuditEvents to fetch.
+   */
+  where?: Prisma.AuditEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AuditEvents to fetch.
+   */
+  orderBy?: Prisma.AuditEventOrderByWithRelationInput | Prisma.AuditEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing AuditEvents.
+   */
+  cursor?: Prisma.AuditEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AuditEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AuditEvents.
+   */
+  skip?: number
+  distinct?: Prisma.AuditEventScalarFieldEnum | Prisma.AuditEventScalarFieldEnum[]
+}
+
+/**
+ * AuditEvent create
+ */
+export type AuditEventCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AuditEvent
+   */
+  select?: Prisma.AuditEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AuditEvent
+   */
+  omit?: Prisma.AuditEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AuditEventInclude<ExtArgs> | null
+  /**
+   * The data needed to create a AuditEvent.
+   */
+  data: Prisma.XOR<Prisma.AuditEventCreateInput, Prisma.AuditEventUncheckedCreateInput>
+}
+
+/**
+ * AuditEvent createMany
+ */
+export type AuditEventCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many AuditEvents.
+   */
+  data: Prisma.AuditEventCreateManyInput | Prisma.AuditEventCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * AuditEvent createManyAndReturn
+ */
+export type AuditEventCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AuditEvent
+   */
+  select?: Prisma.AuditEventSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the AuditEvent
+   */
+  omit?: Prisma.AuditEventOmit<ExtArgs> | null
+  /**
+   * The data used to create many AuditEvents.
+   */
+  data: Prisma.AuditEventCreateManyInput | Prisma.AuditEventCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AuditEventIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * AuditEvent update
+ */
+export type AuditEventUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AuditEvent
+   */
+  select?: Prisma.AuditEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AuditEvent
+   */
+  omit?: Prisma.AuditEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AuditEventInclude<ExtArgs> | null
+  /**
+   * The data needed to update a AuditEvent.
+   */
+  data: Prisma.XOR<Prisma.AuditEventUpdateInput, Prisma.AuditEventUncheckedUpdateInput>
+  /**
+   * Choose, which AuditEvent to update.
+   */
+  where: Prisma.AuditEventWhereUniqueInput
+}
+
+/**
+ * AuditEvent updateMany
+ */
+export type AuditEventUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update AuditEvents.
+   */
+  data: Prisma.XOR<Prisma.AuditEventUpdateManyMutationInput, Prisma.AuditEventUncheckedUpdateManyInput>
+  /**
+   * Filter which AuditEvents to update
+   */
+  where?: Prisma.AuditEventWhereInput
+  /**
+   * Limit how many AuditEvents to update.
+   */
+  limit?: number
+}
+
+/**
+ * AuditEvent updateManyAndReturn
+ */
+export type AuditEventUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AuditEvent
+   */
+  select?: Prisma.AuditEventSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the AuditEvent
+   */
+  omit?: Prisma.AuditEventOmit<ExtArgs> | null
+  /**
+   * The data used to update AuditEvents.
+   */
+  data: Prisma.XOR<Prisma.AuditEventUpdateManyMutationInput, Prisma.AuditEventUncheckedUpdateManyInput>
+  /**
+   * Filter which AuditEvents to update
+   */
+  where?: Prisma.AuditEventWhereInput
+  /**
+   * Limit how many AuditEvents to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AuditEventIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * AuditEvent upsert
+ */
+export type AuditEventUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AuditEvent
+   */
+  select?: Prisma.AuditEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AuditEvent
+   */
+  omit?: Prisma.AuditEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AuditEventInclude<ExtArgs> | null
+  /**
+   * The filter to search for the AuditEvent to update in case it exists.
+   */
+  where: Prisma.AuditEventWhereUniqueInput
+  /**
+   * In case the AuditEvent found by the `where` argument doesn't exist, create a new AuditEvent with this data.
+   */
+  create: Prisma.XOR<Prisma.AuditEventCreateInput, Prisma.AuditEventUncheckedCreateInput>
+  /**
+   * In case the AuditEvent was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.AuditEventUpdateInput, Prisma.AuditEventUncheckedUpdateInput>
+}
+
+/**
+ * AuditEvent delete
+ */
+export type AuditEventDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AuditEvent
+   */
+  select?: Prisma.AuditEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AuditEvent
+   */
+  omit?: Prisma.AuditEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AuditEventInclude<ExtArgs> | null
+  /**
+   * Filter which AuditEvent to delete.
+   */
+  where: Prisma.AuditEventWhereUniqueInput
+}
+
+/**
+ * AuditEvent deleteMany
+ */
+export type AuditEventDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which AuditEvents to delete
+   */
+  where?: Prisma.AuditEventWhereInput
+  /**
+   * Limit how many AuditEvents to delete.
+   */
+  limit?: number
+}
+
+/**
+ * AuditEvent.actor
+ */
+export type AuditEvent$actorArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * AuditEvent without action
+ */
+export type AuditEventDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AuditEvent
+   */
+  select?: Prisma.AuditEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AuditEvent
+   */
+  omit?: Prisma.AuditEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AuditEventInclude<ExtArgs> | null
+}
@@ -0,0 +1,1427 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `Coordinator` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model Coordinator
+ * Profile for university staff managing projects.
+ */
+export type CoordinatorModel = runtime.Types.Result.DefaultSelection<Prisma.$CoordinatorPayload>
+
+export type AggregateCoordinator = {
+  _count: CoordinatorCountAggregateOutputType | null
+  _min: CoordinatorMinAggregateOutputType | null
+  _max: CoordinatorMaxAggregateOutputType | null
+}
+
+export type CoordinatorMinAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  department: string | null
+  title: string | null
+}
+
+export type CoordinatorMaxAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  department: string | null
+  title: string | null
+}
+
+export type CoordinatorCountAggregateOutputType = {
+  id: number
+  userId: number
+  department: number
+  title: number
+  areasOfExpertise: number
+  _all: number
+}
+
+
+export type CoordinatorMinAggregateInputType = {
+  id?: true
+  userId?: true
+  department?: true
+  title?: true
+}
+
+export type CoordinatorMaxAggregateInputType = {
+  id?: true
+  userId?: true
+  department?: true
+  title?: true
+}
+
+export type CoordinatorCountAggregateInputType = {
+  id?: true
+  userId?: true
+  department?: true
+  title?: true
+  areasOfExpertise?: true
+  _all?: true
+}
+
+export type CoordinatorAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Coordinator to aggregate.
+   */
+  where?: Prisma.CoordinatorWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Coordinators to fetch.
+   */
+  orderBy?: Prisma.CoordinatorOrderByWithRelationInput | Prisma.CoordinatorOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.CoordinatorWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Coordinators from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Coordinators.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned Coordinators
+  **/
+  _count?: true | CoordinatorCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: CoordinatorMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: CoordinatorMaxAggregateInputType
+}
+
+export type GetCoordinatorAggregateType<T extends CoordinatorAggregateArgs> = {
+      [P in keyof T & keyof AggregateCoordinator]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateCoordinator[P]>
+    : Prisma.GetScalarType<T[P], AggregateCoordinator[P]>
+}
+
+
+
+
+export type CoordinatorGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CoordinatorWhereInput
+  orderBy?: Prisma.CoordinatorOrderByWithAggregationInput | Prisma.CoordinatorOrderByWithAggregationInput[]
+  by: Prisma.CoordinatorScalarFieldEnum[] | Prisma.CoordinatorScalarFieldEnum
+  having?: Prisma.CoordinatorScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: CoordinatorCountAggregateInputType | true
+  _min?: CoordinatorMinAggregateInputType
+  _max?: CoordinatorMaxAggregateInputType
+}
+
+export type CoordinatorGroupByOutputType = {
+  id: string
+  userId: string
+  department: string | null
+  title: string | null
+  areasOfExpertise: string[]
+  _count: CoordinatorCountAggregateOutputType | null
+  _min: CoordinatorMinAggregateOutputType | null
+  _max: CoordinatorMaxAggregateOutputType | null
+}
+
+type GetCoordinatorGroupByPayload<T extends CoordinatorGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<CoordinatorGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof CoordinatorGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], CoordinatorGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], CoordinatorGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type CoordinatorWhereInput = {
+  AND?: Prisma.CoordinatorWhereInput | Prisma.CoordinatorWhereInput[]
+  OR?: Prisma.CoordinatorWhereInput[]
+  NOT?: Prisma.CoordinatorWhereInput | Prisma.CoordinatorWhereInput[]
+  id?: Prisma.StringFilter<"Coordinator"> | string
+  userId?: Prisma.StringFilter<"Coordinator"> | string
+  department?: Prisma.StringNullableFilter<"Coordinator"> | string | null
+  title?: Prisma.StringNullableFilter<"Coordinator"> | string | null
+  areasOfExpertise?: Prisma.StringNullableListFilter<"Coordinator">
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  projects?: Prisma.ProjectListRelationFilter
+}
+
+export type CoordinatorOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  department?: Prisma.SortOrderInput | Prisma.SortOrder
+  title?: Prisma.SortOrderInput | Prisma.SortOrder
+  areasOfExpertise?: Prisma.SortOrder
+  user?: Prisma.UserOrderByWithRelationInput
+  projects?: Prisma.ProjectOrderByRelationAggregateInput
+}
+
+export type CoordinatorWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  userId?: string
+  AND?: Prisma.CoordinatorWhereInput | Prisma.CoordinatorWhereInput[]
+  OR?: Prisma.CoordinatorWhereInput[]
+  NOT?: Prisma.CoordinatorWhereInput | Prisma.CoordinatorWhereInput[]
+  department?: Prisma.StringNullableFilter<"Coordinator"> | string | null
+  title?: Prisma.StringNullableFilter<"Coordinator"> | string | null
+  areasOfExpertise?: Prisma.StringNullableListFilter<"Coordinator">
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  projects?: Prisma.ProjectListRelationFilter
+}, "id" | "userId">
+
+export type CoordinatorOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  department?: Prisma.SortOrderInput | Prisma.SortOrder
+  title?: Prisma.SortOrderInput | Prisma.SortOrder
+  areasOfExpertise?: Prisma.SortOrder
+  _count?: Prisma.CoordinatorCountOrderByAggregateInput
+  _max?: Prisma.CoordinatorMaxOrderByAggregateInput
+  _min?: Prisma.CoordinatorMinOrderByAggregateInput
+}
+
+export type CoordinatorScalarWhereWithAggregatesInput = {
+  AND?: Prisma.CoordinatorScalarWhereWithAggregatesInput | Prisma.CoordinatorScalarWhereWithAggregatesInput[]
+  OR?: Prisma.CoordinatorScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.CoordinatorScalarWhereWithAggregatesInput | Prisma.CoordinatorScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"Coordinator"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"Coordinator"> | string
+  department?: Prisma.StringNullableWithAggregatesFilter<"Coordinator"> | string | null
+  title?: Prisma.StringNullableWithAggregatesFilter<"Coordinator"> | string | null
+  areasOfExpertise?: Prisma.StringNullableListFilter<"Coordinator">
+}
+
+export type CoordinatorCreateInput = {
+  id?: string
+  department?: string | null
+  title?: string | null
+  areasOfExpertise?: Prisma.CoordinatorCreateareasOfExpertiseInput | string[]
+  user: Prisma.UserCreateNestedOneWithoutCoordinatorInput
+  projects?: Prisma.ProjectCreateNestedManyWithoutCoordinatorInput
+}
+
+export type CoordinatorUncheckedCreateInput = {
+  id?: string
+  userId: string
+  department?: string | null
+  title?: string | null
+  areasOfExpertise?: Prisma.CoordinatorCreateareasOfExpertiseInput | string[]
+  projects?: Prisma.ProjectUncheckedCreateNestedManyWithoutCoordinatorInput
+}
+
+export type CoordinatorUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  department?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  areasOfExpertise?: Prisma.CoordinatorUpdateareasOfExpertiseInput | string[]
+  user?: Prisma.UserUpdateOneRequiredWithoutCoordinatorNestedInput
+  projects?: Prisma.ProjectUpdateManyWithoutCoordinatorNestedInput
+}
+
+export type CoordinatorUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  department?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  areasOfExpertise?: Prisma.CoordinatorUpdateareasOfExpertiseInput | string[]
+  projects?: Prisma.ProjectUncheckedUpdateManyWithoutCoordinatorNestedInput
+}
+
+export type CoordinatorCreateManyInput = {
+  id?: string
+  userId: string
+  department?: string | null
+  title?: string | null
+  areasOfExpertise?: Prisma.CoordinatorCreateareasOfExpertiseInput | string[]
+}
+
+export type CoordinatorUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  department?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  areasOfExpertise?: Prisma.CoordinatorUpdateareasOfExpertiseInput | string[]
+}
+
+export type CoordinatorUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  department?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  areasOfExpertise?: Prisma.CoordinatorUpdateareasOfExpertiseInput | string[]
+}
+
+export type CoordinatorNullableScalarRelationFilter = {
+  is?: Prisma.CoordinatorWhereInput | null
+  isNot?: Prisma.CoordinatorWhereInput | null
+}
+
+export type CoordinatorCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  department?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  areasOfExpertise?: Prisma.SortOrder
+}
+
+export type CoordinatorMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  department?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+}
+
+export type CoordinatorMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  department?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+}
+
+export type CoordinatorCreateNestedOneWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.CoordinatorCreateWithoutUserInput, Prisma.CoordinatorUncheckedCreateWithoutUserInput>
+  connectOrCreate?: Prisma.CoordinatorCreateOrConnectWithoutUserInput
+  connect?: Prisma.CoordinatorWhereUniqueInput
+}
+
+export type CoordinatorUncheckedCreateNestedOneWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.CoordinatorCreateWithoutUserInput, Prisma.CoordinatorUncheckedCreateWithoutUserInput>
+  connectOrCreate?: Prisma.CoordinatorCreateOrConnectWithoutUserInput
+  connect?: Prisma.CoordinatorWhereUniqueInput
+}
+
+export type CoordinatorUpdateOneWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.CoordinatorCreateWithoutUserInput, Prisma.CoordinatorUncheckedCreateWithoutUserInput>
+  connectOrCreate?: Prisma.CoordinatorCreateOrConnectWithoutUserInput
+  upsert?: Prisma.CoordinatorUpsertWithoutUserInput
+  disconnect?: Prisma.CoordinatorWhereInput | boolean
+  delete?: Prisma.CoordinatorWhereInput | boolean
+  connect?: Prisma.CoordinatorWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CoordinatorUpdateToOneWithWhereWithoutUserInput, Prisma.CoordinatorUpdateWithoutUserInput>, Prisma.CoordinatorUncheckedUpdateWithoutUserInput>
+}
+
+export type CoordinatorUncheckedUpdateOneWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.CoordinatorCreateWithoutUserInput, Prisma.CoordinatorUncheckedCreateWithoutUserInput>
+  connectOrCreate?: Prisma.CoordinatorCreateOrConnectWithoutUserInput
+  upsert?: Prisma.CoordinatorUpsertWithoutUserInput
+  disconnect?: Prisma.CoordinatorWhereInput | boolean
+  delete?: Prisma.CoordinatorWhereInput | boolean
+  connect?: Prisma.CoordinatorWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CoordinatorUpdateToOneWithWhereWithoutUserInput, Prisma.CoordinatorUpdateWithoutUserInput>, Prisma.CoordinatorUncheckedUpdateWithoutUserInput>
+}
+
+export type CoordinatorCreateareasOfExpertiseInput = {
+  set: string[]
+}
+
+export type CoordinatorUpdateareasOfExpertiseInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type CoordinatorCreateNestedOneWithoutProjectsInput = {
+  create?: Prisma.XOR<Prisma.CoordinatorCreateWithoutProjectsInput, Prisma.CoordinatorUncheckedCreateWithoutProjectsInput>
+  connectOrCreate?: Prisma.CoordinatorCreateOrConnectWithoutProjectsInput
+  connect?: Prisma.CoordinatorWhereUniqueInput
+}
+
+export type CoordinatorUpdateOneWithoutProjectsNestedInput = {
+  create?: Prisma.XOR<Prisma.CoordinatorCreateWithoutProjectsInput, Prisma.CoordinatorUncheckedCreateWithoutProjectsInput>
+  connectOrCreate?: Prisma.CoordinatorCreateOrConnectWithoutProjectsInput
+  upsert?: Prisma.CoordinatorUpsertWithoutProjectsInput
+  disconnect?: Prisma.CoordinatorWhereInput | boolean
+  delete?: Prisma.CoordinatorWhereInput | boolean
+  connect?: Prisma.CoordinatorWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CoordinatorUpdateToOneWithWhereWithoutProjectsInput, Prisma.CoordinatorUpdateWithoutProjectsInput>, Prisma.CoordinatorUncheckedUpdateWithoutProjectsInput>
+}
+
+export type CoordinatorCreateWithoutUserInput = {
+  id?: string
+  department?: string | null
+  title?: string | null
+  areasOfExpertise?: Prisma.CoordinatorCreateareasOfExpertiseInput | string[]
+  projects?: Prisma.ProjectCreateNestedManyWithoutCoordinatorInput
+}
+
+export type CoordinatorUncheckedCreateWithoutUserInput = {
+  id?: string
+  department?: string | null
+  title?: string | null
+  areasOfExpertise?: Prisma.CoordinatorCreateareasOfExpertiseInput | string[]
+  projects?: Prisma.ProjectUncheckedCreateNestedManyWithoutCoordinatorInput
+}
+
+export type CoordinatorCreateOrConnectWithoutUserInput = {
+  where: Prisma.CoordinatorWhereUniqueInput
+  create: Prisma.XOR<Prisma.CoordinatorCreateWithoutUserInput, Prisma.CoordinatorUncheckedCreateWithoutUserInput>
+}
+
+export type CoordinatorUpsertWithoutUserInput = {
+  update: Prisma.XOR<Prisma.CoordinatorUpdateWithoutUserInput, Prisma.CoordinatorUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.CoordinatorCreateWithoutUserInput, Prisma.CoordinatorUncheckedCreateWithoutUserInput>
+  where?: Prisma.CoordinatorWhereInput
+}
+
+export type CoordinatorUpdateToOneWithWhereWithoutUserInput = {
+  where?: Prisma.CoordinatorWhereInput
+  data: Prisma.XOR<Prisma.CoordinatorUpdateWithoutUserInput, Prisma.CoordinatorUncheckedUpdateWithoutUserInput>
+}
+
+export type CoordinatorUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  department?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  areasOfExpertise?: Prisma.CoordinatorUpdateareasOfExpertiseInput | string[]
+  projects?: Prisma.ProjectUpdateManyWithoutCoordinatorNestedInput
+}
+
+export type CoordinatorUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  department?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  areasOfExpertise?: Prisma.CoordinatorUpdateareasOfExpertiseInput | string[]
+  projects?: Prisma.ProjectUncheckedUpdateManyWithoutCoordinatorNestedInput
+}
+
+export type CoordinatorCreateWithoutProjectsInput = {
+  id?: string
+  department?: string | null
+  title?: string | null
+  areasOfExpertise?: Prisma.CoordinatorCreateareasOfExpertiseInput | string[]
+  user: Prisma.UserCreateNestedOneWithoutCoordinatorInput
+}
+
+export type CoordinatorUncheckedCreateWithoutProjectsInput = {
+  id?: string
+  userId: string
+  department?: string | null
+  title?: string | null
+  areasOfExpertise?: Prisma.CoordinatorCreateareasOfExpertiseInput | string[]
+}
+
+export type CoordinatorCreateOrConnectWithoutProjectsInput = {
+  where: Prisma.CoordinatorWhereUniqueInput
+  create: Prisma.XOR<Prisma.CoordinatorCreateWithoutProjectsInput, Prisma.CoordinatorUncheckedCreateWithoutProjectsInput>
+}
+
+export type CoordinatorUpsertWithoutProjectsInput = {
+  update: Prisma.XOR<Prisma.CoordinatorUpdateWithoutProjectsInput, Prisma.CoordinatorUncheckedUpdateWithoutProjectsInput>
+  create: Prisma.XOR<Prisma.CoordinatorCreateWithoutProjectsInput, Prisma.CoordinatorUncheckedCreateWithoutProjectsInput>
+  where?: Prisma.CoordinatorWhereInput
+}
+
+export type CoordinatorUpdateToOneWithWhereWithoutProjectsInput = {
+  where?: Prisma.CoordinatorWhereInput
+  data: Prisma.XOR<Prisma.CoordinatorUpdateWithoutProjectsInput, Prisma.CoordinatorUncheckedUpdateWithoutProjectsInput>
+}
+
+export type CoordinatorUpdateWithoutProjectsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  department?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  areasOfExpertise?: Prisma.CoordinatorUpdateareasOfExpertiseInput | string[]
+  user?: Prisma.UserUpdateOneRequiredWithoutCoordinatorNestedInput
+}
+
+export type CoordinatorUncheckedUpdateWithoutProjectsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  department?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  title?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  areasOfExpertise?: Prisma.CoordinatorUpdateareasOfExpertiseInput | string[]
+}
+
+
+/**
+ * Count Type CoordinatorCountOutputType
+ */
+
+export type CoordinatorCountOutputType = {
+  projects: number
+}
+
+export type CoordinatorCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  projects?: boolean | CoordinatorCountOutputTypeCountProjectsArgs
+}
+
+/**
+ * CoordinatorCountOutputType without action
+ */
+export type CoordinatorCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CoordinatorCountOutputType
+   */
+  select?: Prisma.CoordinatorCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * CoordinatorCountOutputType without action
+ */
+export type CoordinatorCountOutputTypeCountProjectsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ProjectWhereInput
+}
+
+
+export type CoordinatorSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  department?: boolean
+  title?: boolean
+  areasOfExpertise?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  projects?: boolean | Prisma.Coordinator$projectsArgs<ExtArgs>
+  _count?: boolean | Prisma.CoordinatorCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["coordinator"]>
+
+export type CoordinatorSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  department?: boolean
+  title?: boolean
+  areasOfExpertise?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["coordinator"]>
+
+export type CoordinatorSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  department?: boolean
+  title?: boolean
+  areasOfExpertise?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["coordinator"]>
+
+export type CoordinatorSelectScalar = {
+  id?: boolean
+  userId?: boolean
+  department?: boolean
+  title?: boolean
+  areasOfExpertise?: boolean
+}
+
+export type CoordinatorOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "department" | "title" | "areasOfExpertise", ExtArgs["result"]["coordinator"]>
+export type CoordinatorInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  projects?: boolean | Prisma.Coordinator$projectsArgs<ExtArgs>
+  _count?: boolean | Prisma.CoordinatorCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type CoordinatorIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type CoordinatorIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $CoordinatorPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "Coordinator"
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>
+    projects: Prisma.$ProjectPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    userId: string
+    department: string | null
+    title: string | null
+    areasOfExpertise: string[]
+  }, ExtArgs["result"]["coordinator"]>
+  composites: {}
+}
+
+export type CoordinatorGetPayload<S extends boolean | null | undefined | CoordinatorDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$CoordinatorPayload, S>
+
+export type CoordinatorCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<CoordinatorFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: CoordinatorCountAggregateInputType | true
+  }
+
+export interface CoordinatorDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Coordinator'], meta: { name: 'Coordinator' } }
+  /**
+   * Find zero or one Coordinator that matches the filter.
+   * @param {CoordinatorFindUniqueArgs} args - Arguments to find a Coordinator
+   * @example
+   * // Get one Coordinator
+   * const coordinator = await prisma.coordinator.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends CoordinatorFindUniqueArgs>(args: Prisma.SelectSubset<T, CoordinatorFindUniqueArgs<ExtArgs>>): Prisma.Prisma__CoordinatorClient<runtime.Types.Result.GetResult<Prisma.$CoordinatorPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one Coordinator that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {CoordinatorFindUniqueOrThrowArgs} args - Arguments to find a Coordinator
+   * @example
+   * // Get one Coordinator
+   * const coordinator = await prisma.coordinator.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends CoordinatorFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, CoordinatorFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__CoordinatorClient<runtime.Types.Result.GetResult<Prisma.$CoordinatorPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Coordinator that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CoordinatorFindFirstArgs} args - Arguments to find a Coordinator
+   * @example
+   * // Get one Coordinator
+   * const coordinator = await prisma.coordinator.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends CoordinatorFindFirstArgs>(args?: Prisma.SelectSubset<T, CoordinatorFindFirstArgs<ExtArgs>>): Prisma.Prisma__CoordinatorClient<runtime.Types.Result.GetResult<Prisma.$CoordinatorPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Coordinator that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CoordinatorFindFirstOrThrowArgs} args - Arguments to find a Coordinator
+   * @example
+   * // Get one Coordinator
+   * const coordinator = await prisma.coordinator.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends CoordinatorFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, CoordinatorFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__CoordinatorClient<runtime.Types.Result.GetResult<Prisma.$CoordinatorPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more Coordinators that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CoordinatorFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all Coordinators
+   * const coordinators = await prisma.coordinator.findMany()
+   * 
+   * // Get first 10 Coordinators
+   * const coordinators = await prisma.coordinator.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const coordinatorWithIdOnly = await prisma.coordinator.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends CoordinatorFindManyArgs>(args?: Prisma.SelectSubset<T, CoordinatorFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CoordinatorPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a Coordinator.
+   * @param {CoordinatorCreateArgs} args - Arguments to create a Coordinator.
+   * @example
+   * // Create one Coordinator
+   * const Coordinator = await prisma.coordinator.create({
+   *   data: {
+   *     // ... data to create a Coordinator
+   *   }
+   * })
+   * 
+   */
+  create<T extends CoordinatorCreateArgs>(args: Prisma.SelectSubset<T, CoordinatorCreateArgs<ExtArgs>>): Prisma.Prisma__CoordinatorClient<runtime.Types.Result.GetResult<Prisma.$CoordinatorPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many Coordinators.
+   * @param {CoordinatorCreateManyArgs} args - Arguments to create many Coordinators.
+   * @example
+   * // Create many Coordinators
+   * const coordinator = await prisma.coordinator.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends CoordinatorCreateManyArgs>(args?: Prisma.SelectSubset<T, CoordinatorCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many Coordinators and returns the data saved in the database.
+   * @param {CoordinatorCreateManyAndReturnArgs} args - Arguments to create many Coordinators.
+   * @example
+   * // Create many Coordinators
+   * const coordinator = await prisma.coordinator.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many Coordinators and only return the `id`
+   * const coordinatorWithIdOnly = await prisma.coordinator.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends CoordinatorCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, CoordinatorCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CoordinatorPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a Coordinator.
+   * @param {CoordinatorDeleteArgs} args - Arguments to delete one Coordinator.
+   * @example
+   * // Delete one Coordinator
+   * const Coordinator = await prisma.coordinator.delete({
+   *   where: {
+   *     // ... filter to delete one Coordinator
+   *   }
+   * })
+   * 
+   */
+  delete<T extends CoordinatorDeleteArgs>(args: Prisma.SelectSubset<T, CoordinatorDeleteArgs<ExtArgs>>): Prisma.Prisma__CoordinatorClient<runtime.Types.Result.GetResult<Prisma.$CoordinatorPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one Coordinator.
+   * @param {CoordinatorUpdateArgs} args - Arguments to update one Coordinator.
+   * @example
+   * // Update one Coordinator
+   * const coordinator = await prisma.coordinator.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends CoordinatorUpdateArgs>(args: Prisma.SelectSubset<T, CoordinatorUpdateArgs<ExtArgs>>): Prisma.Prisma__CoordinatorClient<runtime.Types.Result.GetResult<Prisma.$CoordinatorPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more Coordinators.
+   * @param {CoordinatorDeleteManyArgs} args - Arguments to filter Coordinators to delete.
+   * @example
+   * // Delete a few Coordinators
+   * const { count } = await prisma.coordinator.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends CoordinatorDeleteManyArgs>(args?: Prisma.SelectSubset<T, CoordinatorDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Coordinators.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CoordinatorUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many Coordinators
+   * const coordinator = await prisma.coordinator.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends CoordinatorUpdateManyArgs>(args: Prisma.SelectSubset<T, CoordinatorUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Coordinators and returns the data updated in the database.
+   * @param {CoordinatorUpdateManyAndReturnArgs} args - Arguments to update many Coordinators.
+   * @example
+   * // Update many Coordinators
+   * const coordinator = await prisma.coordinator.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more Coordinators and only return the `id`
+   * const coordinatorWithIdOnly = await prisma.coordinator.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends CoordinatorUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, CoordinatorUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CoordinatorPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one Coordinator.
+   * @param {CoordinatorUpsertArgs} args - Arguments to update or create a Coordinator.
+   * @example
+   * // Update or create a Coordinator
+   * const coordinator = await prisma.coordinator.upsert({
+   *   create: {
+   *     // ... data to create a Coordinator
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the Coordinator we want to update
+   *   }
+   * })
+   */
+  upsert<T extends CoordinatorUpsertArgs>(args: Prisma.SelectSubset<T, CoordinatorUpsertArgs<ExtArgs>>): Prisma.Prisma__CoordinatorClient<runtime.Types.Result.GetResult<Prisma.$CoordinatorPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of Coordinators.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CoordinatorCountArgs} args - Arguments to filter Coordinators to count.
+   * @example
+   * // Count the number of Coordinators
+   * const count = await prisma.coordinator.count({
+   *   where: {
+   *     // ... the filter for the Coordinators we want to count
+   *   }
+   * })
+  **/
+  count<T extends CoordinatorCountArgs>(
+    args?: Prisma.Subset<T, CoordinatorCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], CoordinatorCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a Coordinator.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CoordinatorAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends CoordinatorAggregateArgs>(args: Prisma.Subset<T, CoordinatorAggregateArgs>): Prisma.PrismaPromise<GetCoordinatorAggregateType<T>>
+
+  /**
+   * Group by Coordinator.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CoordinatorGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends CoordinatorGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: CoordinatorGroupByArgs['orderBy'] }
+      : { orderBy?: CoordinatorGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, CoordinatorGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetCoordinatorGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the Coordinator model
+ */
+readonly fields: CoordinatorFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Coordinator.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__CoordinatorClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  projects<T extends Prisma.Coordinator$projectsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Coordinator$projectsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the Coordinator model
+ */
+export interface CoordinatorFieldRefs {
+  readonly id: Prisma.FieldRef<"Coordinator", 'String'>
+  readonly userId: Prisma.FieldRef<"Coordinator", 'String'>
+  readonly department: Prisma.FieldRef<"Coordinator", 'String'>
+  readonly title: Prisma.FieldRef<"Coordinator", 'String'>
+  readonly areasOfExpertise: Prisma.FieldRef<"Coordinator", 'String[]'>
+}
+    
+
+// Custom InputTypes
+/**
+ * Coordinator findUnique
+ */
+export type CoordinatorFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coordinator
+   */
+  select?: Prisma.CoordinatorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coordinator
+   */
+  omit?: Prisma.CoordinatorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CoordinatorInclude<ExtArgs> | null
+  /**
+   * Filter, which Coordinator to fetch.
+   */
+  where: Prisma.CoordinatorWhereUniqueInput
+}
+
+/**
+ * Coordinator findUniqueOrThrow
+ */
+export type CoordinatorFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coordinator
+   */
+  select?: Prisma.CoordinatorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coordinator
+   */
+  omit?: Prisma.CoordinatorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CoordinatorInclude<ExtArgs> | null
+  /**
+   * Filter, which Coordinator to fetch.
+   */
+  where: Prisma.CoordinatorWhereUniqueInput
+}
+
+/**
+ * Coordinator findFirst
+ */
+export type CoordinatorFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coordinator
+   */
+  select?: Prisma.CoordinatorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coordinator
+   */
+  omit?: Prisma.CoordinatorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CoordinatorInclude<ExtArgs> | null
+  /**
+   * Filter, which Coordinator to fetch.
+   */
+  where?: Prisma.CoordinatorWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Coordinators to fetch.
+   */
+  orderBy?: Prisma.CoordinatorOrderByWithRelationInput | Prisma.CoordinatorOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Coordinators.
+   */
+  cursor?: Prisma.CoordinatorWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Coordinators from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Coordinators.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Coordinators.
+   */
+  distinct?: Prisma.CoordinatorScalarFieldEnum | Prisma.CoordinatorScalarFieldEnum[]
+}
+
+/**
+ * Coordinator findFirstOrThrow
+ */
+export type CoordinatorFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coordinator
+   */
+  select?: Prisma.CoordinatorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coordinator
+   */
+  omit?: Prisma.CoordinatorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CoordinatorInclude<ExtArgs> | null
+  /**
+   * Filter, which Coordinator to fetch.
+   */
+  where?: Prisma.CoordinatorWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Coordinators to fetch.
+   */
+  orderBy?: Prisma.CoordinatorOrderByWithRelationInput | Prisma.CoordinatorOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Coordinators.
+   */
+  cursor?: Prisma.CoordinatorWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Coordinators from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Coordinators.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Coordinators.
+   */
+  distinct?: Prisma.CoordinatorScalarFieldEnum | Prisma.CoordinatorScalarFieldEnum[]
+}
+
+/**
+ * Coordinator findMany
+ */
+export type CoordinatorFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coordinator
+   */
+  select?: Prisma.CoordinatorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coordinator
+   */
+  omit?: Prisma.CoordinatorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CoordinatorInclude<ExtArgs> | null
+  /**
+   * Filter, which Coordinators to fetch.
+   */
+  where?: Prisma.CoordinatorWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Coordinators to fetch.
+   */
+  orderBy?: Prisma.CoordinatorOrderByWithRelationInput | Prisma.CoordinatorOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing Coordinators.
+   */
+  cursor?: Prisma.CoordinatorWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Coordinators from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Coordinators.
+   */
+  skip?: number
+  distinct?: Prisma.CoordinatorScalarFieldEnum | Prisma.CoordinatorScalarFieldEnum[]
+}
+
+/**
+ * Coordinator create
+ */
+export type CoordinatorCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coordinator
+   */
+  select?: Prisma.CoordinatorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coordinator
+   */
+  omit?: Prisma.CoordinatorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CoordinatorInclude<ExtArgs> | null
+  /**
+   * The data needed to create a Coordinator.
+   */
+  data: Prisma.XOR<Prisma.CoordinatorCreateInput, Prisma.CoordinatorUncheckedCreateInput>
+}
+
+/**
+ * Coordinator createMany
+ */
+export type CoordinatorCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many Coordinators.
+   */
+  data: Prisma.CoordinatorCreateManyInput | Prisma.CoordinatorCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * Coordinator createManyAndReturn
+ */
+export type CoordinatorCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coordinator
+   */
+  select?: Prisma.CoordinatorSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coordinator
+   */
+  omit?: Prisma.CoordinatorOmit<ExtArgs> | null
+  /**
+   * The data used to create many Coordinators.
+   */
+  data: Prisma.CoordinatorCreateManyInput | Prisma.CoordinatorCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CoordinatorIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Coordinator update
+ */
+export type CoordinatorUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coordinator
+   */
+  select?: Prisma.CoordinatorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coordinator
+   */
+  omit?: Prisma.CoordinatorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CoordinatorInclude<ExtArgs> | null
+  /**
+   * The data needed to update a Coordinator.
+   */
+  data: Prisma.XOR<Prisma.CoordinatorUpdateInput, Prisma.CoordinatorUncheckedUpdateInput>
+  /**
+   * Choose, which Coordinator to update.
+   */
+  where: Prisma.CoordinatorWhereUniqueInput
+}
+
+/**
+ * Coordinator updateMany
+ */
+export type CoordinatorUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update Coordinators.
+   */
+  data: Prisma.XOR<Prisma.CoordinatorUpdateManyMutationInput, Prisma.CoordinatorUncheckedUpdateManyInput>
+  /**
+   * Filter which Coordinators to update
+   */
+  where?: Prisma.CoordinatorWhereInput
+  /**
+   * Limit how many Coordinators to update.
+   */
+  limit?: number
+}
+
+/**
+ * Coordinator updateManyAndReturn
+ */
+export type CoordinatorUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coordinator
+   */
+  select?: Prisma.CoordinatorSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coordinator
+   */
+  omit?: Prisma.CoordinatorOmit<ExtArgs> | null
+  /**
+   * The data used to update Coordinators.
+   */
+  data: Prisma.XOR<Prisma.CoordinatorUpdateManyMutationInput, Prisma.CoordinatorUncheckedUpdateManyInput>
+  /**
+   * Filter which Coordinators to update
+   */
+  where?: Prisma.CoordinatorWhereInput
+  /**
+   * Limit how many Coordinators to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CoordinatorIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Coordinator upsert
+ */
+export type CoordinatorUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coordinator
+   */
+  select?: Prisma.CoordinatorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coordinator
+   */
+  omit?: Prisma.CoordinatorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CoordinatorInclude<ExtArgs> | null
+  /**
+   * The filter to search for the Coordinator to update in case it exists.
+   */
+  where: Prisma.CoordinatorWhereUniqueInput
+  /**
+   * In case the Coordinator found by the `where` argument doesn't exist, create a new Coordinator with this data.
+   */
+  create: Prisma.XOR<Prisma.CoordinatorCreateInput, Prisma.CoordinatorUncheckedCreateInput>
+  /**
+   * In case the Coordinator was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.CoordinatorUpdateInput, Prisma.CoordinatorUncheckedUpdateInput>
+}
+
+/**
+ * Coordinator delete
+ */
+export type CoordinatorDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coordinator
+   */
+  select?: Prisma.CoordinatorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coordinator
+   */
+  omit?: Prisma.CoordinatorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CoordinatorInclude<ExtArgs> | null
+  /**
+   * Filter which Coordinator to delete.
+   */
+  where: Prisma.CoordinatorWhereUniqueInput
+}
+
+/**
+ * Coordinator deleteMany
+ */
+export type CoordinatorDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Coordinators to delete
+   */
+  where?: Prisma.CoordinatorWhereInput
+  /**
+   * Limit how many Coordinators to delete.
+   */
+  limit?: number
+}
+
+/**
+ * Coordinator.projects
+ */
+export type Coordinator$projectsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Project
+   */
+  select?: Prisma.ProjectSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Project
+   */
+  omit?: Prisma.ProjectOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectInclude<ExtArgs> | null
+  where?: Prisma.ProjectWhereInput
+  orderBy?: Prisma.ProjectOrderByWithRelationInput | Prisma.ProjectOrderByWithRelationInput[]
+  cursor?: Prisma.ProjectWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ProjectScalarFieldEnum | Prisma.ProjectScalarFieldEnum[]
+}
+
+/**
+ * Coordinator without action
+ */
+export type CoordinatorDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coordinator
+   */
+  select?: Prisma.CoordinatorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coordinator
+   */
+  omit?: Prisma.CoordinatorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CoordinatorInclude<ExtArgs> | null
+}
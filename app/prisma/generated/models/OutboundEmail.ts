@@ -0,0 +1,1424 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `OutboundEmail` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model OutboundEmail
+ * Rendered email waiting for, or done with, SMTP delivery.
+ * Failed attempts are retried with exponential backoff until the attempt limit is reached.
+ */
+export type OutboundEmailModel = runtime.Types.Result.DefaultSelection<Prisma.$OutboundEmailPayload>
+
+export type AggregateOutboundEmail = {
+  _count: OutboundEmailCountAggregateOutputType | null
+  _avg: OutboundEmailAvgAggregateOutputType | null
+  _sum: OutboundEmailSumAggregateOutputType | null
+  _min: OutboundEmailMinAggregateOutputType | null
+  _max: OutboundEmailMaxAggregateOutputType | null
+}
+
+export type OutboundEmailAvgAggregateOutputType = {
+  attempts: number | null
+}
+
+export type OutboundEmailSumAggregateOutputType = {
+  attempts: number | null
+}
+
+export type OutboundEmailMinAggregateOutputType = {
+  id: string | null
+  from: string | null
+  to: string | null
+  subject: string | null
+  html: string | null
+  templateKey: $Enums.EmailTemplateKey | null
+  status: $Enums.OutboundEmailStatus | null
+  attempts: number | null
+  lastError: string | null
+  nextAttemptAt: Date | null
+  sentAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type OutboundEmailMaxAggregateOutputType = {
+  id: string | null
+  from: string | null
+  to: string | null
+  subject: string | null
+  html: string | null
+  templateKey: $Enums.EmailTemplateKey | null
+  status: $Enums.OutboundEmailStatus | null
+  attempts: number | null
+  lastError: string | null
+  nextAttemptAt: Date | null
+  sentAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type OutboundEmailCountAggregateOutputType = {
+  id: number
+  from: number
+  to: number
+  subject: number
+  html: number
+  templateKey: number
+  status: number
+  attempts: number
+  lastError: number
+  nextAttemptAt: number
+  sentAt: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type OutboundEmailAvgAggregateInputType = {
+  attempts?: true
+}
+
+export type OutboundEmailSumAggregateInputType = {
+  attempts?: true
+}
+
+export type OutboundEmailMinAggregateInputType = {
+  id?: true
+  from?: true
+  to?: true
+  subject?: true
+  html?: true
+  templateKey?: true
+  status?: true
+  attempts?: true
+  lastError?: true
+  nextAttemptAt?: true
+  sentAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type OutboundEmailMaxAggregateInputType = {
+  id?: true
+  from?: true
+  to?: true
+  subject?: true
+  html?: true
+  templateKey?: true
+  status?: true
+  attempts?: true
+  lastError?: true
+  nextAttemptAt?: true
+  sentAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type OutboundEmailCountAggregateInputType = {
+  id?: true
+  from?: true
+  to?: true
+  subject?: true
+  html?: true
+  templateKey?: true
+  status?: true
+  attempts?: true
+  lastError?: true
+  nextAttemptAt?: true
+  sentAt?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type OutboundEmailAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which OutboundEmail to aggregate.
+   */
+  where?: Prisma.OutboundEmailWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OutboundEmails to fetch.
+   */
+  orderBy?: Prisma.OutboundEmailOrderByWithRelationInput | Prisma.OutboundEmailOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.OutboundEmailWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OutboundEmails from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OutboundEmails.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned OutboundEmails
+  **/
+  _count?: true | OutboundEmailCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: OutboundEmailAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: OutboundEmailSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: OutboundEmailMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: OutboundEmailMaxAggregateInputType
+}
+
+export type GetOutboundEmailAggregateType<T extends OutboundEmailAggregateArgs> = {
+      [P in keyof T & keyof AggregateOutboundEmail]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateOutboundEmail[P]>
+    : Prisma.GetScalarType<T[P], AggregateOutboundEmail[P]>
+}
+
+
+
+
+export type OutboundEmailGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.OutboundEmailWhereInput
+  orderBy?: Prisma.OutboundEmailOrderByWithAggregationInput | Prisma.OutboundEmailOrderByWithAggregationInput[]
+  by: Prisma.OutboundEmailScalarFieldEnum[] | Prisma.OutboundEmailScalarFieldEnum
+  having?: Prisma.OutboundEmailScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: OutboundEmailCountAggregateInputType | true
+  _avg?: OutboundEmailAvgAggregateInputType
+  _sum?: OutboundEmailSumAggregateInputType
+  _min?: OutboundEmailMinAggregateInputType
+  _max?: OutboundEmailMaxAggregateInputType
+}
+
+export type OutboundEmailGroupByOutputType = {
+  id: string
+  from: string
+  to: string
+  subject: string
+  html: string
+  templateKey: $Enums.EmailTemplateKey | null
+  status: $Enums.OutboundEmailStatus
+  attempts: number
+  lastError: string | null
+  nextAttemptAt: Date
+  sentAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+  _count: OutboundEmailCountAggregateOutputType | null
+  _avg: OutboundEmailAvgAggregateOutputType | null
+  _sum: OutboundEmailSumAggregateOutputType | null
+  _min: OutboundEmailMinAggregateOutputType | null
+  _max: OutboundEmailMaxAggregateOutputType | null
+}
+
+type GetOutboundEmailGroupByPayload<T extends OutboundEmailGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<OutboundEmailGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof OutboundEmailGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], OutboundEmailGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], OutboundEmailGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type OutboundEmailWhereInput = {
+  AND?: Prisma.OutboundEmailWhereInput | Prisma.OutboundEmailWhereInput[]
+  OR?: Prisma.OutboundEmailWhereInput[]
+  NOT?: Prisma.OutboundEmailWhereInput | Prisma.OutboundEmailWhereInput[]
+  id?: Prisma.StringFilter<"OutboundEmail"> | string
+  from?: Prisma.StringFilter<"OutboundEmail"> | string
+  to?: Prisma.StringFilter<"OutboundEmail"> | string
+  subject?: Prisma.StringFilter<"OutboundEmail"> | string
+  html?: Prisma.StringFilter<"OutboundEmail"> | string
+  templateKey?: Prisma.EnumEmailTemplateKeyNullableFilter<"OutboundEmail"> | $Enums.EmailTemplateKey | null
+  status?: Prisma.EnumOutboundEmailStatusFilter<"OutboundEmail"> | $Enums.OutboundEmailStatus
+  attempts?: Prisma.IntFilter<"OutboundEmail"> | number
+  lastError?: Prisma.StringNullableFilter<"OutboundEmail"> | string | null
+  nextAttemptAt?: Prisma.DateTimeFilter<"OutboundEmail"> | Date | string
+  sentAt?: Prisma.DateTimeNullableFilter<"OutboundEmail"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"OutboundEmail"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"OutboundEmail"> | Date | string
+}
+
+export type OutboundEmailOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  from?: Prisma.SortOrder
+  to?: Prisma.SortOrder
+  subject?: Prisma.SortOrder
+  html?: Prisma.SortOrder
+  templateKey?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  lastError?: Prisma.SortOrderInput | Prisma.SortOrder
+  nextAttemptAt?: Prisma.SortOrder
+  sentAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type OutboundEmailWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.OutboundEmailWhereInput | Prisma.OutboundEmailWhereInput[]
+  OR?: Prisma.OutboundEmailWhereInput[]
+  NOT?: Prisma.OutboundEmailWhereInput | Prisma.OutboundEmailWhereInput[]
+  from?: Prisma.StringFilter<"OutboundEmail"> | string
+  to?: Prisma.StringFilter<"OutboundEmail"> | string
+  subject?: Prisma.StringFilter<"OutboundEmail"> | string
+  html?: Prisma.StringFilter<"OutboundEmail"> | string
+  templateKey?: Prisma.EnumEmailTemplateKeyNullableFilter<"OutboundEmail"> | $Enums.EmailTemplateKey | null
+  status?: Prisma.EnumOutboundEmailStatusFilter<"OutboundEmail"> | $Enums.OutboundEmailStatus
+  attempts?: Prisma.IntFilter<"OutboundEmail"> | number
+  lastError?: Prisma.StringNullableFilter<"OutboundEmail"> | string | null
+  nextAttemptAt?: Prisma.DateTimeFilter<"OutboundEmail"> | Date | string
+  sentAt?: Prisma.DateTimeNullableFilter<"OutboundEmail"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"OutboundEmail"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"OutboundEmail"> | Date | string
+}, "id">
+
+export type OutboundEmailOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  from?: Prisma.SortOrder
+  to?: Prisma.SortOrder
+  subject?: Prisma.SortOrder
+  html?: Prisma.SortOrder
+  templateKey?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  lastError?: Prisma.SortOrderInput | Prisma.SortOrder
+  nextAttemptAt?: Prisma.SortOrder
+  sentAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.OutboundEmailCountOrderByAggregateInput
+  _avg?: Prisma.OutboundEmailAvgOrderByAggregateInput
+  _max?: Prisma.OutboundEmailMaxOrderByAggregateInput
+  _min?: Prisma.OutboundEmailMinOrderByAggregateInput
+  _sum?: Prisma.OutboundEmailSumOrderByAggregateInput
+}
+
+export type OutboundEmailScalarWhereWithAggregatesInput = {
+  AND?: Prisma.OutboundEmailScalarWhereWithAggregatesInput | Prisma.OutboundEmailScalarWhereWithAggregatesInput[]
+  OR?: Prisma.OutboundEmailScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.OutboundEmailScalarWhereWithAggregatesInput | Prisma.OutboundEmailScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"OutboundEmail"> | string
+  from?: Prisma.StringWithAggregatesFilter<"OutboundEmail"> | string
+  to?: Prisma.StringWithAggregatesFilter<"OutboundEmail"> | string
+  subject?: Prisma.StringWithAggregatesFilter<"OutboundEmail"> | string
+  html?: Prisma.StringWithAggregatesFilter<"OutboundEmail"> | string
+  templateKey?: Prisma.EnumEmailTemplateKeyNullableWithAggregatesFilter<"OutboundEmail"> | $Enums.EmailTemplateKey | null
+  status?: Prisma.EnumOutboundEmailStatusWithAggregatesFilter<"OutboundEmail"> | $Enums.OutboundEmailStatus
+  attempts?: Prisma.IntWithAggregatesFilter<"OutboundEmail"> | number
+  lastError?: Prisma.StringNullableWithAggregatesFilter<"OutboundEmail"> | string | null
+  nextAttemptAt?: Prisma.DateTimeWithAggregatesFilter<"OutboundEmail"> | Date | string
+  sentAt?: Prisma.DateTimeNullableWithAggregatesFilter<"OutboundEmail"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"OutboundEmail"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"OutboundEmail"> | Date | string
+}
+
+export type OutboundEmailCreateInput = {
+  id?: string
+  from: string
+  to: string
+  subject: string
+  html: string
+  templateKey?: $Enums.EmailTemplateKey | null
+  status?: $Enums.OutboundEmailStatus
+  attempts?: number
+  lastError?: string | null
+  nextAttemptAt?: Date | string
+  sentAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type OutboundEmailUncheckedCreateInput = {
+  id?: string
+  from: string
+  to: string
+  subject: string
+  html: string
+  templateKey?: $Enums.EmailTemplateKey | null
+  status?: $Enums.OutboundEmailStatus
+  attempts?: number
+  lastError?: string | null
+  nextAttemptAt?: Date | string
+  sentAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type OutboundEmailUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  from?: Prisma.StringFieldUpdateOperationsInput | string
+  to?: Prisma.StringFieldUpdateOperationsInput | string
+  subject?: Prisma.StringFieldUpdateOperationsInput | string
+  html?: Prisma.StringFieldUpdateOperationsInput | string
+  templateKey?: Prisma.NullableEnumEmailTemplateKeyFieldUpdateOperationsInput | $Enums.EmailTemplateKey | null
+  status?: Prisma.EnumOutboundEmailStatusFieldUpdateOperationsInput | $Enums.OutboundEmailStatus
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nextAttemptAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OutboundEmailUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  from?: Prisma.StringFieldUpdateOperationsInput | string
+  to?: Prisma.StringFieldUpdateOperationsInput | string
+  subject?: Prisma.StringFieldUpdateOperationsInput | string
+  html?: Prisma.StringFieldUpdateOperationsInput | string
+  templateKey?: Prisma.NullableEnumEmailTemplateKeyFieldUpdateOperationsInput | $Enums.EmailTemplateKey | null
+  status?: Prisma.EnumOutboundEmailStatusFieldUpdateOperationsInput | $Enums.OutboundEmailStatus
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nextAttemptAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OutboundEmailCreateManyInput = {
+  id?: string
+  from: string
+  to: string
+  subject: string
+  html: string
+  templateKey?: $Enums.EmailTemplateKey | null
+  status?: $Enums.OutboundEmailStatus
+  attempts?: number
+  lastError?: string | null
+  nextAttemptAt?: Date | string
+  sentAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type OutboundEmailUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  from?: Prisma.StringFieldUpdateOperationsInput | string
+  to?: Prisma.StringFieldUpdateOperationsInput | string
+  subject?: Prisma.StringFieldUpdateOperationsInput | string
+  html?: Prisma.StringFieldUpdateOperationsInput | string
+  templateKey?: Prisma.NullableEnumEmailTemplateKeyFieldUpdateOperationsInput | $Enums.EmailTemplateKey | null
+  status?: Prisma.EnumOutboundEmailStatusFieldUpdateOperationsInput | $Enums.OutboundEmailStatus
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nextAttemptAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OutboundEmailUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  from?: Prisma.StringFieldUpdateOperationsInput | string
+  to?: Prisma.StringFieldUpdateOperationsInput | string
+  subject?: Prisma.StringFieldUpdateOperationsInput | string
+  html?: Prisma.StringFieldUpdateOperationsInput | string
+  templateKey?: Prisma.NullableEnumEmailTemplateKeyFieldUpdateOperationsInput | $Enums.EmailTemplateKey | null
+  status?: Prisma.EnumOutboundEmailStatusFieldUpdateOperationsInput | $Enums.OutboundEmailStatus
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nextAttemptAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type OutboundEmailCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  from?: Prisma.SortOrder
+  to?: Prisma.SortOrder
+  subject?: Prisma.SortOrder
+  html?: Prisma.SortOrder
+  templateKey?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  lastError?: Prisma.SortOrder
+  nextAttemptAt?: Prisma.SortOrder
+  sentAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type OutboundEmailAvgOrderByAggregateInput = {
+  attempts?: Prisma.SortOrder
+}
+
+export type OutboundEmailMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  from?: Prisma.SortOrder
+  to?: Prisma.SortOrder
+  subject?: Prisma.SortOrder
+  html?: Prisma.SortOrder
+  templateKey?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  lastError?: Prisma.SortOrder
+  nextAttemptAt?: Prisma.SortOrder
+  sentAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type OutboundEmailMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  from?: Prisma.SortOrder
+  to?: Prisma.SortOrder
+  subject?: Prisma.SortOrder
+  html?: Prisma.SortOrder
+  templateKey?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  lastError?: Prisma.SortOrder
+  nextAttemptAt?: Prisma.SortOrder
+  sentAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type OutboundEmailSumOrderByAggregateInput = {
+  attempts?: Prisma.SortOrder
+}
+
+export type NullableEnumEmailTemplateKeyFieldUpdateOperationsInput = {
+  set?: $Enums.EmailTemplateKey | null
+}
+
+export type EnumOutboundEmailStatusFieldUpdateOperationsInput = {
+  set?: $Enums.OutboundEmailStatus
+}
+
+
+
+export type OutboundEmailSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  from?: boolean
+  to?: boolean
+  subject?: boolean
+  html?: boolean
+  templateKey?: boolean
+  status?: boolean
+  attempts?: boolean
+  lastError?: boolean
+  nextAttemptAt?: boolean
+  sentAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["outboundEmail"]>
+
+export type OutboundEmailSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  from?: boolean
+  to?: boolean
+  subject?: boolean
+  html?: boolean
+  templateKey?: boolean
+  status?: boolean
+  attempts?: boolean
+  lastError?: boolean
+  nextAttemptAt?: boolean
+  sentAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["outboundEmail"]>
+
+export type OutboundEmailSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  from?: boolean
+  to?: boolean
+  subject?: boolean
+  html?: boolean
+  templateKey?: boolean
+  status?: boolean
+  attempts?: boolean
+  lastError?: boolean
+  nextAttemptAt?: boolean
+  sentAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["outboundEmail"]>
+
+export type OutboundEmailSelectScalar = {
+  id?: boolean
+  from?: boolean
+  to?: boolean
+  subject?: boolean
+  html?: boolean
+  templateKey?: boolean
+  status?: boolean
+  attempts?: boolean
+  lastError?: boolean
+  nextAttemptAt?: boolean
+  sentAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type OutboundEmailOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "from" | "to" | "subject" | "html" | "templateKey" | "status" | "attempts" | "lastError" | "nextAttemptAt" | "sentAt" | "createdAt" | "updatedAt", ExtArgs["result"]["outboundEmail"]>
+
+export type $OutboundEmailPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "OutboundEmail"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    from: string
+    to: string
+    subject: string
+    html: string
+    /**
+     * Template the email was rendered from; emails of single-use link templates are never resent.
+     */
+    templateKey: $Enums.EmailTemplateKey | null
+    status: $Enums.OutboundEmailStatus
+    attempts: number
+    lastError: string | null
+    nextAttemptAt: Date
+    sentAt: Date | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["outboundEmail"]>
+  composites: {}
+}
+
+export type OutboundEmailGetPayload<S extends boolean | null | undefined | OutboundEmailDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$OutboundEmailPayload, S>
+
+export type OutboundEmailCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<OutboundEmailFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: OutboundEmailCountAggregateInputType | true
+  }
+
+export interface OutboundEmailDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['OutboundEmail'], meta: { name: 'OutboundEmail' } }
+  /**
+   * Find zero or one OutboundEmail that matches the filter.
+   * @param {OutboundEmailFindUniqueArgs} args - Arguments to find a OutboundEmail
+   * @example
+   * // Get one OutboundEmail
+   * const outboundEmail = await prisma.outboundEmail.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends OutboundEmailFindUniqueArgs>(args: Prisma.SelectSubset<T, OutboundEmailFindUniqueArgs<ExtArgs>>): Prisma.Prisma__OutboundEmailClient<runtime.Types.Result.GetResult<Prisma.$OutboundEmailPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one OutboundEmail that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {OutboundEmailFindUniqueOrThrowArgs} args - Arguments to find a OutboundEmail
+   * @example
+   * // Get one OutboundEmail
+   * const outboundEmail = await prisma.outboundEmail.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends OutboundEmailFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, OutboundEmailFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__OutboundEmailClient<runtime.Types.Result.GetResult<Prisma.$OutboundEmailPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first OutboundEmail that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OutboundEmailFindFirstArgs} args - Arguments to find a OutboundEmail
+   * @example
+   * // Get one OutboundEmail
+   * const outboundEmail = await prisma.outboundEmail.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends OutboundEmailFindFirstArgs>(args?: Prisma.SelectSubset<T, OutboundEmailFindFirstArgs<ExtArgs>>): Prisma.Prisma__OutboundEmailClient<runtime.Types.Result.GetResult<Prisma.$OutboundEmailPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first OutboundEmail that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OutboundEmailFindFirstOrThrowArgs} args - Arguments to find a OutboundEmail
+   * @example
+   * // Get one OutboundEmail
+   * const outboundEmail = await prisma.outboundEmail.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends OutboundEmailFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, OutboundEmailFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__OutboundEmailClient<runtime.Types.Result.GetResult<Prisma.$OutboundEmailPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more OutboundEmails that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OutboundEmailFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all OutboundEmails
+   * const outboundEmails = await prisma.outboundEmail.findMany()
+   * 
+   * // Get first 10 OutboundEmails
+   * const outboundEmails = await prisma.outboundEmail.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const outboundEmailWithIdOnly = await prisma.outboundEmail.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends OutboundEmailFindManyArgs>(args?: Prisma.SelectSubset<T, OutboundEmailFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OutboundEmailPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a OutboundEmail.
+   * @param {OutboundEmailCreateArgs} args - Arguments to create a OutboundEmail.
+   * @example
+   * // Create one OutboundEmail
+   * const OutboundEmail = await prisma.outboundEmail.create({
+   *   data: {
+   *     // ... data to create a OutboundEmail
+   *   }
+   * })
+   * 
+   */
+  create<T extends OutboundEmailCreateArgs>(args: Prisma.SelectSubset<T, OutboundEmailCreateArgs<ExtArgs>>): Prisma.Prisma__OutboundEmailClient<runtime.Types.Result.GetResult<Prisma.$OutboundEmailPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many OutboundEmails.
+   * @param {OutboundEmailCreateManyArgs} args - Arguments to create many OutboundEmails.
+   * @example
+   * // Create many OutboundEmails
+   * const outboundEmail = await prisma.outboundEmail.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends OutboundEmailCreateManyArgs>(args?: Prisma.SelectSubset<T, OutboundEmailCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many OutboundEmails and returns the data saved in the database.
+   * @param {OutboundEmailCreateManyAndReturnArgs} args - Arguments to create many OutboundEmails.
+   * @example
+   * // Create many OutboundEmails
+   * const outboundEmail = await prisma.outboundEmail.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many OutboundEmails and only return the `id`
+   * const outboundEmailWithIdOnly = await prisma.outboundEmail.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends OutboundEmailCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, OutboundEmailCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OutboundEmailPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a OutboundEmail.
+   * @param {OutboundEmailDeleteArgs} args - Arguments to delete one OutboundEmail.
+   * @example
+   * // Delete one OutboundEmail
+   * const OutboundEmail = await prisma.outboundEmail.delete({
+   *   where: {
+   *     // ... filter to delete one OutboundEmail
+   *   }
+   * })
+   * 
+   */
+  delete<T extends OutboundEmailDeleteArgs>(args: Prisma.SelectSubset<T, OutboundEmailDeleteArgs<ExtArgs>>): Prisma.Prisma__OutboundEmailClient<runtime.Types.Result.GetResult<Prisma.$OutboundEmailPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one OutboundEmail.
+   * @param {OutboundEmailUpdateArgs} args - Arguments to update one OutboundEmail.
+   * @example
+   * // Update one OutboundEmail
+   * const outboundEmail = await prisma.outboundEmail.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends OutboundEmailUpdateArgs>(args: Prisma.SelectSubset<T, OutboundEmailUpdateArgs<ExtArgs>>): Prisma.Prisma__OutboundEmailClient<runtime.Types.Result.GetResult<Prisma.$OutboundEmailPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more OutboundEmails.
+   * @param {OutboundEmailDeleteManyArgs} args - Arguments to filter OutboundEmails to delete.
+   * @example
+   * // Delete a few OutboundEmails
+   * const { count } = await prisma.outboundEmail.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends OutboundEmailDeleteManyArgs>(args?: Prisma.SelectSubset<T, OutboundEmailDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more OutboundEmails.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OutboundEmailUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many OutboundEmails
+   * const outboundEmail = await prisma.outboundEmail.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends OutboundEmailUpdateManyArgs>(args: Prisma.SelectSubset<T, OutboundEmailUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more OutboundEmails and returns the data updated in the database.
+   * @param {OutboundEmailUpdateManyAndReturnArgs} args - Arguments to update many OutboundEmails.
+   * @example
+   * // Update many OutboundEmails
+   * const outboundEmail = await prisma.outboundEmail.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more OutboundEmails and only return the `id`
+   * const outboundEmailWithIdOnly = await prisma.outboundEmail.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends OutboundEmailUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, OutboundEmailUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$OutboundEmailPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one OutboundEmail.
+   * @param {OutboundEmailUpsertArgs} args - Arguments to update or create a OutboundEmail.
+   * @example
+   * // Update or create a OutboundEmail
+   * const outboundEmail = await prisma.outboundEmail.upsert({
+   *   create: {
+   *     // ... data to create a OutboundEmail
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the OutboundEmail we want to update
+   *   }
+   * })
+   */
+  upsert<T extends OutboundEmailUpsertArgs>(args: Prisma.SelectSubset<T, OutboundEmailUpsertArgs<ExtArgs>>): Prisma.Prisma__OutboundEmailClient<runtime.Types.Result.GetResult<Prisma.$OutboundEmailPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of OutboundEmails.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OutboundEmailCountArgs} args - Arguments to filter OutboundEmails to count.
+   * @example
+   * // Count the number of OutboundEmails
+   * const count = await prisma.outboundEmail.count({
+   *   where: {
+   *     // ... the filter for the OutboundEmails we want to count
+   *   }
+   * })
+  **/
+  count<T extends OutboundEmailCountArgs>(
+    args?: Prisma.Subset<T, OutboundEmailCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], OutboundEmailCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a OutboundEmail.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OutboundEmailAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends OutboundEmailAggregateArgs>(args: Prisma.Subset<T, OutboundEmailAggregateArgs>): Prisma.PrismaPromise<GetOutboundEmailAggregateType<T>>
+
+  /**
+   * Group by OutboundEmail.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {OutboundEmailGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends OutboundEmailGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: OutboundEmailGroupByArgs['orderBy'] }
+      : { orderBy?: OutboundEmailGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, OutboundEmailGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetOutboundEmailGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the OutboundEmail model
+ */
+readonly fields: OutboundEmailFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for OutboundEmail.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__OutboundEmailClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the OutboundEmail model
+ */
+export interface OutboundEmailFieldRefs {
+  readonly id: Prisma.FieldRef<"OutboundEmail", 'String'>
+  readonly from: Prisma.FieldRef<"OutboundEmail", 'String'>
+  readonly to: Prisma.FieldRef<"OutboundEmail", 'String'>
+  readonly subject: Prisma.FieldRef<"OutboundEmail", 'String'>
+  readonly html: Prisma.FieldRef<"OutboundEmail", 'String'>
+  readonly templateKey: Prisma.FieldRef<"OutboundEmail", 'EmailTemplateKey'>
+  readonly status: Prisma.FieldRef<"OutboundEmail", 'OutboundEmailStatus'>
+  readonly attempts: Prisma.FieldRef<"OutboundEmail", 'Int'>
+  readonly lastError: Prisma.FieldRef<"OutboundEmail", 'String'>
+  readonly nextAttemptAt: Prisma.FieldRef<"OutboundEmail", 'DateTime'>
+  readonly sentAt: Prisma.FieldRef<"OutboundEmail", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"OutboundEmail", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"OutboundEmail", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * OutboundEmail findUnique
+ */
+export type OutboundEmailFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OutboundEmail
+   */
+  select?: Prisma.OutboundEmailSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OutboundEmail
+   */
+  omit?: Prisma.OutboundEmailOmit<ExtArgs> | null
+  /**
+   * Filter, which OutboundEmail to fetch.
+   */
+  where: Prisma.OutboundEmailWhereUniqueInput
+}
+
+/**
+ * OutboundEmail findUniqueOrThrow
+ */
+export type OutboundEmailFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OutboundEmail
+   */
+  select?: Prisma.OutboundEmailSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OutboundEmail
+   */
+  omit?: Prisma.OutboundEmailOmit<ExtArgs> | null
+  /**
+   * Filter, which OutboundEmail to fetch.
+   */
+  where: Prisma.OutboundEmailWhereUniqueInput
+}
+
+/**
+ * OutboundEmail findFirst
+ */
+export type OutboundEmailFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OutboundEmail
+   */
+  select?: Prisma.OutboundEmailSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OutboundEmail
+   */
+  omit?: Prisma.OutboundEmailOmit<ExtArgs> | null
+  /**
+   * Filter, which OutboundEmail to fetch.
+   */
+  where?: Prisma.OutboundEmailWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OutboundEmails to fetch.
+   */
+  orderBy?: Prisma.OutboundEmailOrderByWithRelationInput | Prisma.OutboundEmailOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for OutboundEmails.
+   */
+  cursor?: Prisma.OutboundEmailWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OutboundEmails from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OutboundEmails.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of OutboundEmails.
+   */
+  distinct?: Prisma.OutboundEmailScalarFieldEnum | Prisma.OutboundEmailScalarFieldEnum[]
+}
+
+/**
+ * OutboundEmail findFirstOrThrow
+ */
+export type OutboundEmailFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OutboundEmail
+   */
+  select?: Prisma.OutboundEmailSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OutboundEmail
+   */
+  omit?: Prisma.OutboundEmailOmit<ExtArgs> | null
+  /**
+   * Filter, which OutboundEmail to fetch.
+   */
+  where?: Prisma.OutboundEmailWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OutboundEmails to fetch.
+   */
+  orderBy?: Prisma.OutboundEmailOrderByWithRelationInput | Prisma.OutboundEmailOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for OutboundEmails.
+   */
+  cursor?: Prisma.OutboundEmailWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OutboundEmails from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OutboundEmails.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of OutboundEmails.
+   */
+  distinct?: Prisma.OutboundEmailScalarFieldEnum | Prisma.OutboundEmailScalarFieldEnum[]
+}
+
+/**
+ * OutboundEmail findMany
+ */
+export type OutboundEmailFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OutboundEmail
+   */
+  select?: Prisma.OutboundEmailSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OutboundEmail
+   */
+  omit?: Prisma.OutboundEmailOmit<ExtArgs> | null
+  /**
+   * Filter, which OutboundEmails to fetch.
+   */
+  where?: Prisma.OutboundEmailWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of OutboundEmails to fetch.
+   */
+  orderBy?: Prisma.OutboundEmailOrderByWithRelationInput | Prisma.OutboundEmailOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing OutboundEmails.
+   */
+  cursor?: Prisma.OutboundEmailWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` OutboundEmails from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` OutboundEmails.
+   */
+  skip?: number
+  distinct?: Prisma.OutboundEmailScalarFieldEnum | Prisma.OutboundEmailScalarFieldEnum[]
+}
+
+/**
+ * OutboundEmail create
+ */
+export type OutboundEmailCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OutboundEmail
+   */
+  select?: Prisma.OutboundEmailSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OutboundEmail
+   */
+  omit?: Prisma.OutboundEmailOmit<ExtArgs> | null
+  /**
+   * The data needed to create a OutboundEmail.
+   */
+  data: Prisma.XOR<Prisma.OutboundEmailCreateInput, Prisma.OutboundEmailUncheckedCreateInput>
+}
+
+/**
+ * OutboundEmail createMany
+ */
+export type OutboundEmailCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many OutboundEmails.
+   */
+  data: Prisma.OutboundEmailCreateManyInput | Prisma.OutboundEmailCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * OutboundEmail createManyAndReturn
+ */
+export type OutboundEmailCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OutboundEmail
+   */
+  select?: Prisma.OutboundEmailSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the OutboundEmail
+   */
+  omit?: Prisma.OutboundEmailOmit<ExtArgs> | null
+  /**
+   * The data used to create many OutboundEmails.
+   */
+  data: Prisma.OutboundEmailCreateManyInput | Prisma.OutboundEmailCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * OutboundEmail update
+ */
+export type OutboundEmailUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OutboundEmail
+   */
+  select?: Prisma.OutboundEmailSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OutboundEmail
+   */
+  omit?: Prisma.OutboundEmailOmit<ExtArgs> | null
+  /**
+   * The data needed to update a OutboundEmail.
+   */
+  data: Prisma.XOR<Prisma.OutboundEmailUpdateInput, Prisma.OutboundEmailUncheckedUpdateInput>
+  /**
+   * Choose, which OutboundEmail to update.
+   */
+  where: Prisma.OutboundEmailWhereUniqueInput
+}
+
+/**
+ * OutboundEmail updateMany
+ */
+export type OutboundEmailUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update OutboundEmails.
+   */
+  data: Prisma.XOR<Prisma.OutboundEmailUpdateManyMutationInput, Prisma.OutboundEmailUncheckedUpdateManyInput>
+  /**
+   * Filter which OutboundEmails to update
+   */
+  where?: Prisma.OutboundEmailWhereInput
+  /**
+   * Limit how many OutboundEmails to update.
+   */
+  limit?: number
+}
+
+/**
+ * OutboundEmail updateManyAndReturn
+ */
+export type OutboundEmailUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OutboundEmail
+   */
+  select?: Prisma.OutboundEmailSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the OutboundEmail
+   */
+  omit?: Prisma.OutboundEmailOmit<ExtArgs> | null
+  /**
+   * The data used to update OutboundEmails.
+   */
+  data: Prisma.XOR<Prisma.OutboundEmailUpdateManyMutationInput, Prisma.OutboundEmailUncheckedUpdateManyInput>
+  /**
+   * Filter which OutboundEmails to update
+   */
+  where?: Prisma.OutboundEmailWhereInput
+  /**
+   * Limit how many OutboundEmails to update.
+   */
+  limit?: number
+}
+
+/**
+ * OutboundEmail upsert
+ */
+export type OutboundEmailUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OutboundEmail
+   */
+  select?: Prisma.OutboundEmailSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OutboundEmail
+   */
+  omit?: Prisma.OutboundEmailOmit<ExtArgs> | null
+  /**
+   * The filter to search for the OutboundEmail to update in case it exists.
+   */
+  where: Prisma.OutboundEmailWhereUniqueInput
+  /**
+   * In case the OutboundEmail found by the `where` argument doesn't exist, create a new OutboundEmail with this data.
+   */
+  create: Prisma.XOR<Prisma.OutboundEmailCreateInput, Prisma.OutboundEmailUncheckedCreateInput>
+  /**
+   * In case the OutboundEmail was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.OutboundEmailUpdateInput, Prisma.OutboundEmailUncheckedUpdateInput>
+}
+
+/**
+ * OutboundEmail delete
+ */
+export type OutboundEmailDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OutboundEmail
+   */
+  select?: Prisma.OutboundEmailSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OutboundEmail
+   */
+  omit?: Prisma.OutboundEmailOmit<ExtArgs> | null
+  /**
+   * Filter which OutboundEmail to delete.
+   */
+  where: Prisma.OutboundEmailWhereUniqueInput
+}
+
+/**
+ * OutboundEmail deleteMany
+ */
+export type OutboundEmailDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which OutboundEmails to delete
+   */
+  where?: Prisma.OutboundEmailWhereInput
+  /**
+   * Limit how many OutboundEmails to delete.
+   */
+  limit?: number
+}
+
+/**
+ * OutboundEmail without action
+ */
+export type OutboundEmailDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the OutboundEmail
+   */
+  select?: Prisma.OutboundEmailSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the OutboundEmail
+   */
+  omit?: Prisma.OutboundEmailOmit<ExtArgs> | null
+}
@@ -0,0 +1,2631 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `Project` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model Project
+ * Represents a practical learning opportunity proposed by an Organization.
+ */
+export type ProjectModel = runtime.Types.Result.DefaultSelection<Prisma.$ProjectPayload>
+
+export type AggregateProject = {
+  _count: ProjectCountAggregateOutputType | null
+  _avg: ProjectAvgAggregateOutputType | null
+  _sum: ProjectSumAggregateOutputType | null
+  _min: ProjectMinAggregateOutputType | null
+  _max: ProjectMaxAggregateOutputType | null
+}
+
+export type ProjectAvgAggregateOutputType = {
+  estimatedHoursPerWeek: number | null
+  estimatedDurationWeeks: number | null
+  numberOfStudents: number | null
+}
+
+export type ProjectSumAggregateOutputType = {
+  estimatedHoursPerWeek: number | null
+  estimatedDurationWeeks: number | null
+  numberOfStudents: number | null
+}
+
+export type ProjectMinAggregateOutputType = {
+  id: string | null
+  title: string | null
+  description: string | null
+  category: $Enums.ProjectCategory | null
+  estimatedHoursPerWeek: number | null
+  estimatedDurationWeeks: number | null
+  numberOfStudents: number | null
+  status: $Enums.ProjectStatus | null
+  rejectionReason: string | null
+  organizationId: string | null
+  coordinatorId: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+  publishedAt: Date | null
+  startedAt: Date | null
+  completedAt: Date | null
+  deletedAt: Date | null
+}
+
+export type ProjectMaxAggregateOutputType = {
+  id: string | null
+  title: string | null
+  description: string | null
+  category: $Enums.ProjectCategory | null
+  estimatedHoursPerWeek: number | null
+  estimatedDurationWeeks: number | null
+  numberOfStudents: number | null
+  status: $Enums.ProjectStatus | null
+  rejectionReason: string | null
+  organizationId: string | null
+  coordinatorId: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+  publishedAt: Date | null
+  startedAt: Date | null
+  completedAt: Date | null
+  deletedAt: Date | null
+}
+
+export type ProjectCountAggregateOutputType = {
+  id: number
+  title: number
+  description: number
+  category: number
+  requiredSkills: number
+  estimatedHoursPerWeek: number
+  estimatedDurationWeeks: number
+  numberOfStudents: number
+  status: number
+  rejectionReason: number
+  organizationId: number
+  coordinatorId: number
+  createdAt: number
+  updatedAt: number
+  publishedAt: number
+  startedAt: number
+  completedAt: number
+  deletedAt: number
+  _all: number
+}
+
+
+export type ProjectAvgAggregateInputType = {
+  estimatedHoursPerWeek?: true
+  estimatedDurationWeeks?: true
+  numberOfStudents?: true
+}
+
+export type ProjectSumAggregateInputType = {
+  estimatedHoursPerWeek?: true
+  estimatedDurationWeeks?: true
+  numberOfStudents?: true
+}
+
+export type ProjectMinAggregateInputType = {
+  id?: true
+  title?: true
+  description?: true
+  category?: true
+  estimatedHoursPerWeek?: true
+  estimatedDurationWeeks?: true
+  numberOfStudents?: true
+  status?: true
+  rejectionReason?: true
+  organizationId?: true
+  coordinatorId?: true
+  createdAt?: true
+  updatedAt?: true
+  publishedAt?: true
+  startedAt?: true
+  completedAt?: true
+  deletedAt?: true
+}
+
+export type ProjectMaxAggregateInputType = {
+  id?: true
+  title?: true
+  description?: true
+  category?: true
+  estimatedHoursPerWeek?: true
+  estimatedDurationWeeks?: true
+  numberOfStudents?: true
+  status?: true
+  rejectionReason?: true
+  organizationId?: true
+  coordinatorId?: true
+  createdAt?: true
+  updatedAt?: true
+  publishedAt?: true
+  startedAt?: true
+  completedAt?: true
+  deletedAt?: true
+}
+
+export type ProjectCountAggregateInputType = {
+  id?: true
+  title?: true
+  description?: true
+  category?: true
+  requiredSkills?: true
+  estimatedHoursPerWeek?: true
+  estimatedDurationWeeks?: true
+  numberOfStudents?: true
+  status?: true
+  rejectionReason?: true
+  organizationId?: true
+  coordinatorId?: true
+  createdAt?: true
+  updatedAt?: true
+  publishedAt?: true
+  startedAt?: true
+  completedAt?: true
+  deletedAt?: true
+  _all?: true
+}
+
+export type ProjectAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Project to aggregate.
+   */
+  where?: Prisma.ProjectWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Projects to fetch.
+   */
+  orderBy?: Prisma.ProjectOrderByWithRelationInput | Prisma.ProjectOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ProjectWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Projects from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Projects.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned Projects
+  **/
+  _count?: true | ProjectCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ProjectAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ProjectSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ProjectMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ProjectMaxAggregateInputType
+}
+
+export type GetProjectAggregateType<T extends ProjectAggregateArgs> = {
+      [P in keyof T & keyof AggregateProject]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateProject[P]>
+    : Prisma.GetScalarType<T[P], AggregateProject[P]>
+}
+
+
+
+
+export type ProjectGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ProjectWhereInput
+  orderBy?: Prisma.ProjectOrderByWithAggregationInput | Prisma.ProjectOrderByWithAggregationInput[]
+  by: Prisma.ProjectScalarFieldEnum[] | Prisma.ProjectScalarFieldEnum
+  having?: Prisma.ProjectScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ProjectCountAggregateInputType | true
+  _avg?: ProjectAvgAggregateInputType
+  _sum?: ProjectSumAggregateInputType
+  _min?: ProjectMinAggregateInputType
+  _max?: ProjectMaxAggregateInputType
+}
+
+export type ProjectGroupByOutputType = {
+  id: string
+  title: string
+  description: string
+  category: $Enums.ProjectCategory
+  requiredSkills: string[]
+  estimatedHoursPerWeek: number | null
+  estimatedDurationWeeks: number | null
+  numberOfStudents: number
+  status: $Enums.ProjectStatus
+  rejectionReason: string | null
+  organizationId: string
+  coordinatorId: string | null
+  createdAt: Date
+  updatedAt: Date
+  publishedAt: Date | null
+  startedAt: Date | null
+  completedAt: Date | null
+  deletedAt: Date | null
+  _count: ProjectCountAggregateOutputType | null
+  _avg: ProjectAvgAggregateOutputType | null
+  _sum: ProjectSumAggregateOutputType | null
+  _min: ProjectMinAggregateOutputType | null
+  _max: ProjectMaxAggregateOutputType | null
+}
+
+type GetProjectGroupByPayload<T extends ProjectGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ProjectGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ProjectGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ProjectGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ProjectGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ProjectWhereInput = {
+  AND?: Prisma.ProjectWhereInput | Prisma.ProjectWhereInput[]
+  OR?: Prisma.ProjectWhereInput[]
+  NOT?: Prisma.ProjectWhereInput | Prisma.ProjectWhereInput[]
+  id?: Prisma.StringFilter<"Project"> | string
+  title?: Prisma.StringFilter<"Project"> | string
+  description?: Prisma.StringFilter<"Project"> | string
+  category?: Prisma.EnumProjectCategoryFilter<"Project"> | $Enums.ProjectCategory
+  requiredSkills?: Prisma.StringNullableListFilter<"Project">
+  estimatedHoursPerWeek?: Prisma.IntNullableFilter<"Project"> | number | null
+  estimatedDurationWeeks?: Prisma.IntNullableFilter<"Project"> | number | null
+  numberOfStudents?: Prisma.IntFilter<"Project"> | number
+  status?: Prisma.EnumProjectStatusFilter<"Project"> | $Enums.ProjectStatus
+  rejectionReason?: Prisma.StringNullableFilter<"Project"> | string | null
+  organizationId?: Prisma.StringFilter<"Project"> | string
+  coordinatorId?: Prisma.StringNullableFilter<"Project"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Project"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Project"> | Date | string
+  publishedAt?: Prisma.DateTimeNullableFilter<"Project"> | Date | string | null
+  startedAt?: Prisma.DateTimeNullableFilter<"Project"> | Date | string | null
+  completedAt?: Prisma.DateTimeNullableFilter<"Project"> | Date | string | null
+  deletedAt?: Prisma.DateTimeNullableFilter<"Project"> | Date | string | null
+  organization?: Prisma.XOR<Prisma.OrganizationScalarRelationFilter, Prisma.OrganizationWhereInput>
+  coordinator?: Prisma.XOR<Prisma.CoordinatorNullableScalarRelationFilter, Prisma.CoordinatorWhereInput> | null
+  applications?: Prisma.ApplicationListRelationFilter
+  completions?: Prisma.ProjectCompletionListRelationFilter
+  attachments?: Prisma.ProjectAttachmentListRelationFilter
+}
+
+export type ProjectOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  category?: Prisma.SortOrder
+  requiredSkills?: Prisma.SortOrder
+  estimatedHoursPerWeek?: Prisma.SortOrderInput | Prisma.SortOrder
+  estimatedDurationWeeks?: Prisma.SortOrderInput | Prisma.SortOrder
+  numberOfStudents?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  rejectionReason?: Prisma.SortOrderInput | Prisma.SortOrder
+  organizationId?: Prisma.SortOrder
+  coordinatorId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  publishedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  startedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  completedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  deletedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  organization?: Prisma.OrganizationOrderByWithRelationInput
+  coordinator?: Prisma.CoordinatorOrderByWithRelationInput
+  applications?: Prisma.ApplicationOrderByRelationAggregateInput
+  completions?: Prisma.ProjectCompletionOrderByRelationAggregateInput
+  attachments?: Prisma.ProjectAttachmentOrderByRelationAggregateInput
+}
+
+export type ProjectWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.ProjectWhereInput | Prisma.ProjectWhereInput[]
+  OR?: Prisma.ProjectWhereInput[]
+  NOT?: Prisma.ProjectWhereInput | Prisma.ProjectWhereInput[]
+  title?: Prisma.StringFilter<"Project"> | string
+  description?: Prisma.StringFilter<"Project"> | string
+  category?: Prisma.EnumProjectCategoryFilter<"Project"> | $Enums.ProjectCategory
+  requiredSkills?: Prisma.StringNullableListFilter<"Project">
+  estimatedHoursPerWeek?: Prisma.IntNullableFilter<"Project"> | number | null
+  estimatedDurationWeeks?: Prisma.IntNullableFilter<"Project"> | number | null
+  numberOfStudents?: Prisma.IntFilter<"Project"> | number
+  status?: Prisma.EnumProjectStatusFilter<"Project"> | $Enums.ProjectStatus
+  rejectionReason?: Prisma.StringNullableFilter<"Project"> | string | null
+  organizationId?: Prisma.StringFilter<"Project"> | string
+  coordinatorId?: Prisma.StringNullableFilter<"Project"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Project"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Project"> | Date | string
+  publishedAt?: Prisma.DateTimeNullableFilter<"Project"> | Date | string | null
+  startedAt?: Prisma.DateTimeNullableFilter<"Project"> | Date | string | null
+  completedAt?: Prisma.DateTimeNullableFilter<"Project"> | Date | string | null
+  deletedAt?: Prisma.DateTimeNullableFilter<"Project"> | Date | string | null
+  organization?: Prisma.XOR<Prisma.OrganizationScalarRelationFilter, Prisma.OrganizationWhereInput>
+  coordinator?: Prisma.XOR<Prisma.CoordinatorNullableScalarRelationFilter, Prisma.CoordinatorWhereInput> | null
+  applications?: Prisma.ApplicationListRelationFilter
+  completions?: Prisma.ProjectCompletionListRelationFilter
+  attachments?: Prisma.ProjectAttachmentListRelationFilter
+}, "id">
+
+export type ProjectOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  category?: Prisma.SortOrder
+  requiredSkills?: Prisma.SortOrder
+  estimatedHoursPerWeek?: Prisma.SortOrderInput | Prisma.SortOrder
+  estimatedDurationWeeks?: Prisma.SortOrderInput | Prisma.SortOrder
+  numberOfStudents?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  rejectionReason?: Prisma.SortOrderInput | Prisma.SortOrder
+  organizationId?: Prisma.SortOrder
+  coordinatorId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  publishedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  startedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  completedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  deletedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  _count?: Prisma.ProjectCountOrderByAggregateInput
+  _avg?: Prisma.ProjectAvgOrderByAggregateInput
+  _max?: Prisma.ProjectMaxOrderByAggregateInput
+  _min?: Prisma.ProjectMinOrderByAggregateInput
+  _sum?: Prisma.ProjectSumOrderByAggregateInput
+}
+
+export type ProjectScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ProjectScalarWhereWithAggregatesInput | Prisma.ProjectScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ProjectScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ProjectScalarWhereWithAggregatesInput | Prisma.ProjectScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"Project"> | string
+  title?: Prisma.StringWithAggregatesFilter<"Project"> | string
+  description?: Prisma.StringWithAggregatesFilter<"Project"> | string
+  category?: Prisma.EnumProjectCategoryWithAggregatesFilter<"Project"> | $Enums.ProjectCategory
+  requiredSkills?: Prisma.StringNullableListFilter<"Project">
+  estimatedHoursPerWeek?: Prisma.IntNullableWithAggregatesFilter<"Project"> | number | null
+  estimatedDurationWeeks?: Prisma.IntNullableWithAggregatesFilter<"Project"> | number | null
+  numberOfStudents?: Prisma.IntWithAggregatesFilter<"Project"> | number
+  status?: Prisma.EnumProjectStatusWithAggregatesFilter<"Project"> | $Enums.ProjectStatus
+  rejectionReason?: Prisma.StringNullableWithAggregatesFilter<"Project"> | string | null
+  organizationId?: Prisma.StringWithAggregatesFilter<"Project"> | string
+  coordinatorId?: Prisma.StringNullableWithAggregatesFilter<"Project"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"Project"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Project"> | Date | string
+  publishedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Project"> | Date | string | null
+  startedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Project"> | Date | string | null
+  completedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Project"> | Date | string | null
+  deletedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Project"> | Date | string | null
+}
+
+export type ProjectCreateInput = {
+  id?: string
+  title: string
+  description: string
+  category: $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectCreaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: number | null
+  estimatedDurationWeeks?: number | null
+  numberOfStudents?: number
+  status?: $Enums.ProjectStatus
+  rejectionReason?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  publishedAt?: Date | string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  organization: Prisma.OrganizationCreateNestedOneWithoutProjectsInput
+  coordinator?: Prisma.CoordinatorCreateNestedOneWithoutProjectsInput
+  applications?: Prisma.ApplicationCreateNestedManyWithoutProjectInput
+  completions?: Prisma.ProjectCompletionCreateNestedManyWithoutProjectInput
+  attachments?: Prisma.ProjectAttachmentCreateNestedManyWithoutProjectInput
+}
+
+export type ProjectUncheckedCreateInput = {
+  id?: string
+  title: string
+  description: string
+  category: $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectCreaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: number | null
+  estimatedDurationWeeks?: number | null
+  numberOfStudents?: number
+  status?: $Enums.ProjectStatus
+  rejectionReason?: string | null
+  organizationId: string
+  coordinatorId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  publishedAt?: Date | string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  applications?: Prisma.ApplicationUncheckedCreateNestedManyWithoutProjectInput
+  completions?: Prisma.ProjectCompletionUncheckedCreateNestedManyWithoutProjectInput
+  attachments?: Prisma.ProjectAttachmentUncheckedCreateNestedManyWithoutProjectInput
+}
+
+export type ProjectUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.EnumProjectCategoryFieldUpdateOperationsInput | $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectUpdaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  estimatedDurationWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  numberOfStudents?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumProjectStatusFieldUpdateOperationsInput | $Enums.ProjectStatus
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  publishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  organization?: Prisma.OrganizationUpdateOneRequiredWithoutProjectsNestedInput
+  coordinator?: Prisma.CoordinatorUpdateOneWithoutProjectsNestedInput
+  applications?: Prisma.ApplicationUpdateManyWithoutProjectNestedInput
+  completions?: Prisma.ProjectCompletionUpdateManyWithoutProjectNestedInput
+  attachments?: Prisma.ProjectAttachmentUpdateManyWithoutProjectNestedInput
+}
+
+export type ProjectUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.EnumProjectCategoryFieldUpdateOperationsInput | $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectUpdaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  estimatedDurationWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  numberOfStudents?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumProjectStatusFieldUpdateOperationsInput | $Enums.ProjectStatus
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  organizationId?: Prisma.StringFieldUpdateOperationsInput | string
+  coordinatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  publishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  applications?: Prisma.ApplicationUncheckedUpdateManyWithoutProjectNestedInput
+  completions?: Prisma.ProjectCompletionUncheckedUpdateManyWithoutProjectNestedInput
+  attachments?: Prisma.ProjectAttachmentUncheckedUpdateManyWithoutProjectNestedInput
+}
+
+export type ProjectCreateManyInput = {
+  id?: string
+  title: string
+  description: string
+  category: $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectCreaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: number | null
+  estimatedDurationWeeks?: number | null
+  numberOfStudents?: number
+  status?: $Enums.ProjectStatus
+  rejectionReason?: string | null
+  organizationId: string
+  coordinatorId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  publishedAt?: Date | string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  deletedAt?: Date | string | null
+}
+
+export type ProjectUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.EnumProjectCategoryFieldUpdateOperationsInput | $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectUpdaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  estimatedDurationWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  numberOfStudents?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumProjectStatusFieldUpdateOperationsInput | $Enums.ProjectStatus
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  publishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type ProjectUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.EnumProjectCategoryFieldUpdateOperationsInput | $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectUpdaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  estimatedDurationWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  numberOfStudents?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumProjectStatusFieldUpdateOperationsInput | $Enums.ProjectStatus
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  organizationId?: Prisma.StringFieldUpdateOperationsInput | string
+  coordinatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  publishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type ProjectListRelationFilter = {
+  every?: Prisma.ProjectWhereInput
+  some?: Prisma.ProjectWhereInput
+  none?: Prisma.ProjectWhereInput
+}
+
+export type ProjectOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ProjectCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  category?: Prisma.SortOrder
+  requiredSkills?: Prisma.SortOrder
+  estimatedHoursPerWeek?: Prisma.SortOrder
+  estimatedDurationWeeks?: Prisma.SortOrder
+  numberOfStudents?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  rejectionReason?: Prisma.SortOrder
+  organizationId?: Prisma.SortOrder
+  coordinatorId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  publishedAt?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  completedAt?: Prisma.SortOrder
+  deletedAt?: Prisma.SortOrder
+}
+
+export type ProjectAvgOrderByAggregateInput = {
+  estimatedHoursPerWeek?: Prisma.SortOrder
+  estimatedDurationWeeks?: Prisma.SortOrder
+  numberOfStudents?: Prisma.SortOrder
+}
+
+export type ProjectMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  category?: Prisma.SortOrder
+  estimatedHoursPerWeek?: Prisma.SortOrder
+  estimatedDurationWeeks?: Prisma.SortOrder
+  numberOfStudents?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  rejectionReason?: Prisma.SortOrder
+  organizationId?: Prisma.SortOrder
+  coordinatorId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  publishedAt?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  completedAt?: Prisma.SortOrder
+  deletedAt?: Prisma.SortOrder
+}
+
+export type ProjectMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  category?: Prisma.SortOrder
+  estimatedHoursPerWeek?: Prisma.SortOrder
+  estimatedDurationWeeks?: Prisma.SortOrder
+  numberOfStudents?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  rejectionReason?: Prisma.SortOrder
+  organizationId?: Prisma.SortOrder
+  coordinatorId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  publishedAt?: Prisma.SortOrder
+  startedAt?: Prisma.SortOrder
+  completedAt?: Prisma.SortOrder
+  deletedAt?: Prisma.SortOrder
+}
+
+export type ProjectSumOrderByAggregateInput = {
+  estimatedHoursPerWeek?: Prisma.SortOrder
+  estimatedDurationWeeks?: Prisma.SortOrder
+  numberOfStudents?: Prisma.SortOrder
+}
+
+export type ProjectScalarRelationFilter = {
+  is?: Prisma.ProjectWhereInput
+  isNot?: Prisma.ProjectWhereInput
+}
+
+export type ProjectCreateNestedManyWithoutCoordinatorInput = {
+  create?: Prisma.XOR<Prisma.ProjectCreateWithoutCoordinatorInput, Prisma.ProjectUncheckedCreateWithoutCoordinatorInput> | Prisma.ProjectCreateWithoutCoordinatorInput[] | Prisma.ProjectUncheckedCreateWithoutCoordinatorInput[]
+  connectOrCreate?: Prisma.ProjectCreateOrConnectWithoutCoordinatorInput | Prisma.ProjectCreateOrConnectWithoutCoordinatorInput[]
+  createMany?: Prisma.ProjectCreateManyCoordinatorInputEnvelope
+  connect?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+}
+
+export type ProjectUncheckedCreateNestedManyWithoutCoordinatorInput = {
+  create?: Prisma.XOR<Prisma.ProjectCreateWithoutCoordinatorInput, Prisma.ProjectUncheckedCreateWithoutCoordinatorInput> | Prisma.ProjectCreateWithoutCoordinatorInput[] | Prisma.ProjectUncheckedCreateWithoutCoordinatorInput[]
+  connectOrCreate?: Prisma.ProjectCreateOrConnectWithoutCoordinatorInput | Prisma.ProjectCreateOrConnectWithoutCoordinatorInput[]
+  createMany?: Prisma.ProjectCreateManyCoordinatorInputEnvelope
+  connect?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+}
+
+export type ProjectUpdateManyWithoutCoordinatorNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectCreateWithoutCoordinatorInput, Prisma.ProjectUncheckedCreateWithoutCoordinatorInput> | Prisma.ProjectCreateWithoutCoordinatorInput[] | Prisma.ProjectUncheckedCreateWithoutCoordinatorInput[]
+  connectOrCreate?: Prisma.ProjectCreateOrConnectWithoutCoordinatorInput | Prisma.ProjectCreateOrConnectWithoutCoordinatorInput[]
+  upsert?: Prisma.ProjectUpsertWithWhereUniqueWithoutCoordinatorInput | Prisma.ProjectUpsertWithWhereUniqueWithoutCoordinatorInput[]
+  createMany?: Prisma.ProjectCreateManyCoordinatorInputEnvelope
+  set?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  disconnect?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  delete?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  connect?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  update?: Prisma.ProjectUpdateWithWhereUniqueWithoutCoordinatorInput | Prisma.ProjectUpdateWithWhereUniqueWithoutCoordinatorInput[]
+  updateMany?: Prisma.ProjectUpdateManyWithWhereWithoutCoordinatorInput | Prisma.ProjectUpdateManyWithWhereWithoutCoordinatorInput[]
+  deleteMany?: Prisma.ProjectScalarWhereInput | Prisma.ProjectScalarWhereInput[]
+}
+
+export type ProjectUncheckedUpdateManyWithoutCoordinatorNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectCreateWithoutCoordinatorInput, Prisma.ProjectUncheckedCreateWithoutCoordinatorInput> | Prisma.ProjectCreateWithoutCoordinatorInput[] | Prisma.ProjectUncheckedCreateWithoutCoordinatorInput[]
+  connectOrCreate?: Prisma.ProjectCreateOrConnectWithoutCoordinatorInput | Prisma.ProjectCreateOrConnectWithoutCoordinatorInput[]
+  upsert?: Prisma.ProjectUpsertWithWhereUniqueWithoutCoordinatorInput | Prisma.ProjectUpsertWithWhereUniqueWithoutCoordinatorInput[]
+  createMany?: Prisma.ProjectCreateManyCoordinatorInputEnvelope
+  set?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  disconnect?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  delete?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  connect?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  update?: Prisma.ProjectUpdateWithWhereUniqueWithoutCoordinatorInput | Prisma.ProjectUpdateWithWhereUniqueWithoutCoordinatorInput[]
+  updateMany?: Prisma.ProjectUpdateManyWithWhereWithoutCoordinatorInput | Prisma.ProjectUpdateManyWithWhereWithoutCoordinatorInput[]
+  deleteMany?: Prisma.ProjectScalarWhereInput | Prisma.ProjectScalarWhereInput[]
+}
+
+export type ProjectCreateNestedManyWithoutOrganizationInput = {
+  create?: Prisma.XOR<Prisma.ProjectCreateWithoutOrganizationInput, Prisma.ProjectUncheckedCreateWithoutOrganizationInput> | Prisma.ProjectCreateWithoutOrganizationInput[] | Prisma.ProjectUncheckedCreateWithoutOrganizationInput[]
+  connectOrCreate?: Prisma.ProjectCreateOrConnectWithoutOrganizationInput | Prisma.ProjectCreateOrConnectWithoutOrganizationInput[]
+  createMany?: Prisma.ProjectCreateManyOrganizationInputEnvelope
+  connect?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+}
+
+export type ProjectUncheckedCreateNestedManyWithoutOrganizationInput = {
+  create?: Prisma.XOR<Prisma.ProjectCreateWithoutOrganizationInput, Prisma.ProjectUncheckedCreateWithoutOrganizationInput> | Prisma.ProjectCreateWithoutOrganizationInput[] | Prisma.ProjectUncheckedCreateWithoutOrganizationInput[]
+  connectOrCreate?: Prisma.ProjectCreateOrConnectWithoutOrganizationInput | Prisma.ProjectCreateOrConnectWithoutOrganizationInput[]
+  createMany?: Prisma.ProjectCreateManyOrganizationInputEnvelope
+  connect?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+}
+
+export type ProjectUpdateManyWithoutOrganizationNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectCreateWithoutOrganizationInput, Prisma.ProjectUncheckedCreateWithoutOrganizationInput> | Prisma.ProjectCreateWithoutOrganizationInput[] | Prisma.ProjectUncheckedCreateWithoutOrganizationInput[]
+  connectOrCreate?: Prisma.ProjectCreateOrConnectWithoutOrganizationInput | Prisma.ProjectCreateOrConnectWithoutOrganizationInput[]
+  upsert?: Prisma.ProjectUpsertWithWhereUniqueWithoutOrganizationInput | Prisma.ProjectUpsertWithWhereUniqueWithoutOrganizationInput[]
+  createMany?: Prisma.ProjectCreateManyOrganizationInputEnvelope
+  set?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  disconnect?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  delete?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  connect?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  update?: Prisma.ProjectUpdateWithWhereUniqueWithoutOrganizationInput | Prisma.ProjectUpdateWithWhereUniqueWithoutOrganizationInput[]
+  updateMany?: Prisma.ProjectUpdateManyWithWhereWithoutOrganizationInput | Prisma.ProjectUpdateManyWithWhereWithoutOrganizationInput[]
+  deleteMany?: Prisma.ProjectScalarWhereInput | Prisma.ProjectScalarWhereInput[]
+}
+
+export type ProjectUncheckedUpdateManyWithoutOrganizationNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectCreateWithoutOrganizationInput, Prisma.ProjectUncheckedCreateWithoutOrganizationInput> | Prisma.ProjectCreateWithoutOrganizationInput[] | Prisma.ProjectUncheckedCreateWithoutOrganizationInput[]
+  connectOrCreate?: Prisma.ProjectCreateOrConnectWithoutOrganizationInput | Prisma.ProjectCreateOrConnectWithoutOrganizationInput[]
+  upsert?: Prisma.ProjectUpsertWithWhereUniqueWithoutOrganizationInput | Prisma.ProjectUpsertWithWhereUniqueWithoutOrganizationInput[]
+  createMany?: Prisma.ProjectCreateManyOrganizationInputEnvelope
+  set?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  disconnect?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  delete?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  connect?: Prisma.ProjectWhereUniqueInput | Prisma.ProjectWhereUniqueInput[]
+  update?: Prisma.ProjectUpdateWithWhereUniqueWithoutOrganizationInput | Prisma.ProjectUpdateWithWhereUniqueWithoutOrganizationInput[]
+  updateMany?: Prisma.ProjectUpdateManyWithWhereWithoutOrganizationInput | Prisma.ProjectUpdateManyWithWhereWithoutOrganizationInput[]
+  deleteMany?: Prisma.ProjectScalarWhereInput | Prisma.ProjectScalarWhereInput[]
+}
+
+export type ProjectCreaterequiredSkillsInput = {
+  set: string[]
+}
+
+export type EnumProjectCategoryFieldUpdateOperationsInput = {
+  set?: $Enums.ProjectCategory
+}
+
+export type ProjectUpdaterequiredSkillsInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type EnumProjectStatusFieldUpdateOperationsInput = {
+  set?: $Enums.ProjectStatus
+}
+
+export type ProjectCreateNestedOneWithoutApplicationsInput = {
+  create?: Prisma.XOR<Prisma.ProjectCreateWithoutApplicationsInput, Prisma.ProjectUncheckedCreateWithoutApplicationsInput>
+  connectOrCreate?: Prisma.ProjectCreateOrConnectWithoutApplicationsInput
+  connect?: Prisma.ProjectWhereUniqueInput
+}
+
+export type ProjectUpdateOneRequiredWithoutApplicationsNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectCreateWithoutApplicationsInput, Prisma.ProjectUncheckedCreateWithoutApplicationsInput>
+  connectOrCreate?: Prisma.ProjectCreateOrConnectWithoutApplicationsInput
+  upsert?: Prisma.ProjectUpsertWithoutApplicationsInput
+  connect?: Prisma.ProjectWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ProjectUpdateToOneWithWhereWithoutApplicationsInput, Prisma.ProjectUpdateWithoutApplicationsInput>, Prisma.ProjectUncheckedUpdateWithoutApplicationsInput>
+}
+
+export type ProjectCreateNestedOneWithoutCompletionsInput = {
+  create?: Prisma.XOR<Prisma.ProjectCreateWithoutCompletionsInput, Prisma.ProjectUncheckedCreateWithoutCompletionsInput>
+  connectOrCreate?: Prisma.ProjectCreateOrConnectWithoutCompletionsInput
+  connect?: Prisma.ProjectWhereUniqueInput
+}
+
+export type ProjectUpdateOneRequiredWithoutCompletionsNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectCreateWithoutCompletionsInput, Prisma.ProjectUncheckedCreateWithoutCompletionsInput>
+  connectOrCreate?: Prisma.ProjectCreateOrConnectWithoutCompletionsInput
+  upsert?: Prisma.ProjectUpsertWithoutCompletionsInput
+  connect?: Prisma.ProjectWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ProjectUpdateToOneWithWhereWithoutCompletionsInput, Prisma.ProjectUpdateWithoutCompletionsInput>, Prisma.ProjectUncheckedUpdateWithoutCompletionsInput>
+}
+
+export type ProjectCreateNestedOneWithoutAttachmentsInput = {
+  create?: Prisma.XOR<Prisma.ProjectCreateWithoutAttachmentsInput, Prisma.ProjectUncheckedCreateWithoutAttachmentsInput>
+  connectOrCreate?: Prisma.ProjectCreateOrConnectWithoutAttachmentsInput
+  connect?: Prisma.ProjectWhereUniqueInput
+}
+
+export type ProjectUpdateOneRequiredWithoutAttachmentsNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectCreateWithoutAttachmentsInput, Prisma.ProjectUncheckedCreateWithoutAttachmentsInput>
+  connectOrCreate?: Prisma.ProjectCreateOrConnectWithoutAttachmentsInput
+  upsert?: Prisma.ProjectUpsertWithoutAttachmentsInput
+  connect?: Prisma.ProjectWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ProjectUpdateToOneWithWhereWithoutAttachmentsInput, Prisma.ProjectUpdateWithoutAttachmentsInput>, Prisma.ProjectUncheckedUpdateWithoutAttachmentsInput>
+}
+
+export type ProjectCreateWithoutCoordinatorInput = {
+  id?: string
+  title: string
+  description: string
+  category: $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectCreaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: number | null
+  estimatedDurationWeeks?: number | null
+  numberOfStudents?: number
+  status?: $Enums.ProjectStatus
+  rejectionReason?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  publishedAt?: Date | string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  organization: Prisma.OrganizationCreateNestedOneWithoutProjectsInput
+  applications?: Prisma.ApplicationCreateNestedManyWithoutProjectInput
+  completions?: Prisma.ProjectCompletionCreateNestedManyWithoutProjectInput
+  attachments?: Prisma.ProjectAttachmentCreateNestedManyWithoutProjectInput
+}
+
+export type ProjectUncheckedCreateWithoutCoordinatorInput = {
+  id?: string
+  title: string
+  description: string
+  category: $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectCreaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: number | null
+  estimatedDurationWeeks?: number | null
+  numberOfStudents?: number
+  status?: $Enums.ProjectStatus
+  rejectionReason?: string | null
+  organizationId: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  publishedAt?: Date | string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  applications?: Prisma.ApplicationUncheckedCreateNestedManyWithoutProjectInput
+  completions?: Prisma.ProjectCompletionUncheckedCreateNestedManyWithoutProjectInput
+  attachments?: Prisma.ProjectAttachmentUncheckedCreateNestedManyWithoutProjectInput
+}
+
+export type ProjectCreateOrConnectWithoutCoordinatorInput = {
+  where: Prisma.ProjectWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProjectCreateWithoutCoordinatorInput, Prisma.ProjectUncheckedCreateWithoutCoordinatorInput>
+}
+
+export type ProjectCreateManyCoordinatorInputEnvelope = {
+  data: Prisma.ProjectCreateManyCoordinatorInput | Prisma.ProjectCreateManyCoordinatorInput[]
+  skipDuplicates?: boolean
+}
+
+export type ProjectUpsertWithWhereUniqueWithoutCoordinatorInput = {
+  where: Prisma.ProjectWhereUniqueInput
+  update: Prisma.XOR<Prisma.ProjectUpdateWithoutCoordinatorInput, Prisma.ProjectUncheckedUpdateWithoutCoordinatorInput>
+  create: Prisma.XOR<Prisma.ProjectCreateWithoutCoordinatorInput, Prisma.ProjectUncheckedCreateWithoutCoordinatorInput>
+}
+
+export type ProjectUpdateWithWhereUniqueWithoutCoordinatorInput = {
+  where: Prisma.ProjectWhereUniqueInput
+  data: Prisma.XOR<Prisma.ProjectUpdateWithoutCoordinatorInput, Prisma.ProjectUncheckedUpdateWithoutCoordinatorInput>
+}
+
+export type ProjectUpdateManyWithWhereWithoutCoordinatorInput = {
+  where: Prisma.ProjectScalarWhereInput
+  data: Prisma.XOR<Prisma.ProjectUpdateManyMutationInput, Prisma.ProjectUncheckedUpdateManyWithoutCoordinatorInput>
+}
+
+export type ProjectScalarWhereInput = {
+  AND?: Prisma.ProjectScalarWhereInput | Prisma.ProjectScalarWhereInput[]
+  OR?: Prisma.ProjectScalarWhereInput[]
+  NOT?: Prisma.ProjectScalarWhereInput | Prisma.ProjectScalarWhereInput[]
+  id?: Prisma.StringFilter<"Project"> | string
+  title?: Prisma.StringFilter<"Project"> | string
+  description?: Prisma.StringFilter<"Project"> | string
+  category?: Prisma.EnumProjectCategoryFilter<"Project"> | $Enums.ProjectCategory
+  requiredSkills?: Prisma.StringNullableListFilter<"Project">
+  estimatedHoursPerWeek?: Prisma.IntNullableFilter<"Project"> | number | null
+  estimatedDurationWeeks?: Prisma.IntNullableFilter<"Project"> | number | null
+  numberOfStudents?: Prisma.IntFilter<"Project"> | number
+  status?: Prisma.EnumProjectStatusFilter<"Project"> | $Enums.ProjectStatus
+  rejectionReason?: Prisma.StringNullableFilter<"Project"> | string | null
+  organizationId?: Prisma.StringFilter<"Project"> | string
+  coordinatorId?: Prisma.StringNullableFilter<"Project"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Project"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Project"> | Date | string
+  publishedAt?: Prisma.DateTimeNullableFilter<"Project"> | Date | string | null
+  startedAt?: Prisma.DateTimeNullableFilter<"Project"> | Date | string | null
+  completedAt?: Prisma.DateTimeNullableFilter<"Project"> | Date | string | null
+  deletedAt?: Prisma.DateTimeNullableFilter<"Project"> | Date | string | null
+}
+
+export type ProjectCreateWithoutOrganizationInput = {
+  id?: string
+  title: string
+  description: string
+  category: $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectCreaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: number | null
+  estimatedDurationWeeks?: number | null
+  numberOfStudents?: number
+  status?: $Enums.ProjectStatus
+  rejectionReason?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  publishedAt?: Date | string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  coordinator?: Prisma.CoordinatorCreateNestedOneWithoutProjectsInput
+  applications?: Prisma.ApplicationCreateNestedManyWithoutProjectInput
+  completions?: Prisma.ProjectCompletionCreateNestedManyWithoutProjectInput
+  attachments?: Prisma.ProjectAttachmentCreateNestedManyWithoutProjectInput
+}
+
+export type ProjectUncheckedCreateWithoutOrganizationInput = {
+  id?: string
+  title: string
+  description: string
+  category: $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectCreaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: number | null
+  estimatedDurationWeeks?: number | null
+  numberOfStudents?: number
+  status?: $Enums.ProjectStatus
+  rejectionReason?: string | null
+  coordinatorId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  publishedAt?: Date | string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  applications?: Prisma.ApplicationUncheckedCreateNestedManyWithoutProjectInput
+  completions?: Prisma.ProjectCompletionUncheckedCreateNestedManyWithoutProjectInput
+  attachments?: Prisma.ProjectAttachmentUncheckedCreateNestedManyWithoutProjectInput
+}
+
+export type ProjectCreateOrConnectWithoutOrganizationInput = {
+  where: Prisma.ProjectWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProjectCreateWithoutOrganizationInput, Prisma.ProjectUncheckedCreateWithoutOrganizationInput>
+}
+
+export type ProjectCreateManyOrganizationInputEnvelope = {
+  data: Prisma.ProjectCreateManyOrganizationInput | Prisma.ProjectCreateManyOrganizationInput[]
+  skipDuplicates?: boolean
+}
+
+export type ProjectUpsertWithWhereUniqueWithoutOrganizationInput = {
+  where: Prisma.ProjectWhereUniqueInput
+  update: Prisma.XOR<Prisma.ProjectUpdateWithoutOrganizationInput, Prisma.ProjectUncheckedUpdateWithoutOrganizationInput>
+  create: Prisma.XOR<Prisma.ProjectCreateWithoutOrganizationInput, Prisma.ProjectUncheckedCreateWithoutOrganizationInput>
+}
+
+export type ProjectUpdateWithWhereUniqueWithoutOrganizationInput = {
+  where: Prisma.ProjectWhereUniqueInput
+  data: Prisma.XOR<Prisma.ProjectUpdateWithoutOrganizationInput, Prisma.ProjectUncheckedUpdateWithoutOrganizationInput>
+}
+
+export type ProjectUpdateManyWithWhereWithoutOrganizationInput = {
+  where: Prisma.ProjectScalarWhereInput
+  data: Prisma.XOR<Prisma.ProjectUpdateManyMutationInput, Prisma.ProjectUncheckedUpdateManyWithoutOrganizationInput>
+}
+
+export type ProjectCreateWithoutApplicationsInput = {
+  id?: string
+  title: string
+  description: string
+  category: $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectCreaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: number | null
+  estimatedDurationWeeks?: number | null
+  numberOfStudents?: number
+  status?: $Enums.ProjectStatus
+  rejectionReason?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  publishedAt?: Date | string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  organization: Prisma.OrganizationCreateNestedOneWithoutProjectsInput
+  coordinator?: Prisma.CoordinatorCreateNestedOneWithoutProjectsInput
+  completions?: Prisma.ProjectCompletionCreateNestedManyWithoutProjectInput
+  attachments?: Prisma.ProjectAttachmentCreateNestedManyWithoutProjectInput
+}
+
+export type ProjectUncheckedCreateWithoutApplicationsInput = {
+  id?: string
+  title: string
+  description: string
+  category: $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectCreaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: number | null
+  estimatedDurationWeeks?: number | null
+  numberOfStudents?: number
+  status?: $Enums.ProjectStatus
+  rejectionReason?: string | null
+  organizationId: string
+  coordinatorId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  publishedAt?: Date | string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  completions?: Prisma.ProjectCompletionUncheckedCreateNestedManyWithoutProjectInput
+  attachments?: Prisma.ProjectAttachmentUncheckedCreateNestedManyWithoutProjectInput
+}
+
+export type ProjectCreateOrConnectWithoutApplicationsInput = {
+  where: Prisma.ProjectWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProjectCreateWithoutApplicationsInput, Prisma.ProjectUncheckedCreateWithoutApplicationsInput>
+}
+
+export type ProjectUpsertWithoutApplicationsInput = {
+  update: Prisma.XOR<Prisma.ProjectUpdateWithoutApplicationsInput, Prisma.ProjectUncheckedUpdateWithoutApplicationsInput>
+  create: Prisma.XOR<Prisma.ProjectCreateWithoutApplicationsInput, Prisma.ProjectUncheckedCreateWithoutApplicationsInput>
+  where?: Prisma.ProjectWhereInput
+}
+
+export type ProjectUpdateToOneWithWhereWithoutApplicationsInput = {
+  where?: Prisma.ProjectWhereInput
+  data: Prisma.XOR<Prisma.ProjectUpdateWithoutApplicationsInput, Prisma.ProjectUncheckedUpdateWithoutApplicationsInput>
+}
+
+export type ProjectUpdateWithoutApplicationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.EnumProjectCategoryFieldUpdateOperationsInput | $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectUpdaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  estimatedDurationWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  numberOfStudents?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumProjectStatusFieldUpdateOperationsInput | $Enums.ProjectStatus
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  publishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  organization?: Prisma.OrganizationUpdateOneRequiredWithoutProjectsNestedInput
+  coordinator?: Prisma.CoordinatorUpdateOneWithoutProjectsNestedInput
+  completions?: Prisma.ProjectCompletionUpdateManyWithoutProjectNestedInput
+  attachments?: Prisma.ProjectAttachmentUpdateManyWithoutProjectNestedInput
+}
+
+export type ProjectUncheckedUpdateWithoutApplicationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.EnumProjectCategoryFieldUpdateOperationsInput | $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectUpdaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  estimatedDurationWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  numberOfStudents?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumProjectStatusFieldUpdateOperationsInput | $Enums.ProjectStatus
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  organizationId?: Prisma.StringFieldUpdateOperationsInput | string
+  coordinatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  publishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completions?: Prisma.ProjectCompletionUncheckedUpdateManyWithoutProjectNestedInput
+  attachments?: Prisma.ProjectAttachmentUncheckedUpdateManyWithoutProjectNestedInput
+}
+
+export type ProjectCreateWithoutCompletionsInput = {
+  id?: string
+  title: string
+  description: string
+  category: $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectCreaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: number | null
+  estimatedDurationWeeks?: number | null
+  numberOfStudents?: number
+  status?: $Enums.ProjectStatus
+  rejectionReason?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  publishedAt?: Date | string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  organization: Prisma.OrganizationCreateNestedOneWithoutProjectsInput
+  coordinator?: Prisma.CoordinatorCreateNestedOneWithoutProjectsInput
+  applications?: Prisma.ApplicationCreateNestedManyWithoutProjectInput
+  attachments?: Prisma.ProjectAttachmentCreateNestedManyWithoutProjectInput
+}
+
+export type ProjectUncheckedCreateWithoutCompletionsInput = {
+  id?: string
+  title: string
+  description: string
+  category: $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectCreaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: number | null
+  estimatedDurationWeeks?: number | null
+  numberOfStudents?: number
+  status?: $Enums.ProjectStatus
+  rejectionReason?: string | null
+  organizationId: string
+  coordinatorId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  publishedAt?: Date | string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  applications?: Prisma.ApplicationUncheckedCreateNestedManyWithoutProjectInput
+  attachments?: Prisma.ProjectAttachmentUncheckedCreateNestedManyWithoutProjectInput
+}
+
+export type ProjectCreateOrConnectWithoutCompletionsInput = {
+  where: Prisma.ProjectWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProjectCreateWithoutCompletionsInput, Prisma.ProjectUncheckedCreateWithoutCompletionsInput>
+}
+
+export type ProjectUpsertWithoutCompletionsInput = {
+  update: Prisma.XOR<Prisma.ProjectUpdateWithoutCompletionsInput, Prisma.ProjectUncheckedUpdateWithoutCompletionsInput>
+  create: Prisma.XOR<Prisma.ProjectCreateWithoutCompletionsInput, Prisma.ProjectUncheckedCreateWithoutCompletionsInput>
+  where?: Prisma.ProjectWhereInput
+}
+
+export type ProjectUpdateToOneWithWhereWithoutCompletionsInput = {
+  where?: Prisma.ProjectWhereInput
+  data: Prisma.XOR<Prisma.ProjectUpdateWithoutCompletionsInput, Prisma.ProjectUncheckedUpdateWithoutCompletionsInput>
+}
+
+export type ProjectUpdateWithoutCompletionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.EnumProjectCategoryFieldUpdateOperationsInput | $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectUpdaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  estimatedDurationWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  numberOfStudents?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumProjectStatusFieldUpdateOperationsInput | $Enums.ProjectStatus
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  publishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  organization?: Prisma.OrganizationUpdateOneRequiredWithoutProjectsNestedInput
+  coordinator?: Prisma.CoordinatorUpdateOneWithoutProjectsNestedInput
+  applications?: Prisma.ApplicationUpdateManyWithoutProjectNestedInput
+  attachments?: Prisma.ProjectAttachmentUpdateManyWithoutProjectNestedInput
+}
+
+export type ProjectUncheckedUpdateWithoutCompletionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.EnumProjectCategoryFieldUpdateOperationsInput | $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectUpdaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  estimatedDurationWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  numberOfStudents?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumProjectStatusFieldUpdateOperationsInput | $Enums.ProjectStatus
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  organizationId?: Prisma.StringFieldUpdateOperationsInput | string
+  coordinatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  publishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  applications?: Prisma.ApplicationUncheckedUpdateManyWithoutProjectNestedInput
+  attachments?: Prisma.ProjectAttachmentUncheckedUpdateManyWithoutProjectNestedInput
+}
+
+export type ProjectCreateWithoutAttachmentsInput = {
+  id?: string
+  title: string
+  description: string
+  category: $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectCreaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: number | null
+  estimatedDurationWeeks?: number | null
+  numberOfStudents?: number
+  status?: $Enums.ProjectStatus
+  rejectionReason?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  publishedAt?: Date | string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  organization: Prisma.OrganizationCreateNestedOneWithoutProjectsInput
+  coordinator?: Prisma.CoordinatorCreateNestedOneWithoutProjectsInput
+  applications?: Prisma.ApplicationCreateNestedManyWithoutProjectInput
+  completions?: Prisma.ProjectCompletionCreateNestedManyWithoutProjectInput
+}
+
+export type ProjectUncheckedCreateWithoutAttachmentsInput = {
+  id?: string
+  title: string
+  description: string
+  category: $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectCreaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: number | null
+  estimatedDurationWeeks?: number | null
+  numberOfStudents?: number
+  status?: $Enums.ProjectStatus
+  rejectionReason?: string | null
+  organizationId: string
+  coordinatorId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  publishedAt?: Date | string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  applications?: Prisma.ApplicationUncheckedCreateNestedManyWithoutProjectInput
+  completions?: Prisma.ProjectCompletionUncheckedCreateNestedManyWithoutProjectInput
+}
+
+export type ProjectCreateOrConnectWithoutAttachmentsInput = {
+  where: Prisma.ProjectWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProjectCreateWithoutAttachmentsInput, Prisma.ProjectUncheckedCreateWithoutAttachmentsInput>
+}
+
+export type ProjectUpsertWithoutAttachmentsInput = {
+  update: Prisma.XOR<Prisma.ProjectUpdateWithoutAttachmentsInput, Prisma.ProjectUncheckedUpdateWithoutAttachmentsInput>
+  create: Prisma.XOR<Prisma.ProjectCreateWithoutAttachmentsInput, Prisma.ProjectUncheckedCreateWithoutAttachmentsInput>
+  where?: Prisma.ProjectWhereInput
+}
+
+export type ProjectUpdateToOneWithWhereWithoutAttachmentsInput = {
+  where?: Prisma.ProjectWhereInput
+  data: Prisma.XOR<Prisma.ProjectUpdateWithoutAttachmentsInput, Prisma.ProjectUncheckedUpdateWithoutAttachmentsInput>
+}
+
+export type ProjectUpdateWithoutAttachmentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.EnumProjectCategoryFieldUpdateOperationsInput | $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectUpdaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  estimatedDurationWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  numberOfStudents?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumProjectStatusFieldUpdateOperationsInput | $Enums.ProjectStatus
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  publishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  organization?: Prisma.OrganizationUpdateOneRequiredWithoutProjectsNestedInput
+  coordinator?: Prisma.CoordinatorUpdateOneWithoutProjectsNestedInput
+  applications?: Prisma.ApplicationUpdateManyWithoutProjectNestedInput
+  completions?: Prisma.ProjectCompletionUpdateManyWithoutProjectNestedInput
+}
+
+export type ProjectUncheckedUpdateWithoutAttachmentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.EnumProjectCategoryFieldUpdateOperationsInput | $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectUpdaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  estimatedDurationWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  numberOfStudents?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumProjectStatusFieldUpdateOperationsInput | $Enums.ProjectStatus
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  organizationId?: Prisma.StringFieldUpdateOperationsInput | string
+  coordinatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  publishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  applications?: Prisma.ApplicationUncheckedUpdateManyWithoutProjectNestedInput
+  completions?: Prisma.ProjectCompletionUncheckedUpdateManyWithoutProjectNestedInput
+}
+
+export type ProjectCreateManyCoordinatorInput = {
+  id?: string
+  title: string
+  description: string
+  category: $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectCreaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: number | null
+  estimatedDurationWeeks?: number | null
+  numberOfStudents?: number
+  status?: $Enums.ProjectStatus
+  rejectionReason?: string | null
+  organizationId: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  publishedAt?: Date | string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  deletedAt?: Date | string | null
+}
+
+export type ProjectUpdateWithoutCoordinatorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.EnumProjectCategoryFieldUpdateOperationsInput | $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectUpdaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  estimatedDurationWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  numberOfStudents?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumProjectStatusFieldUpdateOperationsInput | $Enums.ProjectStatus
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  publishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  organization?: Prisma.OrganizationUpdateOneRequiredWithoutProjectsNestedInput
+  applications?: Prisma.ApplicationUpdateManyWithoutProjectNestedInput
+  completions?: Prisma.ProjectCompletionUpdateManyWithoutProjectNestedInput
+  attachments?: Prisma.ProjectAttachmentUpdateManyWithoutProjectNestedInput
+}
+
+export type ProjectUncheckedUpdateWithoutCoordinatorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.EnumProjectCategoryFieldUpdateOperationsInput | $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectUpdaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  estimatedDurationWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  numberOfStudents?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumProjectStatusFieldUpdateOperationsInput | $Enums.ProjectStatus
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  organizationId?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  publishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  applications?: Prisma.ApplicationUncheckedUpdateManyWithoutProjectNestedInput
+  completions?: Prisma.ProjectCompletionUncheckedUpdateManyWithoutProjectNestedInput
+  attachments?: Prisma.ProjectAttachmentUncheckedUpdateManyWithoutProjectNestedInput
+}
+
+export type ProjectUncheckedUpdateManyWithoutCoordinatorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.EnumProjectCategoryFieldUpdateOperationsInput | $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectUpdaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  estimatedDurationWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  numberOfStudents?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumProjectStatusFieldUpdateOperationsInput | $Enums.ProjectStatus
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  organizationId?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  publishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type ProjectCreateManyOrganizationInput = {
+  id?: string
+  title: string
+  description: string
+  category: $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectCreaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: number | null
+  estimatedDurationWeeks?: number | null
+  numberOfStudents?: number
+  status?: $Enums.ProjectStatus
+  rejectionReason?: string | null
+  coordinatorId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  publishedAt?: Date | string | null
+  startedAt?: Date | string | null
+  completedAt?: Date | string | null
+  deletedAt?: Date | string | null
+}
+
+export type ProjectUpdateWithoutOrganizationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.EnumProjectCategoryFieldUpdateOperationsInput | $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectUpdaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  estimatedDurationWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  numberOfStudents?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumProjectStatusFieldUpdateOperationsInput | $Enums.ProjectStatus
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  publishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  coordinator?: Prisma.CoordinatorUpdateOneWithoutProjectsNestedInput
+  applications?: Prisma.ApplicationUpdateManyWithoutProjectNestedInput
+  completions?: Prisma.ProjectCompletionUpdateManyWithoutProjectNestedInput
+  attachments?: Prisma.ProjectAttachmentUpdateManyWithoutProjectNestedInput
+}
+
+export type ProjectUncheckedUpdateWithoutOrganizationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.EnumProjectCategoryFieldUpdateOperationsInput | $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectUpdaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  estimatedDurationWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  numberOfStudents?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumProjectStatusFieldUpdateOperationsInput | $Enums.ProjectStatus
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  coordinatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  publishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  applications?: Prisma.ApplicationUncheckedUpdateManyWithoutProjectNestedInput
+  completions?: Prisma.ProjectCompletionUncheckedUpdateManyWithoutProjectNestedInput
+  attachments?: Prisma.ProjectAttachmentUncheckedUpdateManyWithoutProjectNestedInput
+}
+
+export type ProjectUncheckedUpdateManyWithoutOrganizationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  category?: Prisma.EnumProjectCategoryFieldUpdateOperationsInput | $Enums.ProjectCategory
+  requiredSkills?: Prisma.ProjectUpdaterequiredSkillsInput | string[]
+  estimatedHoursPerWeek?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  estimatedDurationWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  numberOfStudents?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumProjectStatusFieldUpdateOperationsInput | $Enums.ProjectStatus
+  rejectionReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  coordinatorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  publishedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  startedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+
+/**
+ * Count Type ProjectCountOutputType
+ */
+
+export type ProjectCountOutputType = {
+  applications: number
+  completions: number
+  attachments: number
+}
+
+export type ProjectCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  applications?: boolean | ProjectCountOutputTypeCountApplicationsArgs
+  completions?: boolean | ProjectCountOutputTypeCountCompletionsArgs
+  attachments?: boolean | ProjectCountOutputTypeCountAttachmentsArgs
+}
+
+/**
+ * ProjectCountOutputType without action
+ */
+export type ProjectCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectCountOutputType
+   */
+  select?: Prisma.ProjectCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * ProjectCountOutputType without action
+ */
+export type ProjectCountOutputTypeCountApplicationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ApplicationWhereInput
+}
+
+/**
+ * ProjectCountOutputType without action
+ */
+export type ProjectCountOutputTypeCountCompletionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ProjectCompletionWhereInput
+}
+
+/**
+ * ProjectCountOutputType without action
+ */
+export type ProjectCountOutputTypeCountAttachmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ProjectAttachmentWhereInput
+}
+
+
+export type ProjectSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  title?: boolean
+  description?: boolean
+  category?: boolean
+  requiredSkills?: boolean
+  estimatedHoursPerWeek?: boolean
+  estimatedDurationWeeks?: boolean
+  numberOfStudents?: boolean
+  status?: boolean
+  rejectionReason?: boolean
+  organizationId?: boolean
+  coordinatorId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  publishedAt?: boolean
+  startedAt?: boolean
+  completedAt?: boolean
+  deletedAt?: boolean
+  organization?: boolean | Prisma.OrganizationDefaultArgs<ExtArgs>
+  coordinator?: boolean | Prisma.Project$coordinatorArgs<ExtArgs>
+  applications?: boolean | Prisma.Project$applicationsArgs<ExtArgs>
+  completions?: boolean | Prisma.Project$completionsArgs<ExtArgs>
+  attachments?: boolean | Prisma.Project$attachmentsArgs<ExtArgs>
+  _count?: boolean | Prisma.ProjectCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["project"]>
+
+export type ProjectSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  title?: boolean
+  description?: boolean
+  category?: boolean
+  requiredSkills?: boolean
+  estimatedHoursPerWeek?: boolean
+  estimatedDurationWeeks?: boolean
+  numberOfStudents?: boolean
+  status?: boolean
+  rejectionReason?: boolean
+  organizationId?: boolean
+  coordinatorId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  publishedAt?: boolean
+  startedAt?: boolean
+  completedAt?: boolean
+  deletedAt?: boolean
+  organization?: boolean | Prisma.OrganizationDefaultArgs<ExtArgs>
+  coordinator?: boolean | Prisma.Project$coordinatorArgs<ExtArgs>
+}, ExtArgs["result"]["project"]>
+
+export type ProjectSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  title?: boolean
+  description?: boolean
+  category?: boolean
+  requiredSkills?: boolean
+  estimatedHoursPerWeek?: boolean
+  estimatedDurationWeeks?: boolean
+  numberOfStudents?: boolean
+  status?: boolean
+  rejectionReason?: boolean
+  organizationId?: boolean
+  coordinatorId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  publishedAt?: boolean
+  startedAt?: boolean
+  completedAt?: boolean
+  deletedAt?: boolean
+  organization?: boolean | Prisma.OrganizationDefaultArgs<ExtArgs>
+  coordinator?: boolean | Prisma.Project$coordinatorArgs<ExtArgs>
+}, ExtArgs["result"]["project"]>
+
+export type ProjectSelectScalar = {
+  id?: boolean
+  title?: boolean
+  description?: boolean
+  category?: boolean
+  requiredSkills?: boolean
+  estimatedHoursPerWeek?: boolean
+  estimatedDurationWeeks?: boolean
+  numberOfStudents?: boolean
+  status?: boolean
+  rejectionReason?: boolean
+  organizationId?: boolean
+  coordinatorId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  publishedAt?: boolean
+  startedAt?: boolean
+  completedAt?: boolean
+  deletedAt?: boolean
+}
+
+export type ProjectOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "title" | "description" | "category" | "requiredSkills" | "estimatedHoursPerWeek" | "estimatedDurationWeeks" | "numberOfStudents" | "status" | "rejectionReason" | "organizationId" | "coordinatorId" | "createdAt" | "updatedAt" | "publishedAt" | "startedAt" | "completedAt" | "deletedAt", ExtArgs["result"]["project"]>
+export type ProjectInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  organization?: boolean | Prisma.OrganizationDefaultArgs<ExtArgs>
+  coordinator?: boolean | Prisma.Project$coordinatorArgs<ExtArgs>
+  applications?: boolean | Prisma.Project$applicationsArgs<ExtArgs>
+  completions?: boolean | Prisma.Project$completionsArgs<ExtArgs>
+  attachments?: boolean | Prisma.Project$attachmentsArgs<ExtArgs>
+  _count?: boolean | Prisma.ProjectCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type ProjectIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  organization?: boolean | Prisma.OrganizationDefaultArgs<ExtArgs>
+  coordinator?: boolean | Prisma.Project$coordinatorArgs<ExtArgs>
+}
+export type ProjectIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  organization?: boolean | Prisma.OrganizationDefaultArgs<ExtArgs>
+  coordinator?: boolean | Prisma.Project$coordinatorArgs<ExtArgs>
+}
+
+export type $ProjectPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "Project"
+  objects: {
+    organization: Prisma.$OrganizationPayload<ExtArgs>
+    coordinator: Prisma.$CoordinatorPayload<ExtArgs> | null
+    applications: Prisma.$ApplicationPayload<ExtArgs>[]
+    completions: Prisma.$ProjectCompletionPayload<ExtArgs>[]
+    attachments: Prisma.$ProjectAttachmentPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    title: string
+    description: string
+    category: $Enums.ProjectCategory
+    requiredSkills: string[]
+    estimatedHoursPerWeek: number | null
+    estimatedDurationWeeks: number | null
+    numberOfStudents: number
+    status: $Enums.ProjectStatus
+    rejectionReason: string | null
+    organizationId: string
+    coordinatorId: string | null
+    createdAt: Date
+    updatedAt: Date
+    publishedAt: Date | null
+    startedAt: Date | null
+    completedAt: Date | null
+    /**
+     * Set when the project is moved to the trash. Hidden from every query until restored or purged.
+     */
+    deletedAt: Date | null
+  }, ExtArgs["result"]["project"]>
+  composites: {}
+}
+
+export type ProjectGetPayload<S extends boolean | null | undefined | ProjectDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ProjectPayload, S>
+
+export type ProjectCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ProjectFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ProjectCountAggregateInputType | true
+  }
+
+export interface ProjectDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Project'], meta: { name: 'Project' } }
+  /**
+   * Find zero or one Project that matches the filter.
+   * @param {ProjectFindUniqueArgs} args - Arguments to find a Project
+   * @example
+   * // Get one Project
+   * const project = await prisma.project.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ProjectFindUniqueArgs>(args: Prisma.SelectSubset<T, ProjectFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ProjectClient<runtime.Types.Result.GetResult<Prisma.$ProjectPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one Project that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ProjectFindUniqueOrThrowArgs} args - Arguments to find a Project
+   * @example
+   * // Get one Project
+   * const project = await prisma.project.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ProjectFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ProjectFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ProjectClient<runtime.Types.Result.GetResult<Prisma.$ProjectPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Project that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectFindFirstArgs} args - Arguments to find a Project
+   * @example
+   * // Get one Project
+   * const project = await prisma.project.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ProjectFindFirstArgs>(args?: Prisma.SelectSubset<T, ProjectFindFirstArgs<ExtArgs>>): Prisma.Prisma__ProjectClient<runtime.Types.Result.GetResult<Prisma.$ProjectPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Project that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectFindFirstOrThrowArgs} args - Arguments to find a Project
+   * @example
+   * // Get one Project
+   * const project = await prisma.project.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ProjectFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ProjectFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ProjectClient<runtime.Types.Result.GetResult<Prisma.$ProjectPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more Projects that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all Projects
+   * const projects = await prisma.project.findMany()
+   * 
+   * // Get first 10 Projects
+   * const projects = await prisma.project.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const projectWithIdOnly = await prisma.project.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ProjectFindManyArgs>(args?: Prisma.SelectSubset<T, ProjectFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a Project.
+   * @param {ProjectCreateArgs} args - Arguments to create a Project.
+   * @example
+   * // Create one Project
+   * const Project = await prisma.project.create({
+   *   data: {
+   *     // ... data to create a Project
+   *   }
+   * })
+   * 
+   */
+  create<T extends ProjectCreateArgs>(args: Prisma.SelectSubset<T, ProjectCreateArgs<ExtArgs>>): Prisma.Prisma__ProjectClient<runtime.Types.Result.GetResult<Prisma.$ProjectPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many Projects.
+   * @param {ProjectCreateManyArgs} args - Arguments to create many Projects.
+   * @example
+   * // Create many Projects
+   * const project = await prisma.project.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ProjectCreateManyArgs>(args?: Prisma.SelectSubset<T, ProjectCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many Projects and returns the data saved in the database.
+   * @param {ProjectCreateManyAndReturnArgs} args - Arguments to create many Projects.
+   * @example
+   * // Create many Projects
+   * const project = await prisma.project.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many Projects and only return the `id`
+   * const projectWithIdOnly = await prisma.project.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ProjectCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ProjectCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a Project.
+   * @param {ProjectDeleteArgs} args - Arguments to delete one Project.
+   * @example
+   * // Delete one Project
+   * const Project = await prisma.project.delete({
+   *   where: {
+   *     // ... filter to delete one Project
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ProjectDeleteArgs>(args: Prisma.SelectSubset<T, ProjectDeleteArgs<ExtArgs>>): Prisma.Prisma__ProjectClient<runtime.Types.Result.GetResult<Prisma.$ProjectPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one Project.
+   * @param {ProjectUpdateArgs} args - Arguments to update one Project.
+   * @example
+   * // Update one Project
+   * const project = await prisma.project.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ProjectUpdateArgs>(args: Prisma.SelectSubset<T, ProjectUpdateArgs<ExtArgs>>): Prisma.Prisma__ProjectClient<runtime.Types.Result.GetResult<Prisma.$ProjectPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more Projects.
+   * @param {ProjectDeleteManyArgs} args - Arguments to filter Projects to delete.
+   * @example
+   * // Delete a few Projects
+   * const { count } = await prisma.project.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ProjectDeleteManyArgs>(args?: Prisma.SelectSubset<T, ProjectDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Projects.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many Projects
+   * const project = await prisma.project.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ProjectUpdateManyArgs>(args: Prisma.SelectSubset<T, ProjectUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Projects and returns the data updated in the database.
+   * @param {ProjectUpdateManyAndReturnArgs} args - Arguments to update many Projects.
+   * @example
+   * // Update many Projects
+   * const project = await prisma.project.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more Projects and only return the `id`
+   * const projectWithIdOnly = await prisma.project.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ProjectUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ProjectUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one Project.
+   * @param {ProjectUpsertArgs} args - Arguments to update or create a Project.
+   * @example
+   * // Update or create a Project
+   * const project = await prisma.project.upsert({
+   *   create: {
+   *     // ... data to create a Project
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the Project we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ProjectUpsertArgs>(args: Prisma.SelectSubset<T, ProjectUpsertArgs<ExtArgs>>): Prisma.Prisma__ProjectClient<runtime.Types.Result.GetResult<Prisma.$ProjectPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of Projects.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectCountArgs} args - Arguments to filter Projects to count.
+   * @example
+   * // Count the number of Projects
+   * const count = await prisma.project.count({
+   *   where: {
+   *     // ... the filter for the Projects we want to count
+   *   }
+   * })
+  **/
+  count<T extends ProjectCountArgs>(
+    args?: Prisma.Subset<T, ProjectCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ProjectCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a Project.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ProjectAggregateArgs>(args: Prisma.Subset<T, ProjectAggregateArgs>): Prisma.PrismaPromise<GetProjectAggregateType<T>>
+
+  /**
+   * Group by Project.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ProjectGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ProjectGroupByArgs['orderBy'] }
+      : { orderBy?: ProjectGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ProjectGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetProjectGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the Project model
+ */
+readonly fields: ProjectFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Project.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ProjectClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  organization<T extends Prisma.OrganizationDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.OrganizationDefaultArgs<ExtArgs>>): Prisma.Prisma__OrganizationClient<runtime.Types.Result.GetResult<Prisma.$OrganizationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  coordinator<T extends Prisma.Project$coordinatorArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Project$coordinatorArgs<ExtArgs>>): Prisma.Prisma__CoordinatorClient<runtime.Types.Result.GetResult<Prisma.$CoordinatorPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  applications<T extends Prisma.Project$applicationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Project$applicationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ApplicationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  completions<T extends Prisma.Project$completionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Project$completionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectCompletionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  attachments<T extends Prisma.Project$attachmentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Project$attachmentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectAttachmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the Project model
+ */
+export interface ProjectFieldRefs {
+  readonly id: Prisma.FieldRef<"Project", 'String'>
+  readonly title: Prisma.FieldRef<"Project", 'String'>
+  readonly description: Prisma.FieldRef<"Project", 'String'>
+  readonly category: Prisma.FieldRef<"Project", 'ProjectCategory'>
+  readonly requiredSkills: Prisma.FieldRef<"Project", 'String[]'>
+  readonly estimatedHoursPerWeek: Prisma.FieldRef<"Project", 'Int'>
+  readonly estimatedDurationWeeks: Prisma.FieldRef<"Project", 'Int'>
+  readonly numberOfStudents: Prisma.FieldRef<"Project", 'Int'>
+  readonly status: Prisma.FieldRef<"Project", 'ProjectStatus'>
+  readonly rejectionReason: Prisma.FieldRef<"Project", 'String'>
+  readonly organizationId: Prisma.FieldRef<"Project", 'String'>
+  readonly coordinatorId: Prisma.FieldRef<"Project", 'String'>
+  readonly createdAt: Prisma.FieldRef<"Project", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"Project", 'DateTime'>
+  readonly publishedAt: Prisma.FieldRef<"Project", 'DateTime'>
+  readonly startedAt: Prisma.FieldRef<"Project", 'DateTime'>
+  readonly completedAt: Prisma.FieldRef<"Project", 'DateTime'>
+  readonly deletedAt: Prisma.FieldRef<"Project", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * Project findUnique
+ */
+export type ProjectFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Project
+   */
+  select?: Prisma.ProjectSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Project
+   */
+  omit?: Prisma.ProjectOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectInclude<ExtArgs> | null
+  /**
+   * Filter, which Project to fetch.
+   */
+  where: Prisma.ProjectWhereUniqueInput
+}
+
+/**
+ * Project findUniqueOrThrow
+ */
+export type ProjectFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Project
+   */
+  select?: Prisma.ProjectSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Project
+   */
+  omit?: Prisma.ProjectOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectInclude<ExtArgs> | null
+  /**
+   * Filter, which Project to fetch.
+   */
+  where: Prisma.ProjectWhereUniqueInput
+}
+
+/**
+ * Project findFirst
+ */
+export type ProjectFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Project
+   */
+  select?: Prisma.ProjectSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Project
+   */
+  omit?: Prisma.ProjectOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectInclude<ExtArgs> | null
+  /**
+   * Filter, which Project to fetch.
+   */
+  where?: Prisma.ProjectWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Projects to fetch.
+   */
+  orderBy?: Prisma.ProjectOrderByWithRelationInput | Prisma.ProjectOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Projects.
+   */
+  cursor?: Prisma.ProjectWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Projects from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Projects.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Projects.
+   */
+  distinct?: Prisma.ProjectScalarFieldEnum | Prisma.ProjectScalarFieldEnum[]
+}
+
+/**
+ * Project findFirstOrThrow
+ */
+export type ProjectFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Project
+   */
+  select?: Prisma.ProjectSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Project
+   */
+  omit?: Prisma.ProjectOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectInclude<ExtArgs> | null
+  /**
+   * Filter, which Project to fetch.
+   */
+  where?: Prisma.ProjectWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Projects to fetch.
+   */
+  orderBy?: Prisma.ProjectOrderByWithRelationInput | Prisma.ProjectOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Projects.
+   */
+  cursor?: Prisma.ProjectWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Projects from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Projects.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Projects.
+   */
+  distinct?: Prisma.ProjectScalarFieldEnum | Prisma.ProjectScalarFieldEnum[]
+}
+
+/**
+ * Project findMany
+ */
+export type ProjectFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Project
+   */
+  select?: Prisma.ProjectSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Project
+   */
+  omit?: Prisma.ProjectOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectInclude<ExtArgs> | null
+  /**
+   * Filter, which Projects to fetch.
+   */
+  where?: Prisma.ProjectWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Projects to fetch.
+   */
+  orderBy?: Prisma.ProjectOrderByWithRelationInput | Prisma.ProjectOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing Projects.
+   */
+  cursor?: Prisma.ProjectWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Projects from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Projects.
+   */
+  skip?: number
+  distinct?: Prisma.ProjectScalarFieldEnum | Prisma.ProjectScalarFieldEnum[]
+}
+
+/**
+ * Project create
+ */
+export type ProjectCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Project
+   */
+  select?: Prisma.ProjectSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Project
+   */
+  omit?: Prisma.ProjectOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectInclude<ExtArgs> | null
+  /**
+   * The data needed to create a Project.
+   */
+  data: Prisma.XOR<Prisma.ProjectCreateInput, Prisma.ProjectUncheckedCreateInput>
+}
+
+/**
+ * Project createMany
+ */
+export type ProjectCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many Projects.
+   */
+  data: Prisma.ProjectCreateManyInput | Prisma.ProjectCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * Project createManyAndReturn
+ */
+export type ProjectCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Project
+   */
+  select?: Prisma.ProjectSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Project
+   */
+  omit?: Prisma.ProjectOmit<ExtArgs> | null
+  /**
+   * The data used to create many Projects.
+   */
+  data: Prisma.ProjectCreateManyInput | Prisma.ProjectCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Project update
+ */
+export type ProjectUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Project
+   */
+  select?: Prisma.ProjectSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Project
+   */
+  omit?: Prisma.ProjectOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectInclude<ExtArgs> | null
+  /**
+   * The data needed to update a Project.
+   */
+  data: Prisma.XOR<Prisma.ProjectUpdateInput, Prisma.ProjectUncheckedUpdateInput>
+  /**
+   * Choose, which Project to update.
+   */
+  where: Prisma.ProjectWhereUniqueInput
+}
+
+/**
+ * Project updateMany
+ */
+export type ProjectUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update Projects.
+   */
+  data: Prisma.XOR<Prisma.ProjectUpdateManyMutationInput, Prisma.ProjectUncheckedUpdateManyInput>
+  /**
+   * Filter which Projects to update
+   */
+  where?: Prisma.ProjectWhereInput
+  /**
+   * Limit how many Projects to update.
+   */
+  limit?: number
+}
+
+/**
+ * Project updateManyAndReturn
+ */
+export type ProjectUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Project
+   */
+  select?: Prisma.ProjectSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Project
+   */
+  omit?: Prisma.ProjectOmit<ExtArgs> | null
+  /**
+   * The data used to update Projects.
+   */
+  data: Prisma.XOR<Prisma.ProjectUpdateManyMutationInput, Prisma.ProjectUncheckedUpdateManyInput>
+  /**
+   * Filter which Projects to update
+   */
+  where?: Prisma.ProjectWhereInput
+  /**
+   * Limit how many Projects to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Project upsert
+ */
+export type ProjectUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Project
+   */
+  select?: Prisma.ProjectSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Project
+   */
+  omit?: Prisma.ProjectOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectInclude<ExtArgs> | null
+  /**
+   * The filter to search for the Project to update in case it exists.
+   */
+  where: Prisma.ProjectWhereUniqueInput
+  /**
+   * In case the Project found by the `where` argument doesn't exist, create a new Project with this data.
+   */
+  create: Prisma.XOR<Prisma.ProjectCreateInput, Prisma.ProjectUncheckedCreateInput>
+  /**
+   * In case the Project was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ProjectUpdateInput, Prisma.ProjectUncheckedUpdateInput>
+}
+
+/**
+ * Project delete
+ */
+export type ProjectDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Project
+   */
+  select?: Prisma.ProjectSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Project
+   */
+  omit?: Prisma.ProjectOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectInclude<ExtArgs> | null
+  /**
+   * Filter which Project to delete.
+   */
+  where: Prisma.ProjectWhereUniqueInput
+}
+
+/**
+ * Project deleteMany
+ */
+export type ProjectDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Projects to delete
+   */
+  where?: Prisma.ProjectWhereInput
+  /**
+   * Limit how many Projects to delete.
+   */
+  limit?: number
+}
+
+/**
+ * Project.coordinator
+ */
+export type Project$coordinatorArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Coordinator
+   */
+  select?: Prisma.CoordinatorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Coordinator
+   */
+  omit?: Prisma.CoordinatorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CoordinatorInclude<ExtArgs> | null
+  where?: Prisma.CoordinatorWhereInput
+}
+
+/**
+ * Project.applications
+ */
+export type Project$applicationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Application
+   */
+  select?: Prisma.ApplicationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Application
+   */
+  omit?: Prisma.ApplicationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ApplicationInclude<ExtArgs> | null
+  where?: Prisma.ApplicationWhereInput
+  orderBy?: Prisma.ApplicationOrderByWithRelationInput | Prisma.ApplicationOrderByWithRelationInput[]
+  cursor?: Prisma.ApplicationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ApplicationScalarFieldEnum | Prisma.ApplicationScalarFieldEnum[]
+}
+
+/**
+ * Project.completions
+ */
+export type Project$completionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectCompletion
+   */
+  select?: Prisma.ProjectCompletionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectCompletion
+   */
+  omit?: Prisma.ProjectCompletionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectCompletionInclude<ExtArgs> | null
+  where?: Prisma.ProjectCompletionWhereInput
+  orderBy?: Prisma.ProjectCompletionOrderByWithRelationInput | Prisma.ProjectCompletionOrderByWithRelationInput[]
+  cursor?: Prisma.ProjectCompletionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ProjectCompletionScalarFieldEnum | Prisma.ProjectCompletionScalarFieldEnum[]
+}
+
+/**
+ * Project.attachments
+ */
+export type Project$attachmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectAttachment
+   */
+  select?: Prisma.ProjectAttachmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectAttachment
+   */
+  omit?: Prisma.ProjectAttachmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectAttachmentInclude<ExtArgs> | null
+  where?: Prisma.ProjectAttachmentWhereInput
+  orderBy?: Prisma.ProjectAttachmentOrderByWithRelationInput | Prisma.ProjectAttachmentOrderByWithRelationInput[]
+  cursor?: Prisma.ProjectAttachmentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ProjectAttachmentScalarFieldEnum | Prisma.ProjectAttachmentScalarFieldEnum[]
+}
+
+/**
+ * Project without action
+ */
+export type ProjectDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Project
+   */
+  select?: Prisma.ProjectSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Project
+   */
+  omit?: Prisma.ProjectOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectInclude<ExtArgs> | null
+}
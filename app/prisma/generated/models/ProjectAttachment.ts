@@ -0,0 +1,1851 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ProjectAttachment` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ProjectAttachment
+ * File attached to a project: material shared with the team (brief, dataset, brand kit),
+ * or a student's deliverable when linked to a completion. The contents are kept in file storage.
+ */
+export type ProjectAttachmentModel = runtime.Types.Result.DefaultSelection<Prisma.$ProjectAttachmentPayload>
+
+export type AggregateProjectAttachment = {
+  _count: ProjectAttachmentCountAggregateOutputType | null
+  _avg: ProjectAttachmentAvgAggregateOutputType | null
+  _sum: ProjectAttachmentSumAggregateOutputType | null
+  _min: ProjectAttachmentMinAggregateOutputType | null
+  _max: ProjectAttachmentMaxAggregateOutputType | null
+}
+
+export type ProjectAttachmentAvgAggregateOutputType = {
+  size: number | null
+}
+
+export type ProjectAttachmentSumAggregateOutputType = {
+  size: number | null
+}
+
+export type ProjectAttachmentMinAggregateOutputType = {
+  id: string | null
+  projectId: string | null
+  projectCompletionId: string | null
+  uploadedById: string | null
+  fileName: string | null
+  contentType: string | null
+  size: number | null
+  storageKey: string | null
+  createdAt: Date | null
+}
+
+export type ProjectAttachmentMaxAggregateOutputType = {
+  id: string | null
+  projectId: string | null
+  projectCompletionId: string | null
+  uploadedById: string | null
+  fileName: string | null
+  contentType: string | null
+  size: number | null
+  storageKey: string | null
+  createdAt: Date | null
+}
+
+export type ProjectAttachmentCountAggregateOutputType = {
+  id: number
+  projectId: number
+  projectCompletionId: number
+  uploadedById: number
+  fileName: number
+  contentType: number
+  size: number
+  storageKey: number
+  createdAt: number
+  _all: number
+}
+
+
+export type ProjectAttachmentAvgAggregateInputType = {
+  size?: true
+}
+
+export type ProjectAttachmentSumAggregateInputType = {
+  size?: true
+}
+
+export type ProjectAttachmentMinAggregateInputType = {
+  id?: true
+  projectId?: true
+  projectCompletionId?: true
+  uploadedById?: true
+  fileName?: true
+  contentType?: true
+  size?: true
+  storageKey?: true
+  createdAt?: true
+}
+
+export type ProjectAttachmentMaxAggregateInputType = {
+  id?: true
+  projectId?: true
+  projectCompletionId?: true
+  uploadedById?: true
+  fileName?: true
+  contentType?: true
+  size?: true
+  storageKey?: true
+  createdAt?: true
+}
+
+export type ProjectAttachmentCountAggregateInputType = {
+  id?: true
+  projectId?: true
+  projectCompletionId?: true
+  uploadedById?: true
+  fileName?: true
+  contentType?: true
+  size?: true
+  storageKey?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type ProjectAttachmentAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ProjectAttachment to aggregate.
+   */
+  where?: Prisma.ProjectAttachmentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProjectAttachments to fetch.
+   */
+  orderBy?: Prisma.ProjectAttachmentOrderByWithRelationInput | Prisma.ProjectAttachmentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ProjectAttachmentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProjectAttachments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProjectAttachments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ProjectAttachments
+  **/
+  _count?: true | ProjectAttachmentCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ProjectAttachmentAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ProjectAttachmentSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ProjectAttachmentMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ProjectAttachmentMaxAggregateInputType
+}
+
+export type GetProjectAttachmentAggregateType<T extends ProjectAttachmentAggregateArgs> = {
+      [P in keyof T & keyof AggregateProjectAttachment]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateProjectAttachment[P]>
+    : Prisma.GetScalarType<T[P], AggregateProjectAttachment[P]>
+}
+
+
+
+
+export type ProjectAttachmentGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ProjectAttachmentWhereInput
+  orderBy?: Prisma.ProjectAttachmentOrderByWithAggregationInput | Prisma.ProjectAttachmentOrderByWithAggregationInput[]
+  by: Prisma.ProjectAttachmentScalarFieldEnum[] | Prisma.ProjectAttachmentScalarFieldEnum
+  having?: Prisma.ProjectAttachmentScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ProjectAttachmentCountAggregateInputType | true
+  _avg?: ProjectAttachmentAvgAggregateInputType
+  _sum?: ProjectAttachmentSumAggregateInputType
+  _min?: ProjectAttachmentMinAggregateInputType
+  _max?: ProjectAttachmentMaxAggregateInputType
+}
+
+export type ProjectAttachmentGroupByOutputType = {
+  id: string
+  projectId: string
+  projectCompletionId: string | null
+  uploadedById: string | null
+  fileName: string
+  contentType: string
+  size: number
+  storageKey: string
+  createdAt: Date
+  _count: ProjectAttachmentCountAggregateOutputType | null
+  _avg: ProjectAttachmentAvgAggregateOutputType | null
+  _sum: ProjectAttachmentSumAggregateOutputType | null
+  _min: ProjectAttachmentMinAggregateOutputType | null
+  _max: ProjectAttachmentMaxAggregateOutputType | null
+}
+
+type GetProjectAttachmentGroupByPayload<T extends ProjectAttachmentGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ProjectAttachmentGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ProjectAttachmentGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ProjectAttachmentGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ProjectAttachmentGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ProjectAttachmentWhereInput = {
+  AND?: Prisma.ProjectAttachmentWhereInput | Prisma.ProjectAttachmentWhereInput[]
+  OR?: Prisma.ProjectAttachmentWhereInput[]
+  NOT?: Prisma.ProjectAttachmentWhereInput | Prisma.ProjectAttachmentWhereInput[]
+  id?: Prisma.StringFilter<"ProjectAttachment"> | string
+  projectId?: Prisma.StringFilter<"ProjectAttachment"> | string
+  projectCompletionId?: Prisma.StringNullableFilter<"ProjectAttachment"> | string | null
+  uploadedById?: Prisma.StringNullableFilter<"ProjectAttachment"> | string | null
+  fileName?: Prisma.StringFilter<"ProjectAttachment"> | string
+  contentType?: Prisma.StringFilter<"ProjectAttachment"> | string
+  size?: Prisma.IntFilter<"ProjectAttachment"> | number
+  storageKey?: Prisma.StringFilter<"ProjectAttachment"> | string
+  createdAt?: Prisma.DateTimeFilter<"ProjectAttachment"> | Date | string
+  project?: Prisma.XOR<Prisma.ProjectScalarRelationFilter, Prisma.ProjectWhereInput>
+  projectCompletion?: Prisma.XOR<Prisma.ProjectCompletionNullableScalarRelationFilter, Prisma.ProjectCompletionWhereInput> | null
+  uploadedBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}
+
+export type ProjectAttachmentOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  projectCompletionId?: Prisma.SortOrderInput | Prisma.SortOrder
+  uploadedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  fileName?: Prisma.SortOrder
+  contentType?: Prisma.SortOrder
+  size?: Prisma.SortOrder
+  storageKey?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  project?: Prisma.ProjectOrderByWithRelationInput
+  projectCompletion?: Prisma.ProjectCompletionOrderByWithRelationInput
+  uploadedBy?: Prisma.UserOrderByWithRelationInput
+}
+
+export type ProjectAttachmentWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  storageKey?: string
+  AND?: Prisma.ProjectAttachmentWhereInput | Prisma.ProjectAttachmentWhereInput[]
+  OR?: Prisma.ProjectAttachmentWhereInput[]
+  NOT?: Prisma.ProjectAttachmentWhereInput | Prisma.ProjectAttachmentWhereInput[]
+  projectId?: Prisma.StringFilter<"ProjectAttachment"> | string
+  projectCompletionId?: Prisma.StringNullableFilter<"ProjectAttachment"> | string | null
+  uploadedById?: Prisma.StringNullableFilter<"ProjectAttachment"> | string | null
+  fileName?: Prisma.StringFilter<"ProjectAttachment"> | string
+  contentType?: Prisma.StringFilter<"ProjectAttachment"> | string
+  size?: Prisma.IntFilter<"ProjectAttachment"> | number
+  createdAt?: Prisma.DateTimeFilter<"ProjectAttachment"> | Date | string
+  project?: Prisma.XOR<Prisma.ProjectScalarRelationFilter, Prisma.ProjectWhereInput>
+  projectCompletion?: Prisma.XOR<Prisma.ProjectCompletionNullableScalarRelationFilter, Prisma.ProjectCompletionWhereInput> | null
+  uploadedBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}, "id" | "storageKey">
+
+export type ProjectAttachmentOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  projectCompletionId?: Prisma.SortOrderInput | Prisma.SortOrder
+  uploadedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  fileName?: Prisma.SortOrder
+  contentType?: Prisma.SortOrder
+  size?: Prisma.SortOrder
+  storageKey?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.ProjectAttachmentCountOrderByAggregateInput
+  _avg?: Prisma.ProjectAttachmentAvgOrderByAggregateInput
+  _max?: Prisma.ProjectAttachmentMaxOrderByAggregateInput
+  _min?: Prisma.ProjectAttachmentMinOrderByAggregateInput
+  _sum?: Prisma.ProjectAttachmentSumOrderByAggregateInput
+}
+
+export type ProjectAttachmentScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ProjectAttachmentScalarWhereWithAggregatesInput | Prisma.ProjectAttachmentScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ProjectAttachmentScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ProjectAttachmentScalarWhereWithAggregatesInput | Prisma.ProjectAttachmentScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ProjectAttachment"> | string
+  projectId?: Prisma.StringWithAggregatesFilter<"ProjectAttachment"> | string
+  projectCompletionId?: Prisma.StringNullableWithAggregatesFilter<"ProjectAttachment"> | string | null
+  uploadedById?: Prisma.StringNullableWithAggregatesFilter<"ProjectAttachment"> | string | null
+  fileName?: Prisma.StringWithAggregatesFilter<"ProjectAttachment"> | string
+  contentType?: Prisma.StringWithAggregatesFilter<"ProjectAttachment"> | string
+  size?: Prisma.IntWithAggregatesFilter<"ProjectAttachment"> | number
+  storageKey?: Prisma.StringWithAggregatesFilter<"ProjectAttachment"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ProjectAttachment"> | Date | string
+}
+
+export type ProjectAttachmentCreateInput = {
+  id?: string
+  fileName: string
+  contentType: string
+  size: number
+  storageKey: string
+  createdAt?: Date | string
+  project: Prisma.ProjectCreateNestedOneWithoutAttachmentsInput
+  projectCompletion?: Prisma.ProjectCompletionCreateNestedOneWithoutDeliverablesInput
+  uploadedBy?: Prisma.UserCreateNestedOneWithoutProjectAttachmentsInput
+}
+
+export type ProjectAttachmentUncheckedCreateInput = {
+  id?: string
+  projectId: string
+  projectCompletionId?: string | null
+  uploadedById?: string | null
+  fileName: string
+  contentType: string
+  size: number
+  storageKey: string
+  createdAt?: Date | string
+}
+
+export type ProjectAttachmentUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  contentType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.IntFieldUpdateOperationsInput | number
+  storageKey?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  project?: Prisma.ProjectUpdateOneRequiredWithoutAttachmentsNestedInput
+  projectCompletion?: Prisma.ProjectCompletionUpdateOneWithoutDeliverablesNestedInput
+  uploadedBy?: Prisma.UserUpdateOneWithoutProjectAttachmentsNestedInput
+}
+
+export type ProjectAttachmentUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  projectId?: Prisma.StringFieldUpdateOperationsInput | string
+  projectCompletionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  uploadedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  contentType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.IntFieldUpdateOperationsInput | number
+  storageKey?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectAttachmentCreateManyInput = {
+  id?: string
+  projectId: string
+  projectCompletionId?: string | null
+  uploadedById?: string | null
+  fileName: string
+  contentType: string
+  size: number
+  storageKey: string
+  createdAt?: Date | string
+}
+
+export type ProjectAttachmentUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  contentType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.IntFieldUpdateOperationsInput | number
+  storageKey?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectAttachmentUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  projectId?: Prisma.StringFieldUpdateOperationsInput | string
+  projectCompletionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  uploadedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  contentType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.IntFieldUpdateOperationsInput | number
+  storageKey?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectAttachmentListRelationFilter = {
+  every?: Prisma.ProjectAttachmentWhereInput
+  some?: Prisma.ProjectAttachmentWhereInput
+  none?: Prisma.ProjectAttachmentWhereInput
+}
+
+export type ProjectAttachmentOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ProjectAttachmentCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  projectCompletionId?: Prisma.SortOrder
+  uploadedById?: Prisma.SortOrder
+  fileName?: Prisma.SortOrder
+  contentType?: Prisma.SortOrder
+  size?: Prisma.SortOrder
+  storageKey?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ProjectAttachmentAvgOrderByAggregateInput = {
+  size?: Prisma.SortOrder
+}
+
+export type ProjectAttachmentMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  projectCompletionId?: Prisma.SortOrder
+  uploadedById?: Prisma.SortOrder
+  fileName?: Prisma.SortOrder
+  contentType?: Prisma.SortOrder
+  size?: Prisma.SortOrder
+  storageKey?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ProjectAttachmentMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  projectCompletionId?: Prisma.SortOrder
+  uploadedById?: Prisma.SortOrder
+  fileName?: Prisma.SortOrder
+  contentType?: Prisma.SortOrder
+  size?: Prisma.SortOrder
+  storageKey?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type ProjectAttachmentSumOrderByAggregateInput = {
+  size?: Prisma.SortOrder
+}
+
+export type ProjectAttachmentCreateNestedManyWithoutUploadedByInput = {
+  create?: Prisma.XOR<Prisma.ProjectAttachmentCreateWithoutUploadedByInput, Prisma.ProjectAttachmentUncheckedCreateWithoutUploadedByInput> | Prisma.ProjectAttachmentCreateWithoutUploadedByInput[] | Prisma.ProjectAttachmentUncheckedCreateWithoutUploadedByInput[]
+  connectOrCreate?: Prisma.ProjectAttachmentCreateOrConnectWithoutUploadedByInput | Prisma.ProjectAttachmentCreateOrConnectWithoutUploadedByInput[]
+  createMany?: Prisma.ProjectAttachmentCreateManyUploadedByInputEnvelope
+  connect?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+}
+
+export type ProjectAttachmentUncheckedCreateNestedManyWithoutUploadedByInput = {
+  create?: Prisma.XOR<Prisma.ProjectAttachmentCreateWithoutUploadedByInput, Prisma.ProjectAttachmentUncheckedCreateWithoutUploadedByInput> | Prisma.ProjectAttachmentCreateWithoutUploadedByInput[] | Prisma.ProjectAttachmentUncheckedCreateWithoutUploadedByInput[]
+  connectOrCreate?: Prisma.ProjectAttachmentCreateOrConnectWithoutUploadedByInput | Prisma.ProjectAttachmentCreateOrConnectWithoutUploadedByInput[]
+  createMany?: Prisma.ProjectAttachmentCreateManyUploadedByInputEnvelope
+  connect?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+}
+
+export type ProjectAttachmentUpdateManyWithoutUploadedByNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectAttachmentCreateWithoutUploadedByInput, Prisma.ProjectAttachmentUncheckedCreateWithoutUploadedByInput> | Prisma.ProjectAttachmentCreateWithoutUploadedByInput[] | Prisma.ProjectAttachmentUncheckedCreateWithoutUploadedByInput[]
+  connectOrCreate?: Prisma.ProjectAttachmentCreateOrConnectWithoutUploadedByInput | Prisma.ProjectAttachmentCreateOrConnectWithoutUploadedByInput[]
+  upsert?: Prisma.ProjectAttachmentUpsertWithWhereUniqueWithoutUploadedByInput | Prisma.ProjectAttachmentUpsertWithWhereUniqueWithoutUploadedByInput[]
+  createMany?: Prisma.ProjectAttachmentCreateManyUploadedByInputEnvelope
+  set?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+  disconnect?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+  delete?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+  connect?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+  update?: Prisma.ProjectAttachmentUpdateWithWhereUniqueWithoutUploadedByInput | Prisma.ProjectAttachmentUpdateWithWhereUniqueWithoutUploadedByInput[]
+  updateMany?: Prisma.ProjectAttachmentUpdateManyWithWhereWithoutUploadedByInput | Prisma.ProjectAttachmentUpdateManyWithWhereWithoutUploadedByInput[]
+  deleteMany?: Prisma.ProjectAttachmentScalarWhereInput | Prisma.ProjectAttachmentScalarWhereInput[]
+}
+
+export type ProjectAttachmentUncheckedUpdateManyWithoutUploadedByNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectAttachmentCreateWithoutUploadedByInput, Prisma.ProjectAttachmentUncheckedCreateWithoutUploadedByInput> | Prisma.ProjectAttachmentCreateWithoutUploadedByInput[] | Prisma.ProjectAttachmentUncheckedCreateWithoutUploadedByInput[]
+  connectOrCreate?: Prisma.ProjectAttachmentCreateOrConnectWithoutUploadedByInput | Prisma.ProjectAttachmentCreateOrConnectWithoutUploadedByInput[]
+  upsert?: Prisma.ProjectAttachmentUpsertWithWhereUniqueWithoutUploadedByInput | Prisma.ProjectAttachmentUpsertWithWhereUniqueWithoutUploadedByInput[]
+  createMany?: Prisma.ProjectAttachmentCreateManyUploadedByInputEnvelope
+  set?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+  disconnect?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+  delete?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+  connect?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+  update?: Prisma.ProjectAttachmentUpdateWithWhereUniqueWithoutUploadedByInput | Prisma.ProjectAttachmentUpdateWithWhereUniqueWithoutUploadedByInput[]
+  updateMany?: Prisma.ProjectAttachmentUpdateManyWithWhereWithoutUploadedByInput | Prisma.ProjectAttachmentUpdateManyWithWhereWithoutUploadedByInput[]
+  deleteMany?: Prisma.ProjectAttachmentScalarWhereInput | Prisma.ProjectAttachmentScalarWhereInput[]
+}
+
+export type ProjectAttachmentCreateNestedManyWithoutProjectInput = {
+  create?: Prisma.XOR<Prisma.ProjectAttachmentCreateWithoutProjectInput, Prisma.ProjectAttachmentUncheckedCreateWithoutProjectInput> | Prisma.ProjectAttachmentCreateWithoutProjectInput[] | Prisma.ProjectAttachmentUncheckedCreateWithoutProjectInput[]
+  connectOrCreate?: Prisma.ProjectAttachmentCreateOrConnectWithoutProjectInput | Prisma.ProjectAttachmentCreateOrConnectWithoutProjectInput[]
+  createMany?: Prisma.ProjectAttachmentCreateManyProjectInputEnvelope
+  connect?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+}
+
+export type ProjectAttachmentUncheckedCreateNestedManyWithoutProjectInput = {
+  create?: Prisma.XOR<Prisma.ProjectAttachmentCreateWithoutProjectInput, Prisma.ProjectAttachmentUncheckedCreateWithoutProjectInput> | Prisma.ProjectAttachmentCreateWithoutProjectInput[] | Prisma.ProjectAttachmentUncheckedCreateWithoutProjectInput[]
+  connectOrCreate?: Prisma.ProjectAttachmentCreateOrConnectWithoutProjectInput | Prisma.ProjectAttachmentCreateOrConnectWithoutProjectInput[]
+  createMany?: Prisma.ProjectAttachmentCreateManyProjectInputEnvelope
+  connect?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+}
+
+export type ProjectAttachmentUpdateManyWithoutProjectNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectAttachmentCreateWithoutProjectInput, Prisma.ProjectAttachmentUncheckedCreateWithoutProjectInput> | Prisma.ProjectAttachmentCreateWithoutProjectInput[] | Prisma.ProjectAttachmentUncheckedCreateWithoutProjectInput[]
+  connectOrCreate?: Prisma.ProjectAttachmentCreateOrConnectWithoutProjectInput | Prisma.ProjectAttachmentCreateOrConnectWithoutProjectInput[]
+  upsert?: Prisma.ProjectAttachmentUpsertWithWhereUniqueWithoutProjectInput | Prisma.ProjectAttachmentUpsertWithWhereUniqueWithoutProjectInput[]
+  createMany?: Prisma.ProjectAttachmentCreateManyProjectInputEnvelope
+  set?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+  disconnect?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+  delete?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+  connect?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+  update?: Prisma.ProjectAttachmentUpdateWithWhereUniqueWithoutProjectInput | Prisma.ProjectAttachmentUpdateWithWhereUniqueWithoutProjectInput[]
+  updateMany?: Prisma.ProjectAttachmentUpdateManyWithWhereWithoutProjectInput | Prisma.ProjectAttachmentUpdateManyWithWhereWithoutProjectInput[]
+  deleteMany?: Prisma.ProjectAttachmentScalarWhereInput | Prisma.ProjectAttachmentScalarWhereInput[]
+}
+
+export type ProjectAttachmentUncheckedUpdateManyWithoutProjectNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectAttachmentCreateWithoutProjectInput, Prisma.ProjectAttachmentUncheckedCreateWithoutProjectInput> | Prisma.ProjectAttachmentCreateWithoutProjectInput[] | Prisma.ProjectAttachmentUncheckedCreateWithoutProjectInput[]
+  connectOrCreate?: Prisma.ProjectAttachmentCreateOrConnectWithoutProjectInput | Prisma.ProjectAttachmentCreateOrConnectWithoutProjectInput[]
+  upsert?: Prisma.ProjectAttachmentUpsertWithWhereUniqueWithoutProjectInput | Prisma.ProjectAttachmentUpsertWithWhereUniqueWithoutProjectInput[]
+  createMany?: Prisma.ProjectAttachmentCreateManyProjectInputEnvelope
+  set?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+  disconnect?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+  delete?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+  connect?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+  update?: Prisma.ProjectAttachmentUpdateWithWhereUniqueWithoutProjectInput | Prisma.ProjectAttachmentUpdateWithWhereUniqueWithoutProjectInput[]
+  updateMany?: Prisma.ProjectAttachmentUpdateManyWithWhereWithoutProjectInput | Prisma.ProjectAttachmentUpdateManyWithWhereWithoutProjectInput[]
+  deleteMany?: Prisma.ProjectAttachmentScalarWhereInput | Prisma.ProjectAttachmentScalarWhereInput[]
+}
+
+export type ProjectAttachmentCreateNestedManyWithoutProjectCompletionInput = {
+  create?: Prisma.XOR<Prisma.ProjectAttachmentCreateWithoutProjectCompletionInput, Prisma.ProjectAttachmentUncheckedCreateWithoutProjectCompletionInput> | Prisma.ProjectAttachmentCreateWithoutProjectCompletionInput[] | Prisma.ProjectAttachmentUncheckedCreateWithoutProjectCompletionInput[]
+  connectOrCreate?: Prisma.ProjectAttachmentCreateOrConnectWithoutProjectCompletionInput | Prisma.ProjectAttachmentCreateOrConnectWithoutProjectCompletionInput[]
+  createMany?: Prisma.ProjectAttachmentCreateManyProjectCompletionInputEnvelope
+  connect?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+}
+
+export type ProjectAttachmentUncheckedCreateNestedManyWithoutProjectCompletionInput = {
+  create?: Prisma.XOR<Prisma.ProjectAttachmentCreateWithoutProjectCompletionInput, Prisma.ProjectAttachmentUncheckedCreateWithoutProjectCompletionInput> | Prisma.ProjectAttachmentCreateWithoutProjectCompletionInput[] | Prisma.ProjectAttachmentUncheckedCreateWithoutProjectCompletionInput[]
+  connectOrCreate?: Prisma.ProjectAttachmentCreateOrConnectWithoutProjectCompletionInput | Prisma.ProjectAttachmentCreateOrConnectWithoutProjectCompletionInput[]
+  createMany?: Prisma.ProjectAttachmentCreateManyProjectCompletionInputEnvelope
+  connect?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+}
+
+export type ProjectAttachmentUpdateManyWithoutProjectCompletionNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectAttachmentCreateWithoutProjectCompletionInput, Prisma.ProjectAttachmentUncheckedCreateWithoutProjectCompletionInput> | Prisma.ProjectAttachmentCreateWithoutProjectCompletionInput[] | Prisma.ProjectAttachmentUncheckedCreateWithoutProjectCompletionInput[]
+  connectOrCreate?: Prisma.ProjectAttachmentCreateOrConnectWithoutProjectCompletionInput | Prisma.ProjectAttachmentCreateOrConnectWithoutProjectCompletionInput[]
+  upsert?: Prisma.ProjectAttachmentUpsertWithWhereUniqueWithoutProjectCompletionInput | Prisma.ProjectAttachmentUpsertWithWhereUniqueWithoutProjectCompletionInput[]
+  createMany?: Prisma.ProjectAttachmentCreateManyProjectCompletionInputEnvelope
+  set?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+  disconnect?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+  delete?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+  connect?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+  update?: Prisma.ProjectAttachmentUpdateWithWhereUniqueWithoutProjectCompletionInput | Prisma.ProjectAttachmentUpdateWithWhereUniqueWithoutProjectCompletionInput[]
+  updateMany?: Prisma.ProjectAttachmentUpdateManyWithWhereWithoutProjectCompletionInput | Prisma.ProjectAttachmentUpdateManyWithWhereWithoutProjectCompletionInput[]
+  deleteMany?: Prisma.ProjectAttachmentScalarWhereInput | Prisma.ProjectAttachmentScalarWhereInput[]
+}
+
+export type ProjectAttachmentUncheckedUpdateManyWithoutProjectCompletionNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectAttachmentCreateWithoutProjectCompletionInput, Prisma.ProjectAttachmentUncheckedCreateWithoutProjectCompletionInput> | Prisma.ProjectAttachmentCreateWithoutProjectCompletionInput[] | Prisma.ProjectAttachmentUncheckedCreateWithoutProjectCompletionInput[]
+  connectOrCreate?: Prisma.ProjectAttachmentCreateOrConnectWithoutProjectCompletionInput | Prisma.ProjectAttachmentCreateOrConnectWithoutProjectCompletionInput[]
+  upsert?: Prisma.ProjectAttachmentUpsertWithWhereUniqueWithoutProjectCompletionInput | Prisma.ProjectAttachmentUpsertWithWhereUniqueWithoutProjectCompletionInput[]
+  createMany?: Prisma.ProjectAttachmentCreateManyProjectCompletionInputEnvelope
+  set?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+  disconnect?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+  delete?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+  connect?: Prisma.ProjectAttachmentWhereUniqueInput | Prisma.ProjectAttachmentWhereUniqueInput[]
+  update?: Prisma.ProjectAttachmentUpdateWithWhereUniqueWithoutProjectCompletionInput | Prisma.ProjectAttachmentUpdateWithWhereUniqueWithoutProjectCompletionInput[]
+  updateMany?: Prisma.ProjectAttachmentUpdateManyWithWhereWithoutProjectCompletionInput | Prisma.ProjectAttachmentUpdateManyWithWhereWithoutProjectCompletionInput[]
+  deleteMany?: Prisma.ProjectAttachmentScalarWhereInput | Prisma.ProjectAttachmentScalarWhereInput[]
+}
+
+export type ProjectAttachmentCreateWithoutUploadedByInput = {
+  id?: string
+  fileName: string
+  contentType: string
+  size: number
+  storageKey: string
+  createdAt?: Date | string
+  project: Prisma.ProjectCreateNestedOneWithoutAttachmentsInput
+  projectCompletion?: Prisma.ProjectCompletionCreateNestedOneWithoutDeliverablesInput
+}
+
+export type ProjectAttachmentUncheckedCreateWithoutUploadedByInput = {
+  id?: string
+  projectId: string
+  projectCompletionId?: string | null
+  fileName: string
+  contentType: string
+  size: number
+  storageKey: string
+  createdAt?: Date | string
+}
+
+export type ProjectAttachmentCreateOrConnectWithoutUploadedByInput = {
+  where: Prisma.ProjectAttachmentWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProjectAttachmentCreateWithoutUploadedByInput, Prisma.ProjectAttachmentUncheckedCreateWithoutUploadedByInput>
+}
+
+export type ProjectAttachmentCreateManyUploadedByInputEnvelope = {
+  data: Prisma.ProjectAttachmentCreateManyUploadedByInput | Prisma.ProjectAttachmentCreateManyUploadedByInput[]
+  skipDuplicates?: boolean
+}
+
+export type ProjectAttachmentUpsertWithWhereUniqueWithoutUploadedByInput = {
+  where: Prisma.ProjectAttachmentWhereUniqueInput
+  update: Prisma.XOR<Prisma.ProjectAttachmentUpdateWithoutUploadedByInput, Prisma.ProjectAttachmentUncheckedUpdateWithoutUploadedByInput>
+  create: Prisma.XOR<Prisma.ProjectAttachmentCreateWithoutUploadedByInput, Prisma.ProjectAttachmentUncheckedCreateWithoutUploadedByInput>
+}
+
+export type ProjectAttachmentUpdateWithWhereUniqueWithoutUploadedByInput = {
+  where: Prisma.ProjectAttachmentWhereUniqueInput
+  data: Prisma.XOR<Prisma.ProjectAttachmentUpdateWithoutUploadedByInput, Prisma.ProjectAttachmentUncheckedUpdateWithoutUploadedByInput>
+}
+
+export type ProjectAttachmentUpdateManyWithWhereWithoutUploadedByInput = {
+  where: Prisma.ProjectAttachmentScalarWhereInput
+  data: Prisma.XOR<Prisma.ProjectAttachmentUpdateManyMutationInput, Prisma.ProjectAttachmentUncheckedUpdateManyWithoutUploadedByInput>
+}
+
+export type ProjectAttachmentScalarWhereInput = {
+  AND?: Prisma.ProjectAttachmentScalarWhereInput | Prisma.ProjectAttachmentScalarWhereInput[]
+  OR?: Prisma.ProjectAttachmentScalarWhereInput[]
+  NOT?: Prisma.ProjectAttachmentScalarWhereInput | Prisma.ProjectAttachmentScalarWhereInput[]
+  id?: Prisma.StringFilter<"ProjectAttachment"> | string
+  projectId?: Prisma.StringFilter<"ProjectAttachment"> | string
+  projectCompletionId?: Prisma.StringNullableFilter<"ProjectAttachment"> | string | null
+  uploadedById?: Prisma.StringNullableFilter<"ProjectAttachment"> | string | null
+  fileName?: Prisma.StringFilter<"ProjectAttachment"> | string
+  contentType?: Prisma.StringFilter<"ProjectAttachment"> | string
+  size?: Prisma.IntFilter<"ProjectAttachment"> | number
+  storageKey?: Prisma.StringFilter<"ProjectAttachment"> | string
+  createdAt?: Prisma.DateTimeFilter<"ProjectAttachment"> | Date | string
+}
+
+export type ProjectAttachmentCreateWithoutProjectInput = {
+  id?: string
+  fileName: string
+  contentType: string
+  size: number
+  storageKey: string
+  createdAt?: Date | string
+  projectCompletion?: Prisma.ProjectCompletionCreateNestedOneWithoutDeliverablesInput
+  uploadedBy?: Prisma.UserCreateNestedOneWithoutProjectAttachmentsInput
+}
+
+export type ProjectAttachmentUncheckedCreateWithoutProjectInput = {
+  id?: string
+  projectCompletionId?: string | null
+  uploadedById?: string | null
+  fileName: string
+  contentType: string
+  size: number
+  storageKey: string
+  createdAt?: Date | string
+}
+
+export type ProjectAttachmentCreateOrConnectWithoutProjectInput = {
+  where: Prisma.ProjectAttachmentWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProjectAttachmentCreateWithoutProjectInput, Prisma.ProjectAttachmentUncheckedCreateWithoutProjectInput>
+}
+
+export type ProjectAttachmentCreateManyProjectInputEnvelope = {
+  data: Prisma.ProjectAttachmentCreateManyProjectInput | Prisma.ProjectAttachmentCreateManyProjectInput[]
+  skipDuplicates?: boolean
+}
+
+export type ProjectAttachmentUpsertWithWhereUniqueWithoutProjectInput = {
+  where: Prisma.ProjectAttachmentWhereUniqueInput
+  update: Prisma.XOR<Prisma.ProjectAttachmentUpdateWithoutProjectInput, Prisma.ProjectAttachmentUncheckedUpdateWithoutProjectInput>
+  create: Prisma.XOR<Prisma.ProjectAttachmentCreateWithoutProjectInput, Prisma.ProjectAttachmentUncheckedCreateWithoutProjectInput>
+}
+
+export type ProjectAttachmentUpdateWithWhereUniqueWithoutProjectInput = {
+  where: Prisma.ProjectAttachmentWhereUniqueInput
+  data: Prisma.XOR<Prisma.ProjectAttachmentUpdateWithoutProjectInput, Prisma.ProjectAttachmentUncheckedUpdateWithoutProjectInput>
+}
+
+export type ProjectAttachmentUpdateManyWithWhereWithoutProjectInput = {
+  where: Prisma.ProjectAttachmentScalarWhereInput
+  data: Prisma.XOR<Prisma.ProjectAttachmentUpdateManyMutationInput, Prisma.ProjectAttachmentUncheckedUpdateManyWithoutProjectInput>
+}
+
+export type ProjectAttachmentCreateWithoutProjectCompletionInput = {
+  id?: string
+  fileName: string
+  contentType: string
+  size: number
+  storageKey: string
+  createdAt?: Date | string
+  project: Prisma.ProjectCreateNestedOneWithoutAttachmentsInput
+  uploadedBy?: Prisma.UserCreateNestedOneWithoutProjectAttachmentsInput
+}
+
+export type ProjectAttachmentUncheckedCreateWithoutProjectCompletionInput = {
+  id?: string
+  projectId: string
+  uploadedById?: string | null
+  fileName: string
+  contentType: string
+  size: number
+  storageKey: string
+  createdAt?: Date | string
+}
+
+export type ProjectAttachmentCreateOrConnectWithoutProjectCompletionInput = {
+  where: Prisma.ProjectAttachmentWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProjectAttachmentCreateWithoutProjectCompletionInput, Prisma.ProjectAttachmentUncheckedCreateWithoutProjectCompletionInput>
+}
+
+export type ProjectAttachmentCreateManyProjectCompletionInputEnvelope = {
+  data: Prisma.ProjectAttachmentCreateManyProjectCompletionInput | Prisma.ProjectAttachmentCreateManyProjectCompletionInput[]
+  skipDuplicates?: boolean
+}
+
+export type ProjectAttachmentUpsertWithWhereUniqueWithoutProjectCompletionInput = {
+  where: Prisma.ProjectAttachmentWhereUniqueInput
+  update: Prisma.XOR<Prisma.ProjectAttachmentUpdateWithoutProjectCompletionInput, Prisma.ProjectAttachmentUncheckedUpdateWithoutProjectCompletionInput>
+  create: Prisma.XOR<Prisma.ProjectAttachmentCreateWithoutProjectCompletionInput, Prisma.ProjectAttachmentUncheckedCreateWithoutProjectCompletionInput>
+}
+
+export type ProjectAttachmentUpdateWithWhereUniqueWithoutProjectCompletionInput = {
+  where: Prisma.ProjectAttachmentWhereUniqueInput
+  data: Prisma.XOR<Prisma.ProjectAttachmentUpdateWithoutProjectCompletionInput, Prisma.ProjectAttachmentUncheckedUpdateWithoutProjectCompletionInput>
+}
+
+export type ProjectAttachmentUpdateManyWithWhereWithoutProjectCompletionInput = {
+  where: Prisma.ProjectAttachmentScalarWhereInput
+  data: Prisma.XOR<Prisma.ProjectAttachmentUpdateManyMutationInput, Prisma.ProjectAttachmentUncheckedUpdateManyWithoutProjectCompletionInput>
+}
+
+export type ProjectAttachmentCreateManyUploadedByInput = {
+  id?: string
+  projectId: string
+  projectCompletionId?: string | null
+  fileName: string
+  contentType: string
+  size: number
+  storageKey: string
+  createdAt?: Date | string
+}
+
+export type ProjectAttachmentUpdateWithoutUploadedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  contentType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.IntFieldUpdateOperationsInput | number
+  storageKey?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  project?: Prisma.ProjectUpdateOneRequiredWithoutAttachmentsNestedInput
+  projectCompletion?: Prisma.ProjectCompletionUpdateOneWithoutDeliverablesNestedInput
+}
+
+export type ProjectAttachmentUncheckedUpdateWithoutUploadedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  projectId?: Prisma.StringFieldUpdateOperationsInput | string
+  projectCompletionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  contentType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.IntFieldUpdateOperationsInput | number
+  storageKey?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectAttachmentUncheckedUpdateManyWithoutUploadedByInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  projectId?: Prisma.StringFieldUpdateOperationsInput | string
+  projectCompletionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  contentType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.IntFieldUpdateOperationsInput | number
+  storageKey?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectAttachmentCreateManyProjectInput = {
+  id?: string
+  projectCompletionId?: string | null
+  uploadedById?: string | null
+  fileName: string
+  contentType: string
+  size: number
+  storageKey: string
+  createdAt?: Date | string
+}
+
+export type ProjectAttachmentUpdateWithoutProjectInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  contentType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.IntFieldUpdateOperationsInput | number
+  storageKey?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  projectCompletion?: Prisma.ProjectCompletionUpdateOneWithoutDeliverablesNestedInput
+  uploadedBy?: Prisma.UserUpdateOneWithoutProjectAttachmentsNestedInput
+}
+
+export type ProjectAttachmentUncheckedUpdateWithoutProjectInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  projectCompletionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  uploadedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  contentType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.IntFieldUpdateOperationsInput | number
+  storageKey?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectAttachmentUncheckedUpdateManyWithoutProjectInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  projectCompletionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  uploadedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  contentType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.IntFieldUpdateOperationsInput | number
+  storageKey?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectAttachmentCreateManyProjectCompletionInput = {
+  id?: string
+  projectId: string
+  uploadedById?: string | null
+  fileName: string
+  contentType: string
+  size: number
+  storageKey: string
+  createdAt?: Date | string
+}
+
+export type ProjectAttachmentUpdateWithoutProjectCompletionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  contentType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.IntFieldUpdateOperationsInput | number
+  storageKey?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  project?: Prisma.ProjectUpdateOneRequiredWithoutAttachmentsNestedInput
+  uploadedBy?: Prisma.UserUpdateOneWithoutProjectAttachmentsNestedInput
+}
+
+export type ProjectAttachmentUncheckedUpdateWithoutProjectCompletionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  projectId?: Prisma.StringFieldUpdateOperationsInput | string
+  uploadedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  contentType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.IntFieldUpdateOperationsInput | number
+  storageKey?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectAttachmentUncheckedUpdateManyWithoutProjectCompletionInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  projectId?: Prisma.StringFieldUpdateOperationsInput | string
+  uploadedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fileName?: Prisma.StringFieldUpdateOperationsInput | string
+  contentType?: Prisma.StringFieldUpdateOperationsInput | string
+  size?: Prisma.IntFieldUpdateOperationsInput | number
+  storageKey?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ProjectAttachmentSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  projectId?: boolean
+  projectCompletionId?: boolean
+  uploadedById?: boolean
+  fileName?: boolean
+  contentType?: boolean
+  size?: boolean
+  storageKey?: boolean
+  createdAt?: boolean
+  project?: boolean | Prisma.ProjectDefaultArgs<ExtArgs>
+  projectCompletion?: boolean | Prisma.ProjectAttachment$projectCompletionArgs<ExtArgs>
+  uploadedBy?: boolean | Prisma.ProjectAttachment$uploadedByArgs<ExtArgs>
+}, ExtArgs["result"]["projectAttachment"]>
+
+export type ProjectAttachmentSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  projectId?: boolean
+  projectCompletionId?: boolean
+  uploadedById?: boolean
+  fileName?: boolean
+  contentType?: boolean
+  size?: boolean
+  storageKey?: boolean
+  createdAt?: boolean
+  project?: boolean | Prisma.ProjectDefaultArgs<ExtArgs>
+  projectCompletion?: boolean | Prisma.ProjectAttachment$projectCompletionArgs<ExtArgs>
+  uploadedBy?: boolean | Prisma.ProjectAttachment$uploadedByArgs<ExtArgs>
+}, ExtArgs["result"]["projectAttachment"]>
+
+export type ProjectAttachmentSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  projectId?: boolean
+  projectCompletionId?: boolean
+  uploadedById?: boolean
+  fileName?: boolean
+  contentType?: boolean
+  size?: boolean
+  storageKey?: boolean
+  createdAt?: boolean
+  project?: boolean | Prisma.ProjectDefaultArgs<ExtArgs>
+  projectCompletion?: boolean | Prisma.ProjectAttachment$projectCompletionArgs<ExtArgs>
+  uploadedBy?: boolean | Prisma.ProjectAttachment$uploadedByArgs<ExtArgs>
+}, ExtArgs["result"]["projectAttachment"]>
+
+export type ProjectAttachmentSelectScalar = {
+  id?: boolean
+  projectId?: boolean
+  projectCompletionId?: boolean
+  uploadedById?: boolean
+  fileName?: boolean
+  contentType?: boolean
+  size?: boolean
+  storageKey?: boolean
+  createdAt?: boolean
+}
+
+export type ProjectAttachmentOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "projectId" | "projectCompletionId" | "uploadedById" | "fileName" | "contentType" | "size" | "storageKey" | "createdAt", ExtArgs["result"]["projectAttachment"]>
+export type ProjectAttachmentInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  project?: boolean | Prisma.ProjectDefaultArgs<ExtArgs>
+  projectCompletion?: boolean | Prisma.ProjectAttachment$projectCompletionArgs<ExtArgs>
+  uploadedBy?: boolean | Prisma.ProjectAttachment$uploadedByArgs<ExtArgs>
+}
+export type ProjectAttachmentIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  project?: boolean | Prisma.ProjectDefaultArgs<ExtArgs>
+  projectCompletion?: boolean | Prisma.ProjectAttachment$projectCompletionArgs<ExtArgs>
+  uploadedBy?: boolean | Prisma.ProjectAttachment$uploadedByArgs<ExtArgs>
+}
+export type ProjectAttachmentIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  project?: boolean | Prisma.ProjectDefaultArgs<ExtArgs>
+  projectCompletion?: boolean | Prisma.ProjectAttachment$projectCompletionArgs<ExtArgs>
+  uploadedBy?: boolean | Prisma.ProjectAttachment$uploadedByArgs<ExtArgs>
+}
+
+export type $ProjectAttachmentPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ProjectAttachment"
+  objects: {
+    project: Prisma.$ProjectPayload<ExtArgs>
+    projectCompletion: Prisma.$ProjectCompletionPayload<ExtArgs> | null
+    uploadedBy: Prisma.$UserPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    projectId: string
+    projectCompletionId: string | null
+    uploadedById: string | null
+    fileName: string
+    contentType: string
+    size: number
+    storageKey: string
+    createdAt: Date
+  }, ExtArgs["result"]["projectAttachment"]>
+  composites: {}
+}
+
+export type ProjectAttachmentGetPayload<S extends boolean | null | undefined | ProjectAttachmentDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ProjectAttachmentPayload, S>
+
+export type ProjectAttachmentCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ProjectAttachmentFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ProjectAttachmentCountAggregateInputType | true
+  }
+
+export interface ProjectAttachmentDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ProjectAttachment'], meta: { name: 'ProjectAttachment' } }
+  /**
+   * Find zero or one ProjectAttachment that matches the filter.
+   * @param {ProjectAttachmentFindUniqueArgs} args - Arguments to find a ProjectAttachment
+   * @example
+   * // Get one ProjectAttachment
+   * const projectAttachment = await prisma.projectAttachment.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ProjectAttachmentFindUniqueArgs>(args: Prisma.SelectSubset<T, ProjectAttachmentFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ProjectAttachmentClient<runtime.Types.Result.GetResult<Prisma.$ProjectAttachmentPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ProjectAttachment that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ProjectAttachmentFindUniqueOrThrowArgs} args - Arguments to find a ProjectAttachment
+   * @example
+   * // Get one ProjectAttachment
+   * const projectAttachment = await prisma.projectAttachment.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ProjectAttachmentFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ProjectAttachmentFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ProjectAttachmentClient<runtime.Types.Result.GetResult<Prisma.$ProjectAttachmentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ProjectAttachment that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectAttachmentFindFirstArgs} args - Arguments to find a ProjectAttachment
+   * @example
+   * // Get one ProjectAttachment
+   * const projectAttachment = await prisma.projectAttachment.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ProjectAttachmentFindFirstArgs>(args?: Prisma.SelectSubset<T, ProjectAttachmentFindFirstArgs<ExtArgs>>): Prisma.Prisma__ProjectAttachmentClient<runtime.Types.Result.GetResult<Prisma.$ProjectAttachmentPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ProjectAttachment that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectAttachmentFindFirstOrThrowArgs} args - Arguments to find a ProjectAttachment
+   * @example
+   * // Get one ProjectAttachment
+   * const projectAttachment = await prisma.projectAttachment.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ProjectAttachmentFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ProjectAttachmentFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ProjectAttachmentClient<runtime.Types.Result.GetResult<Prisma.$ProjectAttachmentPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ProjectAttachments that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectAttachmentFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ProjectAttachments
+   * const projectAttachments = await prisma.projectAttachment.findMany()
+   * 
+   * // Get first 10 ProjectAttachments
+   * const projectAttachments = await prisma.projectAttachment.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const projectAttachmentWithIdOnly = await prisma.projectAttachment.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ProjectAttachmentFindManyArgs>(args?: Prisma.SelectSubset<T, ProjectAttachmentFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectAttachmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ProjectAttachment.
+   * @param {ProjectAttachmentCreateArgs} args - Arguments to create a ProjectAttachment.
+   * @example
+   * // Create one ProjectAttachment
+   * const ProjectAttachment = await prisma.projectAttachment.create({
+   *   data: {
+   *     // ... data to create a ProjectAttachment
+   *   }
+   * })
+   * 
+   */
+  create<T extends ProjectAttachmentCreateArgs>(args: Prisma.SelectSubset<T, ProjectAttachmentCreateArgs<ExtArgs>>): Prisma.Prisma__ProjectAttachmentClient<runtime.Types.Result.GetResult<Prisma.$ProjectAttachmentPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ProjectAttachments.
+   * @param {ProjectAttachmentCreateManyArgs} args - Arguments to create many ProjectAttachments.
+   * @example
+   * // Create many ProjectAttachments
+   * const projectAttachment = await prisma.projectAttachment.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ProjectAttachmentCreateManyArgs>(args?: Prisma.SelectSubset<T, ProjectAttachmentCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ProjectAttachments and returns the data saved in the database.
+   * @param {ProjectAttachmentCreateManyAndReturnArgs} args - Arguments to create many ProjectAttachments.
+   * @example
+   * // Create many ProjectAttachments
+   * const projectAttachment = await prisma.projectAttachment.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ProjectAttachments and only return the `id`
+   * const projectAttachmentWithIdOnly = await prisma.projectAttachment.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ProjectAttachmentCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ProjectAttachmentCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectAttachmentPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ProjectAttachment.
+   * @param {ProjectAttachmentDeleteArgs} args - Arguments to delete one ProjectAttachment.
+   * @example
+   * // Delete one ProjectAttachment
+   * const ProjectAttachment = await prisma.projectAttachment.delete({
+   *   where: {
+   *     // ... filter to delete one ProjectAttachment
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ProjectAttachmentDeleteArgs>(args: Prisma.SelectSubset<T, ProjectAttachmentDeleteArgs<ExtArgs>>): Prisma.Prisma__ProjectAttachmentClient<runtime.Types.Result.GetResult<Prisma.$ProjectAttachmentPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ProjectAttachment.
+   * @param {ProjectAttachmentUpdateArgs} args - Arguments to update one ProjectAttachment.
+   * @example
+   * // Update one ProjectAttachment
+   * const projectAttachment = await prisma.projectAttachment.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ProjectAttachmentUpdateArgs>(args: Prisma.SelectSubset<T, ProjectAttachmentUpdateArgs<ExtArgs>>): Prisma.Prisma__ProjectAttachmentClient<runtime.Types.Result.GetResult<Prisma.$ProjectAttachmentPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ProjectAttachments.
+   * @param {ProjectAttachmentDeleteManyArgs} args - Arguments to filter ProjectAttachments to delete.
+   * @example
+   * // Delete a few ProjectAttachments
+   * const { count } = await prisma.projectAttachment.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ProjectAttachmentDeleteManyArgs>(args?: Prisma.SelectSubset<T, ProjectAttachmentDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ProjectAttachments.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectAttachmentUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ProjectAttachments
+   * const projectAttachment = await prisma.projectAttachment.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ProjectAttachmentUpdateManyArgs>(args: Prisma.SelectSubset<T, ProjectAttachmentUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ProjectAttachments and returns the data updated in the database.
+   * @param {ProjectAttachmentUpdateManyAndReturnArgs} args - Arguments to update many ProjectAttachments.
+   * @example
+   * // Update many ProjectAttachments
+   * const projectAttachment = await prisma.projectAttachment.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ProjectAttachments and only return the `id`
+   * const projectAttachmentWithIdOnly = await prisma.projectAttachment.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ProjectAttachmentUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ProjectAttachmentUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectAttachmentPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ProjectAttachment.
+   * @param {ProjectAttachmentUpsertArgs} args - Arguments to update or create a ProjectAttachment.
+   * @example
+   * // Update or create a ProjectAttachment
+   * const projectAttachment = await prisma.projectAttachment.upsert({
+   *   create: {
+   *     // ... data to create a ProjectAttachment
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ProjectAttachment we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ProjectAttachmentUpsertArgs>(args: Prisma.SelectSubset<T, ProjectAttachmentUpsertArgs<ExtArgs>>): Prisma.Prisma__ProjectAttachmentClient<runtime.Types.Result.GetResult<Prisma.$ProjectAttachmentPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ProjectAttachments.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectAttachmentCountArgs} args - Arguments to filter ProjectAttachments to count.
+   * @example
+   * // Count the number of ProjectAttachments
+   * const count = await prisma.projectAttachment.count({
+   *   where: {
+   *     // ... the filter for the ProjectAttachments we want to count
+   *   }
+   * })
+  **/
+  count<T extends ProjectAttachmentCountArgs>(
+    args?: Prisma.Subset<T, ProjectAttachmentCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ProjectAttachmentCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ProjectAttachment.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectAttachmentAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ProjectAttachmentAggregateArgs>(args: Prisma.Subset<T, ProjectAttachmentAggregateArgs>): Prisma.PrismaPromise<GetProjectAttachmentAggregateType<T>>
+
+  /**
+   * Group by ProjectAttachment.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectAttachmentGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ProjectAttachmentGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ProjectAttachmentGroupByArgs['orderBy'] }
+      : { orderBy?: ProjectAttachmentGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ProjectAttachmentGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetProjectAttachmentGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ProjectAttachment model
+ */
+readonly fields: ProjectAttachmentFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ProjectAttachment.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ProjectAttachmentClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  project<T extends Prisma.ProjectDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ProjectDefaultArgs<ExtArgs>>): Prisma.Prisma__ProjectClient<runtime.Types.Result.GetResult<Prisma.$ProjectPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  projectCompletion<T extends Prisma.ProjectAttachment$projectCompletionArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ProjectAttachment$projectCompletionArgs<ExtArgs>>): Prisma.Prisma__ProjectCompletionClient<runtime.Types.Result.GetResult<Prisma.$ProjectCompletionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  uploadedBy<T extends Prisma.ProjectAttachment$uploadedByArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ProjectAttachment$uploadedByArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ProjectAttachment model
+ */
+export interface ProjectAttachmentFieldRefs {
+  readonly id: Prisma.FieldRef<"ProjectAttachment", 'String'>
+  readonly projectId: Prisma.FieldRef<"ProjectAttachment", 'String'>
+  readonly projectCompletionId: Prisma.FieldRef<"ProjectAttachment", 'String'>
+  readonly uploadedById: Prisma.FieldRef<"ProjectAttachment", 'String'>
+  readonly fileName: Prisma.FieldRef<"ProjectAttachment", 'String'>
+  readonly contentType: Prisma.FieldRef<"ProjectAttachment", 'String'>
+  readonly size: Prisma.FieldRef<"ProjectAttachment", 'Int'>
+  readonly storageKey: Prisma.FieldRef<"ProjectAttachment", 'String'>
+  readonly createdAt: Prisma.FieldRef<"ProjectAttachment", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ProjectAttachment findUnique
+ */
+export type ProjectAttachmentFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectAttachment
+   */
+  select?: Prisma.ProjectAttachmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectAttachment
+   */
+  omit?: Prisma.ProjectAttachmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectAttachmentInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectAttachment to fetch.
+   */
+  where: Prisma.ProjectAttachmentWhereUniqueInput
+}
+
+/**
+ * ProjectAttachment findUniqueOrThrow
+ */
+export type ProjectAttachmentFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectAttachment
+   */
+  select?: Prisma.ProjectAttachmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectAttachment
+   */
+  omit?: Prisma.ProjectAttachmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectAttachmentInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectAttachment to fetch.
+   */
+  where: Prisma.ProjectAttachmentWhereUniqueInput
+}
+
+/**
+ * ProjectAttachment findFirst
+ */
+export type ProjectAttachmentFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectAttachment
+   */
+  select?: Prisma.ProjectAttachmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectAttachment
+   */
+  omit?: Prisma.ProjectAttachmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectAttachmentInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectAttachment to fetch.
+   */
+  where?: Prisma.ProjectAttachmentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProjectAttachments to fetch.
+   */
+  orderBy?: Prisma.ProjectAttachmentOrderByWithRelationInput | Prisma.ProjectAttachmentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ProjectAttachments.
+   */
+  cursor?: Prisma.ProjectAttachmentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProjectAttachments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProjectAttachments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ProjectAttachments.
+   */
+  distinct?: Prisma.ProjectAttachmentScalarFieldEnum | Prisma.ProjectAttachmentScalarFieldEnum[]
+}
+
+/**
+ * ProjectAttachment findFirstOrThrow
+ */
+export type ProjectAttachmentFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectAttachment
+   */
+  select?: Prisma.ProjectAttachmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectAttachment
+   */
+  omit?: Prisma.ProjectAttachmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectAttachmentInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectAttachment to fetch.
+   */
+  where?: Prisma.ProjectAttachmentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProjectAttachments to fetch.
+   */
+  orderBy?: Prisma.ProjectAttachmentOrderByWithRelationInput | Prisma.ProjectAttachmentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ProjectAttachments.
+   */
+  cursor?: Prisma.ProjectAttachmentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProjectAttachments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProjectAttachments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ProjectAttachments.
+   */
+  distinct?: Prisma.ProjectAttachmentScalarFieldEnum | Prisma.ProjectAttachmentScalarFieldEnum[]
+}
+
+/**
+ * ProjectAttachment findMany
+ */
+export type ProjectAttachmentFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectAttachment
+   */
+  select?: Prisma.ProjectAttachmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectAttachment
+   */
+  omit?: Prisma.ProjectAttachmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectAttachmentInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectAttachments to fetch.
+   */
+  where?: Prisma.ProjectAttachmentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProjectAttachments to fetch.
+   */
+  orderBy?: Prisma.ProjectAttachmentOrderByWithRelationInput | Prisma.ProjectAttachmentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ProjectAttachments.
+   */
+  cursor?: Prisma.ProjectAttachmentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProjectAttachments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProjectAttachments.
+   */
+  skip?: number
+  distinct?: Prisma.ProjectAttachmentScalarFieldEnum | Prisma.ProjectAttachmentScalarFieldEnum[]
+}
+
+/**
+ * ProjectAttachment create
+ */
+export type ProjectAttachmentCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectAttachment
+   */
+  select?: Prisma.ProjectAttachmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectAttachment
+   */
+  omit?: Prisma.ProjectAttachmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectAttachmentInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ProjectAttachment.
+   */
+  data: Prisma.XOR<Prisma.ProjectAttachmentCreateInput, Prisma.ProjectAttachmentUncheckedCreateInput>
+}
+
+/**
+ * ProjectAttachment createMany
+ */
+export type ProjectAttachmentCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ProjectAttachments.
+   */
+  data: Prisma.ProjectAttachmentCreateManyInput | Prisma.ProjectAttachmentCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ProjectAttachment createManyAndReturn
+ */
+export type ProjectAttachmentCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectAttachment
+   */
+  select?: Prisma.ProjectAttachmentSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectAttachment
+   */
+  omit?: Prisma.ProjectAttachmentOmit<ExtArgs> | null
+  /**
+   * The data used to create many ProjectAttachments.
+   */
+  data: Prisma.ProjectAttachmentCreateManyInput | Prisma.ProjectAttachmentCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectAttachmentIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ProjectAttachment update
+ */
+export type ProjectAttachmentUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectAttachment
+   */
+  select?: Prisma.ProjectAttachmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectAttachment
+   */
+  omit?: Prisma.ProjectAttachmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectAttachmentInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ProjectAttachment.
+   */
+  data: Prisma.XOR<Prisma.ProjectAttachmentUpdateInput, Prisma.ProjectAttachmentUncheckedUpdateInput>
+  /**
+   * Choose, which ProjectAttachment to update.
+   */
+  where: Prisma.ProjectAttachmentWhereUniqueInput
+}
+
+/**
+ * ProjectAttachment updateMany
+ */
+export type ProjectAttachmentUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ProjectAttachments.
+   */
+  data: Prisma.XOR<Prisma.ProjectAttachmentUpdateManyMutationInput, Prisma.ProjectAttachmentUncheckedUpdateManyInput>
+  /**
+   * Filter which ProjectAttachments to update
+   */
+  where?: Prisma.ProjectAttachmentWhereInput
+  /**
+   * Limit how many ProjectAttachments to update.
+   */
+  limit?: number
+}
+
+/**
+ * ProjectAttachment updateManyAndReturn
+ */
+export type ProjectAttachmentUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectAttachment
+   */
+  select?: Prisma.ProjectAttachmentSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectAttachment
+   */
+  omit?: Prisma.ProjectAttachmentOmit<ExtArgs> | null
+  /**
+   * The data used to update ProjectAttachments.
+   */
+  data: Prisma.XOR<Prisma.ProjectAttachmentUpdateManyMutationInput, Prisma.ProjectAttachmentUncheckedUpdateManyInput>
+  /**
+   * Filter which ProjectAttachments to update
+   */
+  where?: Prisma.ProjectAttachmentWhereInput
+  /**
+   * Limit how many ProjectAttachments to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectAttachmentIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ProjectAttachment upsert
+ */
+export type ProjectAttachmentUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectAttachment
+   */
+  select?: Prisma.ProjectAttachmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectAttachment
+   */
+  omit?: Prisma.ProjectAttachmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectAttachmentInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ProjectAttachment to update in case it exists.
+   */
+  where: Prisma.ProjectAttachmentWhereUniqueInput
+  /**
+   * In case the ProjectAttachment found by the `where` argument doesn't exist, create a new ProjectAttachment with this data.
+   */
+  create: Prisma.XOR<Prisma.ProjectAttachmentCreateInput, Prisma.ProjectAttachmentUncheckedCreateInput>
+  /**
+   * In case the ProjectAttachment was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ProjectAttachmentUpdateInput, Prisma.ProjectAttachmentUncheckedUpdateInput>
+}
+
+/**
+ * ProjectAttachment delete
+ */
+export type ProjectAttachmentDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectAttachment
+   */
+  select?: Prisma.ProjectAttachmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectAttachment
+   */
+  omit?: Prisma.ProjectAttachmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectAttachmentInclude<ExtArgs> | null
+  /**
+   * Filter which ProjectAttachment to delete.
+   */
+  where: Prisma.ProjectAttachmentWhereUniqueInput
+}
+
+/**
+ * ProjectAttachment deleteMany
+ */
+export type ProjectAttachmentDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ProjectAttachments to delete
+   */
+  where?: Prisma.ProjectAttachmentWhereInput
+  /**
+   * Limit how many ProjectAttachments to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ProjectAttachment.projectCompletion
+ */
+export type ProjectAttachment$projectCompletionArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectCompletion
+   */
+  select?: Prisma.ProjectCompletionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectCompletion
+   */
+  omit?: Prisma.ProjectCompletionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectCompletionInclude<ExtArgs> | null
+  where?: Prisma.ProjectCompletionWhereInput
+}
+
+/**
+ * ProjectAttachment.uploadedBy
+ */
+export type ProjectAttachment$uploadedByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * ProjectAttachment without action
+ */
+export type ProjectAttachmentDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectAttachment
+   */
+  select?: Prisma.ProjectAttachmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectAttachment
+   */
+  omit?: Prisma.ProjectAttachmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectAttachmentInclude<ExtArgs> | null
+}
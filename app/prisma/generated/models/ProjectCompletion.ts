@@ -0,0 +1,2258 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ProjectCompletion` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ProjectCompletion
+ * Final record of a student completing a project, including evaluations.
+ */
+export type ProjectCompletionModel = runtime.Types.Result.DefaultSelection<Prisma.$ProjectCompletionPayload>
+
+export type AggregateProjectCompletion = {
+  _count: ProjectCompletionCountAggregateOutputType | null
+  _avg: ProjectCompletionAvgAggregateOutputType | null
+  _sum: ProjectCompletionSumAggregateOutputType | null
+  _min: ProjectCompletionMinAggregateOutputType | null
+  _max: ProjectCompletionMaxAggregateOutputType | null
+}
+
+export type ProjectCompletionAvgAggregateOutputType = {
+  actualHoursWorked: number | null
+  actualDurationWeeks: number | null
+}
+
+export type ProjectCompletionSumAggregateOutputType = {
+  actualHoursWorked: number | null
+  actualDurationWeeks: number | null
+}
+
+export type ProjectCompletionMinAggregateOutputType = {
+  id: string | null
+  projectId: string | null
+  studentId: string | null
+  roleDescription: string | null
+  actualHoursWorked: number | null
+  actualDurationWeeks: number | null
+  coordinatorPerformanceRating: $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation: string | null
+  organizationPerformanceRating: $Enums.PerformanceRating | null
+  organizationWrittenEvaluation: string | null
+  status: $Enums.ProjectCompletionStatus | null
+  isVisibleInPortfolio: boolean | null
+  verificationCode: string | null
+  completedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ProjectCompletionMaxAggregateOutputType = {
+  id: string | null
+  projectId: string | null
+  studentId: string | null
+  roleDescription: string | null
+  actualHoursWorked: number | null
+  actualDurationWeeks: number | null
+  coordinatorPerformanceRating: $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation: string | null
+  organizationPerformanceRating: $Enums.PerformanceRating | null
+  organizationWrittenEvaluation: string | null
+  status: $Enums.ProjectCompletionStatus | null
+  isVisibleInPortfolio: boolean | null
+  verificationCode: string | null
+  completedAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ProjectCompletionCountAggregateOutputType = {
+  id: number
+  projectId: number
+  studentId: number
+  roleDescription: number
+  keyAchievements: number
+  skillsDeveloped: number
+  actualHoursWorked: number
+  actualDurationWeeks: number
+  coordinatorPerformanceRating: number
+  coordinatorWrittenEvaluation: number
+  organizationPerformanceRating: number
+  organizationWrittenEvaluation: number
+  status: number
+  isVisibleInPortfolio: number
+  verificationCode: number
+  completedAt: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type ProjectCompletionAvgAggregateInputType = {
+  actualHoursWorked?: true
+  actualDurationWeeks?: true
+}
+
+export type ProjectCompletionSumAggregateInputType = {
+  actualHoursWorked?: true
+  actualDurationWeeks?: true
+}
+
+export type ProjectCompletionMinAggregateInputType = {
+  id?: true
+  projectId?: true
+  studentId?: true
+  roleDescription?: true
+  actualHoursWorked?: true
+  actualDurationWeeks?: true
+  coordinatorPerformanceRating?: true
+  coordinatorWrittenEvaluation?: true
+  organizationPerformanceRating?: true
+  organizationWrittenEvaluation?: true
+  status?: true
+  isVisibleInPortfolio?: true
+  verificationCode?: true
+  completedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ProjectCompletionMaxAggregateInputType = {
+  id?: true
+  projectId?: true
+  studentId?: true
+  roleDescription?: true
+  actualHoursWorked?: true
+  actualDurationWeeks?: true
+  coordinatorPerformanceRating?: true
+  coordinatorWrittenEvaluation?: true
+  organizationPerformanceRating?: true
+  organizationWrittenEvaluation?: true
+  status?: true
+  isVisibleInPortfolio?: true
+  verificationCode?: true
+  completedAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ProjectCompletionCountAggregateInputType = {
+  id?: true
+  projectId?: true
+  studentId?: true
+  roleDescription?: true
+  keyAchievements?: true
+  skillsDeveloped?: true
+  actualHoursWorked?: true
+  actualDurationWeeks?: true
+  coordinatorPerformanceRating?: true
+  coordinatorWrittenEvaluation?: true
+  organizationPerformanceRating?: true
+  organizationWrittenEvaluation?: true
+  status?: true
+  isVisibleInPortfolio?: true
+  verificationCode?: true
+  completedAt?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type ProjectCompletionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ProjectCompletion to aggregate.
+   */
+  where?: Prisma.ProjectCompletionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProjectCompletions to fetch.
+   */
+  orderBy?: Prisma.ProjectCompletionOrderByWithRelationInput | Prisma.ProjectCompletionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ProjectCompletionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProjectCompletions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProjectCompletions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ProjectCompletions
+  **/
+  _count?: true | ProjectCompletionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ProjectCompletionAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ProjectCompletionSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ProjectCompletionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ProjectCompletionMaxAggregateInputType
+}
+
+export type GetProjectCompletionAggregateType<T extends ProjectCompletionAggregateArgs> = {
+      [P in keyof T & keyof AggregateProjectCompletion]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateProjectCompletion[P]>
+    : Prisma.GetScalarType<T[P], AggregateProjectCompletion[P]>
+}
+
+
+
+
+export type ProjectCompletionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ProjectCompletionWhereInput
+  orderBy?: Prisma.ProjectCompletionOrderByWithAggregationInput | Prisma.ProjectCompletionOrderByWithAggregationInput[]
+  by: Prisma.ProjectCompletionScalarFieldEnum[] | Prisma.ProjectCompletionScalarFieldEnum
+  having?: Prisma.ProjectCompletionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ProjectCompletionCountAggregateInputType | true
+  _avg?: ProjectCompletionAvgAggregateInputType
+  _sum?: ProjectCompletionSumAggregateInputType
+  _min?: ProjectCompletionMinAggregateInputType
+  _max?: ProjectCompletionMaxAggregateInputType
+}
+
+export type ProjectCompletionGroupByOutputType = {
+  id: string
+  projectId: string
+  studentId: string
+  roleDescription: string
+  keyAchievements: string[]
+  skillsDeveloped: string[]
+  actualHoursWorked: number | null
+  actualDurationWeeks: number | null
+  coordinatorPerformanceRating: $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation: string | null
+  organizationPerformanceRating: $Enums.PerformanceRating | null
+  organizationWrittenEvaluation: string | null
+  status: $Enums.ProjectCompletionStatus
+  isVisibleInPortfolio: boolean
+  verificationCode: string | null
+  completedAt: Date
+  createdAt: Date
+  updatedAt: Date
+  _count: ProjectCompletionCountAggregateOutputType | null
+  _avg: ProjectCompletionAvgAggregateOutputType | null
+  _sum: ProjectCompletionSumAggregateOutputType | null
+  _min: ProjectCompletionMinAggregateOutputType | null
+  _max: ProjectCompletionMaxAggregateOutputType | null
+}
+
+type GetProjectCompletionGroupByPayload<T extends ProjectCompletionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ProjectCompletionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ProjectCompletionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ProjectCompletionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ProjectCompletionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ProjectCompletionWhereInput = {
+  AND?: Prisma.ProjectCompletionWhereInput | Prisma.ProjectCompletionWhereInput[]
+  OR?: Prisma.ProjectCompletionWhereInput[]
+  NOT?: Prisma.ProjectCompletionWhereInput | Prisma.ProjectCompletionWhereInput[]
+  id?: Prisma.StringFilter<"ProjectCompletion"> | string
+  projectId?: Prisma.StringFilter<"ProjectCompletion"> | string
+  studentId?: Prisma.StringFilter<"ProjectCompletion"> | string
+  roleDescription?: Prisma.StringFilter<"ProjectCompletion"> | string
+  keyAchievements?: Prisma.StringNullableListFilter<"ProjectCompletion">
+  skillsDeveloped?: Prisma.StringNullableListFilter<"ProjectCompletion">
+  actualHoursWorked?: Prisma.IntNullableFilter<"ProjectCompletion"> | number | null
+  actualDurationWeeks?: Prisma.IntNullableFilter<"ProjectCompletion"> | number | null
+  coordinatorPerformanceRating?: Prisma.EnumPerformanceRatingNullableFilter<"ProjectCompletion"> | $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation?: Prisma.StringNullableFilter<"ProjectCompletion"> | string | null
+  organizationPerformanceRating?: Prisma.EnumPerformanceRatingNullableFilter<"ProjectCompletion"> | $Enums.PerformanceRating | null
+  organizationWrittenEvaluation?: Prisma.StringNullableFilter<"ProjectCompletion"> | string | null
+  status?: Prisma.EnumProjectCompletionStatusFilter<"ProjectCompletion"> | $Enums.ProjectCompletionStatus
+  isVisibleInPortfolio?: Prisma.BoolFilter<"ProjectCompletion"> | boolean
+  verificationCode?: Prisma.StringNullableFilter<"ProjectCompletion"> | string | null
+  completedAt?: Prisma.DateTimeFilter<"ProjectCompletion"> | Date | string
+  createdAt?: Prisma.DateTimeFilter<"ProjectCompletion"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ProjectCompletion"> | Date | string
+  project?: Prisma.XOR<Prisma.ProjectScalarRelationFilter, Prisma.ProjectWhereInput>
+  student?: Prisma.XOR<Prisma.StudentScalarRelationFilter, Prisma.StudentWhereInput>
+  deliverables?: Prisma.ProjectAttachmentListRelationFilter
+}
+
+export type ProjectCompletionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  studentId?: Prisma.SortOrder
+  roleDescription?: Prisma.SortOrder
+  keyAchievements?: Prisma.SortOrder
+  skillsDeveloped?: Prisma.SortOrder
+  actualHoursWorked?: Prisma.SortOrderInput | Prisma.SortOrder
+  actualDurationWeeks?: Prisma.SortOrderInput | Prisma.SortOrder
+  coordinatorPerformanceRating?: Prisma.SortOrderInput | Prisma.SortOrder
+  coordinatorWrittenEvaluation?: Prisma.SortOrderInput | Prisma.SortOrder
+  organizationPerformanceRating?: Prisma.SortOrderInput | Prisma.SortOrder
+  organizationWrittenEvaluation?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  isVisibleInPortfolio?: Prisma.SortOrder
+  verificationCode?: Prisma.SortOrderInput | Prisma.SortOrder
+  completedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  project?: Prisma.ProjectOrderByWithRelationInput
+  student?: Prisma.StudentOrderByWithRelationInput
+  deliverables?: Prisma.ProjectAttachmentOrderByRelationAggregateInput
+}
+
+export type ProjectCompletionWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  verificationCode?: string
+  projectId_studentId?: Prisma.ProjectCompletionProjectIdStudentIdCompoundUniqueInput
+  AND?: Prisma.ProjectCompletionWhereInput | Prisma.ProjectCompletionWhereInput[]
+  OR?: Prisma.ProjectCompletionWhereInput[]
+  NOT?: Prisma.ProjectCompletionWhereInput | Prisma.ProjectCompletionWhereInput[]
+  projectId?: Prisma.StringFilter<"ProjectCompletion"> | string
+  studentId?: Prisma.StringFilter<"ProjectCompletion"> | string
+  roleDescription?: Prisma.StringFilter<"ProjectCompletion"> | string
+  keyAchievements?: Prisma.StringNullableListFilter<"ProjectCompletion">
+  skillsDeveloped?: Prisma.StringNullableListFilter<"ProjectCompletion">
+  actualHoursWorked?: Prisma.IntNullableFilter<"ProjectCompletion"> | number | null
+  actualDurationWeeks?: Prisma.IntNullableFilter<"ProjectCompletion"> | number | null
+  coordinatorPerformanceRating?: Prisma.EnumPerformanceRatingNullableFilter<"ProjectCompletion"> | $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation?: Prisma.StringNullableFilter<"ProjectCompletion"> | string | null
+  organizationPerformanceRating?: Prisma.EnumPerformanceRatingNullableFilter<"ProjectCompletion"> | $Enums.PerformanceRating | null
+  organizationWrittenEvaluation?: Prisma.StringNullableFilter<"ProjectCompletion"> | string | null
+  status?: Prisma.EnumProjectCompletionStatusFilter<"ProjectCompletion"> | $Enums.ProjectCompletionStatus
+  isVisibleInPortfolio?: Prisma.BoolFilter<"ProjectCompletion"> | boolean
+  completedAt?: Prisma.DateTimeFilter<"ProjectCompletion"> | Date | string
+  createdAt?: Prisma.DateTimeFilter<"ProjectCompletion"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ProjectCompletion"> | Date | string
+  project?: Prisma.XOR<Prisma.ProjectScalarRelationFilter, Prisma.ProjectWhereInput>
+  student?: Prisma.XOR<Prisma.StudentScalarRelationFilter, Prisma.StudentWhereInput>
+  deliverables?: Prisma.ProjectAttachmentListRelationFilter
+}, "id" | "verificationCode" | "projectId_studentId">
+
+export type ProjectCompletionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  studentId?: Prisma.SortOrder
+  roleDescription?: Prisma.SortOrder
+  keyAchievements?: Prisma.SortOrder
+  skillsDeveloped?: Prisma.SortOrder
+  actualHoursWorked?: Prisma.SortOrderInput | Prisma.SortOrder
+  actualDurationWeeks?: Prisma.SortOrderInput | Prisma.SortOrder
+  coordinatorPerformanceRating?: Prisma.SortOrderInput | Prisma.SortOrder
+  coordinatorWrittenEvaluation?: Prisma.SortOrderInput | Prisma.SortOrder
+  organizationPerformanceRating?: Prisma.SortOrderInput | Prisma.SortOrder
+  organizationWrittenEvaluation?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  isVisibleInPortfolio?: Prisma.SortOrder
+  verificationCode?: Prisma.SortOrderInput | Prisma.SortOrder
+  completedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.ProjectCompletionCountOrderByAggregateInput
+  _avg?: Prisma.ProjectCompletionAvgOrderByAggregateInput
+  _max?: Prisma.ProjectCompletionMaxOrderByAggregateInput
+  _min?: Prisma.ProjectCompletionMinOrderByAggregateInput
+  _sum?: Prisma.ProjectCompletionSumOrderByAggregateInput
+}
+
+export type ProjectCompletionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ProjectCompletionScalarWhereWithAggregatesInput | Prisma.ProjectCompletionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ProjectCompletionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ProjectCompletionScalarWhereWithAggregatesInput | Prisma.ProjectCompletionScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ProjectCompletion"> | string
+  projectId?: Prisma.StringWithAggregatesFilter<"ProjectCompletion"> | string
+  studentId?: Prisma.StringWithAggregatesFilter<"ProjectCompletion"> | string
+  roleDescription?: Prisma.StringWithAggregatesFilter<"ProjectCompletion"> | string
+  keyAchievements?: Prisma.StringNullableListFilter<"ProjectCompletion">
+  skillsDeveloped?: Prisma.StringNullableListFilter<"ProjectCompletion">
+  actualHoursWorked?: Prisma.IntNullableWithAggregatesFilter<"ProjectCompletion"> | number | null
+  actualDurationWeeks?: Prisma.IntNullableWithAggregatesFilter<"ProjectCompletion"> | number | null
+  coordinatorPerformanceRating?: Prisma.EnumPerformanceRatingNullableWithAggregatesFilter<"ProjectCompletion"> | $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation?: Prisma.StringNullableWithAggregatesFilter<"ProjectCompletion"> | string | null
+  organizationPerformanceRating?: Prisma.EnumPerformanceRatingNullableWithAggregatesFilter<"ProjectCompletion"> | $Enums.PerformanceRating | null
+  organizationWrittenEvaluation?: Prisma.StringNullableWithAggregatesFilter<"ProjectCompletion"> | string | null
+  status?: Prisma.EnumProjectCompletionStatusWithAggregatesFilter<"ProjectCompletion"> | $Enums.ProjectCompletionStatus
+  isVisibleInPortfolio?: Prisma.BoolWithAggregatesFilter<"ProjectCompletion"> | boolean
+  verificationCode?: Prisma.StringNullableWithAggregatesFilter<"ProjectCompletion"> | string | null
+  completedAt?: Prisma.DateTimeWithAggregatesFilter<"ProjectCompletion"> | Date | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ProjectCompletion"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ProjectCompletion"> | Date | string
+}
+
+export type ProjectCompletionCreateInput = {
+  id?: string
+  roleDescription: string
+  keyAchievements?: Prisma.ProjectCompletionCreatekeyAchievementsInput | string[]
+  skillsDeveloped?: Prisma.ProjectCompletionCreateskillsDevelopedInput | string[]
+  actualHoursWorked?: number | null
+  actualDurationWeeks?: number | null
+  coordinatorPerformanceRating?: $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation?: string | null
+  organizationPerformanceRating?: $Enums.PerformanceRating | null
+  organizationWrittenEvaluation?: string | null
+  status?: $Enums.ProjectCompletionStatus
+  isVisibleInPortfolio?: boolean
+  verificationCode?: string | null
+  completedAt?: Date | string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  project: Prisma.ProjectCreateNestedOneWithoutCompletionsInput
+  student: Prisma.StudentCreateNestedOneWithoutProjectCompletionsInput
+  deliverables?: Prisma.ProjectAttachmentCreateNestedManyWithoutProjectCompletionInput
+}
+
+export type ProjectCompletionUncheckedCreateInput = {
+  id?: string
+  projectId: string
+  studentId: string
+  roleDescription: string
+  keyAchievements?: Prisma.ProjectCompletionCreatekeyAchievementsInput | string[]
+  skillsDeveloped?: Prisma.ProjectCompletionCreateskillsDevelopedInput | string[]
+  actualHoursWorked?: number | null
+  actualDurationWeeks?: number | null
+  coordinatorPerformanceRating?: $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation?: string | null
+  organizationPerformanceRating?: $Enums.PerformanceRating | null
+  organizationWrittenEvaluation?: string | null
+  status?: $Enums.ProjectCompletionStatus
+  isVisibleInPortfolio?: boolean
+  verificationCode?: string | null
+  completedAt?: Date | string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  deliverables?: Prisma.ProjectAttachmentUncheckedCreateNestedManyWithoutProjectCompletionInput
+}
+
+export type ProjectCompletionUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  roleDescription?: Prisma.StringFieldUpdateOperationsInput | string
+  keyAchievements?: Prisma.ProjectCompletionUpdatekeyAchievementsInput | string[]
+  skillsDeveloped?: Prisma.ProjectCompletionUpdateskillsDevelopedInput | string[]
+  actualHoursWorked?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  actualDurationWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  coordinatorPerformanceRating?: Prisma.NullableEnumPerformanceRatingFieldUpdateOperationsInput | $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  organizationPerformanceRating?: Prisma.NullableEnumPerformanceRatingFieldUpdateOperationsInput | $Enums.PerformanceRating | null
+  organizationWrittenEvaluation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumProjectCompletionStatusFieldUpdateOperationsInput | $Enums.ProjectCompletionStatus
+  isVisibleInPortfolio?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  verificationCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  completedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  project?: Prisma.ProjectUpdateOneRequiredWithoutCompletionsNestedInput
+  student?: Prisma.StudentUpdateOneRequiredWithoutProjectCompletionsNestedInput
+  deliverables?: Prisma.ProjectAttachmentUpdateManyWithoutProjectCompletionNestedInput
+}
+
+export type ProjectCompletionUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  projectId?: Prisma.StringFieldUpdateOperationsInput | string
+  studentId?: Prisma.StringFieldUpdateOperationsInput | string
+  roleDescription?: Prisma.StringFieldUpdateOperationsInput | string
+  keyAchievements?: Prisma.ProjectCompletionUpdatekeyAchievementsInput | string[]
+  skillsDeveloped?: Prisma.ProjectCompletionUpdateskillsDevelopedInput | string[]
+  actualHoursWorked?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  actualDurationWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  coordinatorPerformanceRating?: Prisma.NullableEnumPerformanceRatingFieldUpdateOperationsInput | $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  organizationPerformanceRating?: Prisma.NullableEnumPerformanceRatingFieldUpdateOperationsInput | $Enums.PerformanceRating | null
+  organizationWrittenEvaluation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumProjectCompletionStatusFieldUpdateOperationsInput | $Enums.ProjectCompletionStatus
+  isVisibleInPortfolio?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  verificationCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  completedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deliverables?: Prisma.ProjectAttachmentUncheckedUpdateManyWithoutProjectCompletionNestedInput
+}
+
+export type ProjectCompletionCreateManyInput = {
+  id?: string
+  projectId: string
+  studentId: string
+  roleDescription: string
+  keyAchievements?: Prisma.ProjectCompletionCreatekeyAchievementsInput | string[]
+  skillsDeveloped?: Prisma.ProjectCompletionCreateskillsDevelopedInput | string[]
+  actualHoursWorked?: number | null
+  actualDurationWeeks?: number | null
+  coordinatorPerformanceRating?: $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation?: string | null
+  organizationPerformanceRating?: $Enums.PerformanceRating | null
+  organizationWrittenEvaluation?: string | null
+  status?: $Enums.ProjectCompletionStatus
+  isVisibleInPortfolio?: boolean
+  verificationCode?: string | null
+  completedAt?: Date | string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ProjectCompletionUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  roleDescription?: Prisma.StringFieldUpdateOperationsInput | string
+  keyAchievements?: Prisma.ProjectCompletionUpdatekeyAchievementsInput | string[]
+  skillsDeveloped?: Prisma.ProjectCompletionUpdateskillsDevelopedInput | string[]
+  actualHoursWorked?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  actualDurationWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  coordinatorPerformanceRating?: Prisma.NullableEnumPerformanceRatingFieldUpdateOperationsInput | $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  organizationPerformanceRating?: Prisma.NullableEnumPerformanceRatingFieldUpdateOperationsInput | $Enums.PerformanceRating | null
+  organizationWrittenEvaluation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumProjectCompletionStatusFieldUpdateOperationsInput | $Enums.ProjectCompletionStatus
+  isVisibleInPortfolio?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  verificationCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  completedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectCompletionUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  projectId?: Prisma.StringFieldUpdateOperationsInput | string
+  studentId?: Prisma.StringFieldUpdateOperationsInput | string
+  roleDescription?: Prisma.StringFieldUpdateOperationsInput | string
+  keyAchievements?: Prisma.ProjectCompletionUpdatekeyAchievementsInput | string[]
+  skillsDeveloped?: Prisma.ProjectCompletionUpdateskillsDevelopedInput | string[]
+  actualHoursWorked?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  actualDurationWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  coordinatorPerformanceRating?: Prisma.NullableEnumPerformanceRatingFieldUpdateOperationsInput | $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  organizationPerformanceRating?: Prisma.NullableEnumPerformanceRatingFieldUpdateOperationsInput | $Enums.PerformanceRating | null
+  organizationWrittenEvaluation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumProjectCompletionStatusFieldUpdateOperationsInput | $Enums.ProjectCompletionStatus
+  isVisibleInPortfolio?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  verificationCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  completedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectCompletionListRelationFilter = {
+  every?: Prisma.ProjectCompletionWhereInput
+  some?: Prisma.ProjectCompletionWhereInput
+  none?: Prisma.ProjectCompletionWhereInput
+}
+
+export type ProjectCompletionOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ProjectCompletionProjectIdStudentIdCompoundUniqueInput = {
+  projectId: string
+  studentId: string
+}
+
+export type ProjectCompletionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  studentId?: Prisma.SortOrder
+  roleDescription?: Prisma.SortOrder
+  keyAchievements?: Prisma.SortOrder
+  skillsDeveloped?: Prisma.SortOrder
+  actualHoursWorked?: Prisma.SortOrder
+  actualDurationWeeks?: Prisma.SortOrder
+  coordinatorPerformanceRating?: Prisma.SortOrder
+  coordinatorWrittenEvaluation?: Prisma.SortOrder
+  organizationPerformanceRating?: Prisma.SortOrder
+  organizationWrittenEvaluation?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  isVisibleInPortfolio?: Prisma.SortOrder
+  verificationCode?: Prisma.SortOrder
+  completedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ProjectCompletionAvgOrderByAggregateInput = {
+  actualHoursWorked?: Prisma.SortOrder
+  actualDurationWeeks?: Prisma.SortOrder
+}
+
+export type ProjectCompletionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  studentId?: Prisma.SortOrder
+  roleDescription?: Prisma.SortOrder
+  actualHoursWorked?: Prisma.SortOrder
+  actualDurationWeeks?: Prisma.SortOrder
+  coordinatorPerformanceRating?: Prisma.SortOrder
+  coordinatorWrittenEvaluation?: Prisma.SortOrder
+  organizationPerformanceRating?: Prisma.SortOrder
+  organizationWrittenEvaluation?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  isVisibleInPortfolio?: Prisma.SortOrder
+  verificationCode?: Prisma.SortOrder
+  completedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ProjectCompletionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  projectId?: Prisma.SortOrder
+  studentId?: Prisma.SortOrder
+  roleDescription?: Prisma.SortOrder
+  actualHoursWorked?: Prisma.SortOrder
+  actualDurationWeeks?: Prisma.SortOrder
+  coordinatorPerformanceRating?: Prisma.SortOrder
+  coordinatorWrittenEvaluation?: Prisma.SortOrder
+  organizationPerformanceRating?: Prisma.SortOrder
+  organizationWrittenEvaluation?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  isVisibleInPortfolio?: Prisma.SortOrder
+  verificationCode?: Prisma.SortOrder
+  completedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ProjectCompletionSumOrderByAggregateInput = {
+  actualHoursWorked?: Prisma.SortOrder
+  actualDurationWeeks?: Prisma.SortOrder
+}
+
+export type ProjectCompletionNullableScalarRelationFilter = {
+  is?: Prisma.ProjectCompletionWhereInput | null
+  isNot?: Prisma.ProjectCompletionWhereInput | null
+}
+
+export type ProjectCompletionCreateNestedManyWithoutStudentInput = {
+  create?: Prisma.XOR<Prisma.ProjectCompletionCreateWithoutStudentInput, Prisma.ProjectCompletionUncheckedCreateWithoutStudentInput> | Prisma.ProjectCompletionCreateWithoutStudentInput[] | Prisma.ProjectCompletionUncheckedCreateWithoutStudentInput[]
+  connectOrCreate?: Prisma.ProjectCompletionCreateOrConnectWithoutStudentInput | Prisma.ProjectCompletionCreateOrConnectWithoutStudentInput[]
+  createMany?: Prisma.ProjectCompletionCreateManyStudentInputEnvelope
+  connect?: Prisma.ProjectCompletionWhereUniqueInput | Prisma.ProjectCompletionWhereUniqueInput[]
+}
+
+export type ProjectCompletionUncheckedCreateNestedManyWithoutStudentInput = {
+  create?: Prisma.XOR<Prisma.ProjectCompletionCreateWithoutStudentInput, Prisma.ProjectCompletionUncheckedCreateWithoutStudentInput> | Prisma.ProjectCompletionCreateWithoutStudentInput[] | Prisma.ProjectCompletionUncheckedCreateWithoutStudentInput[]
+  connectOrCreate?: Prisma.ProjectCompletionCreateOrConnectWithoutStudentInput | Prisma.ProjectCompletionCreateOrConnectWithoutStudentInput[]
+  createMany?: Prisma.ProjectCompletionCreateManyStudentInputEnvelope
+  connect?: Prisma.ProjectCompletionWhereUniqueInput | Prisma.ProjectCompletionWhereUniqueInput[]
+}
+
+export type ProjectCompletionUpdateManyWithoutStudentNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectCompletionCreateWithoutStudentInput, Prisma.ProjectCompletionUncheckedCreateWithoutStudentInput> | Prisma.ProjectCompletionCreateWithoutStudentInput[] | Prisma.ProjectCompletionUncheckedCreateWithoutStudentInput[]
+  connectOrCreate?: Prisma.ProjectCompletionCreateOrConnectWithoutStudentInput | Prisma.ProjectCompletionCreateOrConnectWithoutStudentInput[]
+  upsert?: Prisma.ProjectCompletionUpsertWithWhereUniqueWithoutStudentInput | Prisma.ProjectCompletionUpsertWithWhereUniqueWithoutStudentInput[]
+  createMany?: Prisma.ProjectCompletionCreateManyStudentInputEnvelope
+  set?: Prisma.ProjectCompletionWhereUniqueInput | Prisma.ProjectCompletionWhereUniqueInput[]
+  disconnect?: Prisma.ProjectCompletionWhereUniqueInput | Prisma.ProjectCompletionWhereUniqueInput[]
+  delete?: Prisma.ProjectCompletionWhereUniqueInput | Prisma.ProjectCompletionWhereUniqueInput[]
+  connect?: Prisma.ProjectCompletionWhereUniqueInput | Prisma.ProjectCompletionWhereUniqueInput[]
+  update?: Prisma.ProjectCompletionUpdateWithWhereUniqueWithoutStudentInput | Prisma.ProjectCompletionUpdateWithWhereUniqueWithoutStudentInput[]
+  updateMany?: Prisma.ProjectCompletionUpdateManyWithWhereWithoutStudentInput | Prisma.ProjectCompletionUpdateManyWithWhereWithoutStudentInput[]
+  deleteMany?: Prisma.ProjectCompletionScalarWhereInput | Prisma.ProjectCompletionScalarWhereInput[]
+}
+
+export type ProjectCompletionUncheckedUpdateManyWithoutStudentNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectCompletionCreateWithoutStudentInput, Prisma.ProjectCompletionUncheckedCreateWithoutStudentInput> | Prisma.ProjectCompletionCreateWithoutStudentInput[] | Prisma.ProjectCompletionUncheckedCreateWithoutStudentInput[]
+  connectOrCreate?: Prisma.ProjectCompletionCreateOrConnectWithoutStudentInput | Prisma.ProjectCompletionCreateOrConnectWithoutStudentInput[]
+  upsert?: Prisma.ProjectCompletionUpsertWithWhereUniqueWithoutStudentInput | Prisma.ProjectCompletionUpsertWithWhereUniqueWithoutStudentInput[]
+  createMany?: Prisma.ProjectCompletionCreateManyStudentInputEnvelope
+  set?: Prisma.ProjectCompletionWhereUniqueInput | Prisma.ProjectCompletionWhereUniqueInput[]
+  disconnect?: Prisma.ProjectCompletionWhereUniqueInput | Prisma.ProjectCompletionWhereUniqueInput[]
+  delete?: Prisma.ProjectCompletionWhereUniqueInput | Prisma.ProjectCompletionWhereUniqueInput[]
+  connect?: Prisma.ProjectCompletionWhereUniqueInput | Prisma.ProjectCompletionWhereUniqueInput[]
+  update?: Prisma.ProjectCompletionUpdateWithWhereUniqueWithoutStudentInput | Prisma.ProjectCompletionUpdateWithWhereUniqueWithoutStudentInput[]
+  updateMany?: Prisma.ProjectCompletionUpdateManyWithWhereWithoutStudentInput | Prisma.ProjectCompletionUpdateManyWithWhereWithoutStudentInput[]
+  deleteMany?: Prisma.ProjectCompletionScalarWhereInput | Prisma.ProjectCompletionScalarWhereInput[]
+}
+
+export type ProjectCompletionCreateNestedManyWithoutProjectInput = {
+  create?: Prisma.XOR<Prisma.ProjectCompletionCreateWithoutProjectInput, Prisma.ProjectCompletionUncheckedCreateWithoutProjectInput> | Prisma.ProjectCompletionCreateWithoutProjectInput[] | Prisma.ProjectCompletionUncheckedCreateWithoutProjectInput[]
+  connectOrCreate?: Prisma.ProjectCompletionCreateOrConnectWithoutProjectInput | Prisma.ProjectCompletionCreateOrConnectWithoutProjectInput[]
+  createMany?: Prisma.ProjectCompletionCreateManyProjectInputEnvelope
+  connect?: Prisma.ProjectCompletionWhereUniqueInput | Prisma.ProjectCompletionWhereUniqueInput[]
+}
+
+export type ProjectCompletionUncheckedCreateNestedManyWithoutProjectInput = {
+  create?: Prisma.XOR<Prisma.ProjectCompletionCreateWithoutProjectInput, Prisma.ProjectCompletionUncheckedCreateWithoutProjectInput> | Prisma.ProjectCompletionCreateWithoutProjectInput[] | Prisma.ProjectCompletionUncheckedCreateWithoutProjectInput[]
+  connectOrCreate?: Prisma.ProjectCompletionCreateOrConnectWithoutProjectInput | Prisma.ProjectCompletionCreateOrConnectWithoutProjectInput[]
+  createMany?: Prisma.ProjectCompletionCreateManyProjectInputEnvelope
+  connect?: Prisma.ProjectCompletionWhereUniqueInput | Prisma.ProjectCompletionWhereUniqueInput[]
+}
+
+export type ProjectCompletionUpdateManyWithoutProjectNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectCompletionCreateWithoutProjectInput, Prisma.ProjectCompletionUncheckedCreateWithoutProjectInput> | Prisma.ProjectCompletionCreateWithoutProjectInput[] | Prisma.ProjectCompletionUncheckedCreateWithoutProjectInput[]
+  connectOrCreate?: Prisma.ProjectCompletionCreateOrConnectWithoutProjectInput | Prisma.ProjectCompletionCreateOrConnectWithoutProjectInput[]
+  upsert?: Prisma.ProjectCompletionUpsertWithWhereUniqueWithoutProjectInput | Prisma.ProjectCompletionUpsertWithWhereUniqueWithoutProjectInput[]
+  createMany?: Prisma.ProjectCompletionCreateManyProjectInputEnvelope
+  set?: Prisma.ProjectCompletionWhereUniqueInput | Prisma.ProjectCompletionWhereUniqueInput[]
+  disconnect?: Prisma.ProjectCompletionWhereUniqueInput | Prisma.ProjectCompletionWhereUniqueInput[]
+  delete?: Prisma.ProjectCompletionWhereUniqueInput | Prisma.ProjectCompletionWhereUniqueInput[]
+  connect?: Prisma.ProjectCompletionWhereUniqueInput | Prisma.ProjectCompletionWhereUniqueInput[]
+  update?: Prisma.ProjectCompletionUpdateWithWhereUniqueWithoutProjectInput | Prisma.ProjectCompletionUpdateWithWhereUniqueWithoutProjectInput[]
+  updateMany?: Prisma.ProjectCompletionUpdateManyWithWhereWithoutProjectInput | Prisma.ProjectCompletionUpdateManyWithWhereWithoutProjectInput[]
+  deleteMany?: Prisma.ProjectCompletionScalarWhereInput | Prisma.ProjectCompletionScalarWhereInput[]
+}
+
+export type ProjectCompletionUncheckedUpdateManyWithoutProjectNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectCompletionCreateWithoutProjectInput, Prisma.ProjectCompletionUncheckedCreateWithoutProjectInput> | Prisma.ProjectCompletionCreateWithoutProjectInput[] | Prisma.ProjectCompletionUncheckedCreateWithoutProjectInput[]
+  connectOrCreate?: Prisma.ProjectCompletionCreateOrConnectWithoutProjectInput | Prisma.ProjectCompletionCreateOrConnectWithoutProjectInput[]
+  upsert?: Prisma.ProjectCompletionUpsertWithWhereUniqueWithoutProjectInput | Prisma.ProjectCompletionUpsertWithWhereUniqueWithoutProjectInput[]
+  createMany?: Prisma.ProjectCompletionCreateManyProjectInputEnvelope
+  set?: Prisma.ProjectCompletionWhereUniqueInput | Prisma.ProjectCompletionWhereUniqueInput[]
+  disconnect?: Prisma.ProjectCompletionWhereUniqueInput | Prisma.ProjectCompletionWhereUniqueInput[]
+  delete?: Prisma.ProjectCompletionWhereUniqueInput | Prisma.ProjectCompletionWhereUniqueInput[]
+  connect?: Prisma.ProjectCompletionWhereUniqueInput | Prisma.ProjectCompletionWhereUniqueInput[]
+  update?: Prisma.ProjectCompletionUpdateWithWhereUniqueWithoutProjectInput | Prisma.ProjectCompletionUpdateWithWhereUniqueWithoutProjectInput[]
+  updateMany?: Prisma.ProjectCompletionUpdateManyWithWhereWithoutProjectInput | Prisma.ProjectCompletionUpdateManyWithWhereWithoutProjectInput[]
+  deleteMany?: Prisma.ProjectCompletionScalarWhereInput | Prisma.ProjectCompletionScalarWhereInput[]
+}
+
+export type ProjectCompletionCreatekeyAchievementsInput = {
+  set: string[]
+}
+
+export type ProjectCompletionCreateskillsDevelopedInput = {
+  set: string[]
+}
+
+export type ProjectCompletionUpdatekeyAchievementsInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type ProjectCompletionUpdateskillsDevelopedInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type NullableEnumPerformanceRatingFieldUpdateOperationsInput = {
+  set?: $Enums.PerformanceRating | null
+}
+
+export type EnumProjectCompletionStatusFieldUpdateOperationsInput = {
+  set?: $Enums.ProjectCompletionStatus
+}
+
+export type ProjectCompletionCreateNestedOneWithoutDeliverablesInput = {
+  create?: Prisma.XOR<Prisma.ProjectCompletionCreateWithoutDeliverablesInput, Prisma.ProjectCompletionUncheckedCreateWithoutDeliverablesInput>
+  connectOrCreate?: Prisma.ProjectCompletionCreateOrConnectWithoutDeliverablesInput
+  connect?: Prisma.ProjectCompletionWhereUniqueInput
+}
+
+export type ProjectCompletionUpdateOneWithoutDeliverablesNestedInput = {
+  create?: Prisma.XOR<Prisma.ProjectCompletionCreateWithoutDeliverablesInput, Prisma.ProjectCompletionUncheckedCreateWithoutDeliverablesInput>
+  connectOrCreate?: Prisma.ProjectCompletionCreateOrConnectWithoutDeliverablesInput
+  upsert?: Prisma.ProjectCompletionUpsertWithoutDeliverablesInput
+  disconnect?: Prisma.ProjectCompletionWhereInput | boolean
+  delete?: Prisma.ProjectCompletionWhereInput | boolean
+  connect?: Prisma.ProjectCompletionWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ProjectCompletionUpdateToOneWithWhereWithoutDeliverablesInput, Prisma.ProjectCompletionUpdateWithoutDeliverablesInput>, Prisma.ProjectCompletionUncheckedUpdateWithoutDeliverablesInput>
+}
+
+export type ProjectCompletionCreateWithoutStudentInput = {
+  id?: string
+  roleDescription: string
+  keyAchievements?: Prisma.ProjectCompletionCreatekeyAchievementsInput | string[]
+  skillsDeveloped?: Prisma.ProjectCompletionCreateskillsDevelopedInput | string[]
+  actualHoursWorked?: number | null
+  actualDurationWeeks?: number | null
+  coordinatorPerformanceRating?: $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation?: string | null
+  organizationPerformanceRating?: $Enums.PerformanceRating | null
+  organizationWrittenEvaluation?: string | null
+  status?: $Enums.ProjectCompletionStatus
+  isVisibleInPortfolio?: boolean
+  verificationCode?: string | null
+  completedAt?: Date | string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  project: Prisma.ProjectCreateNestedOneWithoutCompletionsInput
+  deliverables?: Prisma.ProjectAttachmentCreateNestedManyWithoutProjectCompletionInput
+}
+
+export type ProjectCompletionUncheckedCreateWithoutStudentInput = {
+  id?: string
+  projectId: string
+  roleDescription: string
+  keyAchievements?: Prisma.ProjectCompletionCreatekeyAchievementsInput | string[]
+  skillsDeveloped?: Prisma.ProjectCompletionCreateskillsDevelopedInput | string[]
+  actualHoursWorked?: number | null
+  actualDurationWeeks?: number | null
+  coordinatorPerformanceRating?: $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation?: string | null
+  organizationPerformanceRating?: $Enums.PerformanceRating | null
+  organizationWrittenEvaluation?: string | null
+  status?: $Enums.ProjectCompletionStatus
+  isVisibleInPortfolio?: boolean
+  verificationCode?: string | null
+  completedAt?: Date | string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  deliverables?: Prisma.ProjectAttachmentUncheckedCreateNestedManyWithoutProjectCompletionInput
+}
+
+export type ProjectCompletionCreateOrConnectWithoutStudentInput = {
+  where: Prisma.ProjectCompletionWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProjectCompletionCreateWithoutStudentInput, Prisma.ProjectCompletionUncheckedCreateWithoutStudentInput>
+}
+
+export type ProjectCompletionCreateManyStudentInputEnvelope = {
+  data: Prisma.ProjectCompletionCreateManyStudentInput | Prisma.ProjectCompletionCreateManyStudentInput[]
+  skipDuplicates?: boolean
+}
+
+export type ProjectCompletionUpsertWithWhereUniqueWithoutStudentInput = {
+  where: Prisma.ProjectCompletionWhereUniqueInput
+  update: Prisma.XOR<Prisma.ProjectCompletionUpdateWithoutStudentInput, Prisma.ProjectCompletionUncheckedUpdateWithoutStudentInput>
+  create: Prisma.XOR<Prisma.ProjectCompletionCreateWithoutStudentInput, Prisma.ProjectCompletionUncheckedCreateWithoutStudentInput>
+}
+
+export type ProjectCompletionUpdateWithWhereUniqueWithoutStudentInput = {
+  where: Prisma.ProjectCompletionWhereUniqueInput
+  data: Prisma.XOR<Prisma.ProjectCompletionUpdateWithoutStudentInput, Prisma.ProjectCompletionUncheckedUpdateWithoutStudentInput>
+}
+
+export type ProjectCompletionUpdateManyWithWhereWithoutStudentInput = {
+  where: Prisma.ProjectCompletionScalarWhereInput
+  data: Prisma.XOR<Prisma.ProjectCompletionUpdateManyMutationInput, Prisma.ProjectCompletionUncheckedUpdateManyWithoutStudentInput>
+}
+
+export type ProjectCompletionScalarWhereInput = {
+  AND?: Prisma.ProjectCompletionScalarWhereInput | Prisma.ProjectCompletionScalarWhereInput[]
+  OR?: Prisma.ProjectCompletionScalarWhereInput[]
+  NOT?: Prisma.ProjectCompletionScalarWhereInput | Prisma.ProjectCompletionScalarWhereInput[]
+  id?: Prisma.StringFilter<"ProjectCompletion"> | string
+  projectId?: Prisma.StringFilter<"ProjectCompletion"> | string
+  studentId?: Prisma.StringFilter<"ProjectCompletion"> | string
+  roleDescription?: Prisma.StringFilter<"ProjectCompletion"> | string
+  keyAchievements?: Prisma.StringNullableListFilter<"ProjectCompletion">
+  skillsDeveloped?: Prisma.StringNullableListFilter<"ProjectCompletion">
+  actualHoursWorked?: Prisma.IntNullableFilter<"ProjectCompletion"> | number | null
+  actualDurationWeeks?: Prisma.IntNullableFilter<"ProjectCompletion"> | number | null
+  coordinatorPerformanceRating?: Prisma.EnumPerformanceRatingNullableFilter<"ProjectCompletion"> | $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation?: Prisma.StringNullableFilter<"ProjectCompletion"> | string | null
+  organizationPerformanceRating?: Prisma.EnumPerformanceRatingNullableFilter<"ProjectCompletion"> | $Enums.PerformanceRating | null
+  organizationWrittenEvaluation?: Prisma.StringNullableFilter<"ProjectCompletion"> | string | null
+  status?: Prisma.EnumProjectCompletionStatusFilter<"ProjectCompletion"> | $Enums.ProjectCompletionStatus
+  isVisibleInPortfolio?: Prisma.BoolFilter<"ProjectCompletion"> | boolean
+  verificationCode?: Prisma.StringNullableFilter<"ProjectCompletion"> | string | null
+  completedAt?: Prisma.DateTimeFilter<"ProjectCompletion"> | Date | string
+  createdAt?: Prisma.DateTimeFilter<"ProjectCompletion"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ProjectCompletion"> | Date | string
+}
+
+export type ProjectCompletionCreateWithoutProjectInput = {
+  id?: string
+  roleDescription: string
+  keyAchievements?: Prisma.ProjectCompletionCreatekeyAchievementsInput | string[]
+  skillsDeveloped?: Prisma.ProjectCompletionCreateskillsDevelopedInput | string[]
+  actualHoursWorked?: number | null
+  actualDurationWeeks?: number | null
+  coordinatorPerformanceRating?: $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation?: string | null
+  organizationPerformanceRating?: $Enums.PerformanceRating | null
+  organizationWrittenEvaluation?: string | null
+  status?: $Enums.ProjectCompletionStatus
+  isVisibleInPortfolio?: boolean
+  verificationCode?: string | null
+  completedAt?: Date | string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  student: Prisma.StudentCreateNestedOneWithoutProjectCompletionsInput
+  deliverables?: Prisma.ProjectAttachmentCreateNestedManyWithoutProjectCompletionInput
+}
+
+export type ProjectCompletionUncheckedCreateWithoutProjectInput = {
+  id?: string
+  studentId: string
+  roleDescription: string
+  keyAchievements?: Prisma.ProjectCompletionCreatekeyAchievementsInput | string[]
+  skillsDeveloped?: Prisma.ProjectCompletionCreateskillsDevelopedInput | string[]
+  actualHoursWorked?: number | null
+  actualDurationWeeks?: number | null
+  coordinatorPerformanceRating?: $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation?: string | null
+  organizationPerformanceRating?: $Enums.PerformanceRating | null
+  organizationWrittenEvaluation?: string | null
+  status?: $Enums.ProjectCompletionStatus
+  isVisibleInPortfolio?: boolean
+  verificationCode?: string | null
+  completedAt?: Date | string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  deliverables?: Prisma.ProjectAttachmentUncheckedCreateNestedManyWithoutProjectCompletionInput
+}
+
+export type ProjectCompletionCreateOrConnectWithoutProjectInput = {
+  where: Prisma.ProjectCompletionWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProjectCompletionCreateWithoutProjectInput, Prisma.ProjectCompletionUncheckedCreateWithoutProjectInput>
+}
+
+export type ProjectCompletionCreateManyProjectInputEnvelope = {
+  data: Prisma.ProjectCompletionCreateManyProjectInput | Prisma.ProjectCompletionCreateManyProjectInput[]
+  skipDuplicates?: boolean
+}
+
+export type ProjectCompletionUpsertWithWhereUniqueWithoutProjectInput = {
+  where: Prisma.ProjectCompletionWhereUniqueInput
+  update: Prisma.XOR<Prisma.ProjectCompletionUpdateWithoutProjectInput, Prisma.ProjectCompletionUncheckedUpdateWithoutProjectInput>
+  create: Prisma.XOR<Prisma.ProjectCompletionCreateWithoutProjectInput, Prisma.ProjectCompletionUncheckedCreateWithoutProjectInput>
+}
+
+export type ProjectCompletionUpdateWithWhereUniqueWithoutProjectInput = {
+  where: Prisma.ProjectCompletionWhereUniqueInput
+  data: Prisma.XOR<Prisma.ProjectCompletionUpdateWithoutProjectInput, Prisma.ProjectCompletionUncheckedUpdateWithoutProjectInput>
+}
+
+export type ProjectCompletionUpdateManyWithWhereWithoutProjectInput = {
+  where: Prisma.ProjectCompletionScalarWhereInput
+  data: Prisma.XOR<Prisma.ProjectCompletionUpdateManyMutationInput, Prisma.ProjectCompletionUncheckedUpdateManyWithoutProjectInput>
+}
+
+export type ProjectCompletionCreateWithoutDeliverablesInput = {
+  id?: string
+  roleDescription: string
+  keyAchievements?: Prisma.ProjectCompletionCreatekeyAchievementsInput | string[]
+  skillsDeveloped?: Prisma.ProjectCompletionCreateskillsDevelopedInput | string[]
+  actualHoursWorked?: number | null
+  actualDurationWeeks?: number | null
+  coordinatorPerformanceRating?: $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation?: string | null
+  organizationPerformanceRating?: $Enums.PerformanceRating | null
+  organizationWrittenEvaluation?: string | null
+  status?: $Enums.ProjectCompletionStatus
+  isVisibleInPortfolio?: boolean
+  verificationCode?: string | null
+  completedAt?: Date | string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  project: Prisma.ProjectCreateNestedOneWithoutCompletionsInput
+  student: Prisma.StudentCreateNestedOneWithoutProjectCompletionsInput
+}
+
+export type ProjectCompletionUncheckedCreateWithoutDeliverablesInput = {
+  id?: string
+  projectId: string
+  studentId: string
+  roleDescription: string
+  keyAchievements?: Prisma.ProjectCompletionCreatekeyAchievementsInput | string[]
+  skillsDeveloped?: Prisma.ProjectCompletionCreateskillsDevelopedInput | string[]
+  actualHoursWorked?: number | null
+  actualDurationWeeks?: number | null
+  coordinatorPerformanceRating?: $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation?: string | null
+  organizationPerformanceRating?: $Enums.PerformanceRating | null
+  organizationWrittenEvaluation?: string | null
+  status?: $Enums.ProjectCompletionStatus
+  isVisibleInPortfolio?: boolean
+  verificationCode?: string | null
+  completedAt?: Date | string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ProjectCompletionCreateOrConnectWithoutDeliverablesInput = {
+  where: Prisma.ProjectCompletionWhereUniqueInput
+  create: Prisma.XOR<Prisma.ProjectCompletionCreateWithoutDeliverablesInput, Prisma.ProjectCompletionUncheckedCreateWithoutDeliverablesInput>
+}
+
+export type ProjectCompletionUpsertWithoutDeliverablesInput = {
+  update: Prisma.XOR<Prisma.ProjectCompletionUpdateWithoutDeliverablesInput, Prisma.ProjectCompletionUncheckedUpdateWithoutDeliverablesInput>
+  create: Prisma.XOR<Prisma.ProjectCompletionCreateWithoutDeliverablesInput, Prisma.ProjectCompletionUncheckedCreateWithoutDeliverablesInput>
+  where?: Prisma.ProjectCompletionWhereInput
+}
+
+export type ProjectCompletionUpdateToOneWithWhereWithoutDeliverablesInput = {
+  where?: Prisma.ProjectCompletionWhereInput
+  data: Prisma.XOR<Prisma.ProjectCompletionUpdateWithoutDeliverablesInput, Prisma.ProjectCompletionUncheckedUpdateWithoutDeliverablesInput>
+}
+
+export type ProjectCompletionUpdateWithoutDeliverablesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  roleDescription?: Prisma.StringFieldUpdateOperationsInput | string
+  keyAchievements?: Prisma.ProjectCompletionUpdatekeyAchievementsInput | string[]
+  skillsDeveloped?: Prisma.ProjectCompletionUpdateskillsDevelopedInput | string[]
+  actualHoursWorked?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  actualDurationWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  coordinatorPerformanceRating?: Prisma.NullableEnumPerformanceRatingFieldUpdateOperationsInput | $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  organizationPerformanceRating?: Prisma.NullableEnumPerformanceRatingFieldUpdateOperationsInput | $Enums.PerformanceRating | null
+  organizationWrittenEvaluation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumProjectCompletionStatusFieldUpdateOperationsInput | $Enums.ProjectCompletionStatus
+  isVisibleInPortfolio?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  verificationCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  completedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  project?: Prisma.ProjectUpdateOneRequiredWithoutCompletionsNestedInput
+  student?: Prisma.StudentUpdateOneRequiredWithoutProjectCompletionsNestedInput
+}
+
+export type ProjectCompletionUncheckedUpdateWithoutDeliverablesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  projectId?: Prisma.StringFieldUpdateOperationsInput | string
+  studentId?: Prisma.StringFieldUpdateOperationsInput | string
+  roleDescription?: Prisma.StringFieldUpdateOperationsInput | string
+  keyAchievements?: Prisma.ProjectCompletionUpdatekeyAchievementsInput | string[]
+  skillsDeveloped?: Prisma.ProjectCompletionUpdateskillsDevelopedInput | string[]
+  actualHoursWorked?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  actualDurationWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  coordinatorPerformanceRating?: Prisma.NullableEnumPerformanceRatingFieldUpdateOperationsInput | $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  organizationPerformanceRating?: Prisma.NullableEnumPerformanceRatingFieldUpdateOperationsInput | $Enums.PerformanceRating | null
+  organizationWrittenEvaluation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumProjectCompletionStatusFieldUpdateOperationsInput | $Enums.ProjectCompletionStatus
+  isVisibleInPortfolio?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  verificationCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  completedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectCompletionCreateManyStudentInput = {
+  id?: string
+  projectId: string
+  roleDescription: string
+  keyAchievements?: Prisma.ProjectCompletionCreatekeyAchievementsInput | string[]
+  skillsDeveloped?: Prisma.ProjectCompletionCreateskillsDevelopedInput | string[]
+  actualHoursWorked?: number | null
+  actualDurationWeeks?: number | null
+  coordinatorPerformanceRating?: $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation?: string | null
+  organizationPerformanceRating?: $Enums.PerformanceRating | null
+  organizationWrittenEvaluation?: string | null
+  status?: $Enums.ProjectCompletionStatus
+  isVisibleInPortfolio?: boolean
+  verificationCode?: string | null
+  completedAt?: Date | string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ProjectCompletionUpdateWithoutStudentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  roleDescription?: Prisma.StringFieldUpdateOperationsInput | string
+  keyAchievements?: Prisma.ProjectCompletionUpdatekeyAchievementsInput | string[]
+  skillsDeveloped?: Prisma.ProjectCompletionUpdateskillsDevelopedInput | string[]
+  actualHoursWorked?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  actualDurationWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  coordinatorPerformanceRating?: Prisma.NullableEnumPerformanceRatingFieldUpdateOperationsInput | $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  organizationPerformanceRating?: Prisma.NullableEnumPerformanceRatingFieldUpdateOperationsInput | $Enums.PerformanceRating | null
+  organizationWrittenEvaluation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumProjectCompletionStatusFieldUpdateOperationsInput | $Enums.ProjectCompletionStatus
+  isVisibleInPortfolio?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  verificationCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  completedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  project?: Prisma.ProjectUpdateOneRequiredWithoutCompletionsNestedInput
+  deliverables?: Prisma.ProjectAttachmentUpdateManyWithoutProjectCompletionNestedInput
+}
+
+export type ProjectCompletionUncheckedUpdateWithoutStudentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  projectId?: Prisma.StringFieldUpdateOperationsInput | string
+  roleDescription?: Prisma.StringFieldUpdateOperationsInput | string
+  keyAchievements?: Prisma.ProjectCompletionUpdatekeyAchievementsInput | string[]
+  skillsDeveloped?: Prisma.ProjectCompletionUpdateskillsDevelopedInput | string[]
+  actualHoursWorked?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  actualDurationWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  coordinatorPerformanceRating?: Prisma.NullableEnumPerformanceRatingFieldUpdateOperationsInput | $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  organizationPerformanceRating?: Prisma.NullableEnumPerformanceRatingFieldUpdateOperationsInput | $Enums.PerformanceRating | null
+  organizationWrittenEvaluation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumProjectCompletionStatusFieldUpdateOperationsInput | $Enums.ProjectCompletionStatus
+  isVisibleInPortfolio?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  verificationCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  completedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deliverables?: Prisma.ProjectAttachmentUncheckedUpdateManyWithoutProjectCompletionNestedInput
+}
+
+export type ProjectCompletionUncheckedUpdateManyWithoutStudentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  projectId?: Prisma.StringFieldUpdateOperationsInput | string
+  roleDescription?: Prisma.StringFieldUpdateOperationsInput | string
+  keyAchievements?: Prisma.ProjectCompletionUpdatekeyAchievementsInput | string[]
+  skillsDeveloped?: Prisma.ProjectCompletionUpdateskillsDevelopedInput | string[]
+  actualHoursWorked?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  actualDurationWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  coordinatorPerformanceRating?: Prisma.NullableEnumPerformanceRatingFieldUpdateOperationsInput | $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  organizationPerformanceRating?: Prisma.NullableEnumPerformanceRatingFieldUpdateOperationsInput | $Enums.PerformanceRating | null
+  organizationWrittenEvaluation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumProjectCompletionStatusFieldUpdateOperationsInput | $Enums.ProjectCompletionStatus
+  isVisibleInPortfolio?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  verificationCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  completedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ProjectCompletionCreateManyProjectInput = {
+  id?: string
+  studentId: string
+  roleDescription: string
+  keyAchievements?: Prisma.ProjectCompletionCreatekeyAchievementsInput | string[]
+  skillsDeveloped?: Prisma.ProjectCompletionCreateskillsDevelopedInput | string[]
+  actualHoursWorked?: number | null
+  actualDurationWeeks?: number | null
+  coordinatorPerformanceRating?: $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation?: string | null
+  organizationPerformanceRating?: $Enums.PerformanceRating | null
+  organizationWrittenEvaluation?: string | null
+  status?: $Enums.ProjectCompletionStatus
+  isVisibleInPortfolio?: boolean
+  verificationCode?: string | null
+  completedAt?: Date | string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ProjectCompletionUpdateWithoutProjectInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  roleDescription?: Prisma.StringFieldUpdateOperationsInput | string
+  keyAchievements?: Prisma.ProjectCompletionUpdatekeyAchievementsInput | string[]
+  skillsDeveloped?: Prisma.ProjectCompletionUpdateskillsDevelopedInput | string[]
+  actualHoursWorked?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  actualDurationWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  coordinatorPerformanceRating?: Prisma.NullableEnumPerformanceRatingFieldUpdateOperationsInput | $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  organizationPerformanceRating?: Prisma.NullableEnumPerformanceRatingFieldUpdateOperationsInput | $Enums.PerformanceRating | null
+  organizationWrittenEvaluation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumProjectCompletionStatusFieldUpdateOperationsInput | $Enums.ProjectCompletionStatus
+  isVisibleInPortfolio?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  verificationCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  completedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  student?: Prisma.StudentUpdateOneRequiredWithoutProjectCompletionsNestedInput
+  deliverables?: Prisma.ProjectAttachmentUpdateManyWithoutProjectCompletionNestedInput
+}
+
+export type ProjectCompletionUncheckedUpdateWithoutProjectInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  studentId?: Prisma.StringFieldUpdateOperationsInput | string
+  roleDescription?: Prisma.StringFieldUpdateOperationsInput | string
+  keyAchievements?: Prisma.ProjectCompletionUpdatekeyAchievementsInput | string[]
+  skillsDeveloped?: Prisma.ProjectCompletionUpdateskillsDevelopedInput | string[]
+  actualHoursWorked?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  actualDurationWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  coordinatorPerformanceRating?: Prisma.NullableEnumPerformanceRatingFieldUpdateOperationsInput | $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  organizationPerformanceRating?: Prisma.NullableEnumPerformanceRatingFieldUpdateOperationsInput | $Enums.PerformanceRating | null
+  organizationWrittenEvaluation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumProjectCompletionStatusFieldUpdateOperationsInput | $Enums.ProjectCompletionStatus
+  isVisibleInPortfolio?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  verificationCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  completedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deliverables?: Prisma.ProjectAttachmentUncheckedUpdateManyWithoutProjectCompletionNestedInput
+}
+
+export type ProjectCompletionUncheckedUpdateManyWithoutProjectInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  studentId?: Prisma.StringFieldUpdateOperationsInput | string
+  roleDescription?: Prisma.StringFieldUpdateOperationsInput | string
+  keyAchievements?: Prisma.ProjectCompletionUpdatekeyAchievementsInput | string[]
+  skillsDeveloped?: Prisma.ProjectCompletionUpdateskillsDevelopedInput | string[]
+  actualHoursWorked?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  actualDurationWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  coordinatorPerformanceRating?: Prisma.NullableEnumPerformanceRatingFieldUpdateOperationsInput | $Enums.PerformanceRating | null
+  coordinatorWrittenEvaluation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  organizationPerformanceRating?: Prisma.NullableEnumPerformanceRatingFieldUpdateOperationsInput | $Enums.PerformanceRating | null
+  organizationWrittenEvaluation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumProjectCompletionStatusFieldUpdateOperationsInput | $Enums.ProjectCompletionStatus
+  isVisibleInPortfolio?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  verificationCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  completedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type ProjectCompletionCountOutputType
+ */
+
+export type ProjectCompletionCountOutputType = {
+  deliverables: number
+}
+
+export type ProjectCompletionCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  deliverables?: boolean | ProjectCompletionCountOutputTypeCountDeliverablesArgs
+}
+
+/**
+ * ProjectCompletionCountOutputType without action
+ */
+export type ProjectCompletionCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectCompletionCountOutputType
+   */
+  select?: Prisma.ProjectCompletionCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * ProjectCompletionCountOutputType without action
+ */
+export type ProjectCompletionCountOutputTypeCountDeliverablesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ProjectAttachmentWhereInput
+}
+
+
+export type ProjectCompletionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  projectId?: boolean
+  studentId?: boolean
+  roleDescription?: boolean
+  keyAchievements?: boolean
+  skillsDeveloped?: boolean
+  actualHoursWorked?: boolean
+  actualDurationWeeks?: boolean
+  coordinatorPerformanceRating?: boolean
+  coordinatorWrittenEvaluation?: boolean
+  organizationPerformanceRating?: boolean
+  organizationWrittenEvaluation?: boolean
+  status?: boolean
+  isVisibleInPortfolio?: boolean
+  verificationCode?: boolean
+  completedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  project?: boolean | Prisma.ProjectDefaultArgs<ExtArgs>
+  student?: boolean | Prisma.StudentDefaultArgs<ExtArgs>
+  deliverables?: boolean | Prisma.ProjectCompletion$deliverablesArgs<ExtArgs>
+  _count?: boolean | Prisma.ProjectCompletionCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["projectCompletion"]>
+
+export type ProjectCompletionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  projectId?: boolean
+  studentId?: boolean
+  roleDescription?: boolean
+  keyAchievements?: boolean
+  skillsDeveloped?: boolean
+  actualHoursWorked?: boolean
+  actualDurationWeeks?: boolean
+  coordinatorPerformanceRating?: boolean
+  coordinatorWrittenEvaluation?: boolean
+  organizationPerformanceRating?: boolean
+  organizationWrittenEvaluation?: boolean
+  status?: boolean
+  isVisibleInPortfolio?: boolean
+  verificationCode?: boolean
+  completedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  project?: boolean | Prisma.ProjectDefaultArgs<ExtArgs>
+  student?: boolean | Prisma.StudentDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["projectCompletion"]>
+
+export type ProjectCompletionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  projectId?: boolean
+  studentId?: boolean
+  roleDescription?: boolean
+  keyAchievements?: boolean
+  skillsDeveloped?: boolean
+  actualHoursWorked?: boolean
+  actualDurationWeeks?: boolean
+  coordinatorPerformanceRating?: boolean
+  coordinatorWrittenEvaluation?: boolean
+  organizationPerformanceRating?: boolean
+  organizationWrittenEvaluation?: boolean
+  status?: boolean
+  isVisibleInPortfolio?: boolean
+  verificationCode?: boolean
+  completedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  project?: boolean | Prisma.ProjectDefaultArgs<ExtArgs>
+  student?: boolean | Prisma.StudentDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["projectCompletion"]>
+
+export type ProjectCompletionSelectScalar = {
+  id?: boolean
+  projectId?: boolean
+  studentId?: boolean
+  roleDescription?: boolean
+  keyAchievements?: boolean
+  skillsDeveloped?: boolean
+  actualHoursWorked?: boolean
+  actualDurationWeeks?: boolean
+  coordinatorPerformanceRating?: boolean
+  coordinatorWrittenEvaluation?: boolean
+  organizationPerformanceRating?: boolean
+  organizationWrittenEvaluation?: boolean
+  status?: boolean
+  isVisibleInPortfolio?: boolean
+  verificationCode?: boolean
+  completedAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type ProjectCompletionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "projectId" | "studentId" | "roleDescription" | "keyAchievements" | "skillsDeveloped" | "actualHoursWorked" | "actualDurationWeeks" | "coordinatorPerformanceRating" | "coordinatorWrittenEvaluation" | "organizationPerformanceRating" | "organizationWrittenEvaluation" | "status" | "isVisibleInPortfolio" | "verificationCode" | "completedAt" | "createdAt" | "updatedAt", ExtArgs["result"]["projectCompletion"]>
+export type ProjectCompletionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  project?: boolean | Prisma.ProjectDefaultArgs<ExtArgs>
+  student?: boolean | Prisma.StudentDefaultArgs<ExtArgs>
+  deliverables?: boolean | Prisma.ProjectCompletion$deliverablesArgs<ExtArgs>
+  _count?: boolean | Prisma.ProjectCompletionCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type ProjectCompletionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  project?: boolean | Prisma.ProjectDefaultArgs<ExtArgs>
+  student?: boolean | Prisma.StudentDefaultArgs<ExtArgs>
+}
+export type ProjectCompletionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  project?: boolean | Prisma.ProjectDefaultArgs<ExtArgs>
+  student?: boolean | Prisma.StudentDefaultArgs<ExtArgs>
+}
+
+export type $ProjectCompletionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ProjectCompletion"
+  objects: {
+    project: Prisma.$ProjectPayload<ExtArgs>
+    student: Prisma.$StudentPayload<ExtArgs>
+    deliverables: Prisma.$ProjectAttachmentPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    projectId: string
+    studentId: string
+    roleDescription: string
+    keyAchievements: string[]
+    skillsDeveloped: string[]
+    actualHoursWorked: number | null
+    actualDurationWeeks: number | null
+    coordinatorPerformanceRating: $Enums.PerformanceRating | null
+    coordinatorWrittenEvaluation: string | null
+    organizationPerformanceRating: $Enums.PerformanceRating | null
+    organizationWrittenEvaluation: string | null
+    status: $Enums.ProjectCompletionStatus
+    isVisibleInPortfolio: boolean
+    verificationCode: string | null
+    completedAt: Date
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["projectCompletion"]>
+  composites: {}
+}
+
+export type ProjectCompletionGetPayload<S extends boolean | null | undefined | ProjectCompletionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ProjectCompletionPayload, S>
+
+export type ProjectCompletionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ProjectCompletionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: ProjectCompletionCountAggregateInputType | true
+  }
+
+export interface ProjectCompletionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ProjectCompletion'], meta: { name: 'ProjectCompletion' } }
+  /**
+   * Find zero or one ProjectCompletion that matches the filter.
+   * @param {ProjectCompletionFindUniqueArgs} args - Arguments to find a ProjectCompletion
+   * @example
+   * // Get one ProjectCompletion
+   * const projectCompletion = await prisma.projectCompletion.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ProjectCompletionFindUniqueArgs>(args: Prisma.SelectSubset<T, ProjectCompletionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ProjectCompletionClient<runtime.Types.Result.GetResult<Prisma.$ProjectCompletionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ProjectCompletion that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ProjectCompletionFindUniqueOrThrowArgs} args - Arguments to find a ProjectCompletion
+   * @example
+   * // Get one ProjectCompletion
+   * const projectCompletion = await prisma.projectCompletion.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ProjectCompletionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ProjectCompletionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ProjectCompletionClient<runtime.Types.Result.GetResult<Prisma.$ProjectCompletionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ProjectCompletion that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectCompletionFindFirstArgs} args - Arguments to find a ProjectCompletion
+   * @example
+   * // Get one ProjectCompletion
+   * const projectCompletion = await prisma.projectCompletion.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ProjectCompletionFindFirstArgs>(args?: Prisma.SelectSubset<T, ProjectCompletionFindFirstArgs<ExtArgs>>): Prisma.Prisma__ProjectCompletionClient<runtime.Types.Result.GetResult<Prisma.$ProjectCompletionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ProjectCompletion that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectCompletionFindFirstOrThrowArgs} args - Arguments to find a ProjectCompletion
+   * @example
+   * // Get one ProjectCompletion
+   * const projectCompletion = await prisma.projectCompletion.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ProjectCompletionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ProjectCompletionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ProjectCompletionClient<runtime.Types.Result.GetResult<Prisma.$ProjectCompletionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ProjectCompletions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectCompletionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ProjectCompletions
+   * const projectCompletions = await prisma.projectCompletion.findMany()
+   * 
+   * // Get first 10 ProjectCompletions
+   * const projectCompletions = await prisma.projectCompletion.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const projectCompletionWithIdOnly = await prisma.projectCompletion.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ProjectCompletionFindManyArgs>(args?: Prisma.SelectSubset<T, ProjectCompletionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectCompletionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ProjectCompletion.
+   * @param {ProjectCompletionCreateArgs} args - Arguments to create a ProjectCompletion.
+   * @example
+   * // Create one ProjectCompletion
+   * const ProjectCompletion = await prisma.projectCompletion.create({
+   *   data: {
+   *     // ... data to create a ProjectCompletion
+   *   }
+   * })
+   * 
+   */
+  create<T extends ProjectCompletionCreateArgs>(args: Prisma.SelectSubset<T, ProjectCompletionCreateArgs<ExtArgs>>): Prisma.Prisma__ProjectCompletionClient<runtime.Types.Result.GetResult<Prisma.$ProjectCompletionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ProjectCompletions.
+   * @param {ProjectCompletionCreateManyArgs} args - Arguments to create many ProjectCompletions.
+   * @example
+   * // Create many ProjectCompletions
+   * const projectCompletion = await prisma.projectCompletion.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ProjectCompletionCreateManyArgs>(args?: Prisma.SelectSubset<T, ProjectCompletionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ProjectCompletions and returns the data saved in the database.
+   * @param {ProjectCompletionCreateManyAndReturnArgs} args - Arguments to create many ProjectCompletions.
+   * @example
+   * // Create many ProjectCompletions
+   * const projectCompletion = await prisma.projectCompletion.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ProjectCompletions and only return the `id`
+   * const projectCompletionWithIdOnly = await prisma.projectCompletion.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ProjectCompletionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ProjectCompletionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectCompletionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ProjectCompletion.
+   * @param {ProjectCompletionDeleteArgs} args - Arguments to delete one ProjectCompletion.
+   * @example
+   * // Delete one ProjectCompletion
+   * const ProjectCompletion = await prisma.projectCompletion.delete({
+   *   where: {
+   *     // ... filter to delete one ProjectCompletion
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ProjectCompletionDeleteArgs>(args: Prisma.SelectSubset<T, ProjectCompletionDeleteArgs<ExtArgs>>): Prisma.Prisma__ProjectCompletionClient<runtime.Types.Result.GetResult<Prisma.$ProjectCompletionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ProjectCompletion.
+   * @param {ProjectCompletionUpdateArgs} args - Arguments to update one ProjectCompletion.
+   * @example
+   * // Update one ProjectCompletion
+   * const projectCompletion = await prisma.projectCompletion.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ProjectCompletionUpdateArgs>(args: Prisma.SelectSubset<T, ProjectCompletionUpdateArgs<ExtArgs>>): Prisma.Prisma__ProjectCompletionClient<runtime.Types.Result.GetResult<Prisma.$ProjectCompletionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ProjectCompletions.
+   * @param {ProjectCompletionDeleteManyArgs} args - Arguments to filter ProjectCompletions to delete.
+   * @example
+   * // Delete a few ProjectCompletions
+   * const { count } = await prisma.projectCompletion.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ProjectCompletionDeleteManyArgs>(args?: Prisma.SelectSubset<T, ProjectCompletionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ProjectCompletions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectCompletionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ProjectCompletions
+   * const projectCompletion = await prisma.projectCompletion.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ProjectCompletionUpdateManyArgs>(args: Prisma.SelectSubset<T, ProjectCompletionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ProjectCompletions and returns the data updated in the database.
+   * @param {ProjectCompletionUpdateManyAndReturnArgs} args - Arguments to update many ProjectCompletions.
+   * @example
+   * // Update many ProjectCompletions
+   * const projectCompletion = await prisma.projectCompletion.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ProjectCompletions and only return the `id`
+   * const projectCompletionWithIdOnly = await prisma.projectCompletion.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ProjectCompletionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ProjectCompletionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectCompletionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ProjectCompletion.
+   * @param {ProjectCompletionUpsertArgs} args - Arguments to update or create a ProjectCompletion.
+   * @example
+   * // Update or create a ProjectCompletion
+   * const projectCompletion = await prisma.projectCompletion.upsert({
+   *   create: {
+   *     // ... data to create a ProjectCompletion
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ProjectCompletion we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ProjectCompletionUpsertArgs>(args: Prisma.SelectSubset<T, ProjectCompletionUpsertArgs<ExtArgs>>): Prisma.Prisma__ProjectCompletionClient<runtime.Types.Result.GetResult<Prisma.$ProjectCompletionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ProjectCompletions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectCompletionCountArgs} args - Arguments to filter ProjectCompletions to count.
+   * @example
+   * // Count the number of ProjectCompletions
+   * const count = await prisma.projectCompletion.count({
+   *   where: {
+   *     // ... the filter for the ProjectCompletions we want to count
+   *   }
+   * })
+  **/
+  count<T extends ProjectCompletionCountArgs>(
+    args?: Prisma.Subset<T, ProjectCompletionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ProjectCompletionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ProjectCompletion.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectCompletionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ProjectCompletionAggregateArgs>(args: Prisma.Subset<T, ProjectCompletionAggregateArgs>): Prisma.PrismaPromise<GetProjectCompletionAggregateType<T>>
+
+  /**
+   * Group by ProjectCompletion.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ProjectCompletionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ProjectCompletionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ProjectCompletionGroupByArgs['orderBy'] }
+      : { orderBy?: ProjectCompletionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ProjectCompletionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetProjectCompletionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ProjectCompletion model
+ */
+readonly fields: ProjectCompletionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ProjectCompletion.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ProjectCompletionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  project<T extends Prisma.ProjectDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ProjectDefaultArgs<ExtArgs>>): Prisma.Prisma__ProjectClient<runtime.Types.Result.GetResult<Prisma.$ProjectPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  student<T extends Prisma.StudentDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.StudentDefaultArgs<ExtArgs>>): Prisma.Prisma__StudentClient<runtime.Types.Result.GetResult<Prisma.$StudentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  deliverables<T extends Prisma.ProjectCompletion$deliverablesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ProjectCompletion$deliverablesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ProjectAttachmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ProjectCompletion model
+ */
+export interface ProjectCompletionFieldRefs {
+  readonly id: Prisma.FieldRef<"ProjectCompletion", 'String'>
+  readonly projectId: Prisma.FieldRef<"ProjectCompletion", 'String'>
+  readonly studentId: Prisma.FieldRef<"ProjectCompletion", 'String'>
+  readonly roleDescription: Prisma.FieldRef<"ProjectCompletion", 'String'>
+  readonly keyAchievements: Prisma.FieldRef<"ProjectCompletion", 'String[]'>
+  readonly skillsDeveloped: Prisma.FieldRef<"ProjectCompletion", 'String[]'>
+  readonly actualHoursWorked: Prisma.FieldRef<"ProjectCompletion", 'Int'>
+  readonly actualDurationWeeks: Prisma.FieldRef<"ProjectCompletion", 'Int'>
+  readonly coordinatorPerformanceRating: Prisma.FieldRef<"ProjectCompletion", 'PerformanceRating'>
+  readonly coordinatorWrittenEvaluation: Prisma.FieldRef<"ProjectCompletion", 'String'>
+  readonly organizationPerformanceRating: Prisma.FieldRef<"ProjectCompletion", 'PerformanceRating'>
+  readonly organizationWrittenEvaluation: Prisma.FieldRef<"ProjectCompletion", 'String'>
+  readonly status: Prisma.FieldRef<"ProjectCompletion", 'ProjectCompletionStatus'>
+  readonly isVisibleInPortfolio: Prisma.FieldRef<"ProjectCompletion", 'Boolean'>
+  readonly verificationCode: Prisma.FieldRef<"ProjectCompletion", 'String'>
+  readonly completedAt: Prisma.FieldRef<"ProjectCompletion", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"ProjectCompletion", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"ProjectCompletion", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ProjectCompletion findUnique
+ */
+export type ProjectCompletionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectCompletion
+   */
+  select?: Prisma.ProjectCompletionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectCompletion
+   */
+  omit?: Prisma.ProjectCompletionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectCompletionInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectCompletion to fetch.
+   */
+  where: Prisma.ProjectCompletionWhereUniqueInput
+}
+
+/**
+ * ProjectCompletion findUniqueOrThrow
+ */
+export type ProjectCompletionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectCompletion
+   */
+  select?: Prisma.ProjectCompletionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectCompletion
+   */
+  omit?: Prisma.ProjectCompletionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectCompletionInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectCompletion to fetch.
+   */
+  where: Prisma.ProjectCompletionWhereUniqueInput
+}
+
+/**
+ * ProjectCompletion findFirst
+ */
+export type ProjectCompletionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectCompletion
+   */
+  select?: Prisma.ProjectCompletionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectCompletion
+   */
+  omit?: Prisma.ProjectCompletionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectCompletionInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectCompletion to fetch.
+   */
+  where?: Prisma.ProjectCompletionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProjectCompletions to fetch.
+   */
+  orderBy?: Prisma.ProjectCompletionOrderByWithRelationInput | Prisma.ProjectCompletionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ProjectCompletions.
+   */
+  cursor?: Prisma.ProjectCompletionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProjectCompletions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProjectCompletions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ProjectCompletions.
+   */
+  distinct?: Prisma.ProjectCompletionScalarFieldEnum | Prisma.ProjectCompletionScalarFieldEnum[]
+}
+
+/**
+ * ProjectCompletion findFirstOrThrow
+ */
+export type ProjectCompletionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectCompletion
+   */
+  select?: Prisma.ProjectCompletionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectCompletion
+   */
+  omit?: Prisma.ProjectCompletionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectCompletionInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectCompletion to fetch.
+   */
+  where?: Prisma.ProjectCompletionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProjectCompletions to fetch.
+   */
+  orderBy?: Prisma.ProjectCompletionOrderByWithRelationInput | Prisma.ProjectCompletionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ProjectCompletions.
+   */
+  cursor?: Prisma.ProjectCompletionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProjectCompletions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProjectCompletions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ProjectCompletions.
+   */
+  distinct?: Prisma.ProjectCompletionScalarFieldEnum | Prisma.ProjectCompletionScalarFieldEnum[]
+}
+
+/**
+ * ProjectCompletion findMany
+ */
+export type ProjectCompletionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectCompletion
+   */
+  select?: Prisma.ProjectCompletionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectCompletion
+   */
+  omit?: Prisma.ProjectCompletionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectCompletionInclude<ExtArgs> | null
+  /**
+   * Filter, which ProjectCompletions to fetch.
+   */
+  where?: Prisma.ProjectCompletionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ProjectCompletions to fetch.
+   */
+  orderBy?: Prisma.ProjectCompletionOrderByWithRelationInput | Prisma.ProjectCompletionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ProjectCompletions.
+   */
+  cursor?: Prisma.ProjectCompletionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ProjectCompletions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ProjectCompletions.
+   */
+  skip?: number
+  distinct?: Prisma.ProjectCompletionScalarFieldEnum | Prisma.ProjectCompletionScalarFieldEnum[]
+}
+
+/**
+ * ProjectCompletion create
+ */
+export type ProjectCompletionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectCompletion
+   */
+  select?: Prisma.ProjectCompletionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectCompletion
+   */
+  omit?: Prisma.ProjectCompletionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectCompletionInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ProjectCompletion.
+   */
+  data: Prisma.XOR<Prisma.ProjectCompletionCreateInput, Prisma.ProjectCompletionUncheckedCreateInput>
+}
+
+/**
+ * ProjectCompletion createMany
+ */
+export type ProjectCompletionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ProjectCompletions.
+   */
+  data: Prisma.ProjectCompletionCreateManyInput | Prisma.ProjectCompletionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ProjectCompletion createManyAndReturn
+ */
+export type ProjectCompletionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectCompletion
+   */
+  select?: Prisma.ProjectCompletionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectCompletion
+   */
+  omit?: Prisma.ProjectCompletionOmit<ExtArgs> | null
+  /**
+   * The data used to create many ProjectCompletions.
+   */
+  data: Prisma.ProjectCompletionCreateManyInput | Prisma.ProjectCompletionCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectCompletionIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ProjectCompletion update
+ */
+export type ProjectCompletionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectCompletion
+   */
+  select?: Prisma.ProjectCompletionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectCompletion
+   */
+  omit?: Prisma.ProjectCompletionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectCompletionInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ProjectCompletion.
+   */
+  data: Prisma.XOR<Prisma.ProjectCompletionUpdateInput, Prisma.ProjectCompletionUncheckedUpdateInput>
+  /**
+   * Choose, which ProjectCompletion to update.
+   */
+  where: Prisma.ProjectCompletionWhereUniqueInput
+}
+
+/**
+ * ProjectCompletion updateMany
+ */
+export type ProjectCompletionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ProjectCompletions.
+   */
+  data: Prisma.XOR<Prisma.ProjectCompletionUpdateManyMutationInput, Prisma.ProjectCompletionUncheckedUpdateManyInput>
+  /**
+   * Filter which ProjectCompletions to update
+   */
+  where?: Prisma.ProjectCompletionWhereInput
+  /**
+   * Limit how many ProjectCompletions to update.
+   */
+  limit?: number
+}
+
+/**
+ * ProjectCompletion updateManyAndReturn
+ */
+export type ProjectCompletionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectCompletion
+   */
+  select?: Prisma.ProjectCompletionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectCompletion
+   */
+  omit?: Prisma.ProjectCompletionOmit<ExtArgs> | null
+  /**
+   * The data used to update ProjectCompletions.
+   */
+  data: Prisma.XOR<Prisma.ProjectCompletionUpdateManyMutationInput, Prisma.ProjectCompletionUncheckedUpdateManyInput>
+  /**
+   * Filter which ProjectCompletions to update
+   */
+  where?: Prisma.ProjectCompletionWhereInput
+  /**
+   * Limit how many ProjectCompletions to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectCompletionIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ProjectCompletion upsert
+ */
+export type ProjectCompletionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectCompletion
+   */
+  select?: Prisma.ProjectCompletionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectCompletion
+   */
+  omit?: Prisma.ProjectCompletionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectCompletionInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ProjectCompletion to update in case it exists.
+   */
+  where: Prisma.ProjectCompletionWhereUniqueInput
+  /**
+   * In case the ProjectCompletion found by the `where` argument doesn't exist, create a new ProjectCompletion with this data.
+   */
+  create: Prisma.XOR<Prisma.ProjectCompletionCreateInput, Prisma.ProjectCompletionUncheckedCreateInput>
+  /**
+   * In case the ProjectCompletion was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ProjectCompletionUpdateInput, Prisma.ProjectCompletionUncheckedUpdateInput>
+}
+
+/**
+ * ProjectCompletion delete
+ */
+export type ProjectCompletionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectCompletion
+   */
+  select?: Prisma.ProjectCompletionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectCompletion
+   */
+  omit?: Prisma.ProjectCompletionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectCompletionInclude<ExtArgs> | null
+  /**
+   * Filter which ProjectCompletion to delete.
+   */
+  where: Prisma.ProjectCompletionWhereUniqueInput
+}
+
+/**
+ * ProjectCompletion deleteMany
+ */
+export type ProjectCompletionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ProjectCompletions to delete
+   */
+  where?: Prisma.ProjectCompletionWhereInput
+  /**
+   * Limit how many ProjectCompletions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ProjectCompletion.deliverables
+ */
+export type ProjectCompletion$deliverablesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectAttachment
+   */
+  select?: Prisma.ProjectAttachmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectAttachment
+   */
+  omit?: Prisma.ProjectAttachmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectAttachmentInclude<ExtArgs> | null
+  where?: Prisma.ProjectAttachmentWhereInput
+  orderBy?: Prisma.ProjectAttachmentOrderByWithRelationInput | Prisma.ProjectAttachmentOrderByWithRelationInput[]
+  cursor?: Prisma.ProjectAttachmentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ProjectAttachmentScalarFieldEnum | Prisma.ProjectAttachmentScalarFieldEnum[]
+}
+
+/**
+ * ProjectCompletion without action
+ */
+export type ProjectCompletionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ProjectCompletion
+   */
+  select?: Prisma.ProjectCompletionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ProjectCompletion
+   */
+  omit?: Prisma.ProjectCompletionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProjectCompletionInclude<ExtArgs> | null
+}
@@ -0,0 +1,1132 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `RateLimitBucket` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model RateLimitBucket
+ * Request counter of one rate-limited token (e.g. "login:<ip>"), used by the PostgreSQL rate limit store.
+ */
+export type RateLimitBucketModel = runtime.Types.Result.DefaultSelection<Prisma.$RateLimitBucketPayload>
+
+export type AggregateRateLimitBucket = {
+  _count: RateLimitBucketCountAggregateOutputType | null
+  _avg: RateLimitBucketAvgAggregateOutputType | null
+  _sum: RateLimitBucketSumAggregateOutputType | null
+  _min: RateLimitBucketMinAggregateOutputType | null
+  _max: RateLimitBucketMaxAggregateOutputType | null
+}
+
+export type RateLimitBucketAvgAggregateOutputType = {
+  count: number | null
+}
+
+export type RateLimitBucketSumAggregateOutputType = {
+  count: number | null
+}
+
+export type RateLimitBucketMinAggregateOutputType = {
+  token: string | null
+  count: number | null
+  resetAt: Date | null
+}
+
+export type RateLimitBucketMaxAggregateOutputType = {
+  token: string | null
+  count: number | null
+  resetAt: Date | null
+}
+
+export type RateLimitBucketCountAggregateOutputType = {
+  token: number
+  count: number
+  resetAt: number
+  _all: number
+}
+
+
+export type RateLimitBucketAvgAggregateInputType = {
+  count?: true
+}
+
+export type RateLimitBucketSumAggregateInputType = {
+  count?: true
+}
+
+export type RateLimitBucketMinAggregateInputType = {
+  token?: true
+  count?: true
+  resetAt?: true
+}
+
+export type RateLimitBucketMaxAggregateInputType = {
+  token?: true
+  count?: true
+  resetAt?: true
+}
+
+export type RateLimitBucketCountAggregateInputType = {
+  token?: true
+  count?: true
+  resetAt?: true
+  _all?: true
+}
+
+export type RateLimitBucketAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which RateLimitBucket to aggregate.
+   */
+  where?: Prisma.RateLimitBucketWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RateLimitBuckets to fetch.
+   */
+  orderBy?: Prisma.RateLimitBucketOrderByWithRelationInput | Prisma.RateLimitBucketOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.RateLimitBucketWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RateLimitBuckets from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RateLimitBuckets.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned RateLimitBuckets
+  **/
+  _count?: true | RateLimitBucketCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: RateLimitBucketAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: RateLimitBucketSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: RateLimitBucketMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: RateLimitBucketMaxAggregateInputType
+}
+
+export type GetRateLimitBucketAggregateType<T extends RateLimitBucketAggregateArgs> = {
+      [P in keyof T & keyof AggregateRateLimitBucket]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateRateLimitBucket[P]>
+    : Prisma.GetScalarType<T[P], AggregateRateLimitBucket[P]>
+}
+
+
+
+
+export type RateLimitBucketGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RateLimitBucketWhereInput
+  orderBy?: Prisma.RateLimitBucketOrderByWithAggregationInput | Prisma.RateLimitBucketOrderByWithAggregationInput[]
+  by: Prisma.RateLimitBucketScalarFieldEnum[] | Prisma.RateLimitBucketScalarFieldEnum
+  having?: Prisma.RateLimitBucketScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: RateLimitBucketCountAggregateInputType | true
+  _avg?: RateLimitBucketAvgAggregateInputType
+  _sum?: RateLimitBucketSumAggregateInputType
+  _min?: RateLimitBucketMinAggregateInputType
+  _max?: RateLimitBucketMaxAggregateInputType
+}
+
+export type RateLimitBucketGroupByOutputType = {
+  token: string
+  count: number
+  resetAt: Date
+  _count: RateLimitBucketCountAggregateOutputType | null
+  _avg: RateLimitBucketAvgAggregateOutputType | null
+  _sum: RateLimitBucketSumAggregateOutputType | null
+  _min: RateLimitBucketMinAggregateOutputType | null
+  _max: RateLimitBucketMaxAggregateOutputType | null
+}
+
+type GetRateLimitBucketGroupByPayload<T extends RateLimitBucketGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<RateLimitBucketGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof RateLimitBucketGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], RateLimitBucketGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], RateLimitBucketGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type RateLimitBucketWhereInput = {
+  AND?: Prisma.RateLimitBucketWhereInput | Prisma.RateLimitBucketWhereInput[]
+  OR?: Prisma.RateLimitBucketWhereInput[]
+  NOT?: Prisma.RateLimitBucketWhereInput | Prisma.RateLimitBucketWhereInput[]
+  token?: Prisma.StringFilter<"RateLimitBucket"> | string
+  count?: Prisma.IntFilter<"RateLimitBucket"> | number
+  resetAt?: Prisma.DateTimeFilter<"RateLimitBucket"> | Date | string
+}
+
+export type RateLimitBucketOrderByWithRelationInput = {
+  token?: Prisma.SortOrder
+  count?: Prisma.SortOrder
+  resetAt?: Prisma.SortOrder
+}
+
+export type RateLimitBucketWhereUniqueInput = Prisma.AtLeast<{
+  token?: string
+  AND?: Prisma.RateLimitBucketWhereInput | Prisma.RateLimitBucketWhereInput[]
+  OR?: Prisma.RateLimitBucketWhereInput[]
+  NOT?: Prisma.RateLimitBucketWhereInput | Prisma.RateLimitBucketWhereInput[]
+  count?: Prisma.IntFilter<"RateLimitBucket"> | number
+  resetAt?: Prisma.DateTimeFilter<"RateLimitBucket"> | Date | string
+}, "token">
+
+export type RateLimitBucketOrderByWithAggregationInput = {
+  token?: Prisma.SortOrder
+  count?: Prisma.SortOrder
+  resetAt?: Prisma.SortOrder
+  _count?: Prisma.RateLimitBucketCountOrderByAggregateInput
+  _avg?: Prisma.RateLimitBucketAvgOrderByAggregateInput
+  _max?: Prisma.RateLimitBucketMaxOrderByAggregateInput
+  _min?: Prisma.RateLimitBucketMinOrderByAggregateInput
+  _sum?: Prisma.RateLimitBucketSumOrderByAggregateInput
+}
+
+export type RateLimitBucketScalarWhereWithAggregatesInput = {
+  AND?: Prisma.RateLimitBucketScalarWhereWithAggregatesInput | Prisma.RateLimitBucketScalarWhereWithAggregatesInput[]
+  OR?: Prisma.RateLimitBucketScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.RateLimitBucketScalarWhereWithAggregatesInput | Prisma.RateLimitBucketScalarWhereWithAggregatesInput[]
+  token?: Prisma.StringWithAggregatesFilter<"RateLimitBucket"> | string
+  count?: Prisma.IntWithAggregatesFilter<"RateLimitBucket"> | number
+  resetAt?: Prisma.DateTimeWithAggregatesFilter<"RateLimitBucket"> | Date | string
+}
+
+export type RateLimitBucketCreateInput = {
+  token: string
+  count: number
+  resetAt: Date | string
+}
+
+export type RateLimitBucketUncheckedCreateInput = {
+  token: string
+  count: number
+  resetAt: Date | string
+}
+
+export type RateLimitBucketUpdateInput = {
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  count?: Prisma.IntFieldUpdateOperationsInput | number
+  resetAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RateLimitBucketUncheckedUpdateInput = {
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  count?: Prisma.IntFieldUpdateOperationsInput | number
+  resetAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RateLimitBucketCreateManyInput = {
+  token: string
+  count: number
+  resetAt: Date | string
+}
+
+export type RateLimitBucketUpdateManyMutationInput = {
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  count?: Prisma.IntFieldUpdateOperationsInput | number
+  resetAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RateLimitBucketUncheckedUpdateManyInput = {
+  token?: Prisma.StringFieldUpdateOperationsInput | string
+  count?: Prisma.IntFieldUpdateOperationsInput | number
+  resetAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RateLimitBucketCountOrderByAggregateInput = {
+  token?: Prisma.SortOrder
+  count?: Prisma.SortOrder
+  resetAt?: Prisma.SortOrder
+}
+
+export type RateLimitBucketAvgOrderByAggregateInput = {
+  count?: Prisma.SortOrder
+}
+
+export type RateLimitBucketMaxOrderByAggregateInput = {
+  token?: Prisma.SortOrder
+  count?: Prisma.SortOrder
+  resetAt?: Prisma.SortOrder
+}
+
+export type RateLimitBucketMinOrderByAggregateInput = {
+  token?: Prisma.SortOrder
+  count?: Prisma.SortOrder
+  resetAt?: Prisma.SortOrder
+}
+
+export type RateLimitBucketSumOrderByAggregateInput = {
+  count?: Prisma.SortOrder
+}
+
+
+
+export type RateLimitBucketSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  token?: boolean
+  count?: boolean
+  resetAt?: boolean
+}, ExtArgs["result"]["rateLimitBucket"]>
+
+export type RateLimitBucketSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  token?: boolean
+  count?: boolean
+  resetAt?: boolean
+}, ExtArgs["result"]["rateLimitBucket"]>
+
+export type RateLimitBucketSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  token?: boolean
+  count?: boolean
+  resetAt?: boolean
+}, ExtArgs["result"]["rateLimitBucket"]>
+
+export type RateLimitBucketSelectScalar = {
+  token?: boolean
+  count?: boolean
+  resetAt?: boolean
+}
+
+export type RateLimitBucketOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"token" | "count" | "resetAt", ExtArgs["result"]["rateLimitBucket"]>
+
+export type $RateLimitBucketPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "RateLimitBucket"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    token: string
+    count: number
+    resetAt: Date
+  }, ExtArgs["result"]["rateLimitBucket"]>
+  composites: {}
+}
+
+export type RateLimitBucketGetPayload<S extends boolean | null | undefined | RateLimitBucketDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$RateLimitBucketPayload, S>
+
+export type RateLimitBucketCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<RateLimitBucketFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: RateLimitBucketCountAggregateInputType | true
+  }
+
+export interface RateLimitBucketDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['RateLimitBucket'], meta: { name: 'RateLimitBucket' } }
+  /**
+   * Find zero or one RateLimitBucket that matches the filter.
+   * @param {RateLimitBucketFindUniqueArgs} args - Arguments to find a RateLimitBucket
+   * @example
+   * // Get one RateLimitBucket
+   * const rateLimitBucket = await prisma.rateLimitBucket.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends RateLimitBucketFindUniqueArgs>(args: Prisma.SelectSubset<T, RateLimitBucketFindUniqueArgs<ExtArgs>>): Prisma.Prisma__RateLimitBucketClient<runtime.Types.Result.GetResult<Prisma.$RateLimitBucketPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one RateLimitBucket that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {RateLimitBucketFindUniqueOrThrowArgs} args - Arguments to find a RateLimitBucket
+   * @example
+   * // Get one RateLimitBucket
+   * const rateLimitBucket = await prisma.rateLimitBucket.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends RateLimitBucketFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, RateLimitBucketFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__RateLimitBucketClient<runtime.Types.Result.GetResult<Prisma.$RateLimitBucketPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first RateLimitBucket that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RateLimitBucketFindFirstArgs} args - Arguments to find a RateLimitBucket
+   * @example
+   * // Get one RateLimitBucket
+   * const rateLimitBucket = await prisma.rateLimitBucket.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends RateLimitBucketFindFirstArgs>(args?: Prisma.SelectSubset<T, RateLimitBucketFindFirstArgs<ExtArgs>>): Prisma.Prisma__RateLimitBucketClient<runtime.Types.Result.GetResult<Prisma.$RateLimitBucketPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first RateLimitBucket that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RateLimitBucketFindFirstOrThrowArgs} args - Arguments to find a RateLimitBucket
+   * @example
+   * // Get one RateLimitBucket
+   * const rateLimitBucket = await prisma.rateLimitBucket.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends RateLimitBucketFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, RateLimitBucketFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__RateLimitBucketClient<runtime.Types.Result.GetResult<Prisma.$RateLimitBucketPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more RateLimitBuckets that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RateLimitBucketFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all RateLimitBuckets
+   * const rateLimitBuckets = await prisma.rateLimitBucket.findMany()
+   * 
+   * // Get first 10 RateLimitBuckets
+   * const rateLimitBuckets = await prisma.rateLimitBucket.findMany({ take: 10 })
+   * 
+   * // Only select the `token`
+   * const rateLimitBucketWithTokenOnly = await prisma.rateLimitBucket.findMany({ select: { token: true } })
+   * 
+   */
+  findMany<T extends RateLimitBucketFindManyArgs>(args?: Prisma.SelectSubset<T, RateLimitBucketFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RateLimitBucketPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a RateLimitBucket.
+   * @param {RateLimitBucketCreateArgs} args - Arguments to create a RateLimitBucket.
+   * @example
+   * // Create one RateLimitBucket
+   * const RateLimitBucket = await prisma.rateLimitBucket.create({
+   *   data: {
+   *     // ... data to create a RateLimitBucket
+   *   }
+   * })
+   * 
+   */
+  create<T extends RateLimitBucketCreateArgs>(args: Prisma.SelectSubset<T, RateLimitBucketCreateArgs<ExtArgs>>): Prisma.Prisma__RateLimitBucketClient<runtime.Types.Result.GetResult<Prisma.$RateLimitBucketPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many RateLimitBuckets.
+   * @param {RateLimitBucketCreateManyArgs} args - Arguments to create many RateLimitBuckets.
+   * @example
+   * // Create many RateLimitBuckets
+   * const rateLimitBucket = await prisma.rateLimitBucket.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends RateLimitBucketCreateManyArgs>(args?: Prisma.SelectSubset<T, RateLimitBucketCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many RateLimitBuckets and returns the data saved in the database.
+   * @param {RateLimitBucketCreateManyAndReturnArgs} args - Arguments to create many RateLimitBuckets.
+   * @example
+   * // Create many RateLimitBuckets
+   * const rateLimitBucket = await prisma.rateLimitBucket.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many RateLimitBuckets and only return the `token`
+   * const rateLimitBucketWithTokenOnly = await prisma.rateLimitBucket.createManyAndReturn({
+   *   select: { token: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends RateLimitBucketCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, RateLimitBucketCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RateLimitBucketPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a RateLimitBucket.
+   * @param {RateLimitBucketDeleteArgs} args - Arguments to delete one RateLimitBucket.
+   * @example
+   * // Delete one RateLimitBucket
+   * const RateLimitBucket = await prisma.rateLimitBucket.delete({
+   *   where: {
+   *     // ... filter to delete one RateLimitBucket
+   *   }
+   * })
+   * 
+   */
+  delete<T extends RateLimitBucketDeleteArgs>(args: Prisma.SelectSubset<T, RateLimitBucketDeleteArgs<ExtArgs>>): Prisma.Prisma__RateLimitBucketClient<runtime.Types.Result.GetResult<Prisma.$RateLimitBucketPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one RateLimitBucket.
+   * @param {RateLimitBucketUpdateArgs} args - Arguments to update one RateLimitBucket.
+   * @example
+   * // Update one RateLimitBucket
+   * const rateLimitBucket = await prisma.rateLimitBucket.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends RateLimitBucketUpdateArgs>(args: Prisma.SelectSubset<T, RateLimitBucketUpdateArgs<ExtArgs>>): Prisma.Prisma__RateLimitBucketClient<runtime.Types.Result.GetResult<Prisma.$RateLimitBucketPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more RateLimitBuckets.
+   * @param {RateLimitBucketDeleteManyArgs} args - Arguments to filter RateLimitBuckets to delete.
+   * @example
+   * // Delete a few RateLimitBuckets
+   * const { count } = await prisma.rateLimitBucket.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends RateLimitBucketDeleteManyArgs>(args?: Prisma.SelectSubset<T, RateLimitBucketDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more RateLimitBuckets.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RateLimitBucketUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many RateLimitBuckets
+   * const rateLimitBucket = await prisma.rateLimitBucket.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends RateLimitBucketUpdateManyArgs>(args: Prisma.SelectSubset<T, RateLimitBucketUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more RateLimitBuckets and returns the data updated in the database.
+   * @param {RateLimitBucketUpdateManyAndReturnArgs} args - Arguments to update many RateLimitBuckets.
+   * @example
+   * // Update many RateLimitBuckets
+   * const rateLimitBucket = await prisma.rateLimitBucket.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more RateLimitBuckets and only return the `token`
+   * const rateLimitBucketWithTokenOnly = await prisma.rateLimitBucket.updateManyAndReturn({
+   *   select: { token: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends RateLimitBucketUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, RateLimitBucketUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RateLimitBucketPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one RateLimitBucket.
+   * @param {RateLimitBucketUpsertArgs} args - Arguments to update or create a RateLimitBucket.
+   * @example
+   * // Update or create a RateLimitBucket
+   * const rateLimitBucket = await prisma.rateLimitBucket.upsert({
+   *   create: {
+   *     // ... data to create a RateLimitBucket
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the RateLimitBucket we want to update
+   *   }
+   * })
+   */
+  upsert<T extends RateLimitBucketUpsertArgs>(args: Prisma.SelectSubset<T, RateLimitBucketUpsertArgs<ExtArgs>>): Prisma.Prisma__RateLimitBucketClient<runtime.Types.Result.GetResult<Prisma.$RateLimitBucketPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of RateLimitBuckets.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RateLimitBucketCountArgs} args - Arguments to filter RateLimitBuckets to count.
+   * @example
+   * // Count the number of RateLimitBuckets
+   * const count = await prisma.rateLimitBucket.count({
+   *   where: {
+   *     // ... the filter for the RateLimitBuckets we want to count
+   *   }
+   * })
+  **/
+  count<T extends RateLimitBucketCountArgs>(
+    args?: Prisma.Subset<T, RateLimitBucketCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], RateLimitBucketCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a RateLimitBucket.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RateLimitBucketAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends RateLimitBucketAggregateArgs>(args: Prisma.Subset<T, RateLimitBucketAggregateArgs>): Prisma.PrismaPromise<GetRateLimitBucketAggregateType<T>>
+
+  /**
+   * Group by RateLimitBucket.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RateLimitBucketGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends RateLimitBucketGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: RateLimitBucketGroupByArgs['orderBy'] }
+      : { orderBy?: RateLimitBucketGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, RateLimitBucketGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetRateLimitBucketGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the RateLimitBucket model
+ */
+readonly fields: RateLimitBucketFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for RateLimitBucket.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__RateLimitBucketClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the RateLimitBucket model
+ */
+export interface RateLimitBucketFieldRefs {
+  readonly token: Prisma.FieldRef<"RateLimitBucket", 'String'>
+  readonly count: Prisma.FieldRef<"RateLimitBucket", 'Int'>
+  readonly resetAt: Prisma.FieldRef<"RateLimitBucket", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * RateLimitBucket findUnique
+ */
+export type RateLimitBucketFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateLimitBucket
+   */
+  select?: Prisma.RateLimitBucketSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateLimitBucket
+   */
+  omit?: Prisma.RateLimitBucketOmit<ExtArgs> | null
+  /**
+   * Filter, which RateLimitBucket to fetch.
+   */
+  where: Prisma.RateLimitBucketWhereUniqueInput
+}
+
+/**
+ * RateLimitBucket findUniqueOrThrow
+ */
+export type RateLimitBucketFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateLimitBucket
+   */
+  select?: Prisma.RateLimitBucketSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateLimitBucket
+   */
+  omit?: Prisma.RateLimitBucketOmit<ExtArgs> | null
+  /**
+   * Filter, which RateLimitBucket to fetch.
+   */
+  where: Prisma.RateLimitBucketWhereUniqueInput
+}
+
+/**
+ * RateLimitBucket findFirst
+ */
+export type RateLimitBucketFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateLimitBucket
+   */
+  select?: Prisma.RateLimitBucketSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateLimitBucket
+   */
+  omit?: Prisma.RateLimitBucketOmit<ExtArgs> | null
+  /**
+   * Filter, which RateLimitBucket to fetch.
+   */
+  where?: Prisma.RateLimitBucketWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RateLimitBuckets to fetch.
+   */
+  orderBy?: Prisma.RateLimitBucketOrderByWithRelationInput | Prisma.RateLimitBucketOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for RateLimitBuckets.
+   */
+  cursor?: Prisma.RateLimitBucketWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RateLimitBuckets from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RateLimitBuckets.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of RateLimitBuckets.
+   */
+  distinct?: Prisma.RateLimitBucketScalarFieldEnum | Prisma.RateLimitBucketScalarFieldEnum[]
+}
+
+/**
+ * RateLimitBucket findFirstOrThrow
+ */
+export type RateLimitBucketFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateLimitBucket
+   */
+  select?: Prisma.RateLimitBucketSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateLimitBucket
+   */
+  omit?: Prisma.RateLimitBucketOmit<ExtArgs> | null
+  /**
+   * Filter, which RateLimitBucket to fetch.
+   */
+  where?: Prisma.RateLimitBucketWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RateLimitBuckets to fetch.
+   */
+  orderBy?: Prisma.RateLimitBucketOrderByWithRelationInput | Prisma.RateLimitBucketOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for RateLimitBuckets.
+   */
+  cursor?: Prisma.RateLimitBucketWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RateLimitBuckets from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RateLimitBuckets.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of RateLimitBuckets.
+   */
+  distinct?: Prisma.RateLimitBucketScalarFieldEnum | Prisma.RateLimitBucketScalarFieldEnum[]
+}
+
+/**
+ * RateLimitBucket findMany
+ */
+export type RateLimitBucketFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateLimitBucket
+   */
+  select?: Prisma.RateLimitBucketSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateLimitBucket
+   */
+  omit?: Prisma.RateLimitBucketOmit<ExtArgs> | null
+  /**
+   * Filter, which RateLimitBuckets to fetch.
+   */
+  where?: Prisma.RateLimitBucketWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RateLimitBuckets to fetch.
+   */
+  orderBy?: Prisma.RateLimitBucketOrderByWithRelationInput | Prisma.RateLimitBucketOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing RateLimitBuckets.
+   */
+  cursor?: Prisma.RateLimitBucketWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RateLimitBuckets from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RateLimitBuckets.
+   */
+  skip?: number
+  distinct?: Prisma.RateLimitBucketScalarFieldEnum | Prisma.RateLimitBucketScalarFieldEnum[]
+}
+
+/**
+ * RateLimitBucket create
+ */
+export type RateLimitBucketCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateLimitBucket
+   */
+  select?: Prisma.RateLimitBucketSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateLimitBucket
+   */
+  omit?: Prisma.RateLimitBucketOmit<ExtArgs> | null
+  /**
+   * The data needed to create a RateLimitBucket.
+   */
+  data: Prisma.XOR<Prisma.RateLimitBucketCreateInput, Prisma.RateLimitBucketUncheckedCreateInput>
+}
+
+/**
+ * RateLimitBucket createMany
+ */
+export type RateLimitBucketCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many RateLimitBuckets.
+   */
+  data: Prisma.RateLimitBucketCreateManyInput | Prisma.RateLimitBucketCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * RateLimitBucket createManyAndReturn
+ */
+export type RateLimitBucketCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateLimitBucket
+   */
+  select?: Prisma.RateLimitBucketSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateLimitBucket
+   */
+  omit?: Prisma.RateLimitBucketOmit<ExtArgs> | null
+  /**
+   * The data used to create many RateLimitBuckets.
+   */
+  data: Prisma.RateLimitBucketCreateManyInput | Prisma.RateLimitBucketCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * RateLimitBucket update
+ */
+export type RateLimitBucketUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateLimitBucket
+   */
+  select?: Prisma.RateLimitBucketSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateLimitBucket
+   */
+  omit?: Prisma.RateLimitBucketOmit<ExtArgs> | null
+  /**
+   * The data needed to update a RateLimitBucket.
+   */
+  data: Prisma.XOR<Prisma.RateLimitBucketUpdateInput, Prisma.RateLimitBucketUncheckedUpdateInput>
+  /**
+   * Choose, which RateLimitBucket to update.
+   */
+  where: Prisma.RateLimitBucketWhereUniqueInput
+}
+
+/**
+ * RateLimitBucket updateMany
+ */
+export type RateLimitBucketUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update RateLimitBuckets.
+   */
+  data: Prisma.XOR<Prisma.RateLimitBucketUpdateManyMutationInput, Prisma.RateLimitBucketUncheckedUpdateManyInput>
+  /**
+   * Filter which RateLimitBuckets to update
+   */
+  where?: Prisma.RateLimitBucketWhereInput
+  /**
+   * Limit how many RateLimitBuckets to update.
+   */
+  limit?: number
+}
+
+/**
+ * RateLimitBucket updateManyAndReturn
+ */
+export type RateLimitBucketUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateLimitBucket
+   */
+  select?: Prisma.RateLimitBucketSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateLimitBucket
+   */
+  omit?: Prisma.RateLimitBucketOmit<ExtArgs> | null
+  /**
+   * The data used to update RateLimitBuckets.
+   */
+  data: Prisma.XOR<Prisma.RateLimitBucketUpdateManyMutationInput, Prisma.RateLimitBucketUncheckedUpdateManyInput>
+  /**
+   * Filter which RateLimitBuckets to update
+   */
+  where?: Prisma.RateLimitBucketWhereInput
+  /**
+   * Limit how many RateLimitBuckets to update.
+   */
+  limit?: number
+}
+
+/**
+ * RateLimitBucket upsert
+ */
+export type RateLimitBucketUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateLimitBucket
+   */
+  select?: Prisma.RateLimitBucketSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateLimitBucket
+   */
+  omit?: Prisma.RateLimitBucketOmit<ExtArgs> | null
+  /**
+   * The filter to search for the RateLimitBucket to update in case it exists.
+   */
+  where: Prisma.RateLimitBucketWhereUniqueInput
+  /**
+   * In case the RateLimitBucket found by the `where` argument doesn't exist, create a new RateLimitBucket with this data.
+   */
+  create: Prisma.XOR<Prisma.RateLimitBucketCreateInput, Prisma.RateLimitBucketUncheckedCreateInput>
+  /**
+   * In case the RateLimitBucket was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.RateLimitBucketUpdateInput, Prisma.RateLimitBucketUncheckedUpdateInput>
+}
+
+/**
+ * RateLimitBucket delete
+ */
+export type RateLimitBucketDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateLimitBucket
+   */
+  select?: Prisma.RateLimitBucketSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateLimitBucket
+   */
+  omit?: Prisma.RateLimitBucketOmit<ExtArgs> | null
+  /**
+   * Filter which RateLimitBucket to delete.
+   */
+  where: Prisma.RateLimitBucketWhereUniqueInput
+}
+
+/**
+ * RateLimitBucket deleteMany
+ */
+export type RateLimitBucketDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which RateLimitBuckets to delete
+   */
+  where?: Prisma.RateLimitBucketWhereInput
+  /**
+   * Limit how many RateLimitBuckets to delete.
+   */
+  limit?: number
+}
+
+/**
+ * RateLimitBucket without action
+ */
+export type RateLimitBucketDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RateLimitBucket
+   */
+  select?: Prisma.RateLimitBucketSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RateLimitBucket
+   */
+  omit?: Prisma.RateLimitBucketOmit<ExtArgs> | null
+}
@@ -0,0 +1,1434 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `TwoFactorAuth` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model TwoFactorAuth
+ * TOTP two-factor authentication of a user. The row is created when enrollment starts
+ * and only protects sign-in once `enabledAt` is set.
+ */
+export type TwoFactorAuthModel = runtime.Types.Result.DefaultSelection<Prisma.$TwoFactorAuthPayload>
+
+export type AggregateTwoFactorAuth = {
+  _count: TwoFactorAuthCountAggregateOutputType | null
+  _avg: TwoFactorAuthAvgAggregateOutputType | null
+  _sum: TwoFactorAuthSumAggregateOutputType | null
+  _min: TwoFactorAuthMinAggregateOutputType | null
+  _max: TwoFactorAuthMaxAggregateOutputType | null
+}
+
+export type TwoFactorAuthAvgAggregateOutputType = {
+  lastUsedStep: number | null
+}
+
+export type TwoFactorAuthSumAggregateOutputType = {
+  lastUsedStep: number | null
+}
+
+export type TwoFactorAuthMinAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  secret: string | null
+  lastUsedStep: number | null
+  enabledAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type TwoFactorAuthMaxAggregateOutputType = {
+  id: string | null
+  userId: string | null
+  secret: string | null
+  lastUsedStep: number | null
+  enabledAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type TwoFactorAuthCountAggregateOutputType = {
+  id: number
+  userId: number
+  secret: number
+  recoveryCodes: number
+  lastUsedStep: number
+  enabledAt: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type TwoFactorAuthAvgAggregateInputType = {
+  lastUsedStep?: true
+}
+
+export type TwoFactorAuthSumAggregateInputType = {
+  lastUsedStep?: true
+}
+
+export type TwoFactorAuthMinAggregateInputType = {
+  id?: true
+  userId?: true
+  secret?: true
+  lastUsedStep?: true
+  enabledAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type TwoFactorAuthMaxAggregateInputType = {
+  id?: true
+  userId?: true
+  secret?: true
+  lastUsedStep?: true
+  enabledAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type TwoFactorAuthCountAggregateInputType = {
+  id?: true
+  userId?: true
+  secret?: true
+  recoveryCodes?: true
+  lastUsedStep?: true
+  enabledAt?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type TwoFactorAuthAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which TwoFactorAuth to aggregate.
+   */
+  where?: Prisma.TwoFactorAuthWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TwoFactorAuths to fetch.
+   */
+  orderBy?: Prisma.TwoFactorAuthOrderByWithRelationInput | Prisma.TwoFactorAuthOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.TwoFactorAuthWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TwoFactorAuths from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TwoFactorAuths.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned TwoFactorAuths
+  **/
+  _count?: true | TwoFactorAuthCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: TwoFactorAuthAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: TwoFactorAuthSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: TwoFactorAuthMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: TwoFactorAuthMaxAggregateInputType
+}
+
+export type GetTwoFactorAuthAggregateType<T extends TwoFactorAuthAggregateArgs> = {
+      [P in keyof T & keyof AggregateTwoFactorAuth]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateTwoFactorAuth[P]>
+    : Prisma.GetScalarType<T[P], AggregateTwoFactorAuth[P]>
+}
+
+
+
+
+export type TwoFactorAuthGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TwoFactorAuthWhereInput
+  orderBy?: Prisma.TwoFactorAuthOrderByWithAggregationInput | Prisma.TwoFactorAuthOrderByWithAggregationInput[]
+  by: Prisma.TwoFactorAuthScalarFieldEnum[] | Prisma.TwoFactorAuthScalarFieldEnum
+  having?: Prisma.TwoFactorAuthScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: TwoFactorAuthCountAggregateInputType | true
+  _avg?: TwoFactorAuthAvgAggregateInputType
+  _sum?: TwoFactorAuthSumAggregateInputType
+  _min?: TwoFactorAuthMinAggregateInputType
+  _max?: TwoFactorAuthMaxAggregateInputType
+}
+
+export type TwoFactorAuthGroupByOutputType = {
+  id: string
+  userId: string
+  secret: string
+  recoveryCodes: string[]
+  lastUsedStep: number | null
+  enabledAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+  _count: TwoFactorAuthCountAggregateOutputType | null
+  _avg: TwoFactorAuthAvgAggregateOutputType | null
+  _sum: TwoFactorAuthSumAggregateOutputType | null
+  _min: TwoFactorAuthMinAggregateOutputType | null
+  _max: TwoFactorAuthMaxAggregateOutputType | null
+}
+
+type GetTwoFactorAuthGroupByPayload<T extends TwoFactorAuthGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<TwoFactorAuthGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof TwoFactorAuthGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], TwoFactorAuthGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], TwoFactorAuthGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type TwoFactorAuthWhereInput = {
+  AND?: Prisma.TwoFactorAuthWhereInput | Prisma.TwoFactorAuthWhereInput[]
+  OR?: Prisma.TwoFactorAuthWhereInput[]
+  NOT?: Prisma.TwoFactorAuthWhereInput | Prisma.TwoFactorAuthWhereInput[]
+  id?: Prisma.StringFilter<"TwoFactorAuth"> | string
+  userId?: Prisma.StringFilter<"TwoFactorAuth"> | string
+  secret?: Prisma.StringFilter<"TwoFactorAuth"> | string
+  recoveryCodes?: Prisma.StringNullableListFilter<"TwoFactorAuth">
+  lastUsedStep?: Prisma.IntNullableFilter<"TwoFactorAuth"> | number | null
+  enabledAt?: Prisma.DateTimeNullableFilter<"TwoFactorAuth"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"TwoFactorAuth"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"TwoFactorAuth"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}
+
+export type TwoFactorAuthOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  secret?: Prisma.SortOrder
+  recoveryCodes?: Prisma.SortOrder
+  lastUsedStep?: Prisma.SortOrderInput | Prisma.SortOrder
+  enabledAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  user?: Prisma.UserOrderByWithRelationInput
+}
+
+export type TwoFactorAuthWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  userId?: string
+  AND?: Prisma.TwoFactorAuthWhereInput | Prisma.TwoFactorAuthWhereInput[]
+  OR?: Prisma.TwoFactorAuthWhereInput[]
+  NOT?: Prisma.TwoFactorAuthWhereInput | Prisma.TwoFactorAuthWhereInput[]
+  secret?: Prisma.StringFilter<"TwoFactorAuth"> | string
+  recoveryCodes?: Prisma.StringNullableListFilter<"TwoFactorAuth">
+  lastUsedStep?: Prisma.IntNullableFilter<"TwoFactorAuth"> | number | null
+  enabledAt?: Prisma.DateTimeNullableFilter<"TwoFactorAuth"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"TwoFactorAuth"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"TwoFactorAuth"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}, "id" | "userId">
+
+export type TwoFactorAuthOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  secret?: Prisma.SortOrder
+  recoveryCodes?: Prisma.SortOrder
+  lastUsedStep?: Prisma.SortOrderInput | Prisma.SortOrder
+  enabledAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.TwoFactorAuthCountOrderByAggregateInput
+  _avg?: Prisma.TwoFactorAuthAvgOrderByAggregateInput
+  _max?: Prisma.TwoFactorAuthMaxOrderByAggregateInput
+  _min?: Prisma.TwoFactorAuthMinOrderByAggregateInput
+  _sum?: Prisma.TwoFactorAuthSumOrderByAggregateInput
+}
+
+export type TwoFactorAuthScalarWhereWithAggregatesInput = {
+  AND?: Prisma.TwoFactorAuthScalarWhereWithAggregatesInput | Prisma.TwoFactorAuthScalarWhereWithAggregatesInput[]
+  OR?: Prisma.TwoFactorAuthScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.TwoFactorAuthScalarWhereWithAggregatesInput | Prisma.TwoFactorAuthScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"TwoFactorAuth"> | string
+  userId?: Prisma.StringWithAggregatesFilter<"TwoFactorAuth"> | string
+  secret?: Prisma.StringWithAggregatesFilter<"TwoFactorAuth"> | string
+  recoveryCodes?: Prisma.StringNullableListFilter<"TwoFactorAuth">
+  lastUsedStep?: Prisma.IntNullableWithAggregatesFilter<"TwoFactorAuth"> | number | null
+  enabledAt?: Prisma.DateTimeNullableWithAggregatesFilter<"TwoFactorAuth"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"TwoFactorAuth"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"TwoFactorAuth"> | Date | string
+}
+
+export type TwoFactorAuthCreateInput = {
+  id?: string
+  secret: string
+  recoveryCodes?: Prisma.TwoFactorAuthCreaterecoveryCodesInput | string[]
+  lastUsedStep?: number | null
+  enabledAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutTwoFactorAuthInput
+}
+
+export type TwoFactorAuthUncheckedCreateInput = {
+  id?: string
+  userId: string
+  secret: string
+  recoveryCodes?: Prisma.TwoFactorAuthCreaterecoveryCodesInput | string[]
+  lastUsedStep?: number | null
+  enabledAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TwoFactorAuthUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  secret?: Prisma.StringFieldUpdateOperationsInput | string
+  recoveryCodes?: Prisma.TwoFactorAuthUpdaterecoveryCodesInput | string[]
+  lastUsedStep?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  enabledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutTwoFactorAuthNestedInput
+}
+
+export type TwoFactorAuthUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  secret?: Prisma.StringFieldUpdateOperationsInput | string
+  recoveryCodes?: Prisma.TwoFactorAuthUpdaterecoveryCodesInput | string[]
+  lastUsedStep?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  enabledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TwoFactorAuthCreateManyInput = {
+  id?: string
+  userId: string
+  secret: string
+  recoveryCodes?: Prisma.TwoFactorAuthCreaterecoveryCodesInput | string[]
+  lastUsedStep?: number | null
+  enabledAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TwoFactorAuthUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  secret?: Prisma.StringFieldUpdateOperationsInput | string
+  recoveryCodes?: Prisma.TwoFactorAuthUpdaterecoveryCodesInput | string[]
+  lastUsedStep?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  enabledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TwoFactorAuthUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  secret?: Prisma.StringFieldUpdateOperationsInput | string
+  recoveryCodes?: Prisma.TwoFactorAuthUpdaterecoveryCodesInput | string[]
+  lastUsedStep?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  enabledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TwoFactorAuthNullableScalarRelationFilter = {
+  is?: Prisma.TwoFactorAuthWhereInput | null
+  isNot?: Prisma.TwoFactorAuthWhereInput | null
+}
+
+export type TwoFactorAuthCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  secret?: Prisma.SortOrder
+  recoveryCodes?: Prisma.SortOrder
+  lastUsedStep?: Prisma.SortOrder
+  enabledAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type TwoFactorAuthAvgOrderByAggregateInput = {
+  lastUsedStep?: Prisma.SortOrder
+}
+
+export type TwoFactorAuthMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  secret?: Prisma.SortOrder
+  lastUsedStep?: Prisma.SortOrder
+  enabledAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type TwoFactorAuthMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  secret?: Prisma.SortOrder
+  lastUsedStep?: Prisma.SortOrder
+  enabledAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type TwoFactorAuthSumOrderByAggregateInput = {
+  lastUsedStep?: Prisma.SortOrder
+}
+
+export type TwoFactorAuthCreateNestedOneWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.TwoFactorAuthCreateWithoutUserInput, Prisma.TwoFactorAuthUncheckedCreateWithoutUserInput>
+  connectOrCreate?: Prisma.TwoFactorAuthCreateOrConnectWithoutUserInput
+  connect?: Prisma.TwoFactorAuthWhereUniqueInput
+}
+
+export type TwoFactorAuthUncheckedCreateNestedOneWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.TwoFactorAuthCreateWithoutUserInput, Prisma.TwoFactorAuthUncheckedCreateWithoutUserInput>
+  connectOrCreate?: Prisma.TwoFactorAuthCreateOrConnectWithoutUserInput
+  connect?: Prisma.TwoFactorAuthWhereUniqueInput
+}
+
+export type TwoFactorAuthUpdateOneWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.TwoFactorAuthCreateWithoutUserInput, Prisma.TwoFactorAuthUncheckedCreateWithoutUserInput>
+  connectOrCreate?: Prisma.TwoFactorAuthCreateOrConnectWithoutUserInput
+  upsert?: Prisma.TwoFactorAuthUpsertWithoutUserInput
+  disconnect?: Prisma.TwoFactorAuthWhereInput | boolean
+  delete?: Prisma.TwoFactorAuthWhereInput | boolean
+  connect?: Prisma.TwoFactorAuthWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TwoFactorAuthUpdateToOneWithWhereWithoutUserInput, Prisma.TwoFactorAuthUpdateWithoutUserInput>, Prisma.TwoFactorAuthUncheckedUpdateWithoutUserInput>
+}
+
+export type TwoFactorAuthUncheckedUpdateOneWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.TwoFactorAuthCreateWithoutUserInput, Prisma.TwoFactorAuthUncheckedCreateWithoutUserInput>
+  connectOrCreate?: Prisma.TwoFactorAuthCreateOrConnectWithoutUserInput
+  upsert?: Prisma.TwoFactorAuthUpsertWithoutUserInput
+  disconnect?: Prisma.TwoFactorAuthWhereInput | boolean
+  delete?: Prisma.TwoFactorAuthWhereInput | boolean
+  connect?: Prisma.TwoFactorAuthWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TwoFactorAuthUpdateToOneWithWhereWithoutUserInput, Prisma.TwoFactorAuthUpdateWithoutUserInput>, Prisma.TwoFactorAuthUncheckedUpdateWithoutUserInput>
+}
+
+export type TwoFactorAuthCreaterecoveryCodesInput = {
+  set: string[]
+}
+
+export type TwoFactorAuthUpdaterecoveryCodesInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type TwoFactorAuthCreateWithoutUserInput = {
+  id?: string
+  secret: string
+  recoveryCodes?: Prisma.TwoFactorAuthCreaterecoveryCodesInput | string[]
+  lastUsedStep?: number | null
+  enabledAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TwoFactorAuthUncheckedCreateWithoutUserInput = {
+  id?: string
+  secret: string
+  recoveryCodes?: Prisma.TwoFactorAuthCreaterecoveryCodesInput | string[]
+  lastUsedStep?: number | null
+  enabledAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TwoFactorAuthCreateOrConnectWithoutUserInput = {
+  where: Prisma.TwoFactorAuthWhereUniqueInput
+  create: Prisma.XOR<Prisma.TwoFactorAuthCreateWithoutUserInput, Prisma.TwoFactorAuthUncheckedCreateWithoutUserInput>
+}
+
+export type TwoFactorAuthUpsertWithoutUserInput = {
+  update: Prisma.XOR<Prisma.TwoFactorAuthUpdateWithoutUserInput, Prisma.TwoFactorAuthUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.TwoFactorAuthCreateWithoutUserInput, Prisma.TwoFactorAuthUncheckedCreateWithoutUserInput>
+  where?: Prisma.TwoFactorAuthWhereInput
+}
+
+export type TwoFactorAuthUpdateToOneWithWhereWithoutUserInput = {
+  where?: Prisma.TwoFactorAuthWhereInput
+  data: Prisma.XOR<Prisma.TwoFactorAuthUpdateWithoutUserInput, Prisma.TwoFactorAuthUncheckedUpdateWithoutUserInput>
+}
+
+export type TwoFactorAuthUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  secret?: Prisma.StringFieldUpdateOperationsInput | string
+  recoveryCodes?: Prisma.TwoFactorAuthUpdaterecoveryCodesInput | string[]
+  lastUsedStep?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  enabledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TwoFactorAuthUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  secret?: Prisma.StringFieldUpdateOperationsInput | string
+  recoveryCodes?: Prisma.TwoFactorAuthUpdaterecoveryCodesInput | string[]
+  lastUsedStep?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  enabledAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type TwoFactorAuthSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  secret?: boolean
+  recoveryCodes?: boolean
+  lastUsedStep?: boolean
+  enabledAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["twoFactorAuth"]>
+
+export type TwoFactorAuthSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  secret?: boolean
+  recoveryCodes?: boolean
+  lastUsedStep?: boolean
+  enabledAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["twoFactorAuth"]>
+
+export type TwoFactorAuthSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  userId?: boolean
+  secret?: boolean
+  recoveryCodes?: boolean
+  lastUsedStep?: boolean
+  enabledAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["twoFactorAuth"]>
+
+export type TwoFactorAuthSelectScalar = {
+  id?: boolean
+  userId?: boolean
+  secret?: boolean
+  recoveryCodes?: boolean
+  lastUsedStep?: boolean
+  enabledAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type TwoFactorAuthOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "userId" | "secret" | "recoveryCodes" | "lastUsedStep" | "enabledAt" | "createdAt" | "updatedAt", ExtArgs["result"]["twoFactorAuth"]>
+export type TwoFactorAuthInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type TwoFactorAuthIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type TwoFactorAuthIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $TwoFactorAuthPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "TwoFactorAuth"
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    userId: string
+    secret: string
+    recoveryCodes: string[]
+    lastUsedStep: number | null
+    enabledAt: Date | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["twoFactorAuth"]>
+  composites: {}
+}
+
+export type TwoFactorAuthGetPayload<S extends boolean | null | undefined | TwoFactorAuthDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$TwoFactorAuthPayload, S>
+
+export type TwoFactorAuthCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<TwoFactorAuthFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: TwoFactorAuthCountAggregateInputType | true
+  }
+
+export interface TwoFactorAuthDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['TwoFactorAuth'], meta: { name: 'TwoFactorAuth' } }
+  /**
+   * Find zero or one TwoFactorAuth that matches the filter.
+   * @param {TwoFactorAuthFindUniqueArgs} args - Arguments to find a TwoFactorAuth
+   * @example
+   * // Get one TwoFactorAuth
+   * const twoFactorAuth = await prisma.twoFactorAuth.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends TwoFactorAuthFindUniqueArgs>(args: Prisma.SelectSubset<T, TwoFactorAuthFindUniqueArgs<ExtArgs>>): Prisma.Prisma__TwoFactorAuthClient<runtime.Types.Result.GetResult<Prisma.$TwoFactorAuthPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one TwoFactorAuth that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {TwoFactorAuthFindUniqueOrThrowArgs} args - Arguments to find a TwoFactorAuth
+   * @example
+   * // Get one TwoFactorAuth
+   * const twoFactorAuth = await prisma.twoFactorAuth.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends TwoFactorAuthFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, TwoFactorAuthFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__TwoFactorAuthClient<runtime.Types.Result.GetResult<Prisma.$TwoFactorAuthPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first TwoFactorAuth that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TwoFactorAuthFindFirstArgs} args - Arguments to find a TwoFactorAuth
+   * @example
+   * // Get one TwoFactorAuth
+   * const twoFactorAuth = await prisma.twoFactorAuth.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends TwoFactorAuthFindFirstArgs>(args?: Prisma.SelectSubset<T, TwoFactorAuthFindFirstArgs<ExtArgs>>): Prisma.Prisma__TwoFactorAuthClient<runtime.Types.Result.GetResult<Prisma.$TwoFactorAuthPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first TwoFactorAuth that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TwoFactorAuthFindFirstOrThrowArgs} args - Arguments to find a TwoFactorAuth
+   * @example
+   * // Get one TwoFactorAuth
+   * const twoFactorAuth = await prisma.twoFactorAuth.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends TwoFactorAuthFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, TwoFactorAuthFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__TwoFactorAuthClient<runtime.Types.Result.GetResult<Prisma.$TwoFactorAuthPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more TwoFactorAuths that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TwoFactorAuthFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all TwoFactorAuths
+   * const twoFactorAuths = await prisma.twoFactorAuth.findMany()
+   * 
+   * // Get first 10 TwoFactorAuths
+   * const twoFactorAuths = await prisma.twoFactorAuth.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const twoFactorAuthWithIdOnly = await prisma.twoFactorAuth.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends TwoFactorAuthFindManyArgs>(args?: Prisma.SelectSubset<T, TwoFactorAuthFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TwoFactorAuthPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a TwoFactorAuth.
+   * @param {TwoFactorAuthCreateArgs} args - Arguments to create a TwoFactorAuth.
+   * @example
+   * // Create one TwoFactorAuth
+   * const TwoFactorAuth = await prisma.twoFactorAuth.create({
+   *   data: {
+   *     // ... data to create a TwoFactorAuth
+   *   }
+   * })
+   * 
+   */
+  create<T extends TwoFactorAuthCreateArgs>(args: Prisma.SelectSubset<T, TwoFactorAuthCreateArgs<ExtArgs>>): Prisma.Prisma__TwoFactorAuthClient<runtime.Types.Result.GetResult<Prisma.$TwoFactorAuthPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many TwoFactorAuths.
+   * @param {TwoFactorAuthCreateManyArgs} args - Arguments to create many TwoFactorAuths.
+   * @example
+   * // Create many TwoFactorAuths
+   * const twoFactorAuth = await prisma.twoFactorAuth.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends TwoFactorAuthCreateManyArgs>(args?: Prisma.SelectSubset<T, TwoFactorAuthCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many TwoFactorAuths and returns the data saved in the database.
+   * @param {TwoFactorAuthCreateManyAndReturnArgs} args - Arguments to create many TwoFactorAuths.
+   * @example
+   * // Create many TwoFactorAuths
+   * const twoFactorAuth = await prisma.twoFactorAuth.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many TwoFactorAuths and only return the `id`
+   * const twoFactorAuthWithIdOnly = await prisma.twoFactorAuth.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends TwoFactorAuthCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, TwoFactorAuthCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TwoFactorAuthPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a TwoFactorAuth.
+   * @param {TwoFactorAuthDeleteArgs} args - Arguments to delete one TwoFactorAuth.
+   * @example
+   * // Delete one TwoFactorAuth
+   * const TwoFactorAuth = await prisma.twoFactorAuth.delete({
+   *   where: {
+   *     // ... filter to delete one TwoFactorAuth
+   *   }
+   * })
+   * 
+   */
+  delete<T extends TwoFactorAuthDeleteArgs>(args: Prisma.SelectSubset<T, TwoFactorAuthDeleteArgs<ExtArgs>>): Prisma.Prisma__TwoFactorAuthClient<runtime.Types.Result.GetResult<Prisma.$TwoFactorAuthPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one TwoFactorAuth.
+   * @param {TwoFactorAuthUpdateArgs} args - Arguments to update one TwoFactorAuth.
+   * @example
+   * // Update one TwoFactorAuth
+   * const twoFactorAuth = await prisma.twoFactorAuth.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends TwoFactorAuthUpdateArgs>(args: Prisma.SelectSubset<T, TwoFactorAuthUpdateArgs<ExtArgs>>): Prisma.Prisma__TwoFactorAuthClient<runtime.Types.Result.GetResult<Prisma.$TwoFactorAuthPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more TwoFactorAuths.
+   * @param {TwoFactorAuthDeleteManyArgs} args - Arguments to filter TwoFactorAuths to delete.
+   * @example
+   * // Delete a few TwoFactorAuths
+   * const { count } = await prisma.twoFactorAuth.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends TwoFactorAuthDeleteManyArgs>(args?: Prisma.SelectSubset<T, TwoFactorAuthDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more TwoFactorAuths.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TwoFactorAuthUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many TwoFactorAuths
+   * const twoFactorAuth = await prisma.twoFactorAuth.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends TwoFactorAuthUpdateManyArgs>(args: Prisma.SelectSubset<T, TwoFactorAuthUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more TwoFactorAuths and returns the data updated in the database.
+   * @param {TwoFactorAuthUpdateManyAndReturnArgs} args - Arguments to update many TwoFactorAuths.
+   * @example
+   * // Update many TwoFactorAuths
+   * const twoFactorAuth = await prisma.twoFactorAuth.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more TwoFactorAuths and only return the `id`
+   * const twoFactorAuthWithIdOnly = await prisma.twoFactorAuth.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends TwoFactorAuthUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, TwoFactorAuthUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TwoFactorAuthPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one TwoFactorAuth.
+   * @param {TwoFactorAuthUpsertArgs} args - Arguments to update or create a TwoFactorAuth.
+   * @example
+   * // Update or create a TwoFactorAuth
+   * const twoFactorAuth = await prisma.twoFactorAuth.upsert({
+   *   create: {
+   *     // ... data to create a TwoFactorAuth
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the TwoFactorAuth we want to update
+   *   }
+   * })
+   */
+  upsert<T extends TwoFactorAuthUpsertArgs>(args: Prisma.SelectSubset<T, TwoFactorAuthUpsertArgs<ExtArgs>>): Prisma.Prisma__TwoFactorAuthClient<runtime.Types.Result.GetResult<Prisma.$TwoFactorAuthPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of TwoFactorAuths.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TwoFactorAuthCountArgs} args - Arguments to filter TwoFactorAuths to count.
+   * @example
+   * // Count the number of TwoFactorAuths
+   * const count = await prisma.twoFactorAuth.count({
+   *   where: {
+   *     // ... the filter for the TwoFactorAuths we want to count
+   *   }
+   * })
+  **/
+  count<T extends TwoFactorAuthCountArgs>(
+    args?: Prisma.Subset<T, TwoFactorAuthCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], TwoFactorAuthCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a TwoFactorAuth.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TwoFactorAuthAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends TwoFactorAuthAggregateArgs>(args: Prisma.Subset<T, TwoFactorAuthAggregateArgs>): Prisma.PrismaPromise<GetTwoFactorAuthAggregateType<T>>
+
+  /**
+   * Group by TwoFactorAuth.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TwoFactorAuthGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends TwoFactorAuthGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: TwoFactorAuthGroupByArgs['orderBy'] }
+      : { orderBy?: TwoFactorAuthGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, TwoFactorAuthGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetTwoFactorAuthGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the TwoFactorAuth model
+ */
+readonly fields: TwoFactorAuthFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for TwoFactorAuth.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__TwoFactorAuthClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the TwoFactorAuth model
+ */
+export interface TwoFactorAuthFieldRefs {
+  readonly id: Prisma.FieldRef<"TwoFactorAuth", 'String'>
+  readonly userId: Prisma.FieldRef<"TwoFactorAuth", 'String'>
+  readonly secret: Prisma.FieldRef<"TwoFactorAuth", 'String'>
+  readonly recoveryCodes: Prisma.FieldRef<"TwoFactorAuth", 'String[]'>
+  readonly lastUsedStep: Prisma.FieldRef<"TwoFactorAuth", 'Int'>
+  readonly enabledAt: Prisma.FieldRef<"TwoFactorAuth", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"TwoFactorAuth", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"TwoFactorAuth", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * TwoFactorAuth findUnique
+ */
+export type TwoFactorAuthFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TwoFactorAuth
+   */
+  select?: Prisma.TwoFactorAuthSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TwoFactorAuth
+   */
+  omit?: Prisma.TwoFactorAuthOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TwoFactorAuthInclude<ExtArgs> | null
+  /**
+   * Filter, which TwoFactorAuth to fetch.
+   */
+  where: Prisma.TwoFactorAuthWhereUniqueInput
+}
+
+/**
+ * TwoFactorAuth findUniqueOrThrow
+ */
+export type TwoFactorAuthFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TwoFactorAuth
+   */
+  select?: Prisma.TwoFactorAuthSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TwoFactorAuth
+   */
+  omit?: Prisma.TwoFactorAuthOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TwoFactorAuthInclude<ExtArgs> | null
+  /**
+   * Filter, which TwoFactorAuth to fetch.
+   */
+  where: Prisma.TwoFactorAuthWhereUniqueInput
+}
+
+/**
+ * TwoFactorAuth findFirst
+ */
+export type TwoFactorAuthFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TwoFactorAuth
+   */
+  select?: Prisma.TwoFactorAuthSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TwoFactorAuth
+   */
+  omit?: Prisma.TwoFactorAuthOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TwoFactorAuthInclude<ExtArgs> | null
+  /**
+   * Filter, which TwoFactorAuth to fetch.
+   */
+  where?: Prisma.TwoFactorAuthWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TwoFactorAuths to fetch.
+   */
+  orderBy?: Prisma.TwoFactorAuthOrderByWithRelationInput | Prisma.TwoFactorAuthOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for TwoFactorAuths.
+   */
+  cursor?: Prisma.TwoFactorAuthWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TwoFactorAuths from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TwoFactorAuths.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of TwoFactorAuths.
+   */
+  distinct?: Prisma.TwoFactorAuthScalarFieldEnum | Prisma.TwoFactorAuthScalarFieldEnum[]
+}
+
+/**
+ * TwoFactorAuth findFirstOrThrow
+ */
+export type TwoFactorAuthFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TwoFactorAuth
+   */
+  select?: Prisma.TwoFactorAuthSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TwoFactorAuth
+   */
+  omit?: Prisma.TwoFactorAuthOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TwoFactorAuthInclude<ExtArgs> | null
+  /**
+   * Filter, which TwoFactorAuth to fetch.
+   */
+  where?: Prisma.TwoFactorAuthWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TwoFactorAuths to fetch.
+   */
+  orderBy?: Prisma.TwoFactorAuthOrderByWithRelationInput | Prisma.TwoFactorAuthOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for TwoFactorAuths.
+   */
+  cursor?: Prisma.TwoFactorAuthWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TwoFactorAuths from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TwoFactorAuths.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of TwoFactorAuths.
+   */
+  distinct?: Prisma.TwoFactorAuthScalarFieldEnum | Prisma.TwoFactorAuthScalarFieldEnum[]
+}
+
+/**
+ * TwoFactorAuth findMany
+ */
+export type TwoFactorAuthFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TwoFactorAuth
+   */
+  select?: Prisma.TwoFactorAuthSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TwoFactorAuth
+   */
+  omit?: Prisma.TwoFactorAuthOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TwoFactorAuthInclude<ExtArgs> | null
+  /**
+   * Filter, which TwoFactorAuths to fetch.
+   */
+  where?: Prisma.TwoFactorAuthWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TwoFactorAuths to fetch.
+   */
+  orderBy?: Prisma.TwoFactorAuthOrderByWithRelationInput | Prisma.TwoFactorAuthOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing TwoFactorAuths.
+   */
+  cursor?: Prisma.TwoFactorAuthWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TwoFactorAuths from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TwoFactorAuths.
+   */
+  skip?: number
+  distinct?: Prisma.TwoFactorAuthScalarFieldEnum | Prisma.TwoFactorAuthScalarFieldEnum[]
+}
+
+/**
+ * TwoFactorAuth create
+ */
+export type TwoFactorAuthCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TwoFactorAuth
+   */
+  select?: Prisma.TwoFactorAuthSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TwoFactorAuth
+   */
+  omit?: Prisma.TwoFactorAuthOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TwoFactorAuthInclude<ExtArgs> | null
+  /**
+   * The data needed to create a TwoFactorAuth.
+   */
+  data: Prisma.XOR<Prisma.TwoFactorAuthCreateInput, Prisma.TwoFactorAuthUncheckedCreateInput>
+}
+
+/**
+ * TwoFactorAuth createMany
+ */
+export type TwoFactorAuthCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many TwoFactorAuths.
+   */
+  data: Prisma.TwoFactorAuthCreateManyInput | Prisma.TwoFactorAuthCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * TwoFactorAuth createManyAndReturn
+ */
+export type TwoFactorAuthCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TwoFactorAuth
+   */
+  select?: Prisma.TwoFactorAuthSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the TwoFactorAuth
+   */
+  omit?: Prisma.TwoFactorAuthOmit<ExtArgs> | null
+  /**
+   * The data used to create many TwoFactorAuths.
+   */
+  data: Prisma.TwoFactorAuthCreateManyInput | Prisma.TwoFactorAuthCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TwoFactorAuthIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * TwoFactorAuth update
+ */
+export type TwoFactorAuthUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TwoFactorAuth
+   */
+  select?: Prisma.TwoFactorAuthSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TwoFactorAuth
+   */
+  omit?: Prisma.TwoFactorAuthOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TwoFactorAuthInclude<ExtArgs> | null
+  /**
+   * The data needed to update a TwoFactorAuth.
+   */
+  data: Prisma.XOR<Prisma.TwoFactorAuthUpdateInput, Prisma.TwoFactorAuthUncheckedUpdateInput>
+  /**
+   * Choose, which TwoFactorAuth to update.
+   */
+  where: Prisma.TwoFactorAuthWhereUniqueInput
+}
+
+/**
+ * TwoFactorAuth updateMany
+ */
+export type TwoFactorAuthUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update TwoFactorAuths.
+   */
+  data: Prisma.XOR<Prisma.TwoFactorAuthUpdateManyMutationInput, Prisma.TwoFactorAuthUncheckedUpdateManyInput>
+  /**
+   * Filter which TwoFactorAuths to update
+   */
+  where?: Prisma.TwoFactorAuthWhereInput
+  /**
+   * Limit how many TwoFactorAuths to update.
+   */
+  limit?: number
+}
+
+/**
+ * TwoFactorAuth updateManyAndReturn
+ */
+export type TwoFactorAuthUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TwoFactorAuth
+   */
+  select?: Prisma.TwoFactorAuthSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the TwoFactorAuth
+   */
+  omit?: Prisma.TwoFactorAuthOmit<ExtArgs> | null
+  /**
+   * The data used to update TwoFactorAuths.
+   */
+  data: Prisma.XOR<Prisma.TwoFactorAuthUpdateManyMutationInput, Prisma.TwoFactorAuthUncheckedUpdateManyInput>
+  /**
+   * Filter which TwoFactorAuths to update
+   */
+  where?: Prisma.TwoFactorAuthWhereInput
+  /**
+   * Limit how many TwoFactorAuths to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TwoFactorAuthIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * TwoFactorAuth upsert
+ */
+export type TwoFactorAuthUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TwoFactorAuth
+   */
+  select?: Prisma.TwoFactorAuthSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TwoFactorAuth
+   */
+  omit?: Prisma.TwoFactorAuthOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TwoFactorAuthInclude<ExtArgs> | null
+  /**
+   * The filter to search for the TwoFactorAuth to update in case it exists.
+   */
+  where: Prisma.TwoFactorAuthWhereUniqueInput
+  /**
+   * In case the TwoFactorAuth found by the `where` argument doesn't exist, create a new TwoFactorAuth with this data.
+   */
+  create: Prisma.XOR<Prisma.TwoFactorAuthCreateInput, Prisma.TwoFactorAuthUncheckedCreateInput>
+  /**
+   * In case the TwoFactorAuth was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.TwoFactorAuthUpdateInput, Prisma.TwoFactorAuthUncheckedUpdateInput>
+}
+
+/**
+ * TwoFactorAuth delete
+ */
+export type TwoFactorAuthDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TwoFactorAuth
+   */
+  select?: Prisma.TwoFactorAuthSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TwoFactorAuth
+   */
+  omit?: Prisma.TwoFactorAuthOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TwoFactorAuthInclude<ExtArgs> | null
+  /**
+   * Filter which TwoFactorAuth to delete.
+   */
+  where: Prisma.TwoFactorAuthWhereUniqueInput
+}
+
+/**
+ * TwoFactorAuth deleteMany
+ */
+export type TwoFactorAuthDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which TwoFactorAuths to delete
+   */
+  where?: Prisma.TwoFactorAuthWhereInput
+  /**
+   * Limit how many TwoFactorAuths to delete.
+   */
+  limit?: number
+}
+
+/**
+ * TwoFactorAuth without action
+ */
+export type TwoFactorAuthDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TwoFactorAuth
+   */
+  select?: Prisma.TwoFactorAuthSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TwoFactorAuth
+   */
+  omit?: Prisma.TwoFactorAuthOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TwoFactorAuthInclude<ExtArgs> | null
+}
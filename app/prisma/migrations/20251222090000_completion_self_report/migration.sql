@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "ProjectCompletionStatus" AS ENUM ('DRAFT', 'COORDINATOR_REVIEWED', 'ORGANIZATION_REVIEWED', 'PUBLISHED');
+
+-- AlterTable
+ALTER TABLE "project_completions" ADD COLUMN     "status" "ProjectCompletionStatus" NOT NULL DEFAULT 'DRAFT',
+ALTER COLUMN "coordinatorPerformanceRating" DROP NOT NULL,
+ALTER COLUMN "coordinatorWrittenEvaluation" DROP NOT NULL,
+ALTER COLUMN "organizationPerformanceRating" DROP NOT NULL,
+ALTER COLUMN "organizationWrittenEvaluation" DROP NOT NULL;
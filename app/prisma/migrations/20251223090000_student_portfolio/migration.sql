@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "students" ADD COLUMN     "isPortfolioPublic" BOOLEAN NOT NULL DEFAULT true;
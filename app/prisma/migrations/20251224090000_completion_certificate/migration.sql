@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "project_completions" ADD COLUMN     "verificationCode" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "project_completions_verificationCode_key" ON "project_completions"("verificationCode");
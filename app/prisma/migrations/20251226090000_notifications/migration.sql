@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "NotificationType" AS ENUM ('ORGANIZATION_APPROVED', 'NEW_ORGANIZATION_SIGNUP', 'APPLICATION_ACCEPTED', 'APPLICATION_REJECTED', 'PROJECT_ASSIGNED', 'PROJECT_APPROVED', 'PROJECT_CHANGES_REQUESTED', 'COORDINATOR_REVIEW_SUBMITTED', 'ORGANIZATION_REVIEW_SUBMITTED');
+
+-- CreateTable
+CREATE TABLE "notifications" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "NotificationType" NOT NULL,
+    "params" JSONB NOT NULL DEFAULT '{}',
+    "link" TEXT,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "notifications_userId_readAt_idx" ON "notifications"("userId", "readAt");
+
+-- CreateIndex
+CREATE INDEX "notifications_createdAt_idx" ON "notifications"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "NotificationDelivery" AS ENUM ('IMMEDIATE', 'DAILY_DIGEST', 'IN_APP_ONLY');
+
+-- AlterTable
+ALTER TABLE "notifications" ADD COLUMN     "pendingDigest" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "notification_preferences" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "NotificationType" NOT NULL,
+    "delivery" "NotificationDelivery" NOT NULL DEFAULT 'IMMEDIATE',
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_preferences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "notifications_pendingDigest_idx" ON "notifications"("pendingDigest");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notification_preferences_userId_type_key" ON "notification_preferences"("userId", "type");
+
+-- AddForeignKey
+ALTER TABLE "notification_preferences" ADD CONSTRAINT "notification_preferences_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
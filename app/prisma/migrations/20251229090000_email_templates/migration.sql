@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "EmailTemplateKey" AS ENUM ('VERIFICATION', 'WELCOME', 'PASSWORD_RESET', 'ACCOUNT_SUSPENDED', 'ORGANIZATION_APPROVED', 'ORGANIZATION_REJECTED', 'NEW_ORGANIZATION_SIGNUP', 'COORDINATOR_REVIEW_SUBMITTED', 'ORGANIZATION_REVIEW_SUBMITTED', 'APPLICATION_ACCEPTED', 'APPLICATION_REJECTED', 'PROJECT_ASSIGNED', 'PROJECT_APPROVED', 'PROJECT_CHANGES_REQUESTED');
+
+-- CreateTable
+CREATE TABLE "email_templates" (
+    "id" TEXT NOT NULL,
+    "key" "EmailTemplateKey" NOT NULL,
+    "locale" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "html" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "email_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_templates_key_locale_key" ON "email_templates"("key", "locale");
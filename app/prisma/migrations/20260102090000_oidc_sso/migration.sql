@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Config" ADD COLUMN     "oidcClientId" TEXT,
+ADD COLUMN     "oidcClientSecret" TEXT,
+ADD COLUMN     "oidcDisplayName" TEXT,
+ADD COLUMN     "oidcEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "oidcIssuer" TEXT;
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "oidcSubject" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_oidcSubject_key" ON "users"("oidcSubject");
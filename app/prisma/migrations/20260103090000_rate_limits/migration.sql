@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "Config" ADD COLUMN "rateLimits" JSONB;
+
+-- CreateTable
+CREATE TABLE "rate_limits" (
+    "token" TEXT NOT NULL,
+    "count" INTEGER NOT NULL,
+    "resetAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rate_limits_pkey" PRIMARY KEY ("token")
+);
+
+-- CreateIndex
+CREATE INDEX "rate_limits_resetAt_idx" ON "rate_limits"("resetAt");
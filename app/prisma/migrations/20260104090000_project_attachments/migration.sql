@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "project_attachments" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "projectCompletionId" TEXT,
+    "uploadedById" TEXT,
+    "fileName" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "project_attachments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "project_attachments_storageKey_key" ON "project_attachments"("storageKey");
+
+-- CreateIndex
+CREATE INDEX "project_attachments_projectId_idx" ON "project_attachments"("projectId");
+
+-- CreateIndex
+CREATE INDEX "project_attachments_projectCompletionId_idx" ON "project_attachments"("projectCompletionId");
+
+-- AddForeignKey
+ALTER TABLE "project_attachments" ADD CONSTRAINT "project_attachments_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "project_attachments" ADD CONSTRAINT "project_attachments_projectCompletionId_fkey" FOREIGN KEY ("projectCompletionId") REFERENCES "project_completions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "project_attachments" ADD CONSTRAINT "project_attachments_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "AuditAction" AS ENUM ('USER_SUSPENDED', 'USER_UNSUSPENDED', 'USER_DELETED', 'ORGANIZATION_VERIFIED', 'ORGANIZATION_REJECTED', 'PROJECT_UPDATED', 'PROJECT_STATUS_CHANGED', 'PROJECT_DELETED', 'PROJECT_COMPLETION_UPDATED', 'PROJECT_COMPLETION_STATUS_CHANGED', 'APPLICATION_ACCEPTED', 'APPLICATION_REJECTED', 'APPLICATION_WITHDRAWN', 'CONFIG_UPDATED');
+
+-- CreateEnum
+CREATE TYPE "AuditEntityType" AS ENUM ('USER', 'ORGANIZATION', 'PROJECT', 'PROJECT_COMPLETION', 'APPLICATION', 'CONFIG');
+
+-- CreateTable
+CREATE TABLE "audit_events" (
+    "id" TEXT NOT NULL,
+    "action" "AuditAction" NOT NULL,
+    "actorId" TEXT,
+    "actorName" TEXT,
+    "actorEmail" TEXT,
+    "entityType" "AuditEntityType" NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "entityLabel" TEXT,
+    "changes" JSONB,
+    "metadata" JSONB,
+    "ipAddress" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_events_actorId_idx" ON "audit_events"("actorId");
+
+-- CreateIndex
+CREATE INDEX "audit_events_entityType_entityId_idx" ON "audit_events"("entityType", "entityId");
+
+-- CreateIndex
+CREATE INDEX "audit_events_createdAt_idx" ON "audit_events"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "audit_events" ADD CONSTRAINT "audit_events_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'USER_RESTORED';
+ALTER TYPE "AuditAction" ADD VALUE 'PROJECT_RESTORED';
+
+-- AlterTable
+ALTER TABLE "Config" ADD COLUMN "trashRetentionDays" INTEGER NOT NULL DEFAULT 30;
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "users_deletedAt_idx" ON "users"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "organizations_deletedAt_idx" ON "organizations"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "projects_deletedAt_idx" ON "projects"("deletedAt");
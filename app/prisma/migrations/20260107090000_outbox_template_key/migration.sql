@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "email_outbox" ADD COLUMN "templateKey" "EmailTemplateKey";
+
+-- Mark queued emails carrying single-use links so they are not resent
+UPDATE "email_outbox" SET "templateKey" = 'VERIFICATION' WHERE "html" LIKE '%/verify-email?token=%';
+UPDATE "email_outbox" SET "templateKey" = 'PASSWORD_RESET' WHERE "html" LIKE '%/reset-password?token=%';
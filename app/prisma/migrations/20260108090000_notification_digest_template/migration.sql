@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "EmailTemplateKey" ADD VALUE 'NOTIFICATION_DIGEST';
@@ -34,6 +34,15 @@ const GUEST_ONLY_ROUTES = [
     '/reset-password'
 ]
 
+/**
+ * Routes that are publicly accessible regardless of authentication
+ * (e.g., student portfolios shared with recruiters, certificate verification).
+ */
+const PUBLIC_ROUTES = [
+    '/portfolio',
+    '/certificates/verify'
+]
+
 /**
  * Helper to strip locale from pathname for logic checks
  * e.g., /en/dashboard -> /dashboard
@@ -72,13 +81,18 @@ export async function proxy(request: NextRequest): Promise<NextResponse> {
         return NextResponse.redirect(new URL('/login', request.url))
     }
 
-    // Authentication & Authorization Guard
+    // Public Pages
     const pathWithoutLocale = getPathWithoutLocale(pathname)
+    if (PUBLIC_ROUTES.some(route => pathWithoutLocale === route || pathWithoutLocale.startsWith(route + '/'))) {
+        return handleI18n(request)
+    }
+
+    // Authentication & Authorization Guard
     const user = await checkSessionForProxy()
     const isAuthenticated = !!user
 
     // Protect Dashboard/Protected Routes
-    if (pathWithoutLocale.startsWith('/dashboard') || pathWithoutLocale.startsWith('/admin') || pathWithoutLocale.startsWith('/verify-email-pending')) {
+    if (pathWithoutLocale.startsWith('/dashboard') || pathWithoutLocale.startsWith('/admin') || pathWithoutLocale.startsWith('/verify-email-pending') || pathWithoutLocale.startsWith('/two-factor-setup')) {
 
         if (!isAuthenticated) {
             const loginUrl = new URL('/login', request.url)
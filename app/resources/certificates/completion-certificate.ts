@@ -0,0 +1,230 @@
+/** @format */
+import 'server-only'
+import {PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, rgb, RGB} from 'pdf-lib'
+import {Locale} from '@/lib/utils/i18n/routing';
+import {Config, ThemeColors} from "@/lib/domain/config";
+import type {ProjectCompletionWithDetails} from "@/lib/domain/project-completion";
+import {getStoredFileKey, IMAGE_RULES} from "@/lib/domain/storage";
+import {StorageService} from "@/lib/service/storage-service";
+
+/**
+ * A4 landscape page size in PDF points.
+ */
+const PAGE_WIDTH = 842
+const PAGE_HEIGHT = 595
+const CONTENT_WIDTH = PAGE_WIDTH - 160
+
+/**
+ * Limits for fetching a remote logo, so a slow or oversized response cannot stall certificate downloads.
+ */
+const LOGO_FETCH_TIMEOUT_MS = 5000
+const LOGO_MAX_BYTES = IMAGE_RULES.logo.maxBytes
+
+/**
+ * Converts a `#rrggbb` theme color to a pdf-lib color.
+ */
+function hexToRgb(hex: string): RGB {
+    const value = hex.replace('#', '')
+    const r = parseInt(value.substring(0, 2), 16) / 255
+    const g = parseInt(value.substring(2, 4), 16) / 255
+    const b = parseInt(value.substring(4, 6), 16) / 255
+    return rgb(r || 0, g || 0, b || 0)
+}
+
+/**
+ * Replaces characters the standard PDF fonts cannot encode.
+ * Accented letters fall back to their base letter, anything else to `?`.
+ */
+function toEncodable(text: string, font: PDFFont): string {
+    const supported = new Set(font.getCharacterSet())
+    return Array.from(text)
+        .map((char) => {
+            if (supported.has(char.codePointAt(0)!)) return char
+            const base = char.normalize('NFKD').charAt(0)
+            return supported.has(base.codePointAt(0)!) ? base : '?'
+        })
+        .join('')
+}
+
+/**
+ * Splits text into lines that fit the given width.
+ */
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+    const lines: string[] = []
+    let current = ''
+    for (const word of text.split(/\s+/)) {
+        const candidate = current ? `${current} ${word}` : word
+        if (current && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+            lines.push(current)
+            current = word
+        } else {
+            current = candidate
+        }
+    }
+    if (current) lines.push(current)
+    return lines
+}
+
+/**
+ * Draws horizontally centered, wrapped text and returns the y position below it.
+ */
+function drawCentered(page: PDFPage, text: string, y: number, font: PDFFont, size: number, color: RGB): number {
+    let cursor = y
+    for (const line of wrapText(toEncodable(text, font), font, size, CONTENT_WIDTH)) {
+        const width = font.widthOfTextAtSize(line, size)
+        page.drawText(line, {x: (PAGE_WIDTH - width) / 2, y: cursor, size, font, color})
+        cursor -= size * 1.35
+    }
+    return cursor
+}
+
+/**
+ * Reads a response body, giving up once it exceeds `maxBytes`.
+ *
+ * @returns The body, or null if it is too large.
+ */
+async function readLimited(response: Response, maxBytes: number): Promise<Uint8Array | null> {
+    if (Number(response.headers.get('content-length')) > maxBytes || !response.body) return null
+
+    const reader = response.body.getReader()
+    const chunks: Uint8Array[] = []
+    let size = 0
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        size += chunk.value.byteLength
+        if (size > maxBytes) {
+            await reader.cancel()
+            return null
+        }
+        chunks.push(chunk.value)
+    }
+    return new Uint8Array(Buffer.concat(chunks))
+}
+
+/**
+ * Embeds the platform logo when it is a PNG or JPEG, given as an uploaded file, a data URL or a remote URL.
+ * Other formats (e.g. SVG), and remote logos that are too slow or too large, are skipped so the
+ * certificate is still generated.
+ */
+async function embedLogo(pdf: PDFDocument, logo: string): Promise<PDFImage | null> {
+    try {
+        let bytes: Uint8Array
+        const storedKey = getStoredFileKey(logo)
+        if (storedKey) {
+            const file = await StorageService.instance.getFile(storedKey)
+            if (!file) return null
+            bytes = new Uint8Array(file.body)
+        } else if (logo.startsWith('data:')) {
+            bytes = Buffer.from(logo.substring(logo.indexOf(',') + 1), 'base64')
+        } else if (/^https?:\/\//.test(logo)) {
+            const response = await fetch(logo, {signal: AbortSignal.timeout(LOGO_FETCH_TIMEOUT_MS)})
+            if (!response.ok) return null
+            const body = await readLimited(response, LOGO_MAX_BYTES)
+            if (!body) return null
+            bytes = body
+        } else {
+            return null
+        }
+
+        if (bytes[0] === 0x89 && bytes[1] === 0x50) return await pdf.embedPng(bytes)
+        if (bytes[0] === 0xff && bytes[1] === 0xd8) return await pdf.embedJpg(bytes)
+        return null
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Completion Certificate Template
+ * PDF certificate issued to a student once their project completion is published.
+ *
+ * @param completion - The published completion with student and project details.
+ * @param verificationCode - Code printed on the certificate for authenticity checks.
+ * @param verificationUrl - Public URL where the code can be verified.
+ * @param translations - Translation function.
+ * @param locale - Locale language.
+ * @param config - Platform config.
+ * @returns The PDF document bytes.
+ */
+export async function getCompletionCertificatePdf(
+    completion: ProjectCompletionWithDetails,
+    verificationCode: string,
+    verificationUrl: string,
+    translations: any,
+    locale: Locale = 'en',
+    config: Config
+): Promise<Uint8Array> {
+    const t = translations;
+    const lightColors = (config.themeColors as ThemeColors).light
+    const primary = hexToRgb(lightColors.primary)
+    const textPrimary = hexToRgb(lightColors.textPrimary)
+    const textSecondary = hexToRgb(lightColors.textSecondary)
+
+    const pdf = await PDFDocument.create()
+    pdf.setTitle(t('certificate.title'))
+    pdf.setAuthor(config.name)
+    pdf.setLanguage(locale)
+
+    const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+    const regular = await pdf.embedFont(StandardFonts.Helvetica)
+    const bold = await pdf.embedFont(StandardFonts.HelveticaBold)
+
+    // Frame
+    page.drawRectangle({
+        x: 24, y: 24, width: PAGE_WIDTH - 48, height: PAGE_HEIGHT - 48,
+        borderColor: primary, borderWidth: 3,
+    })
+    page.drawRectangle({
+        x: 34, y: 34, width: PAGE_WIDTH - 68, height: PAGE_HEIGHT - 68,
+        borderColor: hexToRgb(lightColors.border), borderWidth: 1,
+    })
+
+    // Header
+    let y = PAGE_HEIGHT - 70
+    const logo = await embedLogo(pdf, config.logo)
+    if (logo) {
+        const scaled = logo.scaleToFit(160, 50)
+        page.drawImage(logo, {x: (PAGE_WIDTH - scaled.width) / 2, y: y - scaled.height, ...scaled})
+        y -= scaled.height + 18
+    }
+    y = drawCentered(page, config.name, y - 10, bold, 14, textSecondary)
+    y = drawCentered(page, t('certificate.title'), y - 16, bold, 30, primary)
+
+    // Body
+    y = drawCentered(page, t('certificate.certifies'), y - 14, regular, 12, textSecondary)
+    y = drawCentered(page, completion.student.user.name, y - 8, bold, 24, textPrimary)
+    y = drawCentered(page, t('certificate.completed'), y - 6, regular, 12, textSecondary)
+    y = drawCentered(page, completion.project.title, y - 6, bold, 16, textPrimary)
+
+    const partners = completion.project.coordinator
+        ? t('certificate.partnersWithCoordinator', {
+            organization: completion.project.organization.user.name,
+            coordinator: completion.project.coordinator.user.name,
+        })
+        : t('certificate.partners', {organization: completion.project.organization.user.name})
+    y = drawCentered(page, partners, y - 4, regular, 11, textSecondary)
+
+    const details = [
+        completion.actualHoursWorked ? t('certificate.hours', {count: completion.actualHoursWorked}) : null,
+        completion.actualDurationWeeks ? t('certificate.weeks', {count: completion.actualDurationWeeks}) : null,
+        t('certificate.completedOn', {date: new Date(completion.completedAt).toLocaleDateString(locale)}),
+    ].filter(Boolean).join('  ·  ')
+    y = drawCentered(page, details, y - 10, regular, 11, textPrimary)
+
+    const ratings = [
+        completion.coordinatorPerformanceRating
+            ? t('certificate.coordinatorRating', {rating: t(`completion.ratings.${completion.coordinatorPerformanceRating}`)})
+            : null,
+        completion.organizationPerformanceRating
+            ? t('certificate.organizationRating', {rating: t(`completion.ratings.${completion.organizationPerformanceRating}`)})
+            : null,
+    ].filter(Boolean).join('  ·  ')
+    if (ratings) {
+        drawCentered(page, ratings, y - 4, bold, 11, primary)
+    }
+
+    // Footer
+    drawCentered(page, t('certificate.verification', {code: verificationCode}), 78, bold, 10, textPrimary)
+    drawCentered(page, t('certificate.verifyAt', {url: verificationUrl}), 62, regular, 9, textSecondary)
+
+    return pdf.save()
+}
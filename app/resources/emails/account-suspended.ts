@@ -1,5 +1,6 @@
 /** @format */
 import 'server-only'
+import type {getTranslations} from 'next-intl/server';
 import {Locale} from '@/lib/utils/i18n/routing';
 import {Config, ThemeColors} from "@/lib/domain/config";
 
@@ -17,7 +18,7 @@ import {Config, ThemeColors} from "@/lib/domain/config";
 export function getAccountSuspendedTemplate(
     name: string,
     reason: string,
-    translations: any,
+    translations: Awaited<ReturnType<typeof getTranslations>>,
     locale: Locale = 'en',
     config: Config
 ): string {
@@ -0,0 +1,99 @@
+/** @format */
+import 'server-only'
+import type {getTranslations} from 'next-intl/server';
+import {Locale} from '@/lib/utils/i18n/routing';
+import {Config} from "@/lib/domain/config";
+import {EmailTemplateKey, EmailTemplateVariables} from "@/lib/domain/email-template";
+import {getVerificationEmailTemplate} from './verification';
+import {getWelcomeEmailTemplate} from './welcome';
+import {getPasswordResetEmailTemplate} from './password-reset';
+import {getAccountSuspendedTemplate} from './account-suspended';
+import {getOrganizationApprovedTemplate} from './organization-approved';
+import {getOrganizationRejectedTemplate} from './organization-rejected';
+import {getNewOrganizationSignupTemplate} from './new-organization-signup';
+import {getCoordinatorReviewSubmittedTemplate} from './coordinator-review-submitted';
+import {getOrganizationReviewSubmittedTemplate} from './organization-review-submitted';
+import {getApplicationAcceptedTemplate} from './application-accepted';
+import {getApplicationRejectedTemplate} from './application-rejected';
+import {getProjectAssignedTemplate} from './project-assigned';
+import {getProjectApprovedTemplate} from './project-approved';
+import {getProjectChangesRequestedTemplate} from './project-changes-requested';
+import {getNotificationDigestTemplate} from './notification-digest';
+
+/**
+ * Built-in template used when no administrator override exists.
+ */
+type BuiltInEmailTemplate = {
+    /** Message namespace holding the `from` label and `subject` of the email. */
+    namespace: string;
+    /** Renders the HTML body from the template variables. */
+    render: (variables: EmailTemplateVariables, translations: Awaited<ReturnType<typeof getTranslations>>, locale: Locale, config: Config) => string;
+};
+
+/**
+ * Built-in Email Templates
+ * Maps every editable template key to its hard-coded template.
+ * The variable names match `EMAIL_TEMPLATE_VARIABLES`.
+ */
+export const BUILT_IN_EMAIL_TEMPLATES: Record<EmailTemplateKey, BuiltInEmailTemplate> = {
+    [EmailTemplateKey.VERIFICATION]: {
+        namespace: 'email.verification',
+        render: (v, t, locale, config) => getVerificationEmailTemplate(v.name, v.url, t, locale, config),
+    },
+    [EmailTemplateKey.WELCOME]: {
+        namespace: 'email.welcome',
+        render: (v, t, locale, config) => getWelcomeEmailTemplate(v.name, v.url, t, locale, config),
+    },
+    [EmailTemplateKey.PASSWORD_RESET]: {
+        namespace: 'email.passwordReset',
+        render: (v, t, locale, config) => getPasswordResetEmailTemplate(v.name, v.url, t, locale, config),
+    },
+    [EmailTemplateKey.ACCOUNT_SUSPENDED]: {
+        namespace: 'email.suspended',
+        render: (v, t, locale, config) => getAccountSuspendedTemplate(v.name, v.reason, t, locale, config),
+    },
+    [EmailTemplateKey.ORGANIZATION_APPROVED]: {
+        namespace: 'email.orgApproved',
+        render: (v, t, locale, config) => getOrganizationApprovedTemplate(v.name, v.url, t, locale, config),
+    },
+    [EmailTemplateKey.ORGANIZATION_REJECTED]: {
+        namespace: 'email.orgRejected',
+        render: (v, t, locale, config) => getOrganizationRejectedTemplate(v.name, v.reason, t, locale, config),
+    },
+    [EmailTemplateKey.NEW_ORGANIZATION_SIGNUP]: {
+        namespace: 'email.newOrgSignup',
+        render: (v, t, locale, config) => getNewOrganizationSignupTemplate(v.organizationName, v.url, t, locale, config),
+    },
+    [EmailTemplateKey.COORDINATOR_REVIEW_SUBMITTED]: {
+        namespace: 'email.coordinatorReviewSubmitted',
+        render: (v, t, locale, config) => getCoordinatorReviewSubmittedTemplate(v.name, v.projectName, v.url, t, locale, config),
+    },
+    [EmailTemplateKey.ORGANIZATION_REVIEW_SUBMITTED]: {
+        namespace: 'email.organizationReviewSubmitted',
+        render: (v, t, locale, config) => getOrganizationReviewSubmittedTemplate(v.name, v.projectName, v.url, t, locale, config),
+    },
+    [EmailTemplateKey.APPLICATION_ACCEPTED]: {
+        namespace: 'email.applicationAccepted',
+        render: (v, t, locale, config) => getApplicationAcceptedTemplate(v.name, v.projectName, v.url, t, locale, config),
+    },
+    [EmailTemplateKey.APPLICATION_REJECTED]: {
+        namespace: 'email.applicationRejected',
+        render: (v, t, locale, config) => getApplicationRejectedTemplate(v.name, v.projectName, v.reason, v.url, t, locale, config),
+    },
+    [EmailTemplateKey.PROJECT_ASSIGNED]: {
+        namespace: 'email.projectAssigned',
+        render: (v, t, locale, config) => getProjectAssignedTemplate(v.name, v.projectName, v.organizationName, v.url, t, locale, config),
+    },
+    [EmailTemplateKey.PROJECT_APPROVED]: {
+        namespace: 'email.projectApproved',
+        render: (v, t, locale, config) => getProjectApprovedTemplate(v.name, v.projectName, v.url, t, locale, config),
+    },
+    [EmailTemplateKey.PROJECT_CHANGES_REQUESTED]: {
+        namespace: 'email.projectChangesRequested',
+        render: (v, t, locale, config) => getProjectChangesRequestedTemplate(v.name, v.projectName, v.reason, v.url, t, locale, config),
+    },
+    [EmailTemplateKey.NOTIFICATION_DIGEST]: {
+        namespace: 'email.notificationDigest',
+        render: (v, t, locale, config) => getNotificationDigestTemplate(v.name, v.count, v.notifications, v.url, t, locale, config),
+    },
+};
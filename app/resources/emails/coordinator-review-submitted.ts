@@ -1,5 +1,6 @@
 /** @format */
 import 'server-only'
+import type {getTranslations} from 'next-intl/server';
 import {Locale} from '@/lib/utils/i18n/routing';
 import {Config, ThemeColors} from "@/lib/domain/config";
 
@@ -19,7 +20,7 @@ export function getCoordinatorReviewSubmittedTemplate(
     studentName: string,
     projectName: string,
     dashboardUrl: string,
-    translations: any,
+    translations: Awaited<ReturnType<typeof getTranslations>>,
     locale: Locale = 'en',
     config: Config
 ): string {
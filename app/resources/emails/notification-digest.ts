@@ -0,0 +1,157 @@
+/** @format */
+import type {getTranslations} from 'next-intl/server';
+import type {Locale} from '@/lib/utils/i18n/routing';
+import type {Config, ThemeColors} from "@/lib/domain/config";
+import type {Notification, NotificationParams} from "@/lib/domain/notification";
+import {escapeHtml} from "@/lib/utils/email-template";
+
+/**
+ * Renders the rows listing the notifications of a digest, inserted into the
+ * template through the `notifications` variable. The notification parameters hold
+ * user-entered names, so they are escaped before they are translated.
+ *
+ * @param notifications - Pending notifications, oldest first.
+ * @param appUrl - Base URL of the platform, prepended to notification links.
+ * @param translations - Translation function.
+ * @param locale - Locale language.
+ * @param config - Platform config.
+ * @returns HTML table rows.
+ */
+export function getNotificationDigestItems(
+    notifications: Notification[],
+    appUrl: string,
+    translations: Awaited<ReturnType<typeof getTranslations>>,
+    locale: Locale = 'en',
+    config: Config
+): string {
+    const t = translations;
+    const lightColors = (config.themeColors as ThemeColors).light
+
+    return notifications.map((notification) => {
+        const params = Object.fromEntries(
+            Object.entries(notification.params as NotificationParams).map(([key, value]) => [key, escapeHtml(String(value))])
+        )
+        const title = t(`notifications.types.${notification.type}.title`, params)
+        const message = t(`notifications.types.${notification.type}.message`, params)
+        const titleHtml = notification.link
+            ? `<a href="${escapeHtml(`${appUrl}${notification.link}`)}" style="color: ${lightColors.primary}; text-decoration: none;">${title}</a>`
+            : title
+
+        return `
+                                        <tr>
+                                            <td style="padding: 14px 0; border-bottom-width: 1px; border-bottom-style: solid; border-bottom-color: ${lightColors.border};">
+                                                <p style="color: ${lightColors.textPrimary}; font-size: 15px; font-weight: 600; margin: 0 0 4px 0;">
+                                                    ${titleHtml}
+                                                </p>
+                                                <p style="color: ${lightColors.textSecondary}; font-size: 14px; line-height: 1.5; margin: 0 0 4px 0;">
+                                                    ${message}
+                                                </p>
+                                                <p style="color: ${lightColors.textSecondary}; font-size: 12px; margin: 0;">
+                                                    ${new Date(notification.createdAt).toLocaleString(locale)}
+                                                </p>
+                                            </td>
+                                        </tr>`
+    }).join('')
+}
+
+/**
+ * Notification Digest Template
+ * Daily email listing every event a user chose to receive as a digest.
+ * Rendered by the digest job script, so it does not import `server-only`.
+ *
+ * @param name - The recipient's name.
+ * @param count - Number of notifications in the digest.
+ * @param notifications - Rows rendered by {@link getNotificationDigestItems}.
+ * @param url - Link to the notifications page.
+ * @param translations - Translation function.
+ * @param locale - Locale language.
+ * @param config - Platform config.
+ * @returns HTML string for email body.
+ */
+export function getNotificationDigestTemplate(
+    name: string,
+    count: string,
+    notifications: string,
+    url: string,
+    translations: Awaited<ReturnType<typeof getTranslations>>,
+    locale: Locale = 'en',
+    config: Config
+): string {
+    const t = translations;
+    const lightColors = (config.themeColors as ThemeColors).light
+
+    return `
+        <!DOCTYPE html>
+        <html lang="${locale}">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>${t('email.notificationDigest.subject', {count})}</title>
+        </head>
+        <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', 'Oxygen', 'Ubuntu', 'Cantarell', 'Fira Sans', 'Droid Sans', 'Helvetica Neue', sans-serif; background-color: ${lightColors.surface};">
+            <table role="presentation" style="width: 100%; border-collapse: collapse; background-color: ${lightColors.surface};">
+                <tr>
+                    <td style="padding: 40px 20px;">
+                        <table role="presentation" style="width: 100%; max-width: 600px; margin: 0 auto; border-collapse: collapse; background-color: ${lightColors.background}; border-radius: 8px; overflow: hidden; border-width: 1px; border-style: solid; border-color: ${lightColors.border}; box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06);">
+                            
+                            <!-- BRANDING HEADER -->
+                            <tr>
+                                <td style="padding: 30px 30px 20px 30px; text-align: center; background-color: ${lightColors.background}; border-bottom-width: 1px; border-bottom-style: solid; border-bottom-color: ${lightColors.border};">
+                                    <img src="${config.logo}" 
+                                         alt="${config.name}" 
+                                         style="max-height: 60px; max-width: 200px; height: auto; width: auto; display: block; margin: 0 auto;" 
+                                    />
+                                </td>
+                            </tr>
+
+                            <!-- STATUS STRIPE (Primary Color for Information) -->
+                            <tr>
+                                <td style="background-color: ${lightColors.primary}; height: 4px;"></td>
+                            </tr>
+                            
+                            <!-- MAIN CONTENT -->
+                            <tr>
+                                <td style="padding: 40px 30px;">
+                                    <h2 style="color: ${lightColors.textPrimary}; font-size: 24px; font-weight: 600; margin: 0 0 16px 0; line-height: 1.3;">
+                                        ${t('email.notificationDigest.greeting', {name})}
+                                    </h2>
+                                    <p style="color: ${lightColors.textPrimary}; font-size: 16px; line-height: 1.6; margin: 0 0 16px 0;">
+                                        ${t('email.notificationDigest.body', {count})}
+                                    </p>
+
+                                    <table role="presentation" style="width: 100%; border-collapse: collapse;">${notifications}
+                                    </table>
+                                    
+                                    <table role="presentation" style="width: 100%; border-collapse: collapse; margin: 30px 0 10px 0;">
+                                        <tr>
+                                            <td style="text-align: center;">
+                                                <a href="${url}" 
+                                                   style="display: inline-block; background-color: ${lightColors.primary}; color: ${lightColors.primaryForeground}; padding: 14px 28px; text-decoration: none; border-radius: 8px; font-weight: 500; font-size: 16px;">
+                                                    ${t('email.notificationDigest.buttonText')}
+                                                </a>
+                                            </td>
+                                        </tr>
+                                    </table>
+
+                                    <p style="color: ${lightColors.textSecondary}; font-size: 13px; line-height: 1.5; margin: 0; text-align: center;">
+                                        ${t('email.notificationDigest.preferences')}
+                                    </p>
+                                </td>
+                            </tr>
+
+                            <!-- FOOTER -->
+                            <tr>
+                                <td style="padding: 20px 30px; background-color: ${lightColors.muted}; border-top-width: 1px; border-top-style: solid; border-top-color: ${lightColors.border};">
+                                    <p style="color: ${lightColors.textSecondary}; font-size: 12px; line-height: 1.5; margin: 0; text-align: center;">
+                                        © ${new Date().getFullYear()} <strong>${config.name}</strong>. All rights reserved.
+                                    </p>
+                                </td>
+                            </tr>
+                        </table>
+                    </td>
+                </tr>
+            </table>
+        </body>
+        </html>
+    `;
+}